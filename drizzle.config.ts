@@ -4,6 +4,8 @@ export default {
   schema: "./src/app/infrastructure/models/index.ts",
   out: "./drizzle",
   dialect: "sqlite",
+  // FTS5 virtual table and its shadow tables are created at startup
+  tablesFilter: ["!document_content_fts*"],
   dbCredentials: {
     url: "./data/hdm.db",
   },
@@ -0,0 +1,6 @@
+/**
+ * Access Token DTOs exports
+ */
+
+export * from "./request.dto";
+export * from "./response.dto";
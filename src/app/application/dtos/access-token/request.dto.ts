@@ -0,0 +1,105 @@
+/**
+ * Access Token Request DTOs
+ *
+ * Each operation has two schemas:
+ * - *Input: Raw input from API (strings) - used by presentation layer
+ * - *Command/*Query: Branded domain types - used by workflows after transformation
+ */
+
+import { Schema as S } from "effect";
+import {
+  StringToAccessTokenId,
+  StringToUserId,
+} from "../../../domain/refined/uuid";
+import {
+  AccessTokenName,
+  AccessTokenScope,
+  MAX_ACCESS_TOKEN_TTL_DAYS,
+} from "../../../domain/access-token/value-object";
+
+// ============================================================================
+// Create Access Token
+// ============================================================================
+
+/**
+ * Raw input from API
+ * Without expiresInDays the token does not expire
+ */
+export const CreateAccessTokenInput = S.Struct({
+  userId: S.String,
+  name: S.String,
+  scope: S.String,
+  expiresInDays: S.optional(S.Number),
+});
+export type CreateAccessTokenInput = S.Schema.Type<
+  typeof CreateAccessTokenInput
+>;
+
+/**
+ * Branded command for workflows
+ */
+export const CreateAccessTokenCommand = S.Struct({
+  userId: StringToUserId,
+  name: AccessTokenName,
+  scope: AccessTokenScope,
+  expiresInDays: S.optional(
+    S.Number.pipe(
+      S.int(),
+      S.positive(),
+      S.lessThanOrEqualTo(MAX_ACCESS_TOKEN_TTL_DAYS)
+    )
+  ),
+});
+export type CreateAccessTokenCommand = S.Schema.Type<
+  typeof CreateAccessTokenCommand
+>;
+
+// ============================================================================
+// List Access Tokens
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const ListAccessTokensInput = S.Struct({
+  userId: S.String,
+});
+export type ListAccessTokensInput = S.Schema.Type<
+  typeof ListAccessTokensInput
+>;
+
+/**
+ * Branded query for workflows
+ */
+export const ListAccessTokensQuery = S.Struct({
+  userId: StringToUserId,
+});
+export type ListAccessTokensQuery = S.Schema.Type<
+  typeof ListAccessTokensQuery
+>;
+
+// ============================================================================
+// Revoke Access Token
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const RevokeAccessTokenInput = S.Struct({
+  userId: S.String,
+  tokenId: S.String,
+});
+export type RevokeAccessTokenInput = S.Schema.Type<
+  typeof RevokeAccessTokenInput
+>;
+
+/**
+ * Branded command for workflows
+ */
+export const RevokeAccessTokenCommand = S.Struct({
+  userId: StringToUserId,
+  tokenId: StringToAccessTokenId,
+});
+export type RevokeAccessTokenCommand = S.Schema.Type<
+  typeof RevokeAccessTokenCommand
+>;
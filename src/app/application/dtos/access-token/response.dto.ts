@@ -0,0 +1,55 @@
+/**
+ * Access Token Response DTOs
+ *
+ * Token hashes are never exposed; the token itself only once, on creation.
+ */
+
+import { Schema as S } from "effect";
+import { AccessTokenId, UserId } from "../../../domain/refined/uuid";
+import {
+  AccessTokenName,
+  AccessTokenScope,
+} from "../../../domain/access-token/value-object";
+import { DateTime } from "../../../domain/refined/date-time";
+
+/**
+ * Access Token Response
+ */
+export const AccessTokenResponse = S.Struct({
+  id: AccessTokenId,
+  userId: UserId,
+  name: AccessTokenName,
+  scope: AccessTokenScope,
+  tokenHint: S.String,
+  expiresAt: S.optional(DateTime),
+  lastUsedAt: S.optional(DateTime),
+  revokedAt: S.optional(DateTime),
+  createdAt: DateTime,
+});
+
+export type AccessTokenResponse = S.Schema.Type<typeof AccessTokenResponse>;
+
+/**
+ * Created Access Token Response
+ * token is shown once and cannot be retrieved again
+ */
+export const CreatedAccessTokenResponse = S.Struct({
+  accessToken: AccessTokenResponse,
+  token: S.String,
+});
+
+export type CreatedAccessTokenResponse = S.Schema.Type<
+  typeof CreatedAccessTokenResponse
+>;
+
+/**
+ * List Access Tokens Response
+ */
+export const ListAccessTokensResponse = S.Struct({
+  accessTokens: S.Array(AccessTokenResponse),
+  total: S.Number,
+});
+
+export type ListAccessTokensResponse = S.Schema.Type<
+  typeof ListAccessTokensResponse
+>;
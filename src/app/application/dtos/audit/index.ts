@@ -0,0 +1,6 @@
+/**
+ * Audit DTOs exports
+ */
+
+export * from "./request.dto";
+export * from "./response.dto";
@@ -0,0 +1,156 @@
+/**
+ * Audit Request DTOs
+ *
+ * Each operation has two schemas:
+ * - *Input: Raw input from API (strings) - used by presentation layer
+ * - *Query: Branded domain types - used by workflows after transformation
+ */
+
+import { Schema as S } from "effect";
+import {
+  StringToDocumentId,
+  StringToUserId,
+} from "../../../domain/refined/uuid";
+import { DateTime } from "../../../domain/refined/date-time";
+
+/**
+ * Page size, given as a query string
+ */
+const AuditPageLimit = S.NumberFromString.pipe(
+  S.int(),
+  S.positive(),
+  S.lessThanOrEqualTo(100)
+);
+
+// ============================================================================
+// Get Document Audit
+// ============================================================================
+
+/**
+ * Raw input from API
+ * cursor is the nextCursor of the previous page
+ */
+export const GetDocumentAuditInput = S.Struct({
+  documentId: S.String,
+  userId: S.String,
+  cursor: S.optional(S.String),
+  limit: S.optional(S.String),
+});
+export type GetDocumentAuditInput = S.Schema.Type<
+  typeof GetDocumentAuditInput
+>;
+
+/**
+ * Branded query for workflows
+ */
+export const GetDocumentAuditQuery = S.Struct({
+  documentId: StringToDocumentId,
+  userId: StringToUserId,
+  cursor: S.optional(S.String),
+  limit: S.optional(AuditPageLimit),
+});
+export type GetDocumentAuditQuery = S.Schema.Type<
+  typeof GetDocumentAuditQuery
+>;
+
+// ============================================================================
+// Query Audit Log (Admin)
+// ============================================================================
+
+/**
+ * Raw input from API
+ * from / to are ISO timestamps and bound the range inclusively
+ */
+export const QueryAuditLogInput = S.Struct({
+  userId: S.String,
+  documentId: S.optional(S.String),
+  performedBy: S.optional(S.String),
+  action: S.optional(S.String),
+  from: S.optional(S.String),
+  to: S.optional(S.String),
+  cursor: S.optional(S.String),
+  limit: S.optional(S.String),
+});
+export type QueryAuditLogInput = S.Schema.Type<typeof QueryAuditLogInput>;
+
+/**
+ * Branded query for workflows
+ */
+export const QueryAuditLogQuery = S.Struct({
+  userId: StringToUserId,
+  documentId: S.optional(StringToDocumentId),
+  performedBy: S.optional(StringToUserId),
+  action: S.optional(S.String.pipe(S.nonEmptyString())),
+  from: S.optional(DateTime),
+  to: S.optional(DateTime),
+  cursor: S.optional(S.String),
+  limit: S.optional(AuditPageLimit),
+});
+export type QueryAuditLogQuery = S.Schema.Type<typeof QueryAuditLogQuery>;
+
+// ============================================================================
+// Export Audit (every matching entry, no pagination)
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const ExportDocumentAuditInput = GetDocumentAuditInput.pipe(
+  S.omit("cursor", "limit")
+);
+export type ExportDocumentAuditInput = S.Schema.Type<
+  typeof ExportDocumentAuditInput
+>;
+
+/**
+ * Branded query for workflows
+ */
+export const ExportDocumentAuditQuery = GetDocumentAuditQuery.pipe(
+  S.omit("cursor", "limit")
+);
+export type ExportDocumentAuditQuery = S.Schema.Type<
+  typeof ExportDocumentAuditQuery
+>;
+
+/**
+ * Raw input from API
+ */
+export const ExportAuditLogInput = QueryAuditLogInput.pipe(
+  S.omit("cursor", "limit")
+);
+export type ExportAuditLogInput = S.Schema.Type<typeof ExportAuditLogInput>;
+
+/**
+ * Branded query for workflows
+ */
+export const ExportAuditLogQuery = QueryAuditLogQuery.pipe(
+  S.omit("cursor", "limit")
+);
+export type ExportAuditLogQuery = S.Schema.Type<typeof ExportAuditLogQuery>;
+
+// ============================================================================
+// Verify Audit Chain (Admin)
+// ============================================================================
+
+/**
+ * Raw input from API
+ * Without documentId every document's chain is verified
+ */
+export const VerifyAuditChainInput = S.Struct({
+  userId: S.String,
+  documentId: S.optional(S.String),
+});
+export type VerifyAuditChainInput = S.Schema.Type<
+  typeof VerifyAuditChainInput
+>;
+
+/**
+ * Branded query for workflows
+ */
+export const VerifyAuditChainQuery = S.Struct({
+  userId: StringToUserId,
+  documentId: S.optional(StringToDocumentId),
+});
+export type VerifyAuditChainQuery = S.Schema.Type<
+  typeof VerifyAuditChainQuery
+>;
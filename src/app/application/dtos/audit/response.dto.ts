@@ -0,0 +1,68 @@
+/**
+ * Audit Response DTOs
+ */
+
+import { Schema as S } from "effect";
+import {
+  AuditEntryId,
+  DocumentId,
+  UserId,
+} from "../../../domain/refined/uuid";
+import { DateTime } from "../../../domain/refined/date-time";
+import { CursorPaginated } from "../../../domain/shared/pagination";
+
+/**
+ * Audit Entry Response
+ */
+export const AuditEntryResponse = S.Struct({
+  id: AuditEntryId,
+  documentId: S.optional(DocumentId),
+  action: S.String,
+  performedBy: UserId,
+  details: S.optional(S.String),
+  before: S.optional(S.Unknown),
+  after: S.optional(S.Unknown),
+  correlationId: S.optional(S.String),
+  performedAt: DateTime,
+});
+
+export type AuditEntryResponse = S.Schema.Type<typeof AuditEntryResponse>;
+
+/**
+ * Audit Log Response (cursor-paginated, newest first)
+ */
+export const AuditLogResponse = CursorPaginated(AuditEntryResponse);
+
+export type AuditLogResponse = S.Schema.Type<typeof AuditLogResponse>;
+
+/**
+ * First audit entry whose link in the hash chain does not verify
+ */
+export const AuditChainBreakResponse = S.Struct({
+  documentId: S.NullOr(S.String),
+  entryId: S.String,
+  sequence: S.Number,
+  reason: S.Literal(
+    "SEQUENCE_GAP",
+    "PREVIOUS_HASH_MISMATCH",
+    "HASH_MISMATCH"
+  ),
+});
+
+export type AuditChainBreakResponse = S.Schema.Type<
+  typeof AuditChainBreakResponse
+>;
+
+/**
+ * Audit Chain Verification Response
+ */
+export const AuditChainVerificationResponse = S.Struct({
+  valid: S.Boolean,
+  documentsChecked: S.Number,
+  entriesChecked: S.Number,
+  brokenLink: S.optional(AuditChainBreakResponse),
+});
+
+export type AuditChainVerificationResponse = S.Schema.Type<
+  typeof AuditChainVerificationResponse
+>;
@@ -13,6 +13,7 @@ import {
   StringToDocumentId,
   StringToDocumentVersionId,
   StringToUserId,
+  StringToFolderId,
 } from "../../../domain/refined/uuid";
 import {
   Filename,
@@ -20,6 +21,10 @@ import {
   FileSize,
   FilePath,
 } from "../../../domain/document/value-object";
+import {
+  MetadataKey,
+  MetadataValue,
+} from "../../../domain/metedata/value-object";
 import { UploadedFileSchema } from "../../ports/storage.port";
 
 /**
@@ -27,6 +32,7 @@ import { UploadedFileSchema } from "../../ports/storage.port";
  */
 export const UploadDocumentInput = S.Struct({
   documentId: S.optional(S.String),
+  folderId: S.optional(S.String),
   file: UploadedFileSchema,
   uploadedBy: S.String,
 });
@@ -38,10 +44,12 @@ export type UploadDocumentInput = S.Schema.Type<typeof UploadDocumentInput>;
  *
  * Single-step upload that creates new document or adds version to existing.
  * If documentId is provided, creates a new version; otherwise creates new document.
+ * New documents are placed in folderId when given, otherwise at the user's root level.
  * File metadata is automatically extracted by the storage layer.
  */
 export const UploadDocumentCommand = S.Struct({
   documentId: S.optional(StringToDocumentId),
+  folderId: S.optional(StringToFolderId),
   file: UploadedFileSchema,
   uploadedBy: StringToUserId,
 });
@@ -97,9 +105,11 @@ export type GetDocumentVersionQuery = S.Schema.Type<
 /**
  * List Documents Input (raw from API)
  * Query parameters come as strings from URLs
+ * When folderId is given, only documents directly inside that folder are listed
  */
 export const ListDocumentsInput = S.Struct({
   userId: S.String,
+  folderId: S.optional(S.String),
   page: S.optional(S.NumberFromString.pipe(S.positive())),
   limit: S.optional(
     S.NumberFromString.pipe(S.positive(), S.lessThanOrEqualTo(100))
@@ -113,6 +123,7 @@ export type ListDocumentsInput = S.Schema.Type<typeof ListDocumentsInput>;
  */
 export const ListDocumentsQuery = S.Struct({
   userId: StringToUserId,
+  folderId: S.optional(StringToFolderId),
   page: S.optional(S.Number.pipe(S.positive())),
   limit: S.optional(S.Number.pipe(S.positive(), S.lessThanOrEqualTo(100))),
 });
@@ -171,6 +182,70 @@ export const SearchDocumentsQuery = S.Struct({
 
 export type SearchDocumentsQuery = S.Schema.Type<typeof SearchDocumentsQuery>;
 
+/**
+ * Metadata predicate (raw from API)
+ * eq: key equals value, in: key equals one of values, exists: key is set
+ */
+export const MetadataPredicateInput = S.Union(
+  S.Struct({ key: S.String, op: S.Literal("eq"), value: S.String }),
+  S.Struct({
+    key: S.String,
+    op: S.Literal("in"),
+    values: S.Array(S.String).pipe(S.minItems(1)),
+  }),
+  S.Struct({ key: S.String, op: S.Literal("exists") })
+);
+
+export type MetadataPredicateInput = S.Schema.Type<
+  typeof MetadataPredicateInput
+>;
+
+/**
+ * Metadata predicate (branded)
+ */
+export const MetadataPredicateQuery = S.Union(
+  S.Struct({ key: MetadataKey, op: S.Literal("eq"), value: MetadataValue }),
+  S.Struct({
+    key: MetadataKey,
+    op: S.Literal("in"),
+    values: S.Array(MetadataValue).pipe(S.minItems(1)),
+  }),
+  S.Struct({ key: MetadataKey, op: S.Literal("exists") })
+);
+
+export type MetadataPredicateQuery = S.Schema.Type<
+  typeof MetadataPredicateQuery
+>;
+
+/**
+ * Query Documents Input (raw from API)
+ * Sent as a JSON body, all conditions must match
+ */
+export const QueryDocumentsInput = S.Struct({
+  userId: S.String,
+  text: S.optional(S.String.pipe(S.minLength(1))),
+  mimeType: S.optional(S.String),
+  metadata: S.optional(S.Array(MetadataPredicateInput).pipe(S.maxItems(20))),
+  page: S.optional(S.Number.pipe(S.positive())),
+  limit: S.optional(S.Number.pipe(S.positive(), S.lessThanOrEqualTo(100))),
+});
+
+export type QueryDocumentsInput = S.Schema.Type<typeof QueryDocumentsInput>;
+
+/**
+ * Query Documents Query (branded)
+ */
+export const QueryDocumentsQuery = S.Struct({
+  userId: StringToUserId,
+  text: S.optional(S.String.pipe(S.minLength(1))),
+  mimeType: S.optional(MimeType),
+  metadata: S.optional(S.Array(MetadataPredicateQuery).pipe(S.maxItems(20))),
+  page: S.optional(S.Number.pipe(S.positive())),
+  limit: S.optional(S.Number.pipe(S.positive(), S.lessThanOrEqualTo(100))),
+});
+
+export type QueryDocumentsQuery = S.Schema.Type<typeof QueryDocumentsQuery>;
+
 /**
  * Delete Document Input (raw from API)
  */
@@ -190,3 +265,176 @@ export const DeleteDocumentCommand = S.Struct({
 });
 
 export type DeleteDocumentCommand = S.Schema.Type<typeof DeleteDocumentCommand>;
+
+/**
+ * Move Document Input (raw from API)
+ * Omitting folderId moves the document to the owner's root level
+ */
+export const MoveDocumentInput = S.Struct({
+  documentId: S.String,
+  folderId: S.optional(S.String),
+  userId: S.String,
+});
+
+export type MoveDocumentInput = S.Schema.Type<typeof MoveDocumentInput>;
+
+/**
+ * Move Document Command (branded)
+ */
+export const MoveDocumentCommand = S.Struct({
+  documentId: StringToDocumentId,
+  folderId: S.optional(StringToFolderId),
+  userId: StringToUserId,
+});
+
+export type MoveDocumentCommand = S.Schema.Type<typeof MoveDocumentCommand>;
+
+/**
+ * Restore Document Version Input (raw from API)
+ */
+export const RestoreDocumentVersionInput = S.Struct({
+  documentId: S.String,
+  versionId: S.String,
+  userId: S.String,
+});
+
+export type RestoreDocumentVersionInput = S.Schema.Type<
+  typeof RestoreDocumentVersionInput
+>;
+
+/**
+ * Restore Document Version Command (branded)
+ */
+export const RestoreDocumentVersionCommand = S.Struct({
+  documentId: StringToDocumentId,
+  versionId: StringToDocumentVersionId,
+  userId: StringToUserId,
+});
+
+export type RestoreDocumentVersionCommand = S.Schema.Type<
+  typeof RestoreDocumentVersionCommand
+>;
+
+/**
+ * List Trash Input (raw from API)
+ * Query parameters come as strings from URLs
+ */
+export const ListTrashInput = S.Struct({
+  userId: S.String,
+  page: S.optional(S.NumberFromString.pipe(S.positive())),
+  limit: S.optional(
+    S.NumberFromString.pipe(S.positive(), S.lessThanOrEqualTo(100))
+  ),
+});
+
+export type ListTrashInput = S.Schema.Type<typeof ListTrashInput>;
+
+/**
+ * List Trash Query (branded)
+ */
+export const ListTrashQuery = S.Struct({
+  userId: StringToUserId,
+  page: S.optional(S.Number.pipe(S.positive())),
+  limit: S.optional(S.Number.pipe(S.positive(), S.lessThanOrEqualTo(100))),
+});
+
+export type ListTrashQuery = S.Schema.Type<typeof ListTrashQuery>;
+
+/**
+ * Restore Document Input (raw from API)
+ * Takes a document back out of the trash
+ */
+export const RestoreDocumentInput = S.Struct({
+  documentId: S.String,
+  userId: S.String,
+});
+
+export type RestoreDocumentInput = S.Schema.Type<typeof RestoreDocumentInput>;
+
+/**
+ * Restore Document Command (branded)
+ */
+export const RestoreDocumentCommand = S.Struct({
+  documentId: StringToDocumentId,
+  userId: StringToUserId,
+});
+
+export type RestoreDocumentCommand = S.Schema.Type<
+  typeof RestoreDocumentCommand
+>;
+
+/**
+ * Purge Trash Input (raw from API, Admin)
+ */
+export const PurgeTrashInput = S.Struct({
+  userId: S.String,
+});
+
+export type PurgeTrashInput = S.Schema.Type<typeof PurgeTrashInput>;
+
+/**
+ * Purge Trash Command (branded)
+ */
+export const PurgeTrashCommand = S.Struct({
+  userId: StringToUserId,
+});
+
+export type PurgeTrashCommand = S.Schema.Type<typeof PurgeTrashCommand>;
+
+/**
+ * Transfer Ownership Input (raw from API)
+ * keepPreviousOwnerAccess leaves the previous owner with a WRITE grant
+ */
+export const TransferOwnershipInput = S.Struct({
+  documentId: S.String,
+  newOwnerId: S.String,
+  keepPreviousOwnerAccess: S.optional(S.Boolean),
+  userId: S.String,
+});
+
+export type TransferOwnershipInput = S.Schema.Type<
+  typeof TransferOwnershipInput
+>;
+
+/**
+ * Transfer Ownership Command (branded)
+ */
+export const TransferOwnershipCommand = S.Struct({
+  documentId: StringToDocumentId,
+  newOwnerId: StringToUserId,
+  keepPreviousOwnerAccess: S.optional(S.Boolean),
+  userId: StringToUserId,
+});
+
+export type TransferOwnershipCommand = S.Schema.Type<
+  typeof TransferOwnershipCommand
+>;
+
+/**
+ * Transfer All Ownership Input (raw from API, Admin)
+ * Moves every document owned by fromUserId to toUserId
+ */
+export const TransferAllOwnershipInput = S.Struct({
+  fromUserId: S.String,
+  toUserId: S.String,
+  keepPreviousOwnerAccess: S.optional(S.Boolean),
+  userId: S.String,
+});
+
+export type TransferAllOwnershipInput = S.Schema.Type<
+  typeof TransferAllOwnershipInput
+>;
+
+/**
+ * Transfer All Ownership Command (branded)
+ */
+export const TransferAllOwnershipCommand = S.Struct({
+  fromUserId: StringToUserId,
+  toUserId: StringToUserId,
+  keepPreviousOwnerAccess: S.optional(S.Boolean),
+  userId: StringToUserId,
+});
+
+export type TransferAllOwnershipCommand = S.Schema.Type<
+  typeof TransferAllOwnershipCommand
+>;
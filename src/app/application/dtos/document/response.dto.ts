@@ -9,6 +9,7 @@ import {
   DocumentId,
   UserId,
   DocumentVersionId,
+  FolderId,
 } from "../../../domain/refined/uuid";
 import {
   Filename,
@@ -28,9 +29,12 @@ export const DocumentResponse = S.Struct({
   originalName: Filename,
   mimeType: MimeType,
   size: FileSize,
+  folderId: S.optional(FolderId),
   uploadedBy: UserId,
   createdAt: S.optional(DateTime),
   updatedAt: S.optional(DateTime),
+  deletedAt: S.optional(DateTime),
+  deletedBy: S.optional(UserId),
 });
 
 export type DocumentResponse = S.Schema.Type<typeof DocumentResponse>;
@@ -90,10 +94,59 @@ export type PaginatedDocumentsResponse = S.Schema.Type<
   typeof PaginatedDocumentsResponseSchema
 >;
 
+/**
+ * Document Search Hit Response
+ * snippet marks matched content with <mark> tags
+ * rank is absent for filename-only matches
+ */
+export const DocumentSearchHitResponse = S.Struct({
+  document: DocumentResponse,
+  rank: S.optional(S.Number),
+  snippet: S.optional(S.String),
+});
+
+export type DocumentSearchHitResponse = S.Schema.Type<
+  typeof DocumentSearchHitResponse
+>;
+
 /**
  * Search Documents Response (returns unique documents, not versions)
  */
-export const SearchDocumentsResponseSchema = Paginated(DocumentResponse);
+export const SearchDocumentsResponseSchema = Paginated(
+  DocumentSearchHitResponse
+);
 export type SearchDocumentsResponse = S.Schema.Type<
   typeof SearchDocumentsResponseSchema
 >;
+
+/**
+ * Purge Trash Response
+ * failedCount documents could not be purged and are retried on the next run
+ */
+export const PurgeTrashResponse = S.Struct({
+  purgedCount: S.Number,
+  failedCount: S.Number,
+  retentionDays: S.Number,
+});
+
+export type PurgeTrashResponse = S.Schema.Type<typeof PurgeTrashResponse>;
+
+/**
+ * Transfer All Ownership Response
+ * Documents whose filename clashes with one already at the new owner's root
+ * level are skipped
+ */
+export const TransferAllOwnershipResponse = S.Struct({
+  transferredCount: S.Number,
+  skipped: S.Array(
+    S.Struct({
+      documentId: DocumentId,
+      filename: S.String,
+      reason: S.String,
+    })
+  ),
+});
+
+export type TransferAllOwnershipResponse = S.Schema.Type<
+  typeof TransferAllOwnershipResponse
+>;
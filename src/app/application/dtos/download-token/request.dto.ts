@@ -65,9 +65,13 @@ export type ValidateDownloadTokenQuery = S.Schema.Type<
 
 /**
  * Download File Input (raw from API)
+ * resumeTag is the If-Range ETag of a ranged request resuming an earlier download
+ * and resumeFrom the first byte that request asks for
  */
 export const DownloadFileInput = S.Struct({
   token: S.String,
+  resumeTag: S.optional(S.String),
+  resumeFrom: S.optional(S.Number),
 });
 
 export type DownloadFileInput = S.Schema.Type<typeof DownloadFileInput>;
@@ -77,6 +81,8 @@ export type DownloadFileInput = S.Schema.Type<typeof DownloadFileInput>;
  */
 export const DownloadFileQuery = S.Struct({
   token: Token,
+  resumeTag: S.optional(S.String),
+  resumeFrom: S.optional(S.NonNegativeInt),
 });
 
 export type DownloadFileQuery = S.Schema.Type<typeof DownloadFileQuery>;
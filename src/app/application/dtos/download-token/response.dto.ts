@@ -33,6 +33,8 @@ export const DownloadFileResponse = S.Struct({
   mimeType: S.String,
   size: S.Number,
   path: S.String, // Storage path for infrastructure to retrieve
+  etag: S.String, // Strong validator derived from the version checksum
+  lastModified: DateTime,
 });
 
 export type DownloadFileResponse = S.Schema.Type<typeof DownloadFileResponse>;
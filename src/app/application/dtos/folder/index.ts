@@ -0,0 +1,6 @@
+/**
+ * Folder DTOs exports
+ */
+
+export * from "./request.dto";
+export * from "./response.dto";
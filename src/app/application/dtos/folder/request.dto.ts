@@ -0,0 +1,155 @@
+/**
+ * Folder Request DTOs
+ *
+ * Each operation has two schemas:
+ * - *Input: Raw input from API (strings) - used by presentation layer
+ * - *Command/*Query: Branded domain types - used by workflows after transformation
+ */
+
+import { Schema as S } from "effect";
+import {
+  StringToFolderId,
+  StringToUserId,
+} from "../../../domain/refined/uuid";
+import { FolderName } from "../../../domain/folder/value-object";
+
+// ============================================================================
+// Create Folder
+// ============================================================================
+
+/**
+ * Raw input from API
+ * Omitting parentId creates the folder at the user's root level
+ */
+export const CreateFolderInput = S.Struct({
+  name: S.String,
+  parentId: S.optional(S.String),
+  userId: S.String,
+});
+export type CreateFolderInput = S.Schema.Type<typeof CreateFolderInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const CreateFolderCommand = S.Struct({
+  name: FolderName,
+  parentId: S.optional(StringToFolderId),
+  userId: StringToUserId,
+});
+export type CreateFolderCommand = S.Schema.Type<typeof CreateFolderCommand>;
+
+// ============================================================================
+// Get Folder
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const GetFolderInput = S.Struct({
+  folderId: S.String,
+  userId: S.String,
+});
+export type GetFolderInput = S.Schema.Type<typeof GetFolderInput>;
+
+/**
+ * Branded query for workflows
+ */
+export const GetFolderQuery = S.Struct({
+  folderId: StringToFolderId,
+  userId: StringToUserId,
+});
+export type GetFolderQuery = S.Schema.Type<typeof GetFolderQuery>;
+
+// ============================================================================
+// List Folders
+// ============================================================================
+
+/**
+ * Raw input from API
+ * Omitting parentId lists the user's root-level folders
+ */
+export const ListFoldersInput = S.Struct({
+  parentId: S.optional(S.String),
+  userId: S.String,
+});
+export type ListFoldersInput = S.Schema.Type<typeof ListFoldersInput>;
+
+/**
+ * Branded query for workflows
+ */
+export const ListFoldersQuery = S.Struct({
+  parentId: S.optional(StringToFolderId),
+  userId: StringToUserId,
+});
+export type ListFoldersQuery = S.Schema.Type<typeof ListFoldersQuery>;
+
+// ============================================================================
+// Rename Folder
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const RenameFolderInput = S.Struct({
+  folderId: S.String,
+  name: S.String,
+  userId: S.String,
+});
+export type RenameFolderInput = S.Schema.Type<typeof RenameFolderInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const RenameFolderCommand = S.Struct({
+  folderId: StringToFolderId,
+  name: FolderName,
+  userId: StringToUserId,
+});
+export type RenameFolderCommand = S.Schema.Type<typeof RenameFolderCommand>;
+
+// ============================================================================
+// Move Folder
+// ============================================================================
+
+/**
+ * Raw input from API
+ * Omitting parentId moves the folder to the user's root level
+ */
+export const MoveFolderInput = S.Struct({
+  folderId: S.String,
+  parentId: S.optional(S.String),
+  userId: S.String,
+});
+export type MoveFolderInput = S.Schema.Type<typeof MoveFolderInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const MoveFolderCommand = S.Struct({
+  folderId: StringToFolderId,
+  parentId: S.optional(StringToFolderId),
+  userId: StringToUserId,
+});
+export type MoveFolderCommand = S.Schema.Type<typeof MoveFolderCommand>;
+
+// ============================================================================
+// Delete Folder
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const DeleteFolderInput = S.Struct({
+  folderId: S.String,
+  userId: S.String,
+});
+export type DeleteFolderInput = S.Schema.Type<typeof DeleteFolderInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const DeleteFolderCommand = S.Struct({
+  folderId: StringToFolderId,
+  userId: StringToUserId,
+});
+export type DeleteFolderCommand = S.Schema.Type<typeof DeleteFolderCommand>;
@@ -0,0 +1,46 @@
+/**
+ * Folder Response DTOs
+ */
+
+import { Schema as S } from "effect";
+import { FolderId, UserId } from "../../../domain/refined/uuid";
+import { FolderName } from "../../../domain/folder/value-object";
+import { DateTime } from "../../../domain/refined/date-time";
+
+/**
+ * Folder Response
+ */
+export const FolderResponse = S.Struct({
+  id: FolderId,
+  name: FolderName,
+  parentId: S.optional(FolderId),
+  ownerId: UserId,
+  createdAt: S.optional(DateTime),
+  updatedAt: S.optional(DateTime),
+});
+
+export type FolderResponse = S.Schema.Type<typeof FolderResponse>;
+
+/**
+ * Folder Details Response
+ * Includes the breadcrumb path (root → folder) and direct sub-folders
+ */
+export const FolderDetailsResponse = S.Struct({
+  folder: FolderResponse,
+  path: S.Array(FolderResponse),
+  children: S.Array(FolderResponse),
+});
+
+export type FolderDetailsResponse = S.Schema.Type<
+  typeof FolderDetailsResponse
+>;
+
+/**
+ * List Folders Response
+ */
+export const ListFoldersResponse = S.Struct({
+  folders: S.Array(FolderResponse),
+  total: S.Number,
+});
+
+export type ListFoldersResponse = S.Schema.Type<typeof ListFoldersResponse>;
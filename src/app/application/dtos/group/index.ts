@@ -0,0 +1,6 @@
+/**
+ * Group DTOs exports
+ */
+
+export * from "./request.dto";
+export * from "./response.dto";
@@ -0,0 +1,178 @@
+/**
+ * Group Request DTOs
+ *
+ * Each operation has two schemas:
+ * - *Input: Raw input from API (strings) - used by presentation layer
+ * - *Command/*Query: Branded domain types - used by workflows after transformation
+ */
+
+import { Schema as S } from "effect";
+import {
+  StringToGroupId,
+  StringToUserId,
+} from "../../../domain/refined/uuid";
+import { GroupName } from "../../../domain/group/value-object";
+
+// ============================================================================
+// Create Group
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const CreateGroupInput = S.Struct({
+  name: S.String,
+  userId: S.String,
+});
+export type CreateGroupInput = S.Schema.Type<typeof CreateGroupInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const CreateGroupCommand = S.Struct({
+  name: GroupName,
+  userId: StringToUserId,
+});
+export type CreateGroupCommand = S.Schema.Type<typeof CreateGroupCommand>;
+
+// ============================================================================
+// List Groups
+// ============================================================================
+
+/**
+ * Raw input from API
+ * Lists the groups the user is a member of
+ */
+export const ListGroupsInput = S.Struct({
+  userId: S.String,
+});
+export type ListGroupsInput = S.Schema.Type<typeof ListGroupsInput>;
+
+/**
+ * Branded query for workflows
+ */
+export const ListGroupsQuery = S.Struct({
+  userId: StringToUserId,
+});
+export type ListGroupsQuery = S.Schema.Type<typeof ListGroupsQuery>;
+
+// ============================================================================
+// Get Group
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const GetGroupInput = S.Struct({
+  groupId: S.String,
+  userId: S.String,
+});
+export type GetGroupInput = S.Schema.Type<typeof GetGroupInput>;
+
+/**
+ * Branded query for workflows
+ */
+export const GetGroupQuery = S.Struct({
+  groupId: StringToGroupId,
+  userId: StringToUserId,
+});
+export type GetGroupQuery = S.Schema.Type<typeof GetGroupQuery>;
+
+// ============================================================================
+// Rename Group
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const RenameGroupInput = S.Struct({
+  groupId: S.String,
+  name: S.String,
+  userId: S.String,
+});
+export type RenameGroupInput = S.Schema.Type<typeof RenameGroupInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const RenameGroupCommand = S.Struct({
+  groupId: StringToGroupId,
+  name: GroupName,
+  userId: StringToUserId,
+});
+export type RenameGroupCommand = S.Schema.Type<typeof RenameGroupCommand>;
+
+// ============================================================================
+// Delete Group
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const DeleteGroupInput = S.Struct({
+  groupId: S.String,
+  userId: S.String,
+});
+export type DeleteGroupInput = S.Schema.Type<typeof DeleteGroupInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const DeleteGroupCommand = S.Struct({
+  groupId: StringToGroupId,
+  userId: StringToUserId,
+});
+export type DeleteGroupCommand = S.Schema.Type<typeof DeleteGroupCommand>;
+
+// ============================================================================
+// Add Group Member
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const AddGroupMemberInput = S.Struct({
+  groupId: S.String,
+  memberId: S.String,
+  userId: S.String,
+});
+export type AddGroupMemberInput = S.Schema.Type<typeof AddGroupMemberInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const AddGroupMemberCommand = S.Struct({
+  groupId: StringToGroupId,
+  memberId: StringToUserId,
+  userId: StringToUserId,
+});
+export type AddGroupMemberCommand = S.Schema.Type<typeof AddGroupMemberCommand>;
+
+// ============================================================================
+// Remove Group Member
+// ============================================================================
+
+/**
+ * Raw input from API
+ * A member may remove themselves (leave the group)
+ */
+export const RemoveGroupMemberInput = S.Struct({
+  groupId: S.String,
+  memberId: S.String,
+  userId: S.String,
+});
+export type RemoveGroupMemberInput = S.Schema.Type<
+  typeof RemoveGroupMemberInput
+>;
+
+/**
+ * Branded command for workflows
+ */
+export const RemoveGroupMemberCommand = S.Struct({
+  groupId: StringToGroupId,
+  memberId: StringToUserId,
+  userId: StringToUserId,
+});
+export type RemoveGroupMemberCommand = S.Schema.Type<
+  typeof RemoveGroupMemberCommand
+>;
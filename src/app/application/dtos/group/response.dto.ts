@@ -0,0 +1,33 @@
+/**
+ * Group Response DTOs
+ */
+
+import { Schema as S } from "effect";
+import { GroupId, UserId } from "../../../domain/refined/uuid";
+import { GroupName } from "../../../domain/group/value-object";
+import { DateTime } from "../../../domain/refined/date-time";
+
+/**
+ * Group Response
+ */
+export const GroupResponse = S.Struct({
+  id: GroupId,
+  name: GroupName,
+  ownerId: UserId,
+  memberIds: S.Array(UserId),
+  memberCount: S.Number,
+  createdAt: S.optional(DateTime),
+  updatedAt: S.optional(DateTime),
+});
+
+export type GroupResponse = S.Schema.Type<typeof GroupResponse>;
+
+/**
+ * List Groups Response
+ */
+export const ListGroupsResponse = S.Struct({
+  groups: S.Array(GroupResponse),
+  total: S.Number,
+});
+
+export type ListGroupsResponse = S.Schema.Type<typeof ListGroupsResponse>;
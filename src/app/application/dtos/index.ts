@@ -8,3 +8,10 @@ export * as PermissionDTOs from "./permission";
 export * as MetadataDTOs from "./metedata";
 export * as DownloadTokenDTOs from "./download-token";
 export * as DocumentVersionDTOs from "./document-version";
+export * as FolderDTOs from "./folder";
+export * as UploadSessionDTOs from "./upload-session";
+export * as UploadTicketDTOs from "./upload-ticket";
+export * as GroupDTOs from "./group";
+export * as AuditDTOs from "./audit";
+export * as AccessTokenDTOs from "./access-token";
+export * as MfaDTOs from "./mfa";
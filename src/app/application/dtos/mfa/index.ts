@@ -0,0 +1,6 @@
+/**
+ * MFA DTOs exports
+ */
+
+export * from "./request.dto";
+export * from "./response.dto";
@@ -0,0 +1,140 @@
+/**
+ * MFA Request DTOs
+ *
+ * Each operation has two schemas:
+ * - *Input: Raw input from API (strings) - used by presentation layer
+ * - *Command/*Query: Branded domain types - used by workflows after transformation
+ */
+
+import { Schema as S } from "effect";
+import { StringToUserId } from "../../../domain/refined/uuid";
+import { UserRole } from "../../../domain/user/value-object";
+
+// ============================================================================
+// Get MFA Status
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const GetMfaStatusInput = S.Struct({
+  userId: S.String,
+});
+export type GetMfaStatusInput = S.Schema.Type<typeof GetMfaStatusInput>;
+
+/**
+ * Branded query for workflows
+ */
+export const GetMfaStatusQuery = S.Struct({
+  userId: StringToUserId,
+});
+export type GetMfaStatusQuery = S.Schema.Type<typeof GetMfaStatusQuery>;
+
+// ============================================================================
+// Enroll MFA
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const EnrollMfaInput = S.Struct({
+  userId: S.String,
+});
+export type EnrollMfaInput = S.Schema.Type<typeof EnrollMfaInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const EnrollMfaCommand = S.Struct({
+  userId: StringToUserId,
+});
+export type EnrollMfaCommand = S.Schema.Type<typeof EnrollMfaCommand>;
+
+// ============================================================================
+// Confirm MFA
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const ConfirmMfaInput = S.Struct({
+  userId: S.String,
+  code: S.String,
+});
+export type ConfirmMfaInput = S.Schema.Type<typeof ConfirmMfaInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const ConfirmMfaCommand = S.Struct({
+  userId: StringToUserId,
+  code: S.Trim.pipe(S.minLength(1)),
+});
+export type ConfirmMfaCommand = S.Schema.Type<typeof ConfirmMfaCommand>;
+
+// ============================================================================
+// Disable MFA
+// ============================================================================
+
+/**
+ * Raw input from API
+ * code is a TOTP code or an unused recovery code
+ */
+export const DisableMfaInput = S.Struct({
+  userId: S.String,
+  code: S.String,
+});
+export type DisableMfaInput = S.Schema.Type<typeof DisableMfaInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const DisableMfaCommand = S.Struct({
+  userId: StringToUserId,
+  code: S.Trim.pipe(S.minLength(1)),
+});
+export type DisableMfaCommand = S.Schema.Type<typeof DisableMfaCommand>;
+
+// ============================================================================
+// Get MFA Policy
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const GetMfaPolicyInput = S.Struct({
+  userId: S.String,
+});
+export type GetMfaPolicyInput = S.Schema.Type<typeof GetMfaPolicyInput>;
+
+/**
+ * Branded query for workflows
+ */
+export const GetMfaPolicyQuery = S.Struct({
+  userId: StringToUserId,
+});
+export type GetMfaPolicyQuery = S.Schema.Type<typeof GetMfaPolicyQuery>;
+
+// ============================================================================
+// Set MFA Policy
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const SetMfaPolicyInput = S.Struct({
+  userId: S.String,
+  role: S.String,
+  required: S.Boolean,
+});
+export type SetMfaPolicyInput = S.Schema.Type<typeof SetMfaPolicyInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const SetMfaPolicyCommand = S.Struct({
+  userId: StringToUserId,
+  role: UserRole,
+  required: S.Boolean,
+});
+export type SetMfaPolicyCommand = S.Schema.Type<typeof SetMfaPolicyCommand>;
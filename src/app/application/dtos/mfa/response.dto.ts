@@ -0,0 +1,56 @@
+/**
+ * MFA Response DTOs
+ *
+ * The TOTP secret is only returned while enrolling; recovery codes only
+ * once, when MFA is enabled.
+ */
+
+import { Schema as S } from "effect";
+import { UserRole } from "../../../domain/user/value-object";
+
+/**
+ * MFA Status Response
+ * required is set when the user's role must use MFA
+ */
+export const MfaStatusResponse = S.Struct({
+  enabled: S.Boolean,
+  pending: S.Boolean,
+  required: S.Boolean,
+  recoveryCodesRemaining: S.Number,
+});
+
+export type MfaStatusResponse = S.Schema.Type<typeof MfaStatusResponse>;
+
+/**
+ * MFA Enrollment Response
+ * provisioningUri is the otpauth:// URI to render as a QR code
+ */
+export const MfaEnrollmentResponse = S.Struct({
+  secret: S.String,
+  provisioningUri: S.String,
+});
+
+export type MfaEnrollmentResponse = S.Schema.Type<
+  typeof MfaEnrollmentResponse
+>;
+
+/**
+ * MFA Recovery Codes Response
+ * Each code works once; they cannot be retrieved again
+ */
+export const MfaRecoveryCodesResponse = S.Struct({
+  recoveryCodes: S.Array(S.String),
+});
+
+export type MfaRecoveryCodesResponse = S.Schema.Type<
+  typeof MfaRecoveryCodesResponse
+>;
+
+/**
+ * MFA Policy Response
+ */
+export const MfaPolicyResponse = S.Struct({
+  requiredRoles: S.Array(UserRole),
+});
+
+export type MfaPolicyResponse = S.Schema.Type<typeof MfaPolicyResponse>;
@@ -12,9 +12,11 @@ import {
   UserId,
   StringToDocumentId,
   StringToUserId,
+  StringToGroupId,
 } from "../../../domain/refined/uuid";
 import { PermissionId } from "../../../domain/permission/entity";
 import { PermissionType } from "../../../domain/permission/value-object";
+import { DateTime } from "../../../domain/refined/date-time";
 
 // ============================================================================
 // Grant Permission
@@ -22,12 +24,14 @@ import { PermissionType } from "../../../domain/permission/value-object";
 
 /**
  * Raw input from API
+ * expiresAt is an optional ISO-8601 date after which the grant lapses
  */
 export const GrantPermissionInput = S.Struct({
   documentId: S.String,
   userId: S.String,
   permission: S.String,
   grantedBy: S.String,
+  expiresAt: S.optional(S.String),
 });
 export type GrantPermissionInput = S.Schema.Type<typeof GrantPermissionInput>;
 
@@ -39,11 +43,44 @@ export const GrantPermissionCommand = S.Struct({
   userId: StringToUserId,
   permission: PermissionType,
   grantedBy: StringToUserId,
+  expiresAt: S.optional(DateTime),
 });
 export type GrantPermissionCommand = S.Schema.Type<
   typeof GrantPermissionCommand
 >;
 
+// ============================================================================
+// Grant Group Permission
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const GrantGroupPermissionInput = S.Struct({
+  documentId: S.String,
+  groupId: S.String,
+  permission: S.String,
+  grantedBy: S.String,
+  expiresAt: S.optional(S.String),
+});
+export type GrantGroupPermissionInput = S.Schema.Type<
+  typeof GrantGroupPermissionInput
+>;
+
+/**
+ * Branded command for workflows
+ */
+export const GrantGroupPermissionCommand = S.Struct({
+  documentId: StringToDocumentId,
+  groupId: StringToGroupId,
+  permission: PermissionType,
+  grantedBy: StringToUserId,
+  expiresAt: S.optional(DateTime),
+});
+export type GrantGroupPermissionCommand = S.Schema.Type<
+  typeof GrantGroupPermissionCommand
+>;
+
 // ============================================================================
 // Update Permission
 // ============================================================================
@@ -167,3 +204,34 @@ export const CheckPermissionQuery = S.Struct({
   requiredPermission: PermissionType,
 });
 export type CheckPermissionQuery = S.Schema.Type<typeof CheckPermissionQuery>;
+
+// ============================================================================
+// Explain Permission
+// ============================================================================
+
+/**
+ * Raw input from API
+ * requiredPermission defaults to READ
+ */
+export const ExplainPermissionInput = S.Struct({
+  documentId: S.String,
+  userId: S.String,
+  requiredPermission: S.optional(S.String),
+  requestedBy: S.String,
+});
+export type ExplainPermissionInput = S.Schema.Type<
+  typeof ExplainPermissionInput
+>;
+
+/**
+ * Branded query for workflows
+ */
+export const ExplainPermissionQuery = S.Struct({
+  documentId: StringToDocumentId,
+  userId: StringToUserId,
+  requiredPermission: S.optional(PermissionType),
+  requestedBy: StringToUserId,
+});
+export type ExplainPermissionQuery = S.Schema.Type<
+  typeof ExplainPermissionQuery
+>;
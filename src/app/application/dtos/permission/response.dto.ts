@@ -3,21 +3,25 @@
  */
 
 import { Schema as S } from "effect";
-import { DocumentId, UserId } from "../../../domain/refined/uuid";
+import { DocumentId, GroupId, UserId } from "../../../domain/refined/uuid";
 import { PermissionId } from "../../../domain/permission/entity";
 import { PermissionType } from "../../../domain/permission/value-object";
 import { DateTime } from "../../../domain/refined/date-time";
 
 /**
  * Permission Response
+ * Exactly one of userId / groupId identifies the grantee
+ * expiresAt is omitted for permanent grants
  */
 export const PermissionResponse = S.Struct({
   id: PermissionId,
   documentId: DocumentId,
-  userId: UserId,
+  userId: S.optional(UserId),
+  groupId: S.optional(GroupId),
   permission: PermissionType,
   grantedBy: UserId,
   grantedAt: S.optional(DateTime),
+  expiresAt: S.optional(DateTime),
 });
 
 export type PermissionResponse = S.Schema.Type<typeof PermissionResponse>;
@@ -57,3 +61,63 @@ export const CheckPermissionResponse = S.Struct({
 export type CheckPermissionResponse = S.Schema.Type<
   typeof CheckPermissionResponse
 >;
+
+/**
+ * One rule checked while evaluating access
+ */
+export const AccessRuleEvaluationResponse = S.Struct({
+  rule: S.Literal("ADMIN", "OWNER", "EXPLICIT_GRANT", "DEFAULT_DENY"),
+  matched: S.Boolean,
+  reason: S.String,
+});
+
+export type AccessRuleEvaluationResponse = S.Schema.Type<
+  typeof AccessRuleEvaluationResponse
+>;
+
+/**
+ * One grant that applies to the user, compared to the required level
+ */
+export const GrantEvaluationResponse = S.Struct({
+  permission: PermissionResponse,
+  via: S.Literal("USER", "GROUP"),
+  expired: S.Boolean,
+  grantedLevel: S.Number,
+  requiredLevel: S.Number,
+  sufficient: S.Boolean,
+});
+
+export type GrantEvaluationResponse = S.Schema.Type<
+  typeof GrantEvaluationResponse
+>;
+
+/**
+ * Explain Permission Response
+ * Decision trace: rules checked in order of precedence, ending with the one
+ * that decided, plus every grant that applies to the user
+ */
+export const ExplainPermissionResponse = S.Struct({
+  documentId: DocumentId,
+  userId: UserId,
+  requiredPermission: PermissionType,
+  granted: S.Boolean,
+  matchedRule: S.Literal("ADMIN", "OWNER", "EXPLICIT_GRANT", "DEFAULT_DENY"),
+  matchedGrant: S.optional(PermissionResponse),
+  rules: S.Array(AccessRuleEvaluationResponse),
+  grants: S.Array(GrantEvaluationResponse),
+});
+
+export type ExplainPermissionResponse = S.Schema.Type<
+  typeof ExplainPermissionResponse
+>;
+
+/**
+ * Cleanup Expired Permissions Response
+ */
+export const CleanupPermissionsResponse = S.Struct({
+  deletedCount: S.Number,
+});
+
+export type CleanupPermissionsResponse = S.Schema.Type<
+  typeof CleanupPermissionsResponse
+>;
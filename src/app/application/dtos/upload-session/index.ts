@@ -0,0 +1,6 @@
+/**
+ * Upload Session DTOs exports
+ */
+
+export * from "./request.dto";
+export * from "./response.dto";
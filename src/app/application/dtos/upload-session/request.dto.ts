@@ -0,0 +1,139 @@
+/**
+ * Upload Session Request DTOs
+ *
+ * Each operation has two schemas:
+ * - *Input: Raw input from API (strings) - used by presentation layer
+ * - *Command/*Query: Branded domain types - used by workflows after transformation
+ */
+
+import { Schema as S } from "effect";
+import {
+  StringToDocumentId,
+  StringToFolderId,
+  StringToUploadSessionId,
+  StringToUserId,
+} from "../../../domain/refined/uuid";
+import {
+  Filename,
+  FileSize,
+  MimeType,
+} from "../../../domain/document/value-object";
+
+// ============================================================================
+// Create Upload Session
+// ============================================================================
+
+/**
+ * Raw input from API
+ * documentId uploads a new version; otherwise a new document is created,
+ * in folderId when given
+ */
+export const CreateUploadSessionInput = S.Struct({
+  filename: S.String,
+  mimeType: S.String,
+  uploadLength: S.Number,
+  documentId: S.optional(S.String),
+  folderId: S.optional(S.String),
+  userId: S.String,
+});
+export type CreateUploadSessionInput = S.Schema.Type<
+  typeof CreateUploadSessionInput
+>;
+
+/**
+ * Branded command for workflows
+ */
+export const CreateUploadSessionCommand = S.Struct({
+  filename: Filename,
+  mimeType: MimeType,
+  uploadLength: FileSize,
+  documentId: S.optional(StringToDocumentId),
+  folderId: S.optional(StringToFolderId),
+  userId: StringToUserId,
+});
+export type CreateUploadSessionCommand = S.Schema.Type<
+  typeof CreateUploadSessionCommand
+>;
+
+// ============================================================================
+// Get Upload Session (progress)
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const GetUploadSessionInput = S.Struct({
+  sessionId: S.String,
+  userId: S.String,
+});
+export type GetUploadSessionInput = S.Schema.Type<
+  typeof GetUploadSessionInput
+>;
+
+/**
+ * Branded query for workflows
+ */
+export const GetUploadSessionQuery = S.Struct({
+  sessionId: StringToUploadSessionId,
+  userId: StringToUserId,
+});
+export type GetUploadSessionQuery = S.Schema.Type<
+  typeof GetUploadSessionQuery
+>;
+
+// ============================================================================
+// Append Upload Chunk
+// ============================================================================
+
+/**
+ * Raw input from API
+ * data holds the chunk body; offset is where the client believes it starts
+ */
+export const AppendUploadChunkInput = S.Struct({
+  sessionId: S.String,
+  offset: S.Number,
+  data: S.instanceOf(ReadableStream<Uint8Array>),
+  userId: S.String,
+});
+export type AppendUploadChunkInput = S.Schema.Type<
+  typeof AppendUploadChunkInput
+>;
+
+/**
+ * Branded command for workflows
+ */
+export const AppendUploadChunkCommand = S.Struct({
+  sessionId: StringToUploadSessionId,
+  offset: S.Number.pipe(S.int(), S.nonNegative()),
+  data: S.instanceOf(ReadableStream<Uint8Array>),
+  userId: StringToUserId,
+});
+export type AppendUploadChunkCommand = S.Schema.Type<
+  typeof AppendUploadChunkCommand
+>;
+
+// ============================================================================
+// Cancel Upload Session
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const CancelUploadSessionInput = S.Struct({
+  sessionId: S.String,
+  userId: S.String,
+});
+export type CancelUploadSessionInput = S.Schema.Type<
+  typeof CancelUploadSessionInput
+>;
+
+/**
+ * Branded command for workflows
+ */
+export const CancelUploadSessionCommand = S.Struct({
+  sessionId: StringToUploadSessionId,
+  userId: StringToUserId,
+});
+export type CancelUploadSessionCommand = S.Schema.Type<
+  typeof CancelUploadSessionCommand
+>;
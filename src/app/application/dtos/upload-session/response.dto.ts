@@ -0,0 +1,57 @@
+/**
+ * Upload Session Response DTOs
+ */
+
+import { Schema as S } from "effect";
+import {
+  DocumentId,
+  FolderId,
+  UploadSessionId,
+} from "../../../domain/refined/uuid";
+import { DateTime } from "../../../domain/refined/date-time";
+import { UploadDocumentResponse } from "../document/response.dto";
+
+/**
+ * Upload Session Response
+ * offset is the number of bytes received so far
+ */
+export const UploadSessionResponse = S.Struct({
+  id: UploadSessionId,
+  filename: S.String,
+  mimeType: S.String,
+  uploadLength: S.Number,
+  offset: S.Number,
+  documentId: S.optional(DocumentId),
+  folderId: S.optional(FolderId),
+  expiresAt: DateTime,
+  createdAt: DateTime,
+});
+
+export type UploadSessionResponse = S.Schema.Type<
+  typeof UploadSessionResponse
+>;
+
+/**
+ * Append Upload Chunk Response
+ * document is present once the last chunk arrived and the upload was
+ * turned into a document version
+ */
+export const AppendUploadChunkResponse = S.Struct({
+  session: UploadSessionResponse,
+  document: S.optional(UploadDocumentResponse),
+});
+
+export type AppendUploadChunkResponse = S.Schema.Type<
+  typeof AppendUploadChunkResponse
+>;
+
+/**
+ * Cleanup Upload Sessions Response
+ */
+export const CleanupUploadSessionsResponse = S.Struct({
+  deletedCount: S.Number,
+});
+
+export type CleanupUploadSessionsResponse = S.Schema.Type<
+  typeof CleanupUploadSessionsResponse
+>;
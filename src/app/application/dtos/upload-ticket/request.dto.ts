@@ -0,0 +1,87 @@
+/**
+ * Upload Ticket Request DTOs
+ *
+ * Each operation has two schemas:
+ * - *Input: Raw input from API (strings) - used by presentation layer
+ * - *Command/*Query: Branded domain types - used by workflows after transformation
+ */
+
+import { Schema as S } from "effect";
+import {
+  StringToDocumentId,
+  StringToDocumentVersionId,
+  StringToUserId,
+} from "../../../domain/refined/uuid";
+import { FileSize, MimeType } from "../../../domain/document/value-object";
+import { MAX_UPLOAD_TICKET_TTL_MS } from "../../../domain/upload-ticket/value-object";
+import { UploadedFileSchema } from "../../ports/storage.port";
+
+// ============================================================================
+// Issue Upload Ticket
+// ============================================================================
+
+/**
+ * Raw input from API
+ * The ticket allows one upload of a new version of documentId
+ */
+export const IssueUploadTicketInput = S.Struct({
+  documentId: S.String,
+  mimeType: S.String,
+  maxSize: S.Number,
+  ttlMs: S.optional(S.Number),
+  userId: S.String,
+});
+export type IssueUploadTicketInput = S.Schema.Type<
+  typeof IssueUploadTicketInput
+>;
+
+/**
+ * Branded command for workflows
+ */
+export const IssueUploadTicketCommand = S.Struct({
+  documentId: StringToDocumentId,
+  mimeType: MimeType,
+  maxSize: FileSize,
+  ttlMs: S.optional(
+    S.Number.pipe(
+      S.int(),
+      S.positive(),
+      S.lessThanOrEqualTo(MAX_UPLOAD_TICKET_TTL_MS)
+    )
+  ),
+  userId: StringToUserId,
+});
+export type IssueUploadTicketCommand = S.Schema.Type<
+  typeof IssueUploadTicketCommand
+>;
+
+// ============================================================================
+// Redeem Upload Ticket
+// ============================================================================
+
+/**
+ * Raw input from API
+ * documentId and versionId come from the upload URL the ticket was issued for
+ */
+export const RedeemUploadTicketInput = S.Struct({
+  documentId: S.String,
+  versionId: S.String,
+  ticket: S.String,
+  file: UploadedFileSchema,
+});
+export type RedeemUploadTicketInput = S.Schema.Type<
+  typeof RedeemUploadTicketInput
+>;
+
+/**
+ * Branded command for workflows
+ */
+export const RedeemUploadTicketCommand = S.Struct({
+  documentId: StringToDocumentId,
+  versionId: StringToDocumentVersionId,
+  ticket: S.String.pipe(S.minLength(1)),
+  file: UploadedFileSchema,
+});
+export type RedeemUploadTicketCommand = S.Schema.Type<
+  typeof RedeemUploadTicketCommand
+>;
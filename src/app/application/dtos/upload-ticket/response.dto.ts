@@ -0,0 +1,34 @@
+/**
+ * Upload Ticket Response DTOs
+ */
+
+import { Schema as S } from "effect";
+import { DocumentId, DocumentVersionId } from "../../../domain/refined/uuid";
+import { DateTime } from "../../../domain/refined/date-time";
+
+/**
+ * Upload Ticket Response
+ * ticket is sent back with the upload, to uploadUrl
+ */
+export const UploadTicketResponse = S.Struct({
+  ticket: S.String,
+  documentId: DocumentId,
+  versionId: DocumentVersionId,
+  maxSize: S.Number,
+  mimeType: S.String,
+  uploadUrl: S.String,
+  expiresAt: DateTime,
+});
+
+export type UploadTicketResponse = S.Schema.Type<typeof UploadTicketResponse>;
+
+/**
+ * Cleanup Upload Tickets Response
+ */
+export const CleanupUploadTicketsResponse = S.Struct({
+  deletedCount: S.Number,
+});
+
+export type CleanupUploadTicketsResponse = S.Schema.Type<
+  typeof CleanupUploadTicketsResponse
+>;
@@ -12,7 +12,11 @@
 import { Schema as S } from "effect";
 import { EmailAddress } from "../../../domain/refined/email";
 import { UserRole } from "../../../domain/user/value-object";
-import { UserId, StringToUserId } from "../../../domain/refined/uuid";
+import {
+  UserId,
+  StringToUserId,
+  StringToSessionId,
+} from "../../../domain/refined/uuid";
 
 // ============================================================================
 // Register User
@@ -49,10 +53,12 @@ export type RegisterUserCommand = S.Schema.Type<typeof RegisterUserCommand>;
 
 /**
  * Raw input from API
+ * ipAddress is the client address, used to throttle failed logins
  */
 export const LoginUserInput = S.Struct({
   email: S.String,
   password: S.String,
+  ipAddress: S.optional(S.String),
 });
 export type LoginUserInput = S.Schema.Type<typeof LoginUserInput>;
 
@@ -62,20 +68,122 @@ export type LoginUserInput = S.Schema.Type<typeof LoginUserInput>;
 export const LoginUserCommand = S.Struct({
   email: EmailAddress,
   password: S.String.pipe(S.minLength(1)),
+  ipAddress: S.optional(S.String),
 });
 export type LoginUserCommand = S.Schema.Type<typeof LoginUserCommand>;
 
+// ============================================================================
+// Verify MFA Login
+// ============================================================================
+
+/**
+ * Raw input from API
+ * code is a TOTP code or an unused recovery code
+ */
+export const VerifyMfaLoginInput = S.Struct({
+  challengeToken: S.String,
+  code: S.String,
+  ipAddress: S.optional(S.String),
+});
+export type VerifyMfaLoginInput = S.Schema.Type<typeof VerifyMfaLoginInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const VerifyMfaLoginCommand = S.Struct({
+  challengeToken: S.String.pipe(S.minLength(1)),
+  code: S.Trim.pipe(S.minLength(1)),
+  ipAddress: S.optional(S.String),
+});
+export type VerifyMfaLoginCommand = S.Schema.Type<
+  typeof VerifyMfaLoginCommand
+>;
+
+// ============================================================================
+// Enroll MFA During Login
+// ============================================================================
+
+/**
+ * Raw input from API
+ * For users whose role requires MFA but who have not enrolled yet
+ */
+export const EnrollMfaLoginInput = S.Struct({
+  challengeToken: S.String,
+});
+export type EnrollMfaLoginInput = S.Schema.Type<typeof EnrollMfaLoginInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const EnrollMfaLoginCommand = S.Struct({
+  challengeToken: S.String.pipe(S.minLength(1)),
+});
+export type EnrollMfaLoginCommand = S.Schema.Type<
+  typeof EnrollMfaLoginCommand
+>;
+
+// ============================================================================
+// Refresh Session
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const RefreshSessionInput = S.Struct({
+  refreshToken: S.String,
+});
+export type RefreshSessionInput = S.Schema.Type<typeof RefreshSessionInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const RefreshSessionCommand = S.Struct({
+  refreshToken: S.String.pipe(S.minLength(1)),
+});
+export type RefreshSessionCommand = S.Schema.Type<
+  typeof RefreshSessionCommand
+>;
+
+// ============================================================================
+// Logout
+// ============================================================================
+
+/**
+ * Raw input from API
+ * everywhere revokes every session of the user, not only the current one.
+ * Requests authenticated with an access token have no current session.
+ */
+export const LogoutInput = S.Struct({
+  userId: S.String,
+  sessionId: S.optional(S.String),
+  everywhere: S.optional(S.Boolean),
+});
+export type LogoutInput = S.Schema.Type<typeof LogoutInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const LogoutCommand = S.Struct({
+  userId: StringToUserId,
+  sessionId: S.optional(StringToSessionId),
+  everywhere: S.optional(S.Boolean),
+});
+export type LogoutCommand = S.Schema.Type<typeof LogoutCommand>;
+
 // ============================================================================
 // Update User Profile
 // ============================================================================
 
 /**
  * Raw input from API
+ * The password is changed through Change Password instead; currentPassword
+ * is required to change the email, and ipAddress throttles wrong ones
  */
 export const UpdateUserProfileInput = S.partial(
   S.Struct({
     email: S.String,
-    password: S.String,
+    currentPassword: S.String,
+    ipAddress: S.String,
   })
 );
 export type UpdateUserProfileInput = S.Schema.Type<
@@ -88,20 +196,47 @@ export type UpdateUserProfileInput = S.Schema.Type<
 export const UpdateUserProfileCommand = S.partial(
   S.Struct({
     email: EmailAddress,
-    password: S.String.pipe(
-      S.minLength(8, {
-        message: () => "Password must be at least 8 characters",
-      }),
-      S.maxLength(128, {
-        message: () => "Password must be at most 128 characters",
-      })
-    ),
+    currentPassword: S.String,
+    ipAddress: S.String,
   })
 );
 export type UpdateUserProfileCommand = S.Schema.Type<
   typeof UpdateUserProfileCommand
 >;
 
+// ============================================================================
+// Change Password
+// ============================================================================
+
+/**
+ * Raw input from API
+ * sessionId is the session the request was made with, which stays signed
+ * in; ipAddress is the client address, used to throttle wrong passwords
+ */
+export const ChangePasswordInput = S.Struct({
+  userId: S.String,
+  sessionId: S.optional(S.String),
+  ipAddress: S.optional(S.String),
+  currentPassword: S.String,
+  newPassword: S.String,
+});
+export type ChangePasswordInput = S.Schema.Type<typeof ChangePasswordInput>;
+
+/**
+ * Branded command for workflows
+ * The new password is checked against the password policy by the workflow
+ */
+export const ChangePasswordCommand = S.Struct({
+  userId: StringToUserId,
+  sessionId: S.optional(StringToSessionId),
+  ipAddress: S.optional(S.String),
+  currentPassword: S.String.pipe(S.minLength(1)),
+  newPassword: S.String,
+});
+export type ChangePasswordCommand = S.Schema.Type<
+  typeof ChangePasswordCommand
+>;
+
 // ============================================================================
 // Update User Role (Admin only)
 // ============================================================================
@@ -112,6 +247,7 @@ export type UpdateUserProfileCommand = S.Schema.Type<
 export const UpdateUserRoleInput = S.Struct({
   userId: S.String,
   role: S.String,
+  requestingUserId: S.String,
 });
 export type UpdateUserRoleInput = S.Schema.Type<typeof UpdateUserRoleInput>;
 
@@ -121,6 +257,7 @@ export type UpdateUserRoleInput = S.Schema.Type<typeof UpdateUserRoleInput>;
 export const UpdateUserRoleCommand = S.Struct({
   userId: StringToUserId,
   role: UserRole,
+  requestingUserId: StringToUserId,
 });
 export type UpdateUserRoleCommand = S.Schema.Type<typeof UpdateUserRoleCommand>;
 
@@ -172,11 +309,28 @@ export type ListUsersQuery = S.Schema.Type<typeof ListUsersQuery>;
 // Delete User
 // ============================================================================
 
+/**
+ * What to do with the documents of the deleted user
+ * - REFUSE (default): fail if the user still owns documents
+ * - REASSIGN: hand them over to the user named by reassignTo
+ * - ARCHIVE: hand them over to the configured archive owner
+ */
+export const DocumentDispositionMode = S.Literal(
+  "REFUSE",
+  "REASSIGN",
+  "ARCHIVE"
+);
+export type DocumentDispositionMode = S.Schema.Type<
+  typeof DocumentDispositionMode
+>;
+
 /**
  * Raw input from API
  */
 export const DeleteUserInput = S.Struct({
   userId: S.String,
+  disposition: S.optional(S.String),
+  reassignTo: S.optional(S.String),
 });
 export type DeleteUserInput = S.Schema.Type<typeof DeleteUserInput>;
 
@@ -185,5 +339,199 @@ export type DeleteUserInput = S.Schema.Type<typeof DeleteUserInput>;
  */
 export const DeleteUserCommand = S.Struct({
   userId: StringToUserId,
+  disposition: S.optional(DocumentDispositionMode),
+  reassignTo: S.optional(StringToUserId),
 });
 export type DeleteUserCommand = S.Schema.Type<typeof DeleteUserCommand>;
+
+// ============================================================================
+// Unlock User
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const UnlockUserInput = S.Struct({
+  userId: S.String,
+  requestingUserId: S.String,
+});
+export type UnlockUserInput = S.Schema.Type<typeof UnlockUserInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const UnlockUserCommand = S.Struct({
+  userId: StringToUserId,
+  requestingUserId: StringToUserId,
+});
+export type UnlockUserCommand = S.Schema.Type<typeof UnlockUserCommand>;
+
+// ============================================================================
+// Suspend User (Admin only)
+// ============================================================================
+
+/**
+ * Raw input from API
+ * reason is kept in the audit log
+ */
+export const SuspendUserInput = S.Struct({
+  userId: S.String,
+  requestingUserId: S.String,
+  reason: S.optional(S.String),
+});
+export type SuspendUserInput = S.Schema.Type<typeof SuspendUserInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const SuspendUserCommand = S.Struct({
+  userId: StringToUserId,
+  requestingUserId: StringToUserId,
+  reason: S.optional(S.String.pipe(S.maxLength(500))),
+});
+export type SuspendUserCommand = S.Schema.Type<typeof SuspendUserCommand>;
+
+// ============================================================================
+// Reactivate User (Admin only)
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const ReactivateUserInput = S.Struct({
+  userId: S.String,
+  requestingUserId: S.String,
+});
+export type ReactivateUserInput = S.Schema.Type<typeof ReactivateUserInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const ReactivateUserCommand = S.Struct({
+  userId: StringToUserId,
+  requestingUserId: StringToUserId,
+});
+export type ReactivateUserCommand = S.Schema.Type<
+  typeof ReactivateUserCommand
+>;
+
+// ============================================================================
+// Force Password Reset (Admin only)
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const ForcePasswordResetInput = S.Struct({
+  userId: S.String,
+  requestingUserId: S.String,
+});
+export type ForcePasswordResetInput = S.Schema.Type<
+  typeof ForcePasswordResetInput
+>;
+
+/**
+ * Branded command for workflows
+ */
+export const ForcePasswordResetCommand = S.Struct({
+  userId: StringToUserId,
+  requestingUserId: StringToUserId,
+});
+export type ForcePasswordResetCommand = S.Schema.Type<
+  typeof ForcePasswordResetCommand
+>;
+
+// ============================================================================
+// Forgot Password
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const ForgotPasswordInput = S.Struct({
+  email: S.String,
+});
+export type ForgotPasswordInput = S.Schema.Type<typeof ForgotPasswordInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const ForgotPasswordCommand = S.Struct({
+  email: EmailAddress,
+});
+export type ForgotPasswordCommand = S.Schema.Type<
+  typeof ForgotPasswordCommand
+>;
+
+// ============================================================================
+// Reset Password
+// ============================================================================
+
+/**
+ * Raw input from API
+ * token comes from the link mailed by forgot password
+ */
+export const ResetPasswordInput = S.Struct({
+  token: S.String,
+  password: S.String,
+});
+export type ResetPasswordInput = S.Schema.Type<typeof ResetPasswordInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const ResetPasswordCommand = S.Struct({
+  token: S.String.pipe(S.minLength(1)),
+  password: S.String.pipe(
+    S.minLength(8, { message: () => "Password must be at least 8 characters" }),
+    S.maxLength(128, {
+      message: () => "Password must be at most 128 characters",
+    })
+  ),
+});
+export type ResetPasswordCommand = S.Schema.Type<typeof ResetPasswordCommand>;
+
+// ============================================================================
+// Verify Email
+// ============================================================================
+
+/**
+ * Raw input from API
+ * token comes from the link mailed on registration
+ */
+export const VerifyEmailInput = S.Struct({
+  token: S.String,
+});
+export type VerifyEmailInput = S.Schema.Type<typeof VerifyEmailInput>;
+
+/**
+ * Branded command for workflows
+ */
+export const VerifyEmailCommand = S.Struct({
+  token: S.String.pipe(S.minLength(1)),
+});
+export type VerifyEmailCommand = S.Schema.Type<typeof VerifyEmailCommand>;
+
+// ============================================================================
+// Resend Email Verification
+// ============================================================================
+
+/**
+ * Raw input from API
+ */
+export const ResendVerificationInput = S.Struct({
+  userId: S.String,
+});
+export type ResendVerificationInput = S.Schema.Type<
+  typeof ResendVerificationInput
+>;
+
+/**
+ * Branded command for workflows
+ */
+export const ResendVerificationCommand = S.Struct({
+  userId: StringToUserId,
+});
+export type ResendVerificationCommand = S.Schema.Type<
+  typeof ResendVerificationCommand
+>;
@@ -6,11 +6,12 @@
  */
 
 import { Schema as S } from "effect";
-import { UserId } from "../../../domain/refined/uuid";
+import { UserId, FolderId } from "../../../domain/refined/uuid";
 import { EmailAddress } from "../../../domain/refined/email";
 import { UserRole } from "../../../domain/user/value-object";
 import { DateTime } from "../../../domain/refined/date-time";
 import { Paginated } from "../../../domain/shared/pagination";
+import { DocumentDispositionMode } from "./request.dto";
 
 /**
  * User Response (Public)
@@ -19,6 +20,8 @@ export const UserResponse = S.Struct({
   id: UserId,
   email: EmailAddress,
   role: UserRole,
+  emailVerified: S.Boolean,
+  suspended: S.Boolean,
   createdAt: S.optional(DateTime),
   updatedAt: S.optional(DateTime),
 });
@@ -27,15 +30,59 @@ export type UserResponse = S.Schema.Type<typeof UserResponse>;
 
 /**
  * Login Response (includes authentication token)
+ * token is a short-lived access token; refreshToken obtains new ones.
+ * recoveryCodes is only set when MFA was enabled while logging in.
  */
 export const LoginResponse = S.Struct({
   user: UserResponse,
   token: S.String,
   expiresIn: S.Number, // seconds
+  refreshToken: S.String,
+  refreshExpiresAt: DateTime,
+  recoveryCodes: S.optional(S.Array(S.String)),
 });
 
 export type LoginResponse = S.Schema.Type<typeof LoginResponse>;
 
+/**
+ * MFA Challenge Response
+ * Returned by login instead of tokens when a second factor is needed.
+ * enrollmentRequired means the user's role requires MFA and the user has
+ * to enroll before completing the login.
+ */
+export const MfaChallengeResponse = S.Struct({
+  mfaRequired: S.Literal(true),
+  challengeToken: S.String,
+  challengeExpiresAt: DateTime,
+  enrollmentRequired: S.Boolean,
+});
+
+export type MfaChallengeResponse = S.Schema.Type<typeof MfaChallengeResponse>;
+
+/**
+ * Refresh Session Response
+ * The presented refresh token is spent; refreshToken replaces it
+ */
+export const RefreshSessionResponse = S.Struct({
+  token: S.String,
+  expiresIn: S.Number, // seconds
+  refreshToken: S.String,
+  refreshExpiresAt: DateTime,
+});
+
+export type RefreshSessionResponse = S.Schema.Type<
+  typeof RefreshSessionResponse
+>;
+
+/**
+ * Logout Response
+ */
+export const LogoutResponse = S.Struct({
+  sessionsRevoked: S.Number,
+});
+
+export type LogoutResponse = S.Schema.Type<typeof LogoutResponse>;
+
 /**
  * Register Response
  */
@@ -56,3 +103,66 @@ export type UserProfileResponse = S.Schema.Type<typeof UserProfileResponse>;
  * List Users Response
  */
 export type ListUsersResponse = Paginated<UserResponse>;
+
+/**
+ * Delete User Response
+ * Summarizes what happened to the deleted user's documents
+ */
+export const DeleteUserResponse = S.Struct({
+  userId: UserId,
+  disposition: DocumentDispositionMode,
+  reassignedTo: S.optional(UserId),
+  documentsReassigned: S.Number,
+  foldersReassigned: S.Number,
+  folderId: S.optional(FolderId),
+});
+
+export type DeleteUserResponse = S.Schema.Type<typeof DeleteUserResponse>;
+
+/**
+ * Account Mail Response
+ * Forgot password answers the same whether or not the email is registered
+ */
+export const AccountMailResponse = S.Struct({
+  message: S.String,
+});
+
+export type AccountMailResponse = S.Schema.Type<typeof AccountMailResponse>;
+
+/**
+ * Reset Password Response
+ * Every session of the user is signed out by a reset
+ */
+export const ResetPasswordResponse = S.Struct({
+  sessionsRevoked: S.Number,
+});
+
+export type ResetPasswordResponse = S.Schema.Type<
+  typeof ResetPasswordResponse
+>;
+
+/**
+ * Change Password Response
+ * Every session but the one the password was changed from is signed out
+ */
+export const ChangePasswordResponse = S.Struct({
+  sessionsRevoked: S.Number,
+});
+
+export type ChangePasswordResponse = S.Schema.Type<
+  typeof ChangePasswordResponse
+>;
+
+/**
+ * Force Password Reset Response
+ * resetLinkSent is false when the reset mail could not be sent; the user
+ * can still ask for a link through the forgotten password flow
+ */
+export const ForcePasswordResetResponse = S.Struct({
+  sessionsRevoked: S.Number,
+  resetLinkSent: S.Boolean,
+});
+
+export type ForcePasswordResetResponse = S.Schema.Type<
+  typeof ForcePasswordResetResponse
+>;
@@ -0,0 +1,62 @@
+/**
+ * Access Token Application → Domain Mappers
+ *
+ * Maps Domain entities to Application DTOs for access token operations.
+ */
+
+import { Option } from "effect";
+import type {
+  AccessTokenResponse,
+  CreatedAccessTokenResponse,
+  ListAccessTokensResponse,
+} from "../dtos/access-token/response.dto";
+import type { AccessTokenEntity } from "../../domain/access-token/entity";
+import { DateTimeHelpers } from "../../domain/refined/date-time";
+
+/**
+ * Domain to Response Mappers
+ */
+export const AccessTokenResponseMapper = {
+  /**
+   * Map AccessToken entity to AccessTokenResponse DTO
+   * Excludes the token hash
+   */
+  toAccessTokenResponse: (token: AccessTokenEntity): AccessTokenResponse => ({
+    id: token.id,
+    userId: token.userId,
+    name: token.name,
+    scope: token.scope,
+    tokenHint: token.tokenHint,
+    expiresAt: Option.getOrUndefined(
+      Option.map(token.expiresAt, DateTimeHelpers.fromDate)
+    ),
+    lastUsedAt: Option.getOrUndefined(
+      Option.map(token.lastUsedAt, DateTimeHelpers.fromDate)
+    ),
+    revokedAt: Option.getOrUndefined(
+      Option.map(token.revokedAt, DateTimeHelpers.fromDate)
+    ),
+    createdAt: DateTimeHelpers.fromDate(token.createdAt),
+  }),
+
+  /**
+   * Map a new token and its secret value to CreatedAccessTokenResponse DTO
+   */
+  toCreatedAccessTokenResponse: (
+    token: AccessTokenEntity,
+    value: string
+  ): CreatedAccessTokenResponse => ({
+    accessToken: AccessTokenResponseMapper.toAccessTokenResponse(token),
+    token: value,
+  }),
+
+  /**
+   * Map token list to ListAccessTokensResponse DTO
+   */
+  toListAccessTokensResponse: (
+    tokens: readonly AccessTokenEntity[]
+  ): ListAccessTokensResponse => ({
+    accessTokens: tokens.map(AccessTokenResponseMapper.toAccessTokenResponse),
+    total: tokens.length,
+  }),
+} as const;
@@ -0,0 +1,65 @@
+/**
+ * Audit Application → Domain Mappers
+ *
+ * Maps Domain entities to Application DTOs for audit operations.
+ */
+
+import { Option, pipe } from "effect";
+import type {
+  AuditEntryResponse,
+  AuditLogResponse,
+  AuditChainVerificationResponse,
+} from "../dtos/audit/response.dto";
+import type { AuditEntryEntity } from "../../domain/audit/entity";
+import type { AuditChainVerification } from "../../domain/audit/chain";
+import type { AuditPage } from "../../domain/audit/repository";
+import { encodeCursor } from "../../domain/shared/pagination";
+import { DateTimeHelpers } from "../../domain/refined/date-time";
+
+/**
+ * Domain to Response Mappers
+ */
+export const AuditResponseMapper = {
+  /**
+   * Map AuditEntry entity to AuditEntryResponse DTO
+   */
+  toAuditEntryResponse: (entry: AuditEntryEntity): AuditEntryResponse => ({
+    id: entry.id,
+    documentId: Option.getOrUndefined(entry.documentId),
+    action: entry.action,
+    performedBy: entry.performedBy,
+    details: Option.getOrUndefined(entry.details),
+    before: Option.getOrUndefined(entry.before),
+    after: Option.getOrUndefined(entry.after),
+    correlationId: Option.getOrUndefined(entry.correlationId),
+    performedAt: DateTimeHelpers.fromDate(entry.performedAt),
+  }),
+
+  /**
+   * Map a page of entries to AuditLogResponse DTO
+   */
+  toAuditLogResponse: (page: AuditPage, limit: number): AuditLogResponse => ({
+    data: page.entries.map(AuditResponseMapper.toAuditEntryResponse),
+    meta: {
+      limit,
+      nextCursor: pipe(
+        page.nextCursor,
+        Option.map(encodeCursor),
+        Option.getOrUndefined
+      ),
+      hasNextPage: Option.isSome(page.nextCursor),
+    },
+  }),
+
+  /**
+   * Map a chain verification to AuditChainVerificationResponse DTO
+   */
+  toAuditChainVerificationResponse: (
+    verification: AuditChainVerification
+  ): AuditChainVerificationResponse => ({
+    valid: Option.isNone(verification.brokenLink),
+    documentsChecked: verification.documentsChecked,
+    entriesChecked: verification.entriesChecked,
+    brokenLink: Option.getOrUndefined(verification.brokenLink),
+  }),
+} as const;
@@ -12,12 +12,14 @@ import type {
   DocumentWithVersionResponse,
   UploadDocumentResponse,
   PaginatedDocumentsResponse,
+  DocumentSearchHitResponse,
   SearchDocumentsResponse,
 } from "../dtos/document/response.dto";
 import {
   DocumentEntity,
   DocumentVersionEntity,
   type DocumentWithVersion,
+  type DocumentSearchHit,
 } from "../../domain/document/entity";
 import type {
   Filename,
@@ -112,6 +114,14 @@ export const DocumentResponseMapper = {
    */
   toDocumentResponse: (document: DocumentEntity): DocumentResponse => {
     const latestVersionOpt = document.getLatestVersion();
+    const trashFields = {
+      deletedAt: pipe(
+        document.deletedAt,
+        Option.map(DateTimeHelpers.fromDate),
+        Option.getOrUndefined
+      ),
+      deletedBy: Option.getOrUndefined(document.deletedBy),
+    };
 
     return pipe(
       latestVersionOpt,
@@ -122,9 +132,11 @@ export const DocumentResponseMapper = {
           originalName: document.originalName,
           mimeType: document.mimeType,
           size: document.size,
+          folderId: Option.getOrUndefined(document.folderId),
           uploadedBy: document.uploadedBy,
           createdAt: DateTimeHelpers.fromDate(document.createdAt),
           updatedAt: DateTimeHelpers.fromDate(document.updatedAt),
+          ...trashFields,
         }),
         onSome: (latestVersion) => ({
           id: document.id,
@@ -132,9 +144,11 @@ export const DocumentResponseMapper = {
           originalName: latestVersion.originalName,
           mimeType: latestVersion.mimeType,
           size: latestVersion.size,
+          folderId: Option.getOrUndefined(document.folderId),
           uploadedBy: document.uploadedBy,
           createdAt: DateTimeHelpers.fromDate(document.createdAt),
           updatedAt: DateTimeHelpers.fromDate(document.updatedAt),
+          ...trashFields,
         }),
       })
     );
@@ -226,18 +240,27 @@ export const DocumentResponseMapper = {
     };
   },
 
+  /**
+   * Map a search hit to DocumentSearchHitResponse DTO
+   */
+  toSearchHitResponse: (hit: DocumentSearchHit): DocumentSearchHitResponse => ({
+    document: DocumentResponseMapper.toDocumentResponse(hit.document),
+    rank: Option.getOrUndefined(hit.rank),
+    snippet: Option.getOrUndefined(hit.snippet),
+  }),
+
   /**
    * Map search results to SearchDocumentsResponse DTO
    */
   toSearchDocumentsResponse: (
-    documents: readonly DocumentEntity[],
+    hits: readonly DocumentSearchHit[],
     total: number,
     page: number,
     limit: number
   ): SearchDocumentsResponse => {
     const totalPages = Math.ceil(total / limit);
     return {
-      data: documents.map(DocumentResponseMapper.toDocumentResponse),
+      data: hits.map(DocumentResponseMapper.toSearchHitResponse),
       meta: {
         page,
         limit,
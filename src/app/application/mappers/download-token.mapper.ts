@@ -59,6 +59,14 @@ export const DownloadTokenResponseMapper = {
     expiresAt: DateTimeHelpers.fromDate(token.expiresAt),
   }),
 
+  /**
+   * Build the HTTP entity tag of a version
+   * Versions are immutable, so the checksum (or the version ID for versions
+   * stored without one) identifies the content
+   */
+  toEntityTag: (version: DocumentVersion): string =>
+    `"${Option.getOrElse(version.checksum, () => version.id)}"`,
+
   /**
    * Map DocumentVersion to DownloadFileResponse DTO
    */
@@ -69,6 +77,8 @@ export const DownloadTokenResponseMapper = {
     mimeType: version.mimeType,
     size: version.size,
     path: Option.getOrElse(version.path, () => ""),
+    etag: DownloadTokenResponseMapper.toEntityTag(version),
+    lastModified: DateTimeHelpers.fromDate(version.createdAt),
   }),
 
   /**
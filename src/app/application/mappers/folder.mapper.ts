@@ -0,0 +1,54 @@
+/**
+ * Folder Application → Domain Mappers
+ *
+ * Maps Domain entities to Application DTOs for folder operations.
+ */
+
+import { Option } from "effect";
+import type {
+  FolderResponse,
+  FolderDetailsResponse,
+  ListFoldersResponse,
+} from "../dtos/folder/response.dto";
+import type { FolderEntity } from "../../domain/folder/entity";
+import { DateTimeHelpers } from "../../domain/refined/date-time";
+
+/**
+ * Domain to Response Mappers
+ */
+export const FolderResponseMapper = {
+  /**
+   * Map Folder entity to FolderResponse DTO
+   */
+  toFolderResponse: (folder: FolderEntity): FolderResponse => ({
+    id: folder.id,
+    name: folder.name,
+    parentId: Option.getOrUndefined(folder.parentId),
+    ownerId: folder.ownerId,
+    createdAt: DateTimeHelpers.fromDate(folder.createdAt),
+    updatedAt: DateTimeHelpers.fromDate(folder.updatedAt),
+  }),
+
+  /**
+   * Map Folder with its path and children to FolderDetailsResponse DTO
+   */
+  toFolderDetailsResponse: (
+    folder: FolderEntity,
+    path: readonly FolderEntity[],
+    children: readonly FolderEntity[]
+  ): FolderDetailsResponse => ({
+    folder: FolderResponseMapper.toFolderResponse(folder),
+    path: path.map(FolderResponseMapper.toFolderResponse),
+    children: children.map(FolderResponseMapper.toFolderResponse),
+  }),
+
+  /**
+   * Map folder list to ListFoldersResponse DTO
+   */
+  toListFoldersResponse: (
+    folders: readonly FolderEntity[]
+  ): ListFoldersResponse => ({
+    folders: folders.map(FolderResponseMapper.toFolderResponse),
+    total: folders.length,
+  }),
+} as const;
@@ -0,0 +1,40 @@
+/**
+ * Group Application → Domain Mappers
+ *
+ * Maps Domain entities to Application DTOs for group operations.
+ */
+
+import type {
+  GroupResponse,
+  ListGroupsResponse,
+} from "../dtos/group/response.dto";
+import type { GroupEntity } from "../../domain/group/entity";
+import { DateTimeHelpers } from "../../domain/refined/date-time";
+
+/**
+ * Domain to Response Mappers
+ */
+export const GroupResponseMapper = {
+  /**
+   * Map Group entity to GroupResponse DTO
+   */
+  toGroupResponse: (group: GroupEntity): GroupResponse => ({
+    id: group.id,
+    name: group.name,
+    ownerId: group.ownerId,
+    memberIds: group.memberIds,
+    memberCount: group.memberIds.length,
+    createdAt: DateTimeHelpers.fromDate(group.createdAt),
+    updatedAt: DateTimeHelpers.fromDate(group.updatedAt),
+  }),
+
+  /**
+   * Map group list to ListGroupsResponse DTO
+   */
+  toListGroupsResponse: (
+    groups: readonly GroupEntity[]
+  ): ListGroupsResponse => ({
+    groups: groups.map(GroupResponseMapper.toGroupResponse),
+    total: groups.length,
+  }),
+} as const;
@@ -9,3 +9,10 @@ export * from "./user.mapper";
 export * from "./document.mapper";
 export * from "./permission.mapper";
 export * from "./metadata.mapper";
+export * from "./folder.mapper";
+export * from "./upload-session.mapper";
+export * from "./upload-ticket.mapper";
+export * from "./group.mapper";
+export * from "./audit.mapper";
+export * from "./access-token.mapper";
+export * from "./mfa.mapper";
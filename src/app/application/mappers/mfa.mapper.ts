@@ -0,0 +1,66 @@
+/**
+ * MFA Application → Domain Mappers
+ *
+ * Maps Domain entities to Application DTOs for MFA operations.
+ */
+
+import { Option } from "effect";
+import type {
+  MfaEnrollmentResponse,
+  MfaPolicyResponse,
+  MfaRecoveryCodesResponse,
+  MfaStatusResponse,
+} from "../dtos/mfa/response.dto";
+import type { MfaEnrollmentEntity } from "../../domain/mfa/entity";
+import { totpProvisioningUri } from "../../domain/mfa/value-object";
+import type { UserRole } from "../../domain/user/value-object";
+
+/**
+ * Domain to Response Mappers
+ */
+export const MfaResponseMapper = {
+  /**
+   * Map a user's enrollment (if any) to MfaStatusResponse DTO
+   */
+  toMfaStatusResponse: (
+    enrollment: Option.Option<MfaEnrollmentEntity>,
+    required: boolean
+  ): MfaStatusResponse => ({
+    enabled: Option.exists(enrollment, (e) => e.isConfirmed()),
+    pending: Option.exists(enrollment, (e) => !e.isConfirmed()),
+    required,
+    recoveryCodesRemaining: Option.match(enrollment, {
+      onNone: () => 0,
+      onSome: (e) => e.recoveryCodeHashes.length,
+    }),
+  }),
+
+  /**
+   * Map a pending enrollment to MfaEnrollmentResponse DTO
+   */
+  toMfaEnrollmentResponse: (
+    enrollment: MfaEnrollmentEntity,
+    accountName: string
+  ): MfaEnrollmentResponse => ({
+    secret: enrollment.secret,
+    provisioningUri: totpProvisioningUri(enrollment.secret, accountName),
+  }),
+
+  /**
+   * Map newly issued recovery codes to MfaRecoveryCodesResponse DTO
+   */
+  toMfaRecoveryCodesResponse: (
+    recoveryCodes: readonly string[]
+  ): MfaRecoveryCodesResponse => ({
+    recoveryCodes,
+  }),
+
+  /**
+   * Map the roles that require MFA to MfaPolicyResponse DTO
+   */
+  toMfaPolicyResponse: (
+    requiredRoles: readonly UserRole[]
+  ): MfaPolicyResponse => ({
+    requiredRoles,
+  }),
+};
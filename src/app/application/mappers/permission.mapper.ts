@@ -4,6 +4,7 @@
  * Maps Application DTOs to Domain entities for permission operations.
  */
 
+import { Option, pipe } from "effect";
 import type {
   GrantPermissionCommand,
   UpdatePermissionCommand,
@@ -13,8 +14,11 @@ import type {
   GrantPermissionResponse,
   ListPermissionsResponse,
   CheckPermissionResponse,
+  CleanupPermissionsResponse,
+  ExplainPermissionResponse,
 } from "../dtos/permission/response.dto";
 import type { DocumentPermissionEntity as DocumentPermission } from "../../domain/permission/entity";
+import type { AccessExplanation } from "../../domain/permission/service";
 import type { DocumentId, UserId } from "../../domain/refined/uuid";
 import type { PermissionType } from "../../domain/permission/value-object";
 import { DateTimeHelpers } from "../../domain/refined/date-time";
@@ -64,10 +68,16 @@ export const PermissionResponseMapper = {
   ): PermissionResponse => ({
     id: permission.id,
     documentId: permission.documentId,
-    userId: permission.userId,
+    userId: Option.getOrUndefined(permission.userId),
+    groupId: Option.getOrUndefined(permission.groupId),
     permission: permission.permission,
     grantedBy: permission.grantedBy,
     grantedAt: DateTimeHelpers.fromDate(permission.grantedAt),
+    expiresAt: pipe(
+      permission.expiresAt,
+      Option.map(DateTimeHelpers.fromDate),
+      Option.getOrUndefined
+    ),
   }),
 
   /**
@@ -103,4 +113,38 @@ export const PermissionResponseMapper = {
     hasPermission,
     permission: permissionType,
   }),
+
+  /**
+   * Map an access decision trace to ExplainPermissionResponse DTO
+   */
+  toExplainPermissionResponse: (
+    documentId: DocumentId,
+    userId: UserId,
+    explanation: AccessExplanation
+  ): ExplainPermissionResponse => ({
+    documentId,
+    userId,
+    requiredPermission: explanation.requiredPermission,
+    granted: explanation.granted,
+    matchedRule: explanation.matchedRule,
+    matchedGrant: pipe(
+      explanation.matchedGrant,
+      Option.map(PermissionResponseMapper.toPermissionResponse),
+      Option.getOrUndefined
+    ),
+    rules: explanation.rules,
+    grants: explanation.grants.map((grant) => ({
+      ...grant,
+      permission: PermissionResponseMapper.toPermissionResponse(
+        grant.permission
+      ),
+    })),
+  }),
+
+  /**
+   * Map deleted count to CleanupPermissionsResponse DTO
+   */
+  toCleanupPermissionsResponse: (
+    deletedCount: number
+  ): CleanupPermissionsResponse => ({ deletedCount }),
 } as const;
@@ -0,0 +1,60 @@
+/**
+ * Upload Session Application → Domain Mappers
+ *
+ * Maps Domain entities to Application DTOs for resumable uploads.
+ */
+
+import { Option } from "effect";
+import type {
+  UploadSessionResponse,
+  AppendUploadChunkResponse,
+  CleanupUploadSessionsResponse,
+} from "../dtos/upload-session/response.dto";
+import type { UploadDocumentResponse } from "../dtos/document/response.dto";
+import type { UploadSessionEntity } from "../../domain/upload-session/entity";
+import { DateTimeHelpers } from "../../domain/refined/date-time";
+
+/**
+ * Domain to Response Mappers
+ */
+export const UploadSessionResponseMapper = {
+  /**
+   * Map UploadSession entity and received byte count to UploadSessionResponse DTO
+   */
+  toUploadSessionResponse: (
+    session: UploadSessionEntity,
+    offset: number
+  ): UploadSessionResponse => ({
+    id: session.id,
+    filename: session.filename,
+    mimeType: session.mimeType,
+    uploadLength: session.uploadLength,
+    offset,
+    documentId: Option.getOrUndefined(session.documentId),
+    folderId: Option.getOrUndefined(session.folderId),
+    expiresAt: DateTimeHelpers.fromDate(session.expiresAt),
+    createdAt: DateTimeHelpers.fromDate(session.createdAt),
+  }),
+
+  /**
+   * Map chunk outcome to AppendUploadChunkResponse DTO
+   */
+  toAppendUploadChunkResponse: (
+    session: UploadSessionEntity,
+    offset: number,
+    document?: UploadDocumentResponse
+  ): AppendUploadChunkResponse => ({
+    session: UploadSessionResponseMapper.toUploadSessionResponse(
+      session,
+      offset
+    ),
+    document,
+  }),
+
+  /**
+   * Map deleted count to CleanupUploadSessionsResponse DTO
+   */
+  toCleanupUploadSessionsResponse: (
+    deletedCount: number
+  ): CleanupUploadSessionsResponse => ({ deletedCount }),
+};
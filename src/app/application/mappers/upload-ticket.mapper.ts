@@ -0,0 +1,41 @@
+/**
+ * Upload Ticket Application → Domain Mappers
+ *
+ * Maps Domain entities to Application DTOs for upload ticket operations.
+ */
+
+import type {
+  UploadTicketResponse,
+  CleanupUploadTicketsResponse,
+} from "../dtos/upload-ticket/response.dto";
+import type { UploadTicketEntity } from "../../domain/upload-ticket/entity";
+import { DateTimeHelpers } from "../../domain/refined/date-time";
+
+/**
+ * Domain to Response Mappers
+ */
+export const UploadTicketResponseMapper = {
+  /**
+   * Map UploadTicket entity and its signed ticket to UploadTicketResponse DTO
+   */
+  toUploadTicketResponse: (
+    ticket: UploadTicketEntity,
+    signedTicket: string,
+    baseUrl: string
+  ): UploadTicketResponse => ({
+    ticket: signedTicket,
+    documentId: ticket.documentId,
+    versionId: ticket.versionId,
+    maxSize: ticket.maxSize,
+    mimeType: ticket.mimeType,
+    uploadUrl: `${baseUrl}/upload/${ticket.documentId}/${ticket.versionId}`,
+    expiresAt: DateTimeHelpers.fromDate(ticket.expiresAt),
+  }),
+
+  /**
+   * Map deleted count to CleanupUploadTicketsResponse DTO
+   */
+  toCleanupUploadTicketsResponse: (
+    deletedCount: number
+  ): CleanupUploadTicketsResponse => ({ deletedCount }),
+};
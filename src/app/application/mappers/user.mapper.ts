@@ -4,17 +4,23 @@
  * Maps Application DTOs to Domain entities for user operations.
  */
 
+import { Option } from "effect";
 import type {
   RegisterUserCommand,
   LoginUserCommand,
   UpdateUserProfileCommand,
+  DocumentDispositionMode,
 } from "../dtos/user/request.dto";
 import type {
   UserResponse,
   LoginResponse,
+  MfaChallengeResponse,
+  RefreshSessionResponse,
+  LogoutResponse,
   RegisterResponse,
   UserProfileResponse,
   ListUsersResponse,
+  DeleteUserResponse,
 } from "../dtos/user/response.dto";
 import type {
   UserEntity as User,
@@ -23,6 +29,19 @@ import type {
 import type { EmailAddress } from "../../domain/refined/email";
 import type { HashedPassword } from "../../domain/refined/password";
 import type { UserRole } from "../../domain/user/value-object";
+import type { UserId } from "../../domain/refined/uuid";
+import type { UserDeletionSummary } from "../../domain/user/repository";
+import type { MfaChallengeEntity } from "../../domain/mfa/entity";
+
+/**
+ * Access and refresh token issued for a session
+ */
+export interface SessionTokens {
+  readonly token: string;
+  readonly expiresIn: number;
+  readonly refreshToken: string;
+  readonly refreshExpiresAt: Date;
+}
 
 /**
  * Command to Domain Mappers
@@ -75,21 +94,57 @@ export const UserResponseMapper = {
     id: user.id,
     email: user.email,
     role: user.role,
+    emailVerified: user.isEmailVerified(),
+    suspended: user.isSuspended(),
     createdAt: user.createdAt as any,
     updatedAt: user.updatedAt as any,
   }),
 
   /**
-   * Map User and token to LoginResponse DTO
+   * Map User and session tokens to LoginResponse DTO
+   * recoveryCodes are passed when MFA was enabled during the login
    */
   toLoginResponse: (
     user: User,
-    token: string,
-    expiresIn: number
+    tokens: SessionTokens,
+    recoveryCodes?: readonly string[]
   ): LoginResponse => ({
     user: UserResponseMapper.toUserResponse(user),
-    token,
-    expiresIn,
+    ...UserResponseMapper.toRefreshSessionResponse(tokens),
+    ...(recoveryCodes ? { recoveryCodes } : {}),
+  }),
+
+  /**
+   * Map an MFA challenge to MfaChallengeResponse DTO
+   */
+  toMfaChallengeResponse: (
+    challenge: MfaChallengeEntity,
+    challengeToken: string,
+    enrollmentRequired: boolean
+  ): MfaChallengeResponse => ({
+    mfaRequired: true,
+    challengeToken,
+    challengeExpiresAt: challenge.expiresAt as any,
+    enrollmentRequired,
+  }),
+
+  /**
+   * Map session tokens to RefreshSessionResponse DTO
+   */
+  toRefreshSessionResponse: (
+    tokens: SessionTokens
+  ): RefreshSessionResponse => ({
+    token: tokens.token,
+    expiresIn: tokens.expiresIn,
+    refreshToken: tokens.refreshToken,
+    refreshExpiresAt: tokens.refreshExpiresAt as any,
+  }),
+
+  /**
+   * Map the number of revoked sessions to LogoutResponse DTO
+   */
+  toLogoutResponse: (sessionsRevoked: number): LogoutResponse => ({
+    sessionsRevoked,
   }),
 
   /**
@@ -124,4 +179,21 @@ export const UserResponseMapper = {
       hasPreviousPage: page > 1,
     },
   }),
+
+  /**
+   * Map a deletion summary to DeleteUserResponse DTO
+   */
+  toDeleteUserResponse: (
+    userId: UserId,
+    disposition: DocumentDispositionMode,
+    reassignedTo: Option.Option<UserId>,
+    summary: UserDeletionSummary
+  ): DeleteUserResponse => ({
+    userId,
+    disposition,
+    reassignedTo: Option.getOrUndefined(reassignedTo),
+    documentsReassigned: summary.documentsReassigned,
+    foldersReassigned: summary.foldersReassigned,
+    folderId: Option.getOrUndefined(summary.folderId),
+  }),
 } as const;
@@ -0,0 +1,38 @@
+/**
+ * Audit Port
+ *
+ * Abstract interface for recording audit events.
+ * Every workflow writes its audit trail through this port.
+ */
+
+import { Effect, Context } from "effect";
+import type { AuditAction } from "../../domain/audit/value-object";
+import type { DocumentId, UserId } from "../../domain/refined/uuid";
+
+/**
+ * An event to record
+ * before / after hold the affected values around the change (JSON-serializable)
+ */
+export interface AuditEvent {
+  readonly action: AuditAction;
+  readonly performedBy: UserId;
+  readonly documentId?: DocumentId;
+  readonly details?: string;
+  readonly before?: unknown;
+  readonly after?: unknown;
+}
+
+/**
+ * Audit Port Interface
+ */
+export interface AuditPort {
+  /**
+   * Record an event, tagged with the current request's correlation ID
+   */
+  readonly record: (event: AuditEvent) => Effect.Effect<void, Error>;
+}
+
+/**
+ * Context tag for dependency injection
+ */
+export const AuditPortTag = Context.GenericTag<AuditPort>("@app/AuditPort");
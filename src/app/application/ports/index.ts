@@ -13,3 +13,5 @@
 export * from "./storage.port";
 export * from "./password-hasher.port";
 export * from "./jwt.port";
+export * from "./audit.port";
+export * from "./mailer.port";
@@ -6,16 +6,18 @@
  */
 
 import { Effect, Context } from "effect";
-import { UserId } from "../../domain/refined/uuid";
+import { SessionId, UserId } from "../../domain/refined/uuid";
 import { EmailAddress } from "../../domain/refined/email";
 
 /**
  * JWT payload
+ * sessionId ties the token to the login session it was issued for
  */
 export interface JwtPayload {
   readonly userId: UserId;
   readonly email: EmailAddress;
   readonly role: string;
+  readonly sessionId: SessionId;
 }
 
 /**
@@ -0,0 +1,32 @@
+/**
+ * Mailer Port
+ *
+ * Abstract interface for sending email.
+ * Implemented by infrastructure adapters (SMTP, outbox, ...)
+ */
+
+import { Effect, Context } from "effect";
+
+/**
+ * A plain-text email to a single recipient
+ */
+export interface MailMessage {
+  readonly to: string;
+  readonly subject: string;
+  readonly text: string;
+}
+
+/**
+ * Mailer Port Interface
+ */
+export interface MailerPort {
+  /**
+   * Send a message; succeeds once the transport has accepted it
+   */
+  readonly send: (message: MailMessage) => Effect.Effect<void, Error>;
+}
+
+/**
+ * Context tag for dependency injection
+ */
+export const MailerPortTag = Context.GenericTag<MailerPort>("@app/MailerPort");
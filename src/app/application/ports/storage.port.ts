@@ -16,6 +16,7 @@ export interface UploadedFile {
   readonly size: number;
   readonly type?: string;
   readonly arrayBuffer: () => Promise<ArrayBuffer>;
+  readonly stream?: () => ReadableStream<Uint8Array>; // Read instead of arrayBuffer when available
 }
 
 /**
@@ -35,7 +36,8 @@ export const UploadedFileSchema = S.declare(
       typeof file.name === "string" &&
       typeof file.size === "number" &&
       (file.type === undefined || typeof file.type === "string") &&
-      typeof file.arrayBuffer === "function"
+      typeof file.arrayBuffer === "function" &&
+      (file.stream === undefined || typeof file.stream === "function")
     );
   },
   {
@@ -56,6 +58,15 @@ export interface StoredFileInfo {
   readonly mimeType: string;
   readonly size: number;
   readonly checksum: string; // SHA-256 hash of file content
+  readonly textContent?: string; // Extracted text for full-text search (text formats only)
+}
+
+/**
+ * Inclusive byte range within a stored file
+ */
+export interface ByteRange {
+  readonly start: number;
+  readonly end: number;
 }
 
 /**
@@ -68,16 +79,19 @@ export interface StoragePort {
   /**
    * Store uploaded file with automatic metadata extraction
    * Handles temp file creation, metadata extraction, and cleanup
+   * Content is streamed, files over maxSize are rejected mid-upload
    *
    * @param file - Uploaded file from HTTP multipart form
    * @param documentId - Document ID for organizing storage
    * @param versionId - Version ID for organizing storage
+   * @param maxSize - Size limit in bytes, capped at MAX_FILE_SIZE
    * @returns Stored file information (path, metadata)
    */
   readonly storeUploadedFile: (
     file: UploadedFile,
     documentId: string,
-    versionId: string
+    versionId: string,
+    maxSize?: number
   ) => Effect.Effect<StoredFileInfo, DocumentStorageError>;
 
   /**
@@ -97,8 +111,73 @@ export interface StoragePort {
     versionId: string
   ) => Effect.Effect<string, DocumentStorageError>;
 
+  /**
+   * Open a read stream over a stored file (the whole file or a byte range)
+   * Lets callers send large files without buffering them in memory
+   *
+   * @param path - File path to read
+   * @param range - Optional inclusive byte range
+   * @returns Stream of file bytes
+   */
+  readonly readFileStream: (
+    path: string,
+    range?: ByteRange
+  ) => Effect.Effect<ReadableStream<Uint8Array>, DocumentStorageError>;
+
+  /**
+   * Append a chunk to the partial file of a resumable upload
+   * The chunk must start exactly at the current end of the partial file;
+   * callers serialize appends to the same upload
+   *
+   * @param uploadId - Upload session ID
+   * @param offset - Byte offset the chunk starts at
+   * @param data - Chunk bytes
+   * @param maxBytes - Maximum bytes accepted from this chunk
+   * @returns New size of the partial file
+   */
+  readonly appendUploadPart: (
+    uploadId: string,
+    offset: number,
+    data: ReadableStream<Uint8Array>,
+    maxBytes: number
+  ) => Effect.Effect<number, DocumentStorageError>;
+
+  /**
+   * Get the number of bytes received so far for a resumable upload
+   *
+   * @param uploadId - Upload session ID
+   * @returns Size of the partial file (0 when nothing was received)
+   */
+  readonly getUploadPartSize: (
+    uploadId: string
+  ) => Effect.Effect<number, DocumentStorageError>;
+
+  /**
+   * Expose a completed partial file as an uploaded file, ready to be stored
+   *
+   * @param uploadId - Upload session ID
+   * @param name - Original filename
+   * @param type - MIME type
+   * @returns Uploaded file reading from the partial file
+   */
+  readonly openUploadPart: (
+    uploadId: string,
+    name: string,
+    type: string
+  ) => Effect.Effect<UploadedFile, DocumentStorageError>;
+
+  /**
+   * Delete the partial file of a resumable upload (no-op when missing)
+   *
+   * @param uploadId - Upload session ID
+   */
+  readonly deleteUploadPart: (
+    uploadId: string
+  ) => Effect.Effect<void, DocumentStorageError>;
+
   /**
    * Delete a file from storage
+   * Deleting a file that no longer exists succeeds
    *
    * @param path - File path to delete
    */
@@ -0,0 +1,208 @@
+/**
+ * Access Token Workflow - Functional Pattern
+ *
+ * Functional workflows using currying pattern.
+ * No Effect.gen usage - pure monadic composition with pipe.
+ *
+ * Workflows accept raw Input types and transform them into branded Command/Query types.
+ */
+
+import { Effect, pipe, Schema as S } from "effect";
+import type { AccessTokenRepository } from "../../domain/access-token/repository";
+import type { UserRepository } from "../../domain/user/repository";
+import { AccessTokenEntity } from "../../domain/access-token/entity";
+import type { AccessTokenDomainError } from "../../domain/access-token/errors";
+import {
+  accessTokenHint,
+  generateAccessToken,
+  hashAccessToken,
+} from "../../domain/access-token/value-object";
+import { NotFoundError, ForbiddenError } from "../../domain/shared/base.errors";
+import { isAdmin } from "../../domain/permission/service";
+import { loadEntity } from "../utils/effect-helpers";
+import { UuidGenerators } from "../../domain/refined/uuid";
+import type { AuditPort } from "../ports/audit.port";
+import type {
+  CreateAccessTokenInput,
+  ListAccessTokensInput,
+  RevokeAccessTokenInput,
+} from "../dtos/access-token/request.dto";
+import * as AccessTokenDTOs from "../dtos/access-token/request.dto";
+import type {
+  AccessTokenResponse,
+  CreatedAccessTokenResponse,
+  ListAccessTokensResponse,
+} from "../dtos/access-token/response.dto";
+import { AccessTokenResponseMapper } from "../mappers/access-token.mapper";
+
+// Re-export WorkflowTag from bootstrap for route compatibility
+export { AccessTokenWorkflowTag } from "../../bootstrap";
+
+/**
+ * Dependencies for access token workflows
+ */
+export interface AccessTokenWorkflowDeps {
+  readonly accessTokenRepo: AccessTokenRepository;
+  readonly userRepo: UserRepository;
+  readonly auditService: AuditPort;
+}
+
+/**
+ * Create a personal access token for the requesting user
+ * The token value is returned once; only its hash is stored
+ */
+export const createAccessToken =
+  (deps: AccessTokenWorkflowDeps) =>
+  (
+    input: CreateAccessTokenInput
+  ): Effect.Effect<
+    CreatedAccessTokenResponse,
+    NotFoundError | AccessTokenDomainError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(AccessTokenDTOs.CreateAccessTokenCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for createAccessToken: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        pipe(
+          loadEntity(
+            deps.userRepo.findById(command.userId),
+            "User",
+            command.userId
+          ),
+          Effect.flatMap((user) => {
+            const value = generateAccessToken();
+            const now = new Date();
+            return pipe(
+              AccessTokenEntity.create({
+                id: UuidGenerators.accessTokenId(),
+                userId: user.id,
+                name: command.name,
+                scope: command.scope,
+                tokenHash: hashAccessToken(value),
+                tokenHint: accessTokenHint(value),
+                expiresAt:
+                  command.expiresInDays === undefined
+                    ? undefined
+                    : new Date(
+                        now.getTime() +
+                          command.expiresInDays * 24 * 60 * 60 * 1000
+                      ),
+                createdAt: now,
+              }),
+              Effect.flatMap((token) => deps.accessTokenRepo.save(token)),
+              Effect.map((token) => ({ token, value }))
+            );
+          }),
+          Effect.tap(({ token }) =>
+            deps.auditService.record({
+              action: "access_token_created",
+              performedBy: token.userId,
+              details: `Access token "${token.name}" (${token.scope})`,
+              after: { tokenId: token.id, scope: token.scope },
+            })
+          ),
+          Effect.map(({ token, value }) =>
+            AccessTokenResponseMapper.toCreatedAccessTokenResponse(token, value)
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * List the access tokens of the requesting user
+ */
+export const listAccessTokens =
+  (deps: AccessTokenWorkflowDeps) =>
+  (
+    input: ListAccessTokensInput
+  ): Effect.Effect<
+    ListAccessTokensResponse,
+    AccessTokenDomainError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(AccessTokenDTOs.ListAccessTokensQuery)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for listAccessTokens: ${e}`)
+      ),
+      Effect.flatMap((query) =>
+        pipe(
+          deps.accessTokenRepo.findByUser(query.userId),
+          Effect.map(AccessTokenResponseMapper.toListAccessTokensResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Revoke an access token (its owner or an admin)
+ * The token stops authenticating immediately
+ */
+export const revokeAccessToken =
+  (deps: AccessTokenWorkflowDeps) =>
+  (
+    input: RevokeAccessTokenInput
+  ): Effect.Effect<
+    AccessTokenResponse,
+    NotFoundError | ForbiddenError | AccessTokenDomainError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(AccessTokenDTOs.RevokeAccessTokenCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for revokeAccessToken: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        pipe(
+          Effect.all({
+            token: loadEntity(
+              deps.accessTokenRepo.findById(command.tokenId),
+              "AccessToken",
+              command.tokenId
+            ),
+            user: loadEntity(
+              deps.userRepo.findById(command.userId),
+              "User",
+              command.userId
+            ),
+          }),
+          Effect.filterOrFail(
+            ({ token, user }) => token.userId === user.id || isAdmin(user),
+            () =>
+              new ForbiddenError({
+                message: "Only the token owner or an admin can revoke it",
+                resource: `AccessToken:${command.tokenId}`,
+              })
+          ),
+          Effect.flatMap(({ token }) =>
+            pipe(
+              deps.accessTokenRepo.revoke(token.id),
+              Effect.zipRight(
+                loadEntity(
+                  deps.accessTokenRepo.findById(token.id),
+                  "AccessToken",
+                  token.id
+                )
+              )
+            )
+          ),
+          Effect.tap((token) =>
+            deps.auditService.record({
+              action: "access_token_revoked",
+              performedBy: command.userId,
+              details: `Access token "${token.name}"`,
+              before: { tokenId: token.id, scope: token.scope },
+            })
+          ),
+          Effect.map(AccessTokenResponseMapper.toAccessTokenResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
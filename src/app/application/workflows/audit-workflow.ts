@@ -0,0 +1,364 @@
+/**
+ * Audit Workflow - Functional Pattern
+ *
+ * Functional workflows using currying pattern.
+ * No Effect.gen usage - pure monadic composition with pipe.
+ *
+ * Workflows accept raw Input types and transform them into branded Command/Query types.
+ */
+
+import { Chunk, Effect, Option, pipe, Schema as S, Stream } from "effect";
+import type {
+  AuditRepository,
+  AuditFilter,
+} from "../../domain/audit/repository";
+import type { DocumentRepository } from "../../domain/document/repository";
+import type { UserRepository } from "../../domain/user/repository";
+import { AuditValidationError } from "../../domain/audit/errors";
+import { NotFoundError, ForbiddenError } from "../../domain/shared/base.errors";
+import { isAdmin, isDocumentOwner } from "../../domain/permission/service";
+import {
+  decodeCursor,
+  type Cursor,
+  type CursorParams,
+} from "../../domain/shared/pagination";
+import type { DocumentId, UserId } from "../../domain/refined/uuid";
+import { loadEntity } from "../utils/effect-helpers";
+import type {
+  GetDocumentAuditInput,
+  QueryAuditLogInput,
+  ExportDocumentAuditInput,
+  ExportAuditLogInput,
+  ExportAuditLogQuery,
+  VerifyAuditChainInput,
+} from "../dtos/audit/request.dto";
+import * as AuditDTOs from "../dtos/audit/request.dto";
+import type {
+  AuditEntryResponse,
+  AuditLogResponse,
+  AuditChainVerificationResponse,
+} from "../dtos/audit/response.dto";
+import { AuditResponseMapper } from "../mappers/audit.mapper";
+
+// Re-export WorkflowTag from bootstrap for route compatibility
+export { AuditWorkflowTag } from "../../bootstrap";
+
+/**
+ * Dependencies for audit workflows
+ */
+export interface AuditWorkflowDeps {
+  readonly auditRepo: AuditRepository;
+  readonly documentRepo: DocumentRepository;
+  readonly userRepo: UserRepository;
+}
+
+/**
+ * Default page size for audit listings
+ */
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+
+/**
+ * Batch size used while streaming entries for an export
+ */
+const AUDIT_EXPORT_BATCH_SIZE = 500;
+
+/**
+ * Load a document and the requesting user, failing unless the user owns the
+ * document or is an admin
+ */
+const loadAuditableDocument = (
+  deps: AuditWorkflowDeps,
+  documentId: DocumentId,
+  userId: UserId
+) =>
+  pipe(
+    Effect.all({
+      document: loadEntity(
+        deps.documentRepo.findById(documentId),
+        "Document",
+        documentId
+      ),
+      user: loadEntity(deps.userRepo.findById(userId), "User", userId),
+    }),
+    Effect.filterOrFail(
+      ({ document, user }) => isAdmin(user) || isDocumentOwner(document, user),
+      () =>
+        new ForbiddenError({
+          message: "Only the document owner or an admin can read its audit log",
+          resource: `Document:${documentId}`,
+        })
+    )
+  );
+
+/**
+ * Fail unless the requesting user is an admin
+ */
+const requireAdmin = (deps: AuditWorkflowDeps, userId: UserId) =>
+  pipe(
+    loadEntity(deps.userRepo.findById(userId), "User", userId),
+    Effect.filterOrFail(isAdmin, () =>
+      new ForbiddenError({
+        message: "Only administrators can query the audit log",
+        resource: "Audit",
+      })
+    )
+  );
+
+/**
+ * Decode the cursor of the previous page
+ */
+const parseCursor = (
+  cursor: string | undefined
+): Effect.Effect<Option.Option<Cursor>, AuditValidationError> =>
+  cursor === undefined
+    ? Effect.succeed(Option.none())
+    : pipe(
+        decodeCursor(cursor),
+        Option.match({
+          onNone: () =>
+            Effect.fail(
+              new AuditValidationError({
+                message: "Invalid cursor",
+                field: "cursor",
+              })
+            ),
+          onSome: (decoded) => Effect.succeed(Option.some(decoded)),
+        })
+      );
+
+/**
+ * Build the repository filter from admin query criteria
+ */
+const toAuditFilter = (
+  query: ExportAuditLogQuery
+): Effect.Effect<AuditFilter, AuditValidationError> =>
+  query.from && query.to && query.from > query.to
+    ? Effect.fail(
+        new AuditValidationError({
+          message: "from must not be after to",
+          field: "from",
+        })
+      )
+    : Effect.succeed({
+        documentId: Option.fromNullable(query.documentId),
+        performedBy: Option.fromNullable(query.performedBy),
+        action: Option.fromNullable(query.action),
+        from: Option.fromNullable(query.from),
+        to: Option.fromNullable(query.to),
+      });
+
+/**
+ * Filter matching every entry of one document
+ */
+const documentFilter = (documentId: DocumentId): AuditFilter => ({
+  documentId: Option.some(documentId),
+  performedBy: Option.none(),
+  action: Option.none(),
+  from: Option.none(),
+  to: Option.none(),
+});
+
+/**
+ * Fetch one page of entries
+ */
+const fetchPage = (
+  deps: AuditWorkflowDeps,
+  filter: AuditFilter,
+  cursor: string | undefined,
+  limit: number | undefined
+) =>
+  pipe(
+    parseCursor(cursor),
+    Effect.flatMap((after) => {
+      const params: CursorParams = {
+        limit: limit ?? DEFAULT_AUDIT_PAGE_SIZE,
+        after,
+      };
+      return pipe(
+        deps.auditRepo.query(filter, params),
+        Effect.map((page) =>
+          AuditResponseMapper.toAuditLogResponse(page, params.limit)
+        )
+      );
+    })
+  );
+
+/**
+ * Stream every entry matching the filter, newest first
+ * Pages are fetched as the consumer pulls, so only one batch is held in
+ * memory at a time
+ */
+const streamEntries = (
+  deps: AuditWorkflowDeps,
+  filter: AuditFilter
+): Stream.Stream<AuditEntryResponse, Error> =>
+  Stream.paginateChunkEffect(Option.none<Cursor>(), (after) =>
+    pipe(
+      deps.auditRepo.query(filter, { limit: AUDIT_EXPORT_BATCH_SIZE, after }),
+      Effect.map(
+        (page) =>
+          [
+            Chunk.fromIterable(
+              page.entries.map(AuditResponseMapper.toAuditEntryResponse)
+            ),
+            Option.map(page.nextCursor, Option.some),
+          ] as const
+      ),
+      Effect.mapError((e) => (e instanceof Error ? e : new Error(String(e))))
+    )
+  );
+
+/**
+ * Read the audit trail of a document, newest first
+ * Only the document owner or an admin can read it
+ */
+export const getDocumentAudit =
+  (deps: AuditWorkflowDeps) =>
+  (
+    input: GetDocumentAuditInput
+  ): Effect.Effect<
+    AuditLogResponse,
+    NotFoundError | ForbiddenError | AuditValidationError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(AuditDTOs.GetDocumentAuditQuery)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for getDocumentAudit: ${e}`)
+      ),
+      Effect.flatMap((query) =>
+        pipe(
+          loadAuditableDocument(deps, query.documentId, query.userId),
+          Effect.flatMap(({ document }) =>
+            fetchPage(
+              deps,
+              documentFilter(document.id),
+              query.cursor,
+              query.limit
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Query the audit log across all documents (admin only)
+ * Filterable by document, user, action and an inclusive date range
+ */
+export const queryAuditLog =
+  (deps: AuditWorkflowDeps) =>
+  (
+    input: QueryAuditLogInput
+  ): Effect.Effect<
+    AuditLogResponse,
+    NotFoundError | ForbiddenError | AuditValidationError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(AuditDTOs.QueryAuditLogQuery)(input),
+      Effect.mapError((e) => new Error(`Invalid input for queryAuditLog: ${e}`)),
+      Effect.flatMap((query) =>
+        pipe(
+          requireAdmin(deps, query.userId),
+          Effect.flatMap(() => toAuditFilter(query)),
+          Effect.flatMap((filter) =>
+            fetchPage(deps, filter, query.cursor, query.limit)
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Export the full audit trail of a document, newest first
+ * Only the document owner or an admin can export it; access is checked
+ * up front, the entries are read while the stream is consumed
+ */
+export const exportDocumentAudit =
+  (deps: AuditWorkflowDeps) =>
+  (
+    input: ExportDocumentAuditInput
+  ): Effect.Effect<
+    Stream.Stream<AuditEntryResponse, Error>,
+    NotFoundError | ForbiddenError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(AuditDTOs.ExportDocumentAuditQuery)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for exportDocumentAudit: ${e}`)
+      ),
+      Effect.flatMap((query) =>
+        pipe(
+          loadAuditableDocument(deps, query.documentId, query.userId),
+          Effect.map(({ document }) =>
+            streamEntries(deps, documentFilter(document.id))
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Export every audit entry matching the criteria (admin only)
+ * The entries are read while the stream is consumed
+ */
+export const exportAuditLog =
+  (deps: AuditWorkflowDeps) =>
+  (
+    input: ExportAuditLogInput
+  ): Effect.Effect<
+    Stream.Stream<AuditEntryResponse, Error>,
+    NotFoundError | ForbiddenError | AuditValidationError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(AuditDTOs.ExportAuditLogQuery)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for exportAuditLog: ${e}`)
+      ),
+      Effect.flatMap((query) =>
+        pipe(
+          requireAdmin(deps, query.userId),
+          Effect.flatMap(() => toAuditFilter(query)),
+          Effect.map((filter) => streamEntries(deps, filter)),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Verify the hash chain of one document, or of every document (admin only)
+ * Reports the first entry whose link does not verify
+ */
+export const verifyAuditChain =
+  (deps: AuditWorkflowDeps) =>
+  (
+    input: VerifyAuditChainInput
+  ): Effect.Effect<
+    AuditChainVerificationResponse,
+    NotFoundError | ForbiddenError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(AuditDTOs.VerifyAuditChainQuery)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for verifyAuditChain: ${e}`)
+      ),
+      Effect.flatMap((query) =>
+        pipe(
+          requireAdmin(deps, query.userId),
+          Effect.flatMap(() =>
+            deps.auditRepo.verifyChain(Option.fromNullable(query.documentId))
+          ),
+          Effect.map(AuditResponseMapper.toAuditChainVerificationResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
@@ -6,17 +6,27 @@
  * No Effect.gen usage - pure monadic composition with pipe.
  */
 
-import { Effect, Option, pipe, Schema as S } from "effect";
+import { Config, Effect, Option, pipe, Schema as S } from "effect";
 import { v4 as uuidv4 } from "uuid";
 import type { DocumentRepository } from "../../domain/document/repository";
 import type { UserRepository } from "../../domain/user/repository";
 import type { PermissionRepository } from "../../domain/permission/repository";
+import type { GroupRepository } from "../../domain/group/repository";
+import type { FolderRepository } from "../../domain/folder/repository";
+import type { MetadataPredicate } from "../../domain/document/repository";
 import {
   DocumentNotFoundError,
   DuplicateDocumentError,
+  DocumentValidationError,
 } from "../../domain/document/errors";
 import { NotFoundError, ForbiddenError } from "../../domain/shared/base.errors";
 import { InsufficientPermissionError } from "../utils/errors";
+import { FolderForbiddenError } from "../../domain/folder/errors";
+import {
+  guardFolderAccess,
+  isFolderOwner,
+} from "../../domain/folder/guards";
+import { loadEntity } from "../utils/effect-helpers";
 import {
   DocumentEntity,
   DocumentVersionEntity,
@@ -24,19 +34,25 @@ import {
 import { DocumentDomainServiceLive } from "../../domain/document/service";
 import {
   isAdmin,
+  isDocumentOwner,
   requireReadPermission,
   requireWritePermission,
   requireDeletePermission,
 } from "../../domain/permission/service";
 import { UuidGenerators } from "../../domain/refined/uuid";
 import { DateTimeHelpers } from "../../domain/refined/date-time";
-import { ValueObjectHelpers } from "../../domain/document/value-object";
+import {
+  ValueObjectHelpers,
+  DEFAULT_TRASH_RETENTION_DAYS,
+} from "../../domain/document/value-object";
 import type {
   UserId,
   DocumentId,
   DocumentVersionId,
+  FolderId,
 } from "../../domain/refined/uuid";
 import type { StoragePort } from "../ports/storage.port";
+import type { AuditPort } from "../ports/audit.port";
 import type {
   UploadDocumentInput,
   UploadDocumentCommand,
@@ -48,10 +64,23 @@ import type {
   ListAllDocumentsQuery,
   SearchDocumentsInput,
   SearchDocumentsQuery,
+  QueryDocumentsInput,
+  MetadataPredicateQuery,
   DeleteDocumentInput,
   DeleteDocumentCommand,
   GetDocumentVersionInput,
   GetDocumentVersionQuery,
+  MoveDocumentInput,
+  MoveDocumentCommand,
+  RestoreDocumentVersionInput,
+  RestoreDocumentVersionCommand,
+  ListTrashInput,
+  RestoreDocumentInput,
+  RestoreDocumentCommand,
+  PurgeTrashInput,
+  PurgeTrashCommand,
+  TransferOwnershipInput,
+  TransferAllOwnershipInput,
 } from "../dtos/document/request.dto";
 import * as DocumentDTOs from "../dtos/document/request.dto";
 import type {
@@ -60,6 +89,8 @@ import type {
   PaginatedDocumentsResponse,
   SearchDocumentsResponse,
   DocumentVersionResponse,
+  PurgeTrashResponse,
+  TransferAllOwnershipResponse,
 } from "../dtos/document/response.dto";
 import { DocumentResponseMapper } from "../mappers/document.mapper";
 
@@ -73,9 +104,51 @@ export interface DocumentWorkflowDeps {
   readonly documentRepo: DocumentRepository;
   readonly userRepo: UserRepository;
   readonly permissionRepo: PermissionRepository;
+  readonly groupRepo: GroupRepository;
+  readonly folderRepo: FolderRepository;
   readonly storageService: StoragePort;
+  readonly auditService: AuditPort;
 }
 
+/**
+ * Load a folder that documents of the given user may be placed in
+ * Documents always live in a folder tree owned by their uploader
+ */
+const loadUploadFolder = (
+  deps: DocumentWorkflowDeps,
+  folderId: FolderId,
+  userId: UserId
+) =>
+  pipe(
+    loadEntity(deps.folderRepo.findById(folderId), "Folder", folderId),
+    Effect.flatMap((folder) =>
+      isFolderOwner(folder, userId)
+        ? Effect.succeed(folder)
+        : Effect.fail(
+            new FolderForbiddenError({
+              message: "Documents can only be placed in folders you own",
+              folderId: folder.id,
+            })
+          )
+    )
+  );
+
+/**
+ * Map a metadata predicate DTO to its domain form
+ */
+const toMetadataPredicate = (
+  predicate: MetadataPredicateQuery
+): MetadataPredicate => {
+  switch (predicate.op) {
+    case "eq":
+      return { _tag: "Equals", key: predicate.key, value: predicate.value };
+    case "in":
+      return { _tag: "In", key: predicate.key, values: predicate.values };
+    case "exists":
+      return { _tag: "Exists", key: predicate.key };
+  }
+};
+
 /**
  * Upload document workflow (creates new or adds version to existing)
  * Curried function: takes deps, returns function that takes command
@@ -91,9 +164,10 @@ export const uploadDocument =
       Effect.flatMap((command) =>
         pipe(
           // Check if updating existing document or creating new
-          command.documentId
-            ? pipe(
-                deps.documentRepo.findById(command.documentId),
+          Effect.if(command.documentId !== undefined, {
+            onTrue: () =>
+              pipe(
+                deps.documentRepo.findById(command.documentId!),
                 Effect.flatMap(
                   Option.match({
                     onNone: () =>
@@ -125,10 +199,18 @@ export const uploadDocument =
                           permissions: deps.permissionRepo.findByDocument(
                             command.documentId!
                           ),
+                          groupIds: deps.groupRepo.findGroupIdsByMember(
+                            command.uploadedBy
+                          ),
                         }),
-                        Effect.flatMap(({ user, permissions }) =>
+                        Effect.flatMap(({ user, permissions, groupIds }) =>
                           pipe(
-                            requireWritePermission(user, doc, permissions),
+                            requireWritePermission(
+                              user,
+                              doc,
+                              permissions,
+                              groupIds
+                            ),
                             Effect.map(() => ({
                               document: doc,
                               isNewDocument: false,
@@ -138,17 +220,31 @@ export const uploadDocument =
                       ),
                   })
                 )
-              )
-            : pipe(
-                deps.documentRepo.findByFilenameAndUser(
-                  ValueObjectHelpers.filename(command.file.name),
-                  command.uploadedBy
+              ),
+            onFalse: () =>
+              pipe(
+                command.folderId
+                  ? pipe(
+                      loadUploadFolder(
+                        deps,
+                        command.folderId,
+                        command.uploadedBy
+                      ),
+                      Effect.asVoid
+                    )
+                  : Effect.void,
+                Effect.flatMap(() =>
+                  deps.documentRepo.findByFilenameInFolder(
+                    ValueObjectHelpers.filename(command.file.name),
+                    command.uploadedBy,
+                    Option.fromNullable(command.folderId)
+                  )
                 ),
                 Effect.flatMap((existingDoc) =>
                   Option.isSome(existingDoc)
                     ? Effect.fail(
                         new DuplicateDocumentError({
-                          message: `A document with filename '${command.file.name}' already exists`,
+                          message: `A document with filename '${command.file.name}' already exists in this folder`,
                           checksum: "",
                         })
                       )
@@ -165,6 +261,7 @@ export const uploadDocument =
                             command.file.type
                           ),
                           size: ValueObjectHelpers.fileSize(command.file.size),
+                          folderId: command.folderId,
                           uploadedBy: command.uploadedBy,
                           createdAt: DateTimeHelpers.fromISOString(
                             new Date().toISOString()
@@ -187,6 +284,7 @@ export const uploadDocument =
                       )
                 )
               ),
+          }),
           Effect.flatMap(({ document, isNewDocument }) =>
             pipe(
               // Generate temporary version ID for storage
@@ -230,30 +328,49 @@ export const uploadDocument =
                 storedFile.originalName
               ),
               mimeType: ValueObjectHelpers.mimeType(command.file.type),
-              size: ValueObjectHelpers.fileSize(command.file.size),
+              size: ValueObjectHelpers.fileSize(storedFile.size),
               uploadedBy: command.uploadedBy,
               path: ValueObjectHelpers.filePath(storedFile.path),
               contentRef: ValueObjectHelpers.contentRef(storedFile.path),
               checksum: ValueObjectHelpers.checksum(storedFile.checksum),
             });
-            return { documentWithVersion, isNewDocument };
+            return { documentWithVersion, isNewDocument, storedFile };
           }),
-          Effect.flatMap(({ documentWithVersion, isNewDocument }) =>
+          Effect.flatMap(({ documentWithVersion, isNewDocument, storedFile }) =>
             pipe(
               deps.documentRepo.save(documentWithVersion),
-              Effect.map((savedDocument) => ({ savedDocument, isNewDocument }))
+              Effect.map((savedDocument) => ({
+                savedDocument,
+                isNewDocument,
+                storedFile,
+              }))
             )
           ),
+          // Index extracted text so the content becomes searchable
+          Effect.tap(({ storedFile }) =>
+            storedFile.textContent && storedFile.checksum
+              ? deps.documentRepo.indexContent(
+                  ValueObjectHelpers.checksum(storedFile.checksum),
+                  storedFile.textContent
+                )
+              : Effect.void
+          ),
           Effect.tap(({ savedDocument, isNewDocument }) => {
             // Use the entity's getLatestVersion method
             const latestVersionOpt = savedDocument.getLatestVersion();
             const latestVersion = Option.getOrThrow(latestVersionOpt);
-            return deps.documentRepo.addAudit(
-              savedDocument.id,
-              isNewDocument ? "created" : "new_version",
-              command.uploadedBy,
-              Option.some(`Version ${latestVersion.versionNumber} uploaded`)
-            );
+            return deps.auditService.record({
+              action: isNewDocument ? "created" : "new_version",
+              performedBy: command.uploadedBy,
+              documentId: savedDocument.id,
+              details: `Version ${latestVersion.versionNumber} uploaded`,
+              after: {
+                versionNumber: latestVersion.versionNumber,
+                filename: latestVersion.filename,
+                mimeType: latestVersion.mimeType,
+                size: latestVersion.size,
+              },
+            });
           }),
           Effect.mapError((e) =>
             e instanceof Error ? e : new Error(String(e))
@@ -323,10 +440,11 @@ export const getDocument =
               )
             ),
             permissions: deps.permissionRepo.findByDocument(query.documentId),
+            groupIds: deps.groupRepo.findGroupIdsByMember(query.userId),
           }),
-          Effect.flatMap(({ document, user, permissions }) =>
+          Effect.flatMap(({ document, user, permissions, groupIds }) =>
             pipe(
-              requireReadPermission(user, document, permissions),
+              requireReadPermission(user, document, permissions, groupIds),
               Effect.map(() => document)
             )
           ),
@@ -398,10 +516,11 @@ export const getDocumentVersion =
               )
             ),
             permissions: deps.permissionRepo.findByDocument(query.documentId),
+            groupIds: deps.groupRepo.findGroupIdsByMember(query.userId),
           }),
-          Effect.flatMap(({ document, user, permissions }) =>
+          Effect.flatMap(({ document, user, permissions, groupIds }) =>
             pipe(
-              requireReadPermission(user, document, permissions),
+              requireReadPermission(user, document, permissions, groupIds),
               Effect.flatMap(() => {
                 const version = document.versions.find(
                   (v) => v.id === query.versionId
@@ -472,10 +591,11 @@ export const listDocumentVersions =
           )
         ),
         permissions: deps.permissionRepo.findByDocument(documentId),
+        groupIds: deps.groupRepo.findGroupIdsByMember(userId),
       }),
-      Effect.flatMap(({ document, user, permissions }) =>
+      Effect.flatMap(({ document, user, permissions, groupIds }) =>
         pipe(
-          requireReadPermission(user, document, permissions),
+          requireReadPermission(user, document, permissions, groupIds),
           Effect.map(() => document.versions)
         )
       ),
@@ -522,10 +642,34 @@ export const listDocuments =
                 ),
               onSome: (user) =>
                 pipe(
-                  deps.documentRepo.listByUser(user.id, {
-                    page: query.page ?? 1,
-                    limit: query.limit ?? 20,
-                  }),
+                  // Folder listings are scoped to the folder owner's documents
+                  query.folderId
+                    ? pipe(
+                        loadEntity(
+                          deps.folderRepo.findById(query.folderId),
+                          "Folder",
+                          query.folderId
+                        ),
+                        Effect.tap((folder) => guardFolderAccess(folder, user)),
+                        Effect.map((folder) => ({
+                          ownerId: folder.ownerId,
+                          folderId: Option.some(folder.id),
+                        }))
+                      )
+                    : Effect.succeed({
+                        ownerId: user.id,
+                        folderId: Option.none<FolderId>(),
+                      }),
+                  Effect.flatMap(({ ownerId, folderId }) =>
+                    deps.documentRepo.listByUser(
+                      ownerId,
+                      {
+                        page: query.page ?? 1,
+                        limit: query.limit ?? 20,
+                      },
+                      folderId
+                    )
+                  ),
                   Effect.map((result) =>
                     DocumentResponseMapper.toPaginatedDocumentsResponse(
                       result.data,
@@ -631,10 +775,22 @@ export const searchDocuments =
       ),
       Effect.flatMap((query) =>
         pipe(
-          deps.documentRepo.search(query.query, {
-            page: query.page ?? 1,
-            limit: query.limit ?? 20,
-          }),
+          loadEntity(
+            deps.userRepo.findById(query.userId),
+            "User",
+            query.userId
+          ),
+          // Admins search everything, other users only what they can read
+          Effect.flatMap((user) =>
+            deps.documentRepo.search(
+              query.query,
+              {
+                page: query.page ?? 1,
+                limit: query.limit ?? 20,
+              },
+              isAdmin(user) ? Option.none() : Option.some(user.id)
+            )
+          ),
           Effect.map((result) =>
             DocumentResponseMapper.toSearchDocumentsResponse(
               result.data,
@@ -651,7 +807,67 @@ export const searchDocuments =
     );
 
 /**
- * Delete document (and all versions)
+ * Query documents by filename text, MIME type and metadata predicates
+ */
+export const queryDocuments =
+  (deps: DocumentWorkflowDeps) =>
+  (
+    input: QueryDocumentsInput
+  ): Effect.Effect<PaginatedDocumentsResponse, Error> =>
+    pipe(
+      S.decodeUnknown(DocumentDTOs.QueryDocumentsInput)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for queryDocuments: ${e}`)
+      ),
+      // Brands userId, MIME type and metadata keys/values
+      Effect.flatMap((parsed) =>
+        S.decodeUnknown(DocumentDTOs.QueryDocumentsQuery)(parsed)
+      ),
+      Effect.mapError(
+        (e) => new Error(`Invalid query for queryDocuments: ${e}`)
+      ),
+      Effect.flatMap((query) =>
+        pipe(
+          loadEntity(
+            deps.userRepo.findById(query.userId),
+            "User",
+            query.userId
+          ),
+          // Admins query everything, other users only what they can read
+          Effect.flatMap((user) =>
+            deps.documentRepo.query(
+              {
+                text: Option.fromNullable(query.text),
+                mimeType: Option.fromNullable(query.mimeType),
+                metadata: (query.metadata ?? []).map(toMetadataPredicate),
+                readableBy: isAdmin(user)
+                  ? Option.none()
+                  : Option.some(user.id),
+              },
+              {
+                page: query.page ?? 1,
+                limit: query.limit ?? 20,
+              }
+            )
+          ),
+          Effect.map((result) =>
+            DocumentResponseMapper.toPaginatedDocumentsResponse(
+              result.data,
+              result.meta.totalItems,
+              result.meta.page,
+              result.meta.limit
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Delete document (moves it to the trash)
+ * Stored files are kept until the document is purged
  */
 export const deleteDocument =
   (deps: DocumentWorkflowDeps) =>
@@ -697,36 +913,689 @@ export const deleteDocument =
               )
             ),
             permissions: deps.permissionRepo.findByDocument(command.documentId),
+            groupIds: deps.groupRepo.findGroupIdsByMember(command.userId),
           }),
-          Effect.flatMap(({ document, user, permissions }) =>
+          Effect.flatMap(({ document, user, permissions, groupIds }) =>
             pipe(
-              requireDeletePermission(user, document, permissions),
+              requireDeletePermission(user, document, permissions, groupIds),
               Effect.flatMap(() =>
-                pipe(
-                  // Add audit log before deletion
-                  deps.documentRepo.addAudit(
-                    document.id,
-                    "deleted",
-                    command.userId,
-                    Option.none()
+                deps.documentRepo.save(document.moveToTrash(command.userId))
+              ),
+              Effect.flatMap((trashed) =>
+                deps.auditService.record({
+                  action: "trashed",
+                  performedBy: command.userId,
+                  documentId: document.id,
+                  before: { deletedAt: null },
+                  after: { deletedAt: Option.getOrNull(trashed.deletedAt) },
+                })
+              )
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * List documents in the trash
+ * Users see their own trashed documents, admins see the whole trash
+ */
+export const listTrash =
+  (deps: DocumentWorkflowDeps) =>
+  (input: ListTrashInput): Effect.Effect<PaginatedDocumentsResponse, Error> =>
+    pipe(
+      S.decodeUnknown(DocumentDTOs.ListTrashInput)(input),
+      Effect.flatMap((parsed) =>
+        S.decodeUnknown(DocumentDTOs.ListTrashQuery)(parsed)
+      ),
+      Effect.mapError((e) => new Error(`Invalid input for listTrash: ${e}`)),
+      Effect.flatMap((query) =>
+        pipe(
+          loadEntity(
+            deps.userRepo.findById(query.userId),
+            "User",
+            query.userId
+          ),
+          Effect.flatMap((user) =>
+            deps.documentRepo.listTrashed(
+              isAdmin(user) ? Option.none() : Option.some(user.id),
+              {
+                page: query.page ?? 1,
+                limit: query.limit ?? 20,
+              }
+            )
+          ),
+          Effect.map((result) =>
+            DocumentResponseMapper.toPaginatedDocumentsResponse(
+              result.data,
+              result.meta.totalItems,
+              result.meta.page,
+              result.meta.limit
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Restore a document from the trash
+ * Requires the same permission as deleting it
+ */
+export const restoreDocument =
+  (deps: DocumentWorkflowDeps) =>
+  (
+    input: RestoreDocumentInput
+  ): Effect.Effect<
+    DocumentWithVersionResponse,
+    | NotFoundError
+    | InsufficientPermissionError
+    | DuplicateDocumentError
+    | Error
+  > =>
+    pipe(
+      S.decodeUnknown(DocumentDTOs.RestoreDocumentCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for restoreDocument: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        pipe(
+          Effect.all({
+            document: loadEntity(
+              deps.documentRepo.findTrashedById(command.documentId),
+              "Document",
+              command.documentId
+            ),
+            user: loadEntity(
+              deps.userRepo.findById(command.userId),
+              "User",
+              command.userId
+            ),
+            permissions: deps.permissionRepo.findByDocument(command.documentId),
+            groupIds: deps.groupRepo.findGroupIdsByMember(command.userId),
+          }),
+          Effect.tap(({ document, user, permissions, groupIds }) =>
+            requireDeletePermission(user, document, permissions, groupIds)
+          ),
+          // Another document may have taken the filename while this one was trashed
+          Effect.tap(({ document }) =>
+            pipe(
+              deps.documentRepo.findByFilenameInFolder(
+                document.filename,
+                document.uploadedBy,
+                document.folderId
+              ),
+              Effect.flatMap((existing) =>
+                Option.isSome(existing)
+                  ? Effect.fail(
+                      new DuplicateDocumentError({
+                        message: `A document with filename '${document.filename}' already exists in this folder`,
+                        checksum: "",
+                      })
+                    )
+                  : Effect.void
+              )
+            )
+          ),
+          Effect.flatMap(({ document }) =>
+            deps.documentRepo.save(document.restoreFromTrash())
+          ),
+          Effect.tap((document) =>
+            deps.auditService.record({
+              action: "untrashed",
+              performedBy: command.userId,
+              documentId: document.id,
+              after: { deletedAt: null },
+            })
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          ),
+          Effect.map((document) =>
+            DocumentResponseMapper.toDocumentWithVersionResponse(document)
+          )
+        )
+      )
+    );
+
+/**
+ * Trash retention period, configurable through the environment
+ */
+const TRASH_RETENTION_DAYS = Config.integer("TRASH_RETENTION_DAYS").pipe(
+  Config.withDefault(DEFAULT_TRASH_RETENTION_DAYS)
+);
+
+/**
+ * Permanently delete one trashed document and its stored files
+ */
+const purgeDocument = (
+  deps: DocumentWorkflowDeps,
+  document: DocumentEntity
+) =>
+  pipe(
+    // Restored versions share stored files, so delete each path once
+    Effect.forEach(
+      [
+        ...new Set(
+          document.versions.flatMap((version) => Option.toArray(version.path))
+        ),
+      ],
+      (path) => deps.storageService.deleteFile(path),
+      { discard: true }
+    ),
+    Effect.zipRight(deps.documentRepo.delete(document.id)),
+    // The audit chain outlives the document; close it with a final entry
+    Effect.zipRight(
+      deps.auditService.record({
+        action: "purged",
+        performedBy: Option.getOrElse(
+          document.deletedBy,
+          () => document.uploadedBy
+        ),
+        documentId: document.id,
+        before: { filename: document.filename },
+      })
+    )
+  );
+
+/**
+ * Permanently delete trashed documents older than the retention period
+ * Runs without a user context so it can be scheduled. Each document is
+ * purged on its own: one that fails is logged and left for the next run.
+ */
+export const purgeExpiredTrash =
+  (deps: DocumentWorkflowDeps) =>
+  (): Effect.Effect<PurgeTrashResponse, Error> =>
+    pipe(
+      TRASH_RETENTION_DAYS,
+      Effect.mapError(
+        (e) => new Error(`Invalid TRASH_RETENTION_DAYS configuration: ${e}`)
+      ),
+      Effect.flatMap((retentionDays) =>
+        pipe(
+          deps.documentRepo.findTrashedBefore(
+            new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)
+          ),
+          Effect.flatMap((documents) =>
+            Effect.forEach(documents, (document) =>
+              pipe(
+                purgeDocument(deps, document),
+                Effect.as(true),
+                Effect.catchAll((error) =>
+                  Effect.as(
+                    Effect.logWarning(
+                      `Could not purge document ${document.id}: ${error}`
+                    ),
+                    false
+                  )
+                )
+              )
+            )
+          ),
+          Effect.map((results) => ({
+            purgedCount: results.filter(Boolean).length,
+            failedCount: results.filter((purged) => !purged).length,
+            retentionDays,
+          }))
+        )
+      ),
+      Effect.mapError((e) => (e instanceof Error ? e : new Error(String(e))))
+    );
+
+/**
+ * Purge expired trash on demand (admin only)
+ */
+export const purgeTrash =
+  (deps: DocumentWorkflowDeps) =>
+  (
+    input: PurgeTrashInput
+  ): Effect.Effect<PurgeTrashResponse, ForbiddenError | Error> =>
+    pipe(
+      S.decodeUnknown(DocumentDTOs.PurgeTrashCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input for purgeTrash: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadEntity(
+            deps.userRepo.findById(command.userId),
+            "User",
+            command.userId
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          ),
+          Effect.flatMap((user) =>
+            isAdmin(user)
+              ? purgeExpiredTrash(deps)()
+              : Effect.fail(
+                  new ForbiddenError({
+                    message: "Only admins can purge the trash",
+                    resource: "documents",
+                  })
+                )
+          )
+        )
+      )
+    );
+
+/**
+ * Move document into a folder (or back to the uploader's root level)
+ * Filenames stay unique per folder, so the target must not hold a namesake
+ */
+export const moveDocument =
+  (deps: DocumentWorkflowDeps) =>
+  (
+    input: MoveDocumentInput
+  ): Effect.Effect<
+    DocumentWithVersionResponse,
+    | NotFoundError
+    | InsufficientPermissionError
+    | FolderForbiddenError
+    | DuplicateDocumentError
+    | Error
+  > =>
+    pipe(
+      S.decodeUnknown(DocumentDTOs.MoveDocumentCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input for moveDocument: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          Effect.all({
+            document: loadEntity(
+              deps.documentRepo.findById(command.documentId),
+              "Document",
+              command.documentId
+            ),
+            user: loadEntity(
+              deps.userRepo.findById(command.userId),
+              "User",
+              command.userId
+            ),
+            permissions: deps.permissionRepo.findByDocument(command.documentId),
+            groupIds: deps.groupRepo.findGroupIdsByMember(command.userId),
+          }),
+          Effect.tap(({ document, user, permissions, groupIds }) =>
+            requireWritePermission(user, document, permissions, groupIds)
+          ),
+          Effect.tap(({ document, user }) =>
+            command.folderId
+              ? pipe(
+                  loadUploadFolder(deps, command.folderId, document.uploadedBy),
+                  Effect.flatMap((folder) => guardFolderAccess(folder, user))
+                )
+              : Effect.void
+          ),
+          Effect.tap(({ document }) =>
+            pipe(
+              deps.documentRepo.findByFilenameInFolder(
+                document.filename,
+                document.uploadedBy,
+                Option.fromNullable(command.folderId)
+              ),
+              Effect.flatMap((existing) =>
+                Option.isSome(existing) && existing.value.id !== document.id
+                  ? Effect.fail(
+                      new DuplicateDocumentError({
+                        message: `A document with filename '${document.filename}' already exists in the target folder`,
+                        checksum: "",
+                      })
+                    )
+                  : Effect.void
+              )
+            )
+          ),
+          Effect.flatMap(({ document }) =>
+            pipe(
+              deps.documentRepo.save(
+                document.moveToFolder(Option.fromNullable(command.folderId))
+              ),
+              Effect.tap((moved) =>
+                deps.auditService.record({
+                  action: "moved",
+                  performedBy: command.userId,
+                  documentId: moved.id,
+                  details: command.folderId
+                    ? `Moved to folder ${command.folderId}`
+                    : "Moved to root",
+                  before: { folderId: Option.getOrNull(document.folderId) },
+                  after: { folderId: Option.getOrNull(moved.folderId) },
+                })
+              )
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          ),
+          Effect.map((document) => {
+            const latestVersion = Option.getOrThrow(
+              document.getLatestVersion()
+            );
+            return {
+              document: DocumentResponseMapper.toDocumentResponse(document),
+              latestVersion:
+                DocumentResponseMapper.toVersionResponse(latestVersion),
+            };
+          })
+        )
+      )
+    );
+
+/**
+ * Restore a previous document version as the new latest version
+ * The restored version reuses the old version's stored file
+ */
+export const restoreVersion =
+  (deps: DocumentWorkflowDeps) =>
+  (
+    input: RestoreDocumentVersionInput
+  ): Effect.Effect<
+    DocumentWithVersionResponse,
+    | NotFoundError
+    | InsufficientPermissionError
+    | DocumentValidationError
+    | Error
+  > =>
+    pipe(
+      S.decodeUnknown(DocumentDTOs.RestoreDocumentVersionCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for restoreVersion: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        pipe(
+          Effect.all({
+            document: loadEntity(
+              deps.documentRepo.findById(command.documentId),
+              "Document",
+              command.documentId
+            ),
+            user: loadEntity(
+              deps.userRepo.findById(command.userId),
+              "User",
+              command.userId
+            ),
+            permissions: deps.permissionRepo.findByDocument(command.documentId),
+            groupIds: deps.groupRepo.findGroupIdsByMember(command.userId),
+          }),
+          Effect.tap(({ document, user, permissions, groupIds }) =>
+            requireWritePermission(user, document, permissions, groupIds)
+          ),
+          Effect.flatMap(({ document }) =>
+            pipe(
+              Effect.fromNullable(
+                document.versions.find((v) => v.id === command.versionId)
+              ),
+              Effect.mapError(
+                () =>
+                  new NotFoundError({
+                    entityType: "DocumentVersion",
+                    id: command.versionId,
+                  })
+              ),
+              Effect.filterOrFail(
+                (version) =>
+                  !pipe(
+                    document.getLatestVersion(),
+                    Option.exists((latest) => latest.id === version.id)
                   ),
-                  Effect.flatMap(() =>
-                    Effect.all(
-                      document.versions.map((version) =>
-                        pipe(
-                          version.path,
-                          Option.match({
-                            onNone: () => Effect.void,
-                            onSome: (path) =>
-                              deps.storageService.deleteFile(path),
-                          })
-                        )
+                (version) =>
+                  new DocumentValidationError({
+                    message: `Version ${version.versionNumber} is already the latest version`,
+                    field: "versionId",
+                  })
+              ),
+              Effect.map((version) => ({ document, version }))
+            )
+          ),
+          Effect.flatMap(({ document, version }) =>
+            pipe(
+              deps.documentRepo.save(
+                document.restoreVersion(version, command.userId)
+              ),
+              Effect.tap((savedDocument) =>
+                deps.auditService.record({
+                  action: "restored",
+                  performedBy: command.userId,
+                  documentId: savedDocument.id,
+                  details: `Version ${version.versionNumber} restored as version ${savedDocument.versions.length}`,
+                  before: { latestVersion: document.versions.length },
+                  after: { latestVersion: savedDocument.versions.length },
+                })
+              )
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          ),
+          Effect.map((document) => {
+            const latestVersion = Option.getOrThrow(
+              document.getLatestVersion()
+            );
+            return {
+              document: DocumentResponseMapper.toDocumentResponse(document),
+              latestVersion:
+                DocumentResponseMapper.toVersionResponse(latestVersion),
+            };
+          })
+        )
+      )
+    );
+
+/**
+ * Hand one document over to a new owner
+ * - the document moves to the new owner's root level, which must not hold a
+ *   namesake
+ * - the new owner's direct grants on it become redundant and are removed
+ * - the previous owner optionally keeps WRITE access through a direct grant
+ * The changes and their audit entry are written in one transaction
+ */
+const transferDocument = (
+  deps: DocumentWorkflowDeps,
+  document: DocumentEntity,
+  newOwnerId: UserId,
+  keepPreviousOwnerAccess: boolean,
+  performedBy: UserId
+) =>
+  pipe(
+    deps.documentRepo.findByFilenameInFolder(
+      document.filename,
+      newOwnerId,
+      Option.none()
+    ),
+    Effect.flatMap((existing) =>
+      Option.isSome(existing) && existing.value.id !== document.id
+        ? Effect.fail(
+            new DuplicateDocumentError({
+              message: `The new owner already has a document named '${document.filename}' at their root level`,
+              checksum: "",
+            })
+          )
+        : Effect.void
+    ),
+    Effect.flatMap(() =>
+      deps.documentRepo.transferOwnership({
+        document: document.transferOwnership(newOwnerId),
+        previousOwnerId: document.uploadedBy,
+        keepPreviousOwnerAccess,
+        performedBy,
+        details: `Ownership transferred from user ${document.uploadedBy} to user ${newOwnerId}${
+          keepPreviousOwnerAccess ? "; previous owner keeps WRITE access" : ""
+        }`,
+      })
+    )
+  );
+
+/**
+ * Transfer a document to another user
+ * Only the document owner or an admin can transfer it
+ */
+export const transferOwnership =
+  (deps: DocumentWorkflowDeps) =>
+  (
+    input: TransferOwnershipInput
+  ): Effect.Effect<
+    DocumentWithVersionResponse,
+    | NotFoundError
+    | ForbiddenError
+    | DuplicateDocumentError
+    | DocumentValidationError
+    | Error
+  > =>
+    pipe(
+      S.decodeUnknown(DocumentDTOs.TransferOwnershipCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for transferOwnership: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        pipe(
+          Effect.all({
+            document: loadEntity(
+              deps.documentRepo.findById(command.documentId),
+              "Document",
+              command.documentId
+            ),
+            user: loadEntity(
+              deps.userRepo.findById(command.userId),
+              "User",
+              command.userId
+            ),
+            newOwner: loadEntity(
+              deps.userRepo.findById(command.newOwnerId),
+              "User",
+              command.newOwnerId
+            ),
+          }),
+          Effect.filterOrFail(
+            ({ document, user }) =>
+              isAdmin(user) || isDocumentOwner(document, user),
+            () =>
+              new ForbiddenError({
+                message: "Only the document owner or an admin can transfer it",
+                resource: `Document:${command.documentId}`,
+              })
+          ),
+          Effect.filterOrFail(
+            ({ document, newOwner }) => document.uploadedBy !== newOwner.id,
+            () =>
+              new DocumentValidationError({
+                message: "The user already owns this document",
+                field: "newOwnerId",
+              })
+          ),
+          Effect.flatMap(({ document, newOwner }) =>
+            transferDocument(
+              deps,
+              document,
+              newOwner.id,
+              command.keepPreviousOwnerAccess ?? false,
+              command.userId
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          ),
+          Effect.map((document) => {
+            const latestVersion = Option.getOrThrow(
+              document.getLatestVersion()
+            );
+            return {
+              document: DocumentResponseMapper.toDocumentResponse(document),
+              latestVersion:
+                DocumentResponseMapper.toVersionResponse(latestVersion),
+            };
+          })
+        )
+      )
+    );
+
+/**
+ * Transfer every document owned by one user to another (admin only)
+ * Documents in the trash stay with their owner. Documents whose filename
+ * clashes at the new owner's root level are skipped and reported
+ */
+export const transferAllOwnership =
+  (deps: DocumentWorkflowDeps) =>
+  (
+    input: TransferAllOwnershipInput
+  ): Effect.Effect<
+    TransferAllOwnershipResponse,
+    NotFoundError | ForbiddenError | DocumentValidationError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(DocumentDTOs.TransferAllOwnershipCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for transferAllOwnership: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        pipe(
+          Effect.all({
+            user: loadEntity(
+              deps.userRepo.findById(command.userId),
+              "User",
+              command.userId
+            ),
+            fromUser: loadEntity(
+              deps.userRepo.findById(command.fromUserId),
+              "User",
+              command.fromUserId
+            ),
+            toUser: loadEntity(
+              deps.userRepo.findById(command.toUserId),
+              "User",
+              command.toUserId
+            ),
+          }),
+          Effect.filterOrFail(
+            ({ user }) => isAdmin(user),
+            () =>
+              new ForbiddenError({
+                message: "Only admins can transfer all documents of a user",
+                resource: "documents",
+              })
+          ),
+          Effect.filterOrFail(
+            ({ fromUser, toUser }) => fromUser.id !== toUser.id,
+            () =>
+              new DocumentValidationError({
+                message: "Source and target users must differ",
+                field: "toUserId",
+              })
+          ),
+          Effect.flatMap(({ fromUser, toUser }) =>
+            pipe(
+              deps.documentRepo.findByOwner(fromUser.id),
+              Effect.flatMap((documents) =>
+                Effect.forEach(documents, (document) =>
+                  pipe(
+                    transferDocument(
+                      deps,
+                      document,
+                      toUser.id,
+                      command.keepPreviousOwnerAccess ?? false,
+                      command.userId
+                    ),
+                    Effect.as(Option.none()),
+                    Effect.catchTag("DuplicateDocumentError", (error) =>
+                      Effect.succeed(
+                        Option.some({
+                          documentId: document.id,
+                          filename: document.filename,
+                          reason: error.message,
+                        })
                       )
                     )
-                  ),
-                  Effect.flatMap(() => deps.documentRepo.delete(document.id))
+                  )
                 )
-              )
+              ),
+              Effect.map((results) => {
+                const skipped = results.flatMap(Option.toArray);
+                return {
+                  transferredCount: results.length - skipped.length,
+                  skipped,
+                };
+              })
             )
           ),
           Effect.mapError((e) =>
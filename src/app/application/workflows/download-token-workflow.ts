@@ -11,7 +11,9 @@ import { randomBytes } from "crypto";
 import type { DownloadTokenRepository } from "../../domain/download-token/repository";
 import type { DocumentRepository } from "../../domain/document/repository";
 import type { UserRepository } from "../../domain/user/repository";
+import type { AuditPort } from "../ports/audit.port";
 import type { PermissionRepository } from "../../domain/permission/repository";
+import type { GroupRepository } from "../../domain/group/repository";
 import { NotFoundError, ForbiddenError } from "../../domain/shared/base.errors";
 import {
   InsufficientPermissionError,
@@ -23,6 +25,8 @@ import {
   isAdmin,
   requireReadPermission,
 } from "../../domain/permission/service";
+import { guardEmailVerified } from "../../domain/user/guards";
+import type { EmailNotVerifiedError } from "../../domain/user/errors";
 import { loadEntity } from "../utils/effect-helpers";
 import { UuidGenerators } from "../../domain/refined/uuid";
 import { DateTimeHelpers } from "../../domain/refined/date-time";
@@ -65,10 +69,14 @@ export interface DownloadTokenWorkflowDeps {
   readonly documentRepo: DocumentRepository;
   readonly userRepo: UserRepository;
   readonly permissionRepo: PermissionRepository;
+  readonly groupRepo: GroupRepository;
+  readonly auditService: AuditPort;
 }
 
 /**
  * Generate a download link for a document
+ * Anyone holding the link can download, so only users with a verified
+ * email can create one
  */
 export const generateDownloadLink =
   (deps: DownloadTokenWorkflowDeps) =>
@@ -77,7 +85,10 @@ export const generateDownloadLink =
     baseUrl: string
   ): Effect.Effect<
     DownloadLinkResponse,
-    NotFoundError | InsufficientPermissionError | Error
+    | NotFoundError
+    | InsufficientPermissionError
+    | EmailNotVerifiedError
+    | Error
   > =>
     pipe(
       S.decodeUnknown(DownloadTokenDTOs.GenerateDownloadLinkCommand)(input),
@@ -102,17 +113,20 @@ export const generateDownloadLink =
                 permissions: deps.permissionRepo.findByDocument(
                   command.documentId
                 ),
+                groupIds: deps.groupRepo.findGroupIdsByMember(command.userId),
               }),
-              Effect.map(({ user, permissions }) => ({
+              Effect.map(({ user, permissions, groupIds }) => ({
                 document,
                 user,
                 permissions,
+                groupIds,
               }))
             )
           ),
-          Effect.flatMap(({ document, user, permissions }) =>
+          Effect.flatMap(({ document, user, permissions, groupIds }) =>
             pipe(
-              requireReadPermission(user, document, permissions),
+              requireReadPermission(user, document, permissions, groupIds),
+              Effect.zipRight(guardEmailVerified(user)),
               Effect.map(() => ({ document, user }))
             )
           ),
@@ -165,15 +179,18 @@ export const generateDownloadLink =
               )
             );
           }),
-          Effect.tap(({ token }) =>
-            deps.documentRepo.addAudit(
-              command.documentId,
-              "download_link_generated",
-              command.userId,
-              Option.some(
-                `Download link generated, expires at ${token.expiresAt.toISOString()}`
-              )
-            )
+          Effect.tap(({ token, versionId }) =>
+            deps.auditService.record({
+              action: "download_link_generated",
+              performedBy: command.userId,
+              documentId: command.documentId,
+              details: `Download link generated, expires at ${token.expiresAt.toISOString()}`,
+              after: {
+                tokenId: token.id,
+                versionId,
+                expiresAt: token.expiresAt,
+              },
+            })
           ),
           Effect.map(({ token }) =>
             DownloadTokenResponseMapper.toDownloadLinkResponse(token, baseUrl)
@@ -201,16 +218,30 @@ export const validateToken =
       Effect.flatMap((query) =>
         pipe(
           deps.tokenRepo.findByToken(query.token),
-          Effect.map(
+          Effect.flatMap(
             Option.match({
               onNone: () =>
-                DownloadTokenResponseMapper.toValidateTokenResponse(false),
+                Effect.succeed(
+                  DownloadTokenResponseMapper.toValidateTokenResponse(false)
+                ),
               onSome: (token: DownloadToken) =>
                 token.isExpired() || token.isUsed()
-                  ? DownloadTokenResponseMapper.toValidateTokenResponse(false)
-                  : DownloadTokenResponseMapper.toValidateTokenResponse(
-                      true,
-                      token
+                  ? Effect.succeed(
+                      DownloadTokenResponseMapper.toValidateTokenResponse(false)
+                    )
+                  : pipe(
+                      // Tokens for trashed documents are no longer valid
+                      deps.documentRepo.findById(token.documentId),
+                      Effect.map((document) =>
+                        Option.isSome(document)
+                          ? DownloadTokenResponseMapper.toValidateTokenResponse(
+                              true,
+                              token
+                            )
+                          : DownloadTokenResponseMapper.toValidateTokenResponse(
+                              false
+                            )
+                      )
                     ),
             })
           ),
@@ -223,6 +254,8 @@ export const validateToken =
 
 /**
  * Download file using token
+ * The first request consumes the token; later ranged requests may resume it
+ * a limited number of times, each from further into the file
  */
 export const downloadFile =
   (deps: DownloadTokenWorkflowDeps) =>
@@ -265,19 +298,6 @@ export const downloadFile =
                 )
               : Effect.succeed(token)
           ),
-          Effect.flatMap((token) =>
-            token.isUsed()
-              ? Effect.fail(
-                  new DownloadTokenAlreadyUsedError({
-                    message: "Download token has already been used",
-                    token: query.token,
-                    usedAt: Option.isSome(token.usedAt)
-                      ? token.usedAt.value
-                      : new Date(),
-                  })
-                )
-              : Effect.succeed(token)
-          ),
           Effect.flatMap((token) =>
             pipe(
               loadEntity(
@@ -320,18 +340,44 @@ export const downloadFile =
               );
             }
           }),
-          Effect.flatMap(({ token, document, version }) =>
-            pipe(
-              deps.tokenRepo.save(token.markAsUsed()),
-              Effect.map(() => ({ token, document, version }))
-            )
+          // A used token may only resume the download it started: a ranged
+          // request whose If-Range matches the version ETag and whose range
+          // continues past the previous resume
+          Effect.flatMap(({ token, version }) =>
+            !token.isUsed()
+              ? Effect.succeed({ token: token.markAsUsed(), version })
+              : query.resumeTag ===
+                  DownloadTokenResponseMapper.toEntityTag(version) &&
+                query.resumeFrom !== undefined &&
+                token.canResumeFrom(query.resumeFrom)
+              ? Effect.succeed({
+                  token: token.resumeFrom(query.resumeFrom),
+                  version,
+                })
+              : Effect.fail(
+                  new DownloadTokenAlreadyUsedError({
+                    message: "Download token has already been used",
+                    token: query.token,
+                    usedAt: Option.isSome(token.usedAt)
+                      ? token.usedAt.value
+                      : new Date(),
+                  })
+                )
           ),
-          Effect.tap(({ token }) =>
-            deps.documentRepo.addAudit(
-              token.documentId,
-              "downloaded",
-              token.createdBy,
-              Option.some(`Document downloaded via token`)
+          Effect.tap(({ token, version }) =>
+            pipe(
+              deps.tokenRepo.save(token),
+              Effect.flatMap(() =>
+                token.resumeCount > 0
+                  ? Effect.void
+                  : deps.auditService.record({
+                      action: "downloaded",
+                      performedBy: token.createdBy,
+                      documentId: token.documentId,
+                      details: "Document downloaded via token",
+                      after: { tokenId: token.id, versionId: version.id },
+                    })
+              )
             )
           ),
           Effect.map(({ version }) =>
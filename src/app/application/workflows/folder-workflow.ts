@@ -0,0 +1,392 @@
+/**
+ * Folder Workflow - Functional Pattern
+ *
+ * Functional workflows using currying pattern.
+ * No Effect.gen usage - pure monadic composition with pipe.
+ *
+ * Workflows accept raw Input types and transform them into branded Command/Query types.
+ */
+
+import { Effect, Option, pipe, Schema as S } from "effect";
+import type { FolderRepository } from "../../domain/folder/repository";
+import type { DocumentRepository } from "../../domain/document/repository";
+import type { UserRepository } from "../../domain/user/repository";
+import { NotFoundError } from "../../domain/shared/base.errors";
+import { FolderEntity } from "../../domain/folder/entity";
+import {
+  FolderAlreadyExistsError,
+  FolderNotEmptyError,
+  FolderValidationError,
+  FolderForbiddenError,
+} from "../../domain/folder/errors";
+import {
+  guardFolderAccess,
+  guardNotMovingIntoSelf,
+  isSameParent,
+} from "../../domain/folder/guards";
+import type { FolderName } from "../../domain/folder/value-object";
+import { loadEntity } from "../utils/effect-helpers";
+import { UuidGenerators } from "../../domain/refined/uuid";
+import type { UserId, FolderId } from "../../domain/refined/uuid";
+import type {
+  CreateFolderInput,
+  GetFolderInput,
+  ListFoldersInput,
+  RenameFolderInput,
+  MoveFolderInput,
+  DeleteFolderInput,
+} from "../dtos/folder/request.dto";
+import * as FolderDTOs from "../dtos/folder/request.dto";
+import type {
+  FolderResponse,
+  FolderDetailsResponse,
+  ListFoldersResponse,
+} from "../dtos/folder/response.dto";
+import { FolderResponseMapper } from "../mappers/folder.mapper";
+
+// Re-export WorkflowTag from bootstrap for route compatibility
+export { FolderWorkflowTag } from "../../bootstrap";
+
+/**
+ * Dependencies for folder workflows
+ */
+export interface FolderWorkflowDeps {
+  readonly folderRepo: FolderRepository;
+  readonly documentRepo: DocumentRepository;
+  readonly userRepo: UserRepository;
+}
+
+/**
+ * Load a folder and the requesting user, failing unless the user may manage it
+ */
+const loadFolderWithAccess = (
+  deps: FolderWorkflowDeps,
+  folderId: FolderId,
+  userId: UserId
+) =>
+  pipe(
+    Effect.all({
+      folder: loadEntity(deps.folderRepo.findById(folderId), "Folder", folderId),
+      user: loadEntity(deps.userRepo.findById(userId), "User", userId),
+    }),
+    Effect.tap(({ folder, user }) => guardFolderAccess(folder, user))
+  );
+
+/**
+ * Fail if another folder with the same name already exists at the location
+ */
+const guardUniqueFolderName = (
+  deps: FolderWorkflowDeps,
+  name: FolderName,
+  ownerId: UserId,
+  parentId: Option.Option<FolderId>,
+  excludeId?: FolderId
+) =>
+  pipe(
+    deps.folderRepo.findByNameInParent(name, ownerId, parentId),
+    Effect.flatMap((existing) =>
+      Option.isSome(existing) && existing.value.id !== excludeId
+        ? Effect.fail(
+            new FolderAlreadyExistsError({
+              name,
+              parentId: Option.getOrUndefined(parentId),
+              message: `A folder named '${name}' already exists in this location`,
+            })
+          )
+        : Effect.void
+    )
+  );
+
+/**
+ * Create a folder at the root level or inside a parent folder
+ * Sub-folders always belong to the owner of their parent
+ */
+export const createFolder =
+  (deps: FolderWorkflowDeps) =>
+  (
+    input: CreateFolderInput
+  ): Effect.Effect<
+    FolderResponse,
+    NotFoundError | FolderAlreadyExistsError | FolderForbiddenError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(FolderDTOs.CreateFolderCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          command.parentId
+            ? pipe(
+                loadFolderWithAccess(deps, command.parentId, command.userId),
+                Effect.map(({ folder: parent }) => ({
+                  ownerId: parent.ownerId,
+                  parentId: Option.some(parent.id),
+                }))
+              )
+            : pipe(
+                loadEntity(
+                  deps.userRepo.findById(command.userId),
+                  "User",
+                  command.userId
+                ),
+                Effect.map((user) => ({
+                  ownerId: user.id,
+                  parentId: Option.none<FolderId>(),
+                }))
+              ),
+          Effect.tap(({ ownerId, parentId }) =>
+            guardUniqueFolderName(deps, command.name, ownerId, parentId)
+          ),
+          Effect.flatMap(({ ownerId, parentId }) =>
+            FolderEntity.create({
+              id: UuidGenerators.folderId(),
+              name: command.name,
+              parentId: Option.getOrUndefined(parentId),
+              ownerId,
+            })
+          ),
+          Effect.flatMap((folder) => deps.folderRepo.save(folder)),
+          Effect.map(FolderResponseMapper.toFolderResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Get a folder with its breadcrumb path and direct sub-folders
+ */
+export const getFolder =
+  (deps: FolderWorkflowDeps) =>
+  (
+    input: GetFolderInput
+  ): Effect.Effect<
+    FolderDetailsResponse,
+    NotFoundError | FolderForbiddenError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(FolderDTOs.GetFolderQuery)(input),
+      Effect.mapError((e) => new Error(`Invalid input for getFolder: ${e}`)),
+      Effect.flatMap((query) =>
+        pipe(
+          loadFolderWithAccess(deps, query.folderId, query.userId),
+          Effect.flatMap(({ folder }) =>
+            Effect.all({
+              folder: Effect.succeed(folder),
+              path: deps.folderRepo.findPath(folder.id),
+              children: deps.folderRepo.findChildren(
+                folder.ownerId,
+                Option.some(folder.id)
+              ),
+            })
+          ),
+          Effect.map(({ folder, path, children }) =>
+            FolderResponseMapper.toFolderDetailsResponse(folder, path, children)
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * List direct sub-folders of a folder, or the user's root-level folders
+ */
+export const listFolders =
+  (deps: FolderWorkflowDeps) =>
+  (
+    input: ListFoldersInput
+  ): Effect.Effect<
+    ListFoldersResponse,
+    NotFoundError | FolderForbiddenError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(FolderDTOs.ListFoldersQuery)(input),
+      Effect.mapError((e) => new Error(`Invalid input for listFolders: ${e}`)),
+      Effect.flatMap((query) =>
+        pipe(
+          query.parentId
+            ? pipe(
+                loadFolderWithAccess(deps, query.parentId, query.userId),
+                Effect.flatMap(({ folder: parent }) =>
+                  deps.folderRepo.findChildren(
+                    parent.ownerId,
+                    Option.some(parent.id)
+                  )
+                )
+              )
+            : pipe(
+                loadEntity(
+                  deps.userRepo.findById(query.userId),
+                  "User",
+                  query.userId
+                ),
+                Effect.flatMap((user) =>
+                  deps.folderRepo.findChildren(user.id, Option.none())
+                )
+              ),
+          Effect.map(FolderResponseMapper.toListFoldersResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Rename a folder (names are unique among siblings)
+ */
+export const renameFolder =
+  (deps: FolderWorkflowDeps) =>
+  (
+    input: RenameFolderInput
+  ): Effect.Effect<
+    FolderResponse,
+    NotFoundError | FolderAlreadyExistsError | FolderForbiddenError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(FolderDTOs.RenameFolderCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input for renameFolder: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadFolderWithAccess(deps, command.folderId, command.userId),
+          Effect.tap(({ folder }) =>
+            guardUniqueFolderName(
+              deps,
+              command.name,
+              folder.ownerId,
+              folder.parentId,
+              folder.id
+            )
+          ),
+          Effect.flatMap(({ folder }) =>
+            deps.folderRepo.save(folder.rename(command.name))
+          ),
+          Effect.map(FolderResponseMapper.toFolderResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Move a folder (with its whole subtree) under another folder or to the root level
+ */
+export const moveFolder =
+  (deps: FolderWorkflowDeps) =>
+  (
+    input: MoveFolderInput
+  ): Effect.Effect<
+    FolderResponse,
+    | NotFoundError
+    | FolderAlreadyExistsError
+    | FolderValidationError
+    | FolderForbiddenError
+    | Error
+  > =>
+    pipe(
+      S.decodeUnknown(FolderDTOs.MoveFolderCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input for moveFolder: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadFolderWithAccess(deps, command.folderId, command.userId),
+          Effect.flatMap(({ folder }) => {
+            const targetParentId = Option.fromNullable(command.parentId);
+
+            if (isSameParent(folder.parentId, targetParentId)) {
+              return Effect.succeed(folder);
+            }
+
+            return pipe(
+              Option.isSome(targetParentId)
+                ? pipe(
+                    loadFolderWithAccess(
+                      deps,
+                      targetParentId.value,
+                      command.userId
+                    ),
+                    Effect.flatMap(({ folder: parent }) =>
+                      parent.ownerId === folder.ownerId
+                        ? deps.folderRepo.findPath(parent.id)
+                        : Effect.fail(
+                            new FolderValidationError({
+                              message:
+                                "Folders can only be moved within the same owner's tree",
+                              field: "parentId",
+                            })
+                          )
+                    ),
+                    Effect.flatMap((targetPath) =>
+                      guardNotMovingIntoSelf(folder.id, targetPath)
+                    )
+                  )
+                : Effect.void,
+              Effect.flatMap(() =>
+                guardUniqueFolderName(
+                  deps,
+                  folder.name,
+                  folder.ownerId,
+                  targetParentId,
+                  folder.id
+                )
+              ),
+              Effect.flatMap(() =>
+                deps.folderRepo.save(folder.moveTo(targetParentId))
+              )
+            );
+          }),
+          Effect.map(FolderResponseMapper.toFolderResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Delete an empty folder
+ * Folders that still contain sub-folders or documents are rejected
+ */
+export const deleteFolder =
+  (deps: FolderWorkflowDeps) =>
+  (
+    input: DeleteFolderInput
+  ): Effect.Effect<
+    void,
+    NotFoundError | FolderNotEmptyError | FolderForbiddenError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(FolderDTOs.DeleteFolderCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input for deleteFolder: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadFolderWithAccess(deps, command.folderId, command.userId),
+          Effect.flatMap(({ folder }) =>
+            pipe(
+              Effect.all({
+                children: deps.folderRepo.findChildren(
+                  folder.ownerId,
+                  Option.some(folder.id)
+                ),
+                documentCount: deps.documentRepo.countByFolder(folder.id),
+              }),
+              Effect.flatMap(({ children, documentCount }) =>
+                children.length > 0 || documentCount > 0
+                  ? Effect.fail(
+                      new FolderNotEmptyError({
+                        folderId: folder.id,
+                        message: `Folder contains ${children.length} sub-folder(s) and ${documentCount} document(s)`,
+                      })
+                    )
+                  : deps.folderRepo.delete(folder.id)
+              )
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
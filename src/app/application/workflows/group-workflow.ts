@@ -0,0 +1,328 @@
+/**
+ * Group Workflow - Functional Pattern
+ *
+ * Functional workflows using currying pattern.
+ * No Effect.gen usage - pure monadic composition with pipe.
+ *
+ * Workflows accept raw Input types and transform them into branded Command/Query types.
+ */
+
+import { Effect, Option, pipe, Schema as S } from "effect";
+import type { GroupRepository } from "../../domain/group/repository";
+import type { UserRepository } from "../../domain/user/repository";
+import { NotFoundError } from "../../domain/shared/base.errors";
+import { GroupEntity } from "../../domain/group/entity";
+import {
+  GroupAlreadyExistsError,
+  GroupForbiddenError,
+  GroupMemberAlreadyExistsError,
+  GroupMemberNotFoundError,
+  GroupValidationError,
+} from "../../domain/group/errors";
+import {
+  guardGroupManagement,
+  guardGroupVisibility,
+  guardNotMember,
+  guardRemovableMember,
+} from "../../domain/group/guards";
+import type { GroupName } from "../../domain/group/value-object";
+import { loadEntity } from "../utils/effect-helpers";
+import { UuidGenerators } from "../../domain/refined/uuid";
+import type { UserId, GroupId } from "../../domain/refined/uuid";
+import type {
+  CreateGroupInput,
+  ListGroupsInput,
+  GetGroupInput,
+  RenameGroupInput,
+  DeleteGroupInput,
+  AddGroupMemberInput,
+  RemoveGroupMemberInput,
+} from "../dtos/group/request.dto";
+import * as GroupDTOs from "../dtos/group/request.dto";
+import type {
+  GroupResponse,
+  ListGroupsResponse,
+} from "../dtos/group/response.dto";
+import { GroupResponseMapper } from "../mappers/group.mapper";
+
+// Re-export WorkflowTag from bootstrap for route compatibility
+export { GroupWorkflowTag } from "../../bootstrap";
+
+/**
+ * Dependencies for group workflows
+ */
+export interface GroupWorkflowDeps {
+  readonly groupRepo: GroupRepository;
+  readonly userRepo: UserRepository;
+}
+
+/**
+ * Load a group and the requesting user
+ */
+const loadGroupWithUser = (
+  deps: GroupWorkflowDeps,
+  groupId: GroupId,
+  userId: UserId
+) =>
+  Effect.all({
+    group: loadEntity(deps.groupRepo.findById(groupId), "Group", groupId),
+    user: loadEntity(deps.userRepo.findById(userId), "User", userId),
+  });
+
+/**
+ * Fail if the owner already has another group with the same name
+ */
+const guardUniqueGroupName = (
+  deps: GroupWorkflowDeps,
+  name: GroupName,
+  ownerId: UserId,
+  excludeId?: GroupId
+) =>
+  pipe(
+    deps.groupRepo.findByNameForOwner(name, ownerId),
+    Effect.flatMap((existing) =>
+      Option.isSome(existing) && existing.value.id !== excludeId
+        ? Effect.fail(
+            new GroupAlreadyExistsError({
+              name,
+              message: `You already have a group named '${name}'`,
+            })
+          )
+        : Effect.void
+    )
+  );
+
+/**
+ * Create a group owned by the requesting user
+ * The owner becomes the first member
+ */
+export const createGroup =
+  (deps: GroupWorkflowDeps) =>
+  (
+    input: CreateGroupInput
+  ): Effect.Effect<
+    GroupResponse,
+    NotFoundError | GroupAlreadyExistsError | GroupValidationError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(GroupDTOs.CreateGroupCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input for createGroup: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadEntity(
+            deps.userRepo.findById(command.userId),
+            "User",
+            command.userId
+          ),
+          Effect.tap((user) =>
+            guardUniqueGroupName(deps, command.name, user.id)
+          ),
+          Effect.flatMap((user) =>
+            GroupEntity.create({
+              id: UuidGenerators.groupId(),
+              name: command.name,
+              ownerId: user.id,
+            })
+          ),
+          Effect.flatMap((group) => deps.groupRepo.save(group)),
+          Effect.map(GroupResponseMapper.toGroupResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * List the groups the requesting user is a member of
+ */
+export const listGroups =
+  (deps: GroupWorkflowDeps) =>
+  (input: ListGroupsInput): Effect.Effect<ListGroupsResponse, Error> =>
+    pipe(
+      S.decodeUnknown(GroupDTOs.ListGroupsQuery)(input),
+      Effect.mapError((e) => new Error(`Invalid input for listGroups: ${e}`)),
+      Effect.flatMap((query) =>
+        pipe(
+          deps.groupRepo.findByMember(query.userId),
+          Effect.map(GroupResponseMapper.toListGroupsResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Get a group with its members
+ * Visible to members and admins
+ */
+export const getGroup =
+  (deps: GroupWorkflowDeps) =>
+  (
+    input: GetGroupInput
+  ): Effect.Effect<
+    GroupResponse,
+    NotFoundError | GroupForbiddenError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(GroupDTOs.GetGroupQuery)(input),
+      Effect.mapError((e) => new Error(`Invalid input for getGroup: ${e}`)),
+      Effect.flatMap((query) =>
+        pipe(
+          loadGroupWithUser(deps, query.groupId, query.userId),
+          Effect.tap(({ group, user }) => guardGroupVisibility(group, user)),
+          Effect.map(({ group }) => GroupResponseMapper.toGroupResponse(group)),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Rename a group (names are unique per owner)
+ */
+export const renameGroup =
+  (deps: GroupWorkflowDeps) =>
+  (
+    input: RenameGroupInput
+  ): Effect.Effect<
+    GroupResponse,
+    NotFoundError | GroupAlreadyExistsError | GroupForbiddenError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(GroupDTOs.RenameGroupCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input for renameGroup: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadGroupWithUser(deps, command.groupId, command.userId),
+          Effect.tap(({ group, user }) => guardGroupManagement(group, user)),
+          Effect.tap(({ group }) =>
+            guardUniqueGroupName(deps, command.name, group.ownerId, group.id)
+          ),
+          Effect.flatMap(({ group }) =>
+            deps.groupRepo.save(group.rename(command.name))
+          ),
+          Effect.map(GroupResponseMapper.toGroupResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Delete a group
+ * Its memberships and every document permission granted to it are removed
+ */
+export const deleteGroup =
+  (deps: GroupWorkflowDeps) =>
+  (
+    input: DeleteGroupInput
+  ): Effect.Effect<void, NotFoundError | GroupForbiddenError | Error> =>
+    pipe(
+      S.decodeUnknown(GroupDTOs.DeleteGroupCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input for deleteGroup: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadGroupWithUser(deps, command.groupId, command.userId),
+          Effect.tap(({ group, user }) => guardGroupManagement(group, user)),
+          Effect.flatMap(({ group }) => deps.groupRepo.delete(group.id)),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Add a user to a group
+ * Only the group owner or an admin can add members
+ */
+export const addGroupMember =
+  (deps: GroupWorkflowDeps) =>
+  (
+    input: AddGroupMemberInput
+  ): Effect.Effect<
+    GroupResponse,
+    | NotFoundError
+    | GroupForbiddenError
+    | GroupMemberAlreadyExistsError
+    | Error
+  > =>
+    pipe(
+      S.decodeUnknown(GroupDTOs.AddGroupMemberCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for addGroupMember: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        pipe(
+          Effect.all({
+            access: loadGroupWithUser(deps, command.groupId, command.userId),
+            member: loadEntity(
+              deps.userRepo.findById(command.memberId),
+              "User",
+              command.memberId
+            ),
+          }),
+          Effect.tap(({ access: { group, user } }) =>
+            guardGroupManagement(group, user)
+          ),
+          Effect.tap(({ access: { group }, member }) =>
+            guardNotMember(group, member.id)
+          ),
+          Effect.flatMap(({ access: { group }, member }) =>
+            deps.groupRepo.save(group.addMember(member.id))
+          ),
+          Effect.map(GroupResponseMapper.toGroupResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Remove a user from a group
+ * The group owner or an admin can remove anyone but the owner;
+ * any other member can remove themselves
+ */
+export const removeGroupMember =
+  (deps: GroupWorkflowDeps) =>
+  (
+    input: RemoveGroupMemberInput
+  ): Effect.Effect<
+    GroupResponse,
+    | NotFoundError
+    | GroupForbiddenError
+    | GroupMemberNotFoundError
+    | GroupValidationError
+    | Error
+  > =>
+    pipe(
+      S.decodeUnknown(GroupDTOs.RemoveGroupMemberCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for removeGroupMember: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        pipe(
+          loadGroupWithUser(deps, command.groupId, command.userId),
+          Effect.tap(({ group, user }) =>
+            command.memberId === user.id
+              ? Effect.void
+              : guardGroupManagement(group, user)
+          ),
+          Effect.tap(({ group }) =>
+            guardRemovableMember(group, command.memberId)
+          ),
+          Effect.flatMap(({ group }) =>
+            deps.groupRepo.save(group.removeMember(command.memberId))
+          ),
+          Effect.map(GroupResponseMapper.toGroupResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
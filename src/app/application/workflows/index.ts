@@ -7,3 +7,5 @@ export * from "./document-workflow";
 export * from "./permission-workflow";
 export * from "./metadata-workflow";
 export * from "./download-token-workflow";
+export * from "./folder-workflow";
+export * from "./group-workflow";
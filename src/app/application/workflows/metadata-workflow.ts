@@ -12,7 +12,9 @@ import { v4 as uuidv4 } from "uuid";
 import type { MetadataRepository } from "../../domain/metedata/repository";
 import type { DocumentRepository } from "../../domain/document/repository";
 import type { UserRepository } from "../../domain/user/repository";
+import type { AuditPort } from "../ports/audit.port";
 import type { PermissionRepository } from "../../domain/permission/repository";
+import type { GroupRepository } from "../../domain/group/repository";
 import { NotFoundError } from "../../domain/shared/base.errors";
 import {
   InsufficientPermissionError,
@@ -61,6 +63,8 @@ export interface MetadataWorkflowDeps {
   readonly documentRepo: DocumentRepository;
   readonly userRepo: UserRepository;
   readonly permissionRepo: PermissionRepository;
+  readonly groupRepo: GroupRepository;
+  readonly auditService: AuditPort;
 }
 
 /**
@@ -96,25 +100,27 @@ export const addMetadata =
               command.userId
             ),
             permissions: deps.permissionRepo.findByDocument(command.documentId),
+            groupIds: deps.groupRepo.findGroupIdsByMember(command.userId),
             existingMetadata: deps.metadataRepo.findByDocumentAndKey(
               command.documentId,
               command.key
             ),
           }),
-          Effect.flatMap(({ document, user, permissions, existingMetadata }) =>
-            Option.isSome(existingMetadata)
-              ? Effect.fail(
-                  new DuplicateMetadataKeyError({
-                    message: `Metadata with key '${command.key}' already exists for this document`,
-                    key: command.key,
-                    documentId: command.documentId,
-                  })
-                )
-              : Effect.succeed({ document, user, permissions })
+          Effect.flatMap(
+            ({ document, user, permissions, groupIds, existingMetadata }) =>
+              Option.isSome(existingMetadata)
+                ? Effect.fail(
+                    new DuplicateMetadataKeyError({
+                      message: `Metadata with key '${command.key}' already exists for this document`,
+                      key: command.key,
+                      documentId: command.documentId,
+                    })
+                  )
+                : Effect.succeed({ document, user, permissions, groupIds })
           ),
-          Effect.flatMap(({ document, user, permissions }) =>
+          Effect.flatMap(({ document, user, permissions, groupIds }) =>
             pipe(
-              requireWritePermission(user, document, permissions),
+              requireWritePermission(user, document, permissions, groupIds),
               Effect.map(() => ({ document, user }))
             )
           ),
@@ -135,12 +141,13 @@ export const addMetadata =
             )
           ),
           Effect.tap((metadata) =>
-            deps.documentRepo.addAudit(
-              command.documentId,
-              "metadata_added",
-              command.userId,
-              Option.some(`Metadata key '${command.key}' added`)
-            )
+            deps.auditService.record({
+              action: "metadata_added",
+              performedBy: command.userId,
+              documentId: command.documentId,
+              details: `Metadata key '${command.key}' added`,
+              after: { key: metadata.key, value: metadata.value },
+            })
           ),
           Effect.map((metadata) =>
             MetadataResponseMapper.toMetadataResponse(metadata)
@@ -191,20 +198,23 @@ export const updateMetadata =
                 permissions: deps.permissionRepo.findByDocument(
                   metadata.documentId
                 ),
+                groupIds: deps.groupRepo.findGroupIdsByMember(command.userId),
               }),
-              Effect.map(({ document, user, permissions }) => ({
+              Effect.map(({ document, user, permissions, groupIds }) => ({
                 metadata,
                 document,
                 user,
                 permissions,
+                groupIds,
               }))
             )
           ),
-          Effect.flatMap(({ metadata, document, user, permissions }) =>
-            pipe(
-              requireWritePermission(user, document, permissions),
-              Effect.map(() => metadata)
-            )
+          Effect.flatMap(
+            ({ metadata, document, user, permissions, groupIds }) =>
+              pipe(
+                requireWritePermission(user, document, permissions, groupIds),
+                Effect.map(() => metadata)
+              )
           ),
           Effect.flatMap((metadata) => {
             const updatedMetadata = metadata.updateValue(
@@ -215,13 +225,15 @@ export const updateMetadata =
               Effect.map((saved) => ({ saved, metadata }))
             );
           }),
-          Effect.tap(({ metadata }) =>
-            deps.documentRepo.addAudit(
-              metadata.documentId,
-              "metadata_updated",
-              command.userId,
-              Option.some(`Metadata key '${metadata.key}' updated`)
-            )
+          Effect.tap(({ saved, metadata }) =>
+            deps.auditService.record({
+              action: "metadata_updated",
+              performedBy: command.userId,
+              documentId: metadata.documentId,
+              details: `Metadata key '${metadata.key}' updated`,
+              before: { key: metadata.key, value: metadata.value },
+              after: { key: saved.key, value: saved.value },
+            })
           ),
           Effect.map(({ saved }) =>
             MetadataResponseMapper.toMetadataResponse(saved)
@@ -269,20 +281,23 @@ export const deleteMetadata =
                 permissions: deps.permissionRepo.findByDocument(
                   metadata.documentId
                 ),
+                groupIds: deps.groupRepo.findGroupIdsByMember(command.userId),
               }),
-              Effect.map(({ document, user, permissions }) => ({
+              Effect.map(({ document, user, permissions, groupIds }) => ({
                 metadata,
                 document,
                 user,
                 permissions,
+                groupIds,
               }))
             )
           ),
-          Effect.flatMap(({ metadata, document, user, permissions }) =>
-            pipe(
-              requireWritePermission(user, document, permissions),
-              Effect.map(() => metadata)
-            )
+          Effect.flatMap(
+            ({ metadata, document, user, permissions, groupIds }) =>
+              pipe(
+                requireWritePermission(user, document, permissions, groupIds),
+                Effect.map(() => metadata)
+              )
           ),
           Effect.flatMap((metadata) =>
             pipe(
@@ -291,12 +306,13 @@ export const deleteMetadata =
             )
           ),
           Effect.flatMap((metadata) =>
-            deps.documentRepo.addAudit(
-              metadata.documentId,
-              "metadata_deleted",
-              command.userId,
-              Option.some(`Metadata key '${metadata.key}' deleted`)
-            )
+            deps.auditService.record({
+              action: "metadata_deleted",
+              performedBy: command.userId,
+              documentId: metadata.documentId,
+              details: `Metadata key '${metadata.key}' deleted`,
+              before: { key: metadata.key, value: metadata.value },
+            })
           ),
           Effect.mapError((e) =>
             e instanceof Error ? e : new Error(String(e))
@@ -333,10 +349,11 @@ export const listMetadata =
               query.userId
             ),
             permissions: deps.permissionRepo.findByDocument(query.documentId),
+            groupIds: deps.groupRepo.findGroupIdsByMember(query.userId),
           }),
-          Effect.flatMap(({ document, user, permissions }) =>
+          Effect.flatMap(({ document, user, permissions, groupIds }) =>
             pipe(
-              requireReadPermission(user, document, permissions),
+              requireReadPermission(user, document, permissions, groupIds),
               Effect.map(() => document)
             )
           ),
@@ -383,10 +400,11 @@ export const getMetadataByKey =
               query.userId
             ),
             permissions: deps.permissionRepo.findByDocument(query.documentId),
+            groupIds: deps.groupRepo.findGroupIdsByMember(query.userId),
           }),
-          Effect.flatMap(({ document, user, permissions }) =>
+          Effect.flatMap(({ document, user, permissions, groupIds }) =>
             pipe(
-              requireReadPermission(user, document, permissions),
+              requireReadPermission(user, document, permissions, groupIds),
               Effect.map(() => document)
             )
           ),
@@ -0,0 +1,354 @@
+/**
+ * MFA Workflow - Functional Pattern
+ *
+ * Functional workflows using currying pattern.
+ * No Effect.gen usage - pure monadic composition with pipe.
+ *
+ * Workflows accept raw Input types and transform them into branded Command/Query types.
+ */
+
+import { Effect, Option, pipe, Schema as S } from "effect";
+import type { MfaRepository } from "../../domain/mfa/repository";
+import type { UserRepository } from "../../domain/user/repository";
+import type { UserEntity as User } from "../../domain/user/entity";
+import { MfaEnrollmentEntity } from "../../domain/mfa/entity";
+import {
+  MfaNotEnabledError,
+  MfaRequiredError,
+  type MfaDomainError,
+} from "../../domain/mfa/errors";
+import { guardMfaEnabled, guardMfaNotEnabled } from "../../domain/mfa/guards";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+} from "../../domain/mfa/value-object";
+import { NotFoundError, ForbiddenError } from "../../domain/shared/base.errors";
+import { isAdmin } from "../../domain/permission/service";
+import { loadEntity } from "../utils/effect-helpers";
+import type { UserId } from "../../domain/refined/uuid";
+import type { AuditPort } from "../ports/audit.port";
+import type {
+  GetMfaStatusInput,
+  EnrollMfaInput,
+  ConfirmMfaInput,
+  DisableMfaInput,
+  GetMfaPolicyInput,
+  SetMfaPolicyInput,
+} from "../dtos/mfa/request.dto";
+import * as MfaDTOs from "../dtos/mfa/request.dto";
+import type {
+  MfaStatusResponse,
+  MfaEnrollmentResponse,
+  MfaRecoveryCodesResponse,
+  MfaPolicyResponse,
+} from "../dtos/mfa/response.dto";
+import { MfaResponseMapper } from "../mappers/mfa.mapper";
+
+// Re-export WorkflowTag from bootstrap for route compatibility
+export { MfaWorkflowTag } from "../../bootstrap";
+
+/**
+ * Dependencies for MFA workflows
+ */
+export interface MfaWorkflowDeps {
+  readonly mfaRepo: MfaRepository;
+  readonly userRepo: UserRepository;
+  readonly auditService: AuditPort;
+}
+
+/**
+ * Whether the user's role must use MFA
+ */
+const isMfaRequired = (deps: MfaWorkflowDeps, user: User) =>
+  Effect.map(deps.mfaRepo.findRequiredRoles(), (roles) =>
+    roles.includes(user.role)
+  );
+
+/**
+ * Load the enrollment of a user, failing when there is none
+ */
+const loadEnrollment = (deps: MfaWorkflowDeps, userId: UserId) =>
+  pipe(
+    deps.mfaRepo.findEnrollment(userId),
+    Effect.flatMap(
+      Option.match({
+        onNone: () =>
+          Effect.fail(
+            new MfaNotEnabledError({
+              userId,
+              message: "Two-factor authentication is not enabled",
+            })
+          ),
+        onSome: (enrollment) => Effect.succeed(enrollment),
+      })
+    )
+  );
+
+/**
+ * Fail unless the requesting user is an admin
+ */
+const requireAdmin = (deps: MfaWorkflowDeps, userId: UserId) =>
+  pipe(
+    loadEntity(deps.userRepo.findById(userId), "User", userId),
+    Effect.filterOrFail(isAdmin, () =>
+      new ForbiddenError({
+        message: "Only administrators can manage the MFA policy",
+        resource: "MfaPolicy",
+      })
+    )
+  );
+
+/**
+ * Get the MFA status of the requesting user
+ */
+export const getMfaStatus =
+  (deps: MfaWorkflowDeps) =>
+  (
+    input: GetMfaStatusInput
+  ): Effect.Effect<MfaStatusResponse, NotFoundError | MfaDomainError | Error> =>
+    pipe(
+      S.decodeUnknown(MfaDTOs.GetMfaStatusQuery)(input),
+      Effect.mapError((e) => new Error(`Invalid input for getMfaStatus: ${e}`)),
+      Effect.flatMap((query) =>
+        pipe(
+          loadEntity(
+            deps.userRepo.findById(query.userId),
+            "User",
+            query.userId
+          ),
+          Effect.flatMap((user) =>
+            Effect.all({
+              enrollment: deps.mfaRepo.findEnrollment(user.id),
+              required: isMfaRequired(deps, user),
+            })
+          ),
+          Effect.map(({ enrollment, required }) =>
+            MfaResponseMapper.toMfaStatusResponse(enrollment, required)
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Start enrolling an authenticator
+ * Replaces a pending enrollment; MFA is enabled once confirmMfa succeeds
+ */
+export const enrollMfa =
+  (deps: MfaWorkflowDeps) =>
+  (
+    input: EnrollMfaInput
+  ): Effect.Effect<
+    MfaEnrollmentResponse,
+    NotFoundError | MfaDomainError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(MfaDTOs.EnrollMfaCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input for enrollMfa: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadEntity(
+            deps.userRepo.findById(command.userId),
+            "User",
+            command.userId
+          ),
+          Effect.tap((user) =>
+            pipe(
+              deps.mfaRepo.findEnrollment(user.id),
+              Effect.flatMap(
+                Option.match({
+                  onNone: () => Effect.void,
+                  onSome: guardMfaNotEnabled,
+                })
+              )
+            )
+          ),
+          Effect.flatMap((user) =>
+            pipe(
+              deps.mfaRepo.saveEnrollment(
+                MfaEnrollmentEntity.create({
+                  userId: user.id,
+                  secret: generateTotpSecret(),
+                })
+              ),
+              Effect.map((enrollment) =>
+                MfaResponseMapper.toMfaEnrollmentResponse(
+                  enrollment,
+                  user.email
+                )
+              )
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Enable MFA by proving the authenticator works
+ * Returns the recovery codes; they are only shown this once
+ */
+export const confirmMfa =
+  (deps: MfaWorkflowDeps) =>
+  (
+    input: ConfirmMfaInput
+  ): Effect.Effect<MfaRecoveryCodesResponse, MfaDomainError | Error> =>
+    pipe(
+      S.decodeUnknown(MfaDTOs.ConfirmMfaCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input for confirmMfa: ${e}`)),
+      Effect.flatMap((command) => {
+        const recoveryCodes = generateRecoveryCodes();
+        return pipe(
+          loadEnrollment(deps, command.userId),
+          Effect.tap(guardMfaNotEnabled),
+          Effect.flatMap((enrollment) =>
+            enrollment.confirm(
+              command.code,
+              recoveryCodes.map(hashRecoveryCode)
+            )
+          ),
+          Effect.flatMap((enrollment) =>
+            deps.mfaRepo.saveEnrollment(enrollment)
+          ),
+          Effect.tap(() =>
+            deps.auditService.record({
+              action: "mfa_enabled",
+              performedBy: command.userId,
+            })
+          ),
+          Effect.map(() =>
+            MfaResponseMapper.toMfaRecoveryCodesResponse(recoveryCodes)
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        );
+      })
+    );
+
+/**
+ * Turn MFA off with a current TOTP code or a recovery code
+ * Not allowed while the user's role requires MFA
+ */
+export const disableMfa =
+  (deps: MfaWorkflowDeps) =>
+  (
+    input: DisableMfaInput
+  ): Effect.Effect<MfaStatusResponse, NotFoundError | MfaDomainError | Error> =>
+    pipe(
+      S.decodeUnknown(MfaDTOs.DisableMfaCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input for disableMfa: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadEntity(
+            deps.userRepo.findById(command.userId),
+            "User",
+            command.userId
+          ),
+          Effect.tap((user) =>
+            pipe(
+              isMfaRequired(deps, user),
+              Effect.filterOrFail(
+                (required) => !required,
+                () =>
+                  new MfaRequiredError({
+                    role: user.role,
+                    message: `Two-factor authentication is required for the ${user.role} role`,
+                  })
+              )
+            )
+          ),
+          Effect.flatMap((user) => loadEnrollment(deps, user.id)),
+          Effect.tap(guardMfaEnabled),
+          Effect.flatMap((enrollment) => enrollment.verify(command.code)),
+          Effect.tap(() => deps.mfaRepo.deleteEnrollment(command.userId)),
+          Effect.tap(() =>
+            deps.auditService.record({
+              action: "mfa_disabled",
+              performedBy: command.userId,
+            })
+          ),
+          Effect.map(() =>
+            MfaResponseMapper.toMfaStatusResponse(Option.none(), false)
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * List the roles that require MFA (admin only)
+ */
+export const getMfaPolicy =
+  (deps: MfaWorkflowDeps) =>
+  (
+    input: GetMfaPolicyInput
+  ): Effect.Effect<
+    MfaPolicyResponse,
+    NotFoundError | ForbiddenError | MfaDomainError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(MfaDTOs.GetMfaPolicyQuery)(input),
+      Effect.mapError((e) => new Error(`Invalid input for getMfaPolicy: ${e}`)),
+      Effect.flatMap((query) =>
+        pipe(
+          requireAdmin(deps, query.userId),
+          Effect.flatMap(() => deps.mfaRepo.findRequiredRoles()),
+          Effect.map(MfaResponseMapper.toMfaPolicyResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Require MFA for a role, or stop requiring it (admin only)
+ * Users of the role without MFA must enroll at their next login
+ */
+export const setMfaPolicy =
+  (deps: MfaWorkflowDeps) =>
+  (
+    input: SetMfaPolicyInput
+  ): Effect.Effect<
+    MfaPolicyResponse,
+    NotFoundError | ForbiddenError | MfaDomainError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(MfaDTOs.SetMfaPolicyCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input for setMfaPolicy: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          requireAdmin(deps, command.userId),
+          Effect.flatMap(() => deps.mfaRepo.findRequiredRoles()),
+          Effect.tap(() =>
+            deps.mfaRepo.setRoleRequirement(
+              command.role,
+              command.required,
+              command.userId
+            )
+          ),
+          Effect.tap((before) =>
+            deps.auditService.record({
+              action: "mfa_policy_changed",
+              performedBy: command.userId,
+              details: `MFA ${command.required ? "required" : "not required"} for ${command.role}`,
+              before: { required: before.includes(command.role) },
+              after: { required: command.required },
+            })
+          ),
+          Effect.flatMap(() => deps.mfaRepo.findRequiredRoles()),
+          Effect.map(MfaResponseMapper.toMfaPolicyResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
@@ -10,8 +10,10 @@
 import { Effect, Option, pipe, Schema as S } from "effect";
 import { v4 as uuidv4 } from "uuid";
 import type { PermissionRepository } from "../../domain/permission/repository";
+import type { GroupRepository } from "../../domain/group/repository";
 import type { DocumentRepository } from "../../domain/document/repository";
 import type { UserRepository } from "../../domain/user/repository";
+import type { AuditPort } from "../ports/audit.port";
 import { NotFoundError, ForbiddenError } from "../../domain/shared/base.errors";
 import {
   InsufficientPermissionError,
@@ -21,9 +23,14 @@ import {
   isAdmin,
   isDocumentOwner,
   requirePermission,
+  explainAccess,
 } from "../../domain/permission/service";
+import { guardExpiryInFuture } from "../../domain/permission/guards";
+import { guardEmailVerified } from "../../domain/user/guards";
+import type { EmailNotVerifiedError } from "../../domain/user/errors";
 import { loadEntity } from "../utils/effect-helpers";
-import type { UserId, DocumentId } from "../../domain/refined/uuid";
+import type { UserId, DocumentId, GroupId } from "../../domain/refined/uuid";
+import type { PermissionType } from "../../domain/permission/value-object";
 import {
   PermissionId,
   DocumentPermissionEntity as DocumentPermission,
@@ -31,6 +38,7 @@ import {
 import type {
   GrantPermissionInput,
   GrantPermissionCommand,
+  GrantGroupPermissionInput,
   UpdatePermissionInput,
   UpdatePermissionCommand,
   RevokePermissionInput,
@@ -41,6 +49,7 @@ import type {
   ListUserPermissionsQuery,
   CheckPermissionInput,
   CheckPermissionQuery,
+  ExplainPermissionInput,
 } from "../dtos/permission/request.dto";
 import * as PermissionDTOs from "../dtos/permission/request.dto";
 import type {
@@ -48,6 +57,8 @@ import type {
   ListPermissionsResponse,
   CheckPermissionResponse,
   PermissionResponse,
+  CleanupPermissionsResponse,
+  ExplainPermissionResponse,
 } from "../dtos/permission/response.dto";
 import { PermissionResponseMapper } from "../mappers/permission.mapper";
 
@@ -59,13 +70,79 @@ export { PermissionWorkflowTag } from "../../bootstrap";
  */
 export interface PermissionWorkflowDeps {
   readonly permissionRepo: PermissionRepository;
+  readonly groupRepo: GroupRepository;
   readonly documentRepo: DocumentRepository;
   readonly userRepo: UserRepository;
+  readonly auditService: AuditPort;
 }
 
+/**
+ * Upsert a grant: update the level and expiry of an existing permission for
+ * the grantee, or create a new one
+ * Re-granting without an expiry makes the permission permanent
+ */
+const saveGrant = (
+  deps: PermissionWorkflowDeps,
+  existingPermissions: readonly DocumentPermission[],
+  grant: {
+    documentId: DocumentId;
+    userId?: UserId;
+    groupId?: GroupId;
+    permission: PermissionType;
+    grantedBy: UserId;
+    expiresAt?: Date;
+  }
+) =>
+  pipe(
+    guardExpiryInFuture(Option.fromNullable(grant.expiresAt)),
+    Effect.flatMap(() =>
+      existingPermissions.length > 0
+        ? pipe(
+            deps.permissionRepo.save(
+              existingPermissions[0]
+                .updatePermission(grant.permission)
+                .withExpiry(Option.fromNullable(grant.expiresAt))
+            ),
+            Effect.map((permission) => ({
+              permission,
+              isNew: false,
+              previous: Option.some(existingPermissions[0]),
+            }))
+          )
+        : pipe(
+            DocumentPermission.create({
+              id: uuidv4() as PermissionId,
+              ...grant,
+            }),
+            Effect.flatMap((permission) => deps.permissionRepo.save(permission)),
+            Effect.map((permission) => ({
+              permission,
+              isNew: true,
+              previous: Option.none<DocumentPermission>(),
+            }))
+          )
+    )
+  );
+
+/**
+ * Audit value of a grant
+ */
+const grantSnapshot = (permission: DocumentPermission) => ({
+  grantee: permission.describeGrantee(),
+  permission: permission.permission,
+  expiresAt: Option.getOrNull(permission.expiresAt),
+});
+
+/**
+ * Audit suffix describing when a grant lapses
+ */
+const describeExpiry = (expiresAt?: Date): string =>
+  expiresAt ? ` until ${expiresAt.toISOString()}` : "";
+
 /**
  * Grant permission to a user on a document
  * Uses upsert logic: if permission exists, update it; otherwise create it
+ * Only users with a verified email can share
  * Accepts raw input and transforms to branded types
  */
 export const grantPermission =
@@ -74,7 +151,7 @@ export const grantPermission =
     input: GrantPermissionInput
   ): Effect.Effect<
     GrantPermissionResponse,
-    NotFoundError | ForbiddenError | Error
+    NotFoundError | ForbiddenError | EmailNotVerifiedError | Error
   > =>
     pipe(
       // Transform raw input to branded command
@@ -103,6 +180,7 @@ export const grantPermission =
               command.documentId
             ),
           }),
+          Effect.tap(({ grantingUser }) => guardEmailVerified(grantingUser)),
           Effect.flatMap(({ document, grantingUser, existingPermissions }) =>
             isAdmin(grantingUser) || isDocumentOwner(document, grantingUser)
               ? Effect.succeed({ document, existingPermissions })
@@ -114,46 +192,114 @@ export const grantPermission =
                   })
                 )
           ),
-          Effect.flatMap(({ existingPermissions }) => {
-            if (existingPermissions.length > 0) {
-              const updatedPermission = existingPermissions[0].updatePermission(
-                command.permission
-              );
-              return pipe(
-                deps.permissionRepo.save(updatedPermission),
-                Effect.map((permission) => ({
-                  permission,
-                  isNew: false,
-                }))
-              );
-            } else {
-              const newPermissionId = uuidv4() as PermissionId;
-              const newPermission = DocumentPermission.create({
-                id: newPermissionId,
+          Effect.flatMap(({ existingPermissions }) =>
+            saveGrant(deps, existingPermissions, {
+              documentId: command.documentId,
+              userId: command.userId,
+              permission: command.permission,
+              grantedBy: command.grantedBy,
+              expiresAt: command.expiresAt,
+            })
+          ),
+          Effect.tap(({ permission, previous }) =>
+            deps.auditService.record({
+              action: "permission_granted",
+              performedBy: command.grantedBy,
+              documentId: command.documentId,
+              details: `${command.permission} permission granted to user ${command.userId}${describeExpiry(command.expiresAt)}`,
+              before: Option.getOrUndefined(
+                Option.map(previous, grantSnapshot)
+              ),
+              after: grantSnapshot(permission),
+            })
+          ),
+          Effect.map(({ permission, isNew }) =>
+            PermissionResponseMapper.toGrantPermissionResponse(
+              permission,
+              isNew
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Grant permission to a group on a document
+ * Every current and future member of the group gets the permission
+ * Uses the same upsert logic and email verification rule as grantPermission
+ */
+export const grantGroupPermission =
+  (deps: PermissionWorkflowDeps) =>
+  (
+    input: GrantGroupPermissionInput
+  ): Effect.Effect<
+    GrantPermissionResponse,
+    NotFoundError | ForbiddenError | EmailNotVerifiedError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(PermissionDTOs.GrantGroupPermissionCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for grantGroupPermission: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        pipe(
+          Effect.all({
+            document: loadEntity(
+              deps.documentRepo.findById(command.documentId),
+              "Document",
+              command.documentId
+            ),
+            group: loadEntity(
+              deps.groupRepo.findById(command.groupId),
+              "Group",
+              command.groupId
+            ),
+            grantingUser: loadEntity(
+              deps.userRepo.findById(command.grantedBy),
+              "User",
+              command.grantedBy
+            ),
+            existingPermissions: deps.permissionRepo.findByGroupAndDocument(
+              command.groupId,
+              command.documentId
+            ),
+          }),
+          Effect.tap(({ grantingUser }) => guardEmailVerified(grantingUser)),
+          Effect.flatMap(
+            ({ document, group, grantingUser, existingPermissions }) =>
+              isAdmin(grantingUser) || isDocumentOwner(document, grantingUser)
+                ? Effect.succeed({ group, existingPermissions })
+                : Effect.fail(
+                    new ForbiddenError({
+                      message:
+                        "Only document owner or admin can grant permissions",
+                      resource: `Document:${command.documentId}`,
+                    })
+                  )
+          ),
+          Effect.flatMap(({ group, existingPermissions }) =>
+            pipe(
+              saveGrant(deps, existingPermissions, {
                 documentId: command.documentId,
-                userId: command.userId,
+                groupId: group.id,
                 permission: command.permission,
                 grantedBy: command.grantedBy,
-              });
-              return pipe(
-                newPermission,
-                Effect.flatMap((permission) =>
-                  deps.permissionRepo.save(permission)
-                ),
-                Effect.map((permission) => ({
-                  permission,
-                  isNew: true,
-                }))
-              );
-            }
-          }),
-          Effect.tap(({ permission }) =>
-            deps.documentRepo.addAudit(
-              command.documentId,
-              "permission_granted",
-              command.grantedBy,
-              Option.some(
-                `${command.permission} permission granted to user ${command.userId}`
+                expiresAt: command.expiresAt,
+              }),
+              Effect.tap(({ permission, previous }) =>
+                deps.auditService.record({
+                  action: "permission_granted",
+                  performedBy: command.grantedBy,
+                  documentId: command.documentId,
+                  details: `${command.permission} permission granted to group ${group.name}${describeExpiry(command.expiresAt)}`,
+                  before: Option.getOrUndefined(
+                    Option.map(previous, grantSnapshot)
+                  ),
+                  after: grantSnapshot(permission),
+                })
               )
             )
           ),
@@ -234,15 +380,15 @@ export const updatePermission =
               Effect.map((saved) => ({ saved, permission }))
             );
           }),
-          Effect.tap(({ permission }) =>
-            deps.documentRepo.addAudit(
-              permission.documentId,
-              "permission_updated",
-              command.updatedBy,
-              Option.some(
-                `Permission ${command.permissionId} updated to ${command.permission}`
-              )
-            )
+          Effect.tap(({ saved, permission }) =>
+            deps.auditService.record({
+              action: "permission_updated",
+              performedBy: command.updatedBy,
+              documentId: permission.documentId,
+              details: `Permission ${command.permissionId} updated to ${command.permission}`,
+              before: grantSnapshot(permission),
+              after: grantSnapshot(saved),
+            })
           ),
           Effect.map(({ saved }) =>
             PermissionResponseMapper.toPermissionResponse(saved)
@@ -299,7 +445,7 @@ export const revokePermission =
             )
           ),
           Effect.flatMap(({ permission, document, revokingUser }) =>
-            permission.userId === document.uploadedBy
+            permission.isGrantedToUser(document.uploadedBy)
               ? Effect.fail(
                   new CannotRevokeOwnerPermissionError({
                     message: "Cannot revoke document owner's permission",
@@ -326,14 +472,13 @@ export const revokePermission =
             )
           ),
           Effect.flatMap((permission) =>
-            deps.documentRepo.addAudit(
-              permission.documentId,
-              "permission_revoked",
-              command.revokedBy,
-              Option.some(
-                `Permission ${command.permissionId} revoked from user ${permission.userId}`
-              )
-            )
+            deps.auditService.record({
+              action: "permission_revoked",
+              performedBy: command.revokedBy,
+              documentId: permission.documentId,
+              details: `Permission ${command.permissionId} revoked from ${permission.describeGrantee()}`,
+              before: grantSnapshot(permission),
+            })
           ),
           Effect.mapError((e) =>
             e instanceof Error ? e : new Error(String(e))
@@ -449,24 +594,26 @@ export const checkPermission =
               query.userId
             ),
             permissions: deps.permissionRepo.findByDocument(query.documentId),
+            groupIds: deps.groupRepo.findGroupIdsByMember(query.userId),
           }),
-          Effect.flatMap(({ document, user, permissions }) =>
+          Effect.flatMap(({ document, user, permissions, groupIds }) =>
             pipe(
               requirePermission(
                 user,
                 document,
                 permissions,
+                groupIds,
                 query.requiredPermission
               ),
-              Effect.map(() => ({ permissions, hasPermission: true })),
+              Effect.as({ permissions, groupIds, hasPermission: true }),
               Effect.catchAll(() =>
-                Effect.succeed({ permissions, hasPermission: false })
+                Effect.succeed({ permissions, groupIds, hasPermission: false })
               )
             )
           ),
-          Effect.map(({ permissions, hasPermission }) => {
+          Effect.map(({ permissions, groupIds, hasPermission }) => {
             const userPermission = permissions.find(
-              (p) => p.userId === query.userId
+              (p) => p.appliesTo(query.userId, groupIds) && !p.isExpired()
             );
             return PermissionResponseMapper.toCheckPermissionResponse(
               hasPermission,
@@ -479,3 +626,107 @@ export const checkPermission =
         )
       )
     );
+
+/**
+ * Explain how access to a document is decided for a user
+ * Returns the full decision trace: which rule matched, which grant, the
+ * levels compared and why each higher-precedence rule did not apply.
+ * Only the document owner or an admin can inspect another user's access
+ */
+export const explainPermission =
+  (deps: PermissionWorkflowDeps) =>
+  (
+    input: ExplainPermissionInput
+  ): Effect.Effect<
+    ExplainPermissionResponse,
+    NotFoundError | ForbiddenError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(PermissionDTOs.ExplainPermissionQuery)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for explainPermission: ${e}`)
+      ),
+      Effect.flatMap((query) =>
+        pipe(
+          Effect.all({
+            document: loadEntity(
+              deps.documentRepo.findById(query.documentId),
+              "Document",
+              query.documentId
+            ),
+            user: loadEntity(
+              deps.userRepo.findById(query.userId),
+              "User",
+              query.userId
+            ),
+            requester: loadEntity(
+              deps.userRepo.findById(query.requestedBy),
+              "User",
+              query.requestedBy
+            ),
+            permissions: deps.permissionRepo.findByDocument(query.documentId),
+            groupIds: deps.groupRepo.findGroupIdsByMember(query.userId),
+          }),
+          Effect.flatMap((context) =>
+            isAdmin(context.requester) ||
+            isDocumentOwner(context.document, context.requester)
+              ? Effect.succeed(context)
+              : Effect.fail(
+                  new ForbiddenError({
+                    message:
+                      "Only document owner or admin can explain permissions",
+                    resource: `Document:${query.documentId}`,
+                  })
+                )
+          ),
+          Effect.map(({ document, user, permissions, groupIds }) =>
+            PermissionResponseMapper.toExplainPermissionResponse(
+              document.id,
+              user.id,
+              explainAccess(
+                user,
+                document,
+                permissions,
+                groupIds,
+                query.requiredPermission ?? "READ"
+              )
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Remove permissions whose expiry date has passed
+ * Each removal is audited with the original grantor as the actor.
+ * Runs without a user context so it can be scheduled
+ */
+export const purgeExpiredPermissions =
+  (deps: PermissionWorkflowDeps) =>
+  (): Effect.Effect<CleanupPermissionsResponse, Error> =>
+    pipe(
+      deps.permissionRepo.findExpired(),
+      Effect.flatMap((permissions) =>
+        Effect.forEach(permissions, (permission) =>
+          pipe(
+            deps.permissionRepo.delete(permission.id),
+            Effect.flatMap(() =>
+              deps.auditService.record({
+                action: "permission_expired",
+                performedBy: permission.grantedBy,
+                documentId: permission.documentId,
+                details: `${permission.permission} permission for ${permission.describeGrantee()} expired`,
+                before: grantSnapshot(permission),
+              })
+            )
+          )
+        )
+      ),
+      Effect.map((removed) =>
+        PermissionResponseMapper.toCleanupPermissionsResponse(removed.length)
+      ),
+      Effect.mapError((e) => (e instanceof Error ? e : new Error(String(e))))
+    );
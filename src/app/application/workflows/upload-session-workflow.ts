@@ -0,0 +1,327 @@
+/**
+ * Upload Session Workflow - Functional Pattern
+ *
+ * Resumable (tus-style) uploads: a session is created with the declared
+ * length, chunks are appended at explicit offsets, and the completed file is
+ * handed to uploadDocument so versioning, checksum dedup and audit apply.
+ */
+
+import { Config, Effect, Option, pipe, Schema as S } from "effect";
+import type { UploadSessionRepository } from "../../domain/upload-session/repository";
+import type { StoragePort } from "../ports/storage.port";
+import type { uploadDocument } from "./document-workflow";
+import { loadEntity } from "../utils/effect-helpers";
+import { UuidGenerators } from "../../domain/refined/uuid";
+import type { UploadSessionId, UserId } from "../../domain/refined/uuid";
+import { UploadSessionEntity } from "../../domain/upload-session/entity";
+import {
+  guardUploadOffset,
+  guardUploadSessionActive,
+  guardUploadSessionOwner,
+} from "../../domain/upload-session/guards";
+import {
+  calculateUploadSessionExpiry,
+  DEFAULT_UPLOAD_SESSION_TTL_HOURS,
+} from "../../domain/upload-session/value-object";
+import { UploadSessionResponseMapper } from "../mappers/upload-session.mapper";
+import type {
+  CreateUploadSessionInput,
+  GetUploadSessionInput,
+  AppendUploadChunkInput,
+  CancelUploadSessionInput,
+} from "../dtos/upload-session/request.dto";
+import * as UploadSessionDTOs from "../dtos/upload-session/request.dto";
+import type {
+  UploadSessionResponse,
+  AppendUploadChunkResponse,
+  CleanupUploadSessionsResponse,
+} from "../dtos/upload-session/response.dto";
+
+// Re-export WorkflowTag from bootstrap for route compatibility
+export { UploadSessionWorkflowTag } from "../../bootstrap";
+
+/**
+ * Dependencies for upload session workflows
+ */
+export interface UploadSessionWorkflowDeps {
+  readonly sessionRepo: UploadSessionRepository;
+  readonly storageService: StoragePort;
+  readonly uploadDocument: ReturnType<typeof uploadDocument>;
+}
+
+/**
+ * Session lifetime, configurable through the environment
+ */
+const UPLOAD_SESSION_TTL_HOURS = Config.integer(
+  "UPLOAD_SESSION_TTL_HOURS"
+).pipe(Config.withDefault(DEFAULT_UPLOAD_SESSION_TTL_HOURS));
+
+/**
+ * Load a session that the user may continue (own and not expired)
+ */
+const loadActiveSession = (
+  deps: UploadSessionWorkflowDeps,
+  sessionId: UploadSessionId,
+  userId: UserId
+) =>
+  pipe(
+    loadEntity(
+      deps.sessionRepo.findById(sessionId),
+      "UploadSession",
+      sessionId
+    ),
+    Effect.tap((session) => guardUploadSessionOwner(session, userId)),
+    Effect.tap((session) => guardUploadSessionActive(session))
+  );
+
+/**
+ * Locks of sessions with a chunk in flight, with their number of holders
+ */
+const sessionLocks = new Map<
+  string,
+  { readonly semaphore: Effect.Semaphore; holders: number }
+>();
+
+/**
+ * Run an effect while no other chunk of the session is being handled
+ * Checking the offset, appending and finalizing must not interleave with a
+ * concurrent request for the same session, within this process.
+ */
+const withSessionLock = <A, E, R>(
+  sessionId: UploadSessionId,
+  effect: Effect.Effect<A, E, R>
+): Effect.Effect<A, E, R> =>
+  Effect.suspend(() => {
+    const lock = sessionLocks.get(sessionId) ?? {
+      semaphore: Effect.unsafeMakeSemaphore(1),
+      holders: 0,
+    };
+    lock.holders++;
+    sessionLocks.set(sessionId, lock);
+    return pipe(
+      lock.semaphore.withPermits(1)(effect),
+      Effect.ensuring(
+        Effect.sync(() => {
+          if (--lock.holders === 0) sessionLocks.delete(sessionId);
+        })
+      )
+    );
+  });
+
+/**
+ * Remove a session together with its received bytes
+ */
+const discardSession = (
+  deps: UploadSessionWorkflowDeps,
+  session: UploadSessionEntity
+) =>
+  pipe(
+    deps.storageService.deleteUploadPart(session.id),
+    Effect.flatMap(() => deps.sessionRepo.delete(session.id))
+  );
+
+/**
+ * Start a resumable upload
+ */
+export const createUploadSession =
+  (deps: UploadSessionWorkflowDeps) =>
+  (
+    input: CreateUploadSessionInput
+  ): Effect.Effect<UploadSessionResponse, Error> =>
+    pipe(
+      S.decodeUnknown(UploadSessionDTOs.CreateUploadSessionCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for createUploadSession: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        pipe(
+          UPLOAD_SESSION_TTL_HOURS,
+          Effect.mapError(
+            (e) =>
+              new Error(`Invalid UPLOAD_SESSION_TTL_HOURS configuration: ${e}`)
+          ),
+          Effect.flatMap((ttlHours) =>
+            UploadSessionEntity.create({
+              id: UuidGenerators.uploadSessionId(),
+              userId: command.userId,
+              filename: command.filename,
+              mimeType: command.mimeType,
+              uploadLength: command.uploadLength,
+              documentId: command.documentId,
+              folderId: command.folderId,
+              expiresAt: calculateUploadSessionExpiry(ttlHours),
+            })
+          ),
+          Effect.flatMap((session) => deps.sessionRepo.save(session)),
+          Effect.map((session) =>
+            UploadSessionResponseMapper.toUploadSessionResponse(session, 0)
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Report upload progress (bytes received so far)
+ */
+export const getUploadSession =
+  (deps: UploadSessionWorkflowDeps) =>
+  (input: GetUploadSessionInput): Effect.Effect<UploadSessionResponse, Error> =>
+    pipe(
+      S.decodeUnknown(UploadSessionDTOs.GetUploadSessionQuery)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for getUploadSession: ${e}`)
+      ),
+      Effect.flatMap((query) =>
+        pipe(
+          loadActiveSession(deps, query.sessionId, query.userId),
+          Effect.flatMap((session) =>
+            pipe(
+              deps.storageService.getUploadPartSize(session.id),
+              Effect.map((offset) =>
+                UploadSessionResponseMapper.toUploadSessionResponse(
+                  session,
+                  offset
+                )
+              )
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Append a chunk at the given offset
+ * Once all declared bytes are received, the file is stored as a document
+ * version and the session is removed. An empty chunk at the final offset
+ * retries a finalization that failed.
+ */
+export const appendUploadChunk =
+  (deps: UploadSessionWorkflowDeps) =>
+  (
+    input: AppendUploadChunkInput
+  ): Effect.Effect<AppendUploadChunkResponse, Error> =>
+    pipe(
+      S.decodeUnknown(UploadSessionDTOs.AppendUploadChunkCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for appendUploadChunk: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        withSessionLock(
+          command.sessionId,
+          pipe(
+            loadActiveSession(deps, command.sessionId, command.userId),
+            Effect.flatMap((session) =>
+              pipe(
+                deps.storageService.getUploadPartSize(session.id),
+                Effect.tap((currentOffset) =>
+                  guardUploadOffset(session, currentOffset, command.offset)
+                ),
+                Effect.flatMap((currentOffset) =>
+                  deps.storageService.appendUploadPart(
+                    session.id,
+                    currentOffset,
+                    command.data,
+                    session.uploadLength - currentOffset
+                  )
+                ),
+                Effect.flatMap((offset) =>
+                  session.isComplete(offset)
+                    ? pipe(
+                        deps.storageService.openUploadPart(
+                          session.id,
+                          session.filename,
+                          session.mimeType
+                        ),
+                        Effect.flatMap((file) =>
+                          deps.uploadDocument({
+                            file,
+                            documentId: Option.getOrUndefined(
+                              session.documentId
+                            ),
+                            folderId: Option.getOrUndefined(session.folderId),
+                            uploadedBy: session.userId,
+                          })
+                        ),
+                        Effect.tap(() => discardSession(deps, session)),
+                        Effect.map((document) =>
+                          UploadSessionResponseMapper.toAppendUploadChunkResponse(
+                            session,
+                            offset,
+                            document
+                          )
+                        )
+                      )
+                    : Effect.succeed(
+                        UploadSessionResponseMapper.toAppendUploadChunkResponse(
+                          session,
+                          offset
+                        )
+                      )
+                )
+              )
+            ),
+            Effect.mapError((e) =>
+              e instanceof Error ? e : new Error(String(e))
+            )
+          )
+        )
+      )
+    );
+
+/**
+ * Abandon an upload and discard the received bytes
+ */
+export const cancelUploadSession =
+  (deps: UploadSessionWorkflowDeps) =>
+  (input: CancelUploadSessionInput): Effect.Effect<void, Error> =>
+    pipe(
+      S.decodeUnknown(UploadSessionDTOs.CancelUploadSessionCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for cancelUploadSession: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        withSessionLock(
+          command.sessionId,
+          pipe(
+            loadEntity(
+              deps.sessionRepo.findById(command.sessionId),
+              "UploadSession",
+              command.sessionId
+            ),
+            Effect.tap((session) =>
+              guardUploadSessionOwner(session, command.userId)
+            ),
+            Effect.flatMap((session) => discardSession(deps, session)),
+            Effect.mapError((e) =>
+              e instanceof Error ? e : new Error(String(e))
+            )
+          )
+        )
+      )
+    );
+
+/**
+ * Delete expired sessions and garbage-collect their partial files
+ * Runs without a user context so it can be scheduled
+ */
+export const purgeExpiredUploadSessions =
+  (deps: UploadSessionWorkflowDeps) =>
+  (): Effect.Effect<CleanupUploadSessionsResponse, Error> =>
+    pipe(
+      Effect.suspend(() => deps.sessionRepo.findExpired(new Date())),
+      Effect.flatMap((sessions) =>
+        Effect.forEach(sessions, (session) => discardSession(deps, session))
+      ),
+      Effect.map((deleted) =>
+        UploadSessionResponseMapper.toCleanupUploadSessionsResponse(
+          deleted.length
+        )
+      ),
+      Effect.mapError((e) => (e instanceof Error ? e : new Error(String(e))))
+    );
@@ -0,0 +1,362 @@
+/**
+ * Upload Ticket Workflow - Functional Pattern
+ *
+ * Signed, single-use tickets for the direct upload route. A ticket is bound
+ * to a document, a pre-allocated version ID, a size limit and a MIME type;
+ * redeeming it stores the file and registers the version on the document.
+ */
+
+import { Config, Effect, Option, pipe, Schema as S } from "effect";
+import type { UploadTicketRepository } from "../../domain/upload-ticket/repository";
+import type { DocumentRepository } from "../../domain/document/repository";
+import type { UserRepository } from "../../domain/user/repository";
+import type { PermissionRepository } from "../../domain/permission/repository";
+import type { GroupRepository } from "../../domain/group/repository";
+import type { StoragePort } from "../ports/storage.port";
+import type { AuditPort } from "../ports/audit.port";
+import { NotFoundError } from "../../domain/shared/base.errors";
+import { InsufficientPermissionError } from "../utils/errors";
+import { requireWritePermission } from "../../domain/permission/service";
+import { DocumentDomainServiceLive } from "../../domain/document/service";
+import { loadEntity } from "../utils/effect-helpers";
+import { UuidGenerators } from "../../domain/refined/uuid";
+import type { DocumentId, UserId } from "../../domain/refined/uuid";
+import { ValueObjectHelpers } from "../../domain/document/value-object";
+import { TokenHelpers } from "../../domain/download-token/value-object";
+import { UploadTicketEntity } from "../../domain/upload-ticket/entity";
+import { UploadTicketInvalidError } from "../../domain/upload-ticket/errors";
+import {
+  guardUploadMatchesTicket,
+  guardUploadTicketNotExpired,
+  guardUploadTicketNotUsed,
+  guardUploadTicketSignature,
+} from "../../domain/upload-ticket/guards";
+import {
+  DEFAULT_UPLOAD_TICKET_TTL_MS,
+  parseUploadTicket,
+  signUploadTicket,
+} from "../../domain/upload-ticket/value-object";
+import { UploadTicketResponseMapper } from "../mappers/upload-ticket.mapper";
+import { DocumentResponseMapper } from "../mappers/document.mapper";
+import type {
+  IssueUploadTicketInput,
+  RedeemUploadTicketInput,
+} from "../dtos/upload-ticket/request.dto";
+import * as UploadTicketDTOs from "../dtos/upload-ticket/request.dto";
+import type {
+  UploadTicketResponse,
+  CleanupUploadTicketsResponse,
+} from "../dtos/upload-ticket/response.dto";
+import type { UploadDocumentResponse } from "../dtos/document/response.dto";
+
+// Re-export WorkflowTag from bootstrap for route compatibility
+export { UploadTicketWorkflowTag } from "../../bootstrap";
+
+/**
+ * Dependencies for upload ticket workflows
+ */
+export interface UploadTicketWorkflowDeps {
+  readonly ticketRepo: UploadTicketRepository;
+  readonly documentRepo: DocumentRepository;
+  readonly userRepo: UserRepository;
+  readonly permissionRepo: PermissionRepository;
+  readonly groupRepo: GroupRepository;
+  readonly storageService: StoragePort;
+  readonly auditService: AuditPort;
+}
+
+/**
+ * Key used to sign tickets, falls back to the JWT secret
+ */
+const UPLOAD_TICKET_SECRET = Config.string("UPLOAD_TICKET_SECRET").pipe(
+  Config.orElse(() => Config.string("JWT_SECRET")),
+  Config.withDefault("jwt_secret_key_change_in_production")
+);
+
+const loadTicketSecret = pipe(
+  UPLOAD_TICKET_SECRET,
+  Effect.mapError(
+    (e) => new Error(`Invalid UPLOAD_TICKET_SECRET configuration: ${e}`)
+  )
+);
+
+const invalidTicketError = () =>
+  new UploadTicketInvalidError({ message: "Invalid upload ticket" });
+
+/**
+ * Load a document and check that the user may add versions to it
+ */
+const loadWritableDocument = (
+  deps: UploadTicketWorkflowDeps,
+  documentId: DocumentId,
+  userId: UserId
+) =>
+  pipe(
+    Effect.all({
+      document: loadEntity(
+        deps.documentRepo.findById(documentId),
+        "Document",
+        documentId
+      ),
+      user: loadEntity(deps.userRepo.findById(userId), "User", userId),
+      permissions: deps.permissionRepo.findByDocument(documentId),
+      groupIds: deps.groupRepo.findGroupIdsByMember(userId),
+    }),
+    Effect.flatMap(({ document, user, permissions, groupIds }) =>
+      pipe(
+        requireWritePermission(user, document, permissions, groupIds),
+        Effect.as(document)
+      )
+    )
+  );
+
+/**
+ * Issue an upload ticket for a new version of a document
+ * Requires write permission on the document
+ */
+export const issueUploadTicket =
+  (deps: UploadTicketWorkflowDeps) =>
+  (
+    input: IssueUploadTicketInput,
+    baseUrl: string
+  ): Effect.Effect<
+    UploadTicketResponse,
+    NotFoundError | InsufficientPermissionError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(UploadTicketDTOs.IssueUploadTicketCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for issueUploadTicket: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        pipe(
+          loadWritableDocument(deps, command.documentId, command.userId),
+          Effect.flatMap(() =>
+            UploadTicketEntity.create({
+              id: UuidGenerators.uploadTicketId(),
+              documentId: command.documentId,
+              versionId: UuidGenerators.documentVersionId(),
+              token: TokenHelpers.generate(),
+              maxSize: command.maxSize,
+              mimeType: command.mimeType,
+              expiresAt: new Date(
+                Date.now() + (command.ttlMs ?? DEFAULT_UPLOAD_TICKET_TTL_MS)
+              ),
+              createdBy: command.userId,
+            })
+          ),
+          Effect.flatMap((ticket) => deps.ticketRepo.save(ticket)),
+          Effect.tap((ticket) =>
+            deps.auditService.record({
+              action: "upload_ticket_issued",
+              performedBy: command.userId,
+              documentId: ticket.documentId,
+              details: `Upload ticket issued for version ${ticket.versionId}, expires at ${ticket.expiresAt.toISOString()}`,
+              after: {
+                ticketId: ticket.id,
+                versionId: ticket.versionId,
+                expiresAt: ticket.expiresAt,
+              },
+            })
+          ),
+          Effect.flatMap((ticket) =>
+            pipe(
+              loadTicketSecret,
+              Effect.map((secret) =>
+                UploadTicketResponseMapper.toUploadTicketResponse(
+                  ticket,
+                  signUploadTicket(secret, ticket.claims()),
+                  baseUrl
+                )
+              )
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Upload a file with a ticket and register it as the ticket's version
+ * The ticket is consumed before the file is stored, so concurrent uploads
+ * cannot write the same version. Checks that need the content (duplicate
+ * content) run after storage and remove the file when they fail; a failed
+ * upload needs a new ticket.
+ */
+export const redeemUploadTicket =
+  (deps: UploadTicketWorkflowDeps) =>
+  (
+    input: RedeemUploadTicketInput
+  ): Effect.Effect<UploadDocumentResponse, Error> =>
+    pipe(
+      S.decodeUnknown(UploadTicketDTOs.RedeemUploadTicketCommand)(input),
+      Effect.mapError(
+        (e) => new Error(`Invalid input for redeemUploadTicket: ${e}`)
+      ),
+      Effect.flatMap((command) =>
+        pipe(
+          Effect.fromNullable(parseUploadTicket(command.ticket)),
+          Effect.mapError(invalidTicketError),
+          Effect.flatMap(({ token, signature }) =>
+            pipe(
+              deps.ticketRepo.findByToken(TokenHelpers.fromString(token)),
+              Effect.flatMap(
+                Option.match({
+                  // Unknown and malformed tickets look the same to callers
+                  onNone: () => Effect.fail(invalidTicketError()),
+                  onSome: (ticket) => Effect.succeed({ ticket, signature }),
+                })
+              )
+            )
+          ),
+          Effect.tap(({ ticket, signature }) =>
+            pipe(
+              loadTicketSecret,
+              Effect.flatMap((secret) =>
+                guardUploadTicketSignature(ticket, secret, signature, {
+                  documentId: command.documentId,
+                  versionId: command.versionId,
+                })
+              )
+            )
+          ),
+          Effect.map(({ ticket }) => ticket),
+          Effect.tap((ticket) => guardUploadTicketNotExpired(ticket)),
+          Effect.tap((ticket) => guardUploadTicketNotUsed(ticket)),
+          Effect.tap((ticket) =>
+            guardUploadMatchesTicket(ticket, command.file)
+          ),
+          // The issuer must still be allowed to write to the document
+          Effect.flatMap((ticket) =>
+            pipe(
+              loadWritableDocument(deps, ticket.documentId, ticket.createdBy),
+              Effect.map((document) => ({ ticket, document }))
+            )
+          ),
+          Effect.flatMap(({ ticket, document }) =>
+            pipe(
+              deps.ticketRepo.markAsUsed(ticket),
+              // The stream is cut off at the ticket's limit, not the global one
+              Effect.flatMap(() =>
+                deps.storageService.storeUploadedFile(
+                  command.file,
+                  ticket.documentId,
+                  ticket.versionId,
+                  ticket.maxSize
+                )
+              ),
+              Effect.map((storedFile) => ({ ticket, document, storedFile }))
+            )
+          ),
+          Effect.flatMap(({ ticket, document, storedFile }) =>
+            pipe(
+              DocumentDomainServiceLive.validateNoDuplicateContent(
+                document.versions,
+                ValueObjectHelpers.checksum(storedFile.checksum)
+              ),
+              Effect.flatMap(() =>
+                deps.documentRepo.save(
+                  document.addVersion({
+                    id: ticket.versionId,
+                    filename: ValueObjectHelpers.filename(storedFile.filename),
+                    originalName: ValueObjectHelpers.filename(
+                      storedFile.originalName
+                    ),
+                    mimeType: ticket.mimeType,
+                    size: ValueObjectHelpers.fileSize(storedFile.size),
+                    uploadedBy: ticket.createdBy,
+                    path: ValueObjectHelpers.filePath(storedFile.path),
+                    contentRef: ValueObjectHelpers.contentRef(storedFile.path),
+                    checksum: ValueObjectHelpers.checksum(storedFile.checksum),
+                  })
+                )
+              ),
+              // No version points to the file until the save succeeds
+              Effect.tapError(() =>
+                pipe(
+                  deps.storageService.deleteFile(storedFile.path),
+                  Effect.catchAll(() => Effect.void)
+                )
+              ),
+              Effect.map((savedDocument) => ({
+                ticket,
+                savedDocument,
+                storedFile,
+              }))
+            )
+          ),
+          // Index extracted text so the content becomes searchable; the
+          // version is saved by now, so a failure only skips indexing
+          Effect.tap(({ storedFile }) =>
+            storedFile.textContent
+              ? pipe(
+                  deps.documentRepo.indexContent(
+                    ValueObjectHelpers.checksum(storedFile.checksum),
+                    storedFile.textContent
+                  ),
+                  Effect.catchAll((error) =>
+                    Effect.logWarning(
+                      `Failed to index uploaded content: ${error}`
+                    )
+                  )
+                )
+              : Effect.void
+          ),
+          Effect.flatMap(({ ticket, savedDocument }) =>
+            pipe(
+              Effect.fromNullable(
+                savedDocument.versions.find(
+                  (version) => version.id === ticket.versionId
+                )
+              ),
+              Effect.mapError(
+                () =>
+                  new NotFoundError({
+                    entityType: "DocumentVersion",
+                    id: ticket.versionId,
+                  })
+              ),
+              Effect.tap((version) =>
+                deps.auditService.record({
+                  action: "new_version",
+                  performedBy: ticket.createdBy,
+                  documentId: savedDocument.id,
+                  details: `Version ${version.versionNumber} uploaded with an upload ticket`,
+                  after: {
+                    versionNumber: version.versionNumber,
+                    filename: version.filename,
+                    mimeType: version.mimeType,
+                    size: version.size,
+                  },
+                })
+              ),
+              Effect.map((version) => ({
+                documentId: savedDocument.id,
+                versionId: version.id,
+                document:
+                  DocumentResponseMapper.toDocumentResponse(savedDocument),
+                version: DocumentResponseMapper.toVersionResponse(version),
+              }))
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Delete expired upload tickets
+ * Runs without a user context so it can be scheduled
+ */
+export const purgeExpiredUploadTickets =
+  (deps: UploadTicketWorkflowDeps) =>
+  (): Effect.Effect<CleanupUploadTicketsResponse, Error> =>
+    pipe(
+      deps.ticketRepo.deleteExpired(),
+      Effect.map(UploadTicketResponseMapper.toCleanupUploadTicketsResponse),
+      Effect.mapError((e) => (e instanceof Error ? e : new Error(String(e))))
+    );
@@ -7,45 +7,143 @@
  * Workflows accept raw Input types and transform them into branded Command/Query types.
  */
 
-import { Effect, Option, pipe, Schema as S } from "effect";
+import { Config, Effect, Option, pipe, Schema as S } from "effect";
 import { v4 as uuidv4 } from "uuid";
-import type { UserRepository } from "../../domain/user/repository";
+import type {
+  UserRepository,
+  DocumentDisposition,
+} from "../../domain/user/repository";
 import { UserEntity as User } from "../../domain/user/entity";
 import {
   UserNotFoundError,
   UserAlreadyExistsError,
+  UserValidationError,
+  UserHasDocumentsError,
+  type UserSuspendedError,
+  type UserDomainError,
 } from "../../domain/user/errors";
+import { guardUserActive } from "../../domain/user/guards";
+import type { SessionRepository } from "../../domain/session/repository";
+import { SessionEntity } from "../../domain/session/entity";
+import {
+  InvalidRefreshTokenError,
+  type SessionDomainError,
+} from "../../domain/session/errors";
+import { guardSessionActive } from "../../domain/session/guards";
+import {
+  DEFAULT_REFRESH_TOKEN_TTL_DAYS,
+  formatRefreshToken,
+  generateRefreshSecret,
+  hashRefreshSecret,
+  parseRefreshToken,
+  refreshSecretMatches,
+} from "../../domain/session/value-object";
+import type { MfaRepository } from "../../domain/mfa/repository";
+import {
+  MfaChallengeEntity,
+  MfaEnrollmentEntity,
+} from "../../domain/mfa/entity";
+import {
+  MfaAlreadyEnabledError,
+  MfaChallengeInvalidError,
+  MfaNotEnabledError,
+  InvalidMfaCodeError,
+  type MfaDomainError,
+} from "../../domain/mfa/errors";
+import { guardMfaChallengeUsable } from "../../domain/mfa/guards";
+import {
+  MFA_CHALLENGE_TTL_MINUTES,
+  generateMfaChallengeToken,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashMfaChallengeToken,
+  hashRecoveryCode,
+} from "../../domain/mfa/value-object";
+import type { LoginThrottleRepository } from "../../domain/login-throttle/repository";
+import { LoginThrottleEntity } from "../../domain/login-throttle/entity";
+import type { LoginThrottleDomainError } from "../../domain/login-throttle/errors";
+import { guardLoginAllowed } from "../../domain/login-throttle/guards";
+import {
+  accountThrottleKey,
+  type LoginThrottleScope,
+} from "../../domain/login-throttle/value-object";
+import type { AccountTokenRepository } from "../../domain/account-token/repository";
+import { AccountTokenEntity } from "../../domain/account-token/entity";
+import { AccountTokenInvalidError } from "../../domain/account-token/errors";
+import { guardAccountTokenUsable } from "../../domain/account-token/guards";
+import {
+  ACCOUNT_TOKEN_TTL_MINUTES,
+  accountTokenExpiry,
+  generateAccountToken,
+  hashAccountToken,
+  type AccountTokenPurpose,
+} from "../../domain/account-token/value-object";
 import { NotFoundError, ForbiddenError } from "../../domain/shared/base.errors";
 import { InvalidCredentialsError } from "../utils/errors";
 import type { PasswordHasherPort } from "../ports/password-hasher.port";
 import type { JwtPort } from "../ports/jwt.port";
-import { makePassword, HashedPassword } from "../../domain/refined/password";
+import type { AuditPort } from "../ports/audit.port";
+import type { MailerPort, MailMessage } from "../ports/mailer.port";
+import {
+  makePassword,
+  HashedPassword,
+  type Password,
+} from "../../domain/refined/password";
 import { loadEntity } from "../utils/effect-helpers";
-import { UuidGenerators } from "../../domain/refined/uuid";
+import { UuidGenerators, makeSessionId } from "../../domain/refined/uuid";
+import { makeEmailAddress } from "../../domain/refined/email";
+import { FolderHelpers } from "../../domain/folder/value-object";
 import type {
   RegisterUserInput,
   RegisterUserCommand,
   LoginUserInput,
   LoginUserCommand,
+  VerifyMfaLoginInput,
+  EnrollMfaLoginInput,
+  RefreshSessionInput,
+  LogoutInput,
   UpdateUserProfileInput,
   UpdateUserProfileCommand,
+  ChangePasswordInput,
   GetUserInput,
   GetUserQuery,
   ListUsersInput,
   ListUsersQuery,
   DeleteUserInput,
   DeleteUserCommand,
+  UnlockUserInput,
+  UpdateUserRoleInput,
+  SuspendUserInput,
+  ReactivateUserInput,
+  ForcePasswordResetInput,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+  VerifyEmailInput,
+  ResendVerificationInput,
 } from "../dtos/user/request.dto";
 import * as UserDTOs from "../dtos/user/request.dto";
 import type {
   UserResponse,
   LoginResponse,
+  MfaChallengeResponse,
+  RefreshSessionResponse,
+  LogoutResponse,
   RegisterResponse,
   ListUsersResponse,
+  DeleteUserResponse,
+  AccountMailResponse,
+  ResetPasswordResponse,
+  ChangePasswordResponse,
+  ForcePasswordResetResponse,
 } from "../dtos/user/response.dto";
+import type { MfaEnrollmentResponse } from "../dtos/mfa/response.dto";
 import * as UserResponseDTOs from "../dtos/user/response.dto";
 import type { UserId } from "../../domain/refined/uuid";
-import { UserResponseMapper } from "../mappers/user.mapper";
+import {
+  UserResponseMapper,
+  type SessionTokens,
+} from "../mappers/user.mapper";
+import { MfaResponseMapper } from "../mappers/mfa.mapper";
 
 // Re-export WorkflowTag from bootstrap for route compatibility
 export { UserWorkflowTag } from "../../bootstrap";
@@ -55,12 +153,174 @@ export { UserWorkflowTag } from "../../bootstrap";
  */
 export interface UserWorkflowDeps {
   readonly userRepo: UserRepository;
+  readonly sessionRepo: SessionRepository;
+  readonly mfaRepo: MfaRepository;
+  readonly loginThrottleRepo: LoginThrottleRepository;
+  readonly accountTokenRepo: AccountTokenRepository;
   readonly passwordHasher: PasswordHasherPort;
   readonly jwtService: JwtPort;
+  readonly auditService: AuditPort;
+  readonly mailer: MailerPort;
 }
 
+/**
+ * Public URL of the web app, the base of links sent by mail
+ * Configured rather than taken from the request, whose Host header the
+ * client controls
+ */
+const APP_URL = Config.string("APP_URL").pipe(
+  Config.withDefault("http://localhost:3000")
+);
+
+/**
+ * Mail carrying a single-use link for the purpose
+ * forced marks a password reset an administrator started
+ */
+const accountTokenMail = (
+  purpose: AccountTokenPurpose,
+  to: string,
+  appUrl: string,
+  token: string,
+  forced: boolean
+): MailMessage => {
+  const hours = ACCOUNT_TOKEN_TTL_MINUTES[purpose] / 60;
+  const validFor = hours === 1 ? "1 hour" : `${hours} hours`;
+  const base = appUrl.replace(/\/+$/, "");
+  switch (purpose) {
+    case "PASSWORD_RESET":
+      return forced
+        ? {
+            to,
+            subject: "Choose a new password",
+            text: [
+              "An administrator reset the password of your account and",
+              "signed you out everywhere.",
+              `To choose a new password, open this link within ${validFor}:`,
+              "",
+              `${base}/reset-password?token=${token}`,
+              "",
+              "Once it expires, use the forgotten password page instead.",
+            ].join("\n"),
+          }
+        : {
+            to,
+            subject: "Reset your password",
+            text: [
+              "Someone asked to reset the password of your account.",
+              `To choose a new password, open this link within ${validFor}:`,
+              "",
+              `${base}/reset-password?token=${token}`,
+              "",
+              "If it was not you, ignore this email; your password is unchanged.",
+            ].join("\n"),
+          };
+    case "EMAIL_VERIFICATION":
+      return {
+        to,
+        subject: "Verify your email address",
+        text: [
+          "Confirm that this is your email address by opening this link",
+          `within ${validFor}:`,
+          "",
+          `${base}/verify-email?token=${token}`,
+          "",
+          "Until then you cannot share documents.",
+        ].join("\n"),
+      };
+  }
+};
+
+/**
+ * Issue a single-use token for the user and mail a link carrying it
+ * Earlier unused tokens of the same purpose stop working
+ */
+const mailAccountToken = (
+  deps: UserWorkflowDeps,
+  user: User,
+  purpose: AccountTokenPurpose,
+  forced = false
+) => {
+  const token = generateAccountToken();
+  const issuedAt = new Date();
+  return pipe(
+    deps.accountTokenRepo.invalidateForUser(user.id, purpose),
+    Effect.flatMap(() =>
+      deps.accountTokenRepo.save(
+        AccountTokenEntity.create({
+          id: UuidGenerators.accountTokenId(),
+          userId: user.id,
+          purpose,
+          tokenHash: hashAccountToken(token),
+          expiresAt: accountTokenExpiry(purpose, issuedAt),
+          createdAt: issuedAt,
+        })
+      )
+    ),
+    Effect.zipRight(
+      Effect.mapError(
+        APP_URL,
+        (e) => new Error(`Invalid APP_URL configuration: ${e}`)
+      )
+    ),
+    Effect.flatMap((appUrl) =>
+      deps.mailer.send(
+        accountTokenMail(purpose, user.email, appUrl, token, forced)
+      )
+    )
+  );
+};
+
+/**
+ * Mail a verification link without failing the surrounding request when
+ * the mail cannot be sent; the user can ask for another link
+ */
+const sendEmailVerification = (deps: UserWorkflowDeps, user: User) =>
+  pipe(
+    mailAccountToken(deps, user, "EMAIL_VERIFICATION"),
+    Effect.catchAll((error) =>
+      Effect.logWarning(
+        `Could not send email verification to user ${user.id}: ${error}`
+      )
+    )
+  );
+
+const invalidAccountToken = () =>
+  new AccountTokenInvalidError({ message: "Link is invalid or has expired" });
+
+/**
+ * Load a usable token for the purpose and the user it was issued to
+ */
+const loadAccountToken = (
+  deps: UserWorkflowDeps,
+  token: string,
+  purpose: AccountTokenPurpose
+) =>
+  pipe(
+    deps.accountTokenRepo.findByHash(hashAccountToken(token)),
+    Effect.flatMap(
+      Option.match({
+        onNone: () => Effect.fail(invalidAccountToken()),
+        onSome: (accountToken) => Effect.succeed(accountToken),
+      })
+    ),
+    Effect.tap((accountToken) =>
+      guardAccountTokenUsable(accountToken, purpose)
+    ),
+    Effect.flatMap((accountToken) =>
+      pipe(
+        loadEntity(
+          deps.userRepo.findById(accountToken.userId),
+          "User",
+          accountToken.userId
+        ),
+        Effect.map((user) => ({ accountToken, user }))
+      )
+    )
+  );
+
 /**
  * Register a new user
+ * The account starts unverified; a verification link is mailed to it
  * Accepts raw input and transforms to branded types
  */
 export const registerUser =
@@ -103,6 +363,7 @@ export const registerUser =
               Effect.flatMap((newUser) => deps.userRepo.save(newUser))
             );
           }),
+          Effect.tap((user) => sendEmailVerification(deps, user)),
           Effect.mapError((e) =>
             e instanceof Error ? e : new Error(String(e))
           ),
@@ -111,22 +372,405 @@ export const registerUser =
       )
     );
 
+/**
+ * Lifetime of refresh tokens in days, configurable through the environment
+ */
+const REFRESH_TOKEN_TTL_DAYS = Config.integer("REFRESH_TOKEN_TTL_DAYS").pipe(
+  Config.withDefault(DEFAULT_REFRESH_TOKEN_TTL_DAYS)
+);
+
+/**
+ * Expiry of a refresh token issued now
+ */
+const refreshTokenExpiry = pipe(
+  REFRESH_TOKEN_TTL_DAYS,
+  Effect.mapError(
+    (e) => new Error(`Invalid REFRESH_TOKEN_TTL_DAYS configuration: ${e}`)
+  ),
+  Effect.map((days) => new Date(Date.now() + days * 24 * 60 * 60 * 1000))
+);
+
+/**
+ * Sign an access token for the session and pair it with the refresh token
+ */
+const issueSessionTokens = (
+  deps: UserWorkflowDeps,
+  user: User,
+  session: SessionEntity,
+  secret: string
+): Effect.Effect<SessionTokens, Error> =>
+  pipe(
+    deps.jwtService.sign({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sessionId: session.id,
+    }),
+    Effect.map(({ token, expiresIn }) => ({
+      token,
+      expiresIn,
+      refreshToken: formatRefreshToken(session.id, secret),
+      refreshExpiresAt: session.expiresAt,
+    }))
+  );
+
+/**
+ * Open a new session for the user; suspended users get none
+ */
+const startSession = (deps: UserWorkflowDeps, user: User) =>
+  pipe(
+    guardUserActive(user),
+    Effect.zipRight(refreshTokenExpiry),
+    Effect.flatMap((expiresAt) => {
+      const secret = generateRefreshSecret();
+      return pipe(
+        deps.sessionRepo.save(
+          SessionEntity.create({
+            id: UuidGenerators.sessionId(),
+            userId: user.id,
+            refreshTokenHash: hashRefreshSecret(secret),
+            expiresAt,
+          })
+        ),
+        Effect.flatMap((session) =>
+          issueSessionTokens(deps, user, session, secret)
+        )
+      );
+    })
+  );
+
+const invalidRefreshToken = () =>
+  new InvalidRefreshTokenError({ message: "Invalid refresh token" });
+
+/**
+ * Load the session a presented refresh token belongs to
+ */
+const loadRefreshSession = (deps: UserWorkflowDeps, refreshToken: string) =>
+  pipe(
+    Effect.fromNullable(parseRefreshToken(refreshToken)),
+    Effect.mapError(invalidRefreshToken),
+    Effect.flatMap(({ sessionId, secret }) =>
+      pipe(
+        makeSessionId(sessionId),
+        Effect.mapError(invalidRefreshToken),
+        Effect.flatMap((id) => deps.sessionRepo.findById(id)),
+        Effect.flatMap(
+          Option.match({
+            onNone: () => Effect.fail(invalidRefreshToken()),
+            onSome: (session) => Effect.succeed({ session, secret }),
+          })
+        )
+      )
+    )
+  );
+
+/**
+ * Open a session and record the login
+ */
+const completeLogin = (
+  deps: UserWorkflowDeps,
+  user: User,
+  recoveryCodes?: readonly string[]
+) =>
+  pipe(
+    startSession(deps, user),
+    Effect.tap(() =>
+      deps.auditService.record({
+        action: "user_logged_in",
+        performedBy: user.id,
+      })
+    ),
+    Effect.map((tokens) =>
+      UserResponseMapper.toLoginResponse(user, tokens, recoveryCodes)
+    )
+  );
+
+/**
+ * Whether the user's role must use MFA
+ */
+const isMfaRequired = (deps: UserWorkflowDeps, user: User) =>
+  Effect.map(deps.mfaRepo.findRequiredRoles(), (roles) =>
+    roles.includes(user.role)
+  );
+
+/**
+ * Issue the challenge a login continues with once the password checks out
+ */
+const issueMfaChallenge = (
+  deps: UserWorkflowDeps,
+  user: User,
+  enrollmentRequired: boolean
+) => {
+  const challengeToken = generateMfaChallengeToken();
+  return pipe(
+    deps.mfaRepo.saveChallenge(
+      MfaChallengeEntity.create({
+        id: UuidGenerators.mfaChallengeId(),
+        userId: user.id,
+        tokenHash: hashMfaChallengeToken(challengeToken),
+        expiresAt: new Date(Date.now() + MFA_CHALLENGE_TTL_MINUTES * 60 * 1000),
+      })
+    ),
+    Effect.map((challenge) =>
+      UserResponseMapper.toMfaChallengeResponse(
+        challenge,
+        challengeToken,
+        enrollmentRequired
+      )
+    )
+  );
+};
+
+/**
+ * Finish a login whose password checked out: users with MFA enabled, or
+ * whose role requires it, get a challenge instead of tokens
+ * Suspension is only revealed once the password checked out
+ */
+const continueLogin = (
+  deps: UserWorkflowDeps,
+  user: User
+): Effect.Effect<
+  LoginResponse | MfaChallengeResponse,
+  MfaDomainError | SessionDomainError | UserSuspendedError | Error
+> =>
+  pipe(
+    guardUserActive(user),
+    Effect.zipRight(
+      Effect.all({
+        enrollment: deps.mfaRepo.findEnrollment(user.id),
+        required: isMfaRequired(deps, user),
+      })
+    ),
+    Effect.flatMap(({ enrollment, required }) => {
+      const enabled = Option.exists(enrollment, (e) => e.isConfirmed());
+      return enabled || required
+        ? Effect.map(
+            issueMfaChallenge(deps, user, !enabled),
+            (challenge): LoginResponse | MfaChallengeResponse => challenge
+          )
+        : completeLogin(deps, user);
+    })
+  );
+
+const invalidMfaChallenge = () =>
+  new MfaChallengeInvalidError({
+    message: "Login challenge is no longer valid; sign in again",
+  });
+
+/**
+ * Load a usable challenge and the user it was issued to
+ */
+const loadMfaChallenge = (deps: UserWorkflowDeps, challengeToken: string) =>
+  pipe(
+    deps.mfaRepo.findChallengeByHash(hashMfaChallengeToken(challengeToken)),
+    Effect.flatMap(
+      Option.match({
+        onNone: () => Effect.fail(invalidMfaChallenge()),
+        onSome: (challenge) => Effect.succeed(challenge),
+      })
+    ),
+    Effect.tap(guardMfaChallengeUsable),
+    Effect.flatMap((challenge) =>
+      pipe(
+        loadEntity(
+          deps.userRepo.findById(challenge.userId),
+          "User",
+          challenge.userId
+        ),
+        Effect.map((user) => ({ challenge, user }))
+      )
+    )
+  );
+
+/**
+ * Outcome of checking a login code
+ */
+interface MfaLoginCheck {
+  readonly enrollment: MfaEnrollmentEntity;
+  readonly usedRecoveryCode: boolean;
+  readonly recoveryCodes?: readonly string[];
+}
+
+/**
+ * Check a login code against the enrollment
+ * A pending enrollment is confirmed by a TOTP code, which issues its
+ * recovery codes
+ */
+const verifyEnrollmentCode = (
+  enrollment: MfaEnrollmentEntity,
+  code: string
+): Effect.Effect<MfaLoginCheck, InvalidMfaCodeError> => {
+  if (enrollment.isConfirmed()) {
+    return enrollment.verify(code);
+  }
+  const recoveryCodes = generateRecoveryCodes();
+  return Effect.map(
+    enrollment.confirm(code, recoveryCodes.map(hashRecoveryCode)),
+    (confirmed) => ({
+      enrollment: confirmed,
+      usedRecoveryCode: false,
+      recoveryCodes,
+    })
+  );
+};
+
+/**
+ * What failed password attempts are counted by; besides logins, password
+ * changes are throttled alike
+ */
+type LoginAttempt = Pick<LoginUserCommand, "email" | "ipAddress">;
+
+/**
+ * Failure counters a login attempt is checked against: the account, and the
+ * client IP when it is known
+ */
+const loginThrottleKeys = (
+  command: LoginAttempt
+): ReadonlyArray<readonly [LoginThrottleScope, string]> => [
+  ["ACCOUNT", accountThrottleKey(command.email)],
+  ...(command.ipAddress ? [["IP", command.ipAddress] as const] : []),
+];
+
+/**
+ * Refuse the attempt while the account or the client IP is blocked
+ * Checked before the password so a blocked attacker learns nothing
+ */
+const guardLoginThrottles = (
+  deps: UserWorkflowDeps,
+  command: LoginAttempt
+) =>
+  Effect.forEach(
+    loginThrottleKeys(command),
+    ([scope, key]) =>
+      pipe(
+        deps.loginThrottleRepo.find(scope, key),
+        Effect.flatMap(
+          Option.match({
+            onNone: () => Effect.void,
+            onSome: (throttle) => guardLoginAllowed(throttle),
+          })
+        )
+      ),
+    { discard: true }
+  );
+
+/**
+ * Count a failed login against the account and the client IP
+ * Locking the account of an existing user is audited
+ */
+const recordLoginFailure = (
+  deps: UserWorkflowDeps,
+  command: LoginAttempt
+) =>
+  Effect.forEach(
+    loginThrottleKeys(command),
+    ([scope, key]) =>
+      pipe(
+        deps.loginThrottleRepo.find(scope, key),
+        Effect.map(
+          Option.getOrElse(() => LoginThrottleEntity.create({ scope, key }))
+        ),
+        Effect.flatMap((before) =>
+          pipe(
+            deps.loginThrottleRepo.save(before.recordFailure()),
+            Effect.tap((after) =>
+              after.isLocked() && !before.isLocked()
+                ? auditAccountLocked(deps, command, after)
+                : Effect.void
+            )
+          )
+        )
+      ),
+    { discard: true }
+  );
+
+/**
+ * Audit a lockout, unless the email tried belongs to no user
+ */
+const auditAccountLocked = (
+  deps: UserWorkflowDeps,
+  command: LoginAttempt,
+  throttle: LoginThrottleEntity
+) =>
+  pipe(
+    deps.userRepo.findByEmail(command.email),
+    Effect.flatMap(
+      Option.match({
+        onNone: () => Effect.void,
+        onSome: (user) =>
+          deps.auditService.record({
+            action: "account_locked",
+            performedBy: user.id,
+            details: `Locked after ${throttle.failures} failed logins`,
+            after: {
+              lockedUntil: Option.getOrNull(throttle.blockedUntil),
+            },
+          }),
+      })
+    )
+  );
+
+/**
+ * Check the current password of a signed-in user before a sensitive change
+ * Throttled and counted like a login, so a stolen token cannot be used to
+ * guess the password
+ */
+const verifyCurrentPassword = (
+  deps: UserWorkflowDeps,
+  user: User,
+  currentPassword: string,
+  ipAddress: string | undefined
+) => {
+  const attempt = { email: user.email, ipAddress };
+  return pipe(
+    guardLoginThrottles(deps, attempt),
+    // The current password may predate the password policy
+    Effect.zipRight(
+      deps.passwordHasher.verify(currentPassword as Password, user.password)
+    ),
+    Effect.flatMap((isValid) =>
+      isValid
+        ? Effect.void
+        : pipe(
+            recordLoginFailure(deps, attempt),
+            Effect.zipRight(
+              Effect.fail(
+                new InvalidCredentialsError({
+                  message: "Current password is incorrect",
+                })
+              )
+            )
+          )
+    )
+  );
+};
+
 /**
  * Login user and generate authentication token
+ * Failed attempts are counted per account and per client IP; past a few,
+ * further attempts are refused for a growing time and the account is
+ * eventually locked.
  * Accepts raw input and transforms to branded types
  */
 export const loginUser =
   (deps: UserWorkflowDeps) =>
   (
     input: LoginUserInput
-  ): Effect.Effect<LoginResponse, InvalidCredentialsError | Error> =>
+  ): Effect.Effect<
+    LoginResponse | MfaChallengeResponse,
+    | InvalidCredentialsError
+    | MfaDomainError
+    | LoginThrottleDomainError
+    | Error
+  > =>
     pipe(
       // Transform raw input to branded command
       S.decodeUnknown(UserDTOs.LoginUserCommand)(input),
       Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
       Effect.flatMap((command) =>
         pipe(
-          deps.userRepo.findByEmail(command.email),
+          guardLoginThrottles(deps, command),
+          Effect.zipRight(deps.userRepo.findByEmail(command.email)),
           Effect.flatMap(
             Option.match({
               onNone: () =>
@@ -147,38 +791,321 @@ export const loginUser =
               Effect.flatMap((isValid) =>
                 isValid
                   ? Effect.succeed(user)
-                  : Effect.fail(
-                      new InvalidCredentialsError({
-                        message: "Invalid email or password",
-                      })
+                  : pipe(
+                      deps.auditService.record({
+                        action: "login_failed",
+                        performedBy: user.id,
+                        details: "Wrong password",
+                      }),
+                      Effect.zipRight(
+                        Effect.fail(
+                          new InvalidCredentialsError({
+                            message: "Invalid email or password",
+                          })
+                        )
+                      )
                     )
               )
             )
           ),
-          Effect.flatMap((user) =>
+          Effect.tapError((e) =>
+            e instanceof InvalidCredentialsError
+              ? recordLoginFailure(deps, command)
+              : Effect.void
+          ),
+          Effect.flatMap((user) => continueLogin(deps, user)),
+          // With MFA the account stays throttled until the second factor
+          Effect.tap((response) =>
+            "mfaRequired" in response
+              ? Effect.void
+              : deps.loginThrottleRepo.clear(
+                  "ACCOUNT",
+                  accountThrottleKey(command.email)
+                )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Complete an MFA login with a TOTP code or a recovery code
+ * A pending enrollment (MFA required by role) is confirmed by the code, and
+ * the recovery codes are returned with the tokens.
+ * Wrong codes count as failed logins, so guessing codes across fresh
+ * challenges eventually locks the account like guessing passwords does.
+ */
+export const verifyMfaLogin =
+  (deps: UserWorkflowDeps) =>
+  (
+    input: VerifyMfaLoginInput
+  ): Effect.Effect<
+    LoginResponse,
+    MfaDomainError | LoginThrottleDomainError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(UserDTOs.VerifyMfaLoginCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadMfaChallenge(deps, command.challengeToken),
+          Effect.tap(({ user }) =>
+            guardLoginThrottles(deps, {
+              email: user.email,
+              ipAddress: command.ipAddress,
+            })
+          ),
+          Effect.flatMap(({ challenge, user }) =>
             pipe(
-              deps.jwtService.sign({
-                userId: user.id,
-                email: user.email,
-                role: user.role,
-              }),
-              Effect.map(({ token, expiresIn }) => ({
-                user,
-                token,
-                expiresIn,
-              }))
+              deps.mfaRepo.findEnrollment(user.id),
+              Effect.flatMap(
+                (found): Effect.Effect<MfaLoginCheck, MfaDomainError> =>
+                  Option.match(found, {
+                    onNone: () =>
+                      Effect.fail(
+                        new MfaNotEnabledError({
+                          userId: user.id,
+                          message:
+                            "Enroll an authenticator before completing the login",
+                        })
+                      ),
+                    onSome: (enrollment) =>
+                      verifyEnrollmentCode(enrollment, command.code),
+                  })
+              ),
+              Effect.tapError(() =>
+                pipe(
+                  deps.mfaRepo.recordChallengeFailure(challenge.id),
+                  Effect.zipRight(
+                    recordLoginFailure(deps, {
+                      email: user.email,
+                      ipAddress: command.ipAddress,
+                    })
+                  ),
+                  Effect.zipRight(
+                    deps.auditService.record({
+                      action: "mfa_failed",
+                      performedBy: user.id,
+                    })
+                  ),
+                  Effect.ignore
+                )
+              ),
+              Effect.tap(() => deps.mfaRepo.consumeChallenge(challenge.id)),
+              Effect.tap(() =>
+                deps.loginThrottleRepo.clear(
+                  "ACCOUNT",
+                  accountThrottleKey(user.email)
+                )
+              ),
+              Effect.tap(({ enrollment }) =>
+                deps.mfaRepo.saveEnrollment(enrollment)
+              ),
+              Effect.tap(({ recoveryCodes, usedRecoveryCode }) =>
+                recoveryCodes
+                  ? deps.auditService.record({
+                      action: "mfa_enabled",
+                      performedBy: user.id,
+                    })
+                  : usedRecoveryCode
+                    ? deps.auditService.record({
+                        action: "mfa_recovery_code_used",
+                        performedBy: user.id,
+                      })
+                    : Effect.void
+              ),
+              Effect.flatMap(({ recoveryCodes }) =>
+                completeLogin(deps, user, recoveryCodes)
+              )
             )
           ),
           Effect.mapError((e) =>
             e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Start enrolling an authenticator from a login challenge
+ * For users whose role requires MFA but who have not enabled it; the login
+ * is then completed with verifyMfaLogin and a code from the authenticator.
+ */
+export const enrollMfaLogin =
+  (deps: UserWorkflowDeps) =>
+  (
+    input: EnrollMfaLoginInput
+  ): Effect.Effect<MfaEnrollmentResponse, MfaDomainError | Error> =>
+    pipe(
+      S.decodeUnknown(UserDTOs.EnrollMfaLoginCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadMfaChallenge(deps, command.challengeToken),
+          Effect.flatMap(({ user }) =>
+            pipe(
+              deps.mfaRepo.findEnrollment(user.id),
+              Effect.filterOrFail(
+                (enrollment) =>
+                  !Option.exists(enrollment, (e) => e.isConfirmed()),
+                () =>
+                  new MfaAlreadyEnabledError({
+                    userId: user.id,
+                    message: "Two-factor authentication is already enabled",
+                  })
+              ),
+              Effect.flatMap(() =>
+                deps.mfaRepo.saveEnrollment(
+                  MfaEnrollmentEntity.create({
+                    userId: user.id,
+                    secret: generateTotpSecret(),
+                  })
+                )
+              ),
+              Effect.map((enrollment) =>
+                MfaResponseMapper.toMfaEnrollmentResponse(
+                  enrollment,
+                  user.email
+                )
+              )
+            )
           ),
-          Effect.map(({ user, token, expiresIn }) =>
-            UserResponseMapper.toLoginResponse(user, token, expiresIn)
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
           )
         )
       )
     );
 
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ * Each refresh token works once. Presenting one that was already exchanged
+ * means it leaked, so the whole session is revoked.
+ */
+export const refreshSession =
+  (deps: UserWorkflowDeps) =>
+  (
+    input: RefreshSessionInput
+  ): Effect.Effect<RefreshSessionResponse, SessionDomainError | Error> =>
+    pipe(
+      S.decodeUnknown(UserDTOs.RefreshSessionCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadRefreshSession(deps, command.refreshToken),
+          Effect.tap(({ session }) => guardSessionActive(session)),
+          Effect.tap(({ session, secret }) =>
+            refreshSecretMatches(session.refreshTokenHash, secret)
+              ? Effect.void
+              : pipe(
+                  deps.sessionRepo.revoke(session.id),
+                  Effect.zipRight(
+                    deps.auditService.record({
+                      action: "refresh_token_reused",
+                      performedBy: session.userId,
+                      details: `Session ${session.id} revoked`,
+                    })
+                  ),
+                  Effect.zipRight(
+                    Effect.fail(
+                      new InvalidRefreshTokenError({
+                        message:
+                          "Refresh token has already been used; the session has been revoked",
+                      })
+                    )
+                  )
+                )
+          ),
+          Effect.flatMap(({ session }) =>
+            pipe(
+              Effect.all({
+                user: loadEntity(
+                  deps.userRepo.findById(session.userId),
+                  "User",
+                  session.userId
+                ),
+                expiresAt: refreshTokenExpiry,
+              }),
+              Effect.flatMap(({ user, expiresAt }) => {
+                const secret = generateRefreshSecret();
+                return pipe(
+                  deps.sessionRepo.rotate(
+                    session.rotate(hashRefreshSecret(secret), expiresAt),
+                    session.refreshTokenHash
+                  ),
+                  Effect.flatMap((rotated) =>
+                    issueSessionTokens(deps, user, rotated, secret)
+                  )
+                );
+              })
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          ),
+          Effect.map(UserResponseMapper.toRefreshSessionResponse)
+        )
+      )
+    );
+
+/**
+ * Revoke the sessions a logout ends, yielding how many were revoked
+ * Access token requests have no current session, so only "everywhere" applies
+ */
+const revokeLoggedOutSessions = (
+  deps: UserWorkflowDeps,
+  command: UserDTOs.LogoutCommand
+): Effect.Effect<number, SessionDomainError | UserValidationError> => {
+  if (command.everywhere) {
+    return deps.sessionRepo.revokeAllForUser(command.userId);
+  }
+  if (command.sessionId === undefined) {
+    return Effect.fail(
+      new UserValidationError({
+        message:
+          "There is no session to log out of; revoke the access token instead",
+        field: "everywhere",
+      })
+    );
+  }
+  return pipe(deps.sessionRepo.revoke(command.sessionId), Effect.as(1));
+};
+
+/**
+ * Log out of the current session, or of every session of the user
+ * Access tokens of revoked sessions are rejected from then on
+ */
+export const logout =
+  (deps: UserWorkflowDeps) =>
+  (
+    input: LogoutInput
+  ): Effect.Effect<
+    LogoutResponse,
+    SessionDomainError | UserValidationError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(UserDTOs.LogoutCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          revokeLoggedOutSessions(deps, command),
+          Effect.tap(() =>
+            deps.auditService.record({
+              action: "user_logged_out",
+              performedBy: command.userId,
+              details: command.everywhere ? "All sessions" : undefined,
+            })
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          ),
+          Effect.map(UserResponseMapper.toLogoutResponse)
+        )
+      )
+    );
+
 /**
  * Get user profile by ID
  * Accepts raw input and transforms to branded types
@@ -215,6 +1142,9 @@ export const getUserProfile =
 
 /**
  * Update user profile
+ * The password is refused here; changing it takes the current password
+ * (see changePassword). Changing the email, which password resets are sent
+ * to, takes the current password as well.
  * Accepts raw input and transforms to branded types
  */
 export const updateUserProfile =
@@ -222,16 +1152,36 @@ export const updateUserProfile =
   (
     userIdInput: string,
     input: UpdateUserProfileInput
-  ): Effect.Effect<UserResponse, NotFoundError | Error> =>
+  ): Effect.Effect<
+    UserResponse,
+    | NotFoundError
+    | InvalidCredentialsError
+    | LoginThrottleDomainError
+    | Error
+  > =>
     pipe(
       // Transform raw userId to branded UserId
       S.decodeUnknown(UserDTOs.GetUserQuery)({ userId: userIdInput }),
       Effect.mapError((e) => new Error(`Invalid userId: ${e}`)),
       Effect.flatMap((userQuery) =>
         pipe(
+          // Older clients still send it; refuse rather than ignore it
+          (input as { password?: unknown } | undefined)?.password !== undefined
+            ? Effect.fail(
+                new UserValidationError({
+                  message:
+                    "The password can only be changed together with the current password",
+                  field: "password",
+                })
+              )
+            : Effect.void,
           // Transform update input to branded command
-          S.decodeUnknown(UserDTOs.UpdateUserProfileCommand)(input),
-          Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+          Effect.zipRight(
+            Effect.mapError(
+              S.decodeUnknown(UserDTOs.UpdateUserProfileCommand)(input),
+              (e) => new Error(`Invalid input: ${e}`)
+            )
+          ),
           Effect.flatMap((command) =>
             pipe(
               deps.userRepo.findById(userQuery.userId),
@@ -247,6 +1197,24 @@ export const updateUserProfile =
                   onSome: Effect.succeed,
                 })
               ),
+              Effect.tap((user) =>
+                !command.email || command.email === user.email
+                  ? Effect.void
+                  : command.currentPassword === undefined
+                    ? Effect.fail(
+                        new UserValidationError({
+                          message:
+                            "The email can only be changed together with the current password",
+                          field: "currentPassword",
+                        })
+                      )
+                    : verifyCurrentPassword(
+                        deps,
+                        user,
+                        command.currentPassword,
+                        command.ipAddress
+                      )
+              ),
               Effect.flatMap((user) =>
                 command.email
                   ? pipe(
@@ -268,31 +1236,16 @@ export const updateUserProfile =
                     )
                   : Effect.succeed(user)
               ),
-              Effect.flatMap((user) =>
-                command.password
-                  ? pipe(
-                      makePassword(command.password),
-                      Effect.flatMap((password) =>
-                        deps.passwordHasher.hash(password)
-                      ),
-                      Effect.map((hashedPassword) => ({
-                        user,
-                        updates: {
-                          email: command.email,
-                          password: hashedPassword as HashedPassword,
-                        },
-                      }))
-                    )
-                  : Effect.succeed({
-                      user,
-                      updates: {
-                        email: command.email,
-                      },
-                    })
-              ),
-              Effect.flatMap(({ user, updates }) => {
-                const updatedUser = user.update(updates);
-                return deps.userRepo.save(updatedUser);
+              Effect.flatMap((user) => {
+                const updatedUser = user.update({ email: command.email });
+                return pipe(
+                  deps.userRepo.save(updatedUser),
+                  Effect.tap((saved) =>
+                    saved.email !== user.email
+                      ? sendEmailVerification(deps, saved)
+                      : Effect.void
+                  )
+                );
               }),
               Effect.mapError((e) =>
                 e instanceof Error ? e : new Error(String(e))
@@ -307,36 +1260,106 @@ export const updateUserProfile =
     );
 
 /**
- * List all users (admin only)
- * Accepts raw input and transforms to branded types
+ * Change the password of the signed-in user
+ * Takes the current password, so a stolen token alone cannot take over the
+ * account. Wrong passwords count against the login throttle. Every other
+ * session is revoked; the one the change was made from stays signed in.
  */
-export const listUsers =
+export const changePassword =
   (deps: UserWorkflowDeps) =>
   (
-    input: ListUsersInput
-  ): Effect.Effect<ListUsersResponse, NotFoundError | ForbiddenError | Error> =>
+    input: ChangePasswordInput
+  ): Effect.Effect<
+    ChangePasswordResponse,
+    | InvalidCredentialsError
+    | LoginThrottleDomainError
+    | NotFoundError
+    | Error
+  > =>
     pipe(
-      // Transform raw input to branded query
-      S.decodeUnknown(UserDTOs.ListUsersQuery)(input),
+      S.decodeUnknown(UserDTOs.ChangePasswordCommand)(input),
       Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
-      Effect.flatMap((query) =>
+      Effect.flatMap((command) =>
         pipe(
           loadEntity(
-            deps.userRepo.findById(query.userId),
+            deps.userRepo.findById(command.userId),
             "User",
-            query.userId
-          ),
-          Effect.flatMap((requestingUser) =>
-            requestingUser.role === "ADMIN"
-              ? Effect.succeed(requestingUser)
-              : Effect.fail(
-                  new ForbiddenError({
-                    message: "Only administrators can list all users",
-                    resource: "Users",
-                  })
-                )
+            command.userId
           ),
-          Effect.flatMap(() => deps.userRepo.listAll()),
+          Effect.flatMap((user) =>
+            pipe(
+              verifyCurrentPassword(
+                deps,
+                user,
+                command.currentPassword,
+                command.ipAddress
+              ),
+              Effect.zipRight(makePassword(command.newPassword)),
+              Effect.flatMap((password) => deps.passwordHasher.hash(password)),
+              Effect.flatMap((hashedPassword) =>
+                deps.userRepo.save(
+                  user.update({ password: hashedPassword as HashedPassword })
+                )
+              ),
+              Effect.tap(() =>
+                deps.loginThrottleRepo.clear(
+                  "ACCOUNT",
+                  accountThrottleKey(user.email)
+                )
+              )
+            )
+          ),
+          Effect.flatMap((user) =>
+            pipe(
+              deps.sessionRepo.revokeAllForUser(user.id, command.sessionId),
+              Effect.tap((sessionsRevoked) =>
+                deps.auditService.record({
+                  action: "password_changed",
+                  performedBy: user.id,
+                  details: `Password changed, ${sessionsRevoked} other sessions revoked`,
+                })
+              )
+            )
+          ),
+          Effect.map((sessionsRevoked) => ({ sessionsRevoked })),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * List all users (admin only)
+ * Accepts raw input and transforms to branded types
+ */
+export const listUsers =
+  (deps: UserWorkflowDeps) =>
+  (
+    input: ListUsersInput
+  ): Effect.Effect<ListUsersResponse, NotFoundError | ForbiddenError | Error> =>
+    pipe(
+      // Transform raw input to branded query
+      S.decodeUnknown(UserDTOs.ListUsersQuery)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((query) =>
+        pipe(
+          loadEntity(
+            deps.userRepo.findById(query.userId),
+            "User",
+            query.userId
+          ),
+          Effect.flatMap((requestingUser) =>
+            requestingUser.role === "ADMIN"
+              ? Effect.succeed(requestingUser)
+              : Effect.fail(
+                  new ForbiddenError({
+                    message: "Only administrators can list all users",
+                    resource: "Users",
+                  })
+                )
+          ),
+          Effect.flatMap(() => deps.userRepo.listAll()),
           Effect.map((users) => {
             const page = query.page ?? 1;
             const limit = query.limit ?? 10;
@@ -358,8 +1381,110 @@ export const listUsers =
       )
     );
 
+/**
+ * Owner of the documents of deleted users when they are archived,
+ * configurable through the environment
+ */
+const ARCHIVE_OWNER_EMAIL = Config.option(Config.string("ARCHIVE_OWNER_EMAIL"));
+
+/**
+ * Load the configured archive owner
+ */
+const loadArchiveOwner = (deps: UserWorkflowDeps) =>
+  pipe(
+    ARCHIVE_OWNER_EMAIL,
+    Effect.mapError(
+      (e) => new Error(`Invalid ARCHIVE_OWNER_EMAIL configuration: ${e}`)
+    ),
+    Effect.flatMap(
+      Option.match({
+        onNone: () =>
+          Effect.fail(
+            new UserValidationError({
+              message: "No archive owner is configured",
+              field: "disposition",
+            })
+          ),
+        onSome: (email) =>
+          pipe(
+            makeEmailAddress(email),
+            Effect.mapError(
+              () => new Error("Invalid ARCHIVE_OWNER_EMAIL configuration")
+            ),
+            Effect.flatMap((address) =>
+              pipe(
+                deps.userRepo.findByEmail(address),
+                Effect.flatMap(
+                  Option.match({
+                    onNone: () =>
+                      Effect.fail(
+                        new UserNotFoundError({
+                          email,
+                          message: "Archive owner not found",
+                        })
+                      ),
+                    onSome: Effect.succeed,
+                  })
+                )
+              )
+            )
+          ),
+      })
+    )
+  );
+
+/**
+ * Resolve who receives the documents of the user being deleted
+ * Only admins may push documents onto another user's account
+ */
+const resolveDocumentRecipient = (
+  deps: UserWorkflowDeps,
+  command: DeleteUserCommand,
+  requestingUser: User
+): Effect.Effect<
+  Option.Option<User>,
+  UserDomainError | ForbiddenError | Error
+> =>
+  pipe(
+    Effect.succeed(command.disposition ?? "REFUSE"),
+    Effect.flatMap((mode) =>
+      mode === "REFUSE"
+        ? Effect.succeed(Option.none<User>())
+        : mode === "ARCHIVE"
+          ? pipe(loadArchiveOwner(deps), Effect.map(Option.some))
+          : requestingUser.role !== "ADMIN"
+            ? Effect.fail(
+                new ForbiddenError({
+                  message: "Only admins can reassign documents to another user",
+                  resource: `User:${command.userId}`,
+                })
+              )
+            : command.reassignTo === undefined
+              ? Effect.fail(
+                  new UserValidationError({
+                    message: "reassignTo is required to reassign documents",
+                    field: "reassignTo",
+                  })
+                )
+              : pipe(
+                  deps.userRepo.findById(command.reassignTo),
+                  Effect.filterOrFail(
+                    Option.isSome,
+                    () =>
+                      new UserNotFoundError({
+                        userId: command.reassignTo,
+                        message: "User to reassign documents to not found",
+                      })
+                  )
+                )
+    )
+  );
+
 /**
  * Delete user (admin only or self)
+ * The user's documents are kept according to the requested disposition:
+ * refused while any exist (default), reassigned to a named user, or handed
+ * to the archive owner. Deletion and reassignment happen in one transaction.
  * Accepts raw input and transforms to branded types
  */
 export const deleteUser =
@@ -367,7 +1492,14 @@ export const deleteUser =
   (
     input: DeleteUserInput,
     requestingUserIdInput: string
-  ): Effect.Effect<void, NotFoundError | ForbiddenError | Error> =>
+  ): Effect.Effect<
+    DeleteUserResponse,
+    | NotFoundError
+    | ForbiddenError
+    | UserValidationError
+    | UserHasDocumentsError
+    | Error
+  > =>
     pipe(
       // Transform both inputs to branded types
       Effect.all({
@@ -405,9 +1537,540 @@ export const deleteUser =
               );
             }
 
-            return Effect.succeed(targetUser);
+            return Effect.succeed({ targetUser, requestingUser });
           }),
-          Effect.flatMap(() => deps.userRepo.delete(command.userId)),
+          Effect.flatMap(({ targetUser, requestingUser }) =>
+            pipe(
+              resolveDocumentRecipient(deps, command, requestingUser),
+              Effect.map((recipient) => ({ targetUser, recipient }))
+            )
+          ),
+          Effect.filterOrFail(
+            ({ recipient }) =>
+              !Option.exists(recipient, (user) => user.id === command.userId),
+            () =>
+              new UserValidationError({
+                message:
+                  "Documents cannot be handed over to the user being deleted",
+                field: "reassignTo",
+              })
+          ),
+          Effect.flatMap(({ targetUser, recipient }) =>
+            pipe(
+              deps.userRepo.deleteWithDisposition(
+                command.userId,
+                Option.match(recipient, {
+                  onNone: (): DocumentDisposition => ({ mode: "REFUSE" }),
+                  onSome: (user): DocumentDisposition => ({
+                    mode: "REASSIGN",
+                    toUserId: user.id,
+                    folderId: UuidGenerators.folderId(),
+                    folderName: FolderHelpers.name(
+                      `${targetUser.email} (deleted)`
+                    ),
+                  }),
+                })
+              ),
+              Effect.map((summary) =>
+                UserResponseMapper.toDeleteUserResponse(
+                  command.userId,
+                  command.disposition ?? "REFUSE",
+                  Option.map(recipient, (user) => user.id),
+                  summary
+                )
+              )
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Unlock a user's account (admin only)
+ * Forgets the account's failed logins, ending a lockout or backoff; the
+ * counters of client IPs are left alone
+ * Accepts raw input and transforms to branded types
+ */
+export const unlockUser =
+  (deps: UserWorkflowDeps) =>
+  (
+    input: UnlockUserInput
+  ): Effect.Effect<
+    UserResponse,
+    NotFoundError | ForbiddenError | LoginThrottleDomainError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(UserDTOs.UnlockUserCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadEntity(
+            deps.userRepo.findById(command.requestingUserId),
+            "User",
+            command.requestingUserId
+          ),
+          Effect.filterOrFail(
+            (requestingUser) => requestingUser.role === "ADMIN",
+            () =>
+              new ForbiddenError({
+                message: "Only administrators can unlock accounts",
+                resource: `User:${command.userId}`,
+              })
+          ),
+          Effect.flatMap(() =>
+            loadEntity(
+              deps.userRepo.findById(command.userId),
+              "User",
+              command.userId
+            )
+          ),
+          Effect.flatMap((user) =>
+            pipe(
+              deps.loginThrottleRepo.find(
+                "ACCOUNT",
+                accountThrottleKey(user.email)
+              ),
+              Effect.tap(() =>
+                deps.loginThrottleRepo.clear(
+                  "ACCOUNT",
+                  accountThrottleKey(user.email)
+                )
+              ),
+              Effect.tap((before) =>
+                deps.auditService.record({
+                  action: "account_unlocked",
+                  performedBy: command.requestingUserId,
+                  details: `Unlocked user ${user.id}`,
+                  before: {
+                    failures: Option.match(before, {
+                      onNone: () => 0,
+                      onSome: (throttle) => throttle.failures,
+                    }),
+                    locked: Option.exists(before, (throttle) =>
+                      throttle.isLocked()
+                    ),
+                  },
+                })
+              ),
+              Effect.as(UserResponseMapper.toUserResponse(user))
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Load the user an administrator manages, for an admin-only action
+ * Administrators cannot apply these actions to their own account, so they
+ * cannot lock themselves (or the last administrator) out
+ */
+const loadManagedUser = (
+  deps: UserWorkflowDeps,
+  command: { readonly userId: UserId; readonly requestingUserId: UserId },
+  action: string
+) =>
+  pipe(
+    loadEntity(
+      deps.userRepo.findById(command.requestingUserId),
+      "User",
+      command.requestingUserId
+    ),
+    Effect.filterOrFail(
+      (requestingUser) => requestingUser.role === "ADMIN",
+      () =>
+        new ForbiddenError({
+          message: `Only administrators can ${action} accounts`,
+          resource: `User:${command.userId}`,
+        })
+    ),
+    Effect.filterOrFail(
+      () => command.userId !== command.requestingUserId,
+      () =>
+        new ForbiddenError({
+          message: `Administrators cannot ${action} their own account`,
+          resource: `User:${command.userId}`,
+        })
+    ),
+    Effect.flatMap(() =>
+      loadEntity(deps.userRepo.findById(command.userId), "User", command.userId)
+    )
+  );
+
+/**
+ * Change a user's role (admin only)
+ * Existing tokens carry the new role from the next request on, since
+ * authentication reads the role from the stored user
+ */
+export const updateUserRole =
+  (deps: UserWorkflowDeps) =>
+  (
+    input: UpdateUserRoleInput
+  ): Effect.Effect<UserResponse, NotFoundError | ForbiddenError | Error> =>
+    pipe(
+      S.decodeUnknown(UserDTOs.UpdateUserRoleCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadManagedUser(deps, command, "change the role of"),
+          Effect.flatMap((user) =>
+            user.role === command.role
+              ? Effect.succeed(user)
+              : pipe(
+                  deps.userRepo.save(user.update({ role: command.role })),
+                  Effect.tap((updated) =>
+                    deps.auditService.record({
+                      action: "user_role_changed",
+                      performedBy: command.requestingUserId,
+                      details: `Changed role of user ${user.id}`,
+                      before: { role: user.role },
+                      after: { role: updated.role },
+                    })
+                  )
+                )
+          ),
+          Effect.map(UserResponseMapper.toUserResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Suspend an account (admin only)
+ * Every session is revoked; the user cannot sign in and their access
+ * tokens are refused until the account is reactivated
+ */
+export const suspendUser =
+  (deps: UserWorkflowDeps) =>
+  (
+    input: SuspendUserInput
+  ): Effect.Effect<UserResponse, NotFoundError | ForbiddenError | Error> =>
+    pipe(
+      S.decodeUnknown(UserDTOs.SuspendUserCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadManagedUser(deps, command, "suspend"),
+          Effect.flatMap((user) =>
+            user.isSuspended()
+              ? Effect.succeed(user)
+              : pipe(
+                  deps.userRepo.save(user.suspend()),
+                  Effect.tap((suspended) =>
+                    pipe(
+                      deps.sessionRepo.revokeAllForUser(suspended.id),
+                      Effect.flatMap((sessionsRevoked) =>
+                        deps.auditService.record({
+                          action: "user_suspended",
+                          performedBy: command.requestingUserId,
+                          details: command.reason
+                            ? `Suspended user ${suspended.id}: ${command.reason}`
+                            : `Suspended user ${suspended.id}`,
+                          after: { sessionsRevoked },
+                        })
+                      )
+                    )
+                  )
+                )
+          ),
+          Effect.map(UserResponseMapper.toUserResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Reactivate a suspended account (admin only)
+ * The user signs in again; sessions revoked by the suspension stay revoked
+ */
+export const reactivateUser =
+  (deps: UserWorkflowDeps) =>
+  (
+    input: ReactivateUserInput
+  ): Effect.Effect<UserResponse, NotFoundError | ForbiddenError | Error> =>
+    pipe(
+      S.decodeUnknown(UserDTOs.ReactivateUserCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadManagedUser(deps, command, "reactivate"),
+          Effect.flatMap((user) =>
+            user.isSuspended()
+              ? pipe(
+                  deps.userRepo.save(user.reactivate()),
+                  Effect.tap((reactivated) =>
+                    deps.auditService.record({
+                      action: "user_reactivated",
+                      performedBy: command.requestingUserId,
+                      details: `Reactivated user ${reactivated.id}`,
+                    })
+                  )
+                )
+              : Effect.succeed(user)
+          ),
+          Effect.map(UserResponseMapper.toUserResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Force a user to choose a new password (admin only)
+ * The current password stops working, every session is revoked and a
+ * reset link is mailed to the user
+ */
+export const forcePasswordReset =
+  (deps: UserWorkflowDeps) =>
+  (
+    input: ForcePasswordResetInput
+  ): Effect.Effect<
+    ForcePasswordResetResponse,
+    NotFoundError | ForbiddenError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(UserDTOs.ForcePasswordResetCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadManagedUser(deps, command, "reset the password of"),
+          Effect.flatMap((user) =>
+            pipe(
+              // A random secret nobody knows replaces the password
+              deps.passwordHasher.hash(generateAccountToken() as Password),
+              Effect.flatMap((hashedPassword) =>
+                deps.userRepo.save(
+                  user.update({ password: hashedPassword as HashedPassword })
+                )
+              )
+            )
+          ),
+          Effect.flatMap((user) =>
+            pipe(
+              Effect.all({
+                sessionsRevoked: deps.sessionRepo.revokeAllForUser(user.id),
+                resetLinkSent: pipe(
+                  mailAccountToken(deps, user, "PASSWORD_RESET", true),
+                  Effect.as(true),
+                  Effect.catchAll((error) =>
+                    Effect.as(
+                      Effect.logWarning(
+                        `Could not send password reset to user ${user.id}: ${error}`
+                      ),
+                      false
+                    )
+                  )
+                ),
+              }),
+              Effect.tap(({ sessionsRevoked, resetLinkSent }) =>
+                deps.auditService.record({
+                  action: "password_reset_forced",
+                  performedBy: command.requestingUserId,
+                  details: `Forced password reset of user ${user.id}`,
+                  after: { sessionsRevoked, resetLinkSent },
+                })
+              )
+            )
+          ),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Start a password reset: mail a single-use reset link
+ * Answers the same whether or not the email belongs to a user, and does
+ * not fail when the mail cannot be sent, so it reveals no accounts
+ */
+export const forgotPassword =
+  (deps: UserWorkflowDeps) =>
+  (input: ForgotPasswordInput): Effect.Effect<AccountMailResponse, Error> =>
+    pipe(
+      S.decodeUnknown(UserDTOs.ForgotPasswordCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          deps.userRepo.findByEmail(command.email),
+          Effect.flatMap(
+            Option.match({
+              onNone: () => Effect.void,
+              onSome: (user) =>
+                pipe(
+                  mailAccountToken(deps, user, "PASSWORD_RESET"),
+                  Effect.zipRight(
+                    deps.auditService.record({
+                      action: "password_reset_requested",
+                      performedBy: user.id,
+                    })
+                  ),
+                  Effect.catchAll((error) =>
+                    Effect.logWarning(
+                      `Could not send password reset to user ${user.id}: ${error}`
+                    )
+                  )
+                ),
+            })
+          ),
+          Effect.as({
+            message:
+              "If the address belongs to an account, a reset link is on its way",
+          }),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Set a new password with a reset link
+ * The link works once. Every session of the user is revoked and a lockout
+ * from failed logins is lifted; following the link also proves the email.
+ */
+export const resetPassword =
+  (deps: UserWorkflowDeps) =>
+  (
+    input: ResetPasswordInput
+  ): Effect.Effect<
+    ResetPasswordResponse,
+    AccountTokenInvalidError | NotFoundError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(UserDTOs.ResetPasswordCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          // Check the policy first so a rejected password keeps the link
+          makePassword(command.password),
+          Effect.flatMap((password) =>
+            pipe(
+              loadAccountToken(deps, command.token, "PASSWORD_RESET"),
+              Effect.tap(({ accountToken }) =>
+                deps.accountTokenRepo.consume(accountToken.id)
+              ),
+              Effect.flatMap(({ user }) =>
+                pipe(
+                  deps.passwordHasher.hash(password),
+                  Effect.map((hashedPassword) => {
+                    const updated = user.update({
+                      password: hashedPassword as HashedPassword,
+                    });
+                    return updated.isEmailVerified()
+                      ? updated
+                      : updated.markEmailVerified();
+                  })
+                )
+              )
+            )
+          ),
+          Effect.flatMap((user) => deps.userRepo.save(user)),
+          Effect.flatMap((user) =>
+            pipe(
+              deps.sessionRepo.revokeAllForUser(user.id),
+              Effect.tap(() =>
+                deps.loginThrottleRepo.clear(
+                  "ACCOUNT",
+                  accountThrottleKey(user.email)
+                )
+              ),
+              Effect.tap((sessionsRevoked) =>
+                deps.auditService.record({
+                  action: "password_reset",
+                  performedBy: user.id,
+                  details: `Password reset, ${sessionsRevoked} sessions revoked`,
+                })
+              )
+            )
+          ),
+          Effect.map((sessionsRevoked) => ({ sessionsRevoked })),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Verify the user's email address with the link mailed to it
+ */
+export const verifyEmail =
+  (deps: UserWorkflowDeps) =>
+  (
+    input: VerifyEmailInput
+  ): Effect.Effect<
+    UserResponse,
+    AccountTokenInvalidError | NotFoundError | Error
+  > =>
+    pipe(
+      S.decodeUnknown(UserDTOs.VerifyEmailCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadAccountToken(deps, command.token, "EMAIL_VERIFICATION"),
+          Effect.tap(({ accountToken }) =>
+            deps.accountTokenRepo.consume(accountToken.id)
+          ),
+          Effect.flatMap(({ user }) =>
+            user.isEmailVerified()
+              ? Effect.succeed(user)
+              : pipe(
+                  deps.userRepo.save(user.markEmailVerified()),
+                  Effect.tap((verified) =>
+                    deps.auditService.record({
+                      action: "email_verified",
+                      performedBy: verified.id,
+                      details: `Verified ${verified.email}`,
+                    })
+                  )
+                )
+          ),
+          Effect.map(UserResponseMapper.toUserResponse),
+          Effect.mapError((e) =>
+            e instanceof Error ? e : new Error(String(e))
+          )
+        )
+      )
+    );
+
+/**
+ * Mail the user a new verification link; earlier links stop working
+ */
+export const resendEmailVerification =
+  (deps: UserWorkflowDeps) =>
+  (
+    input: ResendVerificationInput
+  ): Effect.Effect<AccountMailResponse, NotFoundError | Error> =>
+    pipe(
+      S.decodeUnknown(UserDTOs.ResendVerificationCommand)(input),
+      Effect.mapError((e) => new Error(`Invalid input: ${e}`)),
+      Effect.flatMap((command) =>
+        pipe(
+          loadEntity(
+            deps.userRepo.findById(command.userId),
+            "User",
+            command.userId
+          ),
+          Effect.flatMap((user) =>
+            user.isEmailVerified()
+              ? Effect.succeed({
+                  message: "Email address is already verified",
+                })
+              : Effect.as(mailAccountToken(deps, user, "EMAIL_VERIFICATION"), {
+                  message: `Verification link sent to ${user.email}`,
+                })
+          ),
           Effect.mapError((e) =>
             e instanceof Error ? e : new Error(String(e))
           )
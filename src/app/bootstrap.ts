@@ -13,6 +13,12 @@ import { DrizzleServiceLive } from "./infrastructure/services/drizzle-service";
 import { BcryptPasswordHasherLive } from "./infrastructure/adapters/bcrypt-password-hasher.adapter";
 import { JwtServiceLive } from "./infrastructure/adapters/jwt-token.adapter";
 import { LocalStorageLive } from "./infrastructure/adapters/local-storage.adapter";
+import { S3StorageLive } from "./infrastructure/adapters/s3-storage.adapter";
+import { DrizzleAuditLive } from "./infrastructure/adapters/drizzle-audit.adapter";
+import { SmtpMailerLive } from "./infrastructure/adapters/smtp-mailer.adapter";
+import { FileOutboxMailerLive } from "./infrastructure/adapters/outbox-mailer.adapter";
+import { loadStorageConfig } from "./infrastructure/config/storage.config";
+import { loadMailConfig } from "./infrastructure/config/mail.config";
 
 // Infrastructure - Repositories
 import { UserRepositoryLive } from "./infrastructure/repositories/user-repository.impl";
@@ -20,6 +26,16 @@ import { DocumentRepositoryLive } from "./infrastructure/repositories/document-r
 import { PermissionRepositoryLive } from "./infrastructure/repositories/permission-repository.impl";
 import { MetadataRepositoryLive } from "./infrastructure/repositories/metadata-repository.impl";
 import { DownloadTokenRepositoryLive } from "./infrastructure/repositories/download-token-repository.impl";
+import { FolderRepositoryLive } from "./infrastructure/repositories/folder-repository.impl";
+import { UploadSessionRepositoryLive } from "./infrastructure/repositories/upload-session-repository.impl";
+import { UploadTicketRepositoryLive } from "./infrastructure/repositories/upload-ticket-repository.impl";
+import { GroupRepositoryLive } from "./infrastructure/repositories/group-repository.impl";
+import { AuditRepositoryLive } from "./infrastructure/repositories/audit-repository.impl";
+import { SessionRepositoryLive } from "./infrastructure/repositories/session-repository.impl";
+import { AccessTokenRepositoryLive } from "./infrastructure/repositories/access-token-repository.impl";
+import { MfaRepositoryLive } from "./infrastructure/repositories/mfa-repository.impl";
+import { LoginThrottleRepositoryLive } from "./infrastructure/repositories/login-throttle-repository.impl";
+import { AccountTokenRepositoryLive } from "./infrastructure/repositories/account-token-repository.impl";
 
 // Domain - Repository Tags
 import { UserRepositoryTag } from "./domain/user/repository";
@@ -27,11 +43,23 @@ import { DocumentRepositoryTag } from "./domain/document/repository";
 import { PermissionRepositoryTag } from "./domain/permission/repository";
 import { MetadataRepositoryTag } from "./domain/metedata/repository";
 import { DownloadTokenRepositoryTag } from "./domain/download-token/repository";
+import { FolderRepositoryTag } from "./domain/folder/repository";
+import { UploadSessionRepositoryTag } from "./domain/upload-session/repository";
+import { UploadTicketRepositoryTag } from "./domain/upload-ticket/repository";
+import { GroupRepositoryTag } from "./domain/group/repository";
+import { AuditRepositoryTag } from "./domain/audit/repository";
+import { SessionRepositoryTag } from "./domain/session/repository";
+import { AccessTokenRepositoryTag } from "./domain/access-token/repository";
+import { MfaRepositoryTag } from "./domain/mfa/repository";
+import { LoginThrottleRepositoryTag } from "./domain/login-throttle/repository";
+import { AccountTokenRepositoryTag } from "./domain/account-token/repository";
 
 // Application - Port Tags
 import { PasswordHasherPortTag } from "./application/ports/password-hasher.port";
 import { JwtPortTag } from "./application/ports/jwt.port";
 import { StoragePortTag } from "./application/ports/storage.port";
+import { AuditPortTag } from "./application/ports/audit.port";
+import { MailerPortTag } from "./application/ports/mailer.port";
 
 // Application - Workflow Functions
 import * as UserWorkflows from "./application/workflows/user-workflow";
@@ -39,6 +67,13 @@ import * as DocumentWorkflows from "./application/workflows/document-workflow";
 import * as PermissionWorkflows from "./application/workflows/permission-workflow";
 import * as MetadataWorkflows from "./application/workflows/metadata-workflow";
 import * as DownloadTokenWorkflows from "./application/workflows/download-token-workflow";
+import * as FolderWorkflows from "./application/workflows/folder-workflow";
+import * as UploadSessionWorkflows from "./application/workflows/upload-session-workflow";
+import * as UploadTicketWorkflows from "./application/workflows/upload-ticket-workflow";
+import * as GroupWorkflows from "./application/workflows/group-workflow";
+import * as AuditWorkflows from "./application/workflows/audit-workflow";
+import * as AccessTokenWorkflows from "./application/workflows/access-token-workflow";
+import * as MfaWorkflows from "./application/workflows/mfa-workflow";
 
 /**
  * Workflow Interfaces (for compatibility with existing routes)
@@ -54,6 +89,24 @@ export interface UserWorkflow {
   ) => infer R
     ? R
     : never;
+  readonly verifyMfaLogin: typeof UserWorkflows.verifyMfaLogin extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly enrollMfaLogin: typeof UserWorkflows.enrollMfaLogin extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly refreshSession: typeof UserWorkflows.refreshSession extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly logout: typeof UserWorkflows.logout extends (deps: any) => infer R
+    ? R
+    : never;
   readonly getUserProfile: typeof UserWorkflows.getUserProfile extends (
     deps: any
   ) => infer R
@@ -64,6 +117,11 @@ export interface UserWorkflow {
   ) => infer R
     ? R
     : never;
+  readonly changePassword: typeof UserWorkflows.changePassword extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
   readonly listUsers: typeof UserWorkflows.listUsers extends (
     deps: any
   ) => infer R
@@ -74,6 +132,51 @@ export interface UserWorkflow {
   ) => infer R
     ? R
     : never;
+  readonly unlockUser: typeof UserWorkflows.unlockUser extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly updateUserRole: typeof UserWorkflows.updateUserRole extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly suspendUser: typeof UserWorkflows.suspendUser extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly reactivateUser: typeof UserWorkflows.reactivateUser extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly forcePasswordReset: typeof UserWorkflows.forcePasswordReset extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly forgotPassword: typeof UserWorkflows.forgotPassword extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly resetPassword: typeof UserWorkflows.resetPassword extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly verifyEmail: typeof UserWorkflows.verifyEmail extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly resendEmailVerification: typeof UserWorkflows.resendEmailVerification extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
 }
 
 export interface DocumentWorkflow {
@@ -112,11 +215,56 @@ export interface DocumentWorkflow {
   ) => infer R
     ? R
     : never;
+  readonly queryDocuments: typeof DocumentWorkflows.queryDocuments extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
   readonly deleteDocument: typeof DocumentWorkflows.deleteDocument extends (
     deps: any
   ) => infer R
     ? R
     : never;
+  readonly moveDocument: typeof DocumentWorkflows.moveDocument extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly restoreVersion: typeof DocumentWorkflows.restoreVersion extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly transferOwnership: typeof DocumentWorkflows.transferOwnership extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly transferAllOwnership: typeof DocumentWorkflows.transferAllOwnership extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly listTrash: typeof DocumentWorkflows.listTrash extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly restoreDocument: typeof DocumentWorkflows.restoreDocument extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly purgeTrash: typeof DocumentWorkflows.purgeTrash extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly purgeExpiredTrash: typeof DocumentWorkflows.purgeExpiredTrash extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
 }
 
 export interface PermissionWorkflow {
@@ -125,6 +273,11 @@ export interface PermissionWorkflow {
   ) => infer R
     ? R
     : never;
+  readonly grantGroupPermission: typeof PermissionWorkflows.grantGroupPermission extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
   readonly updatePermission: typeof PermissionWorkflows.updatePermission extends (
     deps: any
   ) => infer R
@@ -150,6 +303,16 @@ export interface PermissionWorkflow {
   ) => infer R
     ? R
     : never;
+  readonly explainPermission: typeof PermissionWorkflows.explainPermission extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly purgeExpiredPermissions: typeof PermissionWorkflows.purgeExpiredPermissions extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
 }
 
 export interface MetadataWorkflow {
@@ -203,6 +366,202 @@ export interface DownloadTokenWorkflow {
     : never;
 }
 
+export interface FolderWorkflow {
+  readonly createFolder: typeof FolderWorkflows.createFolder extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly getFolder: typeof FolderWorkflows.getFolder extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly listFolders: typeof FolderWorkflows.listFolders extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly renameFolder: typeof FolderWorkflows.renameFolder extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly moveFolder: typeof FolderWorkflows.moveFolder extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly deleteFolder: typeof FolderWorkflows.deleteFolder extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+}
+
+export interface UploadSessionWorkflow {
+  readonly createUploadSession: typeof UploadSessionWorkflows.createUploadSession extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly getUploadSession: typeof UploadSessionWorkflows.getUploadSession extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly appendUploadChunk: typeof UploadSessionWorkflows.appendUploadChunk extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly cancelUploadSession: typeof UploadSessionWorkflows.cancelUploadSession extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly purgeExpiredUploadSessions: typeof UploadSessionWorkflows.purgeExpiredUploadSessions extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+}
+
+export interface UploadTicketWorkflow {
+  readonly issueUploadTicket: typeof UploadTicketWorkflows.issueUploadTicket extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly redeemUploadTicket: typeof UploadTicketWorkflows.redeemUploadTicket extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly purgeExpiredUploadTickets: typeof UploadTicketWorkflows.purgeExpiredUploadTickets extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+}
+
+export interface GroupWorkflow {
+  readonly createGroup: typeof GroupWorkflows.createGroup extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly listGroups: typeof GroupWorkflows.listGroups extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly getGroup: typeof GroupWorkflows.getGroup extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly renameGroup: typeof GroupWorkflows.renameGroup extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly deleteGroup: typeof GroupWorkflows.deleteGroup extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly addGroupMember: typeof GroupWorkflows.addGroupMember extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly removeGroupMember: typeof GroupWorkflows.removeGroupMember extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+}
+
+export interface AuditWorkflow {
+  readonly getDocumentAudit: typeof AuditWorkflows.getDocumentAudit extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly queryAuditLog: typeof AuditWorkflows.queryAuditLog extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly exportDocumentAudit: typeof AuditWorkflows.exportDocumentAudit extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly exportAuditLog: typeof AuditWorkflows.exportAuditLog extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly verifyAuditChain: typeof AuditWorkflows.verifyAuditChain extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+}
+
+export interface AccessTokenWorkflow {
+  readonly createAccessToken: typeof AccessTokenWorkflows.createAccessToken extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly listAccessTokens: typeof AccessTokenWorkflows.listAccessTokens extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly revokeAccessToken: typeof AccessTokenWorkflows.revokeAccessToken extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+}
+
+export interface MfaWorkflow {
+  readonly getMfaStatus: typeof MfaWorkflows.getMfaStatus extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly enrollMfa: typeof MfaWorkflows.enrollMfa extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly confirmMfa: typeof MfaWorkflows.confirmMfa extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly disableMfa: typeof MfaWorkflows.disableMfa extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly getMfaPolicy: typeof MfaWorkflows.getMfaPolicy extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+  readonly setMfaPolicy: typeof MfaWorkflows.setMfaPolicy extends (
+    deps: any
+  ) => infer R
+    ? R
+    : never;
+}
+
 // Workflow Context Tags
 export const UserWorkflowTag =
   Context.GenericTag<UserWorkflow>("@app/UserWorkflow");
@@ -217,6 +576,24 @@ export const MetadataWorkflowTag = Context.GenericTag<MetadataWorkflow>(
 );
 export const DownloadTokenWorkflowTag =
   Context.GenericTag<DownloadTokenWorkflow>("@app/DownloadTokenWorkflow");
+export const FolderWorkflowTag = Context.GenericTag<FolderWorkflow>(
+  "@app/FolderWorkflow"
+);
+export const UploadSessionWorkflowTag =
+  Context.GenericTag<UploadSessionWorkflow>("@app/UploadSessionWorkflow");
+export const UploadTicketWorkflowTag =
+  Context.GenericTag<UploadTicketWorkflow>("@app/UploadTicketWorkflow");
+export const GroupWorkflowTag = Context.GenericTag<GroupWorkflow>(
+  "@app/GroupWorkflow"
+);
+export const AuditWorkflowTag = Context.GenericTag<AuditWorkflow>(
+  "@app/AuditWorkflow"
+);
+export const AccessTokenWorkflowTag = Context.GenericTag<AccessTokenWorkflow>(
+  "@app/AccessTokenWorkflow"
+);
+export const MfaWorkflowTag =
+  Context.GenericTag<MfaWorkflow>("@app/MfaWorkflow");
 
 /**
  * Application Layer
@@ -224,22 +601,48 @@ export const DownloadTokenWorkflowTag =
  * Combines all infrastructure and application layers in dependency order
  */
 
+// Storage adapter selected by STORAGE_TYPE
+const storageConfig = loadStorageConfig();
+const StorageLive =
+  storageConfig.type === "s3"
+    ? S3StorageLive(storageConfig.s3)
+    : LocalStorageLive;
+
+// Mailer selected by MAIL_TRANSPORT
+const mailConfig = loadMailConfig();
+const MailerLive =
+  mailConfig.transport === "smtp"
+    ? SmtpMailerLive(mailConfig.smtp, mailConfig.from)
+    : FileOutboxMailerLive(mailConfig.outboxPath, mailConfig.from);
+
 // Layer 1: Base infrastructure (no dependencies)
 const BaseLayer = Layer.mergeAll(
   DrizzleServiceLive,
   BcryptPasswordHasherLive,
   JwtServiceLive,
-  LocalStorageLive
+  StorageLive,
+  MailerLive
 );
 
-// Layer 2: Repositories (depend on DrizzleService)
+// Layer 2: Repositories and the audit adapter (depend on DrizzleService)
 const RepositoryLayer = Layer.provide(
   Layer.mergeAll(
     UserRepositoryLive,
     DocumentRepositoryLive,
     PermissionRepositoryLive,
     MetadataRepositoryLive,
-    DownloadTokenRepositoryLive
+    DownloadTokenRepositoryLive,
+    FolderRepositoryLive,
+    UploadSessionRepositoryLive,
+    UploadTicketRepositoryLive,
+    GroupRepositoryLive,
+    AuditRepositoryLive,
+    SessionRepositoryLive,
+    AccessTokenRepositoryLive,
+    MfaRepositoryLive,
+    LoginThrottleRepositoryLive,
+    AccountTokenRepositoryLive,
+    DrizzleAuditLive
   ),
   BaseLayer
 );
@@ -249,22 +652,48 @@ const UserWorkflowLive = Layer.effect(
   UserWorkflowTag,
   Effect.gen(function* () {
     const userRepo = yield* UserRepositoryTag;
+    const sessionRepo = yield* SessionRepositoryTag;
+    const mfaRepo = yield* MfaRepositoryTag;
+    const loginThrottleRepo = yield* LoginThrottleRepositoryTag;
+    const accountTokenRepo = yield* AccountTokenRepositoryTag;
     const passwordHasher = yield* PasswordHasherPortTag;
     const jwtService = yield* JwtPortTag;
+    const auditService = yield* AuditPortTag;
+    const mailer = yield* MailerPortTag;
 
     const deps: UserWorkflows.UserWorkflowDeps = {
       userRepo,
+      sessionRepo,
+      mfaRepo,
+      loginThrottleRepo,
+      accountTokenRepo,
       passwordHasher,
       jwtService,
+      auditService,
+      mailer,
     };
 
     return {
       registerUser: UserWorkflows.registerUser(deps),
       loginUser: UserWorkflows.loginUser(deps),
+      verifyMfaLogin: UserWorkflows.verifyMfaLogin(deps),
+      enrollMfaLogin: UserWorkflows.enrollMfaLogin(deps),
+      refreshSession: UserWorkflows.refreshSession(deps),
+      logout: UserWorkflows.logout(deps),
       getUserProfile: UserWorkflows.getUserProfile(deps),
       updateUserProfile: UserWorkflows.updateUserProfile(deps),
+      changePassword: UserWorkflows.changePassword(deps),
       listUsers: UserWorkflows.listUsers(deps),
       deleteUser: UserWorkflows.deleteUser(deps),
+      unlockUser: UserWorkflows.unlockUser(deps),
+      updateUserRole: UserWorkflows.updateUserRole(deps),
+      suspendUser: UserWorkflows.suspendUser(deps),
+      reactivateUser: UserWorkflows.reactivateUser(deps),
+      forcePasswordReset: UserWorkflows.forcePasswordReset(deps),
+      forgotPassword: UserWorkflows.forgotPassword(deps),
+      resetPassword: UserWorkflows.resetPassword(deps),
+      verifyEmail: UserWorkflows.verifyEmail(deps),
+      resendEmailVerification: UserWorkflows.resendEmailVerification(deps),
     } satisfies UserWorkflow;
   })
 );
@@ -275,13 +704,19 @@ const DocumentWorkflowLive = Layer.effect(
     const documentRepo = yield* DocumentRepositoryTag;
     const userRepo = yield* UserRepositoryTag;
     const permissionRepo = yield* PermissionRepositoryTag;
+    const groupRepo = yield* GroupRepositoryTag;
+    const folderRepo = yield* FolderRepositoryTag;
     const storageService = yield* StoragePortTag;
+    const auditService = yield* AuditPortTag;
 
     const deps: DocumentWorkflows.DocumentWorkflowDeps = {
       documentRepo,
       userRepo,
       permissionRepo,
+      groupRepo,
+      folderRepo,
       storageService,
+      auditService,
     };
 
     return {
@@ -292,7 +727,16 @@ const DocumentWorkflowLive = Layer.effect(
       listDocuments: DocumentWorkflows.listDocuments(deps),
       listAllDocuments: DocumentWorkflows.listAllDocuments(deps),
       searchDocuments: DocumentWorkflows.searchDocuments(deps),
+      queryDocuments: DocumentWorkflows.queryDocuments(deps),
       deleteDocument: DocumentWorkflows.deleteDocument(deps),
+      moveDocument: DocumentWorkflows.moveDocument(deps),
+      restoreVersion: DocumentWorkflows.restoreVersion(deps),
+      transferOwnership: DocumentWorkflows.transferOwnership(deps),
+      transferAllOwnership: DocumentWorkflows.transferAllOwnership(deps),
+      listTrash: DocumentWorkflows.listTrash(deps),
+      restoreDocument: DocumentWorkflows.restoreDocument(deps),
+      purgeTrash: DocumentWorkflows.purgeTrash(deps),
+      purgeExpiredTrash: DocumentWorkflows.purgeExpiredTrash(deps),
     } satisfies DocumentWorkflow;
   })
 );
@@ -301,23 +745,31 @@ const PermissionWorkflowLive = Layer.effect(
   PermissionWorkflowTag,
   Effect.gen(function* () {
     const permissionRepo = yield* PermissionRepositoryTag;
+    const groupRepo = yield* GroupRepositoryTag;
     const documentRepo = yield* DocumentRepositoryTag;
     const userRepo = yield* UserRepositoryTag;
+    const auditService = yield* AuditPortTag;
 
     const deps: PermissionWorkflows.PermissionWorkflowDeps = {
       permissionRepo,
+      groupRepo,
       documentRepo,
       userRepo,
+      auditService,
     };
 
     return {
       grantPermission: PermissionWorkflows.grantPermission(deps),
+      grantGroupPermission: PermissionWorkflows.grantGroupPermission(deps),
       updatePermission: PermissionWorkflows.updatePermission(deps),
       revokePermission: PermissionWorkflows.revokePermission(deps),
       listDocumentPermissions:
         PermissionWorkflows.listDocumentPermissions(deps),
       listUserPermissions: PermissionWorkflows.listUserPermissions(deps),
       checkPermission: PermissionWorkflows.checkPermission(deps),
+      explainPermission: PermissionWorkflows.explainPermission(deps),
+      purgeExpiredPermissions:
+        PermissionWorkflows.purgeExpiredPermissions(deps),
     } satisfies PermissionWorkflow;
   })
 );
@@ -329,12 +781,16 @@ const MetadataWorkflowLive = Layer.effect(
     const documentRepo = yield* DocumentRepositoryTag;
     const userRepo = yield* UserRepositoryTag;
     const permissionRepo = yield* PermissionRepositoryTag;
+    const groupRepo = yield* GroupRepositoryTag;
+    const auditService = yield* AuditPortTag;
 
     const deps: MetadataWorkflows.MetadataWorkflowDeps = {
       metadataRepo,
       documentRepo,
       userRepo,
       permissionRepo,
+      groupRepo,
+      auditService,
     };
 
     return {
@@ -354,12 +810,16 @@ const DownloadTokenWorkflowLive = Layer.effect(
     const documentRepo = yield* DocumentRepositoryTag;
     const userRepo = yield* UserRepositoryTag;
     const permissionRepo = yield* PermissionRepositoryTag;
+    const groupRepo = yield* GroupRepositoryTag;
+    const auditService = yield* AuditPortTag;
 
     const deps: DownloadTokenWorkflows.DownloadTokenWorkflowDeps = {
       tokenRepo,
       documentRepo,
       userRepo,
       permissionRepo,
+      groupRepo,
+      auditService,
     };
 
     return {
@@ -371,6 +831,189 @@ const DownloadTokenWorkflowLive = Layer.effect(
   })
 );
 
+const FolderWorkflowLive = Layer.effect(
+  FolderWorkflowTag,
+  Effect.gen(function* () {
+    const folderRepo = yield* FolderRepositoryTag;
+    const documentRepo = yield* DocumentRepositoryTag;
+    const userRepo = yield* UserRepositoryTag;
+
+    const deps: FolderWorkflows.FolderWorkflowDeps = {
+      folderRepo,
+      documentRepo,
+      userRepo,
+    };
+
+    return {
+      createFolder: FolderWorkflows.createFolder(deps),
+      getFolder: FolderWorkflows.getFolder(deps),
+      listFolders: FolderWorkflows.listFolders(deps),
+      renameFolder: FolderWorkflows.renameFolder(deps),
+      moveFolder: FolderWorkflows.moveFolder(deps),
+      deleteFolder: FolderWorkflows.deleteFolder(deps),
+    } satisfies FolderWorkflow;
+  })
+);
+
+const UploadSessionWorkflowLive = Layer.effect(
+  UploadSessionWorkflowTag,
+  Effect.gen(function* () {
+    const sessionRepo = yield* UploadSessionRepositoryTag;
+    const documentRepo = yield* DocumentRepositoryTag;
+    const userRepo = yield* UserRepositoryTag;
+    const permissionRepo = yield* PermissionRepositoryTag;
+    const groupRepo = yield* GroupRepositoryTag;
+    const folderRepo = yield* FolderRepositoryTag;
+    const storageService = yield* StoragePortTag;
+    const auditService = yield* AuditPortTag;
+
+    // Completed uploads go through the regular document upload
+    const deps: UploadSessionWorkflows.UploadSessionWorkflowDeps = {
+      sessionRepo,
+      storageService,
+      uploadDocument: DocumentWorkflows.uploadDocument({
+        documentRepo,
+        userRepo,
+        permissionRepo,
+        groupRepo,
+        folderRepo,
+        storageService,
+        auditService,
+      }),
+    };
+
+    return {
+      createUploadSession: UploadSessionWorkflows.createUploadSession(deps),
+      getUploadSession: UploadSessionWorkflows.getUploadSession(deps),
+      appendUploadChunk: UploadSessionWorkflows.appendUploadChunk(deps),
+      cancelUploadSession: UploadSessionWorkflows.cancelUploadSession(deps),
+      purgeExpiredUploadSessions:
+        UploadSessionWorkflows.purgeExpiredUploadSessions(deps),
+    } satisfies UploadSessionWorkflow;
+  })
+);
+
+const UploadTicketWorkflowLive = Layer.effect(
+  UploadTicketWorkflowTag,
+  Effect.gen(function* () {
+    const ticketRepo = yield* UploadTicketRepositoryTag;
+    const documentRepo = yield* DocumentRepositoryTag;
+    const userRepo = yield* UserRepositoryTag;
+    const permissionRepo = yield* PermissionRepositoryTag;
+    const groupRepo = yield* GroupRepositoryTag;
+    const storageService = yield* StoragePortTag;
+    const auditService = yield* AuditPortTag;
+
+    const deps: UploadTicketWorkflows.UploadTicketWorkflowDeps = {
+      ticketRepo,
+      documentRepo,
+      userRepo,
+      permissionRepo,
+      groupRepo,
+      storageService,
+      auditService,
+    };
+
+    return {
+      issueUploadTicket: UploadTicketWorkflows.issueUploadTicket(deps),
+      redeemUploadTicket: UploadTicketWorkflows.redeemUploadTicket(deps),
+      purgeExpiredUploadTickets:
+        UploadTicketWorkflows.purgeExpiredUploadTickets(deps),
+    } satisfies UploadTicketWorkflow;
+  })
+);
+
+const GroupWorkflowLive = Layer.effect(
+  GroupWorkflowTag,
+  Effect.gen(function* () {
+    const groupRepo = yield* GroupRepositoryTag;
+    const userRepo = yield* UserRepositoryTag;
+
+    const deps: GroupWorkflows.GroupWorkflowDeps = {
+      groupRepo,
+      userRepo,
+    };
+
+    return {
+      createGroup: GroupWorkflows.createGroup(deps),
+      listGroups: GroupWorkflows.listGroups(deps),
+      getGroup: GroupWorkflows.getGroup(deps),
+      renameGroup: GroupWorkflows.renameGroup(deps),
+      deleteGroup: GroupWorkflows.deleteGroup(deps),
+      addGroupMember: GroupWorkflows.addGroupMember(deps),
+      removeGroupMember: GroupWorkflows.removeGroupMember(deps),
+    } satisfies GroupWorkflow;
+  })
+);
+
+const AuditWorkflowLive = Layer.effect(
+  AuditWorkflowTag,
+  Effect.gen(function* () {
+    const auditRepo = yield* AuditRepositoryTag;
+    const documentRepo = yield* DocumentRepositoryTag;
+    const userRepo = yield* UserRepositoryTag;
+
+    const deps: AuditWorkflows.AuditWorkflowDeps = {
+      auditRepo,
+      documentRepo,
+      userRepo,
+    };
+
+    return {
+      getDocumentAudit: AuditWorkflows.getDocumentAudit(deps),
+      queryAuditLog: AuditWorkflows.queryAuditLog(deps),
+      exportDocumentAudit: AuditWorkflows.exportDocumentAudit(deps),
+      exportAuditLog: AuditWorkflows.exportAuditLog(deps),
+      verifyAuditChain: AuditWorkflows.verifyAuditChain(deps),
+    } satisfies AuditWorkflow;
+  })
+);
+
+const AccessTokenWorkflowLive = Layer.effect(
+  AccessTokenWorkflowTag,
+  Effect.gen(function* () {
+    const accessTokenRepo = yield* AccessTokenRepositoryTag;
+    const userRepo = yield* UserRepositoryTag;
+    const auditService = yield* AuditPortTag;
+
+    const deps: AccessTokenWorkflows.AccessTokenWorkflowDeps = {
+      accessTokenRepo,
+      userRepo,
+      auditService,
+    };
+
+    return {
+      createAccessToken: AccessTokenWorkflows.createAccessToken(deps),
+      listAccessTokens: AccessTokenWorkflows.listAccessTokens(deps),
+      revokeAccessToken: AccessTokenWorkflows.revokeAccessToken(deps),
+    } satisfies AccessTokenWorkflow;
+  })
+);
+
+const MfaWorkflowLive = Layer.effect(
+  MfaWorkflowTag,
+  Effect.gen(function* () {
+    const mfaRepo = yield* MfaRepositoryTag;
+    const userRepo = yield* UserRepositoryTag;
+    const auditService = yield* AuditPortTag;
+
+    const deps: MfaWorkflows.MfaWorkflowDeps = {
+      mfaRepo,
+      userRepo,
+      auditService,
+    };
+
+    return {
+      getMfaStatus: MfaWorkflows.getMfaStatus(deps),
+      enrollMfa: MfaWorkflows.enrollMfa(deps),
+      confirmMfa: MfaWorkflows.confirmMfa(deps),
+      disableMfa: MfaWorkflows.disableMfa(deps),
+      getMfaPolicy: MfaWorkflows.getMfaPolicy(deps),
+      setMfaPolicy: MfaWorkflows.setMfaPolicy(deps),
+    } satisfies MfaWorkflow;
+  })
+);
+
 // Workflow Layer (depends on Repositories and Adapters)
 const WorkflowLayer = Layer.provide(
   Layer.mergeAll(
@@ -378,7 +1021,14 @@ const WorkflowLayer = Layer.provide(
     DocumentWorkflowLive,
     PermissionWorkflowLive,
     MetadataWorkflowLive,
-    DownloadTokenWorkflowLive
+    DownloadTokenWorkflowLive,
+    FolderWorkflowLive,
+    UploadSessionWorkflowLive,
+    UploadTicketWorkflowLive,
+    GroupWorkflowLive,
+    AuditWorkflowLive,
+    AccessTokenWorkflowLive,
+    MfaWorkflowLive
   ),
   Layer.mergeAll(BaseLayer, RepositoryLayer)
 );
@@ -0,0 +1,131 @@
+import { Option, Effect as E, pipe, Schema as S } from "effect";
+import { AccessTokenId, UserId } from "../refined/uuid";
+import {
+  BaseEntity,
+  IEntity,
+  Maybe,
+  normalizeMaybe,
+  optionToMaybe,
+} from "../shared/base-entity";
+import { AccessTokenName, AccessTokenScope } from "./value-object";
+import { AccessTokenValidationError } from "./errors";
+
+// ============================================================================
+// Serialized Types
+// ============================================================================
+
+/**
+ * Serialized AccessToken type (for external systems)
+ */
+export type SerializedAccessToken = {
+  readonly id: string;
+  readonly userId: string;
+  readonly name: string;
+  readonly scope: string;
+  readonly tokenHash: string;
+  readonly tokenHint: string;
+  readonly expiresAt?: Maybe<Date>;
+  readonly lastUsedAt?: Maybe<Date>;
+  readonly revokedAt?: Maybe<Date>;
+  readonly createdAt?: Date;
+};
+
+const TokenFields = S.Struct({
+  name: AccessTokenName,
+  scope: AccessTokenScope,
+});
+
+// ============================================================================
+// AccessToken Entity
+// ============================================================================
+
+/**
+ * Access Token Entity - Aggregate Root
+ *
+ * A personal access token for scripts and automation. It authenticates as
+ * its user, limited to its scope, until it expires or is revoked. Only the
+ * token's hash is kept.
+ */
+export class AccessTokenEntity extends BaseEntity implements IEntity {
+  constructor(
+    public readonly id: AccessTokenId,
+    public readonly userId: UserId,
+    public readonly name: AccessTokenName,
+    public readonly scope: AccessTokenScope,
+    public readonly tokenHash: string,
+    public readonly tokenHint: string,
+    public readonly expiresAt: Option.Option<Date>,
+    public readonly lastUsedAt: Option.Option<Date>,
+    public readonly revokedAt: Option.Option<Date>,
+    public readonly createdAt: Date
+  ) {
+    super();
+  }
+
+  /**
+   * Create a new access token with validation
+   */
+  static create(
+    input: SerializedAccessToken
+  ): E.Effect<AccessTokenEntity, AccessTokenValidationError, never> {
+    return pipe(
+      S.decodeUnknown(TokenFields)({
+        name: input.name.trim(),
+        scope: input.scope,
+      }),
+      E.mapError(
+        (error) =>
+          new AccessTokenValidationError({
+            message: `Access token validation failed: ${error.message}`,
+          })
+      ),
+      E.map(
+        ({ name, scope }) =>
+          new AccessTokenEntity(
+            input.id as AccessTokenId,
+            input.userId as UserId,
+            name,
+            scope,
+            input.tokenHash,
+            input.tokenHint,
+            normalizeMaybe(input.expiresAt),
+            normalizeMaybe(input.lastUsedAt),
+            normalizeMaybe(input.revokedAt),
+            input.createdAt ?? new Date()
+          )
+      )
+    );
+  }
+
+  /**
+   * Check if token is expired
+   */
+  isExpired(): boolean {
+    return Option.exists(this.expiresAt, (expiresAt) => new Date() > expiresAt);
+  }
+
+  /**
+   * Check if token has been revoked
+   */
+  isRevoked(): boolean {
+    return Option.isSome(this.revokedAt);
+  }
+
+  /**
+   * Serialize to external format
+   */
+  serialize(): SerializedAccessToken {
+    return {
+      id: this.id,
+      userId: this.userId,
+      name: this.name,
+      scope: this.scope,
+      tokenHash: this.tokenHash,
+      tokenHint: this.tokenHint,
+      expiresAt: optionToMaybe(this.expiresAt),
+      lastUsedAt: optionToMaybe(this.lastUsedAt),
+      revokedAt: optionToMaybe(this.revokedAt),
+      createdAt: this.createdAt,
+    };
+  }
+}
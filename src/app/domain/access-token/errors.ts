@@ -0,0 +1,66 @@
+import { Data } from "effect";
+
+/**
+ * Access Token Domain Errors
+ */
+
+export class AccessTokenNotFoundError extends Data.TaggedError(
+  "AccessTokenNotFoundError"
+)<{
+  readonly tokenId?: string;
+  readonly message?: string;
+}> {}
+
+export class AccessTokenInvalidError extends Data.TaggedError(
+  "AccessTokenInvalidError"
+)<{
+  readonly message: string;
+}> {}
+
+export class AccessTokenExpiredError extends Data.TaggedError(
+  "AccessTokenExpiredError"
+)<{
+  readonly tokenId: string;
+  readonly expiresAt: Date;
+  readonly message?: string;
+}> {}
+
+export class AccessTokenRevokedError extends Data.TaggedError(
+  "AccessTokenRevokedError"
+)<{
+  readonly tokenId: string;
+  readonly message?: string;
+}> {}
+
+export class AccessTokenScopeError extends Data.TaggedError(
+  "AccessTokenScopeError"
+)<{
+  readonly scope: string;
+  readonly requiredScope: string;
+  readonly message?: string;
+}> {}
+
+export class AccessTokenValidationError extends Data.TaggedError(
+  "AccessTokenValidationError"
+)<{
+  readonly message: string;
+  readonly field?: string;
+}> {}
+
+export class AccessTokenConstraintError extends Data.TaggedError(
+  "AccessTokenConstraintError"
+)<{
+  readonly message: string;
+}> {}
+
+/**
+ * Union of all Access Token domain errors
+ */
+export type AccessTokenDomainError =
+  | AccessTokenNotFoundError
+  | AccessTokenInvalidError
+  | AccessTokenExpiredError
+  | AccessTokenRevokedError
+  | AccessTokenScopeError
+  | AccessTokenValidationError
+  | AccessTokenConstraintError;
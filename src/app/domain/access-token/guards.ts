@@ -0,0 +1,71 @@
+import { Effect, Option } from "effect";
+import type { AccessTokenEntity } from "./entity";
+import { scopeCovers, type AccessTokenScope } from "./value-object";
+import {
+  AccessTokenExpiredError,
+  AccessTokenRevokedError,
+  AccessTokenScopeError,
+} from "./errors";
+
+/**
+ * Access Token Domain Business Rules and Guards
+ */
+
+/**
+ * Guard: Token must not have been revoked
+ */
+export const guardAccessTokenNotRevoked = (
+  token: AccessTokenEntity
+): Effect.Effect<void, AccessTokenRevokedError> =>
+  token.isRevoked()
+    ? Effect.fail(
+        new AccessTokenRevokedError({
+          tokenId: token.id,
+          message: "Access token has been revoked",
+        })
+      )
+    : Effect.void;
+
+/**
+ * Guard: Token must not be expired
+ */
+export const guardAccessTokenNotExpired = (
+  token: AccessTokenEntity
+): Effect.Effect<void, AccessTokenExpiredError> =>
+  token.isExpired()
+    ? Effect.fail(
+        new AccessTokenExpiredError({
+          tokenId: token.id,
+          expiresAt: Option.getOrElse(token.expiresAt, () => new Date()),
+          message: "Access token has expired",
+        })
+      )
+    : Effect.void;
+
+/**
+ * Guard: Token must be usable (neither revoked nor expired)
+ */
+export const guardAccessTokenActive = (
+  token: AccessTokenEntity
+): Effect.Effect<void, AccessTokenRevokedError | AccessTokenExpiredError> =>
+  Effect.zipRight(
+    guardAccessTokenNotRevoked(token),
+    guardAccessTokenNotExpired(token)
+  );
+
+/**
+ * Guard: Token scope must include the scope a request needs
+ */
+export const guardAccessTokenScope = (
+  token: AccessTokenEntity,
+  requiredScope: AccessTokenScope
+): Effect.Effect<void, AccessTokenScopeError> =>
+  scopeCovers(token.scope, requiredScope)
+    ? Effect.void
+    : Effect.fail(
+        new AccessTokenScopeError({
+          scope: token.scope,
+          requiredScope,
+          message: `This request needs an access token with ${requiredScope} scope`,
+        })
+      );
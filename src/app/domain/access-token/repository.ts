@@ -0,0 +1,60 @@
+import { Effect, Option, Context } from "effect";
+import { AccessTokenEntity } from "./entity";
+import { AccessTokenDomainError } from "./errors";
+import { AccessTokenId, UserId } from "../refined/uuid";
+
+/**
+ * Access Token Repository Interface
+ *
+ * Defines the contract for access token persistence operations.
+ * Repositories work with entities, not payloads.
+ */
+export interface AccessTokenRepository {
+  /**
+   * Save a new access token
+   */
+  readonly save: (
+    token: AccessTokenEntity
+  ) => Effect.Effect<AccessTokenEntity, AccessTokenDomainError>;
+
+  /**
+   * Find token by ID
+   */
+  readonly findById: (
+    id: AccessTokenId
+  ) => Effect.Effect<Option.Option<AccessTokenEntity>, AccessTokenDomainError>;
+
+  /**
+   * Find token by the hash of the token string
+   */
+  readonly findByHash: (
+    tokenHash: string
+  ) => Effect.Effect<Option.Option<AccessTokenEntity>, AccessTokenDomainError>;
+
+  /**
+   * List the tokens of a user, newest first, revoked ones included
+   */
+  readonly findByUser: (
+    userId: UserId
+  ) => Effect.Effect<readonly AccessTokenEntity[], AccessTokenDomainError>;
+
+  /**
+   * Record that the token was just used
+   */
+  readonly markUsed: (
+    id: AccessTokenId
+  ) => Effect.Effect<void, AccessTokenDomainError>;
+
+  /**
+   * Revoke a token; revoking a revoked token does nothing
+   */
+  readonly revoke: (
+    id: AccessTokenId
+  ) => Effect.Effect<void, AccessTokenDomainError>;
+}
+
+/**
+ * Context tag for dependency injection
+ */
+export const AccessTokenRepositoryTag =
+  Context.GenericTag<AccessTokenRepository>("@app/AccessTokenRepository");
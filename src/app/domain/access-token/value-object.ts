@@ -0,0 +1,84 @@
+import { createHash, randomBytes } from "crypto";
+import { Schema as S } from "effect";
+
+/**
+ * Access Token Value Objects and Constants
+ */
+
+/**
+ * Access Token Scope Enumeration
+ * A scope only narrows what the token's user may do; it never adds access
+ * - READ_ONLY: read documents, metadata and permissions, download files
+ * - UPLOAD: READ_ONLY plus uploading documents and versions
+ * - ADMIN: everything the user may do
+ */
+export const AccessTokenScope = S.Literal("READ_ONLY", "UPLOAD", "ADMIN");
+export type AccessTokenScope = S.Schema.Type<typeof AccessTokenScope>;
+
+const SCOPE_RANK: Record<AccessTokenScope, number> = {
+  READ_ONLY: 0,
+  UPLOAD: 1,
+  ADMIN: 2,
+};
+
+/**
+ * Check whether a granted scope includes the required one
+ */
+export const scopeCovers = (
+  granted: AccessTokenScope,
+  required: AccessTokenScope
+): boolean => SCOPE_RANK[granted] >= SCOPE_RANK[required];
+
+/**
+ * Access token name schema
+ */
+export const AccessTokenName = S.String.pipe(
+  S.filter((value) => value.trim().length > 0, {
+    message: () => "Access token name cannot be empty",
+  }),
+  S.filter((value) => value.length <= 100, {
+    message: () => "Access token name cannot exceed 100 characters",
+  }),
+  S.brand("AccessTokenName")
+);
+
+export type AccessTokenName = S.Schema.Type<typeof AccessTokenName>;
+
+/**
+ * Longest lifetime a token can be created with (in days)
+ */
+export const MAX_ACCESS_TOKEN_TTL_DAYS = 365;
+
+/**
+ * Prefix telling access tokens apart from JWTs
+ */
+export const ACCESS_TOKEN_PREFIX = "hdm_pat_";
+
+/**
+ * Number of characters after the prefix kept to recognise a token
+ */
+const ACCESS_TOKEN_HINT_LENGTH = 4;
+
+/**
+ * Generate a new access token
+ */
+export const generateAccessToken = (): string =>
+  `${ACCESS_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+/**
+ * Check whether a bearer token is an access token rather than a JWT
+ */
+export const isAccessToken = (token: string): boolean =>
+  token.startsWith(ACCESS_TOKEN_PREFIX);
+
+/**
+ * Hash stored for an access token; the token itself is never stored
+ */
+export const hashAccessToken = (token: string): string =>
+  createHash("sha256").update(token).digest("hex");
+
+/**
+ * Start of the token shown in listings so users can tell tokens apart
+ */
+export const accessTokenHint = (token: string): string =>
+  token.slice(0, ACCESS_TOKEN_PREFIX.length + ACCESS_TOKEN_HINT_LENGTH);
@@ -0,0 +1,95 @@
+import { Option } from "effect";
+import { AccountTokenId, UserId } from "../refined/uuid";
+import {
+  BaseEntity,
+  IEntity,
+  Maybe,
+  normalizeMaybe,
+  optionToMaybe,
+} from "../shared/base-entity";
+import { AccountTokenPurpose } from "./value-object";
+
+// ============================================================================
+// Serialized Types
+// ============================================================================
+
+/**
+ * Serialized AccountToken type (for external systems)
+ */
+export type SerializedAccountToken = {
+  readonly id: string;
+  readonly userId: string;
+  readonly purpose: AccountTokenPurpose;
+  readonly tokenHash: string;
+  readonly expiresAt: Date;
+  readonly consumedAt?: Maybe<Date>;
+  readonly createdAt?: Date;
+};
+
+// ============================================================================
+// AccountToken Entity
+// ============================================================================
+
+/**
+ * AccountToken Entity
+ *
+ * A mailed, single-use token proving control of the user's mailbox.
+ * A token is spent by the first request that uses it.
+ */
+export class AccountTokenEntity extends BaseEntity implements IEntity {
+  constructor(
+    public readonly id: AccountTokenId,
+    public readonly userId: UserId,
+    public readonly purpose: AccountTokenPurpose,
+    public readonly tokenHash: string,
+    public readonly expiresAt: Date,
+    public readonly consumedAt: Option.Option<Date>,
+    public readonly createdAt: Date
+  ) {
+    super();
+  }
+
+  /**
+   * Create a new token
+   */
+  static create(input: SerializedAccountToken): AccountTokenEntity {
+    return new AccountTokenEntity(
+      input.id as AccountTokenId,
+      input.userId as UserId,
+      input.purpose,
+      input.tokenHash,
+      input.expiresAt,
+      normalizeMaybe(input.consumedAt),
+      input.createdAt ?? new Date()
+    );
+  }
+
+  /**
+   * Check if token is expired
+   */
+  isExpired(): boolean {
+    return new Date() > this.expiresAt;
+  }
+
+  /**
+   * Check if token has already been used
+   */
+  isConsumed(): boolean {
+    return Option.isSome(this.consumedAt);
+  }
+
+  /**
+   * Serialize to external format
+   */
+  serialize(): SerializedAccountToken {
+    return {
+      id: this.id,
+      userId: this.userId,
+      purpose: this.purpose,
+      tokenHash: this.tokenHash,
+      expiresAt: this.expiresAt,
+      consumedAt: optionToMaybe(this.consumedAt),
+      createdAt: this.createdAt,
+    };
+  }
+}
@@ -0,0 +1,24 @@
+import { Data } from "effect";
+
+/**
+ * Account Token Domain Errors
+ */
+
+export class AccountTokenInvalidError extends Data.TaggedError(
+  "AccountTokenInvalidError"
+)<{
+  readonly message: string;
+}> {}
+
+export class AccountTokenConstraintError extends Data.TaggedError(
+  "AccountTokenConstraintError"
+)<{
+  readonly message: string;
+}> {}
+
+/**
+ * Union of all Account Token domain errors
+ */
+export type AccountTokenDomainError =
+  | AccountTokenInvalidError
+  | AccountTokenConstraintError;
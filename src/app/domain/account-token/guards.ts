@@ -0,0 +1,24 @@
+import { Effect } from "effect";
+import type { AccountTokenEntity } from "./entity";
+import { AccountTokenInvalidError } from "./errors";
+import type { AccountTokenPurpose } from "./value-object";
+
+/**
+ * Account Token Domain Business Rules and Guards
+ */
+
+/**
+ * Guard: Token must be for the purpose, unused and unexpired
+ * All three are reported alike so the response reveals nothing
+ */
+export const guardAccountTokenUsable = (
+  token: AccountTokenEntity,
+  purpose: AccountTokenPurpose
+): Effect.Effect<void, AccountTokenInvalidError> =>
+  token.purpose !== purpose || token.isConsumed() || token.isExpired()
+    ? Effect.fail(
+        new AccountTokenInvalidError({
+          message: "Link is invalid or has expired",
+        })
+      )
+    : Effect.void;
@@ -0,0 +1,52 @@
+import { Effect, Option, Context } from "effect";
+import { AccountTokenEntity } from "./entity";
+import { AccountTokenDomainError } from "./errors";
+import { AccountTokenId, UserId } from "../refined/uuid";
+import { AccountTokenPurpose } from "./value-object";
+
+/**
+ * Account Token Repository Interface
+ *
+ * Defines the contract for account token persistence operations.
+ * Repositories work with entities, not payloads.
+ */
+export interface AccountTokenRepository {
+  /**
+   * Save a new token
+   */
+  readonly save: (
+    token: AccountTokenEntity
+  ) => Effect.Effect<AccountTokenEntity, AccountTokenDomainError>;
+
+  /**
+   * Find a token by the hash of its value
+   */
+  readonly findByHash: (
+    tokenHash: string
+  ) => Effect.Effect<
+    Option.Option<AccountTokenEntity>,
+    AccountTokenDomainError
+  >;
+
+  /**
+   * Mark a token used; fails if it already was, so it works once
+   */
+  readonly consume: (
+    id: AccountTokenId
+  ) => Effect.Effect<void, AccountTokenDomainError>;
+
+  /**
+   * Spend every unused token of a user for a purpose, so only the newest
+   * link works
+   */
+  readonly invalidateForUser: (
+    userId: UserId,
+    purpose: AccountTokenPurpose
+  ) => Effect.Effect<void, AccountTokenDomainError>;
+}
+
+/**
+ * Context tag for dependency injection
+ */
+export const AccountTokenRepositoryTag =
+  Context.GenericTag<AccountTokenRepository>("@app/AccountTokenRepository");
@@ -0,0 +1,49 @@
+import { createHash, randomBytes } from "crypto";
+import { Schema as S } from "effect";
+
+/**
+ * Account Token Value Objects and Constants
+ *
+ * Single-use tokens mailed to a user: password reset links and email
+ * verification links. Only the SHA-256 hash of a token is stored.
+ */
+
+/**
+ * What a token may be used for
+ */
+export const AccountTokenPurpose = S.Literal(
+  "PASSWORD_RESET",
+  "EMAIL_VERIFICATION"
+);
+export type AccountTokenPurpose = S.Schema.Type<typeof AccountTokenPurpose>;
+
+/**
+ * Token lifetime per purpose (in minutes)
+ * Reset links are short-lived since they bypass the password
+ */
+export const ACCOUNT_TOKEN_TTL_MINUTES: Record<AccountTokenPurpose, number> =
+  {
+    PASSWORD_RESET: 60,
+    EMAIL_VERIFICATION: 48 * 60,
+  };
+
+/**
+ * Generate the token handed to the user
+ */
+export const generateAccountToken = (): string =>
+  randomBytes(32).toString("base64url");
+
+/**
+ * Hash stored for a token; the token itself is never stored
+ */
+export const hashAccountToken = (token: string): string =>
+  createHash("sha256").update(token).digest("hex");
+
+/**
+ * Expiry of a token of the given purpose issued at the given time
+ */
+export const accountTokenExpiry = (
+  purpose: AccountTokenPurpose,
+  issuedAt: Date
+): Date =>
+  new Date(issuedAt.getTime() + ACCOUNT_TOKEN_TTL_MINUTES[purpose] * 60_000);
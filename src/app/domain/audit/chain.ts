@@ -0,0 +1,121 @@
+import { createHash } from "crypto";
+import { Option } from "effect";
+
+/**
+ * Audit Hash Chain
+ *
+ * Every document has its own chain of audit entries, and entries without a
+ * document (documentId null) share one more chain. Entry n stores the hash
+ * of entry n-1 next to a hash over its own content and that previous hash,
+ * so editing, deleting or reordering an entry breaks every later link.
+ */
+
+/**
+ * Previous hash of the first entry in a chain
+ */
+export const GENESIS_HASH = "0".repeat(64);
+
+/**
+ * Audit entry content covered by the hash, exactly as stored
+ */
+export interface AuditChainEntry {
+  readonly id: string;
+  readonly documentId: string | null;
+  readonly sequence: number;
+  readonly action: string;
+  readonly performedBy: string;
+  readonly details: string;
+  readonly beforeValue: string | null;
+  readonly afterValue: string | null;
+  readonly correlationId: string | null;
+  readonly performedAt: string;
+  readonly prevHash: string;
+  readonly hash: string;
+}
+
+/**
+ * Why a link of the chain does not verify
+ */
+export type AuditChainBreakReason =
+  | "SEQUENCE_GAP"
+  | "PREVIOUS_HASH_MISMATCH"
+  | "HASH_MISMATCH";
+
+/**
+ * First entry of a chain that does not verify
+ */
+export interface AuditChainBreak {
+  readonly documentId: string | null;
+  readonly entryId: string;
+  readonly sequence: number;
+  readonly reason: AuditChainBreakReason;
+}
+
+/**
+ * Outcome of walking one or more chains
+ */
+export interface AuditChainVerification {
+  readonly documentsChecked: number;
+  readonly entriesChecked: number;
+  readonly brokenLink: Option.Option<AuditChainBreak>;
+}
+
+/**
+ * Hash an entry's content together with the hash of the previous entry
+ */
+export const computeAuditHash = (
+  entry: Omit<AuditChainEntry, "hash">
+): string =>
+  createHash("sha256")
+    .update(
+      JSON.stringify([
+        entry.prevHash,
+        entry.id,
+        entry.documentId,
+        entry.sequence,
+        entry.action,
+        entry.performedBy,
+        entry.details,
+        entry.beforeValue,
+        entry.afterValue,
+        entry.correlationId,
+        entry.performedAt,
+      ])
+    )
+    .digest("hex");
+
+/**
+ * Walk the entries of one chain, ordered by sequence, and return
+ * the first link that does not verify
+ *
+ * Dropping the newest entries leaves a valid shorter chain; only edits,
+ * deletions in the middle and reordering are detected.
+ */
+export const findBrokenLink = (
+  entries: readonly AuditChainEntry[]
+): Option.Option<AuditChainBreak> => {
+  let prevHash = GENESIS_HASH;
+
+  for (const [index, entry] of entries.entries()) {
+    const reason: AuditChainBreakReason | undefined =
+      entry.sequence !== index + 1
+        ? "SEQUENCE_GAP"
+        : entry.prevHash !== prevHash
+          ? "PREVIOUS_HASH_MISMATCH"
+          : computeAuditHash(entry) !== entry.hash
+            ? "HASH_MISMATCH"
+            : undefined;
+
+    if (reason) {
+      return Option.some({
+        documentId: entry.documentId,
+        entryId: entry.id,
+        sequence: entry.sequence,
+        reason,
+      });
+    }
+    prevHash = entry.hash;
+  }
+
+  return Option.none();
+};
@@ -0,0 +1,72 @@
+import { Option } from "effect";
+import { AuditEntryId, DocumentId, UserId } from "../refined/uuid";
+import {
+  BaseEntity,
+  IEntity,
+  Maybe,
+  optionToMaybe,
+} from "../shared/base-entity";
+
+// ============================================================================
+// Serialized Types
+// ============================================================================
+
+/**
+ * Serialized AuditEntry type (for external systems)
+ */
+export type SerializedAuditEntry = {
+  readonly id: string;
+  readonly documentId?: Maybe<string>;
+  readonly action: string;
+  readonly performedBy: string;
+  readonly details?: Maybe<string>;
+  readonly before?: Maybe<unknown>;
+  readonly after?: Maybe<unknown>;
+  readonly correlationId?: Maybe<string>;
+  readonly performedAt: Date;
+};
+
+// ============================================================================
+// AuditEntry Entity
+// ============================================================================
+
+/**
+ * Audit Entry Entity
+ *
+ * An immutable record of an action performed on a document, or by a user
+ * outside any document (documentId is None).
+ * Entries are written by workflows and only ever read back.
+ * before / after hold the affected values around the change.
+ */
+export class AuditEntryEntity extends BaseEntity implements IEntity {
+  constructor(
+    public readonly id: AuditEntryId,
+    public readonly documentId: Option.Option<DocumentId>,
+    public readonly action: string,
+    public readonly performedBy: UserId,
+    public readonly details: Option.Option<string>,
+    public readonly before: Option.Option<unknown>,
+    public readonly after: Option.Option<unknown>,
+    public readonly correlationId: Option.Option<string>,
+    public readonly performedAt: Date
+  ) {
+    super();
+  }
+
+  /**
+   * Serialize to external format
+   */
+  serialize(): SerializedAuditEntry {
+    return {
+      id: this.id,
+      documentId: optionToMaybe(this.documentId),
+      action: this.action,
+      performedBy: this.performedBy,
+      details: optionToMaybe(this.details),
+      before: optionToMaybe(this.before),
+      after: optionToMaybe(this.after),
+      correlationId: optionToMaybe(this.correlationId),
+      performedAt: this.performedAt,
+    };
+  }
+}
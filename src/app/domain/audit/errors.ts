@@ -0,0 +1,23 @@
+import { Data } from "effect";
+
+/**
+ * Audit Domain Errors
+ */
+
+export class AuditValidationError extends Data.TaggedError(
+  "AuditValidationError"
+)<{
+  readonly message: string;
+  readonly field?: string;
+}> {}
+
+export class AuditInfrastructureError extends Data.TaggedError(
+  "AuditInfrastructureError"
+)<{
+  readonly message: string;
+}> {}
+
+/**
+ * Union of all Audit domain errors
+ */
+export type AuditDomainError = AuditValidationError | AuditInfrastructureError;
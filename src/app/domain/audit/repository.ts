@@ -0,0 +1,58 @@
+import { Effect, Option, Context } from "effect";
+import { AuditEntryEntity } from "./entity";
+import { AuditDomainError } from "./errors";
+import { AuditChainVerification } from "./chain";
+import { Cursor, CursorParams } from "../shared/pagination";
+import { DocumentId, UserId } from "../refined/uuid";
+
+/**
+ * Criteria for querying the audit log (all optional, combined with AND)
+ * The date range is inclusive on both ends
+ */
+export interface AuditFilter {
+  readonly documentId: Option.Option<DocumentId>;
+  readonly performedBy: Option.Option<UserId>;
+  readonly action: Option.Option<string>;
+  readonly from: Option.Option<Date>;
+  readonly to: Option.Option<Date>;
+}
+
+/**
+ * A page of audit entries, newest first
+ */
+export interface AuditPage {
+  readonly entries: readonly AuditEntryEntity[];
+  readonly nextCursor: Option.Option<Cursor>;
+}
+
+/**
+ * Audit Repository Interface
+ *
+ * Read side of the document audit log.
+ * Entries are written through the application's AuditPort, which appends
+ * them to their hash chain.
+ */
+export interface AuditRepository {
+  /**
+   * Find entries matching the filter, newest first, one page at a time
+   */
+  readonly query: (
+    filter: AuditFilter,
+    params: CursorParams
+  ) => Effect.Effect<AuditPage, AuditDomainError>;
+
+  /**
+   * Walk the hash chain of one document, or of every document, and stop at
+   * the first broken link
+   */
+  readonly verifyChain: (
+    documentId: Option.Option<DocumentId>
+  ) => Effect.Effect<AuditChainVerification, AuditDomainError>;
+}
+
+/**
+ * Context tag for dependency injection
+ */
+export const AuditRepositoryTag = Context.GenericTag<AuditRepository>(
+  "@app/AuditRepository"
+);
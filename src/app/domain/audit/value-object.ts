@@ -0,0 +1,54 @@
+import { Schema as S } from "effect";
+
+/**
+ * Audit Action Enumeration
+ * Entries written before actions were typed may carry other strings, so
+ * reads keep action as a plain string
+ */
+export const AuditAction = S.Literal(
+  // Documents
+  "created",
+  "new_version",
+  "trashed",
+  "untrashed",
+  "purged",
+  "moved",
+  "restored",
+  "ownership_transferred",
+  "upload_ticket_issued",
+  // Permissions
+  "permission_granted",
+  "permission_updated",
+  "permission_revoked",
+  "permission_expired",
+  // Metadata
+  "metadata_added",
+  "metadata_updated",
+  "metadata_deleted",
+  // Downloads
+  "download_link_generated",
+  "downloaded",
+  // Users
+  "user_logged_in",
+  "login_failed",
+  "account_locked",
+  "account_unlocked",
+  "password_reset_requested",
+  "password_reset",
+  "password_changed",
+  "email_verified",
+  "user_role_changed",
+  "user_suspended",
+  "user_reactivated",
+  "password_reset_forced",
+  "user_logged_out",
+  "refresh_token_reused",
+  "access_token_created",
+  "access_token_revoked",
+  "mfa_enabled",
+  "mfa_disabled",
+  "mfa_failed",
+  "mfa_recovery_code_used",
+  "mfa_policy_changed"
+);
+export type AuditAction = S.Schema.Type<typeof AuditAction>;
@@ -1,5 +1,10 @@
 import { Schema as S, Option, Effect as E, pipe } from "effect";
-import { DocumentId, DocumentVersionId, UserId } from "../refined/uuid";
+import {
+  DocumentId,
+  DocumentVersionId,
+  FolderId,
+  UserId,
+} from "../refined/uuid";
 import {
   Filename,
   FilePath,
@@ -167,9 +172,12 @@ export type SerializedDocument = {
   readonly mimeType: string;
   readonly size: number;
   readonly path?: Maybe<string>;
+  readonly folderId?: Maybe<string>;
   readonly uploadedBy: string;
   readonly createdAt?: Date;
   readonly updatedAt?: Date;
+  readonly deletedAt?: Maybe<Date>;
+  readonly deletedBy?: Maybe<string>;
   readonly versions?: SerializedDocumentVersion[];
 };
 
@@ -178,6 +186,7 @@ export type SerializedDocument = {
  *
  * Represents a document aggregate root in the system.
  * Manages versions internally as part of the aggregate.
+ * A document with a deletedAt timestamp sits in the trash until it is purged.
  */
 export class DocumentEntity extends BaseEntity implements IEntity {
   constructor(
@@ -187,9 +196,12 @@ export class DocumentEntity extends BaseEntity implements IEntity {
     public readonly mimeType: MimeType,
     public readonly size: FileSize,
     public readonly path: Option.Option<FilePath>,
+    public readonly folderId: Option.Option<FolderId>,
     public readonly uploadedBy: UserId,
     public readonly createdAt: Date,
     public readonly updatedAt: Date,
+    public readonly deletedAt: Option.Option<Date>,
+    public readonly deletedBy: Option.Option<UserId>,
     public readonly versions: readonly DocumentVersionEntity[]
   ) {
     super();
@@ -218,9 +230,12 @@ export class DocumentEntity extends BaseEntity implements IEntity {
             input.mimeType as MimeType,
             input.size as FileSize,
             normalizeMaybe(input.path as FilePath | undefined),
+            normalizeMaybe(input.folderId as FolderId | undefined),
             input.uploadedBy as UserId,
             input.createdAt ?? new Date(),
             input.updatedAt ?? new Date(),
+            normalizeMaybe(input.deletedAt),
+            normalizeMaybe(input.deletedBy as UserId | undefined),
             [] // versions will be loaded separately or added via addVersion
           )
         )
@@ -236,8 +251,10 @@ export class DocumentEntity extends BaseEntity implements IEntity {
 
   /**
    * Add a new version to the document
+   * id is only given for versions allocated ahead of the upload
    */
   addVersion(versionProps: {
+    id?: DocumentVersionId;
     filename: Filename;
     originalName: Filename;
     mimeType: MimeType;
@@ -250,7 +267,7 @@ export class DocumentEntity extends BaseEntity implements IEntity {
     const nextVersionNumber = (this.versions.length + 1) as VersionNumber;
 
     const newVersion = new DocumentVersionEntity(
-      uuidv4() as DocumentVersionId,
+      versionProps.id ?? (uuidv4() as DocumentVersionId),
       this.id,
       versionProps.filename,
       versionProps.originalName,
@@ -271,13 +288,36 @@ export class DocumentEntity extends BaseEntity implements IEntity {
       this.mimeType,
       this.size,
       this.path,
+      this.folderId,
       this.uploadedBy,
       this.createdAt,
       new Date(),
+      this.deletedAt,
+      this.deletedBy,
       [...this.versions, newVersion]
     );
   }
 
+  /**
+   * Restore a previous version by appending a copy of it as the latest version
+   * The copy points at the same stored content, so nothing is re-uploaded
+   */
+  restoreVersion(
+    version: DocumentVersionEntity,
+    restoredBy: UserId
+  ): DocumentEntity {
+    return this.addVersion({
+      filename: version.filename,
+      originalName: version.originalName,
+      mimeType: version.mimeType,
+      size: version.size,
+      uploadedBy: restoredBy,
+      path: Option.getOrUndefined(version.path),
+      contentRef: Option.getOrUndefined(version.contentRef),
+      checksum: Option.getOrUndefined(version.checksum),
+    });
+  }
+
   /**
    * Update document metadata
    */
@@ -293,13 +333,109 @@ export class DocumentEntity extends BaseEntity implements IEntity {
       this.mimeType,
       this.size,
       updates.path ? Option.some(updates.path) : this.path,
+      this.folderId,
       this.uploadedBy,
       this.createdAt,
       new Date(),
+      this.deletedAt,
+      this.deletedBy,
       this.versions
     );
   }
 
+  /**
+   * Move document into a folder (None moves it to the owner's root level)
+   */
+  moveToFolder(folderId: Option.Option<FolderId>): DocumentEntity {
+    return new DocumentEntity(
+      this.id,
+      this.filename,
+      this.originalName,
+      this.mimeType,
+      this.size,
+      this.path,
+      folderId,
+      this.uploadedBy,
+      this.createdAt,
+      new Date(),
+      this.deletedAt,
+      this.deletedBy,
+      this.versions
+    );
+  }
+
+  /**
+   * Hand the document over to a new owner
+   * Folders belong to their owner, so the document moves to the new owner's
+   * root level
+   */
+  transferOwnership(newOwnerId: UserId): DocumentEntity {
+    return new DocumentEntity(
+      this.id,
+      this.filename,
+      this.originalName,
+      this.mimeType,
+      this.size,
+      this.path,
+      Option.none(),
+      newOwnerId,
+      this.createdAt,
+      new Date(),
+      this.deletedAt,
+      this.deletedBy,
+      this.versions
+    );
+  }
+
+  /**
+   * Move document to the trash (soft delete)
+   */
+  moveToTrash(deletedBy: UserId): DocumentEntity {
+    return new DocumentEntity(
+      this.id,
+      this.filename,
+      this.originalName,
+      this.mimeType,
+      this.size,
+      this.path,
+      this.folderId,
+      this.uploadedBy,
+      this.createdAt,
+      new Date(),
+      Option.some(new Date()),
+      Option.some(deletedBy),
+      this.versions
+    );
+  }
+
+  /**
+   * Take document back out of the trash
+   */
+  restoreFromTrash(): DocumentEntity {
+    return new DocumentEntity(
+      this.id,
+      this.filename,
+      this.originalName,
+      this.mimeType,
+      this.size,
+      this.path,
+      this.folderId,
+      this.uploadedBy,
+      this.createdAt,
+      new Date(),
+      Option.none(),
+      Option.none(),
+      this.versions
+    );
+  }
+
+  /**
+   * Check if document is in the trash
+   */
+  isTrashed(): boolean {
+    return Option.isSome(this.deletedAt);
+  }
+
   /**
    * Get latest version of the document
    */
@@ -345,9 +481,12 @@ export class DocumentEntity extends BaseEntity implements IEntity {
       mimeType: this.mimeType,
       size: this.size,
       path: optionToMaybe(this.path),
+      folderId: optionToMaybe(this.folderId),
       uploadedBy: this.uploadedBy,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
+      deletedAt: optionToMaybe(this.deletedAt),
+      deletedBy: optionToMaybe(this.deletedBy),
       versions: this.versions.map((v) => v.serialize()),
     };
   }
@@ -374,3 +513,13 @@ export const toDocumentWithVersion = (
   document,
   latestVersion: document.getLatestVersion(),
 });
+
+/**
+ * Document matched by a search query (for ranked search results)
+ * rank is the bm25 score (lower is better), None for filename-only matches
+ */
+export interface DocumentSearchHit {
+  readonly document: DocumentEntity;
+  readonly rank: Option.Option<number>;
+  readonly snippet: Option.Option<string>;
+}
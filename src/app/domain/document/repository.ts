@@ -3,11 +3,54 @@ import {
   DocumentEntity,
   DocumentVersionEntity,
   DocumentWithVersion,
+  DocumentSearchHit,
 } from "./entity";
 import { DocumentDomainError } from "./errors";
-import { DocumentId, UserId } from "../refined/uuid";
-import { Checksum, ContentRef, Filename } from "./value-object";
+import { DocumentId, FolderId, UserId } from "../refined/uuid";
+import { Checksum, ContentRef, Filename, MimeType } from "./value-object";
 import { PaginationParams, Paginated } from "../shared/pagination";
+import { MetadataKey, MetadataValue } from "../metedata/value-object";
+
+/**
+ * Predicate on a document's metadata entries
+ */
+export type MetadataPredicate =
+  | {
+      readonly _tag: "Equals";
+      readonly key: MetadataKey;
+      readonly value: MetadataValue;
+    }
+  | {
+      readonly _tag: "In";
+      readonly key: MetadataKey;
+      readonly values: readonly MetadataValue[];
+    }
+  | { readonly _tag: "Exists"; readonly key: MetadataKey };
+
+/**
+ * Ownership change of one document
+ * document already carries the new owner; the new owner's direct grants on
+ * it become redundant, and the previous owner optionally keeps WRITE access
+ */
+export interface OwnershipTransfer {
+  readonly document: DocumentEntity;
+  readonly previousOwnerId: UserId;
+  readonly keepPreviousOwnerAccess: boolean;
+  readonly performedBy: UserId;
+  readonly details: string; // Audit entry details
+}
+
+/**
+ * Criteria for querying documents (all conditions must match)
+ */
+export interface DocumentQueryCriteria {
+  /** Substring of the filename or original name */
+  readonly text: Option.Option<string>;
+  readonly mimeType: Option.Option<MimeType>;
+  readonly metadata: readonly MetadataPredicate[];
+  /** When Some, only documents that user owns or was granted access to */
+  readonly readableBy: Option.Option<UserId>;
+}
 
 /**
  * Document Repository Interface
@@ -28,11 +71,19 @@ export interface DocumentRepository {
 
   /**
    * Find document by ID (loads the aggregate)
+   * Trashed documents are not returned
    */
   readonly findById: (
     id: DocumentId
   ) => Effect.Effect<Option.Option<DocumentEntity>, DocumentDomainError>;
 
+  /**
+   * Find a trashed document by ID (loads the aggregate)
+   */
+  readonly findTrashedById: (
+    id: DocumentId
+  ) => Effect.Effect<Option.Option<DocumentEntity>, DocumentDomainError>;
+
   /**
    * Find document by version checksum (for idempotency checks)
    * Returns the parent document, not the version directly
@@ -50,23 +101,34 @@ export interface DocumentRepository {
   ) => Effect.Effect<Option.Option<DocumentEntity>, DocumentDomainError>;
 
   /**
-   * Find document by filename and user (for duplicate check)
+   * Find document by filename within a folder (for duplicate check)
+   * A None folderId looks at the user's root level
    * Returns the parent document if found
    */
-  readonly findByFilenameAndUser: (
+  readonly findByFilenameInFolder: (
     filename: Filename,
-    userId: UserId
+    userId: UserId,
+    folderId: Option.Option<FolderId>
   ) => Effect.Effect<Option.Option<DocumentEntity>, DocumentDomainError>;
 
   /**
    * List documents by user with pagination
    * Returns documents with their latest version for display
+   * When folderId is Some, only documents directly inside that folder are listed
    */
   readonly listByUser: (
     userId: UserId,
-    pagination: PaginationParams
+    pagination: PaginationParams,
+    folderId?: Option.Option<FolderId>
   ) => Effect.Effect<Paginated<DocumentWithVersion>, DocumentDomainError>;
 
+  /**
+   * Count documents directly inside a folder
+   */
+  readonly countByFolder: (
+    folderId: FolderId
+  ) => Effect.Effect<number, DocumentDomainError>;
+
   /**
    * List all documents with pagination
    */
@@ -75,27 +137,71 @@ export interface DocumentRepository {
   ) => Effect.Effect<Paginated<DocumentWithVersion>, DocumentDomainError>;
 
   /**
-   * Search documents by query
+   * Search documents by filename and indexed content
+   * Content matches come first, ordered by relevance
+   * When readableBy is Some, only documents that user owns or was granted
+   * access to are returned
    */
   readonly search: (
     query: string,
-    pagination: PaginationParams
-  ) => Effect.Effect<Paginated<DocumentEntity>, DocumentDomainError>;
+    pagination: PaginationParams,
+    readableBy: Option.Option<UserId>
+  ) => Effect.Effect<Paginated<DocumentSearchHit>, DocumentDomainError>;
 
   /**
-   * Delete document (and all its versions)
+   * Query documents by filename text, MIME type and metadata predicates
+   * Returns documents with their latest version, most recently updated first
    */
-  readonly delete: (id: DocumentId) => Effect.Effect<void, DocumentDomainError>;
+  readonly query: (
+    criteria: DocumentQueryCriteria,
+    pagination: PaginationParams
+  ) => Effect.Effect<Paginated<DocumentWithVersion>, DocumentDomainError>;
 
   /**
-   * Add audit log entry
+   * Index extracted text content for full-text search
+   * Content is keyed by checksum, re-indexing the same checksum replaces it
    */
-  readonly addAudit: (
-    documentId: DocumentId,
-    action: string,
-    performedBy: UserId,
-    details: Option.Option<string>
+  readonly indexContent: (
+    checksum: Checksum,
+    content: string
   ) => Effect.Effect<void, DocumentDomainError>;
+
+  /**
+   * List trashed documents with pagination
+   * A None uploadedBy lists the trash of every user
+   */
+  readonly listTrashed: (
+    uploadedBy: Option.Option<UserId>,
+    pagination: PaginationParams
+  ) => Effect.Effect<Paginated<DocumentWithVersion>, DocumentDomainError>;
+
+  /**
+   * Find documents trashed before the given date (loads the aggregates)
+   */
+  readonly findTrashedBefore: (
+    cutoff: Date
+  ) => Effect.Effect<readonly DocumentEntity[], DocumentDomainError>;
+
+  /**
+   * Find every document (not in the trash) owned by a user
+   * (loads the aggregates)
+   */
+  readonly findByOwner: (
+    userId: UserId
+  ) => Effect.Effect<readonly DocumentEntity[], DocumentDomainError>;
+
+  /**
+   * Save a transferred document together with its grants and audit entry
+   * in a single transaction; nothing is changed when any step fails
+   */
+  readonly transferOwnership: (
+    transfer: OwnershipTransfer
+  ) => Effect.Effect<DocumentEntity, DocumentDomainError>;
+
+  /**
+   * Delete document (and all its versions)
+   */
+  readonly delete: (id: DocumentId) => Effect.Effect<void, DocumentDomainError>;
 }
 
 /**
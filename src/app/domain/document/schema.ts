@@ -1,5 +1,10 @@
 import { Schema as S } from "effect";
-import { DocumentId, DocumentVersionId, UserId } from "../refined/uuid";
+import {
+  DocumentId,
+  DocumentVersionId,
+  FolderId,
+  UserId,
+} from "../refined/uuid";
 import {
   Filename,
   FilePath,
@@ -63,9 +68,12 @@ export const DocumentSchema = S.Struct({
   mimeType: MimeType,
   size: FileSize,
   path: S.optional(FilePath),
+  folderId: S.optional(FolderId),
   uploadedBy: UserId,
   createdAt: S.optional(S.Date),
   updatedAt: S.optional(S.Date),
+  deletedAt: S.optional(S.Date),
+  deletedBy: S.optional(UserId),
 });
 
 /**
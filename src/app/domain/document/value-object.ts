@@ -10,6 +10,9 @@ export const MAX_FILE_SIZE = 100 * 1024 * 1024;
 /** Minimum file size */
 export const MIN_FILE_SIZE = 1;
 
+/** Days a trashed document is kept before it is purged */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
 /**
  * Filename schema
  */
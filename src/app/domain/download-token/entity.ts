@@ -5,7 +5,7 @@ import {
   DocumentVersionId,
   UserId,
 } from "../refined/uuid";
-import { Token } from "./value-object";
+import { Token, MAX_DOWNLOAD_RESUMES } from "./value-object";
 import { v4 as uuidv4 } from "uuid";
 import { randomBytes } from "crypto";
 import {
@@ -31,6 +31,8 @@ export type SerializedDownloadToken = {
   readonly usedAt?: Maybe<Date>;
   readonly createdBy: string;
   readonly createdAt?: Date;
+  readonly resumedFrom?: number;
+  readonly resumeCount?: number;
 };
 
 /**
@@ -52,6 +54,8 @@ export type SerializedDownloadTokenWithDocument = {
  * Download Token Entity - Aggregate Root
  *
  * Represents a shareable link for downloading a document or specific version.
+ * A used token remembers where its download last resumed, so a resume can
+ * only move forward through the file.
  */
 export class DownloadTokenEntity extends BaseEntity implements IEntity {
   constructor(
@@ -62,7 +66,9 @@ export class DownloadTokenEntity extends BaseEntity implements IEntity {
     public readonly expiresAt: Date,
     public readonly usedAt: Option.Option<Date>,
     public readonly createdBy: UserId,
-    public readonly createdAt: Date
+    public readonly createdAt: Date,
+    public readonly resumedFrom: number = 0,
+    public readonly resumeCount: number = 0
   ) {
     super();
   }
@@ -84,7 +90,9 @@ export class DownloadTokenEntity extends BaseEntity implements IEntity {
           input.expiresAt,
           normalizeMaybe(input.usedAt),
           input.createdBy as UserId,
-          input.createdAt ?? new Date()
+          input.createdAt ?? new Date(),
+          input.resumedFrom ?? 0,
+          input.resumeCount ?? 0
         )
       );
     } catch (error) {
@@ -108,7 +116,41 @@ export class DownloadTokenEntity extends BaseEntity implements IEntity {
       this.expiresAt,
       Option.some(new Date()),
       this.createdBy,
-      this.createdAt
+      this.createdAt,
+      this.resumedFrom,
+      this.resumeCount
+    );
+  }
+
+  /**
+   * Record a resumed download starting at the given byte offset
+   */
+  resumeFrom(offset: number): DownloadTokenEntity {
+    return new DownloadTokenEntity(
+      this.id,
+      this.documentId,
+      this.versionId,
+      this.token,
+      this.expiresAt,
+      this.usedAt,
+      this.createdBy,
+      this.createdAt,
+      offset,
+      this.resumeCount + 1
+    );
+  }
+
+  /**
+   * Check if a used token may resume at the given byte offset
+   * A resume must continue past the previous one and is capped, so a used
+   * token cannot be replayed from the start
+   */
+  canResumeFrom(offset: number): boolean {
+    return (
+      this.isUsed() &&
+      offset > 0 &&
+      offset > this.resumedFrom &&
+      this.resumeCount < MAX_DOWNLOAD_RESUMES
     );
   }
 
@@ -159,6 +201,8 @@ export class DownloadTokenEntity extends BaseEntity implements IEntity {
       usedAt: optionToMaybe(this.usedAt),
       createdBy: this.createdBy,
       createdAt: this.createdAt,
+      resumedFrom: this.resumedFrom,
+      resumeCount: this.resumeCount,
     };
   }
 }
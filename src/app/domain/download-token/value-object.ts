@@ -40,6 +40,11 @@ export const TokenHelpers = {
 export const DEFAULT_TOKEN_EXPIRATION_MS = 24 * 60 * 60 * 1000; // 24 hours
 export const MAX_TOKEN_EXPIRATION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
+/**
+ * Number of times a used token may resume its download
+ */
+export const MAX_DOWNLOAD_RESUMES = 5;
+
 /**
  * Calculate expiration date from now
  */
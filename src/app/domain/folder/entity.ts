@@ -0,0 +1,123 @@
+import { Option, Effect as E, pipe } from "effect";
+import { FolderId, UserId } from "../refined/uuid";
+import { FolderName } from "./value-object";
+import {
+  BaseEntity,
+  IEntity,
+  Maybe,
+  normalizeMaybe,
+  optionToMaybe,
+} from "../shared/base-entity";
+import { FolderValidationError } from "./errors";
+import * as FolderGuards from "./guards";
+
+// ============================================================================
+// Serialized Types
+// ============================================================================
+
+/**
+ * Serialized Folder type (for external systems)
+ */
+export type SerializedFolder = {
+  readonly id: string;
+  readonly name: string;
+  readonly parentId?: Maybe<string>;
+  readonly ownerId: string;
+  readonly createdAt?: Date;
+  readonly updatedAt?: Date;
+};
+
+// ============================================================================
+// Folder Entity
+// ============================================================================
+
+/**
+ * Folder Entity - Aggregate Root
+ *
+ * Represents a node in a user's folder tree. Folders nest through parentId;
+ * a folder without a parent sits at the owner's root level.
+ */
+export class FolderEntity extends BaseEntity implements IEntity {
+  constructor(
+    public readonly id: FolderId,
+    public readonly name: FolderName,
+    public readonly parentId: Option.Option<FolderId>,
+    public readonly ownerId: UserId,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {
+    super();
+  }
+
+  /**
+   * Create a new folder with validation
+   * Uses internal validation (no encoding/decoding) since data is already in memory
+   */
+  static create(
+    input: SerializedFolder
+  ): E.Effect<FolderEntity, FolderValidationError, never> {
+    return pipe(
+      FolderGuards.guardFolderName(input.name),
+      E.map(
+        (name) =>
+          new FolderEntity(
+            input.id as FolderId,
+            name,
+            normalizeMaybe(input.parentId as FolderId | undefined),
+            input.ownerId as UserId,
+            input.createdAt ?? new Date(),
+            input.updatedAt ?? new Date()
+          )
+      )
+    );
+  }
+
+  /**
+   * Rename the folder
+   */
+  rename(name: FolderName): FolderEntity {
+    return new FolderEntity(
+      this.id,
+      name,
+      this.parentId,
+      this.ownerId,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Move the folder under a new parent (None moves it to the root level)
+   */
+  moveTo(parentId: Option.Option<FolderId>): FolderEntity {
+    return new FolderEntity(
+      this.id,
+      this.name,
+      parentId,
+      this.ownerId,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Check if folder sits at the root level
+   */
+  isRoot(): boolean {
+    return Option.isNone(this.parentId);
+  }
+
+  /**
+   * Serialize to external format
+   */
+  serialize(): SerializedFolder {
+    return {
+      id: this.id,
+      name: this.name,
+      parentId: optionToMaybe(this.parentId),
+      ownerId: this.ownerId,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
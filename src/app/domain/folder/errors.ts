@@ -0,0 +1,58 @@
+import { Data } from "effect";
+
+/**
+ * Folder Domain Errors
+ */
+
+export class FolderNotFoundError extends Data.TaggedError(
+  "FolderNotFoundError"
+)<{
+  readonly folderId: string;
+  readonly message?: string;
+}> {}
+
+export class FolderAlreadyExistsError extends Data.TaggedError(
+  "FolderAlreadyExistsError"
+)<{
+  readonly name: string;
+  readonly parentId?: string;
+  readonly message?: string;
+}> {}
+
+export class FolderNotEmptyError extends Data.TaggedError(
+  "FolderNotEmptyError"
+)<{
+  readonly folderId: string;
+  readonly message?: string;
+}> {}
+
+export class FolderValidationError extends Data.TaggedError(
+  "FolderValidationError"
+)<{
+  readonly message: string;
+  readonly field?: string;
+}> {}
+
+export class FolderForbiddenError extends Data.TaggedError(
+  "FolderForbiddenError"
+)<{
+  readonly message: string;
+  readonly folderId?: string;
+}> {}
+
+export class FolderConstraintError extends Data.TaggedError(
+  "FolderConstraintError"
+)<{
+  readonly message: string;
+}> {}
+
+/**
+ * Union of all Folder domain errors
+ */
+export type FolderDomainError =
+  | FolderNotFoundError
+  | FolderAlreadyExistsError
+  | FolderNotEmptyError
+  | FolderValidationError
+  | FolderForbiddenError
+  | FolderConstraintError;
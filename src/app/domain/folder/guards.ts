@@ -0,0 +1,79 @@
+import { Effect, Option, pipe, Schema as S } from "effect";
+import type { FolderEntity } from "./entity";
+import type { UserEntity } from "../user/entity";
+import { FolderId, UserId } from "../refined/uuid";
+import { FolderName } from "./value-object";
+import { FolderValidationError, FolderForbiddenError } from "./errors";
+
+/**
+ * Folder Domain Business Rules and Guards
+ */
+
+/**
+ * Check if user owns the folder
+ */
+export const isFolderOwner = (folder: FolderEntity, userId: UserId): boolean =>
+  folder.ownerId === userId;
+
+/**
+ * Guard: Folder name must be valid
+ */
+export const guardFolderName = (
+  name: string
+): Effect.Effect<FolderName, FolderValidationError> =>
+  pipe(
+    S.decodeUnknown(FolderName)(name.trim()),
+    Effect.mapError(
+      (error) =>
+        new FolderValidationError({
+          message: `Folder validation failed: ${error.message}`,
+          field: "name",
+        })
+    )
+  );
+
+/**
+ * Guard: Only the folder owner or an admin may manage a folder
+ */
+export const guardFolderAccess = (
+  folder: FolderEntity,
+  user: UserEntity
+): Effect.Effect<void, FolderForbiddenError> =>
+  user.role === "ADMIN" || isFolderOwner(folder, user.id)
+    ? Effect.void
+    : Effect.fail(
+        new FolderForbiddenError({
+          message: "You do not own this folder",
+          folderId: folder.id,
+        })
+      );
+
+/**
+ * Guard: A folder cannot be moved into itself or one of its descendants
+ *
+ * @param folderId - The folder being moved
+ * @param targetPath - Path from the root to the new parent (inclusive)
+ */
+export const guardNotMovingIntoSelf = (
+  folderId: FolderId,
+  targetPath: readonly FolderEntity[]
+): Effect.Effect<void, FolderValidationError> =>
+  targetPath.some((f) => f.id === folderId)
+    ? Effect.fail(
+        new FolderValidationError({
+          message: "A folder cannot be moved into itself or its descendants",
+          field: "parentId",
+        })
+      )
+    : Effect.void;
+
+/**
+ * Check whether two optional parent IDs point at the same location
+ */
+export const isSameParent = (
+  a: Option.Option<FolderId>,
+  b: Option.Option<FolderId>
+): boolean =>
+  Option.isNone(a) && Option.isNone(b)
+    ? true
+    : Option.isSome(a) && Option.isSome(b) && a.value === b.value;
@@ -0,0 +1,66 @@
+import { Effect, Option, Context } from "effect";
+import { FolderEntity } from "./entity";
+import { FolderDomainError } from "./errors";
+import { FolderId, UserId } from "../refined/uuid";
+import { FolderName } from "./value-object";
+
+/**
+ * Folder Repository Interface
+ *
+ * Defines the contract for folder data persistence operations.
+ * Repositories work with entities, not payloads.
+ */
+export interface FolderRepository {
+  /**
+   * Save a folder (create or update)
+   */
+  readonly save: (
+    folder: FolderEntity
+  ) => Effect.Effect<FolderEntity, FolderDomainError>;
+
+  /**
+   * Find folder by ID
+   */
+  readonly findById: (
+    id: FolderId
+  ) => Effect.Effect<Option.Option<FolderEntity>, FolderDomainError>;
+
+  /**
+   * Find a sibling folder by name (for duplicate check)
+   * A None parentId looks at the owner's root level
+   */
+  readonly findByNameInParent: (
+    name: FolderName,
+    ownerId: UserId,
+    parentId: Option.Option<FolderId>
+  ) => Effect.Effect<Option.Option<FolderEntity>, FolderDomainError>;
+
+  /**
+   * List direct children of a folder
+   * A None parentId lists the owner's root-level folders
+   */
+  readonly findChildren: (
+    ownerId: UserId,
+    parentId: Option.Option<FolderId>
+  ) => Effect.Effect<readonly FolderEntity[], FolderDomainError>;
+
+  /**
+   * Get the path from the root down to the given folder (inclusive)
+   * Returns an empty array if the folder does not exist
+   */
+  readonly findPath: (
+    id: FolderId
+  ) => Effect.Effect<readonly FolderEntity[], FolderDomainError>;
+
+  /**
+   * Delete folder
+   */
+  readonly delete: (id: FolderId) => Effect.Effect<void, FolderDomainError>;
+}
+
+/**
+ * Context tag for dependency injection
+ */
+export const FolderRepositoryTag = Context.GenericTag<FolderRepository>(
+  "@app/FolderRepository"
+);
@@ -0,0 +1,33 @@
+import { Schema as S } from "effect";
+import { FolderId, UserId } from "../refined/uuid";
+import { FolderName } from "./value-object";
+
+/**
+ * Folder Domain Schemas
+ *
+ * These schemas are used for validation and encoding/decoding of folder entities.
+ *
+ * Note: Entity schemas use S.Date for internal date representation.
+ * API DTOs use DateTime (DateFromString with branding) for JSON serialization.
+ */
+
+// ============================================================================
+// Folder Schema
+// ============================================================================
+
+/**
+ * Folder Schema for validation and encoding/decoding
+ */
+export const FolderSchema = S.Struct({
+  id: FolderId,
+  name: FolderName,
+  parentId: S.optional(FolderId),
+  ownerId: UserId,
+  createdAt: S.optional(S.Date),
+  updatedAt: S.optional(S.Date),
+});
+
+/**
+ * Type derived from Folder Schema
+ */
+export type FolderSchemaType = S.Schema.Type<typeof FolderSchema>;
@@ -0,0 +1,40 @@
+import { Schema as S } from "effect";
+
+/**
+ * Folder-specific value objects
+ */
+
+/**
+ * Folder name schema
+ */
+export const FolderName = S.String.pipe(
+  S.filter((value) => value.trim().length > 0, {
+    message: () => "Folder name cannot be empty",
+  }),
+  S.filter((value) => value.length <= 255, {
+    message: () => "Folder name cannot exceed 255 characters",
+  }),
+  S.filter((value) => !/[\/\\]/.test(value), {
+    message: () => "Folder name cannot contain path separators",
+  }),
+  S.filter((value) => value !== "." && value !== "..", {
+    message: () => "Folder name cannot be '.' or '..'",
+  }),
+  S.brand("FolderName")
+);
+
+export type FolderName = S.Schema.Type<typeof FolderName>;
+
+/** Constructors */
+export const makeFolderName = (input: unknown) =>
+  S.decodeUnknown(FolderName)(input);
+
+/**
+ * Folder Value Object Creation Helpers
+ *
+ * Create branded folder types from primitives without 'as any' casts.
+ */
+export const FolderHelpers = {
+  /** Create FolderName from string, trimming surrounding whitespace */
+  name: (name: string): FolderName => name.trim() as FolderName,
+} as const;
@@ -0,0 +1,138 @@
+import { Effect as E, pipe } from "effect";
+import { GroupId, UserId } from "../refined/uuid";
+import { GroupName } from "./value-object";
+import { BaseEntity, IEntity } from "../shared/base-entity";
+import { GroupValidationError } from "./errors";
+import * as GroupGuards from "./guards";
+
+// ============================================================================
+// Serialized Types
+// ============================================================================
+
+/**
+ * Serialized Group type (for external systems)
+ */
+export type SerializedGroup = {
+  readonly id: string;
+  readonly name: string;
+  readonly ownerId: string;
+  readonly memberIds?: readonly string[];
+  readonly createdAt?: Date;
+  readonly updatedAt?: Date;
+};
+
+// ============================================================================
+// Group Entity
+// ============================================================================
+
+/**
+ * Group Entity - Aggregate Root
+ *
+ * A named set of users that document permissions can be granted to.
+ * The group owns its membership list; the owner manages the group and is
+ * always a member of it.
+ */
+export class GroupEntity extends BaseEntity implements IEntity {
+  constructor(
+    public readonly id: GroupId,
+    public readonly name: GroupName,
+    public readonly ownerId: UserId,
+    public readonly memberIds: readonly UserId[],
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {
+    super();
+  }
+
+  /**
+   * Create a new group with validation
+   * The owner is added as the first member
+   */
+  static create(
+    input: SerializedGroup
+  ): E.Effect<GroupEntity, GroupValidationError, never> {
+    return pipe(
+      GroupGuards.guardGroupName(input.name),
+      E.map((name) => {
+        const ownerId = input.ownerId as UserId;
+        const memberIds = (input.memberIds ?? []) as readonly UserId[];
+
+        return new GroupEntity(
+          input.id as GroupId,
+          name,
+          ownerId,
+          memberIds.includes(ownerId) ? memberIds : [ownerId, ...memberIds],
+          input.createdAt ?? new Date(),
+          input.updatedAt ?? new Date()
+        );
+      })
+    );
+  }
+
+  /**
+   * Rename the group
+   */
+  rename(name: GroupName): GroupEntity {
+    return new GroupEntity(
+      this.id,
+      name,
+      this.ownerId,
+      this.memberIds,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Add a member (no-op if the user already belongs to the group)
+   */
+  addMember(userId: UserId): GroupEntity {
+    if (this.hasMember(userId)) {
+      return this;
+    }
+
+    return new GroupEntity(
+      this.id,
+      this.name,
+      this.ownerId,
+      [...this.memberIds, userId],
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Remove a member
+   */
+  removeMember(userId: UserId): GroupEntity {
+    return new GroupEntity(
+      this.id,
+      this.name,
+      this.ownerId,
+      this.memberIds.filter((id) => id !== userId),
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Check if a user belongs to the group
+   */
+  hasMember(userId: UserId): boolean {
+    return this.memberIds.includes(userId);
+  }
+
+  /**
+   * Serialize to external format
+   */
+  serialize(): SerializedGroup {
+    return {
+      id: this.id,
+      name: this.name,
+      ownerId: this.ownerId,
+      memberIds: this.memberIds,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
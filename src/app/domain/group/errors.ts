@@ -0,0 +1,65 @@
+import { Data } from "effect";
+
+/**
+ * Group Domain Errors
+ */
+
+export class GroupNotFoundError extends Data.TaggedError("GroupNotFoundError")<{
+  readonly groupId: string;
+  readonly message?: string;
+}> {}
+
+export class GroupAlreadyExistsError extends Data.TaggedError(
+  "GroupAlreadyExistsError"
+)<{
+  readonly name: string;
+  readonly message?: string;
+}> {}
+
+export class GroupMemberAlreadyExistsError extends Data.TaggedError(
+  "GroupMemberAlreadyExistsError"
+)<{
+  readonly groupId: string;
+  readonly userId: string;
+  readonly message?: string;
+}> {}
+
+export class GroupMemberNotFoundError extends Data.TaggedError(
+  "GroupMemberNotFoundError"
+)<{
+  readonly groupId: string;
+  readonly userId: string;
+  readonly message?: string;
+}> {}
+
+export class GroupValidationError extends Data.TaggedError(
+  "GroupValidationError"
+)<{
+  readonly message: string;
+  readonly field?: string;
+}> {}
+
+export class GroupForbiddenError extends Data.TaggedError(
+  "GroupForbiddenError"
+)<{
+  readonly message: string;
+  readonly groupId?: string;
+}> {}
+
+export class GroupConstraintError extends Data.TaggedError(
+  "GroupConstraintError"
+)<{
+  readonly message: string;
+}> {}
+
+/**
+ * Union of all Group domain errors
+ */
+export type GroupDomainError =
+  | GroupNotFoundError
+  | GroupAlreadyExistsError
+  | GroupMemberAlreadyExistsError
+  | GroupMemberNotFoundError
+  | GroupValidationError
+  | GroupForbiddenError
+  | GroupConstraintError;
@@ -0,0 +1,112 @@
+import { Effect, pipe, Schema as S } from "effect";
+import type { GroupEntity } from "./entity";
+import type { UserEntity } from "../user/entity";
+import { UserId } from "../refined/uuid";
+import { GroupName } from "./value-object";
+import {
+  GroupValidationError,
+  GroupForbiddenError,
+  GroupMemberAlreadyExistsError,
+  GroupMemberNotFoundError,
+} from "./errors";
+
+/**
+ * Group Domain Business Rules and Guards
+ */
+
+/**
+ * Check if user owns the group
+ */
+export const isGroupOwner = (group: GroupEntity, userId: UserId): boolean =>
+  group.ownerId === userId;
+
+/**
+ * Guard: Group name must be valid
+ */
+export const guardGroupName = (
+  name: string
+): Effect.Effect<GroupName, GroupValidationError> =>
+  pipe(
+    S.decodeUnknown(GroupName)(name.trim()),
+    Effect.mapError(
+      (error) =>
+        new GroupValidationError({
+          message: `Group validation failed: ${error.message}`,
+          field: "name",
+        })
+    )
+  );
+
+/**
+ * Guard: Only the group owner or an admin may manage a group
+ */
+export const guardGroupManagement = (
+  group: GroupEntity,
+  user: UserEntity
+): Effect.Effect<void, GroupForbiddenError> =>
+  user.role === "ADMIN" || isGroupOwner(group, user.id)
+    ? Effect.void
+    : Effect.fail(
+        new GroupForbiddenError({
+          message: "Only the group owner or an admin can manage this group",
+          groupId: group.id,
+        })
+      );
+
+/**
+ * Guard: Only members (and admins) may view a group
+ */
+export const guardGroupVisibility = (
+  group: GroupEntity,
+  user: UserEntity
+): Effect.Effect<void, GroupForbiddenError> =>
+  user.role === "ADMIN" || group.hasMember(user.id)
+    ? Effect.void
+    : Effect.fail(
+        new GroupForbiddenError({
+          message: "You are not a member of this group",
+          groupId: group.id,
+        })
+      );
+
+/**
+ * Guard: User must not already belong to the group
+ */
+export const guardNotMember = (
+  group: GroupEntity,
+  userId: UserId
+): Effect.Effect<void, GroupMemberAlreadyExistsError> =>
+  group.hasMember(userId)
+    ? Effect.fail(
+        new GroupMemberAlreadyExistsError({
+          groupId: group.id,
+          userId,
+          message: "User is already a member of this group",
+        })
+      )
+    : Effect.void;
+
+/**
+ * Guard: User must be a removable member of the group
+ * The owner cannot be removed; ownership keeps them in the group
+ */
+export const guardRemovableMember = (
+  group: GroupEntity,
+  userId: UserId
+): Effect.Effect<void, GroupMemberNotFoundError | GroupValidationError> =>
+  !group.hasMember(userId)
+    ? Effect.fail(
+        new GroupMemberNotFoundError({
+          groupId: group.id,
+          userId,
+          message: "User is not a member of this group",
+        })
+      )
+    : isGroupOwner(group, userId)
+      ? Effect.fail(
+          new GroupValidationError({
+            message: "The group owner cannot be removed from the group",
+            field: "userId",
+          })
+        )
+      : Effect.void;
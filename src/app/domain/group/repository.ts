@@ -0,0 +1,62 @@
+import { Effect, Option, Context } from "effect";
+import { GroupEntity } from "./entity";
+import { GroupDomainError } from "./errors";
+import { GroupId, UserId } from "../refined/uuid";
+import { GroupName } from "./value-object";
+
+/**
+ * Group Repository Interface
+ *
+ * Defines the contract for group data persistence operations.
+ * Repositories work with entities, not payloads.
+ */
+export interface GroupRepository {
+  /**
+   * Save a group (create or update), including its membership list
+   */
+  readonly save: (
+    group: GroupEntity
+  ) => Effect.Effect<GroupEntity, GroupDomainError>;
+
+  /**
+   * Find group by ID
+   */
+  readonly findById: (
+    id: GroupId
+  ) => Effect.Effect<Option.Option<GroupEntity>, GroupDomainError>;
+
+  /**
+   * Find one of the owner's groups by name (for duplicate check)
+   */
+  readonly findByNameForOwner: (
+    name: GroupName,
+    ownerId: UserId
+  ) => Effect.Effect<Option.Option<GroupEntity>, GroupDomainError>;
+
+  /**
+   * Find all groups a user is a member of
+   */
+  readonly findByMember: (
+    userId: UserId
+  ) => Effect.Effect<readonly GroupEntity[], GroupDomainError>;
+
+  /**
+   * Get the IDs of all groups a user is a member of
+   * Used when evaluating group-granted document permissions
+   */
+  readonly findGroupIdsByMember: (
+    userId: UserId
+  ) => Effect.Effect<readonly GroupId[], GroupDomainError>;
+
+  /**
+   * Delete group (memberships and group permissions go with it)
+   */
+  readonly delete: (id: GroupId) => Effect.Effect<void, GroupDomainError>;
+}
+
+/**
+ * Context tag for dependency injection
+ */
+export const GroupRepositoryTag = Context.GenericTag<GroupRepository>(
+  "@app/GroupRepository"
+);
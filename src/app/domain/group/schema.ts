@@ -0,0 +1,33 @@
+import { Schema as S } from "effect";
+import { GroupId, UserId } from "../refined/uuid";
+import { GroupName } from "./value-object";
+
+/**
+ * Group Domain Schemas
+ *
+ * These schemas are used for validation and encoding/decoding of group entities.
+ *
+ * Note: Entity schemas use S.Date for internal date representation.
+ * API DTOs use DateTime (DateFromString with branding) for JSON serialization.
+ */
+
+// ============================================================================
+// Group Schema
+// ============================================================================
+
+/**
+ * Group Schema for validation and encoding/decoding
+ */
+export const GroupSchema = S.Struct({
+  id: GroupId,
+  name: GroupName,
+  ownerId: UserId,
+  memberIds: S.Array(UserId),
+  createdAt: S.optional(S.Date),
+  updatedAt: S.optional(S.Date),
+});
+
+/**
+ * Type derived from Group Schema
+ */
+export type GroupSchemaType = S.Schema.Type<typeof GroupSchema>;
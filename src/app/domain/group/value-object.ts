@@ -0,0 +1,34 @@
+import { Schema as S } from "effect";
+
+/**
+ * Group-specific value objects
+ */
+
+/**
+ * Group name schema
+ */
+export const GroupName = S.String.pipe(
+  S.filter((value) => value.trim().length > 0, {
+    message: () => "Group name cannot be empty",
+  }),
+  S.filter((value) => value.length <= 100, {
+    message: () => "Group name cannot exceed 100 characters",
+  }),
+  S.brand("GroupName")
+);
+
+export type GroupName = S.Schema.Type<typeof GroupName>;
+
+/** Constructors */
+export const makeGroupName = (input: unknown) =>
+  S.decodeUnknown(GroupName)(input);
+
+/**
+ * Group Value Object Creation Helpers
+ *
+ * Create branded group types from primitives without 'as any' casts.
+ */
+export const GroupHelpers = {
+  /** Create GroupName from string, trimming surrounding whitespace */
+  name: (name: string): GroupName => name.trim() as GroupName,
+} as const;
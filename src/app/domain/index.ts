@@ -67,3 +67,75 @@ export * from "./metedata/schema";
 export * from "./metedata/errors";
 export * from "./metedata/guards";
 export * from "./metedata/repository";
+
+// Folder domain
+export * from "./folder/entity";
+export * from "./folder/value-object";
+export * from "./folder/schema";
+export * from "./folder/errors";
+export * from "./folder/guards";
+export * from "./folder/repository";
+
+// Upload session domain
+export * from "./upload-session/entity";
+export * from "./upload-session/value-object";
+export * from "./upload-session/errors";
+export * from "./upload-session/guards";
+export * from "./upload-session/repository";
+
+// Upload ticket domain
+export * from "./upload-ticket/entity";
+export * from "./upload-ticket/value-object";
+export * from "./upload-ticket/errors";
+export * from "./upload-ticket/guards";
+export * from "./upload-ticket/repository";
+
+// Group domain
+export * from "./group/entity";
+export * from "./group/value-object";
+export * from "./group/schema";
+export * from "./group/errors";
+export * from "./group/guards";
+export * from "./group/repository";
+
+// Audit domain
+export * from "./audit/entity";
+export * from "./audit/value-object";
+export * from "./audit/errors";
+export * from "./audit/repository";
+export * from "./audit/chain";
+
+// Session domain
+export * from "./session/entity";
+export * from "./session/value-object";
+export * from "./session/errors";
+export * from "./session/guards";
+export * from "./session/repository";
+
+// Access token domain
+export * from "./access-token/entity";
+export * from "./access-token/value-object";
+export * from "./access-token/errors";
+export * from "./access-token/guards";
+export * from "./access-token/repository";
+
+// MFA domain
+export * from "./mfa/entity";
+export * from "./mfa/value-object";
+export * from "./mfa/errors";
+export * from "./mfa/guards";
+export * from "./mfa/repository";
+
+// Login throttle domain
+export * from "./login-throttle/entity";
+export * from "./login-throttle/value-object";
+export * from "./login-throttle/errors";
+export * from "./login-throttle/guards";
+export * from "./login-throttle/repository";
+
+// Account token domain
+export * from "./account-token/entity";
+export * from "./account-token/value-object";
+export * from "./account-token/errors";
+export * from "./account-token/guards";
+export * from "./account-token/repository";
@@ -0,0 +1,146 @@
+import { Option } from "effect";
+import {
+  BaseEntity,
+  IEntity,
+  Maybe,
+  normalizeMaybe,
+  optionToMaybe,
+} from "../shared/base-entity";
+import {
+  ACCOUNT_LOCKOUT_MINUTES,
+  LOGIN_FAILURE_WINDOW_MINUTES,
+  LOGIN_THROTTLE_POLICIES,
+  LoginThrottleScope,
+  loginBackoffSeconds,
+} from "./value-object";
+
+// ============================================================================
+// Serialized Types
+// ============================================================================
+
+/**
+ * Serialized LoginThrottle type (for external systems)
+ */
+export type SerializedLoginThrottle = {
+  readonly scope: LoginThrottleScope;
+  readonly key: string;
+  readonly failures?: number;
+  readonly lastFailureAt?: Maybe<Date>;
+  readonly blockedUntil?: Maybe<Date>;
+  readonly locked?: boolean;
+  readonly createdAt?: Date;
+  readonly updatedAt?: Date;
+};
+
+// ============================================================================
+// LoginThrottle Entity
+// ============================================================================
+
+/**
+ * Login Throttle Entity - Aggregate Root
+ *
+ * Recent failed logins for one account or one client IP. Each failure past
+ * the free attempts blocks further attempts for a growing time; reaching
+ * the lockout threshold locks the account instead. Failures are forgotten
+ * once the window passes without new ones.
+ */
+export class LoginThrottleEntity extends BaseEntity implements IEntity {
+  constructor(
+    public readonly scope: LoginThrottleScope,
+    public readonly key: string,
+    public readonly failures: number,
+    public readonly lastFailureAt: Option.Option<Date>,
+    public readonly blockedUntil: Option.Option<Date>,
+    public readonly locked: boolean,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {
+    super();
+  }
+
+  /**
+   * A counter is identified by its scope and key
+   */
+  get id(): string {
+    return `${this.scope}:${this.key}`;
+  }
+
+  /**
+   * Create a new (empty) counter
+   */
+  static create(input: SerializedLoginThrottle): LoginThrottleEntity {
+    const now = new Date();
+    return new LoginThrottleEntity(
+      input.scope,
+      input.key,
+      input.failures ?? 0,
+      normalizeMaybe(input.lastFailureAt),
+      normalizeMaybe(input.blockedUntil),
+      input.locked ?? false,
+      input.createdAt ?? now,
+      input.updatedAt ?? now
+    );
+  }
+
+  /**
+   * Check if attempts are currently refused
+   */
+  isBlocked(at: Date = new Date()): boolean {
+    return Option.exists(this.blockedUntil, (until) => at < until);
+  }
+
+  /**
+   * Check if the account is currently locked (not just slowed down)
+   */
+  isLocked(at: Date = new Date()): boolean {
+    return this.locked && this.isBlocked(at);
+  }
+
+  /**
+   * Count a failed login, blocking or locking further attempts as needed
+   */
+  recordFailure(at: Date = new Date()): LoginThrottleEntity {
+    const windowMs = LOGIN_FAILURE_WINDOW_MINUTES * 60 * 1000;
+    const expired =
+      !this.isBlocked(at) &&
+      Option.match(this.lastFailureAt, {
+        onNone: () => true,
+        onSome: (last) => at.getTime() - last.getTime() > windowMs,
+      });
+    const failures = expired ? 1 : this.failures + 1;
+    const threshold = LOGIN_THROTTLE_POLICIES[this.scope].lockoutThreshold;
+    const locked = threshold !== undefined && failures >= threshold;
+    const blockedMs = locked
+      ? ACCOUNT_LOCKOUT_MINUTES * 60 * 1000
+      : loginBackoffSeconds(this.scope, failures) * 1000;
+
+    return new LoginThrottleEntity(
+      this.scope,
+      this.key,
+      failures,
+      Option.some(at),
+      blockedMs > 0
+        ? Option.some(new Date(at.getTime() + blockedMs))
+        : Option.none(),
+      locked,
+      this.createdAt,
+      at
+    );
+  }
+
+  /**
+   * Serialize to external format
+   */
+  serialize(): SerializedLoginThrottle {
+    return {
+      scope: this.scope,
+      key: this.key,
+      failures: this.failures,
+      lastFailureAt: optionToMaybe(this.lastFailureAt),
+      blockedUntil: optionToMaybe(this.blockedUntil),
+      locked: this.locked,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,33 @@
+import { Data } from "effect";
+
+/**
+ * Login Throttle Domain Errors
+ */
+
+export class LoginThrottledError extends Data.TaggedError(
+  "LoginThrottledError"
+)<{
+  readonly retryAfter: Date;
+  readonly message?: string;
+}> {}
+
+export class AccountLockedError extends Data.TaggedError(
+  "AccountLockedError"
+)<{
+  readonly lockedUntil: Date;
+  readonly message?: string;
+}> {}
+
+export class LoginThrottleConstraintError extends Data.TaggedError(
+  "LoginThrottleConstraintError"
+)<{
+  readonly message: string;
+}> {}
+
+/**
+ * Union of all Login Throttle domain errors
+ */
+export type LoginThrottleDomainError =
+  | LoginThrottledError
+  | AccountLockedError
+  | LoginThrottleConstraintError;
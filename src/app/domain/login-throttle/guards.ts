@@ -0,0 +1,33 @@
+import { Effect, Option } from "effect";
+import type { LoginThrottleEntity } from "./entity";
+import { AccountLockedError, LoginThrottledError } from "./errors";
+
+/**
+ * Login Throttle Domain Business Rules and Guards
+ */
+
+/**
+ * Guard: A login may be attempted now
+ */
+export const guardLoginAllowed = (
+  throttle: LoginThrottleEntity,
+  at: Date = new Date()
+): Effect.Effect<void, LoginThrottledError | AccountLockedError> =>
+  Option.match(Option.filter(throttle.blockedUntil, (until) => at < until), {
+    onNone: () => Effect.void,
+    onSome: (until) =>
+      throttle.locked
+        ? Effect.fail(
+            new AccountLockedError({
+              lockedUntil: until,
+              message:
+                "Account is temporarily locked after too many failed logins",
+            })
+          )
+        : Effect.fail(
+            new LoginThrottledError({
+              retryAfter: until,
+              message: "Too many failed logins; try again later",
+            })
+          ),
+  });
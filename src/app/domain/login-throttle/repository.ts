@@ -0,0 +1,44 @@
+import { Effect, Option, Context } from "effect";
+import { LoginThrottleEntity } from "./entity";
+import { LoginThrottleDomainError } from "./errors";
+import type { LoginThrottleScope } from "./value-object";
+
+/**
+ * Login Throttle Repository Interface
+ *
+ * Defines the contract for persisting failed login counters.
+ * Repositories work with entities, not payloads.
+ */
+export interface LoginThrottleRepository {
+  /**
+   * Find the counter of an account or IP
+   */
+  readonly find: (
+    scope: LoginThrottleScope,
+    key: string
+  ) => Effect.Effect<
+    Option.Option<LoginThrottleEntity>,
+    LoginThrottleDomainError
+  >;
+
+  /**
+   * Save a counter, replacing the previous one
+   */
+  readonly save: (
+    throttle: LoginThrottleEntity
+  ) => Effect.Effect<LoginThrottleEntity, LoginThrottleDomainError>;
+
+  /**
+   * Forget the failures of an account or IP (successful login, unlock)
+   */
+  readonly clear: (
+    scope: LoginThrottleScope,
+    key: string
+  ) => Effect.Effect<void, LoginThrottleDomainError>;
+}
+
+/**
+ * Context tag for dependency injection
+ */
+export const LoginThrottleRepositoryTag =
+  Context.GenericTag<LoginThrottleRepository>("@app/LoginThrottleRepository");
@@ -0,0 +1,79 @@
+import { Schema as S } from "effect";
+
+/**
+ * Login Throttle Value Objects and Constants
+ *
+ * Failed logins are counted per account (the email tried) and per client
+ * IP. Past the free attempts every failure doubles the wait before the next
+ * attempt; an account that keeps failing is locked for a while.
+ */
+
+/**
+ * What a failure counter is kept for
+ */
+export const LoginThrottleScope = S.Literal("ACCOUNT", "IP");
+export type LoginThrottleScope = S.Schema.Type<typeof LoginThrottleScope>;
+
+/**
+ * Failure limits of a scope
+ * lockoutThreshold is the failure count that locks; IPs are only slowed down
+ */
+export interface LoginThrottlePolicy {
+  readonly freeAttempts: number;
+  readonly lockoutThreshold?: number;
+}
+
+/**
+ * Limits per scope; an IP may be shared by many users (NAT, proxies), so it
+ * gets more attempts before the backoff starts
+ */
+export const LOGIN_THROTTLE_POLICIES: Record<
+  LoginThrottleScope,
+  LoginThrottlePolicy
+> = {
+  ACCOUNT: { freeAttempts: 3, lockoutThreshold: 10 },
+  IP: { freeAttempts: 10 },
+};
+
+/**
+ * Wait after the first failure past the free attempts (in seconds)
+ */
+export const LOGIN_BACKOFF_BASE_SECONDS = 1;
+
+/**
+ * Longest wait between attempts (in seconds)
+ */
+export const LOGIN_BACKOFF_MAX_SECONDS = 300;
+
+/**
+ * How long a locked account stays locked
+ */
+export const ACCOUNT_LOCKOUT_MINUTES = 15;
+
+/**
+ * Failures are forgotten once none happened for this long
+ */
+export const LOGIN_FAILURE_WINDOW_MINUTES = 15;
+
+/**
+ * Wait before the next attempt after a number of failures (in seconds)
+ */
+export const loginBackoffSeconds = (
+  scope: LoginThrottleScope,
+  failures: number
+): number => {
+  const excess = failures - LOGIN_THROTTLE_POLICIES[scope].freeAttempts;
+  return excess <= 0
+    ? 0
+    : Math.min(
+        LOGIN_BACKOFF_BASE_SECONDS * 2 ** (excess - 1),
+        LOGIN_BACKOFF_MAX_SECONDS
+      );
+};
+
+/**
+ * Key an account is throttled under; case and surrounding spaces of the
+ * email are ignored
+ */
+export const accountThrottleKey = (email: string): string =>
+  email.trim().toLowerCase();
@@ -0,0 +1,288 @@
+import { Option, Effect as E } from "effect";
+import { MfaChallengeId, UserId } from "../refined/uuid";
+import {
+  BaseEntity,
+  IEntity,
+  Maybe,
+  normalizeMaybe,
+  optionToMaybe,
+} from "../shared/base-entity";
+import {
+  MAX_MFA_CHALLENGE_ATTEMPTS,
+  hashRecoveryCode,
+  isTotpCode,
+  matchTotpStep,
+} from "./value-object";
+import { InvalidMfaCodeError } from "./errors";
+
+// ============================================================================
+// Serialized Types
+// ============================================================================
+
+/**
+ * Serialized MfaEnrollment type (for external systems)
+ */
+export type SerializedMfaEnrollment = {
+  readonly userId: string;
+  readonly secret: string;
+  readonly confirmedAt?: Maybe<Date>;
+  readonly recoveryCodeHashes?: readonly string[];
+  readonly lastUsedStep?: Maybe<number>;
+  readonly createdAt?: Date;
+  readonly updatedAt?: Date;
+};
+
+/**
+ * Serialized MfaChallenge type (for external systems)
+ */
+export type SerializedMfaChallenge = {
+  readonly id: string;
+  readonly userId: string;
+  readonly tokenHash: string;
+  readonly expiresAt: Date;
+  readonly attempts?: number;
+  readonly consumedAt?: Maybe<Date>;
+  readonly createdAt?: Date;
+};
+
+/**
+ * How an MFA code was accepted
+ */
+export type MfaVerification = {
+  readonly enrollment: MfaEnrollmentEntity;
+  readonly usedRecoveryCode: boolean;
+};
+
+const invalidCode = () =>
+  new InvalidMfaCodeError({ message: "Invalid authentication code" });
+
+// ============================================================================
+// MfaEnrollment Entity
+// ============================================================================
+
+/**
+ * MFA Enrollment Entity - Aggregate Root
+ *
+ * A user's TOTP secret and unused recovery codes. An enrollment is pending
+ * until the user proves their authenticator works by entering a code; only
+ * confirmed enrollments are asked for at login. The last accepted time step
+ * is kept so a code cannot be replayed.
+ */
+export class MfaEnrollmentEntity extends BaseEntity implements IEntity {
+  constructor(
+    public readonly userId: UserId,
+    public readonly secret: string,
+    public readonly confirmedAt: Option.Option<Date>,
+    public readonly recoveryCodeHashes: readonly string[],
+    public readonly lastUsedStep: Option.Option<number>,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {
+    super();
+  }
+
+  /**
+   * A user has at most one enrollment, so it is identified by the user
+   */
+  get id(): string {
+    return this.userId;
+  }
+
+  /**
+   * Create a new (pending) enrollment
+   */
+  static create(input: SerializedMfaEnrollment): MfaEnrollmentEntity {
+    const now = new Date();
+    return new MfaEnrollmentEntity(
+      input.userId as UserId,
+      input.secret,
+      normalizeMaybe(input.confirmedAt),
+      input.recoveryCodeHashes ?? [],
+      normalizeMaybe(input.lastUsedStep),
+      input.createdAt ?? now,
+      input.updatedAt ?? now
+    );
+  }
+
+  /**
+   * Check if the user has confirmed the enrollment
+   */
+  isConfirmed(): boolean {
+    return Option.isSome(this.confirmedAt);
+  }
+
+  /**
+   * Accept a TOTP code not used before
+   */
+  verifyTotp(
+    code: string,
+    at: Date = new Date()
+  ): E.Effect<MfaEnrollmentEntity, InvalidMfaCodeError> {
+    return Option.match(matchTotpStep(this.secret, code, at), {
+      onNone: () => E.fail(invalidCode()),
+      onSome: (step) =>
+        Option.exists(this.lastUsedStep, (last) => step <= last)
+          ? E.fail(
+              new InvalidMfaCodeError({
+                message: "Authentication code has already been used",
+              })
+            )
+          : E.succeed(
+              this.with({ lastUsedStep: Option.some(step) })
+            ),
+    });
+  }
+
+  /**
+   * Confirm a pending enrollment with a TOTP code, storing the hashes of
+   * the recovery codes handed to the user
+   */
+  confirm(
+    code: string,
+    recoveryCodeHashes: readonly string[],
+    at: Date = new Date()
+  ): E.Effect<MfaEnrollmentEntity, InvalidMfaCodeError> {
+    return E.map(this.verifyTotp(code, at), (enrollment) =>
+      enrollment.with({
+        confirmedAt: Option.some(at),
+        recoveryCodeHashes,
+      })
+    );
+  }
+
+  /**
+   * Accept a TOTP code or an unused recovery code; a recovery code works once
+   */
+  verify(
+    code: string,
+    at: Date = new Date()
+  ): E.Effect<MfaVerification, InvalidMfaCodeError> {
+    if (isTotpCode(code)) {
+      return E.map(this.verifyTotp(code, at), (enrollment) => ({
+        enrollment,
+        usedRecoveryCode: false,
+      }));
+    }
+    const hash = hashRecoveryCode(code);
+    return this.recoveryCodeHashes.includes(hash)
+      ? E.succeed({
+          enrollment: this.with({
+            recoveryCodeHashes: this.recoveryCodeHashes.filter(
+              (stored) => stored !== hash
+            ),
+          }),
+          usedRecoveryCode: true,
+        })
+      : E.fail(invalidCode());
+  }
+
+  private with(
+    changes: Partial<
+      Pick<
+        MfaEnrollmentEntity,
+        "confirmedAt" | "recoveryCodeHashes" | "lastUsedStep"
+      >
+    >
+  ): MfaEnrollmentEntity {
+    return new MfaEnrollmentEntity(
+      this.userId,
+      this.secret,
+      changes.confirmedAt ?? this.confirmedAt,
+      changes.recoveryCodeHashes ?? this.recoveryCodeHashes,
+      changes.lastUsedStep ?? this.lastUsedStep,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Serialize to external format
+   */
+  serialize(): SerializedMfaEnrollment {
+    return {
+      userId: this.userId,
+      secret: this.secret,
+      confirmedAt: optionToMaybe(this.confirmedAt),
+      recoveryCodeHashes: this.recoveryCodeHashes,
+      lastUsedStep: optionToMaybe(this.lastUsedStep),
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
+
+// ============================================================================
+// MfaChallenge Entity
+// ============================================================================
+
+/**
+ * MFA Challenge Entity
+ *
+ * Issued when a password checks out for a user who must pass MFA. The
+ * challenge token stands in for the password at the TOTP step; it is
+ * short-lived, works once and stops after a few wrong codes.
+ */
+export class MfaChallengeEntity extends BaseEntity implements IEntity {
+  constructor(
+    public readonly id: MfaChallengeId,
+    public readonly userId: UserId,
+    public readonly tokenHash: string,
+    public readonly expiresAt: Date,
+    public readonly attempts: number,
+    public readonly consumedAt: Option.Option<Date>,
+    public readonly createdAt: Date
+  ) {
+    super();
+  }
+
+  /**
+   * Create a new challenge
+   */
+  static create(input: SerializedMfaChallenge): MfaChallengeEntity {
+    return new MfaChallengeEntity(
+      input.id as MfaChallengeId,
+      input.userId as UserId,
+      input.tokenHash,
+      input.expiresAt,
+      input.attempts ?? 0,
+      normalizeMaybe(input.consumedAt),
+      input.createdAt ?? new Date()
+    );
+  }
+
+  /**
+   * Check if challenge is expired
+   */
+  isExpired(): boolean {
+    return new Date() > this.expiresAt;
+  }
+
+  /**
+   * Check if challenge has already completed a login
+   */
+  isConsumed(): boolean {
+    return Option.isSome(this.consumedAt);
+  }
+
+  /**
+   * Check if too many wrong codes were entered
+   */
+  attemptsExhausted(): boolean {
+    return this.attempts >= MAX_MFA_CHALLENGE_ATTEMPTS;
+  }
+
+  /**
+   * Serialize to external format
+   */
+  serialize(): SerializedMfaChallenge {
+    return {
+      id: this.id,
+      userId: this.userId,
+      tokenHash: this.tokenHash,
+      expiresAt: this.expiresAt,
+      attempts: this.attempts,
+      consumedAt: optionToMaybe(this.consumedAt),
+      createdAt: this.createdAt,
+    };
+  }
+}
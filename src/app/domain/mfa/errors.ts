@@ -0,0 +1,61 @@
+import { Data } from "effect";
+
+/**
+ * MFA Domain Errors
+ */
+
+export class MfaNotEnabledError extends Data.TaggedError(
+  "MfaNotEnabledError"
+)<{
+  readonly userId: string;
+  readonly message?: string;
+}> {}
+
+export class MfaAlreadyEnabledError extends Data.TaggedError(
+  "MfaAlreadyEnabledError"
+)<{
+  readonly userId: string;
+  readonly message?: string;
+}> {}
+
+export class MfaRequiredError extends Data.TaggedError("MfaRequiredError")<{
+  readonly role: string;
+  readonly message?: string;
+}> {}
+
+export class InvalidMfaCodeError extends Data.TaggedError(
+  "InvalidMfaCodeError"
+)<{
+  readonly message: string;
+}> {}
+
+export class MfaChallengeInvalidError extends Data.TaggedError(
+  "MfaChallengeInvalidError"
+)<{
+  readonly message: string;
+}> {}
+
+export class MfaValidationError extends Data.TaggedError(
+  "MfaValidationError"
+)<{
+  readonly message: string;
+  readonly field?: string;
+}> {}
+
+export class MfaConstraintError extends Data.TaggedError(
+  "MfaConstraintError"
+)<{
+  readonly message: string;
+}> {}
+
+/**
+ * Union of all MFA domain errors
+ */
+export type MfaDomainError =
+  | MfaNotEnabledError
+  | MfaAlreadyEnabledError
+  | MfaRequiredError
+  | InvalidMfaCodeError
+  | MfaChallengeInvalidError
+  | MfaValidationError
+  | MfaConstraintError;
@@ -0,0 +1,58 @@
+import { Effect } from "effect";
+import type { MfaChallengeEntity, MfaEnrollmentEntity } from "./entity";
+import {
+  MfaAlreadyEnabledError,
+  MfaChallengeInvalidError,
+  MfaNotEnabledError,
+} from "./errors";
+
+/**
+ * MFA Domain Business Rules and Guards
+ */
+
+/**
+ * Guard: Enrollment must be confirmed
+ */
+export const guardMfaEnabled = (
+  enrollment: MfaEnrollmentEntity
+): Effect.Effect<void, MfaNotEnabledError> =>
+  enrollment.isConfirmed()
+    ? Effect.void
+    : Effect.fail(
+        new MfaNotEnabledError({
+          userId: enrollment.userId,
+          message: "Two-factor authentication is not enabled",
+        })
+      );
+
+/**
+ * Guard: Enrollment must still be pending
+ */
+export const guardMfaNotEnabled = (
+  enrollment: MfaEnrollmentEntity
+): Effect.Effect<void, MfaAlreadyEnabledError> =>
+  enrollment.isConfirmed()
+    ? Effect.fail(
+        new MfaAlreadyEnabledError({
+          userId: enrollment.userId,
+          message: "Two-factor authentication is already enabled",
+        })
+      )
+    : Effect.void;
+
+/**
+ * Guard: Challenge must be unused, unexpired and have attempts left
+ * All three are reported alike so the response reveals nothing
+ */
+export const guardMfaChallengeUsable = (
+  challenge: MfaChallengeEntity
+): Effect.Effect<void, MfaChallengeInvalidError> =>
+  challenge.isConsumed() ||
+  challenge.isExpired() ||
+  challenge.attemptsExhausted()
+    ? Effect.fail(
+        new MfaChallengeInvalidError({
+          message: "Login challenge is no longer valid; sign in again",
+        })
+      )
+    : Effect.void;
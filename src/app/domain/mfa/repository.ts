@@ -0,0 +1,86 @@
+import { Effect, Option, Context } from "effect";
+import { MfaChallengeEntity, MfaEnrollmentEntity } from "./entity";
+import { MfaDomainError } from "./errors";
+import { MfaChallengeId, UserId } from "../refined/uuid";
+import type { UserRole } from "../user/value-object";
+
+/**
+ * MFA Repository Interface
+ *
+ * Defines the contract for MFA persistence operations: enrollments, login
+ * challenges and which roles must use MFA.
+ * Repositories work with entities, not payloads.
+ */
+export interface MfaRepository {
+  /**
+   * Save an enrollment, replacing the user's previous one
+   */
+  readonly saveEnrollment: (
+    enrollment: MfaEnrollmentEntity
+  ) => Effect.Effect<MfaEnrollmentEntity, MfaDomainError>;
+
+  /**
+   * Find the enrollment of a user
+   */
+  readonly findEnrollment: (
+    userId: UserId
+  ) => Effect.Effect<Option.Option<MfaEnrollmentEntity>, MfaDomainError>;
+
+  /**
+   * Delete the enrollment of a user (turns MFA off)
+   */
+  readonly deleteEnrollment: (
+    userId: UserId
+  ) => Effect.Effect<void, MfaDomainError>;
+
+  /**
+   * Save a new login challenge
+   */
+  readonly saveChallenge: (
+    challenge: MfaChallengeEntity
+  ) => Effect.Effect<MfaChallengeEntity, MfaDomainError>;
+
+  /**
+   * Find a challenge by the hash of its token
+   */
+  readonly findChallengeByHash: (
+    tokenHash: string
+  ) => Effect.Effect<Option.Option<MfaChallengeEntity>, MfaDomainError>;
+
+  /**
+   * Count a wrong code against a challenge
+   */
+  readonly recordChallengeFailure: (
+    id: MfaChallengeId
+  ) => Effect.Effect<void, MfaDomainError>;
+
+  /**
+   * Mark a challenge used; fails if it already was, so it completes one login
+   */
+  readonly consumeChallenge: (
+    id: MfaChallengeId
+  ) => Effect.Effect<void, MfaDomainError>;
+
+  /**
+   * Roles whose users must use MFA
+   */
+  readonly findRequiredRoles: () => Effect.Effect<
+    readonly UserRole[],
+    MfaDomainError
+  >;
+
+  /**
+   * Require MFA for a role, or stop requiring it
+   */
+  readonly setRoleRequirement: (
+    role: UserRole,
+    required: boolean,
+    updatedBy: UserId
+  ) => Effect.Effect<void, MfaDomainError>;
+}
+
+/**
+ * Context tag for dependency injection
+ */
+export const MfaRepositoryTag =
+  Context.GenericTag<MfaRepository>("@app/MfaRepository");
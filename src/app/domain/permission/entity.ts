@@ -1,5 +1,5 @@
 import { Schema as S, Option, Effect as E, pipe } from "effect";
-import { DocumentId, UserId } from "../refined/uuid";
+import { DocumentId, GroupId, UserId } from "../refined/uuid";
 import { PermissionType } from "./value-object";
 import { v4 as uuidv4 } from "uuid";
 import {
@@ -21,10 +21,12 @@ export { PermissionId };
 export type SerializedDocumentPermission = {
   readonly id: string;
   readonly documentId: string;
-  readonly userId: string;
+  readonly userId?: Maybe<string>;
+  readonly groupId?: Maybe<string>;
   readonly permission: string;
   readonly grantedBy: string;
   readonly grantedAt?: Date;
+  readonly expiresAt?: Maybe<Date>;
 };
 
 // ============================================================================
@@ -34,16 +36,20 @@ export type SerializedDocumentPermission = {
 /**
  * Document Permission Entity - Aggregate Root
  *
- * Represents an access control rule for a document.
+ * Represents an access control rule for a document. A permission is granted
+ * either to a single user or to a group, so exactly one of userId / groupId
+ * is set. A permission with an expiry stops granting access once it lapses.
  */
 export class DocumentPermissionEntity extends BaseEntity implements IEntity {
   constructor(
     public readonly id: PermissionId,
     public readonly documentId: DocumentId,
-    public readonly userId: UserId,
+    public readonly userId: Option.Option<UserId>,
+    public readonly groupId: Option.Option<GroupId>,
     public readonly permission: PermissionType,
     public readonly grantedBy: UserId,
-    public readonly grantedAt: Date
+    public readonly grantedAt: Date,
+    public readonly expiresAt: Option.Option<Date>
   ) {
     super();
   }
@@ -55,24 +61,33 @@ export class DocumentPermissionEntity extends BaseEntity implements IEntity {
   static create(
     input: SerializedDocumentPermission
   ): E.Effect<DocumentPermissionEntity, PermissionValidationError, never> {
-    try {
-      return E.succeed(
-        new DocumentPermissionEntity(
-          input.id as PermissionId,
-          input.documentId as DocumentId,
-          input.userId as UserId,
-          input.permission as PermissionType,
-          input.grantedBy as UserId,
-          input.grantedAt ?? new Date()
-        )
-      );
-    } catch (error) {
+    const userId = normalizeMaybe(input.userId as UserId | null | undefined);
+    const groupId = normalizeMaybe(
+      input.groupId as GroupId | null | undefined
+    );
+
+    if (Option.isSome(userId) === Option.isSome(groupId)) {
       return E.fail(
         new PermissionValidationError({
-          message: `Permission validation failed: ${error}`,
+          message:
+            "A permission must be granted to exactly one of a user or a group",
+          field: "userId",
         })
       );
     }
+
+    return E.succeed(
+      new DocumentPermissionEntity(
+        input.id as PermissionId,
+        input.documentId as DocumentId,
+        userId,
+        groupId,
+        input.permission as PermissionType,
+        input.grantedBy as UserId,
+        input.grantedAt ?? new Date(),
+        normalizeMaybe(input.expiresAt)
+      )
+    );
   }
 
   /**
@@ -85,12 +100,72 @@ export class DocumentPermissionEntity extends BaseEntity implements IEntity {
       this.id,
       this.documentId,
       this.userId,
+      this.groupId,
       newPermissionType,
       this.grantedBy,
-      this.grantedAt
+      this.grantedAt,
+      this.expiresAt
+    );
+  }
+
+  /**
+   * Set or clear the expiry date
+   */
+  withExpiry(expiresAt: Option.Option<Date>): DocumentPermissionEntity {
+    return new DocumentPermissionEntity(
+      this.id,
+      this.documentId,
+      this.userId,
+      this.groupId,
+      this.permission,
+      this.grantedBy,
+      this.grantedAt,
+      expiresAt
+    );
+  }
+
+  /**
+   * Check if the permission has lapsed
+   */
+  isExpired(now: Date = new Date()): boolean {
+    return Option.exists(this.expiresAt, (expiresAt) => expiresAt <= now);
+  }
+
+  /**
+   * Check if the permission was granted to a group
+   */
+  isGroupGrant(): boolean {
+    return Option.isSome(this.groupId);
+  }
+
+  /**
+   * Check if the permission was granted directly to the user
+   */
+  isGrantedToUser(userId: UserId | string): boolean {
+    return Option.exists(this.userId, (id) => id === userId);
+  }
+
+  /**
+   * Check if the permission applies to a user, either directly or through
+   * one of the groups they belong to
+   */
+  appliesTo(userId: UserId | string, groupIds: readonly GroupId[]): boolean {
+    return (
+      this.isGrantedToUser(userId) ||
+      Option.exists(this.groupId, (id) => groupIds.includes(id))
     );
   }
 
+  /**
+   * Describe the grantee for audit messages
+   */
+  describeGrantee(): string {
+    return Option.match(this.groupId, {
+      onSome: (groupId) => `group ${groupId}`,
+      onNone: () => `user ${Option.getOrElse(this.userId, () => "unknown")}`,
+    });
+  }
+
   /**
    * Serialize to external format
    */
@@ -98,10 +173,12 @@ export class DocumentPermissionEntity extends BaseEntity implements IEntity {
     return {
       id: this.id,
       documentId: this.documentId,
-      userId: this.userId,
+      userId: optionToMaybe(this.userId),
+      groupId: optionToMaybe(this.groupId),
       permission: this.permission,
       grantedBy: this.grantedBy,
       grantedAt: this.grantedAt,
+      expiresAt: optionToMaybe(this.expiresAt),
     };
   }
 }
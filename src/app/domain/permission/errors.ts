@@ -17,7 +17,8 @@ export class PermissionAlreadyExistsError extends Data.TaggedError(
   "PermissionAlreadyExistsError"
 )<{
   readonly documentId: string;
-  readonly userId: string;
+  readonly userId?: string;
+  readonly groupId?: string;
   readonly message?: string;
 }> {}
 
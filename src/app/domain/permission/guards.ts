@@ -1,7 +1,8 @@
-import { Effect } from "effect";
+import { Effect, Option } from "effect";
 import { DocumentPermissionEntity as DocumentPermission } from "./entity";
 import { PermissionType, hasPermissionLevel } from "./value-object";
 import { UserId, DocumentId } from "../refined/uuid";
+import { PermissionValidationError } from "./errors";
 
 /**
  * Permission Domain Business Rules and Guards
@@ -18,8 +19,9 @@ export const hasPermission = (
 ): boolean => {
   return permissions.some(
     (p) =>
-      p.userId === userId &&
+      p.isGrantedToUser(userId) &&
       p.documentId === documentId &&
+      !p.isExpired() &&
       hasPermissionLevel(p.permission, required)
   );
 };
@@ -33,7 +35,7 @@ export const findUserPermission = (
   documentId: DocumentId
 ): DocumentPermission | undefined => {
   return permissions.find(
-    (p) => p.userId === userId && p.documentId === documentId
+    (p) => p.isGrantedToUser(userId) && p.documentId === documentId
   );
 };
 
@@ -46,7 +48,10 @@ export const getHighestPermission = (
   documentId: DocumentId
 ): PermissionType | undefined => {
   const userPermissions = permissions.filter(
-    (p) => p.userId === userId && p.documentId === documentId
+    (p) =>
+      p.isGrantedToUser(userId) &&
+      p.documentId === documentId &&
+      !p.isExpired()
   );
 
   if (userPermissions.length === 0) return undefined;
@@ -94,3 +99,18 @@ export const guardCanRevokePermission = (
     : Effect.fail(
         new Error("Only the permission grantor or admin can revoke permissions")
       );
+
+/**
+ * Guard: An expiry date, when given, must lie in the future
+ */
+export const guardExpiryInFuture = (
+  expiresAt: Option.Option<Date>
+): Effect.Effect<void, PermissionValidationError> =>
+  Option.exists(expiresAt, (date) => date <= new Date())
+    ? Effect.fail(
+        new PermissionValidationError({
+          message: "Permission expiry must be in the future",
+          field: "expiresAt",
+        })
+      )
+    : Effect.void;
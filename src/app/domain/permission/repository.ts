@@ -4,7 +4,7 @@ import {
   PermissionId,
 } from "./entity";
 import { PermissionDomainError } from "./errors";
-import { DocumentId, UserId } from "../refined/uuid";
+import { DocumentId, GroupId, UserId } from "../refined/uuid";
 import { PermissionType } from "./value-object";
 
 /**
@@ -44,7 +44,15 @@ export interface PermissionRepository {
   ) => Effect.Effect<readonly DocumentPermission[], PermissionDomainError>;
 
   /**
-   * Find all permissions for a user across all documents
+   * Find permissions granted to a group on a specific document
+   */
+  readonly findByGroupAndDocument: (
+    groupId: GroupId,
+    documentId: DocumentId
+  ) => Effect.Effect<readonly DocumentPermission[], PermissionDomainError>;
+
+  /**
+   * Find all permissions granted directly to a user across all documents
    */
   readonly findByUser: (
     userId: UserId
@@ -59,6 +67,7 @@ export interface PermissionRepository {
 
   /**
    * Check if user has specific permission on document
+   * (direct, unexpired grants only)
    */
   readonly hasPermission: (
     userId: UserId,
@@ -72,6 +81,14 @@ export interface PermissionRepository {
   readonly deleteByDocument: (
     documentId: DocumentId
   ) => Effect.Effect<void, PermissionDomainError>;
+
+  /**
+   * Find all permissions whose expiry date has passed
+   */
+  readonly findExpired: () => Effect.Effect<
+    readonly DocumentPermission[],
+    PermissionDomainError
+  >;
 }
 
 /**
@@ -1,5 +1,5 @@
 import { Schema as S } from "effect";
-import { DocumentId, UserId, Uuid } from "../refined/uuid";
+import { DocumentId, GroupId, UserId, Uuid } from "../refined/uuid";
 import { PermissionType } from "./value-object";
 
 /**
@@ -32,10 +32,12 @@ export type PermissionId = S.Schema.Type<typeof PermissionId>;
 export const DocumentPermissionSchema = S.Struct({
   id: PermissionId,
   documentId: DocumentId,
-  userId: UserId,
+  userId: S.optional(UserId),
+  groupId: S.optional(GroupId),
   permission: PermissionType,
   grantedBy: UserId,
   grantedAt: S.optional(S.Date),
+  expiresAt: S.optional(S.Date),
 });
 
 /**
@@ -1,8 +1,13 @@
-import { Effect } from "effect";
+import { Effect, Option } from "effect";
 import { DocumentPermissionEntity } from "./entity";
 import { UserEntity } from "../user/entity";
 import { DocumentEntity } from "../document/entity";
-import { PermissionType, hasPermissionLevel } from "./value-object";
+import type { GroupId } from "../refined/uuid";
+import {
+  PermissionType,
+  PERMISSION_HIERARCHY,
+  hasPermissionLevel,
+} from "./value-object";
 import {
   InsufficientPermissionError,
   DocumentAccessDeniedError,
@@ -17,8 +22,13 @@ import {
  * Access Control Rules (in order of precedence):
  * 1. Admin users have full access to all documents
  * 2. Document owners have full access to their documents
- * 3. Users with explicit permissions have access based on their permission level
+ * 3. Users with explicit permissions have access based on their permission
+ *    level, whether granted to them directly or to a group they belong to.
+ *    Expired permissions are ignored.
  * 4. Default: Deny access
+ *
+ * Group memberships are resolved by the caller and passed in as the IDs of the
+ * groups the user belongs to.
  */
 
 /**
@@ -34,16 +44,32 @@ export const isDocumentOwner = (
  */
 export const isAdmin = (user: UserEntity): boolean => user.role === "ADMIN";
 
+/**
+ * Unexpired permissions that apply to the user directly or through a group
+ */
+const activePermissionsFor = (
+  permissions: readonly DocumentPermissionEntity[],
+  userId: string,
+  groupIds: readonly GroupId[]
+): readonly DocumentPermissionEntity[] => {
+  const now = new Date();
+  return permissions.filter(
+    (p) => p.appliesTo(userId, groupIds) && !p.isExpired(now)
+  );
+};
+
 /**
  * Check if user has a specific permission on the document
- * Considers permission hierarchy (e.g., WRITE implies READ)
+ * Considers permission hierarchy (e.g., WRITE implies READ), permissions
+ * granted to any of the user's groups and ignores expired permissions
  */
 export const hasExplicitPermission = (
   permissions: readonly DocumentPermissionEntity[],
   userId: string,
+  groupIds: readonly GroupId[],
   requiredPermission: PermissionType
 ): boolean => {
-  const userPermissions = permissions.filter((p) => p.userId === userId);
+  const userPermissions = activePermissionsFor(permissions, userId, groupIds);
 
   return userPermissions.some((p) =>
     hasPermissionLevel(p.permission, requiredPermission)
@@ -51,46 +77,203 @@ export const hasExplicitPermission = (
 };
 
 /**
- * Evaluate if a user can perform a specific action on a document
- * (Internal helper - returns boolean for composition)
+ * Access control rule, in order of precedence
+ */
+export type AccessRule = "ADMIN" | "OWNER" | "EXPLICIT_GRANT" | "DEFAULT_DENY";
+
+/**
+ * Outcome of checking one rule
+ */
+export interface AccessRuleEvaluation {
+  readonly rule: AccessRule;
+  readonly matched: boolean;
+  readonly reason: string;
+}
+
+/**
+ * How one grant that applies to the user compares to the required level
+ */
+export interface GrantEvaluation {
+  readonly permission: DocumentPermissionEntity;
+  readonly via: "USER" | "GROUP";
+  readonly expired: boolean;
+  readonly grantedLevel: number;
+  readonly requiredLevel: number;
+  readonly sufficient: boolean;
+}
+
+/**
+ * Full decision trace for an access check
+ *
+ * rules holds every rule checked, ending with the one that decided;
+ * grants holds every grant that applies to the user, for reference.
+ */
+export interface AccessExplanation {
+  readonly granted: boolean;
+  readonly requiredPermission: PermissionType;
+  readonly matchedRule: AccessRule;
+  readonly matchedGrant: Option.Option<DocumentPermissionEntity>;
+  readonly rules: readonly AccessRuleEvaluation[];
+  readonly grants: readonly GrantEvaluation[];
+}
+
+/**
+ * Compare every grant that applies to the user against the required level
+ */
+const evaluateGrants = (
+  permissions: readonly DocumentPermissionEntity[],
+  userId: string,
+  groupIds: readonly GroupId[],
+  requiredPermission: PermissionType
+): readonly GrantEvaluation[] => {
+  const now = new Date();
+  return permissions
+    .filter((p) => p.appliesTo(userId, groupIds))
+    .map((p) => {
+      const expired = p.isExpired(now);
+      return {
+        permission: p,
+        via: p.isGroupGrant() ? "GROUP" : "USER",
+        expired,
+        grantedLevel: PERMISSION_HIERARCHY[p.permission],
+        requiredLevel: PERMISSION_HIERARCHY[requiredPermission],
+        sufficient:
+          !expired && hasPermissionLevel(p.permission, requiredPermission),
+      };
+    });
+};
+
+/**
+ * Explain why the applicable grants did or did not satisfy the required level
+ */
+const describeGrantDecision = (
+  grants: readonly GrantEvaluation[],
+  best: GrantEvaluation | undefined,
+  requiredPermission: PermissionType
+): string => {
+  const required = `${requiredPermission} (level ${PERMISSION_HIERARCHY[requiredPermission]})`;
+
+  if (best) {
+    return `${best.permission.permission} (level ${best.grantedLevel}) granted to ${best.permission.describeGrantee()} satisfies ${required}`;
+  }
+  if (grants.length === 0) {
+    return "No permission on this document is granted to the user or any of their groups";
+  }
+  return `None of the ${grants.length} applicable grant(s) is unexpired with a level of at least ${required}`;
+};
+
+/**
+ * Evaluate if a user can perform a specific action on a document and record
+ * why each rule did or did not apply
  *
  * @param user - The user requesting access
  * @param document - The document being accessed
  * @param permissions - All permissions for the document
+ * @param groupIds - IDs of the groups the user is a member of
  * @param requiredPermission - The permission level required for the action
- * @returns true if access is granted, false otherwise
+ * @returns The decision and the trace of rules checked to reach it
  *
  * Access precedence:
  * 1. Admin → Grant access
  * 2. Owner → Grant access
- * 3. Explicit permission → Check permission level
+ * 3. Explicit permission (user or group) → Check permission level
  * 4. Default → Deny access
  */
-const evaluateAccess = (
+export const explainAccess = (
   user: UserEntity,
   document: DocumentEntity,
   permissions: readonly DocumentPermissionEntity[],
+  groupIds: readonly GroupId[],
   requiredPermission: PermissionType
-): boolean => {
+): AccessExplanation => {
+  const grants = evaluateGrants(
+    permissions,
+    user.id,
+    groupIds,
+    requiredPermission
+  );
+  const decide = (
+    rules: readonly AccessRuleEvaluation[],
+    matchedGrant: Option.Option<DocumentPermissionEntity> = Option.none()
+  ): AccessExplanation => {
+    const decisive = rules[rules.length - 1];
+    return {
+      granted: decisive.rule !== "DEFAULT_DENY",
+      requiredPermission,
+      matchedRule: decisive.rule,
+      matchedGrant,
+      rules,
+      grants,
+    };
+  };
+
   // Rule 1: Admins have full access
-  if (isAdmin(user)) {
-    return true;
+  const adminRule: AccessRuleEvaluation = isAdmin(user)
+    ? { rule: "ADMIN", matched: true, reason: "User has the ADMIN role" }
+    : {
+        rule: "ADMIN",
+        matched: false,
+        reason: `User has the ${user.role} role, not ADMIN`,
+      };
+  if (adminRule.matched) {
+    return decide([adminRule]);
   }
 
   // Rule 2: Document owners have full access
-  if (isDocumentOwner(document, user)) {
-    return true;
+  const ownerRule: AccessRuleEvaluation = isDocumentOwner(document, user)
+    ? { rule: "OWNER", matched: true, reason: "User uploaded the document" }
+    : {
+        rule: "OWNER",
+        matched: false,
+        reason: `Document is owned by user ${document.uploadedBy}`,
+      };
+  if (ownerRule.matched) {
+    return decide([adminRule, ownerRule]);
   }
 
-  // Rule 3: Check explicit permissions with hierarchy
-  if (hasExplicitPermission(permissions, user.id, requiredPermission)) {
-    return true;
+  // Rule 3: Check explicit permissions with hierarchy (strongest grant wins)
+  const best = grants
+    .filter((g) => g.sufficient)
+    .sort((a, b) => b.grantedLevel - a.grantedLevel)[0];
+  const grantRule: AccessRuleEvaluation = {
+    rule: "EXPLICIT_GRANT",
+    matched: best !== undefined,
+    reason: describeGrantDecision(grants, best, requiredPermission),
+  };
+  if (best) {
+    return decide(
+      [adminRule, ownerRule, grantRule],
+      Option.some(best.permission)
+    );
   }
 
   // Rule 4: Default deny
-  return false;
+  return decide([
+    adminRule,
+    ownerRule,
+    grantRule,
+    {
+      rule: "DEFAULT_DENY",
+      matched: true,
+      reason: `No rule grants ${requiredPermission} access`,
+    },
+  ]);
 };
 
+/**
+ * Evaluate if a user can perform a specific action on a document
+ * (Internal helper - returns boolean for composition)
+ */
+const evaluateAccess = (
+  user: UserEntity,
+  document: DocumentEntity,
+  permissions: readonly DocumentPermissionEntity[],
+  groupIds: readonly GroupId[],
+  requiredPermission: PermissionType
+): boolean =>
+  explainAccess(user, document, permissions, groupIds, requiredPermission)
+    .granted;
+
 /**
  * Guard: Require READ permission
  * Fails with domain error if user doesn't have permission
@@ -98,9 +281,16 @@ const evaluateAccess = (
 export const requireReadPermission = (
   user: UserEntity,
   document: DocumentEntity,
-  permissions: readonly DocumentPermissionEntity[]
+  permissions: readonly DocumentPermissionEntity[],
+  groupIds: readonly GroupId[]
 ): Effect.Effect<void, InsufficientPermissionError> => {
-  const hasAccess = evaluateAccess(user, document, permissions, "READ");
+  const hasAccess = evaluateAccess(
+    user,
+    document,
+    permissions,
+    groupIds,
+    "READ"
+  );
 
   return hasAccess
     ? Effect.void
@@ -121,9 +311,16 @@ export const requireReadPermission = (
 export const requireWritePermission = (
   user: UserEntity,
   document: DocumentEntity,
-  permissions: readonly DocumentPermissionEntity[]
+  permissions: readonly DocumentPermissionEntity[],
+  groupIds: readonly GroupId[]
 ): Effect.Effect<void, InsufficientPermissionError> => {
-  const hasAccess = evaluateAccess(user, document, permissions, "WRITE");
+  const hasAccess = evaluateAccess(
+    user,
+    document,
+    permissions,
+    groupIds,
+    "WRITE"
+  );
 
   return hasAccess
     ? Effect.void
@@ -144,9 +341,16 @@ export const requireWritePermission = (
 export const requireDeletePermission = (
   user: UserEntity,
   document: DocumentEntity,
-  permissions: readonly DocumentPermissionEntity[]
+  permissions: readonly DocumentPermissionEntity[],
+  groupIds: readonly GroupId[]
 ): Effect.Effect<void, InsufficientPermissionError> => {
-  const hasAccess = evaluateAccess(user, document, permissions, "DELETE");
+  const hasAccess = evaluateAccess(
+    user,
+    document,
+    permissions,
+    groupIds,
+    "DELETE"
+  );
 
   return hasAccess
     ? Effect.void
@@ -167,12 +371,14 @@ export const requirePermission = (
   user: UserEntity,
   document: DocumentEntity,
   permissions: readonly DocumentPermissionEntity[],
+  groupIds: readonly GroupId[],
   requiredPermission: PermissionType
 ): Effect.Effect<void, InsufficientPermissionError> => {
   const hasAccess = evaluateAccess(
     user,
     document,
     permissions,
+    groupIds,
     requiredPermission
   );
 
@@ -195,6 +401,7 @@ export const requireDocumentAccess = (
   user: UserEntity,
   document: DocumentEntity,
   permissions: readonly DocumentPermissionEntity[],
+  groupIds: readonly GroupId[],
   action: string,
   requiredPermission: PermissionType
 ): Effect.Effect<void, DocumentAccessDeniedError> => {
@@ -202,6 +409,7 @@ export const requireDocumentAccess = (
     user,
     document,
     permissions,
+    groupIds,
     requiredPermission
   );
 
@@ -224,14 +432,15 @@ export const requireDocumentAccess = (
 export const getHighestPermission = (
   user: UserEntity,
   document: DocumentEntity,
-  permissions: readonly DocumentPermissionEntity[]
+  permissions: readonly DocumentPermissionEntity[],
+  groupIds: readonly GroupId[]
 ): PermissionType | null => {
   // Admin and owner have full access
   if (isAdmin(user) || isDocumentOwner(document, user)) {
     return "DELETE";
   }
 
-  const userPermissions = permissions.filter((p) => p.userId === user.id);
+  const userPermissions = activePermissionsFor(permissions, user.id, groupIds);
 
   if (userPermissions.length === 0) {
     return null;
@@ -263,11 +472,12 @@ export const filterAccessibleDocuments = <
     document: DocumentEntity;
     permissions: readonly DocumentPermissionEntity[];
   }[],
+  groupIds: readonly GroupId[],
   requiredPermission: PermissionType
 ): readonly DocumentEntity[] => {
   return documentsWithPermissions
     .filter(({ document, permissions }) =>
-      evaluateAccess(user, document, permissions, requiredPermission)
+      evaluateAccess(user, document, permissions, groupIds, requiredPermission)
     )
     .map(({ document }) => document);
 };
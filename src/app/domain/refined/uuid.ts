@@ -45,6 +45,33 @@ export type WorkspaceId = S.Schema.Type<typeof WorkspaceId>;
 export const AccessPolicyId = makeIdSchema("AccessPolicyId");
 export type AccessPolicyId = S.Schema.Type<typeof AccessPolicyId>;
 
+export const FolderId = makeIdSchema("FolderId");
+export type FolderId = S.Schema.Type<typeof FolderId>;
+
+export const UploadSessionId = makeIdSchema("UploadSessionId");
+export type UploadSessionId = S.Schema.Type<typeof UploadSessionId>;
+
+export const UploadTicketId = makeIdSchema("UploadTicketId");
+export type UploadTicketId = S.Schema.Type<typeof UploadTicketId>;
+
+export const GroupId = makeIdSchema("GroupId");
+export type GroupId = S.Schema.Type<typeof GroupId>;
+
+export const AuditEntryId = makeIdSchema("AuditEntryId");
+export type AuditEntryId = S.Schema.Type<typeof AuditEntryId>;
+
+export const SessionId = makeIdSchema("SessionId");
+export type SessionId = S.Schema.Type<typeof SessionId>;
+
+export const AccessTokenId = makeIdSchema("AccessTokenId");
+export type AccessTokenId = S.Schema.Type<typeof AccessTokenId>;
+
+export const MfaChallengeId = makeIdSchema("MfaChallengeId");
+export type MfaChallengeId = S.Schema.Type<typeof MfaChallengeId>;
+
+export const AccountTokenId = makeIdSchema("AccountTokenId");
+export type AccountTokenId = S.Schema.Type<typeof AccountTokenId>;
+
 // --------------------
 // String to UUID Transformers (for DTOs)
 // --------------------
@@ -58,6 +85,15 @@ export const StringToDocumentVersionId = DocumentVersionId;
 export const StringToDownloadTokenId = DownloadTokenId;
 export const StringToWorkspaceId = WorkspaceId;
 export const StringToAccessPolicyId = AccessPolicyId;
+export const StringToFolderId = FolderId;
+export const StringToUploadSessionId = UploadSessionId;
+export const StringToUploadTicketId = UploadTicketId;
+export const StringToGroupId = GroupId;
+export const StringToAuditEntryId = AuditEntryId;
+export const StringToSessionId = SessionId;
+export const StringToAccessTokenId = AccessTokenId;
+export const StringToMfaChallengeId = MfaChallengeId;
+export const StringToAccountTokenId = AccountTokenId;
 
 // Generic alias for any UUID
 export const StringToUUID = Uuid;
@@ -81,6 +117,24 @@ export const makeWorkspaceId = (input: unknown) =>
   S.decodeUnknown(WorkspaceId)(input);
 export const makeAccessPolicyId = (input: unknown) =>
   S.decodeUnknown(AccessPolicyId)(input);
+export const makeFolderId = (input: unknown) =>
+  S.decodeUnknown(FolderId)(input);
+export const makeUploadSessionId = (input: unknown) =>
+  S.decodeUnknown(UploadSessionId)(input);
+export const makeUploadTicketId = (input: unknown) =>
+  S.decodeUnknown(UploadTicketId)(input);
+export const makeGroupId = (input: unknown) =>
+  S.decodeUnknown(GroupId)(input);
+export const makeAuditEntryId = (input: unknown) =>
+  S.decodeUnknown(AuditEntryId)(input);
+export const makeSessionId = (input: unknown) =>
+  S.decodeUnknown(SessionId)(input);
+export const makeAccessTokenId = (input: unknown) =>
+  S.decodeUnknown(AccessTokenId)(input);
+export const makeMfaChallengeId = (input: unknown) =>
+  S.decodeUnknown(MfaChallengeId)(input);
+export const makeAccountTokenId = (input: unknown) =>
+  S.decodeUnknown(AccountTokenId)(input);
 
 /**
  * Sync versions of the same constructors.
@@ -98,6 +152,24 @@ export const makeWorkspaceIdSync = (input: unknown) =>
   S.decodeUnknownSync(WorkspaceId)(input);
 export const makeAccessPolicyIdSync = (input: unknown) =>
   S.decodeUnknownSync(AccessPolicyId)(input);
+export const makeFolderIdSync = (input: unknown) =>
+  S.decodeUnknownSync(FolderId)(input);
+export const makeUploadSessionIdSync = (input: unknown) =>
+  S.decodeUnknownSync(UploadSessionId)(input);
+export const makeUploadTicketIdSync = (input: unknown) =>
+  S.decodeUnknownSync(UploadTicketId)(input);
+export const makeGroupIdSync = (input: unknown) =>
+  S.decodeUnknownSync(GroupId)(input);
+export const makeAuditEntryIdSync = (input: unknown) =>
+  S.decodeUnknownSync(AuditEntryId)(input);
+export const makeSessionIdSync = (input: unknown) =>
+  S.decodeUnknownSync(SessionId)(input);
+export const makeAccessTokenIdSync = (input: unknown) =>
+  S.decodeUnknownSync(AccessTokenId)(input);
+export const makeMfaChallengeIdSync = (input: unknown) =>
+  S.decodeUnknownSync(MfaChallengeId)(input);
+export const makeAccountTokenIdSync = (input: unknown) =>
+  S.decodeUnknownSync(AccountTokenId)(input);
 
 /**
  * UUID Generation Helpers
@@ -112,5 +184,14 @@ export const UuidGenerators = {
   downloadTokenId: (): DownloadTokenId => uuidv4() as DownloadTokenId,
   workspaceId: (): WorkspaceId => uuidv4() as WorkspaceId,
   accessPolicyId: (): AccessPolicyId => uuidv4() as AccessPolicyId,
+  folderId: (): FolderId => uuidv4() as FolderId,
+  uploadSessionId: (): UploadSessionId => uuidv4() as UploadSessionId,
+  uploadTicketId: (): UploadTicketId => uuidv4() as UploadTicketId,
+  groupId: (): GroupId => uuidv4() as GroupId,
+  auditEntryId: (): AuditEntryId => uuidv4() as AuditEntryId,
+  sessionId: (): SessionId => uuidv4() as SessionId,
+  accessTokenId: (): AccessTokenId => uuidv4() as AccessTokenId,
+  mfaChallengeId: (): MfaChallengeId => uuidv4() as MfaChallengeId,
+  accountTokenId: (): AccountTokenId => uuidv4() as AccountTokenId,
   uuid: (): Uuid => uuidv4() as Uuid,
 } as const;
@@ -0,0 +1,110 @@
+import { Option } from "effect";
+import { SessionId, UserId } from "../refined/uuid";
+import {
+  BaseEntity,
+  IEntity,
+  Maybe,
+  normalizeMaybe,
+  optionToMaybe,
+} from "../shared/base-entity";
+
+// ============================================================================
+// Serialized Types
+// ============================================================================
+
+/**
+ * Serialized Session type (for external systems)
+ */
+export type SerializedSession = {
+  readonly id: string;
+  readonly userId: string;
+  readonly refreshTokenHash: string;
+  readonly expiresAt: Date;
+  readonly lastRefreshedAt?: Maybe<Date>;
+  readonly revokedAt?: Maybe<Date>;
+  readonly createdAt?: Date;
+};
+
+// ============================================================================
+// Session Entity
+// ============================================================================
+
+/**
+ * Session Entity - Aggregate Root
+ *
+ * One login of a user. Access tokens carry the session ID so they stop
+ * working once the session is revoked; the session's refresh token is
+ * replaced on every refresh and only its hash is kept.
+ */
+export class SessionEntity extends BaseEntity implements IEntity {
+  constructor(
+    public readonly id: SessionId,
+    public readonly userId: UserId,
+    public readonly refreshTokenHash: string,
+    public readonly expiresAt: Date,
+    public readonly lastRefreshedAt: Option.Option<Date>,
+    public readonly revokedAt: Option.Option<Date>,
+    public readonly createdAt: Date
+  ) {
+    super();
+  }
+
+  /**
+   * Create a new session
+   */
+  static create(input: SerializedSession): SessionEntity {
+    return new SessionEntity(
+      input.id as SessionId,
+      input.userId as UserId,
+      input.refreshTokenHash,
+      input.expiresAt,
+      normalizeMaybe(input.lastRefreshedAt),
+      normalizeMaybe(input.revokedAt),
+      input.createdAt ?? new Date()
+    );
+  }
+
+  /**
+   * Replace the refresh token and extend the session
+   */
+  rotate(refreshTokenHash: string, expiresAt: Date): SessionEntity {
+    return new SessionEntity(
+      this.id,
+      this.userId,
+      refreshTokenHash,
+      expiresAt,
+      Option.some(new Date()),
+      this.revokedAt,
+      this.createdAt
+    );
+  }
+
+  /**
+   * Check if session is expired
+   */
+  isExpired(): boolean {
+    return new Date() > this.expiresAt;
+  }
+
+  /**
+   * Check if session has been revoked
+   */
+  isRevoked(): boolean {
+    return Option.isSome(this.revokedAt);
+  }
+
+  /**
+   * Serialize to external format
+   */
+  serialize(): SerializedSession {
+    return {
+      id: this.id,
+      userId: this.userId,
+      refreshTokenHash: this.refreshTokenHash,
+      expiresAt: this.expiresAt,
+      lastRefreshedAt: optionToMaybe(this.lastRefreshedAt),
+      revokedAt: optionToMaybe(this.revokedAt),
+      createdAt: this.createdAt,
+    };
+  }
+}
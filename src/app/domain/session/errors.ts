@@ -0,0 +1,49 @@
+import { Data } from "effect";
+
+/**
+ * Session Domain Errors
+ */
+
+export class SessionNotFoundError extends Data.TaggedError(
+  "SessionNotFoundError"
+)<{
+  readonly sessionId?: string;
+  readonly message?: string;
+}> {}
+
+export class InvalidRefreshTokenError extends Data.TaggedError(
+  "InvalidRefreshTokenError"
+)<{
+  readonly message: string;
+}> {}
+
+export class SessionRevokedError extends Data.TaggedError(
+  "SessionRevokedError"
+)<{
+  readonly sessionId: string;
+  readonly message?: string;
+}> {}
+
+export class SessionExpiredError extends Data.TaggedError(
+  "SessionExpiredError"
+)<{
+  readonly sessionId: string;
+  readonly expiresAt: Date;
+  readonly message?: string;
+}> {}
+
+export class SessionConstraintError extends Data.TaggedError(
+  "SessionConstraintError"
+)<{
+  readonly message: string;
+}> {}
+
+/**
+ * Union of all Session domain errors
+ */
+export type SessionDomainError =
+  | SessionNotFoundError
+  | InvalidRefreshTokenError
+  | SessionRevokedError
+  | SessionExpiredError
+  | SessionConstraintError;
@@ -0,0 +1,49 @@
+import { Effect } from "effect";
+import type { SessionEntity } from "./entity";
+import { SessionExpiredError, SessionRevokedError } from "./errors";
+
+/**
+ * Session Domain Business Rules and Guards
+ */
+
+/**
+ * Guard: Session must not have been revoked
+ */
+export const guardSessionNotRevoked = (
+  session: SessionEntity
+): Effect.Effect<void, SessionRevokedError> =>
+  session.isRevoked()
+    ? Effect.fail(
+        new SessionRevokedError({
+          sessionId: session.id,
+          message: "Session has been revoked",
+        })
+      )
+    : Effect.void;
+
+/**
+ * Guard: Session must not be expired
+ */
+export const guardSessionNotExpired = (
+  session: SessionEntity
+): Effect.Effect<void, SessionExpiredError> =>
+  session.isExpired()
+    ? Effect.fail(
+        new SessionExpiredError({
+          sessionId: session.id,
+          expiresAt: session.expiresAt,
+          message: "Session has expired",
+        })
+      )
+    : Effect.void;
+
+/**
+ * Guard: Session must be usable (neither revoked nor expired)
+ */
+export const guardSessionActive = (
+  session: SessionEntity
+): Effect.Effect<void, SessionRevokedError | SessionExpiredError> =>
+  Effect.zipRight(
+    guardSessionNotRevoked(session),
+    guardSessionNotExpired(session)
+  );
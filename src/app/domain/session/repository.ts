@@ -0,0 +1,58 @@
+import { Effect, Option, Context } from "effect";
+import { SessionEntity } from "./entity";
+import { SessionDomainError } from "./errors";
+import { SessionId, UserId } from "../refined/uuid";
+
+/**
+ * Session Repository Interface
+ *
+ * Defines the contract for session persistence operations.
+ * Repositories work with entities, not payloads.
+ */
+export interface SessionRepository {
+  /**
+   * Save a new session
+   */
+  readonly save: (
+    session: SessionEntity
+  ) => Effect.Effect<SessionEntity, SessionDomainError>;
+
+  /**
+   * Find session by ID
+   */
+  readonly findById: (
+    id: SessionId
+  ) => Effect.Effect<Option.Option<SessionEntity>, SessionDomainError>;
+
+  /**
+   * Store a rotated session
+   * Conditional on the stored refresh token hash still being the one that
+   * was presented and the session not being revoked, so a refresh token can
+   * only be exchanged once
+   */
+  readonly rotate: (
+    session: SessionEntity,
+    previousHash: string
+  ) => Effect.Effect<SessionEntity, SessionDomainError>;
+
+  /**
+   * Revoke a session; revoking a revoked session does nothing
+   */
+  readonly revoke: (id: SessionId) => Effect.Effect<void, SessionDomainError>;
+
+  /**
+   * Revoke every active session of a user, except exceptId when given
+   * Returns the number of sessions revoked
+   */
+  readonly revokeAllForUser: (
+    userId: UserId,
+    exceptId?: SessionId
+  ) => Effect.Effect<number, SessionDomainError>;
+}
+
+/**
+ * Context tag for dependency injection
+ */
+export const SessionRepositoryTag = Context.GenericTag<SessionRepository>(
+  "@app/SessionRepository"
+);
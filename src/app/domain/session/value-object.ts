@@ -0,0 +1,56 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Session Value Objects and Constants
+ */
+
+/**
+ * Refresh token lifetime (in days), counted from the last refresh
+ */
+export const DEFAULT_REFRESH_TOKEN_TTL_DAYS = 30;
+
+/**
+ * Generate the secret part of a refresh token
+ */
+export const generateRefreshSecret = (): string =>
+  randomBytes(32).toString("base64url");
+
+/**
+ * Hash stored for a refresh token secret; the secret itself is never stored
+ */
+export const hashRefreshSecret = (secret: string): string =>
+  createHash("sha256").update(secret).digest("hex");
+
+/**
+ * Build the refresh token handed to clients: "{sessionId}.{secret}"
+ */
+export const formatRefreshToken = (sessionId: string, secret: string) =>
+  `${sessionId}.${secret}`;
+
+/**
+ * Split a presented refresh token into its session ID and secret
+ */
+export const parseRefreshToken = (
+  token: string
+): { readonly sessionId: string; readonly secret: string } | undefined => {
+  const separator = token.indexOf(".");
+  if (separator <= 0 || separator === token.length - 1) return undefined;
+  return {
+    sessionId: token.slice(0, separator),
+    secret: token.slice(separator + 1),
+  };
+};
+
+/**
+ * Check a presented secret against the stored hash (constant time)
+ */
+export const refreshSecretMatches = (
+  storedHash: string,
+  secret: string
+): boolean => {
+  const expected = Buffer.from(storedHash);
+  const received = Buffer.from(hashRefreshSecret(secret));
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+};
@@ -1,4 +1,4 @@
-import { Schema as S } from "effect";
+import { Option, Schema as S } from "effect";
 
 /**
  * Pagination parameters for list operations
@@ -89,3 +89,70 @@ export const sanitizePaginationParams = (input: {
   const limit = Math.min(100, Math.max(1, Number(input.limit) || 20));
   return { page, limit };
 };
+
+// ============================================================================
+// Cursor (keyset) pagination
+// ============================================================================
+
+/**
+ * Position of the last item of a page in a (timestamp DESC, id DESC) ordering
+ */
+export interface Cursor {
+  readonly timestamp: Date;
+  readonly id: string;
+}
+
+/**
+ * Cursor pagination parameters
+ */
+export interface CursorParams {
+  readonly limit: number;
+  readonly after: Option.Option<Cursor>;
+}
+
+/**
+ * Cursor pagination metadata
+ */
+export const CursorPageMeta = S.Struct({
+  limit: S.Number,
+  nextCursor: S.optional(S.String),
+  hasNextPage: S.Boolean,
+});
+
+export type CursorPageMeta = S.Schema.Type<typeof CursorPageMeta>;
+
+/**
+ * Cursor-paginated response wrapper
+ */
+export const CursorPaginated = <A, I, R>(itemSchema: S.Schema<A, I, R>) =>
+  S.Struct({
+    data: S.Array(itemSchema),
+    meta: CursorPageMeta,
+  });
+
+export type CursorPaginated<T> = {
+  readonly data: readonly T[];
+  readonly meta: CursorPageMeta;
+};
+
+/**
+ * Encode a cursor as an opaque URL-safe token
+ */
+export const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(`${cursor.timestamp.toISOString()}|${cursor.id}`).toString(
+    "base64url"
+  );
+
+/**
+ * Decode a cursor token (none if it is malformed)
+ */
+export const decodeCursor = (token: string): Option.Option<Cursor> => {
+  const [timestamp, id] = Buffer.from(token, "base64url")
+    .toString("utf8")
+    .split("|");
+  const date = new Date(timestamp ?? "");
+
+  return id && !Number.isNaN(date.getTime())
+    ? Option.some({ timestamp: date, id })
+    : Option.none();
+};
@@ -0,0 +1,136 @@
+import { Option, Effect as E, pipe, Schema as S } from "effect";
+import {
+  DocumentId,
+  FolderId,
+  UploadSessionId,
+  UserId,
+} from "../refined/uuid";
+import { Filename, MimeType, FileSize } from "../document/value-object";
+import {
+  BaseEntity,
+  IEntity,
+  Maybe,
+  normalizeMaybe,
+  optionToMaybe,
+} from "../shared/base-entity";
+import { UploadSessionValidationError } from "./errors";
+
+// ============================================================================
+// Serialized Types
+// ============================================================================
+
+/**
+ * Serialized UploadSession type (for external systems)
+ */
+export type SerializedUploadSession = {
+  readonly id: string;
+  readonly userId: string;
+  readonly filename: string;
+  readonly mimeType: string;
+  readonly uploadLength: number;
+  readonly documentId?: Maybe<string>;
+  readonly folderId?: Maybe<string>;
+  readonly expiresAt: Date;
+  readonly createdAt?: Date;
+};
+
+const UploadTarget = S.Struct({
+  filename: Filename,
+  mimeType: MimeType,
+  uploadLength: FileSize,
+});
+
+// ============================================================================
+// UploadSession Entity
+// ============================================================================
+
+/**
+ * Upload Session Entity - Aggregate Root
+ *
+ * A resumable upload in progress. The declared length and target (a new
+ * document, optionally in a folder, or a new version of an existing one) are
+ * fixed at creation; the received bytes live in storage until the upload
+ * completes and is turned into a document version.
+ */
+export class UploadSessionEntity extends BaseEntity implements IEntity {
+  constructor(
+    public readonly id: UploadSessionId,
+    public readonly userId: UserId,
+    public readonly filename: Filename,
+    public readonly mimeType: MimeType,
+    public readonly uploadLength: FileSize,
+    public readonly documentId: Option.Option<DocumentId>,
+    public readonly folderId: Option.Option<FolderId>,
+    public readonly expiresAt: Date,
+    public readonly createdAt: Date
+  ) {
+    super();
+  }
+
+  /**
+   * Create a new upload session with validation
+   * Filename, MIME type and length follow the document rules
+   */
+  static create(
+    input: SerializedUploadSession
+  ): E.Effect<UploadSessionEntity, UploadSessionValidationError, never> {
+    return pipe(
+      S.decodeUnknown(UploadTarget)({
+        filename: input.filename,
+        mimeType: input.mimeType,
+        uploadLength: input.uploadLength,
+      }),
+      E.mapError(
+        (error) =>
+          new UploadSessionValidationError({
+            message: `Upload session validation failed: ${error.message}`,
+          })
+      ),
+      E.map(
+        ({ filename, mimeType, uploadLength }) =>
+          new UploadSessionEntity(
+            input.id as UploadSessionId,
+            input.userId as UserId,
+            filename,
+            mimeType,
+            uploadLength,
+            normalizeMaybe(input.documentId as DocumentId | undefined),
+            normalizeMaybe(input.folderId as FolderId | undefined),
+            input.expiresAt,
+            input.createdAt ?? new Date()
+          )
+      )
+    );
+  }
+
+  /**
+   * Check if session is expired
+   */
+  isExpired(): boolean {
+    return new Date() > this.expiresAt;
+  }
+
+  /**
+   * Check if all declared bytes have been received
+   */
+  isComplete(offset: number): boolean {
+    return offset >= this.uploadLength;
+  }
+
+  /**
+   * Serialize to external format
+   */
+  serialize(): SerializedUploadSession {
+    return {
+      id: this.id,
+      userId: this.userId,
+      filename: this.filename,
+      mimeType: this.mimeType,
+      uploadLength: this.uploadLength,
+      documentId: optionToMaybe(this.documentId),
+      folderId: optionToMaybe(this.folderId),
+      expiresAt: this.expiresAt,
+      createdAt: this.createdAt,
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import { Data } from "effect";
+
+/**
+ * Upload Session Domain Errors
+ */
+
+export class UploadSessionNotFoundError extends Data.TaggedError(
+  "UploadSessionNotFoundError"
+)<{
+  readonly sessionId: string;
+  readonly message?: string;
+}> {}
+
+export class UploadSessionExpiredError extends Data.TaggedError(
+  "UploadSessionExpiredError"
+)<{
+  readonly sessionId: string;
+  readonly expiresAt: Date;
+  readonly message?: string;
+}> {}
+
+export class UploadOffsetMismatchError extends Data.TaggedError(
+  "UploadOffsetMismatchError"
+)<{
+  readonly sessionId: string;
+  readonly expectedOffset: number;
+  readonly receivedOffset: number;
+  readonly message?: string;
+}> {}
+
+export class UploadSessionValidationError extends Data.TaggedError(
+  "UploadSessionValidationError"
+)<{
+  readonly message: string;
+  readonly field?: string;
+}> {}
+
+export class UploadSessionForbiddenError extends Data.TaggedError(
+  "UploadSessionForbiddenError"
+)<{
+  readonly message: string;
+  readonly sessionId?: string;
+}> {}
+
+export class UploadSessionConstraintError extends Data.TaggedError(
+  "UploadSessionConstraintError"
+)<{
+  readonly message: string;
+}> {}
+
+/**
+ * Union of all Upload Session domain errors
+ */
+export type UploadSessionDomainError =
+  | UploadSessionNotFoundError
+  | UploadSessionExpiredError
+  | UploadOffsetMismatchError
+  | UploadSessionValidationError
+  | UploadSessionForbiddenError
+  | UploadSessionConstraintError;
@@ -0,0 +1,63 @@
+import { Effect } from "effect";
+import type { UploadSessionEntity } from "./entity";
+import { UserId } from "../refined/uuid";
+import {
+  UploadSessionExpiredError,
+  UploadSessionForbiddenError,
+  UploadOffsetMismatchError,
+} from "./errors";
+
+/**
+ * Upload Session Domain Business Rules and Guards
+ */
+
+/**
+ * Guard: Only the user who started an upload may continue it
+ */
+export const guardUploadSessionOwner = (
+  session: UploadSessionEntity,
+  userId: UserId
+): Effect.Effect<void, UploadSessionForbiddenError> =>
+  session.userId === userId
+    ? Effect.void
+    : Effect.fail(
+        new UploadSessionForbiddenError({
+          message: "You did not start this upload",
+          sessionId: session.id,
+        })
+      );
+
+/**
+ * Guard: Session must not be expired
+ */
+export const guardUploadSessionActive = (
+  session: UploadSessionEntity
+): Effect.Effect<void, UploadSessionExpiredError> =>
+  session.isExpired()
+    ? Effect.fail(
+        new UploadSessionExpiredError({
+          sessionId: session.id,
+          expiresAt: session.expiresAt,
+          message: "Upload session has expired",
+        })
+      )
+    : Effect.void;
+
+/**
+ * Guard: A chunk must start exactly where the stored data ends
+ */
+export const guardUploadOffset = (
+  session: UploadSessionEntity,
+  currentOffset: number,
+  receivedOffset: number
+): Effect.Effect<void, UploadOffsetMismatchError> =>
+  currentOffset === receivedOffset
+    ? Effect.void
+    : Effect.fail(
+        new UploadOffsetMismatchError({
+          sessionId: session.id,
+          expectedOffset: currentOffset,
+          receivedOffset,
+          message: `Upload offset mismatch: expected ${currentOffset}, received ${receivedOffset}`,
+        })
+      );
@@ -0,0 +1,49 @@
+import { Effect, Option, Context } from "effect";
+import { UploadSessionEntity } from "./entity";
+import { UploadSessionDomainError } from "./errors";
+import { UploadSessionId } from "../refined/uuid";
+
+/**
+ * Upload Session Repository Interface
+ *
+ * Defines the contract for upload session persistence operations.
+ * Repositories work with entities, not payloads.
+ */
+export interface UploadSessionRepository {
+  /**
+   * Save an upload session
+   */
+  readonly save: (
+    session: UploadSessionEntity
+  ) => Effect.Effect<UploadSessionEntity, UploadSessionDomainError>;
+
+  /**
+   * Find session by ID
+   */
+  readonly findById: (
+    id: UploadSessionId
+  ) => Effect.Effect<
+    Option.Option<UploadSessionEntity>,
+    UploadSessionDomainError
+  >;
+
+  /**
+   * Find sessions that expired before the given date
+   */
+  readonly findExpired: (
+    now: Date
+  ) => Effect.Effect<readonly UploadSessionEntity[], UploadSessionDomainError>;
+
+  /**
+   * Delete session
+   */
+  readonly delete: (
+    id: UploadSessionId
+  ) => Effect.Effect<void, UploadSessionDomainError>;
+}
+
+/**
+ * Context tag for dependency injection
+ */
+export const UploadSessionRepositoryTag =
+  Context.GenericTag<UploadSessionRepository>("@app/UploadSessionRepository");
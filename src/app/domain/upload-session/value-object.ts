@@ -0,0 +1,16 @@
+/**
+ * Upload Session Value Objects and Constants
+ */
+
+/**
+ * Default lifetime of an upload session (in hours)
+ * Overridable with the UPLOAD_SESSION_TTL_HOURS environment variable
+ */
+export const DEFAULT_UPLOAD_SESSION_TTL_HOURS = 24;
+
+/**
+ * Calculate the expiry date of a session created now
+ */
+export const calculateUploadSessionExpiry = (
+  ttlHours: number = DEFAULT_UPLOAD_SESSION_TTL_HOURS
+): Date => new Date(Date.now() + ttlHours * 60 * 60 * 1000);
@@ -0,0 +1,170 @@
+import { Option, Effect as E, pipe, Schema as S } from "effect";
+import {
+  DocumentId,
+  DocumentVersionId,
+  UploadTicketId,
+  UserId,
+} from "../refined/uuid";
+import { FileSize, MimeType } from "../document/value-object";
+import { Token } from "../download-token/value-object";
+import {
+  BaseEntity,
+  IEntity,
+  Maybe,
+  normalizeMaybe,
+  optionToMaybe,
+} from "../shared/base-entity";
+import { UploadTicketValidationError } from "./errors";
+import type { UploadTicketClaims } from "./value-object";
+
+// ============================================================================
+// Serialized Types
+// ============================================================================
+
+/**
+ * Serialized UploadTicket type (for external systems)
+ */
+export type SerializedUploadTicket = {
+  readonly id: string;
+  readonly documentId: string;
+  readonly versionId: string;
+  readonly token: string;
+  readonly maxSize: number;
+  readonly mimeType: string;
+  readonly expiresAt: Date;
+  readonly usedAt?: Maybe<Date>;
+  readonly createdBy: string;
+  readonly createdAt?: Date;
+};
+
+const TicketLimits = S.Struct({
+  maxSize: FileSize,
+  mimeType: MimeType,
+});
+
+// ============================================================================
+// UploadTicket Entity
+// ============================================================================
+
+/**
+ * Upload Ticket Entity - Aggregate Root
+ *
+ * A short-lived, single-use permission to upload the content of one
+ * pre-allocated document version, limited in size and MIME type.
+ */
+export class UploadTicketEntity extends BaseEntity implements IEntity {
+  constructor(
+    public readonly id: UploadTicketId,
+    public readonly documentId: DocumentId,
+    public readonly versionId: DocumentVersionId,
+    public readonly token: Token,
+    public readonly maxSize: FileSize,
+    public readonly mimeType: MimeType,
+    public readonly expiresAt: Date,
+    public readonly usedAt: Option.Option<Date>,
+    public readonly createdBy: UserId,
+    public readonly createdAt: Date
+  ) {
+    super();
+  }
+
+  /**
+   * Create a new upload ticket with validation
+   * Size limit and MIME type follow the document rules
+   */
+  static create(
+    input: SerializedUploadTicket
+  ): E.Effect<UploadTicketEntity, UploadTicketValidationError, never> {
+    return pipe(
+      S.decodeUnknown(TicketLimits)({
+        maxSize: input.maxSize,
+        mimeType: input.mimeType,
+      }),
+      E.mapError(
+        (error) =>
+          new UploadTicketValidationError({
+            message: `Upload ticket validation failed: ${error.message}`,
+          })
+      ),
+      E.map(
+        ({ maxSize, mimeType }) =>
+          new UploadTicketEntity(
+            input.id as UploadTicketId,
+            input.documentId as DocumentId,
+            input.versionId as DocumentVersionId,
+            input.token as Token,
+            maxSize,
+            mimeType,
+            input.expiresAt,
+            normalizeMaybe(input.usedAt),
+            input.createdBy as UserId,
+            input.createdAt ?? new Date()
+          )
+      )
+    );
+  }
+
+  /**
+   * Mark ticket as used
+   */
+  markAsUsed(): UploadTicketEntity {
+    return new UploadTicketEntity(
+      this.id,
+      this.documentId,
+      this.versionId,
+      this.token,
+      this.maxSize,
+      this.mimeType,
+      this.expiresAt,
+      Option.some(new Date()),
+      this.createdBy,
+      this.createdAt
+    );
+  }
+
+  /**
+   * Check if ticket is expired
+   */
+  isExpired(): boolean {
+    return new Date() > this.expiresAt;
+  }
+
+  /**
+   * Check if ticket has been used
+   */
+  isUsed(): boolean {
+    return Option.isSome(this.usedAt);
+  }
+
+  /**
+   * Values covered by the ticket signature
+   */
+  claims(): UploadTicketClaims {
+    return {
+      token: this.token,
+      documentId: this.documentId,
+      versionId: this.versionId,
+      maxSize: this.maxSize,
+      mimeType: this.mimeType,
+      expiresAt: this.expiresAt,
+    };
+  }
+
+  /**
+   * Serialize to external format
+   */
+  serialize(): SerializedUploadTicket {
+    return {
+      id: this.id,
+      documentId: this.documentId,
+      versionId: this.versionId,
+      token: this.token,
+      maxSize: this.maxSize,
+      mimeType: this.mimeType,
+      expiresAt: this.expiresAt,
+      usedAt: optionToMaybe(this.usedAt),
+      createdBy: this.createdBy,
+      createdAt: this.createdAt,
+    };
+  }
+}
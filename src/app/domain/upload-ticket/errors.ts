@@ -0,0 +1,58 @@
+import { Data } from "effect";
+
+/**
+ * Upload Ticket Domain Errors
+ */
+
+export class UploadTicketNotFoundError extends Data.TaggedError(
+  "UploadTicketNotFoundError"
+)<{
+  readonly ticketId?: string;
+  readonly message?: string;
+}> {}
+
+export class UploadTicketInvalidError extends Data.TaggedError(
+  "UploadTicketInvalidError"
+)<{
+  readonly message: string;
+}> {}
+
+export class UploadTicketExpiredError extends Data.TaggedError(
+  "UploadTicketExpiredError"
+)<{
+  readonly ticketId: string;
+  readonly expiresAt: Date;
+  readonly message?: string;
+}> {}
+
+export class UploadTicketAlreadyUsedError extends Data.TaggedError(
+  "UploadTicketAlreadyUsedError"
+)<{
+  readonly ticketId: string;
+  readonly usedAt: Date;
+  readonly message?: string;
+}> {}
+
+export class UploadTicketValidationError extends Data.TaggedError(
+  "UploadTicketValidationError"
+)<{
+  readonly message: string;
+  readonly field?: string;
+}> {}
+
+export class UploadTicketConstraintError extends Data.TaggedError(
+  "UploadTicketConstraintError"
+)<{
+  readonly message: string;
+}> {}
+
+/**
+ * Union of all Upload Ticket domain errors
+ */
+export type UploadTicketDomainError =
+  | UploadTicketNotFoundError
+  | UploadTicketInvalidError
+  | UploadTicketExpiredError
+  | UploadTicketAlreadyUsedError
+  | UploadTicketValidationError
+  | UploadTicketConstraintError;
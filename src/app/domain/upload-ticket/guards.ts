@@ -0,0 +1,93 @@
+import { Effect, Option } from "effect";
+import type { UploadTicketEntity } from "./entity";
+import type { DocumentId, DocumentVersionId } from "../refined/uuid";
+import { verifyUploadTicketSignature } from "./value-object";
+import {
+  UploadTicketAlreadyUsedError,
+  UploadTicketExpiredError,
+  UploadTicketInvalidError,
+  UploadTicketValidationError,
+} from "./errors";
+
+/**
+ * Upload Ticket Domain Business Rules and Guards
+ */
+
+/**
+ * Guard: Signature must match the stored claims and the ticket must be
+ * presented for the document version it was issued for
+ */
+export const guardUploadTicketSignature = (
+  ticket: UploadTicketEntity,
+  secret: string,
+  signature: string,
+  target: { documentId: DocumentId; versionId: DocumentVersionId }
+): Effect.Effect<void, UploadTicketInvalidError> =>
+  verifyUploadTicketSignature(secret, ticket.claims(), signature) &&
+  ticket.documentId === target.documentId &&
+  ticket.versionId === target.versionId
+    ? Effect.void
+    : Effect.fail(
+        new UploadTicketInvalidError({ message: "Invalid upload ticket" })
+      );
+
+/**
+ * Guard: Ticket must not be expired
+ */
+export const guardUploadTicketNotExpired = (
+  ticket: UploadTicketEntity
+): Effect.Effect<void, UploadTicketExpiredError> =>
+  ticket.isExpired()
+    ? Effect.fail(
+        new UploadTicketExpiredError({
+          ticketId: ticket.id,
+          expiresAt: ticket.expiresAt,
+          message: "Upload ticket has expired",
+        })
+      )
+    : Effect.void;
+
+/**
+ * Guard: Ticket must not have been used
+ */
+export const guardUploadTicketNotUsed = (
+  ticket: UploadTicketEntity
+): Effect.Effect<void, UploadTicketAlreadyUsedError> =>
+  ticket.isUsed()
+    ? Effect.fail(
+        new UploadTicketAlreadyUsedError({
+          ticketId: ticket.id,
+          usedAt: Option.getOrElse(ticket.usedAt, () => new Date()),
+          message: "Upload ticket has already been used",
+        })
+      )
+    : Effect.void;
+
+/**
+ * Guard: Uploaded file must respect the ticket's size limit and MIME type
+ */
+export const guardUploadMatchesTicket = (
+  ticket: UploadTicketEntity,
+  file: { readonly size: number; readonly type?: string }
+): Effect.Effect<void, UploadTicketValidationError> => {
+  // Parameters such as charset do not change the type
+  const fileType = file.type?.split(";")[0]?.trim().toLowerCase();
+
+  if (file.size > ticket.maxSize) {
+    return Effect.fail(
+      new UploadTicketValidationError({
+        message: `File size cannot exceed ${ticket.maxSize} bytes for this ticket`,
+        field: "size",
+      })
+    );
+  }
+  if (fileType && fileType !== ticket.mimeType.toLowerCase()) {
+    return Effect.fail(
+      new UploadTicketValidationError({
+        message: `This ticket only accepts ${ticket.mimeType} files`,
+        field: "mimeType",
+      })
+    );
+  }
+  return Effect.void;
+};
@@ -0,0 +1,54 @@
+import { Effect, Option, Context } from "effect";
+import { UploadTicketEntity } from "./entity";
+import { UploadTicketDomainError } from "./errors";
+import { UploadTicketId } from "../refined/uuid";
+import { Token } from "../download-token/value-object";
+
+/**
+ * Upload Ticket Repository Interface
+ *
+ * Defines the contract for upload ticket persistence operations.
+ * Repositories work with entities, not payloads.
+ */
+export interface UploadTicketRepository {
+  /**
+   * Save an upload ticket (create or update)
+   */
+  readonly save: (
+    ticket: UploadTicketEntity
+  ) => Effect.Effect<UploadTicketEntity, UploadTicketDomainError>;
+
+  /**
+   * Find ticket by ID
+   */
+  readonly findById: (
+    id: UploadTicketId
+  ) => Effect.Effect<Option.Option<UploadTicketEntity>, UploadTicketDomainError>;
+
+  /**
+   * Find ticket by token string
+   */
+  readonly findByToken: (
+    token: Token
+  ) => Effect.Effect<Option.Option<UploadTicketEntity>, UploadTicketDomainError>;
+
+  /**
+   * Mark an unused ticket as used
+   * Conditional on the stored row still being unused, so concurrent requests
+   * cannot redeem the same ticket twice
+   */
+  readonly markAsUsed: (
+    ticket: UploadTicketEntity
+  ) => Effect.Effect<UploadTicketEntity, UploadTicketDomainError>;
+
+  /**
+   * Delete expired tickets (cleanup)
+   */
+  readonly deleteExpired: () => Effect.Effect<number, UploadTicketDomainError>;
+}
+
+/**
+ * Context tag for dependency injection
+ */
+export const UploadTicketRepositoryTag =
+  Context.GenericTag<UploadTicketRepository>("@app/UploadTicketRepository");
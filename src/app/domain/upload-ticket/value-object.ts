@@ -0,0 +1,74 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Upload Ticket Value Objects and Constants
+ */
+
+/**
+ * Ticket lifetime (in milliseconds)
+ */
+export const DEFAULT_UPLOAD_TICKET_TTL_MS = 15 * 60 * 1000; // 15 minutes
+export const MAX_UPLOAD_TICKET_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Everything a ticket is bound to; all of it is covered by the signature
+ */
+export interface UploadTicketClaims {
+  readonly token: string;
+  readonly documentId: string;
+  readonly versionId: string;
+  readonly maxSize: number;
+  readonly mimeType: string;
+  readonly expiresAt: Date;
+}
+
+const computeSignature = (secret: string, claims: UploadTicketClaims) =>
+  createHmac("sha256", secret)
+    .update(
+      [
+        claims.token,
+        claims.documentId,
+        claims.versionId,
+        String(claims.maxSize),
+        claims.mimeType,
+        claims.expiresAt.toISOString(),
+      ].join("\n")
+    )
+    .digest("base64url");
+
+/**
+ * Build the ticket handed to clients: "{token}.{signature}"
+ */
+export const signUploadTicket = (
+  secret: string,
+  claims: UploadTicketClaims
+): string => `${claims.token}.${computeSignature(secret, claims)}`;
+
+/**
+ * Split a presented ticket into its token and signature
+ */
+export const parseUploadTicket = (
+  ticket: string
+): { readonly token: string; readonly signature: string } | undefined => {
+  const separator = ticket.lastIndexOf(".");
+  if (separator <= 0 || separator === ticket.length - 1) return undefined;
+  return {
+    token: ticket.slice(0, separator),
+    signature: ticket.slice(separator + 1),
+  };
+};
+
+/**
+ * Check a presented signature against the stored claims (constant time)
+ */
+export const verifyUploadTicketSignature = (
+  secret: string,
+  claims: UploadTicketClaims,
+  signature: string
+): boolean => {
+  const expected = Buffer.from(computeSignature(secret, claims));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+};
@@ -22,6 +22,8 @@ export type SerializedUser = {
   readonly email: string;
   readonly password: string;
   readonly role: string;
+  readonly emailVerifiedAt?: Maybe<Date>;
+  readonly suspendedAt?: Maybe<Date>;
   readonly createdAt?: Date;
   readonly updatedAt?: Date;
 };
@@ -33,6 +35,8 @@ export type SerializedUserPublic = {
   readonly id: string;
   readonly email: string;
   readonly role: string;
+  readonly emailVerifiedAt?: Maybe<Date>;
+  readonly suspendedAt?: Maybe<Date>;
   readonly createdAt?: Date;
   readonly updatedAt?: Date;
 };
@@ -45,6 +49,8 @@ export type SerializedUserPublic = {
  * User Entity - Aggregate Root
  *
  * Represents an authenticated user in the system.
+ * emailVerifiedAt is set once the user followed a link mailed to email.
+ * suspendedAt is set while an administrator has disabled the account.
  */
 export class UserEntity extends BaseEntity implements IEntity {
   constructor(
@@ -52,6 +58,8 @@ export class UserEntity extends BaseEntity implements IEntity {
     public readonly email: EmailAddress,
     public readonly password: HashedPassword,
     public readonly role: UserRole,
+    public readonly emailVerifiedAt: Option.Option<Date>,
+    public readonly suspendedAt: Option.Option<Date>,
     public readonly createdAt: Date,
     public readonly updatedAt: Date
   ) {
@@ -74,6 +82,8 @@ export class UserEntity extends BaseEntity implements IEntity {
           input.email as EmailAddress,
           input.password as HashedPassword,
           input.role as UserRole,
+          normalizeMaybe(input.emailVerifiedAt),
+          normalizeMaybe(input.suspendedAt),
           input.createdAt ?? new Date(),
           input.updatedAt ?? new Date()
         )
@@ -89,22 +99,89 @@ export class UserEntity extends BaseEntity implements IEntity {
 
   /**
    * Update user
+   * Changing the email address makes it unverified again
    */
   update(updates: {
     email?: EmailAddress;
     password?: HashedPassword;
     role?: UserRole;
   }): UserEntity {
+    const emailChanged =
+      updates.email !== undefined && updates.email !== this.email;
     return new UserEntity(
       this.id,
       updates.email ?? this.email,
       updates.password ?? this.password,
       updates.role ?? this.role,
+      emailChanged ? Option.none() : this.emailVerifiedAt,
+      this.suspendedAt,
       this.createdAt,
       new Date()
     );
   }
 
+  /**
+   * Record that the user proved control of the email address
+   */
+  markEmailVerified(verifiedAt: Date = new Date()): UserEntity {
+    return new UserEntity(
+      this.id,
+      this.email,
+      this.password,
+      this.role,
+      Option.some(verifiedAt),
+      this.suspendedAt,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Check if the email address has been verified
+   */
+  isEmailVerified(): boolean {
+    return Option.isSome(this.emailVerifiedAt);
+  }
+
+  /**
+   * Disable the account; the user can no longer sign in or use tokens
+   */
+  suspend(suspendedAt: Date = new Date()): UserEntity {
+    return new UserEntity(
+      this.id,
+      this.email,
+      this.password,
+      this.role,
+      this.emailVerifiedAt,
+      Option.some(suspendedAt),
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Enable a suspended account again
+   */
+  reactivate(): UserEntity {
+    return new UserEntity(
+      this.id,
+      this.email,
+      this.password,
+      this.role,
+      this.emailVerifiedAt,
+      Option.none(),
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Check if the account is suspended
+   */
+  isSuspended(): boolean {
+    return Option.isSome(this.suspendedAt);
+  }
+
   /**
    * Convert User to UserPublic (remove password)
    */
@@ -113,6 +190,8 @@ export class UserEntity extends BaseEntity implements IEntity {
       this.id,
       this.email,
       this.role,
+      this.emailVerifiedAt,
+      this.suspendedAt,
       this.createdAt,
       this.updatedAt
     );
@@ -127,6 +206,8 @@ export class UserEntity extends BaseEntity implements IEntity {
       email: this.email,
       password: this.password,
       role: this.role,
+      emailVerifiedAt: optionToMaybe(this.emailVerifiedAt),
+      suspendedAt: optionToMaybe(this.suspendedAt),
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
     };
@@ -147,6 +228,8 @@ export class UserPublicEntity extends BaseEntity implements IEntity {
     public readonly id: UserId,
     public readonly email: EmailAddress,
     public readonly role: UserRole,
+    public readonly emailVerifiedAt: Option.Option<Date>,
+    public readonly suspendedAt: Option.Option<Date>,
     public readonly createdAt: Date,
     public readonly updatedAt: Date
   ) {
@@ -167,6 +250,8 @@ export class UserPublicEntity extends BaseEntity implements IEntity {
           input.id as UserId,
           input.email as EmailAddress,
           input.role as UserRole,
+          normalizeMaybe(input.emailVerifiedAt),
+          normalizeMaybe(input.suspendedAt),
           input.createdAt ?? new Date(),
           input.updatedAt ?? new Date()
         )
@@ -180,6 +265,20 @@ export class UserPublicEntity extends BaseEntity implements IEntity {
     }
   }
 
+  /**
+   * Check if the email address has been verified
+   */
+  isEmailVerified(): boolean {
+    return Option.isSome(this.emailVerifiedAt);
+  }
+
+  /**
+   * Check if the account is suspended
+   */
+  isSuspended(): boolean {
+    return Option.isSome(this.suspendedAt);
+  }
+
   /**
    * Serialize to external format
    */
@@ -188,6 +287,8 @@ export class UserPublicEntity extends BaseEntity implements IEntity {
       id: this.id,
       email: this.email,
       role: this.role,
+      emailVerifiedAt: optionToMaybe(this.emailVerifiedAt),
+      suspendedAt: optionToMaybe(this.suspendedAt),
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
     };
@@ -41,6 +41,28 @@ export class UserConstraintError extends Data.TaggedError(
   readonly message: string;
 }> {}
 
+export class UserHasDocumentsError extends Data.TaggedError(
+  "UserHasDocumentsError"
+)<{
+  readonly userId: string;
+  readonly documentCount: number;
+  readonly message?: string;
+}> {}
+
+export class EmailNotVerifiedError extends Data.TaggedError(
+  "EmailNotVerifiedError"
+)<{
+  readonly userId: string;
+  readonly message?: string;
+}> {}
+
+export class UserSuspendedError extends Data.TaggedError(
+  "UserSuspendedError"
+)<{
+  readonly userId: string;
+  readonly message?: string;
+}> {}
+
 /**
  * Union of all User domain errors
  */
@@ -50,4 +72,7 @@ export type UserDomainError =
   | UserValidationError
   | InvalidCredentialsError
   | UserForbiddenError
-  | UserConstraintError;
+  | UserConstraintError
+  | UserHasDocumentsError
+  | EmailNotVerifiedError
+  | UserSuspendedError;
@@ -1,6 +1,7 @@
 import { Effect } from "effect";
 import { UserEntity as User, UserPublicEntity as UserPublic } from "./entity";
 import { UserRole } from "./value-object";
+import { EmailNotVerifiedError, UserSuspendedError } from "./errors";
 
 /**
  * User Domain Business Rules and Guards
@@ -28,6 +29,36 @@ export const canPerformAdminOperation = (
     ? Effect.void
     : Effect.fail(new Error("User does not have admin privileges"));
 
+/**
+ * Guard: User must have verified their email before sharing documents
+ */
+export const guardEmailVerified = (
+  user: User
+): Effect.Effect<void, EmailNotVerifiedError> =>
+  user.isEmailVerified()
+    ? Effect.void
+    : Effect.fail(
+        new EmailNotVerifiedError({
+          userId: user.id,
+          message: "Verify your email address before sharing documents",
+        })
+      );
+
+/**
+ * Guard: Suspended users can neither sign in nor act with existing tokens
+ */
+export const guardUserActive = (
+  user: User
+): Effect.Effect<void, UserSuspendedError> =>
+  user.isSuspended()
+    ? Effect.fail(
+        new UserSuspendedError({
+          userId: user.id,
+          message: "Account is suspended",
+        })
+      )
+    : Effect.void;
+
 /**
  * Check if email format is valid (business rule)
  */
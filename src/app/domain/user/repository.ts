@@ -1,9 +1,35 @@
 import { Effect, Option, Context } from "effect";
 import { UserEntity as User } from "./entity";
 import { UserDomainError } from "./errors";
-import { UserId } from "../refined/uuid";
+import { UserId, FolderId } from "../refined/uuid";
 import { EmailAddress } from "../refined/email";
 
+/**
+ * What happens to the documents of a user whose account is deleted
+ * - REFUSE: fail with UserHasDocumentsError while the user owns documents,
+ *   including documents in the trash
+ * - REASSIGN: hand documents and folders over to another user, gathered
+ *   under a new root folder of theirs (folderName gets a counter suffix
+ *   when they already have a root folder of that name)
+ */
+export type DocumentDisposition =
+  | { readonly mode: "REFUSE" }
+  | {
+      readonly mode: "REASSIGN";
+      readonly toUserId: UserId;
+      readonly folderId: FolderId;
+      readonly folderName: string;
+    };
+
+/**
+ * Outcome of deleting a user with a document disposition
+ */
+export interface UserDeletionSummary {
+  readonly documentsReassigned: number;
+  readonly foldersReassigned: number;
+  readonly folderId: Option.Option<FolderId>;
+}
+
 /**
  * User Repository Interface
  *
@@ -37,6 +63,15 @@ export interface UserRepository {
    */
   readonly delete: (id: UserId) => Effect.Effect<void, UserDomainError>;
 
+  /**
+   * Delete user and dispose of their documents in a single transaction
+   * Nothing is changed when the disposition refuses or any step fails
+   */
+  readonly deleteWithDisposition: (
+    id: UserId,
+    disposition: DocumentDisposition
+  ) => Effect.Effect<UserDeletionSummary, UserDomainError>;
+
   /**
    * List all users (for admin)
    */
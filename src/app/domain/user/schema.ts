@@ -26,6 +26,8 @@ export const UserSchema = S.Struct({
   email: EmailAddress,
   password: HashedPassword,
   role: UserRole,
+  emailVerifiedAt: S.optional(S.NullOr(S.Date)),
+  suspendedAt: S.optional(S.NullOr(S.Date)),
   createdAt: S.optional(S.Date),
   updatedAt: S.optional(S.Date),
 });
@@ -42,6 +44,8 @@ export const UserPublicSchema = S.Struct({
   id: UserId,
   email: EmailAddress,
   role: UserRole,
+  emailVerifiedAt: S.optional(S.NullOr(S.Date)),
+  suspendedAt: S.optional(S.NullOr(S.Date)),
   createdAt: S.optional(S.Date),
   updatedAt: S.optional(S.Date),
 });
@@ -0,0 +1,50 @@
+/**
+ * Drizzle Audit Adapter
+ *
+ * Infrastructure implementation of AuditPort appending to the hash-chained
+ * document_audit table.
+ */
+
+import { Effect, Layer, pipe } from "effect";
+import type { AuditPort } from "../../application/ports/audit.port";
+import { AuditPortTag } from "../../application/ports/audit.port";
+import { getCorrelationId } from "../../presentation/http/middleware/correlation.middleware";
+import { DrizzleService } from "../services/drizzle-service";
+import { appendAuditEntries } from "../services/audit-chain";
+import { AuditMapper } from "../mappers/audit.mapper";
+
+/**
+ * Layer providing the Drizzle-backed audit port
+ */
+export const DrizzleAuditLive = Layer.effect(
+  AuditPortTag,
+  Effect.map(
+    DrizzleService,
+    ({ db }): AuditPort => ({
+      record: (event) =>
+        pipe(
+          getCorrelationId(),
+          Effect.flatMap((correlationId) =>
+            Effect.try({
+              try: () =>
+                db.transaction((tx) =>
+                  appendAuditEntries(tx, [
+                    {
+                      documentId: event.documentId ?? null,
+                      action: event.action,
+                      performedBy: event.performedBy,
+                      details: event.details ?? "",
+                      beforeValue: AuditMapper.toDbJson(event.before),
+                      afterValue: AuditMapper.toDbJson(event.after),
+                      correlationId,
+                    },
+                  ])
+                ),
+              catch: (error) =>
+                new Error(`Failed to record audit event: ${error}`),
+            })
+          )
+        ),
+    })
+  )
+);
@@ -7,3 +7,7 @@
 export { BcryptPasswordHasherLive } from "./bcrypt-password-hasher.adapter";
 export { JwtServiceLive } from "./jwt-token.adapter";
 export { LocalStorageLive } from "./local-storage.adapter";
+export { S3StorageLive } from "./s3-storage.adapter";
+export { DrizzleAuditLive } from "./drizzle-audit.adapter";
+export { SmtpMailerLive } from "./smtp-mailer.adapter";
+export { FileOutboxMailerLive } from "./outbox-mailer.adapter";
@@ -12,7 +12,7 @@ import type {
   JwtSignResult,
 } from "../../application/ports/jwt.port";
 import { JwtPortTag } from "../../application/ports/jwt.port";
-import { makeUserId } from "../../domain/refined/uuid";
+import { makeSessionId, makeUserId } from "../../domain/refined/uuid";
 import { makeEmailAddress } from "../../domain/refined/email";
 
 /**
@@ -22,7 +22,10 @@ const JWT_SECRET = Config.string("JWT_SECRET").pipe(
   Config.withDefault("your-secret-key-change-in-production")
 );
 
-const JWT_EXPIRY = Config.string("JWT_EXPIRY").pipe(Config.withDefault("24h"));
+/**
+ * Access tokens are short-lived; clients renew them with a refresh token
+ */
+const JWT_EXPIRY = Config.string("JWT_EXPIRY").pipe(Config.withDefault("15m"));
 
 /**
  * JWT-based token service implementation
@@ -38,6 +41,7 @@ const makeJwtService = (secret: string, expiry: string): JwtPort => ({
             userId: payload.userId,
             email: payload.email,
             role: payload.role,
+            sid: payload.sessionId,
           },
           secret,
           { expiresIn: expiry } as SignOptions
@@ -61,11 +65,17 @@ const makeJwtService = (secret: string, expiry: string): JwtPort => ({
 
       const userId = yield* makeUserId(decoded.userId);
       const email = yield* makeEmailAddress(decoded.email);
+      // Tokens issued before sessions existed carry no session ID
+      const sessionId = yield* Effect.mapError(
+        makeSessionId(decoded.sid),
+        () => new Error("JWT verification failed: token has no session")
+      );
 
       return {
         userId,
         email,
         role: decoded.role as string,
+        sessionId,
       };
     }),
 });
@@ -5,8 +5,12 @@
  * Organizes files in structure: uploads/{docId}/{versionId}/{filename}
  */
 
-import { Effect, Layer } from "effect";
+import { Effect, Layer, pipe } from "effect";
 import * as fs from "fs/promises";
+import { createReadStream, createWriteStream } from "fs";
+import { Readable, Transform } from "stream";
+import { pipeline } from "stream/promises";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
 import * as path from "path";
 import * as crypto from "crypto";
 import type {
@@ -14,38 +18,163 @@ import type {
   FileMetadata,
   UploadedFile,
   StoredFileInfo,
+  ByteRange,
 } from "../../application/ports/storage.port";
 import { StoragePortTag } from "../../application/ports/storage.port";
 import { DocumentStorageError } from "../../domain/document/errors";
+import { MAX_FILE_SIZE } from "../../domain/document/value-object";
+import {
+  extractText,
+  isIndexableMimeType,
+  MAX_EXTRACTED_TEXT_LENGTH,
+} from "../services/text-extraction";
+import { getMimeTypeFromFilename } from "../services/mime-type";
 
 const STORAGE_ROOT = process.env.STORAGE_ROOT || "./data/uploads";
 const TEMP_ROOT = process.env.TEMP_ROOT || "./data/temp";
 
+const fileTooLargeError = (maxSize = MAX_FILE_SIZE) =>
+  new DocumentStorageError({
+    message:
+      maxSize === MAX_FILE_SIZE
+        ? `File size cannot exceed ${MAX_FILE_SIZE} bytes (100 MB)`
+        : `File size cannot exceed ${maxSize} bytes`,
+  });
+
+/**
+ * Result of streaming an upload to disk
+ */
+interface StreamedUpload {
+  readonly size: number;
+  readonly checksum: string; // SHA-256 hash of file content
+  readonly head: Buffer; // Leading bytes kept for text extraction
+}
+
+/**
+ * Stream an uploaded file to disk without buffering it in memory
+ * Computes the SHA-256 incrementally and aborts once maxSize is exceeded.
+ * Up to headLimit leading bytes are kept for text extraction.
+ */
+const writeUploadToFile = (
+  file: UploadedFile,
+  targetPath: string,
+  maxSize: number,
+  headLimit: number
+): Effect.Effect<StreamedUpload, DocumentStorageError> =>
+  Effect.tryPromise({
+    try: async () => {
+      const hash = crypto.createHash("sha256");
+      const headChunks: Buffer[] = [];
+      let headSize = 0;
+      let size = 0;
+
+      const meter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          size += chunk.length;
+          if (size > maxSize) {
+            callback(fileTooLargeError(maxSize));
+            return;
+          }
+          hash.update(chunk);
+          if (headSize < headLimit) {
+            const part = chunk.subarray(0, headLimit - headSize);
+            headChunks.push(part);
+            headSize += part.length;
+          }
+          callback(null, chunk);
+        },
+      });
+
+      // Files without stream() fall back to a single in-memory chunk
+      const source = file.stream
+        ? Readable.fromWeb(
+            file.stream() as unknown as NodeReadableStream<Uint8Array>
+          )
+        : Readable.from([Buffer.from(await file.arrayBuffer())]);
+
+      await pipeline(source, meter, createWriteStream(targetPath));
+
+      return {
+        size,
+        checksum: hash.digest("hex"),
+        head: Buffer.concat(headChunks),
+      };
+    },
+    catch: (error) =>
+      error instanceof DocumentStorageError
+        ? error
+        : new DocumentStorageError({
+            message: "Failed to write file to temporary storage",
+          }),
+  });
+
 /**
- * Get file MIME type from extension
+ * Append a chunk to a file, failing once more than maxBytes arrive
+ * Bytes received before the failure are kept so the client can resume
  */
-const getMimeTypeFromFilename = (filename: string): string => {
-  const ext = path.extname(filename).toLowerCase();
-  const mimeTypes: Record<string, string> = {
-    ".pdf": "application/pdf",
-    ".doc": "application/msword",
-    ".docx":
-      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    ".xls": "application/vnd.ms-excel",
-    ".xlsx":
-      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
-    ".txt": "text/plain",
-    ".csv": "text/csv",
-    ".jpg": "image/jpeg",
-    ".jpeg": "image/jpeg",
-    ".png": "image/png",
-    ".gif": "image/gif",
-    ".zip": "application/zip",
-    ".json": "application/json",
-    ".xml": "application/xml",
-  };
-  return mimeTypes[ext] || "application/octet-stream";
-};
+const appendChunkToFile = (
+  data: ReadableStream<Uint8Array>,
+  targetPath: string,
+  maxBytes: number
+): Effect.Effect<void, DocumentStorageError> =>
+  Effect.tryPromise({
+    try: async () => {
+      let received = 0;
+
+      const limiter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          received += chunk.length;
+          if (received > maxBytes) {
+            callback(
+              new DocumentStorageError({
+                message: "Chunk exceeds the declared upload length",
+              })
+            );
+            return;
+          }
+          callback(null, chunk);
+        },
+      });
+
+      await pipeline(
+        Readable.fromWeb(data as unknown as NodeReadableStream<Uint8Array>),
+        limiter,
+        createWriteStream(targetPath, { flags: "a" })
+      );
+    },
+    catch: (error) =>
+      error instanceof DocumentStorageError
+        ? error
+        : new DocumentStorageError({
+            message: "Failed to write upload chunk",
+          }),
+  });
+
+/**
+ * Partial file of a resumable upload: {tempRoot}/uploads/{uploadId}.part
+ */
+const uploadPartPath = (tempRoot: string, uploadId: string): string =>
+  path.join(tempRoot, "uploads", `${path.basename(uploadId)}.part`);
+
+/**
+ * Size of a file, or 0 when it does not exist
+ */
+const sizeOrZero = (filePath: string): Promise<number> =>
+  fs.stat(filePath).then(
+    (stats) => stats.size,
+    (error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") return 0;
+      throw error;
+    }
+  );
+
+/**
+ * Delete a file; one that is already gone counts as deleted
+ */
+const unlinkIfExists = (filePath: string): Promise<void> =>
+  fs.unlink(filePath).catch((error: NodeJS.ErrnoException) => {
+    if (error.code !== "ENOENT") throw error;
+  });
 
 /**
  * Local filesystem-based storage implementation
@@ -57,14 +186,20 @@ const makeLocalStorage = (
   storeUploadedFile: (
     file: UploadedFile,
     documentId: string,
-    versionId: string
+    versionId: string,
+    maxSize: number = MAX_FILE_SIZE
   ): Effect.Effect<StoredFileInfo, DocumentStorageError> =>
     Effect.gen(function* () {
       // Extract metadata from uploaded file
       const originalName = file.name || "untitled";
       const filename = originalName;
       const mimeType = file.type || getMimeTypeFromFilename(originalName);
-      const size = file.size;
+      const limit = Math.min(maxSize, MAX_FILE_SIZE);
+
+      // Reject oversized files before reading anything
+      if (file.size > limit) {
+        return yield* Effect.fail(fileTooLargeError(limit));
+      }
 
       // Create temp directory
       yield* Effect.tryPromise({
@@ -75,34 +210,71 @@ const makeLocalStorage = (
           }),
       });
 
-      // Save to temp file
       const tempPath = path.join(
         tempRoot,
         `${crypto.randomUUID()}-${filename}`
       );
-      const arrayBuffer = yield* Effect.tryPromise({
-        try: () => file.arrayBuffer(),
-        catch: () =>
-          new DocumentStorageError({
-            message: "Failed to read uploaded file data",
-          }),
-      });
 
-      const buffer = Buffer.from(arrayBuffer);
+      return yield* pipe(
+        // Stream to temp file, hashing and size-checking as data arrives
+        writeUploadToFile(
+          file,
+          tempPath,
+          limit,
+          isIndexableMimeType(mimeType) ? MAX_EXTRACTED_TEXT_LENGTH : 0
+        ),
+        Effect.flatMap(({ size, checksum, head }) =>
+          Effect.gen(function* () {
+            // Move to permanent storage
+            const targetDir = path.join(storageRoot, documentId, versionId);
+            yield* Effect.tryPromise({
+              try: () => fs.mkdir(targetDir, { recursive: true }),
+              catch: () =>
+                new DocumentStorageError({
+                  message: "Failed to create storage directory",
+                }),
+            });
 
-      // Compute SHA-256 checksum
-      const checksum = crypto.createHash("sha256").update(buffer).digest("hex");
+            const storagePath = path.join(targetDir, filename);
+            yield* Effect.tryPromise({
+              try: () => fs.rename(tempPath, storagePath),
+              catch: () =>
+                new DocumentStorageError({
+                  message: "Failed to move file to permanent storage",
+                }),
+            });
 
-      yield* Effect.tryPromise({
-        try: () => fs.writeFile(tempPath, buffer),
-        catch: () =>
-          new DocumentStorageError({
-            message: "Failed to write file to temporary storage",
-          }),
-      });
+            return {
+              path: storagePath,
+              filename,
+              originalName,
+              mimeType,
+              size,
+              checksum,
+              // Extract text for full-text search (text-based formats only)
+              textContent: extractText(head, mimeType),
+            };
+          })
+        ),
+        // Clean up temp file if it still exists (aborted upload or failed move)
+        Effect.ensuring(
+          Effect.tryPromise(() => fs.unlink(tempPath)).pipe(
+            Effect.catchAll(() => Effect.void)
+          )
+        )
+      );
+    }),
 
-      // Move to permanent storage
+  storeFile: (
+    tempPath: string,
+    filename: string,
+    documentId: string,
+    versionId: string
+  ): Effect.Effect<string, DocumentStorageError> =>
+    Effect.gen(function* () {
+      // Create organized directory structure: uploads/{docId}/{versionId}/
       const targetDir = path.join(storageRoot, documentId, versionId);
+
       yield* Effect.tryPromise({
         try: () => fs.mkdir(targetDir, { recursive: true }),
         catch: () =>
@@ -111,6 +283,7 @@ const makeLocalStorage = (
           }),
       });
 
+      // Move file to permanent storage
       const storagePath = path.join(targetDir, filename);
       yield* Effect.tryPromise({
         try: () => fs.rename(tempPath, storagePath),
@@ -120,58 +293,132 @@ const makeLocalStorage = (
           }),
       });
 
-      // Clean up temp file if it still exists (in case rename failed)
+      return storagePath;
+    }),
+
+  readFileStream: (
+    filePath: string,
+    range?: ByteRange
+  ): Effect.Effect<ReadableStream<Uint8Array>, DocumentStorageError> =>
+    Effect.gen(function* () {
+      // Fail up front, stream errors would only surface mid-response
       yield* Effect.tryPromise({
-        try: () => fs.unlink(tempPath),
-        catch: () => undefined, // Ignore if already moved/deleted
-      }).pipe(Effect.catchAll(() => Effect.void));
+        try: () => fs.access(filePath),
+        catch: () =>
+          new DocumentStorageError({
+            message: "File not found in storage",
+          }),
+      });
 
-      return {
-        path: storagePath,
-        filename,
-        originalName,
-        mimeType,
-        size,
-        checksum,
-      };
+      const stream = createReadStream(
+        filePath,
+        range ? { start: range.start, end: range.end } : undefined
+      );
+      return Readable.toWeb(stream) as unknown as ReadableStream<Uint8Array>;
     }),
 
-  storeFile: (
-    tempPath: string,
-    filename: string,
-    documentId: string,
-    versionId: string
-  ): Effect.Effect<string, DocumentStorageError> =>
+  appendUploadPart: (
+    uploadId: string,
+    offset: number,
+    data: ReadableStream<Uint8Array>,
+    maxBytes: number
+  ): Effect.Effect<number, DocumentStorageError> =>
     Effect.gen(function* () {
-      // Create organized directory structure: uploads/{docId}/{versionId}/
-      const targetDir = path.join(storageRoot, documentId, versionId);
+      const partPath = uploadPartPath(tempRoot, uploadId);
 
       yield* Effect.tryPromise({
-        try: () => fs.mkdir(targetDir, { recursive: true }),
+        try: () => fs.mkdir(path.dirname(partPath), { recursive: true }),
         catch: () =>
           new DocumentStorageError({
-            message: "Failed to create storage directory",
+            message: "Failed to create temporary directory for upload",
           }),
       });
 
-      // Move file to permanent storage
-      const storagePath = path.join(targetDir, filename);
-      yield* Effect.tryPromise({
-        try: () => fs.rename(tempPath, storagePath),
+      const currentSize = yield* Effect.tryPromise({
+        try: () => sizeOrZero(partPath),
         catch: () =>
           new DocumentStorageError({
-            message: "Failed to move file to permanent storage",
+            message: "Failed to read upload progress",
           }),
       });
+      if (currentSize !== offset) {
+        return yield* Effect.fail(
+          new DocumentStorageError({
+            message: `Upload offset ${offset} does not match received size ${currentSize}`,
+          })
+        );
+      }
 
-      return storagePath;
+      yield* appendChunkToFile(data, partPath, maxBytes);
+
+      return yield* Effect.tryPromise({
+        try: () => sizeOrZero(partPath),
+        catch: () =>
+          new DocumentStorageError({
+            message: "Failed to read upload progress",
+          }),
+      });
+    }),
+
+  getUploadPartSize: (
+    uploadId: string
+  ): Effect.Effect<number, DocumentStorageError> =>
+    Effect.tryPromise({
+      try: () => sizeOrZero(uploadPartPath(tempRoot, uploadId)),
+      catch: () =>
+        new DocumentStorageError({
+          message: "Failed to read upload progress",
+        }),
+    }),
+
+  openUploadPart: (
+    uploadId: string,
+    name: string,
+    type: string
+  ): Effect.Effect<UploadedFile, DocumentStorageError> =>
+    Effect.tryPromise({
+      try: async () => {
+        const partPath = uploadPartPath(tempRoot, uploadId);
+        const stats = await fs.stat(partPath);
+        return {
+          name,
+          size: stats.size,
+          type,
+          arrayBuffer: async () => {
+            const buffer = await fs.readFile(partPath);
+            return buffer.buffer.slice(
+              buffer.byteOffset,
+              buffer.byteOffset + buffer.byteLength
+            ) as ArrayBuffer;
+          },
+          stream: () =>
+            Readable.toWeb(
+              createReadStream(partPath)
+            ) as unknown as ReadableStream<Uint8Array>,
+        };
+      },
+      catch: () =>
+        new DocumentStorageError({
+          message: "Upload data not found in temporary storage",
+        }),
+    }),
+
+  deleteUploadPart: (
+    uploadId: string
+  ): Effect.Effect<void, DocumentStorageError> =>
+    Effect.tryPromise({
+      try: () => fs.rm(uploadPartPath(tempRoot, uploadId), { force: true }),
+      catch: () =>
+        new DocumentStorageError({
+          message: "Failed to delete upload data",
+        }),
     }),
 
   deleteFile: (
     storagePath: string
   ): Effect.Effect<void, DocumentStorageError> =>
     Effect.tryPromise({
-      try: () => fs.unlink(storagePath),
+      try: () => unlinkIfExists(storagePath),
       catch: () =>
         new DocumentStorageError({
           message: "Failed to delete file from storage",
@@ -224,9 +471,13 @@ const makeLocalStorage = (
     }),
 });
 
+/**
+ * Layer providing LocalStorage under the given directories
+ */
+export const LocalStorageAtLive = (storageRoot: string, tempRoot: string) =>
+  Layer.sync(StoragePortTag, () => makeLocalStorage(storageRoot, tempRoot));
+
 /**
  * Layer providing LocalStorage
  */
-export const LocalStorageLive = Layer.sync(StoragePortTag, () =>
-  makeLocalStorage(STORAGE_ROOT, TEMP_ROOT)
-);
+export const LocalStorageLive = LocalStorageAtLive(STORAGE_ROOT, TEMP_ROOT);
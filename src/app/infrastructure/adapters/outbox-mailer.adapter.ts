@@ -0,0 +1,72 @@
+/**
+ * Outbox Mailer Adapters
+ *
+ * Implementations of MailerPort that keep messages instead of delivering
+ * them: a directory of .eml files for development and an in-memory list
+ * for tests.
+ */
+
+import { Effect, Layer, pipe } from "effect";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import type {
+  MailerPort,
+  MailMessage,
+} from "../../application/ports/mailer.port";
+import { MailerPortTag } from "../../application/ports/mailer.port";
+
+/**
+ * Render a message as an RFC 5322 document
+ */
+const toEml = (from: string, message: MailMessage): string =>
+  [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.text,
+  ].join("\r\n");
+
+/**
+ * Mailer writing each message to {dir}/{timestamp}-{uuid}.eml
+ */
+export const makeFileOutbox = (dir: string, from: string): MailerPort => ({
+  send: (message) =>
+    pipe(
+      Effect.tryPromise({
+        try: async () => {
+          await fs.mkdir(dir, { recursive: true });
+          await fs.writeFile(
+            path.join(dir, `${Date.now()}-${randomUUID()}.eml`),
+            toEml(from, message)
+          );
+        },
+        catch: (error) => new Error(`Failed to write to mail outbox: ${error}`),
+      })
+    ),
+});
+
+/**
+ * Layer providing the file outbox mailer
+ */
+export const FileOutboxMailerLive = (dir: string, from: string) =>
+  Layer.succeed(MailerPortTag, makeFileOutbox(dir, from));
+
+/**
+ * Mailer keeping sent messages in memory, in sending order
+ */
+export const makeInMemoryOutbox = (): {
+  readonly mailer: MailerPort;
+  readonly messages: MailMessage[];
+} => {
+  const messages: MailMessage[] = [];
+  return {
+    mailer: {
+      send: (message) => Effect.sync(() => void messages.push(message)),
+    },
+    messages,
+  };
+};
@@ -0,0 +1,498 @@
+/**
+ * S3 Storage Adapter
+ *
+ * Infrastructure implementation of StoragePort using S3-compatible object
+ * storage (AWS S3, MinIO, R2, ...) through Bun's built-in S3 client.
+ * Organizes objects as: {keyPrefix}{docId}/{versionId}/{filename}
+ */
+
+import { Effect, Layer, pipe } from "effect";
+import { S3Client } from "bun";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as crypto from "crypto";
+import type {
+  StoragePort,
+  FileMetadata,
+  UploadedFile,
+  StoredFileInfo,
+  ByteRange,
+} from "../../application/ports/storage.port";
+import { StoragePortTag } from "../../application/ports/storage.port";
+import { DocumentStorageError } from "../../domain/document/errors";
+import { MAX_FILE_SIZE } from "../../domain/document/value-object";
+import {
+  extractText,
+  isIndexableMimeType,
+  MAX_EXTRACTED_TEXT_LENGTH,
+} from "../services/text-extraction";
+import { getMimeTypeFromFilename } from "../services/mime-type";
+import type { S3StorageConfig } from "../config/storage.config";
+
+/**
+ * Digits of the zero-padded offset in upload chunk keys, so that listing
+ * order is byte order
+ */
+const OFFSET_KEY_DIGITS = 16;
+
+const fileTooLargeError = (maxSize = MAX_FILE_SIZE) =>
+  new DocumentStorageError({
+    message:
+      maxSize === MAX_FILE_SIZE
+        ? `File size cannot exceed ${MAX_FILE_SIZE} bytes (100 MB)`
+        : `File size cannot exceed ${maxSize} bytes`,
+  });
+
+/**
+ * Result of streaming data into an object
+ */
+interface StreamedUpload {
+  readonly size: number;
+  readonly checksum: string; // SHA-256 hash of object content
+  readonly head: Buffer; // Leading bytes kept for text extraction
+}
+
+/**
+ * Options for streaming data into an object
+ */
+interface WriteObjectOptions {
+  readonly maxBytes: number;
+  readonly headLimit: number;
+  readonly contentType?: string;
+  readonly tooLarge: () => DocumentStorageError;
+  readonly failureMessage: string;
+}
+
+/**
+ * Object stored under a key prefix
+ */
+interface StoredObject {
+  readonly key: string;
+  readonly size: number;
+}
+
+/**
+ * Read an uploaded file as a stream
+ * Files without stream() fall back to a single in-memory chunk
+ */
+const uploadStream = (file: UploadedFile): ReadableStream<Uint8Array> =>
+  file.stream
+    ? file.stream()
+    : new ReadableStream<Uint8Array>({
+        async start(controller) {
+          controller.enqueue(new Uint8Array(await file.arrayBuffer()));
+          controller.close();
+        },
+      });
+
+/**
+ * Stream data into an object without buffering it in memory
+ * Computes the SHA-256 incrementally and errors the stream once more than
+ * maxBytes arrive, which makes the client abort the upload instead of
+ * committing a truncated object
+ */
+const writeStreamToObject = (
+  client: S3Client,
+  key: string,
+  data: ReadableStream<Uint8Array>,
+  options: WriteObjectOptions
+): Effect.Effect<StreamedUpload, DocumentStorageError> =>
+  Effect.tryPromise({
+    try: async () => {
+      const hash = crypto.createHash("sha256");
+      const headChunks: Buffer[] = [];
+      let headSize = 0;
+      let size = 0;
+
+      const metered = data.pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            size += chunk.byteLength;
+            if (size > options.maxBytes) {
+              controller.error(options.tooLarge());
+              return;
+            }
+            hash.update(chunk);
+            if (headSize < options.headLimit) {
+              const part = Buffer.from(
+                chunk.subarray(0, options.headLimit - headSize)
+              );
+              headChunks.push(part);
+              headSize += part.length;
+            }
+            controller.enqueue(chunk);
+          },
+        })
+      );
+
+      await client.write(key, new Response(metered), {
+        type: options.contentType,
+      });
+
+      return {
+        size,
+        checksum: hash.digest("hex"),
+        head: Buffer.concat(headChunks),
+      };
+    },
+    catch: (error) =>
+      error instanceof DocumentStorageError
+        ? error
+        : new DocumentStorageError({ message: options.failureMessage }),
+  });
+
+/**
+ * List every object under a prefix, in key order
+ */
+const listObjects = async (
+  client: S3Client,
+  prefix: string
+): Promise<StoredObject[]> => {
+  const objects: StoredObject[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const page = await client.list({ prefix, continuationToken });
+    for (const object of page.contents ?? []) {
+      objects.push({ key: object.key, size: object.size ?? 0 });
+    }
+    continuationToken = page.isTruncated
+      ? page.nextContinuationToken
+      : undefined;
+  } while (continuationToken);
+
+  return objects.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+};
+
+const totalSize = (objects: readonly StoredObject[]): number =>
+  objects.reduce((sum, object) => sum + object.size, 0);
+
+/**
+ * Read several objects back to back as one stream
+ * Objects are opened one at a time, when the previous one is exhausted
+ */
+const concatObjectStreams = (
+  client: S3Client,
+  keys: readonly string[]
+): ReadableStream<Uint8Array> => {
+  let index = 0;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (index < keys.length) {
+        reader ??= client.file(keys[index]!).stream().getReader();
+        const { done, value } = await reader.read();
+        if (!done) {
+          controller.enqueue(value);
+          return;
+        }
+        reader = undefined;
+        index++;
+      }
+      controller.close();
+    },
+    cancel: (reason) => reader?.cancel(reason),
+  });
+};
+
+/**
+ * S3-compatible object storage implementation
+ *
+ * Objects cannot be appended to, so each chunk of a resumable upload is
+ * stored as its own object under {keyPrefix}tmp/uploads/{uploadId}/, keyed
+ * by the offset it starts at. Their sizes add up to the upload progress.
+ */
+const makeS3Storage = (client: S3Client, keyPrefix: string): StoragePort => {
+  const documentKey = (
+    documentId: string,
+    versionId: string,
+    filename: string
+  ): string => `${keyPrefix}${documentId}/${versionId}/${filename}`;
+
+  const uploadPartPrefix = (uploadId: string): string =>
+    `${keyPrefix}tmp/uploads/${path.basename(uploadId)}/`;
+
+  const uploadChunkKey = (uploadId: string, offset: number): string =>
+    uploadPartPrefix(uploadId) +
+    String(offset).padStart(OFFSET_KEY_DIGITS, "0");
+
+  const listUploadChunks = (
+    uploadId: string
+  ): Effect.Effect<StoredObject[], DocumentStorageError> =>
+    Effect.tryPromise({
+      try: () => listObjects(client, uploadPartPrefix(uploadId)),
+      catch: () =>
+        new DocumentStorageError({
+          message: "Failed to read upload progress",
+        }),
+    });
+
+  return {
+    storeUploadedFile: (
+      file: UploadedFile,
+      documentId: string,
+      versionId: string,
+      maxSize: number = MAX_FILE_SIZE
+    ): Effect.Effect<StoredFileInfo, DocumentStorageError> =>
+      Effect.gen(function* () {
+        // Extract metadata from uploaded file
+        const originalName = file.name || "untitled";
+        const filename = originalName;
+        const mimeType = file.type || getMimeTypeFromFilename(originalName);
+        const limit = Math.min(maxSize, MAX_FILE_SIZE);
+
+        // Reject oversized files before reading anything
+        if (file.size > limit) {
+          return yield* Effect.fail(fileTooLargeError(limit));
+        }
+
+        const key = documentKey(documentId, versionId, filename);
+        const { size, checksum, head } = yield* pipe(
+          // Stream into the bucket, hashing and size-checking as data arrives
+          writeStreamToObject(client, key, uploadStream(file), {
+            maxBytes: limit,
+            headLimit: isIndexableMimeType(mimeType)
+              ? MAX_EXTRACTED_TEXT_LENGTH
+              : 0,
+            contentType: mimeType,
+            tooLarge: () => fileTooLargeError(limit),
+            failureMessage: "Failed to write file to object storage",
+          }),
+          // Remove anything an aborted upload may have left behind
+          Effect.tapError(() =>
+            Effect.tryPromise(() => client.delete(key)).pipe(
+              Effect.catchAll(() => Effect.void)
+            )
+          )
+        );
+
+        return {
+          path: key,
+          filename,
+          originalName,
+          mimeType,
+          size,
+          checksum,
+          // Extract text for full-text search (text-based formats only)
+          textContent: extractText(head, mimeType),
+        };
+      }),
+
+    storeFile: (
+      tempPath: string,
+      filename: string,
+      documentId: string,
+      versionId: string
+    ): Effect.Effect<string, DocumentStorageError> =>
+      Effect.gen(function* () {
+        const key = documentKey(documentId, versionId, filename);
+
+        // Upload the file, then remove the local copy (a move)
+        yield* Effect.tryPromise({
+          try: () =>
+            client.write(key, Bun.file(tempPath), {
+              type: getMimeTypeFromFilename(filename),
+            }),
+          catch: () =>
+            new DocumentStorageError({
+              message: "Failed to move file to permanent storage",
+            }),
+        });
+        yield* Effect.tryPromise(() => fs.unlink(tempPath)).pipe(
+          Effect.catchAll(() => Effect.void)
+        );
+
+        return key;
+      }),
+
+    readFileStream: (
+      key: string,
+      range?: ByteRange
+    ): Effect.Effect<ReadableStream<Uint8Array>, DocumentStorageError> =>
+      Effect.gen(function* () {
+        // Fail up front, stream errors would only surface mid-response
+        const exists = yield* Effect.tryPromise({
+          try: () => client.exists(key),
+          catch: () =>
+            new DocumentStorageError({
+              message: "Failed to read file from storage",
+            }),
+        });
+        if (!exists) {
+          return yield* Effect.fail(
+            new DocumentStorageError({
+              message: "File not found in storage",
+            })
+          );
+        }
+
+        // slice() becomes a ranged GET, its end is exclusive
+        const object = client.file(key);
+        return range
+          ? object.slice(range.start, range.end + 1).stream()
+          : object.stream();
+      }),
+
+    appendUploadPart: (
+      uploadId: string,
+      offset: number,
+      data: ReadableStream<Uint8Array>,
+      maxBytes: number
+    ): Effect.Effect<number, DocumentStorageError> =>
+      Effect.gen(function* () {
+        const currentSize = totalSize(yield* listUploadChunks(uploadId));
+        if (currentSize !== offset) {
+          return yield* Effect.fail(
+            new DocumentStorageError({
+              message: `Upload offset ${offset} does not match received size ${currentSize}`,
+            })
+          );
+        }
+
+        // A chunk that fails midway is not stored at all, the client
+        // resends it from the same offset
+        const { size } = yield* writeStreamToObject(
+          client,
+          uploadChunkKey(uploadId, offset),
+          data,
+          {
+            maxBytes,
+            headLimit: 0,
+            tooLarge: () =>
+              new DocumentStorageError({
+                message: "Chunk exceeds the declared upload length",
+              }),
+            failureMessage: "Failed to write upload chunk",
+          }
+        );
+
+        return offset + size;
+      }),
+
+    getUploadPartSize: (
+      uploadId: string
+    ): Effect.Effect<number, DocumentStorageError> =>
+      pipe(listUploadChunks(uploadId), Effect.map(totalSize)),
+
+    openUploadPart: (
+      uploadId: string,
+      name: string,
+      type: string
+    ): Effect.Effect<UploadedFile, DocumentStorageError> =>
+      pipe(
+        listUploadChunks(uploadId),
+        Effect.filterOrFail(
+          (chunks) => chunks.length > 0,
+          () =>
+            new DocumentStorageError({
+              message: "Upload data not found in temporary storage",
+            })
+        ),
+        Effect.map((chunks) => {
+          const keys = chunks.map((chunk) => chunk.key);
+          return {
+            name,
+            size: totalSize(chunks),
+            type,
+            arrayBuffer: () =>
+              new Response(concatObjectStreams(client, keys)).arrayBuffer(),
+            stream: () => concatObjectStreams(client, keys),
+          };
+        })
+      ),
+
+    deleteUploadPart: (
+      uploadId: string
+    ): Effect.Effect<void, DocumentStorageError> =>
+      Effect.tryPromise({
+        try: async () => {
+          const chunks = await listObjects(client, uploadPartPrefix(uploadId));
+          await Promise.all(chunks.map((chunk) => client.delete(chunk.key)));
+        },
+        catch: () =>
+          new DocumentStorageError({
+            message: "Failed to delete upload data",
+          }),
+      }),
+
+    deleteFile: (key: string): Effect.Effect<void, DocumentStorageError> =>
+      Effect.tryPromise({
+        try: () => client.delete(key),
+        catch: () =>
+          new DocumentStorageError({
+            message: "Failed to delete file from storage",
+          }),
+      }),
+
+    getDownloadUrl: (
+      key: string,
+      expiresIn: number
+    ): Effect.Effect<string, DocumentStorageError> =>
+      // Presigned GET, served by the object store itself
+      Effect.try({
+        try: () => client.presign(key, { expiresIn, method: "GET" }),
+        catch: () =>
+          new DocumentStorageError({
+            message: "Failed to generate download URL",
+          }),
+      }),
+
+    fileExists: (key: string): Effect.Effect<boolean, DocumentStorageError> =>
+      // HEAD request, a missing object resolves to false
+      Effect.tryPromise({
+        try: () => client.exists(key),
+        catch: () =>
+          new DocumentStorageError({
+            message: "Failed to check file existence",
+          }),
+      }),
+
+    getFileMetadata: (
+      key: string
+    ): Effect.Effect<FileMetadata, DocumentStorageError> =>
+      // HEAD request
+      Effect.tryPromise({
+        try: async () => {
+          const stats = await client.stat(key);
+          return {
+            size: stats.size,
+            lastModified: stats.lastModified,
+            contentType: stats.type || "application/octet-stream",
+            etag: stats.etag,
+          };
+        },
+        catch: () =>
+          new DocumentStorageError({
+            message: "Failed to retrieve file metadata",
+          }),
+      }),
+  };
+};
+
+/**
+ * Layer providing S3 storage
+ * Fails on startup when no bucket is configured
+ */
+export const S3StorageLive = (config: S3StorageConfig) =>
+  Layer.effect(
+    StoragePortTag,
+    config.bucket
+      ? Effect.sync(() =>
+          makeS3Storage(
+            new S3Client({
+              bucket: config.bucket,
+              region: config.region,
+              endpoint: config.endpoint,
+              accessKeyId: config.accessKeyId,
+              secretAccessKey: config.secretAccessKey,
+              virtualHostedStyle: config.virtualHostedStyle,
+            }),
+            config.keyPrefix
+          )
+        )
+      : Effect.fail(
+          new DocumentStorageError({
+            message: "S3_BUCKET must be set when STORAGE_TYPE is s3",
+          })
+        )
+  );
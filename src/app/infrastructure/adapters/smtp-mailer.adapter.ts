@@ -0,0 +1,291 @@
+/**
+ * SMTP Mailer Adapter
+ *
+ * Infrastructure implementation of MailerPort delivering through an SMTP
+ * relay. Speaks just enough SMTP for a submission server: EHLO, STARTTLS
+ * or implicit TLS, AUTH PLAIN and a single-recipient DATA transaction,
+ * one connection per message. Credentials are only ever sent over TLS.
+ */
+
+import { Effect, Layer } from "effect";
+import * as net from "net";
+import * as tls from "tls";
+import { hostname } from "os";
+import type {
+  MailerPort,
+  MailMessage,
+} from "../../application/ports/mailer.port";
+import { MailerPortTag } from "../../application/ports/mailer.port";
+import type { SmtpConfig } from "../config/mail.config";
+
+/**
+ * Idle time after which a stalled SMTP conversation is abandoned
+ */
+const SMTP_TIMEOUT_MS = 30_000;
+
+/**
+ * A complete (possibly multi-line) server reply
+ */
+interface SmtpReply {
+  readonly code: number;
+  readonly lines: readonly string[];
+}
+
+/**
+ * How connections to the relay are opened and secured
+ */
+export interface SmtpTransport {
+  readonly open: (config: SmtpConfig) => Promise<net.Socket>;
+  readonly startTls: (
+    socket: net.Socket,
+    servername: string
+  ) => Promise<net.Socket>;
+}
+
+/**
+ * TCP connections, with implicit TLS when the config asks for it
+ */
+const tcpTransport: SmtpTransport = {
+  open: (config) =>
+    new Promise<net.Socket>((resolve, reject) => {
+      const options = { host: config.host, port: config.port };
+      const socket = config.secure
+        ? tls.connect({ ...options, servername: config.host }, () =>
+            resolve(socket)
+          )
+        : net.connect(options, () => resolve(socket));
+      socket.once("error", reject);
+      socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+        socket.destroy(new Error("SMTP server did not answer"))
+      );
+    }),
+  startTls: (plain, servername) =>
+    new Promise<net.Socket>((resolve, reject) => {
+      const socket = tls.connect({ socket: plain, servername }, () =>
+        resolve(socket)
+      );
+      socket.once("error", reject);
+    }),
+};
+
+/**
+ * Line-oriented reader/writer over a socket
+ * The socket can be swapped for its TLS wrapper after STARTTLS
+ */
+class SmtpConnection {
+  private buffer = "";
+  private readonly lines: string[] = [];
+  private failure: Error | undefined;
+  private wake: (() => void) | undefined;
+
+  constructor(
+    private socket: net.Socket,
+    readonly secure: boolean
+  ) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket;
+    socket.setEncoding("utf8");
+    socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+      socket.destroy(new Error("SMTP server timed out"))
+    );
+    socket.on("data", (chunk: string) => {
+      this.buffer += chunk;
+      const parts = this.buffer.split("\r\n");
+      this.buffer = parts.pop() ?? "";
+      this.lines.push(...parts);
+      this.wake?.();
+    });
+    socket.on("error", (error) => {
+      this.failure = error;
+      this.wake?.();
+    });
+    socket.on("close", () => {
+      this.failure ??= new Error("SMTP connection closed");
+      this.wake?.();
+    });
+  }
+
+  private async nextLine(): Promise<string> {
+    while (this.lines.length === 0) {
+      if (this.failure) throw this.failure;
+      await new Promise<void>((resolve) => (this.wake = resolve));
+      this.wake = undefined;
+    }
+    return this.lines.shift()!;
+  }
+
+  /**
+   * Read one reply and check its class (2xx, 3xx) against the expected code
+   */
+  async expect(expected: number): Promise<SmtpReply> {
+    const lines: string[] = [];
+    for (;;) {
+      const line = await this.nextLine();
+      lines.push(line.slice(4));
+      if (line.charAt(3) !== "-") {
+        const code = Number(line.slice(0, 3));
+        if (Math.floor(code / 100) !== Math.floor(expected / 100)) {
+          throw new Error(`SMTP server replied ${code} ${lines.join(" ")}`);
+        }
+        return { code, lines };
+      }
+    }
+  }
+
+  async command(line: string, expected: number): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  /**
+   * Continue the conversation over TLS on the same connection
+   */
+  async upgrade(
+    transport: SmtpTransport,
+    servername: string
+  ): Promise<SmtpConnection> {
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    plain.removeAllListeners("error");
+    plain.removeAllListeners("close");
+    plain.setTimeout(0);
+    return new SmtpConnection(
+      await transport.startTls(plain, servername),
+      true
+    );
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+/**
+ * Open a connection and wait for the server greeting
+ */
+const connect = async (
+  config: SmtpConfig,
+  transport: SmtpTransport
+): Promise<SmtpConnection> => {
+  const connection = new SmtpConnection(
+    await transport.open(config),
+    config.secure
+  );
+  try {
+    await connection.expect(220);
+  } catch (error) {
+    connection.close();
+    throw error;
+  }
+  return connection;
+};
+
+/**
+ * Header values are written verbatim, so line breaks would start new headers
+ */
+const assertSingleLine = (field: string, value: string) => {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`Mail ${field} must not contain line breaks`);
+  }
+};
+
+/**
+ * Message content for DATA: CRLF line endings, dot-stuffed, terminated
+ */
+const toData = (from: string, message: MailMessage): string => {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  const body = message.text
+    .split(/\r?\n/)
+    .map((line) => (line.startsWith(".") ? `.${line}` : line));
+  return [...headers, "", ...body, "."].join("\r\n") + "\r\n";
+};
+
+/**
+ * Deliver one message over a fresh connection
+ * With credentials configured, a relay that does not bring up TLS is
+ * refused rather than sent the password in cleartext
+ */
+const deliver = async (
+  config: SmtpConfig,
+  from: string,
+  message: MailMessage,
+  transport: SmtpTransport
+): Promise<void> => {
+  assertSingleLine("recipient", message.to);
+  assertSingleLine("subject", message.subject);
+
+  let connection = await connect(config, transport);
+  try {
+    const greeting = await connection.command(`EHLO ${hostname()}`, 250);
+    const offersStartTls = greeting.lines.some(
+      (line) => line.toUpperCase() === "STARTTLS"
+    );
+    if (!connection.secure && offersStartTls) {
+      await connection.command("STARTTLS", 220);
+      connection = await connection.upgrade(transport, config.host);
+      await connection.command(`EHLO ${hostname()}`, 250);
+    }
+    if (config.user && !connection.secure) {
+      throw new Error(
+        "SMTP server did not offer STARTTLS; refusing to send credentials in cleartext"
+      );
+    }
+    if (config.user) {
+      const credentials = Buffer.from(
+        `\0${config.user}\0${config.password ?? ""}`
+      ).toString("base64");
+      await connection.command(`AUTH PLAIN ${credentials}`, 235);
+    }
+    await connection.command(`MAIL FROM:<${from}>`, 250);
+    await connection.command(`RCPT TO:<${message.to}>`, 250);
+    await connection.command("DATA", 354);
+    connection.write(toData(from, message));
+    await connection.expect(250);
+    await connection.command("QUIT", 221);
+  } finally {
+    connection.close();
+  }
+};
+
+/**
+ * Mailer delivering through the configured SMTP relay
+ */
+export const makeSmtpMailer = (
+  config: SmtpConfig,
+  from: string,
+  transport: SmtpTransport = tcpTransport
+): MailerPort => ({
+  send: (message) =>
+    Effect.tryPromise({
+      try: () => deliver(config, from, message, transport),
+      catch: (error) => new Error(`Failed to send mail: ${error}`),
+    }),
+});
+
+/**
+ * Layer providing the SMTP mailer
+ */
+export const SmtpMailerLive = (config: SmtpConfig, from: string) =>
+  Layer.effect(
+    MailerPortTag,
+    config.host
+      ? Effect.succeed(makeSmtpMailer(config, from))
+      : Effect.fail(
+          new Error("SMTP_HOST must be set when MAIL_TRANSPORT is smtp")
+        )
+  );
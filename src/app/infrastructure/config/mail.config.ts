@@ -0,0 +1,45 @@
+import { Effect } from "effect";
+import path from "path";
+
+/**
+ * SMTP relay configuration
+ */
+export interface SmtpConfig {
+  readonly host: string;
+  readonly port: number;
+  readonly secure: boolean; // Implicit TLS (port 465); otherwise STARTTLS
+  readonly user?: string;
+  readonly password?: string;
+}
+
+/**
+ * Mail configuration
+ */
+export interface MailConfig {
+  readonly transport: "outbox" | "smtp";
+  readonly from: string;
+  readonly outboxPath: string; // Directory the outbox adapter writes to
+  readonly smtp: SmtpConfig;
+}
+
+/**
+ * Load mail config from environment
+ */
+export const loadMailConfig = (): MailConfig => ({
+  transport: (process.env.MAIL_TRANSPORT as "outbox" | "smtp") || "outbox",
+  from: process.env.MAIL_FROM || "no-reply@localhost",
+  outboxPath:
+    process.env.MAIL_OUTBOX_PATH || path.join(process.cwd(), "data", "outbox"),
+  smtp: {
+    host: process.env.SMTP_HOST || "",
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === "true",
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+  },
+});
+
+/**
+ * Mail config as Effect
+ */
+export const MailConfigLive = Effect.succeed(loadMailConfig());
@@ -7,6 +7,14 @@ export interface ServerConfig {
   readonly port: number;
   readonly hostname: string;
   readonly environment: "development" | "production" | "test";
+  readonly trashPurgeIntervalMinutes: number;
+  readonly uploadCleanupIntervalMinutes: number;
+  readonly permissionExpiryIntervalMinutes: number;
+  /**
+   * Whether requests arrive through a reverse proxy that sets
+   * X-Forwarded-For; only then is the header trusted for the client IP
+   */
+  readonly trustProxy: boolean;
 }
 
 /**
@@ -21,6 +29,13 @@ export const loadServerConfig = (): ServerConfig => {
     port: Number(process.env.PORT) || 3000,
     hostname: process.env.HOSTNAME || "localhost",
     environment,
+    trashPurgeIntervalMinutes:
+      Number(process.env.TRASH_PURGE_INTERVAL_MINUTES) || 60,
+    uploadCleanupIntervalMinutes:
+      Number(process.env.UPLOAD_CLEANUP_INTERVAL_MINUTES) || 15,
+    permissionExpiryIntervalMinutes:
+      Number(process.env.PERMISSION_EXPIRY_INTERVAL_MINUTES) || 5,
+    trustProxy: process.env.TRUST_PROXY === "true",
   };
 };
 
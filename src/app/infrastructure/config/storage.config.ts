@@ -1,12 +1,26 @@
 import { Effect } from "effect";
 import path from "path";
 
+/**
+ * S3-compatible object storage configuration (AWS S3, MinIO, R2, ...)
+ */
+export interface S3StorageConfig {
+  readonly bucket: string;
+  readonly region: string;
+  readonly endpoint?: string; // Custom endpoint for non-AWS services
+  readonly accessKeyId?: string;
+  readonly secretAccessKey?: string;
+  readonly keyPrefix: string; // Prepended to every object key
+  readonly virtualHostedStyle: boolean;
+}
+
 /**
  * Storage configuration
  */
 export interface StorageConfig {
   readonly type: "local" | "s3";
   readonly basePath: string;
+  readonly s3: S3StorageConfig;
 }
 
 /**
@@ -16,6 +30,15 @@ export const loadStorageConfig = (): StorageConfig => ({
   type: (process.env.STORAGE_TYPE as "local" | "s3") || "local",
   basePath:
     process.env.STORAGE_BASE_PATH || path.join(process.cwd(), "uploads"),
+  s3: {
+    bucket: process.env.S3_BUCKET || "",
+    region: process.env.S3_REGION || "us-east-1",
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+    keyPrefix: process.env.S3_KEY_PREFIX || "",
+    virtualHostedStyle: process.env.S3_VIRTUAL_HOSTED_STYLE === "true",
+  },
 });
 
 /**
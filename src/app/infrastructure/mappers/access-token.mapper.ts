@@ -0,0 +1,80 @@
+import { Option } from "effect";
+import { AccessTokenEntity } from "../../domain/access-token/entity";
+import type {
+  AccessTokenName,
+  AccessTokenScope,
+} from "../../domain/access-token/value-object";
+import { AccessTokenId, UserId } from "../../domain/refined/uuid";
+import { normalizeMaybe } from "../../domain/shared/base-entity";
+
+/**
+ * Database row type for AccessToken (from Drizzle)
+ */
+export interface AccessTokenRow {
+  id: string;
+  userId: string;
+  name: string;
+  scope: string;
+  tokenHash: string;
+  tokenHint: string;
+  expiresAt: Date | string | null;
+  lastUsedAt: Date | string | null;
+  revokedAt: Date | string | null;
+  createdAt: Date | string;
+}
+
+const toDate = (value: Date | string): Date =>
+  typeof value === "string" ? new Date(value) : value;
+
+const toMaybeDate = (value: Date | string | null) =>
+  normalizeMaybe(value ? toDate(value) : null);
+
+const toDbDate = (value: Option.Option<Date>): string | null =>
+  Option.match(value, {
+    onNone: () => null,
+    onSome: (date) => date.toISOString(),
+  });
+
+/**
+ * AccessToken Mapper - Infrastructure ↔ Domain
+ */
+export const AccessTokenMapper = {
+  /**
+   * Database → Domain
+   */
+  toDomain: (row: AccessTokenRow): AccessTokenEntity =>
+    new AccessTokenEntity(
+      row.id as AccessTokenId,
+      row.userId as UserId,
+      row.name as AccessTokenName,
+      row.scope as AccessTokenScope,
+      row.tokenHash,
+      row.tokenHint,
+      toMaybeDate(row.expiresAt),
+      toMaybeDate(row.lastUsedAt),
+      toMaybeDate(row.revokedAt),
+      toDate(row.createdAt)
+    ),
+
+  /**
+   * Domain → Database Create Input
+   */
+  toDbCreate: (token: AccessTokenEntity) => ({
+    id: token.id,
+    userId: token.userId,
+    name: token.name,
+    scope: token.scope,
+    tokenHash: token.tokenHash,
+    tokenHint: token.tokenHint,
+    expiresAt: toDbDate(token.expiresAt),
+    lastUsedAt: toDbDate(token.lastUsedAt),
+    revokedAt: toDbDate(token.revokedAt),
+    createdAt: token.createdAt.toISOString(),
+  }),
+
+  /**
+   * Convert array of rows to domain entities
+   */
+  toDomainMany: (rows: AccessTokenRow[]): AccessTokenEntity[] =>
+    rows.map(AccessTokenMapper.toDomain),
+};
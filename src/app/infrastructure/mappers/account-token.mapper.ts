@@ -0,0 +1,59 @@
+import { Option } from "effect";
+import { AccountTokenEntity } from "../../domain/account-token/entity";
+import type { AccountTokenPurpose } from "../../domain/account-token/value-object";
+import { AccountTokenId, UserId } from "../../domain/refined/uuid";
+import { normalizeMaybe } from "../../domain/shared/base-entity";
+
+/**
+ * Database row type for AccountToken (from Drizzle)
+ */
+export interface AccountTokenRow {
+  id: string;
+  userId: string;
+  purpose: string;
+  tokenHash: string;
+  expiresAt: Date | string;
+  consumedAt: Date | string | null;
+  createdAt: Date | string;
+}
+
+const toDate = (value: Date | string): Date =>
+  typeof value === "string" ? new Date(value) : value;
+
+const toDbDate = (value: Option.Option<Date>): string | null =>
+  Option.match(value, {
+    onNone: () => null,
+    onSome: (date) => date.toISOString(),
+  });
+
+/**
+ * AccountToken Mapper - Infrastructure ↔ Domain
+ */
+export const AccountTokenMapper = {
+  /**
+   * Database → Domain
+   */
+  toDomain: (row: AccountTokenRow): AccountTokenEntity =>
+    new AccountTokenEntity(
+      row.id as AccountTokenId,
+      row.userId as UserId,
+      row.purpose as AccountTokenPurpose,
+      row.tokenHash,
+      toDate(row.expiresAt),
+      normalizeMaybe(row.consumedAt ? toDate(row.consumedAt) : null),
+      toDate(row.createdAt)
+    ),
+
+  /**
+   * Domain → Database Create Input
+   */
+  toDbCreate: (token: AccountTokenEntity) => ({
+    id: token.id,
+    userId: token.userId,
+    purpose: token.purpose,
+    tokenHash: token.tokenHash,
+    expiresAt: token.expiresAt.toISOString(),
+    consumedAt: toDbDate(token.consumedAt),
+    createdAt: token.createdAt.toISOString(),
+  }),
+};
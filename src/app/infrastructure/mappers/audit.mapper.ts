@@ -0,0 +1,77 @@
+import { Option } from "effect";
+import { AuditEntryEntity } from "../../domain/audit/entity";
+import {
+  AuditEntryId,
+  DocumentId,
+  UserId,
+} from "../../domain/refined/uuid";
+import { normalizeMaybe } from "../../domain/shared/base-entity";
+
+/**
+ * Database row type for AuditEntry (from Drizzle)
+ */
+export interface AuditEntryRow {
+  id: string;
+  documentId: string | null;
+  action: string;
+  performedBy: string;
+  details: string;
+  beforeValue: string | null;
+  afterValue: string | null;
+  correlationId: string | null;
+  performedAt: string;
+}
+
+/**
+ * Audit Mapper - Infrastructure ↔ Domain
+ *
+ * performed_at is a UTC time formatted like SQLite's CURRENT_TIMESTAMP,
+ * "YYYY-MM-DD HH:MM:SS"; before_value / after_value hold JSON
+ */
+export const AuditMapper = {
+  /**
+   * Database → Domain
+   */
+  toDomain: (row: AuditEntryRow): AuditEntryEntity =>
+    new AuditEntryEntity(
+      row.id as AuditEntryId,
+      normalizeMaybe(row.documentId as DocumentId | null),
+      row.action,
+      row.performedBy as UserId,
+      normalizeMaybe(row.details || null),
+      AuditMapper.fromDbJson(row.beforeValue),
+      AuditMapper.fromDbJson(row.afterValue),
+      normalizeMaybe(row.correlationId),
+      AuditMapper.fromDbTimestamp(row.performedAt)
+    ),
+
+  /**
+   * Database → Domain (multiple)
+   */
+  toDomainMany: (rows: readonly AuditEntryRow[]): AuditEntryEntity[] =>
+    rows.map(AuditMapper.toDomain),
+
+  /**
+   * Parse a before_value / after_value column
+   */
+  fromDbJson: (value: string | null): Option.Option<unknown> =>
+    value === null ? Option.none() : Option.some(JSON.parse(value)),
+
+  /**
+   * Serialize a value for a before_value / after_value column
+   */
+  toDbJson: (value: unknown): string | null =>
+    value === undefined ? null : JSON.stringify(value),
+
+  /**
+   * Parse a performed_at value
+   */
+  fromDbTimestamp: (value: string): Date =>
+    new Date(value.includes("T") ? value : `${value.replace(" ", "T")}Z`),
+
+  /**
+   * Format a date the way performed_at stores it, so they compare as text
+   */
+  toDbTimestamp: (date: Date): string =>
+    date.toISOString().slice(0, 19).replace("T", " "),
+} as const;
@@ -1,4 +1,4 @@
-import { Option } from "effect";
+import { Option, pipe } from "effect";
 import {
   DocumentEntity,
   DocumentVersionEntity,
@@ -8,6 +8,7 @@ import {
 import {
   DocumentId,
   DocumentVersionId,
+  FolderId,
   UserId,
 } from "../../domain/refined/uuid";
 import {
@@ -31,9 +32,12 @@ export interface DocumentRow {
   mimeType: string;
   size: number;
   path: string | null;
+  folderId: string | null;
   uploadedBy: string;
   createdAt: Date | string;
   updatedAt: Date | string;
+  deletedAt: string | null;
+  deletedBy: string | null;
 }
 
 /**
@@ -77,6 +81,7 @@ export const DocumentMapper = {
       row.mimeType as MimeType,
       row.size as FileSize,
       normalizeMaybe(row.path as FilePath | null),
+      normalizeMaybe(row.folderId as FolderId | null),
       row.uploadedBy as UserId,
       typeof row.createdAt === "string"
         ? new Date(row.createdAt)
@@ -84,6 +89,8 @@ export const DocumentMapper = {
       typeof row.updatedAt === "string"
         ? new Date(row.updatedAt)
         : row.updatedAt,
+      row.deletedAt ? Option.some(new Date(row.deletedAt)) : Option.none(),
+      normalizeMaybe(row.deletedBy as UserId | null),
       [] // Empty by default, populate separately
     ),
 
@@ -103,6 +110,7 @@ export const DocumentMapper = {
       row.mimeType as MimeType,
       row.size as FileSize,
       normalizeMaybe(row.path as FilePath | null),
+      normalizeMaybe(row.folderId as FolderId | null),
       row.uploadedBy as UserId,
       typeof row.createdAt === "string"
         ? new Date(row.createdAt)
@@ -110,6 +118,8 @@ export const DocumentMapper = {
       typeof row.updatedAt === "string"
         ? new Date(row.updatedAt)
         : row.updatedAt,
+      row.deletedAt ? Option.some(new Date(row.deletedAt)) : Option.none(),
+      normalizeMaybe(row.deletedBy as UserId | null),
       versions
     );
   },
@@ -124,9 +134,16 @@ export const DocumentMapper = {
     mimeType: document.mimeType,
     size: document.size,
     path: Option.getOrNull(document.path),
+    folderId: Option.getOrNull(document.folderId),
     uploadedBy: document.uploadedBy,
     createdAt: document.createdAt.toISOString(),
     updatedAt: document.updatedAt.toISOString(),
+    deletedAt: pipe(
+      document.deletedAt,
+      Option.map((date) => date.toISOString()),
+      Option.getOrNull
+    ),
+    deletedBy: Option.getOrNull(document.deletedBy),
   }),
 
   /**
@@ -136,7 +153,15 @@ export const DocumentMapper = {
     filename: document.filename,
     originalName: document.originalName,
     path: Option.getOrNull(document.path),
+    folderId: Option.getOrNull(document.folderId),
+    uploadedBy: document.uploadedBy,
     updatedAt: new Date().toISOString(),
+    deletedAt: pipe(
+      document.deletedAt,
+      Option.map((date) => date.toISOString()),
+      Option.getOrNull
+    ),
+    deletedBy: Option.getOrNull(document.deletedBy),
   }),
 
   /**
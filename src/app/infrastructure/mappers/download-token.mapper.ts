@@ -21,6 +21,8 @@ export interface DownloadTokenRow {
   usedAt: Date | string | null;
   createdBy: string;
   createdAt: Date | string;
+  resumedFrom: number;
+  resumeCount: number;
 }
 
 /**
@@ -51,7 +53,9 @@ export const DownloadTokenMapper = {
       row.createdBy as UserId,
       typeof row.createdAt === "string"
         ? new Date(row.createdAt)
-        : row.createdAt
+        : row.createdAt,
+      row.resumedFrom,
+      row.resumeCount
     ),
 
   /**
@@ -69,16 +73,20 @@ export const DownloadTokenMapper = {
     }),
     createdBy: token.createdBy,
     createdAt: token.createdAt.toISOString(),
+    resumedFrom: token.resumedFrom,
+    resumeCount: token.resumeCount,
   }),
 
   /**
-   * Domain → Database Update Input (for marking as used)
+   * Domain → Database Update Input (for marking as used or resumed)
    */
   toDbUpdate: (token: DownloadTokenEntity) => ({
     usedAt: Option.match(token.usedAt, {
       onNone: () => null,
       onSome: (date) => date.toISOString(),
     }),
+    resumedFrom: token.resumedFrom,
+    resumeCount: token.resumeCount,
   }),
 
   /**
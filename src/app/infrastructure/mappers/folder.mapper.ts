@@ -0,0 +1,66 @@
+import { Option } from "effect";
+import { FolderEntity } from "../../domain/folder/entity";
+import { FolderId, UserId } from "../../domain/refined/uuid";
+import { FolderName } from "../../domain/folder/value-object";
+import { normalizeMaybe } from "../../domain/shared/base-entity";
+
+/**
+ * Database row type for Folder (from Drizzle)
+ */
+export interface FolderRow {
+  id: string;
+  name: string;
+  parentId: string | null;
+  ownerId: string;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+/**
+ * Folder Mapper - Infrastructure ↔ Domain
+ */
+export const FolderMapper = {
+  /**
+   * Database → Domain
+   */
+  toDomain: (row: FolderRow): FolderEntity =>
+    new FolderEntity(
+      row.id as FolderId,
+      row.name as FolderName,
+      normalizeMaybe(row.parentId as FolderId | null),
+      row.ownerId as UserId,
+      typeof row.createdAt === "string"
+        ? new Date(row.createdAt)
+        : row.createdAt,
+      typeof row.updatedAt === "string"
+        ? new Date(row.updatedAt)
+        : row.updatedAt
+    ),
+
+  /**
+   * Domain → Database Create Input
+   */
+  toDbCreate: (folder: FolderEntity) => ({
+    id: folder.id,
+    name: folder.name,
+    parentId: Option.getOrNull(folder.parentId),
+    ownerId: folder.ownerId,
+    createdAt: folder.createdAt.toISOString(),
+    updatedAt: folder.updatedAt.toISOString(),
+  }),
+
+  /**
+   * Domain → Database Update Input
+   */
+  toDbUpdate: (folder: FolderEntity) => ({
+    name: folder.name,
+    parentId: Option.getOrNull(folder.parentId),
+    updatedAt: new Date().toISOString(),
+  }),
+
+  /**
+   * Convert array of rows to domain entities
+   */
+  toDomainMany: (rows: FolderRow[]): FolderEntity[] =>
+    rows.map(FolderMapper.toDomain),
+};
@@ -0,0 +1,68 @@
+import { GroupEntity } from "../../domain/group/entity";
+import { GroupId, UserId } from "../../domain/refined/uuid";
+import { GroupName } from "../../domain/group/value-object";
+
+/**
+ * Database row type for Group (from Drizzle, with its members loaded)
+ */
+export interface GroupRow {
+  id: string;
+  name: string;
+  ownerId: string;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  members: { userId: string }[];
+}
+
+/**
+ * Group Mapper - Infrastructure ↔ Domain
+ */
+export const GroupMapper = {
+  /**
+   * Database → Domain
+   */
+  toDomain: (row: GroupRow): GroupEntity =>
+    new GroupEntity(
+      row.id as GroupId,
+      row.name as GroupName,
+      row.ownerId as UserId,
+      row.members.map((member) => member.userId as UserId),
+      typeof row.createdAt === "string"
+        ? new Date(row.createdAt)
+        : row.createdAt,
+      typeof row.updatedAt === "string"
+        ? new Date(row.updatedAt)
+        : row.updatedAt
+    ),
+
+  /**
+   * Domain → Database Create Input
+   */
+  toDbCreate: (group: GroupEntity) => ({
+    id: group.id,
+    name: group.name,
+    ownerId: group.ownerId,
+    createdAt: group.createdAt.toISOString(),
+    updatedAt: group.updatedAt.toISOString(),
+  }),
+
+  /**
+   * Domain → Database Update Input
+   */
+  toDbUpdate: (group: GroupEntity) => ({
+    name: group.name,
+    updatedAt: new Date().toISOString(),
+  }),
+
+  /**
+   * Domain → Database membership rows
+   */
+  toDbMembers: (group: GroupEntity) =>
+    group.memberIds.map((userId) => ({ groupId: group.id, userId })),
+
+  /**
+   * Convert array of rows to domain entities
+   */
+  toDomainMany: (rows: GroupRow[]): GroupEntity[] =>
+    rows.map(GroupMapper.toDomain),
+};
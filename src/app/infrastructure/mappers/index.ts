@@ -10,3 +10,13 @@ export * from "./document.mapper";
 export * from "./permission.mapper";
 export * from "./metadata.mapper";
 export * from "./download-token.mapper";
+export * from "./folder.mapper";
+export * from "./upload-session.mapper";
+export * from "./upload-ticket.mapper";
+export * from "./group.mapper";
+export * from "./audit.mapper";
+export * from "./session.mapper";
+export * from "./access-token.mapper";
+export * from "./mfa.mapper";
+export * from "./login-throttle.mapper";
+export * from "./account-token.mapper";
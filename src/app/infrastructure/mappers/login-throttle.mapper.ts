@@ -0,0 +1,71 @@
+import { Option } from "effect";
+import { LoginThrottleEntity } from "../../domain/login-throttle/entity";
+import type { LoginThrottleScope } from "../../domain/login-throttle/value-object";
+import { normalizeMaybe } from "../../domain/shared/base-entity";
+
+/**
+ * Database row type for LoginThrottle (from Drizzle)
+ */
+export interface LoginThrottleRow {
+  scope: string;
+  key: string;
+  failures: number;
+  lastFailureAt: Date | string | null;
+  blockedUntil: Date | string | null;
+  locked: boolean;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+const toDate = (value: Date | string): Date =>
+  typeof value === "string" ? new Date(value) : value;
+
+const toMaybeDate = (value: Date | string | null) =>
+  normalizeMaybe(value ? toDate(value) : null);
+
+const toDbDate = (value: Option.Option<Date>): string | null =>
+  Option.match(value, {
+    onNone: () => null,
+    onSome: (date) => date.toISOString(),
+  });
+
+/**
+ * LoginThrottle Mapper - Infrastructure ↔ Domain
+ */
+export const LoginThrottleMapper = {
+  /**
+   * Database → Domain
+   */
+  toDomain: (row: LoginThrottleRow): LoginThrottleEntity =>
+    new LoginThrottleEntity(
+      row.scope as LoginThrottleScope,
+      row.key,
+      row.failures,
+      toMaybeDate(row.lastFailureAt),
+      toMaybeDate(row.blockedUntil),
+      row.locked,
+      toDate(row.createdAt),
+      toDate(row.updatedAt)
+    ),
+
+  /**
+   * Domain → Database Create Input
+   */
+  toDbCreate: (throttle: LoginThrottleEntity) => ({
+    scope: throttle.scope,
+    key: throttle.key,
+    ...LoginThrottleMapper.toDbUpdate(throttle),
+    createdAt: throttle.createdAt.toISOString(),
+  }),
+
+  /**
+   * Domain → Database Update Input
+   */
+  toDbUpdate: (throttle: LoginThrottleEntity) => ({
+    failures: throttle.failures,
+    lastFailureAt: toDbDate(throttle.lastFailureAt),
+    blockedUntil: toDbDate(throttle.blockedUntil),
+    locked: throttle.locked,
+    updatedAt: throttle.updatedAt.toISOString(),
+  }),
+};
@@ -0,0 +1,116 @@
+import { Option } from "effect";
+import {
+  MfaChallengeEntity,
+  MfaEnrollmentEntity,
+} from "../../domain/mfa/entity";
+import { MfaChallengeId, UserId } from "../../domain/refined/uuid";
+import { normalizeMaybe } from "../../domain/shared/base-entity";
+
+/**
+ * Database row type for MfaEnrollment (from Drizzle)
+ */
+export interface MfaEnrollmentRow {
+  userId: string;
+  secret: string;
+  confirmedAt: Date | string | null;
+  recoveryCodeHashes: string;
+  lastUsedStep: number | null;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+/**
+ * Database row type for MfaChallenge (from Drizzle)
+ */
+export interface MfaChallengeRow {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date | string;
+  attempts: number;
+  consumedAt: Date | string | null;
+  createdAt: Date | string;
+}
+
+const toDate = (value: Date | string): Date =>
+  typeof value === "string" ? new Date(value) : value;
+
+const toMaybeDate = (value: Date | string | null) =>
+  normalizeMaybe(value ? toDate(value) : null);
+
+const toDbDate = (value: Option.Option<Date>): string | null =>
+  Option.match(value, {
+    onNone: () => null,
+    onSome: (date) => date.toISOString(),
+  });
+
+/**
+ * MfaEnrollment Mapper - Infrastructure ↔ Domain
+ */
+export const MfaEnrollmentMapper = {
+  /**
+   * Database → Domain
+   */
+  toDomain: (row: MfaEnrollmentRow): MfaEnrollmentEntity =>
+    new MfaEnrollmentEntity(
+      row.userId as UserId,
+      row.secret,
+      toMaybeDate(row.confirmedAt),
+      JSON.parse(row.recoveryCodeHashes) as string[],
+      normalizeMaybe(row.lastUsedStep),
+      toDate(row.createdAt),
+      toDate(row.updatedAt)
+    ),
+
+  /**
+   * Domain → Database Create Input
+   */
+  toDbCreate: (enrollment: MfaEnrollmentEntity) => ({
+    userId: enrollment.userId,
+    ...MfaEnrollmentMapper.toDbUpdate(enrollment),
+    createdAt: enrollment.createdAt.toISOString(),
+  }),
+
+  /**
+   * Domain → Database Update Input
+   */
+  toDbUpdate: (enrollment: MfaEnrollmentEntity) => ({
+    secret: enrollment.secret,
+    confirmedAt: toDbDate(enrollment.confirmedAt),
+    recoveryCodeHashes: JSON.stringify(enrollment.recoveryCodeHashes),
+    lastUsedStep: Option.getOrNull(enrollment.lastUsedStep),
+    updatedAt: enrollment.updatedAt.toISOString(),
+  }),
+};
+
+/**
+ * MfaChallenge Mapper - Infrastructure ↔ Domain
+ */
+export const MfaChallengeMapper = {
+  /**
+   * Database → Domain
+   */
+  toDomain: (row: MfaChallengeRow): MfaChallengeEntity =>
+    new MfaChallengeEntity(
+      row.id as MfaChallengeId,
+      row.userId as UserId,
+      row.tokenHash,
+      toDate(row.expiresAt),
+      row.attempts,
+      toMaybeDate(row.consumedAt),
+      toDate(row.createdAt)
+    ),
+
+  /**
+   * Domain → Database Create Input
+   */
+  toDbCreate: (challenge: MfaChallengeEntity) => ({
+    id: challenge.id,
+    userId: challenge.userId,
+    tokenHash: challenge.tokenHash,
+    expiresAt: challenge.expiresAt.toISOString(),
+    attempts: challenge.attempts,
+    consumedAt: toDbDate(challenge.consumedAt),
+    createdAt: challenge.createdAt.toISOString(),
+  }),
+};
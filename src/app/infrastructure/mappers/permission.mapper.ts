@@ -3,7 +3,8 @@ import {
   DocumentPermissionEntity,
   PermissionId,
 } from "../../domain/permission/entity";
-import { DocumentId, UserId } from "../../domain/refined/uuid";
+import { DocumentId, GroupId, UserId } from "../../domain/refined/uuid";
+import { normalizeMaybe } from "../../domain/shared/base-entity";
 import { PermissionType } from "../../domain/permission/value-object";
 
 /**
@@ -12,12 +13,17 @@ import { PermissionType } from "../../domain/permission/value-object";
 export interface PermissionRow {
   id: string;
   documentId: string;
-  userId: string;
+  userId: string | null;
+  groupId: string | null;
   permission: string;
   grantedBy: string;
   grantedAt: Date | string;
+  expiresAt: Date | string | null;
 }
 
+const toDate = (value: Date | string): Date =>
+  typeof value === "string" ? new Date(value) : value;
+
 /**
  * Permission Mapper - Infrastructure ↔ Domain
  */
@@ -29,12 +35,12 @@ export const PermissionMapper = {
     new DocumentPermissionEntity(
       row.id as PermissionId,
       row.documentId as DocumentId,
-      row.userId as UserId,
+      normalizeMaybe(row.userId as UserId | null),
+      normalizeMaybe(row.groupId as GroupId | null),
       row.permission as PermissionType,
       row.grantedBy as UserId,
-      typeof row.grantedAt === "string"
-        ? new Date(row.grantedAt)
-        : row.grantedAt
+      toDate(row.grantedAt),
+      normalizeMaybe(row.expiresAt ? toDate(row.expiresAt) : null)
     ),
 
   /**
@@ -43,10 +49,15 @@ export const PermissionMapper = {
   toDbCreate: (permission: DocumentPermissionEntity) => ({
     id: permission.id,
     documentId: permission.documentId,
-    userId: permission.userId,
+    userId: Option.getOrNull(permission.userId),
+    groupId: Option.getOrNull(permission.groupId),
     permission: permission.permission,
     grantedBy: permission.grantedBy,
     grantedAt: permission.grantedAt.toISOString(),
+    expiresAt: Option.match(permission.expiresAt, {
+      onNone: () => null,
+      onSome: (date) => date.toISOString(),
+    }),
   }),
 
   /**
@@ -54,6 +65,10 @@ export const PermissionMapper = {
    */
   toDbUpdate: (permission: DocumentPermissionEntity) => ({
     permission: permission.permission,
+    expiresAt: Option.match(permission.expiresAt, {
+      onNone: () => null,
+      onSome: (date) => date.toISOString(),
+    }),
   }),
 
   /**
@@ -0,0 +1,67 @@
+import { Option } from "effect";
+import { SessionEntity } from "../../domain/session/entity";
+import { SessionId, UserId } from "../../domain/refined/uuid";
+import { normalizeMaybe } from "../../domain/shared/base-entity";
+
+/**
+ * Database row type for Session (from Drizzle)
+ */
+export interface SessionRow {
+  id: string;
+  userId: string;
+  refreshTokenHash: string;
+  expiresAt: Date | string;
+  lastRefreshedAt: Date | string | null;
+  revokedAt: Date | string | null;
+  createdAt: Date | string;
+}
+
+const toDate = (value: Date | string): Date =>
+  typeof value === "string" ? new Date(value) : value;
+
+const toDbDate = (value: Option.Option<Date>): string | null =>
+  Option.match(value, {
+    onNone: () => null,
+    onSome: (date) => date.toISOString(),
+  });
+
+/**
+ * Session Mapper - Infrastructure ↔ Domain
+ */
+export const SessionMapper = {
+  /**
+   * Database → Domain
+   */
+  toDomain: (row: SessionRow): SessionEntity =>
+    new SessionEntity(
+      row.id as SessionId,
+      row.userId as UserId,
+      row.refreshTokenHash,
+      toDate(row.expiresAt),
+      normalizeMaybe(row.lastRefreshedAt ? toDate(row.lastRefreshedAt) : null),
+      normalizeMaybe(row.revokedAt ? toDate(row.revokedAt) : null),
+      toDate(row.createdAt)
+    ),
+
+  /**
+   * Domain → Database Create Input
+   */
+  toDbCreate: (session: SessionEntity) => ({
+    id: session.id,
+    userId: session.userId,
+    refreshTokenHash: session.refreshTokenHash,
+    expiresAt: session.expiresAt.toISOString(),
+    lastRefreshedAt: toDbDate(session.lastRefreshedAt),
+    revokedAt: toDbDate(session.revokedAt),
+    createdAt: session.createdAt.toISOString(),
+  }),
+
+  /**
+   * Domain → Database Update Input
+   */
+  toDbUpdate: (session: SessionEntity) => ({
+    refreshTokenHash: session.refreshTokenHash,
+    expiresAt: session.expiresAt.toISOString(),
+    lastRefreshedAt: toDbDate(session.lastRefreshedAt),
+  }),
+};
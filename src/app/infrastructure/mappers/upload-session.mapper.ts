@@ -0,0 +1,75 @@
+import { Option } from "effect";
+import { UploadSessionEntity } from "../../domain/upload-session/entity";
+import {
+  DocumentId,
+  FolderId,
+  UploadSessionId,
+  UserId,
+} from "../../domain/refined/uuid";
+import {
+  Filename,
+  MimeType,
+  FileSize,
+} from "../../domain/document/value-object";
+import { normalizeMaybe } from "../../domain/shared/base-entity";
+
+/**
+ * Database row type for UploadSession (from Drizzle)
+ */
+export interface UploadSessionRow {
+  id: string;
+  userId: string;
+  filename: string;
+  mimeType: string;
+  uploadLength: number;
+  documentId: string | null;
+  folderId: string | null;
+  expiresAt: Date | string;
+  createdAt: Date | string;
+}
+
+/**
+ * UploadSession Mapper - Infrastructure ↔ Domain
+ */
+export const UploadSessionMapper = {
+  /**
+   * Database → Domain
+   */
+  toDomain: (row: UploadSessionRow): UploadSessionEntity =>
+    new UploadSessionEntity(
+      row.id as UploadSessionId,
+      row.userId as UserId,
+      row.filename as Filename,
+      row.mimeType as MimeType,
+      row.uploadLength as FileSize,
+      normalizeMaybe(row.documentId as DocumentId | null),
+      normalizeMaybe(row.folderId as FolderId | null),
+      typeof row.expiresAt === "string"
+        ? new Date(row.expiresAt)
+        : row.expiresAt,
+      typeof row.createdAt === "string"
+        ? new Date(row.createdAt)
+        : row.createdAt
+    ),
+
+  /**
+   * Domain → Database Create Input
+   */
+  toDbCreate: (session: UploadSessionEntity) => ({
+    id: session.id,
+    userId: session.userId,
+    filename: session.filename,
+    mimeType: session.mimeType,
+    uploadLength: session.uploadLength,
+    documentId: Option.getOrNull(session.documentId),
+    folderId: Option.getOrNull(session.folderId),
+    expiresAt: session.expiresAt.toISOString(),
+    createdAt: session.createdAt.toISOString(),
+  }),
+
+  /**
+   * Convert array of rows to domain entities
+   */
+  toDomainMany: (rows: UploadSessionRow[]): UploadSessionEntity[] =>
+    rows.map(UploadSessionMapper.toDomain),
+};
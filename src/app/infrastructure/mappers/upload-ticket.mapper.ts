@@ -0,0 +1,77 @@
+import { Option } from "effect";
+import { UploadTicketEntity } from "../../domain/upload-ticket/entity";
+import {
+  DocumentId,
+  DocumentVersionId,
+  UploadTicketId,
+  UserId,
+} from "../../domain/refined/uuid";
+import { FileSize, MimeType } from "../../domain/document/value-object";
+import { Token } from "../../domain/download-token/value-object";
+import { normalizeMaybe } from "../../domain/shared/base-entity";
+
+/**
+ * Database row type for UploadTicket (from Drizzle)
+ */
+export interface UploadTicketRow {
+  id: string;
+  documentId: string;
+  versionId: string;
+  token: string;
+  maxSize: number;
+  mimeType: string;
+  expiresAt: Date | string;
+  usedAt: Date | string | null;
+  createdBy: string;
+  createdAt: Date | string;
+}
+
+const toDate = (value: Date | string): Date =>
+  typeof value === "string" ? new Date(value) : value;
+
+/**
+ * UploadTicket Mapper - Infrastructure ↔ Domain
+ */
+export const UploadTicketMapper = {
+  /**
+   * Database → Domain
+   */
+  toDomain: (row: UploadTicketRow): UploadTicketEntity =>
+    new UploadTicketEntity(
+      row.id as UploadTicketId,
+      row.documentId as DocumentId,
+      row.versionId as DocumentVersionId,
+      row.token as Token,
+      row.maxSize as FileSize,
+      row.mimeType as MimeType,
+      toDate(row.expiresAt),
+      normalizeMaybe(row.usedAt ? toDate(row.usedAt) : null),
+      row.createdBy as UserId,
+      toDate(row.createdAt)
+    ),
+
+  /**
+   * Domain → Database Create Input
+   */
+  toDbCreate: (ticket: UploadTicketEntity) => ({
+    id: ticket.id,
+    documentId: ticket.documentId,
+    versionId: ticket.versionId,
+    token: ticket.token,
+    maxSize: ticket.maxSize,
+    mimeType: ticket.mimeType,
+    expiresAt: ticket.expiresAt.toISOString(),
+    usedAt: Option.match(ticket.usedAt, {
+      onNone: () => null,
+      onSome: (date) => date.toISOString(),
+    }),
+    createdBy: ticket.createdBy,
+    createdAt: ticket.createdAt.toISOString(),
+  }),
+
+  /**
+   * Convert array of rows to domain entities
+   */
+  toDomainMany: (rows: UploadTicketRow[]): UploadTicketEntity[] =>
+    rows.map(UploadTicketMapper.toDomain),
+};
@@ -4,6 +4,7 @@ import { UserId } from "../../domain/refined/uuid";
 import { EmailAddress } from "../../domain/refined/email";
 import { HashedPassword } from "../../domain/refined/password";
 import { UserRole } from "../../domain/user/value-object";
+import { normalizeMaybe } from "../../domain/shared/base-entity";
 
 /**
  * Database row type for User (from Drizzle)
@@ -13,10 +14,21 @@ export interface UserRow {
   email: string;
   password: string;
   role: string;
+  emailVerifiedAt: Date | string | null;
+  suspendedAt: Date | string | null;
   createdAt: Date | string;
   updatedAt: Date | string;
 }
 
+const toDate = (value: Date | string): Date =>
+  typeof value === "string" ? new Date(value) : value;
+
+const toDbDate = (value: Option.Option<Date>): string | null =>
+  Option.match(value, {
+    onNone: () => null,
+    onSome: (date) => date.toISOString(),
+  });
+
 /**
  * User Mapper - Infrastructure ↔ Domain
  *
@@ -34,6 +46,8 @@ export const UserMapper = {
       row.email as EmailAddress,
       row.password as HashedPassword,
       row.role as UserRole,
+      normalizeMaybe(row.emailVerifiedAt ? toDate(row.emailVerifiedAt) : null),
+      normalizeMaybe(row.suspendedAt ? toDate(row.suspendedAt) : null),
       typeof row.createdAt === "string"
         ? new Date(row.createdAt)
         : row.createdAt,
@@ -51,6 +65,8 @@ export const UserMapper = {
     email: user.email,
     password: user.password,
     role: user.role,
+    emailVerifiedAt: toDbDate(user.emailVerifiedAt),
+    suspendedAt: toDbDate(user.suspendedAt),
     createdAt: user.createdAt.toISOString(),
     updatedAt: user.updatedAt.toISOString(),
   }),
@@ -63,6 +79,8 @@ export const UserMapper = {
     email: user.email,
     password: user.password,
     role: user.role,
+    emailVerifiedAt: toDbDate(user.emailVerifiedAt),
+    suspendedAt: toDbDate(user.suspendedAt),
     updatedAt: new Date().toISOString(),
   }),
 
@@ -0,0 +1,31 @@
+import { sqliteTable, text, index } from "drizzle-orm/sqlite-core";
+import { v4 as uuid } from "uuid";
+import { immutableColumns } from "./shared-columns";
+import { users } from "./users-model";
+
+/**
+ * Personal access tokens table
+ * Only the hash of a token is stored, plus its first characters as a hint
+ */
+export const accessTokens = sqliteTable(
+  "access_tokens",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => uuid()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    scope: text("scope").notNull(),
+    tokenHash: text("token_hash").unique().notNull(),
+    tokenHint: text("token_hint").notNull(),
+    expiresAt: text("expires_at"),
+    lastUsedAt: text("last_used_at"),
+    revokedAt: text("revoked_at"),
+    ...immutableColumns,
+  },
+  (table) => ({
+    userIdx: index("idx_access_tokens_user").on(table.userId),
+  })
+);
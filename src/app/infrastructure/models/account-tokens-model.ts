@@ -0,0 +1,31 @@
+import { sqliteTable, text, index } from "drizzle-orm/sqlite-core";
+import { v4 as uuid } from "uuid";
+import { immutableColumns } from "./shared-columns";
+import { users } from "./users-model";
+
+/**
+ * Account tokens table (password reset and email verification links)
+ * Only the hash of each token is stored
+ */
+export const accountTokens = sqliteTable(
+  "account_tokens",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => uuid()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    purpose: text("purpose").notNull(),
+    tokenHash: text("token_hash").unique().notNull(),
+    expiresAt: text("expires_at").notNull(),
+    consumedAt: text("consumed_at"),
+    ...immutableColumns,
+  },
+  (table) => ({
+    userPurposeIdx: index("idx_account_tokens_user_purpose").on(
+      table.userId,
+      table.purpose
+    ),
+  })
+);
@@ -1,11 +1,21 @@
-import { sqliteTable, text, index } from "drizzle-orm/sqlite-core";
+import {
+  sqliteTable,
+  text,
+  integer,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/sqlite-core";
 import { sql } from "drizzle-orm";
 import { v4 as uuid } from "uuid";
-import { documents } from "./documents-model";
-import { users } from "./users-model";
 
 /**
  * Document audit log table
+ *
+ * Entries of a document form a hash chain (see domain/audit/chain); entries
+ * without a document form one more chain.
+ * performed_by and document_id deliberately have no foreign keys: entries
+ * outlive their users and documents and must never be rewritten. A purged
+ * document's chain ends with a "purged" entry.
  */
 export const documentAudit = sqliteTable(
   "document_audit",
@@ -13,20 +23,31 @@ export const documentAudit = sqliteTable(
     id: text("id")
       .primaryKey()
       .$defaultFn(() => uuid()),
-    documentId: text("document_id")
-      .notNull()
-      .references(() => documents.id, { onDelete: "cascade" }),
+    // NULL for events outside any document, such as logins
+    documentId: text("document_id"),
+    sequence: integer("sequence").notNull(),
     action: text("action").notNull(),
-    performedBy: text("performed_by")
-      .notNull()
-      .references(() => users.id),
+    performedBy: text("performed_by").notNull(),
     details: text("details").notNull().default(""),
+    beforeValue: text("before_value"),
+    afterValue: text("after_value"),
+    correlationId: text("correlation_id"),
     performedAt: text("performed_at")
       .notNull()
       .default(sql`CURRENT_TIMESTAMP`),
+    prevHash: text("prev_hash").notNull(),
+    hash: text("hash").notNull(),
   },
   (table) => ({
     documentIdIdx: index("idx_audit_document_id").on(table.documentId),
     performedAtIdx: index("idx_audit_performed_at").on(table.performedAt),
+    performedByIdx: index("idx_audit_performed_by").on(table.performedBy),
+    documentSequenceIdx: uniqueIndex("idx_audit_document_sequence").on(
+      table.documentId,
+      table.sequence
+    ),
+    systemSequenceIdx: uniqueIndex("idx_audit_system_sequence")
+      .on(table.sequence)
+      .where(sql`${table.documentId} IS NULL`),
   })
 );
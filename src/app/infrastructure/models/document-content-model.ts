@@ -0,0 +1,19 @@
+import { sql } from "drizzle-orm";
+
+/**
+ * Document content full-text index (SQLite FTS5 virtual table)
+ *
+ * Rows are keyed by version checksum, so identical content (including
+ * restored versions) is indexed once. Virtual tables cannot be declared with
+ * sqliteTable, so the table is created at startup and excluded from
+ * drizzle-kit via tablesFilter.
+ */
+export const documentContentFts = sql.identifier("document_content_fts");
+
+export const createDocumentContentFts = sql`
+  CREATE VIRTUAL TABLE IF NOT EXISTS ${documentContentFts} USING fts5(
+    checksum UNINDEXED,
+    content,
+    tokenize = 'porter unicode61'
+  )
+`;
@@ -2,6 +2,7 @@ import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
 import { v4 as uuid } from "uuid";
 import { sharedColumns } from "./shared-columns";
 import { users } from "./users-model";
+import { folders } from "./folders-model";
 
 /**
  * Documents table (document headers/metadata)
@@ -17,12 +18,21 @@ export const documents = sqliteTable(
     mimeType: text("mime_type").notNull(),
     size: integer("size").notNull(),
     path: text("path"),
+    folderId: text("folder_id").references(() => folders.id, {
+      onDelete: "set null",
+    }),
     uploadedBy: text("uploaded_by")
       .notNull()
       .references(() => users.id, { onDelete: "cascade" }),
+    deletedAt: text("deleted_at"),
+    deletedBy: text("deleted_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
     ...sharedColumns,
   },
   (table) => ({
     uploadedByIdx: index("idx_documents_uploaded_by").on(table.uploadedBy),
+    folderIdx: index("idx_documents_folder_id").on(table.folderId),
+    deletedAtIdx: index("idx_documents_deleted_at").on(table.deletedAt),
   })
 );
@@ -1,4 +1,4 @@
-import { sqliteTable, text, index } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
 import { v4 as uuid } from "uuid";
 import { immutableColumns } from "./shared-columns";
 import { documents } from "./documents-model";
@@ -7,6 +7,7 @@ import { users } from "./users-model";
 
 /**
  * Download tokens table
+ * resumed_from / resume_count track resumes of a used token's download
  */
 export const downloadTokens = sqliteTable(
   "download_tokens",
@@ -23,6 +24,8 @@ export const downloadTokens = sqliteTable(
     token: text("token").unique().notNull(),
     expiresAt: text("expires_at").notNull(),
     usedAt: text("used_at"),
+    resumedFrom: integer("resumed_from").notNull().default(0),
+    resumeCount: integer("resume_count").notNull().default(0),
     createdBy: text("created_by")
       .notNull()
       .references(() => users.id),
@@ -0,0 +1,45 @@
+import {
+  sqliteTable,
+  text,
+  index,
+  uniqueIndex,
+  type AnySQLiteColumn,
+} from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { v4 as uuid } from "uuid";
+import { sharedColumns } from "./shared-columns";
+import { users } from "./users-model";
+
+/**
+ * Folders table (hierarchical, self-referencing through parent_id)
+ * Names are unique per owner and parent; root folders (no parent) are
+ * compared through coalesce since SQLite treats NULLs as distinct
+ */
+export const folders = sqliteTable(
+  "folders",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => uuid()),
+    name: text("name").notNull(),
+    parentId: text("parent_id").references(
+      (): AnySQLiteColumn => folders.id
+    ),
+    ownerId: text("owner_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    ...sharedColumns,
+  },
+  (table) => ({
+    parentIdx: index("idx_folders_parent_id").on(table.parentId),
+    ownerParentIdx: index("idx_folders_owner_parent").on(
+      table.ownerId,
+      table.parentId
+    ),
+    ownerParentNameIdx: uniqueIndex("idx_folders_owner_parent_name").on(
+      table.ownerId,
+      sql`coalesce(${table.parentId}, '')`,
+      table.name
+    ),
+  })
+);
@@ -0,0 +1,58 @@
+import {
+  sqliteTable,
+  text,
+  index,
+  primaryKey,
+  unique,
+} from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { v4 as uuid } from "uuid";
+import { sharedColumns } from "./shared-columns";
+import { users } from "./users-model";
+
+/**
+ * Groups table
+ * Group names are unique per owner
+ */
+export const groups = sqliteTable(
+  "groups",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => uuid()),
+    name: text("name").notNull(),
+    ownerId: text("owner_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    ...sharedColumns,
+  },
+  (table) => ({
+    ownerIdx: index("idx_groups_owner_id").on(table.ownerId),
+    uniqueNamePerOwner: unique("unique_group_name_per_owner").on(
+      table.ownerId,
+      table.name
+    ),
+  })
+);
+
+/**
+ * Group members table (group ↔ user membership)
+ */
+export const groupMembers = sqliteTable(
+  "group_members",
+  {
+    groupId: text("group_id")
+      .notNull()
+      .references(() => groups.id, { onDelete: "cascade" }),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    addedAt: text("added_at")
+      .notNull()
+      .default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.groupId, table.userId] }),
+    userIdx: index("idx_group_members_user_id").on(table.userId),
+  })
+);
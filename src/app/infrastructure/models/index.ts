@@ -1,10 +1,20 @@
 // Re-export all models
 export * from "./shared-columns";
 export * from "./users-model";
+export * from "./folders-model";
+export * from "./groups-model";
 export * from "./documents-model";
 export * from "./document-versions-model";
 export * from "./metadata-model";
 export * from "./permission-model";
 export * from "./download-tokens-model";
 export * from "./document-audit-model";
+export * from "./document-content-model";
+export * from "./upload-sessions-model";
+export * from "./upload-tickets-model";
+export * from "./user-sessions-model";
+export * from "./access-tokens-model";
+export * from "./mfa-model";
+export * from "./login-throttles-model";
+export * from "./account-tokens-model";
 export * from "./relations-model";
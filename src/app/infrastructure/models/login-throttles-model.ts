@@ -0,0 +1,28 @@
+import {
+  sqliteTable,
+  text,
+  integer,
+  primaryKey,
+} from "drizzle-orm/sqlite-core";
+import { sharedColumns } from "./shared-columns";
+
+/**
+ * Login throttles table (failed login counters per account and per IP)
+ * key is the normalized email for ACCOUNT and the client address for IP;
+ * emails that match no user are counted too
+ */
+export const loginThrottles = sqliteTable(
+  "login_throttles",
+  {
+    scope: text("scope").notNull(),
+    key: text("key").notNull(),
+    failures: integer("failures").notNull().default(0),
+    lastFailureAt: text("last_failure_at"),
+    blockedUntil: text("blocked_until"),
+    locked: integer("locked", { mode: "boolean" }).notNull().default(false),
+    ...sharedColumns,
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.scope, table.key] }),
+  })
+);
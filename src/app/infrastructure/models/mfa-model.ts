@@ -0,0 +1,54 @@
+import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
+import { v4 as uuid } from "uuid";
+import { immutableColumns, sharedColumns } from "./shared-columns";
+import { users } from "./users-model";
+
+/**
+ * MFA enrollments table (one per user)
+ * Recovery codes are stored as a JSON array of their hashes
+ */
+export const userMfa = sqliteTable("user_mfa", {
+  userId: text("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(),
+  confirmedAt: text("confirmed_at"),
+  recoveryCodeHashes: text("recovery_code_hashes").notNull().default("[]"),
+  lastUsedStep: integer("last_used_step"),
+  ...sharedColumns,
+});
+
+/**
+ * MFA login challenges table
+ * Only the hash of a challenge token is stored
+ */
+export const mfaChallenges = sqliteTable(
+  "mfa_challenges",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => uuid()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    tokenHash: text("token_hash").unique().notNull(),
+    expiresAt: text("expires_at").notNull(),
+    attempts: integer("attempts").notNull().default(0),
+    consumedAt: text("consumed_at"),
+    ...immutableColumns,
+  },
+  (table) => ({
+    userIdx: index("idx_mfa_challenges_user").on(table.userId),
+  })
+);
+
+/**
+ * Roles whose users must use MFA (a row means required)
+ */
+export const mfaRolePolicies = sqliteTable("mfa_role_policies", {
+  role: text("role").primaryKey(),
+  updatedBy: text("updated_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  ...sharedColumns,
+});
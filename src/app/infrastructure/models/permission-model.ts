@@ -3,9 +3,12 @@ import { sql } from "drizzle-orm";
 import { v4 as uuid } from "uuid";
 import { documents } from "./documents-model";
 import { users } from "./users-model";
+import { groups } from "./groups-model";
 
 /**
  * Document permissions table
+ * Each row grants a permission to either a user (user_id) or a group (group_id)
+ * expires_at is null for permanent grants
  */
 export const documentPermissions = sqliteTable(
   "document_permissions",
@@ -16,9 +19,12 @@ export const documentPermissions = sqliteTable(
     documentId: text("document_id")
       .notNull()
       .references(() => documents.id, { onDelete: "cascade" }),
-    userId: text("user_id")
-      .notNull()
-      .references(() => users.id, { onDelete: "cascade" }),
+    userId: text("user_id").references(() => users.id, {
+      onDelete: "cascade",
+    }),
+    groupId: text("group_id").references(() => groups.id, {
+      onDelete: "cascade",
+    }),
     permission: text("permission").notNull(),
     grantedBy: text("granted_by")
       .notNull()
@@ -26,6 +32,7 @@ export const documentPermissions = sqliteTable(
     grantedAt: text("granted_at")
       .notNull()
       .default(sql`CURRENT_TIMESTAMP`),
+    expiresAt: text("expires_at"),
   },
   (table) => ({
     documentUserIdx: index("idx_permissions_document_user").on(
@@ -37,5 +44,15 @@ export const documentPermissions = sqliteTable(
       table.userId,
       table.permission
     ),
+    documentGroupIdx: index("idx_permissions_document_group").on(
+      table.documentId,
+      table.groupId
+    ),
+    uniquePermissionPerGroup: unique("unique_permission_per_group").on(
+      table.documentId,
+      table.groupId,
+      table.permission
+    ),
+    expiresAtIdx: index("idx_permissions_expires_at").on(table.expiresAt),
   })
 );
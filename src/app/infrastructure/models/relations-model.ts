@@ -1,5 +1,7 @@
 import { relations } from "drizzle-orm";
 import { users } from "./users-model";
+import { folders } from "./folders-model";
+import { groups, groupMembers } from "./groups-model";
 import { documents } from "./documents-model";
 import { documentVersions } from "./document-versions-model";
 import { documentMetadata } from "./metadata-model";
@@ -17,6 +19,54 @@ export const usersRelations = relations(users, ({ many }) => ({
   grantedPermissions: many(documentPermissions, { relationName: "grantedBy" }),
   downloadTokens: many(downloadTokens, { relationName: "createdBy" }),
   auditLogs: many(documentAudit, { relationName: "performedBy" }),
+  folders: many(folders, { relationName: "owner" }),
+  ownedGroups: many(groups, { relationName: "groupOwner" }),
+  groupMemberships: many(groupMembers),
+}));
+
+/**
+ * Folder relations
+ */
+export const foldersRelations = relations(folders, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [folders.ownerId],
+    references: [users.id],
+    relationName: "owner",
+  }),
+  parent: one(folders, {
+    fields: [folders.parentId],
+    references: [folders.id],
+    relationName: "parent",
+  }),
+  children: many(folders, { relationName: "parent" }),
+  documents: many(documents, { relationName: "folder" }),
+}));
+
+/**
+ * Group relations
+ */
+export const groupsRelations = relations(groups, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [groups.ownerId],
+    references: [users.id],
+    relationName: "groupOwner",
+  }),
+  members: many(groupMembers),
+  permissions: many(documentPermissions),
+}));
+
+/**
+ * Group member relations
+ */
+export const groupMembersRelations = relations(groupMembers, ({ one }) => ({
+  group: one(groups, {
+    fields: [groupMembers.groupId],
+    references: [groups.id],
+  }),
+  user: one(users, {
+    fields: [groupMembers.userId],
+    references: [users.id],
+  }),
 }));
 
 /**
@@ -28,6 +78,11 @@ export const documentsRelations = relations(documents, ({ one, many }) => ({
     references: [users.id],
     relationName: "uploadedBy",
   }),
+  folder: one(folders, {
+    fields: [documents.folderId],
+    references: [folders.id],
+    relationName: "folder",
+  }),
   versions: many(documentVersions),
   metadata: many(documentMetadata),
   permissions: many(documentPermissions),
@@ -81,6 +136,10 @@ export const documentPermissionsRelations = relations(
       references: [users.id],
       relationName: "userId",
     }),
+    group: one(groups, {
+      fields: [documentPermissions.groupId],
+      references: [groups.id],
+    }),
     grantor: one(users, {
       fields: [documentPermissions.grantedBy],
       references: [users.id],
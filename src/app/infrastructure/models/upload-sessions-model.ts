@@ -0,0 +1,36 @@
+import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
+import { v4 as uuid } from "uuid";
+import { immutableColumns } from "./shared-columns";
+import { users } from "./users-model";
+import { documents } from "./documents-model";
+import { folders } from "./folders-model";
+
+/**
+ * Upload sessions table (resumable uploads in progress)
+ */
+export const uploadSessions = sqliteTable(
+  "upload_sessions",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => uuid()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    filename: text("filename").notNull(),
+    mimeType: text("mime_type").notNull(),
+    uploadLength: integer("upload_length").notNull(),
+    documentId: text("document_id").references(() => documents.id, {
+      onDelete: "cascade",
+    }),
+    folderId: text("folder_id").references(() => folders.id, {
+      onDelete: "set null",
+    }),
+    expiresAt: text("expires_at").notNull(),
+    ...immutableColumns,
+  },
+  (table) => ({
+    userIdIdx: index("idx_upload_sessions_user_id").on(table.userId),
+    expiresAtIdx: index("idx_upload_sessions_expires_at").on(table.expiresAt),
+  })
+);
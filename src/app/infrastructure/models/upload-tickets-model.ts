@@ -0,0 +1,35 @@
+import { sqliteTable, text, integer, index } from "drizzle-orm/sqlite-core";
+import { v4 as uuid } from "uuid";
+import { immutableColumns } from "./shared-columns";
+import { documents } from "./documents-model";
+import { users } from "./users-model";
+
+/**
+ * Upload tickets table
+ * version_id is the pre-allocated ID of a version that does not exist yet
+ */
+export const uploadTickets = sqliteTable(
+  "upload_tickets",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => uuid()),
+    documentId: text("document_id")
+      .notNull()
+      .references(() => documents.id, { onDelete: "cascade" }),
+    versionId: text("version_id").notNull(),
+    token: text("token").unique().notNull(),
+    maxSize: integer("max_size").notNull(),
+    mimeType: text("mime_type").notNull(),
+    expiresAt: text("expires_at").notNull(),
+    usedAt: text("used_at"),
+    createdBy: text("created_by")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    ...immutableColumns,
+  },
+  (table) => ({
+    tokenIdx: index("idx_upload_tickets_token").on(table.token),
+    expiresAtIdx: index("idx_upload_tickets_expires_at").on(table.expiresAt),
+  })
+);
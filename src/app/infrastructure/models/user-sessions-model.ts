@@ -0,0 +1,29 @@
+import { sqliteTable, text, index } from "drizzle-orm/sqlite-core";
+import { v4 as uuid } from "uuid";
+import { immutableColumns } from "./shared-columns";
+import { users } from "./users-model";
+
+/**
+ * User sessions table
+ * Only the hash of the current refresh token is stored
+ */
+export const userSessions = sqliteTable(
+  "user_sessions",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => uuid()),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    refreshTokenHash: text("refresh_token_hash").notNull(),
+    expiresAt: text("expires_at").notNull(),
+    lastRefreshedAt: text("last_refreshed_at"),
+    revokedAt: text("revoked_at"),
+    ...immutableColumns,
+  },
+  (table) => ({
+    userIdx: index("idx_user_sessions_user").on(table.userId),
+    expiresAtIdx: index("idx_user_sessions_expires_at").on(table.expiresAt),
+  })
+);
@@ -2,6 +2,13 @@ import { sqliteTable, text } from "drizzle-orm/sqlite-core";
 import { v4 as uuid } from "uuid";
 import { sharedColumns } from "./shared-columns";
 
+/**
+ * Verification date given to accounts that predate email verification
+ * Adding the column fills existing rows with it, so those accounts keep
+ * sharing; new users are always inserted with an explicit value
+ */
+export const LEGACY_EMAIL_VERIFIED_AT = "1970-01-01T00:00:00.000Z";
+
 /**
  * Users table
  */
@@ -12,5 +19,9 @@ export const users = sqliteTable("users", {
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   role: text("role").notNull(),
+  emailVerifiedAt: text("email_verified_at").default(
+    LEGACY_EMAIL_VERIFIED_AT
+  ),
+  suspendedAt: text("suspended_at"),
   ...sharedColumns,
 });
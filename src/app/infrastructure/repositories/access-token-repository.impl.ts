@@ -0,0 +1,144 @@
+import { Effect, Option, Layer, pipe } from "effect";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import {
+  AccessTokenRepository,
+  AccessTokenRepositoryTag,
+} from "../../domain/access-token/repository";
+import {
+  AccessTokenNotFoundError,
+  AccessTokenConstraintError,
+} from "../../domain/access-token/errors";
+import { DrizzleService } from "../services/drizzle-service";
+import { accessTokens } from "../models";
+import { AccessTokenMapper } from "../mappers/access-token.mapper";
+import { detectDbConstraint } from "../../domain/shared/base.repository";
+
+/**
+ * Access Token Repository Implementation using Drizzle ORM
+ */
+export const AccessTokenRepositoryLive = Layer.effect(
+  AccessTokenRepositoryTag,
+  Effect.gen(function* () {
+    const { db } = yield* DrizzleService;
+
+    const findById: AccessTokenRepository["findById"] = (id) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.accessTokens.findFirst({
+              where: eq(accessTokens.id, id),
+            }),
+          catch: () =>
+            new AccessTokenConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((tokenRow) =>
+          pipe(
+            Option.fromNullable(tokenRow),
+            Option.map(AccessTokenMapper.toDomain)
+          )
+        )
+      );
+
+    const findByHash: AccessTokenRepository["findByHash"] = (tokenHash) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.accessTokens.findFirst({
+              where: eq(accessTokens.tokenHash, tokenHash),
+            }),
+          catch: () =>
+            new AccessTokenConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((tokenRow) =>
+          pipe(
+            Option.fromNullable(tokenRow),
+            Option.map(AccessTokenMapper.toDomain)
+          )
+        )
+      );
+
+    const findByUser: AccessTokenRepository["findByUser"] = (userId) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.accessTokens.findMany({
+              where: eq(accessTokens.userId, userId),
+              orderBy: [desc(accessTokens.createdAt)],
+            }),
+          catch: () =>
+            new AccessTokenConstraintError({ message: "Database error" }),
+        }),
+        Effect.map(AccessTokenMapper.toDomainMany)
+      );
+
+    /**
+     * Tokens only change through markUsed and revoke, so save only inserts
+     */
+    const save: AccessTokenRepository["save"] = (token) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.insert(accessTokens).values(AccessTokenMapper.toDbCreate(token)),
+          catch: (error) =>
+            new AccessTokenConstraintError({
+              message:
+                detectDbConstraint(error) === "unique"
+                  ? "Access token already exists"
+                  : "Database constraint violation",
+            }),
+        }),
+        Effect.flatMap(() => findById(token.id)),
+        Effect.flatMap(
+          Option.match({
+            onNone: () =>
+              Effect.fail(
+                new AccessTokenNotFoundError({
+                  tokenId: token.id,
+                  message: "Access token not found after save",
+                })
+              ),
+            onSome: Effect.succeed,
+          })
+        )
+      );
+
+    const markUsed: AccessTokenRepository["markUsed"] = (id) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .update(accessTokens)
+              .set({ lastUsedAt: new Date().toISOString() })
+              .where(eq(accessTokens.id, id)),
+          catch: () =>
+            new AccessTokenConstraintError({ message: "Database error" }),
+        }),
+        Effect.asVoid
+      );
+
+    const revoke: AccessTokenRepository["revoke"] = (id) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .update(accessTokens)
+              .set({ revokedAt: new Date().toISOString() })
+              .where(
+                and(eq(accessTokens.id, id), isNull(accessTokens.revokedAt))
+              ),
+          catch: () =>
+            new AccessTokenConstraintError({ message: "Database error" }),
+        }),
+        Effect.asVoid
+      );
+
+    return {
+      save,
+      findById,
+      findByHash,
+      findByUser,
+      markUsed,
+      revoke,
+    } satisfies AccessTokenRepository;
+  })
+);
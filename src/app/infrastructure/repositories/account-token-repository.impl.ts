@@ -0,0 +1,113 @@
+import { Effect, Option, Layer, pipe } from "effect";
+import { and, eq, isNull } from "drizzle-orm";
+import {
+  AccountTokenRepository,
+  AccountTokenRepositoryTag,
+} from "../../domain/account-token/repository";
+import {
+  AccountTokenConstraintError,
+  AccountTokenInvalidError,
+} from "../../domain/account-token/errors";
+import { DrizzleService, hasAffectedRows } from "../services/drizzle-service";
+import { accountTokens } from "../models";
+import { AccountTokenMapper } from "../mappers/account-token.mapper";
+
+/**
+ * Account Token Repository Implementation using Drizzle ORM
+ */
+export const AccountTokenRepositoryLive = Layer.effect(
+  AccountTokenRepositoryTag,
+  Effect.gen(function* () {
+    const { db } = yield* DrizzleService;
+
+    /**
+     * Tokens only change through consume, so save only inserts
+     */
+    const save: AccountTokenRepository["save"] = (token) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .insert(accountTokens)
+              .values(AccountTokenMapper.toDbCreate(token)),
+          catch: () =>
+            new AccountTokenConstraintError({
+              message: "Database constraint violation",
+            }),
+        }),
+        Effect.as(token)
+      );
+
+    const findByHash: AccountTokenRepository["findByHash"] = (tokenHash) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.accountTokens.findFirst({
+              where: eq(accountTokens.tokenHash, tokenHash),
+            }),
+          catch: () =>
+            new AccountTokenConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((tokenRow) =>
+          pipe(
+            Option.fromNullable(tokenRow),
+            Option.map(AccountTokenMapper.toDomain)
+          )
+        )
+      );
+
+    const consume: AccountTokenRepository["consume"] = (id) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .update(accountTokens)
+              .set({ consumedAt: new Date().toISOString() })
+              .where(
+                and(eq(accountTokens.id, id), isNull(accountTokens.consumedAt))
+              ),
+          catch: () =>
+            new AccountTokenConstraintError({ message: "Database error" }),
+        }),
+        Effect.flatMap((result) =>
+          hasAffectedRows(result)
+            ? Effect.void
+            : Effect.fail(
+                new AccountTokenInvalidError({
+                  message: "Link is invalid or has expired",
+                })
+              )
+        )
+      );
+
+    const invalidateForUser: AccountTokenRepository["invalidateForUser"] = (
+      userId,
+      purpose
+    ) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .update(accountTokens)
+              .set({ consumedAt: new Date().toISOString() })
+              .where(
+                and(
+                  eq(accountTokens.userId, userId),
+                  eq(accountTokens.purpose, purpose),
+                  isNull(accountTokens.consumedAt)
+                )
+              ),
+          catch: () =>
+            new AccountTokenConstraintError({ message: "Database error" }),
+        }),
+        Effect.asVoid
+      );
+
+    return {
+      save,
+      findByHash,
+      consume,
+      invalidateForUser,
+    } satisfies AccountTokenRepository;
+  })
+);
@@ -0,0 +1,154 @@
+import { Effect, Option, Layer, pipe } from "effect";
+import { eq, and, or, lt, gte, lte, asc, desc } from "drizzle-orm";
+import {
+  AuditRepository,
+  AuditRepositoryTag,
+} from "../../domain/audit/repository";
+import { AuditInfrastructureError } from "../../domain/audit/errors";
+import { findBrokenLink } from "../../domain/audit/chain";
+import { chainCondition } from "../services/audit-chain";
+import { DrizzleService } from "../services/drizzle-service";
+import { documentAudit } from "../models";
+import { AuditMapper } from "../mappers/audit.mapper";
+
+/**
+ * Audit Repository Implementation using Drizzle ORM
+ */
+export const AuditRepositoryLive = Layer.effect(
+  AuditRepositoryTag,
+  Effect.gen(function* () {
+    const { db } = yield* DrizzleService;
+
+    /**
+     * Keyset query: entries are ordered by (performed_at DESC, id DESC) and a
+     * page starts right after the cursor. One extra row is fetched to tell
+     * whether another page follows.
+     */
+    const query: AuditRepository["query"] = (filter, params) =>
+      pipe(
+        Effect.sync(() =>
+          // and() skips undefined conditions
+          and(
+            Option.getOrUndefined(
+              Option.map(filter.documentId, (id) =>
+                eq(documentAudit.documentId, id)
+              )
+            ),
+            Option.getOrUndefined(
+              Option.map(filter.performedBy, (userId) =>
+                eq(documentAudit.performedBy, userId)
+              )
+            ),
+            Option.getOrUndefined(
+              Option.map(filter.action, (action) =>
+                eq(documentAudit.action, action)
+              )
+            ),
+            Option.getOrUndefined(
+              Option.map(filter.from, (from) =>
+                gte(documentAudit.performedAt, AuditMapper.toDbTimestamp(from))
+              )
+            ),
+            Option.getOrUndefined(
+              Option.map(filter.to, (to) =>
+                lte(documentAudit.performedAt, AuditMapper.toDbTimestamp(to))
+              )
+            ),
+            Option.getOrUndefined(
+              Option.map(params.after, (cursor) => {
+                const timestamp = AuditMapper.toDbTimestamp(cursor.timestamp);
+                return or(
+                  lt(documentAudit.performedAt, timestamp),
+                  and(
+                    eq(documentAudit.performedAt, timestamp),
+                    lt(documentAudit.id, cursor.id)
+                  )
+                );
+              })
+            )
+          )
+        ),
+        Effect.flatMap((whereClause) =>
+          Effect.tryPromise({
+            try: () =>
+              db
+                .select()
+                .from(documentAudit)
+                .where(whereClause)
+                .orderBy(desc(documentAudit.performedAt), desc(documentAudit.id))
+                .limit(params.limit + 1),
+            catch: () =>
+              new AuditInfrastructureError({
+                message: "Database connection error",
+              }),
+          })
+        ),
+        Effect.map((rows) => {
+          const entries = AuditMapper.toDomainMany(rows.slice(0, params.limit));
+          const last = entries[entries.length - 1];
+
+          return {
+            entries,
+            nextCursor:
+              rows.length > params.limit && last
+                ? Option.some({ timestamp: last.performedAt, id: last.id })
+                : Option.none(),
+          };
+        })
+      );
+
+    /**
+     * Chains are walked one at a time, the chain without a document first and
+     * then in document id order, so a full verification never holds more
+     * than one chain in memory
+     */
+    const verifyChain: AuditRepository["verifyChain"] = (documentId) =>
+      Effect.try({
+        try: () => {
+          const documentIds = Option.isSome(documentId)
+            ? [documentId.value]
+            : db
+                .selectDistinct({ documentId: documentAudit.documentId })
+                .from(documentAudit)
+                .orderBy(asc(documentAudit.documentId))
+                .all()
+                .map((row) => row.documentId);
+
+          let entriesChecked = 0;
+          for (const [index, id] of documentIds.entries()) {
+            const chain = db
+              .select()
+              .from(documentAudit)
+              .where(chainCondition(id))
+              .orderBy(asc(documentAudit.sequence))
+              .all();
+            entriesChecked += chain.length;
+
+            const brokenLink = findBrokenLink(chain);
+            if (Option.isSome(brokenLink)) {
+              return {
+                documentsChecked: index + 1,
+                entriesChecked,
+                brokenLink,
+              };
+            }
+          }
+
+          return {
+            documentsChecked: documentIds.length,
+            entriesChecked,
+            brokenLink: Option.none(),
+          };
+        },
+        catch: () =>
+          new AuditInfrastructureError({
+            message: "Failed to verify the audit chain",
+          }),
+      });
+
+    return {
+      query,
+      verifyChain,
+    } satisfies AuditRepository;
+  })
+);
@@ -1,4 +1,5 @@
 import { Effect, Option, Layer, pipe } from "effect";
+import { v4 as uuid } from "uuid";
 import {
   eq,
   desc,
@@ -6,11 +7,18 @@ import {
   like,
   or,
   and,
+  inArray,
+  isNull,
+  isNotNull,
+  lt,
+  sql,
   count as drizzleCount,
+  type SQL,
 } from "drizzle-orm";
 import {
   DocumentRepository,
   DocumentRepositoryTag,
+  type MetadataPredicate,
 } from "../../domain/document/repository";
 import {
   DocumentEntity as Document,
@@ -23,13 +31,89 @@ import {
   DocumentInfrastructureError,
 } from "../../domain/document/errors";
 import { DrizzleService, hasAffectedRows } from "../services/drizzle-service";
-import { documents, documentVersions, documentAudit } from "../models";
+import { appendAuditEntries } from "../services/audit-chain";
+import { getCorrelationId } from "../../presentation/http/middleware/correlation.middleware";
+import {
+  documents,
+  documentVersions,
+  documentPermissions,
+  documentMetadata,
+  documentContentFts,
+  groupMembers,
+} from "../models";
 import {
   DocumentMapper,
   DocumentVersionMapper,
 } from "../mappers/document.mapper";
+import { AuditMapper } from "../mappers/audit.mapper";
 import { detectDbConstraint } from "../../domain/shared/base.repository";
 
+/**
+ * Build an FTS5 MATCH expression from free-form user input
+ * Every word is quoted so FTS5 operators and syntax characters are taken literally
+ */
+const toFtsMatchQuery = (query: string): string | undefined => {
+  const terms = query.match(/[\p{L}\p{N}_]+/gu) ?? [];
+  return terms.length > 0
+    ? terms.map((term) => `"${term}"`).join(" ")
+    : undefined;
+};
+
+/**
+ * Restrict documents to those a user owns or was granted a permission on,
+ * directly or through one of their groups, ignoring expired grants
+ * None means no restriction (admin access)
+ */
+const readableByCondition = (
+  readableBy: Option.Option<UserId>
+): SQL | undefined =>
+  Option.match(readableBy, {
+    onNone: () => undefined,
+    onSome: (userId) =>
+      or(
+        eq(documents.uploadedBy, userId),
+        sql`EXISTS (
+          SELECT 1 FROM ${documentPermissions}
+          WHERE ${documentPermissions.documentId} = ${documents.id}
+            AND (
+              ${documentPermissions.userId} = ${userId}
+              OR ${documentPermissions.groupId} IN (
+                SELECT ${groupMembers.groupId} FROM ${groupMembers}
+                WHERE ${groupMembers.userId} = ${userId}
+              )
+            )
+            AND (
+              ${documentPermissions.expiresAt} IS NULL
+              OR ${documentPermissions.expiresAt} > ${new Date().toISOString()}
+            )
+        )`
+      ),
+  });
+
+/**
+ * Match documents having a metadata entry that satisfies the predicate
+ */
+const metadataCondition = (predicate: MetadataPredicate): SQL => {
+  const hasEntry = (valueCondition?: SQL) =>
+    sql`EXISTS (
+      SELECT 1 FROM ${documentMetadata}
+      WHERE ${and(
+        eq(documentMetadata.documentId, documents.id),
+        eq(documentMetadata.key, predicate.key),
+        valueCondition
+      )}
+    )`;
+
+  switch (predicate._tag) {
+    case "Equals":
+      return hasEntry(eq(documentMetadata.value, predicate.value));
+    case "In":
+      return hasEntry(inArray(documentMetadata.value, [...predicate.values]));
+    case "Exists":
+      return hasEntry();
+  }
+};
+
 /**
  * Document Repository Implementation using Drizzle ORM
  *
@@ -141,8 +225,8 @@ export const DocumentRepositoryLive = Layer.effect(
 
           return Effect.all(versionEffects, { concurrency: "unbounded" });
         }),
-        // Return the saved aggregate by loading it fresh
-        Effect.flatMap(() => findById(document.id)),
+        // Return the saved aggregate by loading it fresh (trashed or not)
+        Effect.flatMap(() => loadAggregate(document.id, "any")),
         Effect.flatMap((docOpt) =>
           pipe(
             docOpt,
@@ -161,13 +245,30 @@ export const DocumentRepositoryLive = Layer.effect(
       );
 
     /**
-     * Find document by ID (loads full aggregate with all versions)
+     * Load full aggregate with all versions
+     * The trash filter selects active documents, trashed documents, or both
      */
-    const findById: DocumentRepository["findById"] = (id) =>
+    const loadAggregate = (
+      id: DocumentId,
+      trash: "active" | "trashed" | "any"
+    ): Effect.Effect<
+      Option.Option<Document>,
+      DocumentInfrastructureError
+    > =>
       pipe(
         Effect.tryPromise({
           try: () =>
-            db.query.documents.findFirst({ where: eq(documents.id, id) }),
+            db.query.documents.findFirst({
+              where:
+                trash === "any"
+                  ? eq(documents.id, id)
+                  : and(
+                      eq(documents.id, id),
+                      trash === "active"
+                        ? isNull(documents.deletedAt)
+                        : isNotNull(documents.deletedAt)
+                    ),
+            }),
           catch: () =>
             new DocumentInfrastructureError({
               message: "Database connection error",
@@ -200,23 +301,48 @@ export const DocumentRepositoryLive = Layer.effect(
         })
       );
 
+    /**
+     * Find document by ID (loads full aggregate with all versions)
+     * Trashed documents are hidden
+     */
+    const findById: DocumentRepository["findById"] = (id) =>
+      loadAggregate(id, "active");
+
+    /**
+     * Find trashed document by ID (loads full aggregate with all versions)
+     */
+    const findTrashedById: DocumentRepository["findTrashedById"] = (id) =>
+      loadAggregate(id, "trashed");
+
     /**
      * Find document by version checksum
-     * Returns the parent document, not just the version
+     * Returns the parent document, not just the version; trashed documents
+     * are skipped
      */
     const findByChecksum: DocumentRepository["findByChecksum"] = (checksum) =>
       pipe(
         Effect.tryPromise({
           try: () =>
-            db.query.documentVersions.findFirst({
-              where: eq(documentVersions.checksum, checksum),
-            }),
+            db
+              .select({ documentId: documentVersions.documentId })
+              .from(documentVersions)
+              .innerJoin(
+                documents,
+                eq(documents.id, documentVersions.documentId)
+              )
+              .where(
+                and(
+                  eq(documentVersions.checksum, checksum),
+                  isNull(documents.deletedAt)
+                )
+              )
+              .limit(1),
           catch: () =>
             new DocumentInfrastructureError({
               message: "Database connection error",
             }),
         }),
-        Effect.flatMap((versionRow) => {
+        Effect.flatMap(([versionRow]) => {
           if (!versionRow) {
             return Effect.succeed(Option.none());
           }
@@ -255,77 +381,90 @@ export const DocumentRepositoryLive = Layer.effect(
       );
 
     /**
-     * Find document by filename and user
-     * Used for duplicate filename detection
+     * Find document by filename within a folder
+     * Used for duplicate filename detection (names are unique per folder)
      */
-    const findByFilenameAndUser: DocumentRepository["findByFilenameAndUser"] = (
-      filename,
-      userId
-    ) =>
-      pipe(
-        Effect.tryPromise({
-          try: () =>
-            db.query.documents.findFirst({
-              where: and(
-                eq(documents.filename, filename),
-                eq(documents.uploadedBy, userId)
-              ),
-              with: {
-                versions: {
-                  orderBy: [desc(documentVersions.versionNumber)],
-                },
-              },
-            }),
-          catch: () =>
-            new DocumentInfrastructureError({
-              message: "Database connection error",
-            }),
-        }),
-        Effect.map((row) =>
-          row ? Option.some(DocumentMapper.toDomain(row)) : Option.none()
-        )
-      );
+    const findByFilenameInFolder: DocumentRepository["findByFilenameInFolder"] =
+      (filename, userId, folderId) =>
+        pipe(
+          Effect.tryPromise({
+            try: () =>
+              db.query.documents.findFirst({
+                where: and(
+                  eq(documents.filename, filename),
+                  eq(documents.uploadedBy, userId),
+                  Option.isSome(folderId)
+                    ? eq(documents.folderId, folderId.value)
+                    : isNull(documents.folderId),
+                  isNull(documents.deletedAt)
+                ),
+              }),
+            catch: () =>
+              new DocumentInfrastructureError({
+                message: "Database connection error",
+              }),
+          }),
+          Effect.map((row) =>
+            row ? Option.some(DocumentMapper.toDomain(row)) : Option.none()
+          )
+        );
 
     /**
      * List documents by user with pagination
      * Returns documents with their latest version
+     * Optionally scoped to a single folder
      */
-    const listByUser: DocumentRepository["listByUser"] = (userId, pagination) =>
+    const listByUser: DocumentRepository["listByUser"] = (
+      userId,
+      pagination,
+      folderId = Option.none()
+    ) =>
       pipe(
-        Effect.all({
-          // Get total count
-          count: pipe(
-            Effect.tryPromise({
-              try: () =>
-                db
-                  .select({ count: drizzleCount() })
-                  .from(documents)
-                  .where(eq(documents.uploadedBy, userId)),
+        Effect.sync(() =>
+          Option.isSome(folderId)
+            ? and(
+                eq(documents.uploadedBy, userId),
+                eq(documents.folderId, folderId.value),
+                isNull(documents.deletedAt)
+              )
+            : and(eq(documents.uploadedBy, userId), isNull(documents.deletedAt))
+        ),
+        Effect.flatMap((whereClause) =>
+          Effect.all({
+            // Get total count
+            count: pipe(
+              Effect.tryPromise({
+                try: () =>
+                  db
+                    .select({ count: drizzleCount() })
+                    .from(documents)
+                    .where(whereClause),
+                catch: () =>
+                  new DocumentInfrastructureError({
+                    message: "Database connection error",
+                  }),
+              }),
+              Effect.map(([countResult]) => countResult?.count || 0)
+            ),
+            // Get paginated documents
+            docRows: Effect.tryPromise({
+              try: () => {
+                const { page, limit } = pagination;
+                const offset = (page - 1) * limit;
+                return db.query.documents.findMany({
+                  where: whereClause,
+                  orderBy: [desc(documents.createdAt)],
+                  limit,
+                  offset,
+                });
+              },
               catch: () =>
                 new DocumentInfrastructureError({
                   message: "Database connection error",
                 }),
             }),
-            Effect.map(([countResult]) => countResult?.count || 0)
-          ),
-          // Get paginated documents
-          docRows: Effect.tryPromise({
-            try: () => {
-              const { page, limit } = pagination;
-              const offset = (page - 1) * limit;
-              return db.query.documents.findMany({
-                where: eq(documents.uploadedBy, userId),
-                orderBy: [desc(documents.createdAt)],
-                limit,
-                offset,
-              });
-            },
-            catch: () =>
-              new DocumentInfrastructureError({
-                message: "Database connection error",
-              }),
-          }),
-        }),
+          })
+        ),
         Effect.flatMap(({ count: totalItems, docRows }) => {
           const { page, limit } = pagination;
           const totalPages = Math.ceil(totalItems / limit);
@@ -375,6 +514,30 @@ export const DocumentRepositoryLive = Layer.effect(
         })
       );
 
+    /**
+     * Count documents directly inside a folder
+     */
+    const countByFolder: DocumentRepository["countByFolder"] = (folderId) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .select({ count: drizzleCount() })
+              .from(documents)
+              .where(
+                and(
+                  eq(documents.folderId, folderId),
+                  isNull(documents.deletedAt)
+                )
+              ),
+          catch: () =>
+            new DocumentInfrastructureError({
+              message: "Database connection error",
+            }),
+        }),
+        Effect.map(([countResult]) => countResult?.count || 0)
+      );
+
     /**
      * List all documents with pagination
      */
@@ -384,7 +547,11 @@ export const DocumentRepositoryLive = Layer.effect(
           // Get total count
           count: pipe(
             Effect.tryPromise({
-              try: () => db.select({ count: drizzleCount() }).from(documents),
+              try: () =>
+                db
+                  .select({ count: drizzleCount() })
+                  .from(documents)
+                  .where(isNull(documents.deletedAt)),
               catch: () =>
                 new DocumentInfrastructureError({
                   message: "Database connection error",
@@ -398,6 +565,7 @@ export const DocumentRepositoryLive = Layer.effect(
               const { page, limit } = pagination;
               const offset = (page - 1) * limit;
               return db.query.documents.findMany({
+                where: isNull(documents.deletedAt),
                 orderBy: [desc(documents.createdAt)],
                 limit,
                 offset,
@@ -459,31 +627,61 @@ export const DocumentRepositoryLive = Layer.effect(
       );
 
     /**
-     * Search documents by query
+     * Search documents by filename and indexed content
+     * Content hits are ranked by bm25, filename-only hits follow by recency
      */
-    const search: DocumentRepository["search"] = (query, pagination) =>
+    const search: DocumentRepository["search"] = (
+      query,
+      pagination,
+      readableBy
+    ) =>
       pipe(
         Effect.sync(() => {
           const { page, limit } = pagination;
           const offset = (page - 1) * limit;
           const searchPattern = `%${query}%`;
-          return { page, limit, offset, searchPattern };
+          const matchQuery = toFtsMatchQuery(query);
+
+          // Content hits for the latest version of each document
+          const hits = matchQuery
+            ? sql`
+                SELECT checksum,
+                  bm25(${documentContentFts}) AS rank,
+                  snippet(${documentContentFts}, 1, '<mark>', '</mark>', '…', 16) AS snippet
+                FROM ${documentContentFts}
+                WHERE ${documentContentFts} MATCH ${matchQuery}`
+            : sql`SELECT NULL AS checksum, NULL AS rank, NULL AS snippet WHERE 0`;
+
+          const fromClause = sql`
+            FROM ${documents}
+            LEFT JOIN ${documentVersions}
+              ON ${documentVersions.documentId} = ${documents.id}
+              AND ${documentVersions.versionNumber} = (
+                SELECT MAX(latest.version_number)
+                FROM ${documentVersions} AS latest
+                WHERE latest.document_id = ${documents.id}
+              )
+            LEFT JOIN (${hits}) AS hits
+              ON hits.checksum = ${documentVersions.checksum}
+            WHERE ${documents.deletedAt} IS NULL
+              AND (
+                hits.checksum IS NOT NULL
+                OR ${documents.filename} LIKE ${searchPattern}
+                OR ${documents.originalName} LIKE ${searchPattern}
+              )
+              AND ${readableByCondition(readableBy) ?? sql`1 = 1`}`;
+
+          return { page, limit, offset, fromClause };
         }),
-        Effect.flatMap(({ page, limit, offset, searchPattern }) =>
+        Effect.flatMap(({ page, limit, offset, fromClause }) =>
           Effect.all({
             // Get total count
             count: pipe(
-              Effect.tryPromise({
+              Effect.try({
                 try: () =>
-                  db
-                    .select({ count: drizzleCount() })
-                    .from(documents)
-                    .where(
-                      or(
-                        like(documents.filename, searchPattern),
-                        like(documents.originalName, searchPattern)
-                      )
-                    ),
+                  db.all<{ count: number }>(
+                    sql`SELECT COUNT(*) AS count ${fromClause}`
+                  ),
                 catch: () =>
                   new DocumentInfrastructureError({
                     message: "Database connection error",
@@ -491,47 +689,60 @@ export const DocumentRepositoryLive = Layer.effect(
               }),
               Effect.map(([countResult]) => countResult?.count || 0)
             ),
-            // Get matching documents
-            docRows: Effect.tryPromise({
+            // Get matching documents, best content matches first
+            hitRows: Effect.try({
               try: () =>
-                db.query.documents.findMany({
-                  where: or(
-                    like(documents.filename, searchPattern),
-                    like(documents.originalName, searchPattern)
-                  ),
-                  orderBy: [desc(documents.updatedAt)],
-                  limit,
-                  offset,
-                }),
+                db.all<{
+                  id: string;
+                  rank: number | null;
+                  snippet: string | null;
+                }>(
+                  sql`
+                    SELECT ${documents.id} AS id, hits.rank AS rank, hits.snippet AS snippet
+                    ${fromClause}
+                    ORDER BY hits.rank IS NULL, hits.rank, ${documents.updatedAt} DESC
+                    LIMIT ${limit} OFFSET ${offset}`
+                ),
               catch: () =>
                 new DocumentInfrastructureError({
                   message: "Database connection error",
                 }),
             }),
           }).pipe(
-            Effect.map(({ count: totalItems, docRows }) => ({
+            Effect.map(({ count: totalItems, hitRows }) => ({
               totalItems,
               totalPages: Math.ceil(totalItems / limit),
               page,
               limit,
-              docRows,
+              hitRows,
             }))
           )
         ),
-        Effect.flatMap(({ totalItems, totalPages, page, limit, docRows }) =>
+        Effect.flatMap(({ totalItems, totalPages, page, limit, hitRows }) =>
           pipe(
             // Load full aggregates for search results
             Effect.all(
-              docRows.map((docRow) => findById(docRow.id as DocumentId))
+              hitRows.map((row) =>
+                pipe(
+                  findById(row.id as DocumentId),
+                  Effect.map(
+                    Option.map((document) => ({
+                      document,
+                      rank: Option.fromNullable(row.rank),
+                      snippet: Option.fromNullable(row.snippet),
+                    }))
+                  )
+                )
+              )
             ),
-            Effect.map((fullDocs) => {
+            Effect.map((fullHits) => {
               // Filter out None values
-              const docs = fullDocs.flatMap((opt) =>
+              const hits = fullHits.flatMap((opt) =>
                 Option.isSome(opt) ? [opt.value] : []
               );
 
               return {
-                data: docs,
+                data: hits,
                 meta: {
                   page,
                   limit,
@@ -546,9 +757,421 @@ export const DocumentRepositoryLive = Layer.effect(
         )
       );
 
+    /**
+     * Query documents by filename text, MIME type and metadata predicates
+     * Returns documents with their latest version
+     */
+    const query: DocumentRepository["query"] = (criteria, pagination) =>
+      pipe(
+        Effect.sync(() => {
+          const { page, limit } = pagination;
+          const offset = (page - 1) * limit;
+          const where = and(
+            isNull(documents.deletedAt),
+            readableByCondition(criteria.readableBy),
+            ...Option.match(criteria.text, {
+              onNone: () => [],
+              onSome: (text) => [
+                or(
+                  like(documents.filename, `%${text}%`),
+                  like(documents.originalName, `%${text}%`)
+                ),
+              ],
+            }),
+            ...Option.match(criteria.mimeType, {
+              onNone: () => [],
+              onSome: (mimeType) => [eq(documents.mimeType, mimeType)],
+            }),
+            ...criteria.metadata.map(metadataCondition)
+          );
+          return { page, limit, offset, where };
+        }),
+        Effect.flatMap(({ page, limit, offset, where }) =>
+          Effect.all({
+            // Get total count
+            count: pipe(
+              Effect.tryPromise({
+                try: () =>
+                  db
+                    .select({ count: drizzleCount() })
+                    .from(documents)
+                    .where(where),
+                catch: () =>
+                  new DocumentInfrastructureError({
+                    message: "Database connection error",
+                  }),
+              }),
+              Effect.map(([countResult]) => countResult?.count || 0)
+            ),
+            // Get matching documents; the relational query API would
+            // qualify the subqueries' columns with the documents alias
+            docRows: Effect.tryPromise({
+              try: () =>
+                db
+                  .select()
+                  .from(documents)
+                  .where(where)
+                  .orderBy(desc(documents.updatedAt))
+                  .limit(limit)
+                  .offset(offset),
+              catch: () =>
+                new DocumentInfrastructureError({
+                  message: "Database connection error",
+                }),
+            }),
+          }).pipe(
+            Effect.map(({ count: totalItems, docRows }) => ({
+              totalItems,
+              totalPages: Math.ceil(totalItems / limit),
+              page,
+              limit,
+              docRows,
+            }))
+          )
+        ),
+        Effect.flatMap(({ totalItems, totalPages, page, limit, docRows }) =>
+          pipe(
+            // For each document, get its latest version
+            Effect.all(
+              docRows.map((docRow) =>
+                pipe(
+                  Effect.tryPromise({
+                    try: () =>
+                      db.query.documentVersions.findFirst({
+                        where: eq(documentVersions.documentId, docRow.id),
+                        orderBy: [desc(documentVersions.versionNumber)],
+                      }),
+                    catch: () =>
+                      new DocumentConstraintError({
+                        message: "Database error",
+                      }),
+                  }),
+                  Effect.map(
+                    (versionRow): DocumentWithVersion => ({
+                      document: DocumentMapper.toDomain(docRow),
+                      latestVersion: versionRow
+                        ? Option.some(
+                            DocumentVersionMapper.toDomain(versionRow)
+                          )
+                        : Option.none(),
+                    })
+                  )
+                )
+              )
+            ),
+            Effect.map((docsWithVersions) => ({
+              data: docsWithVersions,
+              meta: {
+                page,
+                limit,
+                totalItems,
+                totalPages,
+                hasNextPage: page < totalPages,
+                hasPreviousPage: page > 1,
+              },
+            }))
+          )
+        )
+      );
+
+    /**
+     * Index extracted text content (replaces any existing entry for the checksum)
+     */
+    const indexContent: DocumentRepository["indexContent"] = (
+      checksum,
+      content
+    ) =>
+      Effect.try({
+        try: () =>
+          db.transaction((tx) => {
+            tx.run(
+              sql`DELETE FROM ${documentContentFts} WHERE checksum = ${checksum}`
+            );
+            tx.run(
+              sql`INSERT INTO ${documentContentFts} (checksum, content) VALUES (${checksum}, ${content})`
+            );
+          }),
+        catch: () =>
+          new DocumentInfrastructureError({
+            message: "Failed to index document content",
+          }),
+      });
+
+    /**
+     * List trashed documents with pagination (most recently trashed first)
+     * Returns documents with their latest version
+     */
+    const listTrashed: DocumentRepository["listTrashed"] = (
+      uploadedBy,
+      pagination
+    ) =>
+      pipe(
+        Effect.sync(() =>
+          Option.isSome(uploadedBy)
+            ? and(
+                eq(documents.uploadedBy, uploadedBy.value),
+                isNotNull(documents.deletedAt)
+              )
+            : isNotNull(documents.deletedAt)
+        ),
+        Effect.flatMap((whereClause) =>
+          Effect.all({
+            // Get total count
+            count: pipe(
+              Effect.tryPromise({
+                try: () =>
+                  db
+                    .select({ count: drizzleCount() })
+                    .from(documents)
+                    .where(whereClause),
+                catch: () =>
+                  new DocumentInfrastructureError({
+                    message: "Database connection error",
+                  }),
+              }),
+              Effect.map(([countResult]) => countResult?.count || 0)
+            ),
+            // Get paginated documents
+            docRows: Effect.tryPromise({
+              try: () => {
+                const { page, limit } = pagination;
+                const offset = (page - 1) * limit;
+                return db.query.documents.findMany({
+                  where: whereClause,
+                  orderBy: [desc(documents.deletedAt)],
+                  limit,
+                  offset,
+                });
+              },
+              catch: () =>
+                new DocumentInfrastructureError({
+                  message: "Database connection error",
+                }),
+            }),
+          })
+        ),
+        Effect.flatMap(({ count: totalItems, docRows }) => {
+          const { page, limit } = pagination;
+          const totalPages = Math.ceil(totalItems / limit);
+
+          // For each document, get its latest version
+          return pipe(
+            Effect.all(
+              docRows.map((docRow) =>
+                pipe(
+                  Effect.tryPromise({
+                    try: () =>
+                      db.query.documentVersions.findFirst({
+                        where: eq(documentVersions.documentId, docRow.id),
+                        orderBy: [desc(documentVersions.versionNumber)],
+                      }),
+                    catch: () =>
+                      new DocumentConstraintError({
+                        message: "Database error",
+                      }),
+                  }),
+                  Effect.map((versionRow) => {
+                    const document = DocumentMapper.toDomain(docRow);
+                    const latestVersion = versionRow
+                      ? Option.some(DocumentVersionMapper.toDomain(versionRow))
+                      : Option.none();
+
+                    return {
+                      document,
+                      latestVersion,
+                    } as DocumentWithVersion;
+                  })
+                )
+              )
+            ),
+            Effect.map((docsWithVersions) => ({
+              data: docsWithVersions,
+              meta: {
+                page,
+                limit,
+                totalItems,
+                totalPages,
+                hasNextPage: page < totalPages,
+                hasPreviousPage: page > 1,
+              },
+            }))
+          );
+        })
+      );
+
+    /**
+     * Find documents trashed before the cutoff (for purging)
+     */
+    const findTrashedBefore: DocumentRepository["findTrashedBefore"] = (
+      cutoff
+    ) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.documents.findMany({
+              where: lt(documents.deletedAt, cutoff.toISOString()),
+            }),
+          catch: () =>
+            new DocumentInfrastructureError({
+              message: "Database connection error",
+            }),
+        }),
+        Effect.flatMap((docRows) =>
+          Effect.all(
+            docRows.map((docRow) =>
+              loadAggregate(docRow.id as DocumentId, "trashed")
+            )
+          )
+        ),
+        Effect.map((docs) =>
+          docs.flatMap((opt) => (Option.isSome(opt) ? [opt.value] : []))
+        )
+      );
+
+    /**
+     * Find every active document owned by a user
+     */
+    const findByOwner: DocumentRepository["findByOwner"] = (userId) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.documents.findMany({
+              where: and(
+                eq(documents.uploadedBy, userId),
+                isNull(documents.deletedAt)
+              ),
+              orderBy: [asc(documents.createdAt)],
+            }),
+          catch: () =>
+            new DocumentInfrastructureError({
+              message: "Database connection error",
+            }),
+        }),
+        Effect.flatMap((docRows) =>
+          Effect.all(
+            docRows.map((docRow) =>
+              loadAggregate(docRow.id as DocumentId, "active")
+            )
+          )
+        ),
+        Effect.map((docs) =>
+          docs.flatMap((opt) => (Option.isSome(opt) ? [opt.value] : []))
+        )
+      );
+
     /**
      * Delete document (cascades to all versions)
      */
+    /**
+     * Transfer a document in one transaction
+     * The previous owner keeps one grant, upgraded to WRITE without expiry,
+     * or gets a new one when they had none
+     */
+    const transferOwnership: DocumentRepository["transferOwnership"] = ({
+      document,
+      previousOwnerId,
+      keepPreviousOwnerAccess,
+      performedBy,
+      details,
+    }) =>
+      pipe(
+        getCorrelationId(),
+        Effect.flatMap((correlationId) =>
+          Effect.try({
+            try: () =>
+              db.transaction((tx) => {
+                tx.update(documents)
+                  .set(DocumentMapper.toDbUpdate(document))
+                  .where(eq(documents.id, document.id))
+                  .run();
+
+                // Owners don't need direct grants on their own documents
+                tx.delete(documentPermissions)
+                  .where(
+                    and(
+                      eq(documentPermissions.documentId, document.id),
+                      eq(documentPermissions.userId, document.uploadedBy)
+                    )
+                  )
+                  .run();
+
+                if (keepPreviousOwnerAccess) {
+                  const [kept, ...redundant] = tx
+                    .select({ id: documentPermissions.id })
+                    .from(documentPermissions)
+                    .where(
+                      and(
+                        eq(documentPermissions.documentId, document.id),
+                        eq(documentPermissions.userId, previousOwnerId)
+                      )
+                    )
+                    .all();
+
+                  if (redundant.length > 0) {
+                    tx.delete(documentPermissions)
+                      .where(
+                        inArray(
+                          documentPermissions.id,
+                          redundant.map((grant) => grant.id)
+                        )
+                      )
+                      .run();
+                  }
+                  if (kept) {
+                    tx.update(documentPermissions)
+                      .set({ permission: "WRITE", expiresAt: null })
+                      .where(eq(documentPermissions.id, kept.id))
+                      .run();
+                  } else {
+                    tx.insert(documentPermissions)
+                      .values({
+                        id: uuid(),
+                        documentId: document.id,
+                        userId: previousOwnerId,
+                        permission: "WRITE",
+                        grantedBy: performedBy,
+                      })
+                      .run();
+                  }
+                }
+
+                appendAuditEntries(tx, [
+                  {
+                    documentId: document.id,
+                    action: "ownership_transferred",
+                    performedBy,
+                    details,
+                    beforeValue: AuditMapper.toDbJson({
+                      ownerId: previousOwnerId,
+                    }),
+                    afterValue: AuditMapper.toDbJson({
+                      ownerId: document.uploadedBy,
+                    }),
+                    correlationId,
+                  },
+                ]);
+              }),
+            catch: () =>
+              new DocumentConstraintError({
+                message: "Failed to transfer document ownership",
+              }),
+          })
+        ),
+        Effect.flatMap(() => loadAggregate(document.id, "active")),
+        Effect.flatMap(
+          Option.match({
+            onNone: () =>
+              Effect.fail(
+                new DocumentNotFoundError({
+                  documentId: document.id,
+                  message: "Document not found after transfer",
+                })
+              ),
+            onSome: (saved) => Effect.succeed(saved),
+          })
+        )
+      );
+
     const deleteDoc: DocumentRepository["delete"] = (id) =>
       pipe(
         Effect.tryPromise({
@@ -568,46 +1191,44 @@ export const DocumentRepositoryLive = Layer.effect(
             );
           }
           return Effect.succeed(undefined);
-        })
-      );
-
-    /**
-     * Add audit log entry
-     */
-    const addAudit: DocumentRepository["addAudit"] = (
-      documentId,
-      action,
-      performedBy,
-      details
-    ) =>
-      pipe(
-        Effect.tryPromise({
-          try: () =>
-            db.insert(documentAudit).values({
-              documentId,
-              action,
-              performedBy,
-              details: Option.getOrNull(details) || "",
-            }),
-          catch: () =>
-            new DocumentInfrastructureError({
-              message: "Database connection error",
-            }),
         }),
+        // Drop indexed content no longer referenced by any version
+        Effect.flatMap(() =>
+          Effect.try({
+            try: () =>
+              db.run(sql`
+                DELETE FROM ${documentContentFts}
+                WHERE checksum NOT IN (
+                  SELECT ${documentVersions.checksum} FROM ${documentVersions}
+                  WHERE ${documentVersions.checksum} IS NOT NULL
+                )`),
+            catch: () =>
+              new DocumentInfrastructureError({
+                message: "Failed to clean up document content index",
+              }),
+          })
+        ),
         Effect.asVoid
       );
 
     return {
       save,
       findById,
+      findTrashedById,
       findByChecksum,
       findByContentRef,
-      findByFilenameAndUser,
+      findByFilenameInFolder,
       listByUser,
+      countByFolder,
       listAll,
       search,
+      query,
+      indexContent,
+      listTrashed,
+      findTrashedBefore,
+      findByOwner,
+      transferOwnership,
       delete: deleteDoc,
-      addAudit,
     } satisfies DocumentRepository;
   })
 );
@@ -0,0 +1,219 @@
+import { Effect, Option, Layer, pipe } from "effect";
+import { eq, and, asc, isNull } from "drizzle-orm";
+import {
+  FolderRepository,
+  FolderRepositoryTag,
+} from "../../domain/folder/repository";
+import { FolderEntity as Folder } from "../../domain/folder/entity";
+import {
+  FolderNotFoundError,
+  FolderAlreadyExistsError,
+  FolderConstraintError,
+  type FolderDomainError,
+} from "../../domain/folder/errors";
+import { DrizzleService, hasAffectedRows } from "../services/drizzle-service";
+import { folders } from "../models";
+import { FolderMapper } from "../mappers/folder.mapper";
+import { detectDbConstraint } from "../../domain/shared/base.repository";
+import { FolderId } from "../../domain/refined/uuid";
+
+/**
+ * Folder Repository Implementation using Drizzle ORM
+ */
+export const FolderRepositoryLive = Layer.effect(
+  FolderRepositoryTag,
+  Effect.gen(function* () {
+    const { db } = yield* DrizzleService;
+
+    /**
+     * A unique violation means a sibling already has the folder's name
+     */
+    const toSaveError = (folder: Folder, error: unknown) =>
+      detectDbConstraint(error) === "unique"
+        ? new FolderAlreadyExistsError({
+            name: folder.name,
+            parentId: Option.getOrUndefined(folder.parentId),
+            message: "A folder with this name already exists in this location",
+          })
+        : new FolderConstraintError({
+            message: "Database constraint violation",
+          });
+
+    const save: FolderRepository["save"] = (folder) =>
+      pipe(
+        // Check if folder exists
+        Effect.tryPromise({
+          try: () =>
+            db.query.folders.findFirst({
+              where: eq(folders.id, folder.id),
+            }),
+          catch: () => new FolderConstraintError({ message: "Database error" }),
+        }),
+        Effect.flatMap((existingRow) => {
+          if (existingRow) {
+            // Update existing folder (rename / move)
+            const updateData = FolderMapper.toDbUpdate(folder);
+
+            return Effect.tryPromise({
+              try: () =>
+                db
+                  .update(folders)
+                  .set(updateData)
+                  .where(eq(folders.id, folder.id)),
+              catch: (error) => toSaveError(folder, error),
+            });
+          } else {
+            // Create new folder
+            const createData = FolderMapper.toDbCreate(folder);
+
+            return Effect.tryPromise({
+              try: () => db.insert(folders).values(createData),
+              catch: (error) => toSaveError(folder, error),
+            });
+          }
+        }),
+        // Fetch the saved folder
+        Effect.flatMap(() =>
+          Effect.tryPromise({
+            try: () =>
+              db.query.folders.findFirst({
+                where: eq(folders.id, folder.id),
+              }),
+            catch: () =>
+              new FolderNotFoundError({
+                folderId: folder.id,
+                message: "Folder not found after save",
+              }),
+          })
+        ),
+        Effect.flatMap((savedRow) =>
+          savedRow
+            ? Effect.succeed(FolderMapper.toDomain(savedRow))
+            : Effect.fail(
+                new FolderNotFoundError({
+                  folderId: folder.id,
+                  message: "Folder not found after save",
+                })
+              )
+        )
+      );
+
+    const findById: FolderRepository["findById"] = (id) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.folders.findFirst({
+              where: eq(folders.id, id),
+            }),
+          catch: () => new FolderConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((folderRow) =>
+          pipe(Option.fromNullable(folderRow), Option.map(FolderMapper.toDomain))
+        )
+      );
+
+    const findByNameInParent: FolderRepository["findByNameInParent"] = (
+      name,
+      ownerId,
+      parentId
+    ) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.folders.findFirst({
+              where: and(
+                eq(folders.name, name),
+                eq(folders.ownerId, ownerId),
+                Option.isSome(parentId)
+                  ? eq(folders.parentId, parentId.value)
+                  : isNull(folders.parentId)
+              ),
+            }),
+          catch: () => new FolderConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((folderRow) =>
+          pipe(Option.fromNullable(folderRow), Option.map(FolderMapper.toDomain))
+        )
+      );
+
+    const findChildren: FolderRepository["findChildren"] = (
+      ownerId,
+      parentId
+    ) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.folders.findMany({
+              where: and(
+                eq(folders.ownerId, ownerId),
+                Option.isSome(parentId)
+                  ? eq(folders.parentId, parentId.value)
+                  : isNull(folders.parentId)
+              ),
+              orderBy: [asc(folders.name)],
+            }),
+          catch: () => new FolderConstraintError({ message: "Database error" }),
+        }),
+        Effect.map(FolderMapper.toDomainMany)
+      );
+
+    /**
+     * Walk up the parent chain, then reverse so the path reads root → folder
+     */
+    const findPath: FolderRepository["findPath"] = (id) => {
+      const walkUp = (
+        folderId: FolderId,
+        acc: readonly Folder[]
+      ): Effect.Effect<readonly Folder[], FolderDomainError> =>
+        pipe(
+          findById(folderId),
+          Effect.flatMap(
+            Option.match({
+              onNone: () => Effect.succeed(acc),
+              onSome: (folder) =>
+                pipe(
+                  folder.parentId,
+                  Option.match({
+                    onNone: () => Effect.succeed([...acc, folder]),
+                    onSome: (parentId) => walkUp(parentId, [...acc, folder]),
+                  })
+                ),
+            })
+          )
+        );
+
+      return pipe(
+        walkUp(id, []),
+        Effect.map((chain) => [...chain].reverse())
+      );
+    };
+
+    const deleteFolder: FolderRepository["delete"] = (id) =>
+      pipe(
+        Effect.tryPromise({
+          try: () => db.delete(folders).where(eq(folders.id, id)),
+          catch: () => new FolderConstraintError({ message: "Database error" }),
+        }),
+        Effect.flatMap((result) => {
+          if (!hasAffectedRows(result)) {
+            return Effect.fail(
+              new FolderNotFoundError({
+                folderId: id,
+                message: "Folder not found",
+              })
+            );
+          }
+          return Effect.succeed(undefined);
+        })
+      );
+
+    return {
+      save,
+      findById,
+      findByNameInParent,
+      findChildren,
+      findPath,
+      delete: deleteFolder,
+    } satisfies FolderRepository;
+  })
+);
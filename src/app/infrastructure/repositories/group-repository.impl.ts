@@ -0,0 +1,187 @@
+import { Effect, Option, Layer, pipe } from "effect";
+import { eq, and, asc, inArray } from "drizzle-orm";
+import {
+  GroupRepository,
+  GroupRepositoryTag,
+} from "../../domain/group/repository";
+import {
+  GroupNotFoundError,
+  GroupAlreadyExistsError,
+  GroupConstraintError,
+} from "../../domain/group/errors";
+import { DrizzleService, hasAffectedRows } from "../services/drizzle-service";
+import { groups, groupMembers } from "../models";
+import { GroupMapper } from "../mappers/group.mapper";
+import { detectDbConstraint } from "../../domain/shared/base.repository";
+import { GroupId } from "../../domain/refined/uuid";
+
+/**
+ * Group Repository Implementation using Drizzle ORM
+ */
+export const GroupRepositoryLive = Layer.effect(
+  GroupRepositoryTag,
+  Effect.gen(function* () {
+    const { db } = yield* DrizzleService;
+
+    /**
+     * Load a group with its members
+     */
+    const findRow = (id: GroupId) =>
+      Effect.tryPromise({
+        try: () =>
+          db.query.groups.findFirst({
+            where: eq(groups.id, id),
+            with: { members: { columns: { userId: true } } },
+          }),
+        catch: () => new GroupConstraintError({ message: "Database error" }),
+      });
+
+    /**
+     * Upsert the group row and replace its membership in one transaction
+     */
+    const save: GroupRepository["save"] = (group) =>
+      pipe(
+        Effect.try({
+          try: () =>
+            db.transaction((tx) => {
+              const existing = tx
+                .select({ id: groups.id })
+                .from(groups)
+                .where(eq(groups.id, group.id))
+                .get();
+
+              if (existing) {
+                tx.update(groups)
+                  .set(GroupMapper.toDbUpdate(group))
+                  .where(eq(groups.id, group.id))
+                  .run();
+              } else {
+                tx.insert(groups).values(GroupMapper.toDbCreate(group)).run();
+              }
+
+              tx.delete(groupMembers)
+                .where(eq(groupMembers.groupId, group.id))
+                .run();
+
+              const members = GroupMapper.toDbMembers(group);
+              if (members.length > 0) {
+                tx.insert(groupMembers).values(members).run();
+              }
+            }),
+          catch: (error) => {
+            const constraintType = detectDbConstraint(error);
+            if (constraintType === "unique") {
+              return new GroupAlreadyExistsError({
+                name: group.name,
+                message: "You already have a group with this name",
+              });
+            }
+            return new GroupConstraintError({
+              message: "Database constraint violation",
+            });
+          },
+        }),
+        // Fetch the saved group
+        Effect.flatMap(() => findRow(group.id)),
+        Effect.flatMap((savedRow) =>
+          savedRow
+            ? Effect.succeed(GroupMapper.toDomain(savedRow))
+            : Effect.fail(
+                new GroupNotFoundError({
+                  groupId: group.id,
+                  message: "Group not found after save",
+                })
+              )
+        )
+      );
+
+    const findById: GroupRepository["findById"] = (id) =>
+      pipe(
+        findRow(id),
+        Effect.map((groupRow) =>
+          pipe(Option.fromNullable(groupRow), Option.map(GroupMapper.toDomain))
+        )
+      );
+
+    const findByNameForOwner: GroupRepository["findByNameForOwner"] = (
+      name,
+      ownerId
+    ) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.groups.findFirst({
+              where: and(eq(groups.name, name), eq(groups.ownerId, ownerId)),
+              with: { members: { columns: { userId: true } } },
+            }),
+          catch: () => new GroupConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((groupRow) =>
+          pipe(Option.fromNullable(groupRow), Option.map(GroupMapper.toDomain))
+        )
+      );
+
+    const findGroupIdsByMember: GroupRepository["findGroupIdsByMember"] = (
+      userId
+    ) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .select({ groupId: groupMembers.groupId })
+              .from(groupMembers)
+              .where(eq(groupMembers.userId, userId)),
+          catch: () => new GroupConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((rows) => rows.map((row) => row.groupId as GroupId))
+      );
+
+    const findByMember: GroupRepository["findByMember"] = (userId) =>
+      pipe(
+        findGroupIdsByMember(userId),
+        Effect.flatMap((groupIds) =>
+          groupIds.length === 0
+            ? Effect.succeed([])
+            : Effect.tryPromise({
+                try: () =>
+                  db.query.groups.findMany({
+                    where: inArray(groups.id, [...groupIds]),
+                    with: { members: { columns: { userId: true } } },
+                    orderBy: [asc(groups.name)],
+                  }),
+                catch: () =>
+                  new GroupConstraintError({ message: "Database error" }),
+              })
+        ),
+        Effect.map(GroupMapper.toDomainMany)
+      );
+
+    const deleteGroup: GroupRepository["delete"] = (id) =>
+      pipe(
+        Effect.tryPromise({
+          try: () => db.delete(groups).where(eq(groups.id, id)),
+          catch: () => new GroupConstraintError({ message: "Database error" }),
+        }),
+        Effect.flatMap((result) => {
+          if (!hasAffectedRows(result)) {
+            return Effect.fail(
+              new GroupNotFoundError({
+                groupId: id,
+                message: "Group not found",
+              })
+            );
+          }
+          return Effect.succeed(undefined);
+        })
+      );
+
+    return {
+      save,
+      findById,
+      findByNameForOwner,
+      findByMember,
+      findGroupIdsByMember,
+      delete: deleteGroup,
+    } satisfies GroupRepository;
+  })
+);
@@ -0,0 +1,86 @@
+import { Effect, Option, Layer, pipe } from "effect";
+import { and, eq } from "drizzle-orm";
+import {
+  LoginThrottleRepository,
+  LoginThrottleRepositoryTag,
+} from "../../domain/login-throttle/repository";
+import { LoginThrottleConstraintError } from "../../domain/login-throttle/errors";
+import { DrizzleService } from "../services/drizzle-service";
+import { loginThrottles } from "../models";
+import { LoginThrottleMapper } from "../mappers/login-throttle.mapper";
+
+/**
+ * Login Throttle Repository Implementation using Drizzle ORM
+ */
+export const LoginThrottleRepositoryLive = Layer.effect(
+  LoginThrottleRepositoryTag,
+  Effect.gen(function* () {
+    const { db } = yield* DrizzleService;
+
+    const byScopeAndKey = (scope: string, key: string) =>
+      and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key));
+
+    const find: LoginThrottleRepository["find"] = (scope, key) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.loginThrottles.findFirst({
+              where: byScopeAndKey(scope, key),
+            }),
+          catch: () =>
+            new LoginThrottleConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((throttleRow) =>
+          pipe(
+            Option.fromNullable(throttleRow),
+            Option.map(LoginThrottleMapper.toDomain)
+          )
+        )
+      );
+
+    /**
+     * Upsert the counter row
+     */
+    const save: LoginThrottleRepository["save"] = (throttle) =>
+      pipe(
+        Effect.try({
+          try: () =>
+            db.transaction((tx) => {
+              const existing = tx
+                .select({ key: loginThrottles.key })
+                .from(loginThrottles)
+                .where(byScopeAndKey(throttle.scope, throttle.key))
+                .get();
+
+              if (existing) {
+                tx.update(loginThrottles)
+                  .set(LoginThrottleMapper.toDbUpdate(throttle))
+                  .where(byScopeAndKey(throttle.scope, throttle.key))
+                  .run();
+              } else {
+                tx.insert(loginThrottles)
+                  .values(LoginThrottleMapper.toDbCreate(throttle))
+                  .run();
+              }
+            }),
+          catch: () =>
+            new LoginThrottleConstraintError({
+              message: "Database constraint violation",
+            }),
+        }),
+        Effect.as(throttle)
+      );
+
+    const clear: LoginThrottleRepository["clear"] = (scope, key) =>
+      pipe(
+        Effect.tryPromise({
+          try: () => db.delete(loginThrottles).where(byScopeAndKey(scope, key)),
+          catch: () =>
+            new LoginThrottleConstraintError({ message: "Database error" }),
+        }),
+        Effect.asVoid
+      );
+
+    return { find, save, clear } satisfies LoginThrottleRepository;
+  })
+);
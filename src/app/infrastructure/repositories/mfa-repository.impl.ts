@@ -0,0 +1,201 @@
+import { Effect, Option, Layer, pipe } from "effect";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { MfaRepository, MfaRepositoryTag } from "../../domain/mfa/repository";
+import {
+  MfaChallengeInvalidError,
+  MfaConstraintError,
+} from "../../domain/mfa/errors";
+import type { UserRole } from "../../domain/user/value-object";
+import { DrizzleService, hasAffectedRows } from "../services/drizzle-service";
+import { mfaChallenges, mfaRolePolicies, userMfa } from "../models";
+import {
+  MfaChallengeMapper,
+  MfaEnrollmentMapper,
+} from "../mappers/mfa.mapper";
+
+/**
+ * MFA Repository Implementation using Drizzle ORM
+ */
+export const MfaRepositoryLive = Layer.effect(
+  MfaRepositoryTag,
+  Effect.gen(function* () {
+    const { db } = yield* DrizzleService;
+
+    const findEnrollment: MfaRepository["findEnrollment"] = (userId) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.userMfa.findFirst({
+              where: eq(userMfa.userId, userId),
+            }),
+          catch: () => new MfaConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((enrollmentRow) =>
+          pipe(
+            Option.fromNullable(enrollmentRow),
+            Option.map(MfaEnrollmentMapper.toDomain)
+          )
+        )
+      );
+
+    /**
+     * Upsert the user's enrollment row
+     */
+    const saveEnrollment: MfaRepository["saveEnrollment"] = (enrollment) =>
+      pipe(
+        Effect.try({
+          try: () =>
+            db.transaction((tx) => {
+              const existing = tx
+                .select({ userId: userMfa.userId })
+                .from(userMfa)
+                .where(eq(userMfa.userId, enrollment.userId))
+                .get();
+
+              if (existing) {
+                tx.update(userMfa)
+                  .set(MfaEnrollmentMapper.toDbUpdate(enrollment))
+                  .where(eq(userMfa.userId, enrollment.userId))
+                  .run();
+              } else {
+                tx.insert(userMfa)
+                  .values(MfaEnrollmentMapper.toDbCreate(enrollment))
+                  .run();
+              }
+            }),
+          catch: () =>
+            new MfaConstraintError({
+              message: "Database constraint violation",
+            }),
+        }),
+        Effect.as(enrollment)
+      );
+
+    const deleteEnrollment: MfaRepository["deleteEnrollment"] = (userId) =>
+      pipe(
+        Effect.tryPromise({
+          try: () => db.delete(userMfa).where(eq(userMfa.userId, userId)),
+          catch: () => new MfaConstraintError({ message: "Database error" }),
+        }),
+        Effect.asVoid
+      );
+
+    const saveChallenge: MfaRepository["saveChallenge"] = (challenge) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .insert(mfaChallenges)
+              .values(MfaChallengeMapper.toDbCreate(challenge)),
+          catch: () =>
+            new MfaConstraintError({
+              message: "Database constraint violation",
+            }),
+        }),
+        Effect.as(challenge)
+      );
+
+    const findChallengeByHash: MfaRepository["findChallengeByHash"] = (
+      tokenHash
+    ) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.mfaChallenges.findFirst({
+              where: eq(mfaChallenges.tokenHash, tokenHash),
+            }),
+          catch: () => new MfaConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((challengeRow) =>
+          pipe(
+            Option.fromNullable(challengeRow),
+            Option.map(MfaChallengeMapper.toDomain)
+          )
+        )
+      );
+
+    const recordChallengeFailure: MfaRepository["recordChallengeFailure"] = (
+      id
+    ) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .update(mfaChallenges)
+              .set({ attempts: sql`${mfaChallenges.attempts} + 1` })
+              .where(eq(mfaChallenges.id, id)),
+          catch: () => new MfaConstraintError({ message: "Database error" }),
+        }),
+        Effect.asVoid
+      );
+
+    const consumeChallenge: MfaRepository["consumeChallenge"] = (id) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .update(mfaChallenges)
+              .set({ consumedAt: new Date().toISOString() })
+              .where(
+                and(eq(mfaChallenges.id, id), isNull(mfaChallenges.consumedAt))
+              ),
+          catch: () => new MfaConstraintError({ message: "Database error" }),
+        }),
+        Effect.flatMap((result) =>
+          hasAffectedRows(result)
+            ? Effect.void
+            : Effect.fail(
+                new MfaChallengeInvalidError({
+                  message: "Login challenge has already been used",
+                })
+              )
+        )
+      );
+
+    const findRequiredRoles: MfaRepository["findRequiredRoles"] = () =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.select({ role: mfaRolePolicies.role }).from(mfaRolePolicies),
+          catch: () => new MfaConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((rows) => rows.map((row) => row.role as UserRole))
+      );
+
+    const setRoleRequirement: MfaRepository["setRoleRequirement"] = (
+      role,
+      required,
+      updatedBy
+    ) =>
+      pipe(
+        Effect.try({
+          try: () =>
+            db.transaction((tx) => {
+              tx.delete(mfaRolePolicies)
+                .where(eq(mfaRolePolicies.role, role))
+                .run();
+              if (required) {
+                tx.insert(mfaRolePolicies).values({ role, updatedBy }).run();
+              }
+            }),
+          catch: () =>
+            new MfaConstraintError({
+              message: "Database constraint violation",
+            }),
+        }),
+        Effect.asVoid
+      );
+
+    return {
+      saveEnrollment,
+      findEnrollment,
+      deleteEnrollment,
+      saveChallenge,
+      findChallengeByHash,
+      recordChallengeFailure,
+      consumeChallenge,
+      findRequiredRoles,
+      setRoleRequirement,
+    } satisfies MfaRepository;
+  })
+);
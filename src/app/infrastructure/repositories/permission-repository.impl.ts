@@ -1,5 +1,5 @@
 import { Effect, Option, Layer, pipe } from "effect";
-import { eq, and } from "drizzle-orm";
+import { eq, and, or, gt, lte, isNull, isNotNull } from "drizzle-orm";
 import {
   PermissionRepository,
   PermissionRepositoryTag,
@@ -46,7 +46,7 @@ export const PermissionRepositoryLive = Layer.effect(
               try: () =>
                 db
                   .update(documentPermissions)
-                  .set({ permission: permission.permission })
+                  .set(PermissionMapper.toDbUpdate(permission))
                   .where(eq(documentPermissions.id, permission.id)),
               catch: () =>
                 new PermissionConstraintError({
@@ -64,9 +64,11 @@ export const PermissionRepositoryLive = Layer.effect(
                 if (constraintType === "unique") {
                   return new PermissionAlreadyExistsError({
                     documentId: permission.documentId,
-                    userId: permission.userId,
-                    message:
-                      "Permission already exists for this user on this document",
+                    userId: Option.getOrUndefined(permission.userId),
+                    groupId: Option.getOrUndefined(permission.groupId),
+                    message: `Permission already exists for this ${
+                      permission.isGroupGrant() ? "group" : "user"
+                    } on this document`,
                   });
                 }
                 return new PermissionConstraintError({
@@ -152,6 +154,23 @@ export const PermissionRepositoryLive = Layer.effect(
           Effect.map(PermissionMapper.toDomainMany)
         );
 
+    const findByGroupAndDocument: PermissionRepository["findByGroupAndDocument"] =
+      (groupId, documentId) =>
+        pipe(
+          Effect.tryPromise({
+            try: () =>
+              db.query.documentPermissions.findMany({
+                where: and(
+                  eq(documentPermissions.groupId, groupId),
+                  eq(documentPermissions.documentId, documentId)
+                ),
+              }),
+            catch: () =>
+              new PermissionConstraintError({ message: "Database error" }),
+          }),
+          Effect.map(PermissionMapper.toDomainMany)
+        );
+
     const findByUser: PermissionRepository["findByUser"] = (userId) =>
       pipe(
         Effect.tryPromise({
@@ -200,7 +219,11 @@ export const PermissionRepositoryLive = Layer.effect(
               where: and(
                 eq(documentPermissions.userId, userId),
                 eq(documentPermissions.documentId, documentId),
-                eq(documentPermissions.permission, permission)
+                eq(documentPermissions.permission, permission),
+                or(
+                  isNull(documentPermissions.expiresAt),
+                  gt(documentPermissions.expiresAt, new Date().toISOString())
+                )
               ),
             }),
           catch: () =>
@@ -224,15 +247,36 @@ export const PermissionRepositoryLive = Layer.effect(
         Effect.asVoid
       );
 
+    const findExpired: PermissionRepository["findExpired"] = () =>
+      pipe(
+        Effect.sync(() => new Date().toISOString()),
+        Effect.flatMap((now) =>
+          Effect.tryPromise({
+            try: () =>
+              db.query.documentPermissions.findMany({
+                where: and(
+                  isNotNull(documentPermissions.expiresAt),
+                  lte(documentPermissions.expiresAt, now)
+                ),
+              }),
+            catch: () =>
+              new PermissionConstraintError({ message: "Database error" }),
+          })
+        ),
+        Effect.map(PermissionMapper.toDomainMany)
+      );
+
     return {
       save,
       findById,
       findByDocument,
       findByUserAndDocument,
+      findByGroupAndDocument,
       findByUser,
       delete: deletePermission,
       hasPermission,
       deleteByDocument,
+      findExpired,
     } satisfies PermissionRepository;
   })
 );
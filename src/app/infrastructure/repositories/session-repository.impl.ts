@@ -0,0 +1,155 @@
+import { Effect, Option, Layer, pipe } from "effect";
+import { and, eq, isNull, ne } from "drizzle-orm";
+import {
+  SessionRepository,
+  SessionRepositoryTag,
+} from "../../domain/session/repository";
+import {
+  SessionNotFoundError,
+  SessionConstraintError,
+  InvalidRefreshTokenError,
+} from "../../domain/session/errors";
+import { DrizzleService, hasAffectedRows } from "../services/drizzle-service";
+import { userSessions } from "../models";
+import { SessionMapper } from "../mappers/session.mapper";
+import { detectDbConstraint } from "../../domain/shared/base.repository";
+
+/**
+ * Session Repository Implementation using Drizzle ORM
+ */
+export const SessionRepositoryLive = Layer.effect(
+  SessionRepositoryTag,
+  Effect.gen(function* () {
+    const { db } = yield* DrizzleService;
+
+    const findById: SessionRepository["findById"] = (id) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.userSessions.findFirst({
+              where: eq(userSessions.id, id),
+            }),
+          catch: () =>
+            new SessionConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((sessionRow) =>
+          pipe(
+            Option.fromNullable(sessionRow),
+            Option.map(SessionMapper.toDomain)
+          )
+        )
+      );
+
+    /**
+     * Sessions only change through rotate and revoke, so save only inserts
+     */
+    const save: SessionRepository["save"] = (session) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.insert(userSessions).values(SessionMapper.toDbCreate(session)),
+          catch: (error) =>
+            new SessionConstraintError({
+              message:
+                detectDbConstraint(error) === "unique"
+                  ? "Session already exists"
+                  : "Database constraint violation",
+            }),
+        }),
+        Effect.flatMap(() => findById(session.id)),
+        Effect.flatMap(
+          Option.match({
+            onNone: () =>
+              Effect.fail(
+                new SessionNotFoundError({
+                  sessionId: session.id,
+                  message: "Session not found after save",
+                })
+              ),
+            onSome: Effect.succeed,
+          })
+        )
+      );
+
+    const rotate: SessionRepository["rotate"] = (session, previousHash) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .update(userSessions)
+              .set(SessionMapper.toDbUpdate(session))
+              .where(
+                and(
+                  eq(userSessions.id, session.id),
+                  eq(userSessions.refreshTokenHash, previousHash),
+                  isNull(userSessions.revokedAt)
+                )
+              ),
+          catch: () =>
+            new SessionConstraintError({ message: "Database error" }),
+        }),
+        Effect.flatMap((result) =>
+          hasAffectedRows(result)
+            ? Effect.succeed(session)
+            : Effect.fail(
+                new InvalidRefreshTokenError({
+                  message: "Refresh token has already been used",
+                })
+              )
+        )
+      );
+
+    const revoke: SessionRepository["revoke"] = (id) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .update(userSessions)
+              .set({ revokedAt: new Date().toISOString() })
+              .where(
+                and(eq(userSessions.id, id), isNull(userSessions.revokedAt))
+              ),
+          catch: () =>
+            new SessionConstraintError({ message: "Database error" }),
+        }),
+        Effect.asVoid
+      );
+
+    const revokeAllForUser: SessionRepository["revokeAllForUser"] = (
+      userId,
+      exceptId
+    ) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .update(userSessions)
+              .set({ revokedAt: new Date().toISOString() })
+              .where(
+                and(
+                  eq(userSessions.userId, userId),
+                  isNull(userSessions.revokedAt),
+                  exceptId ? ne(userSessions.id, exceptId) : undefined
+                )
+              ),
+          catch: () =>
+            new SessionConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((result) => {
+          const updateResult = result as unknown as {
+            changes?: number;
+            rowCount?: number;
+          };
+          return updateResult.changes || updateResult.rowCount || 0;
+        })
+      );
+
+    return {
+      save,
+      findById,
+      rotate,
+      revoke,
+      revokeAllForUser,
+    } satisfies SessionRepository;
+  })
+);
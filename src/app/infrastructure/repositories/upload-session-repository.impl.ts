@@ -0,0 +1,110 @@
+import { Effect, Option, Layer, pipe } from "effect";
+import { eq, lt } from "drizzle-orm";
+import {
+  UploadSessionRepository,
+  UploadSessionRepositoryTag,
+} from "../../domain/upload-session/repository";
+import {
+  UploadSessionNotFoundError,
+  UploadSessionConstraintError,
+} from "../../domain/upload-session/errors";
+import { DrizzleService, hasAffectedRows } from "../services/drizzle-service";
+import { uploadSessions } from "../models";
+import { UploadSessionMapper } from "../mappers/upload-session.mapper";
+
+/**
+ * Upload Session Repository Implementation using Drizzle ORM
+ */
+export const UploadSessionRepositoryLive = Layer.effect(
+  UploadSessionRepositoryTag,
+  Effect.gen(function* () {
+    const { db } = yield* DrizzleService;
+
+    const findById: UploadSessionRepository["findById"] = (id) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.uploadSessions.findFirst({
+              where: eq(uploadSessions.id, id),
+            }),
+          catch: () =>
+            new UploadSessionConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((sessionRow) =>
+          pipe(
+            Option.fromNullable(sessionRow),
+            Option.map(UploadSessionMapper.toDomain)
+          )
+        )
+      );
+
+    /**
+     * Sessions are immutable once created, so save only inserts
+     */
+    const save: UploadSessionRepository["save"] = (session) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .insert(uploadSessions)
+              .values(UploadSessionMapper.toDbCreate(session)),
+          catch: () =>
+            new UploadSessionConstraintError({
+              message: "Database constraint violation",
+            }),
+        }),
+        Effect.flatMap(() => findById(session.id)),
+        Effect.flatMap(
+          Option.match({
+            onNone: () =>
+              Effect.fail(
+                new UploadSessionNotFoundError({
+                  sessionId: session.id,
+                  message: "Upload session not found after save",
+                })
+              ),
+            onSome: Effect.succeed,
+          })
+        )
+      );
+
+    const findExpired: UploadSessionRepository["findExpired"] = (now) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.uploadSessions.findMany({
+              where: lt(uploadSessions.expiresAt, now.toISOString()),
+            }),
+          catch: () =>
+            new UploadSessionConstraintError({ message: "Database error" }),
+        }),
+        Effect.map(UploadSessionMapper.toDomainMany)
+      );
+
+    const deleteSession: UploadSessionRepository["delete"] = (id) =>
+      pipe(
+        Effect.tryPromise({
+          try: () => db.delete(uploadSessions).where(eq(uploadSessions.id, id)),
+          catch: () =>
+            new UploadSessionConstraintError({ message: "Database error" }),
+        }),
+        Effect.flatMap((result) =>
+          hasAffectedRows(result)
+            ? Effect.void
+            : Effect.fail(
+                new UploadSessionNotFoundError({
+                  sessionId: id,
+                  message: "Upload session not found",
+                })
+              )
+        )
+      );
+
+    return {
+      save,
+      findById,
+      findExpired,
+      delete: deleteSession,
+    } satisfies UploadSessionRepository;
+  })
+);
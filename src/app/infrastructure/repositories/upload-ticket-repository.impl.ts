@@ -0,0 +1,155 @@
+import { Effect, Option, Layer, pipe } from "effect";
+import { and, eq, isNull, lt } from "drizzle-orm";
+import {
+  UploadTicketRepository,
+  UploadTicketRepositoryTag,
+} from "../../domain/upload-ticket/repository";
+import {
+  UploadTicketNotFoundError,
+  UploadTicketAlreadyUsedError,
+  UploadTicketConstraintError,
+} from "../../domain/upload-ticket/errors";
+import { DrizzleService, hasAffectedRows } from "../services/drizzle-service";
+import { uploadTickets } from "../models";
+import { UploadTicketMapper } from "../mappers/upload-ticket.mapper";
+import { detectDbConstraint } from "../../domain/shared/base.repository";
+
+/**
+ * Upload Ticket Repository Implementation using Drizzle ORM
+ */
+export const UploadTicketRepositoryLive = Layer.effect(
+  UploadTicketRepositoryTag,
+  Effect.gen(function* () {
+    const { db } = yield* DrizzleService;
+
+    const findById: UploadTicketRepository["findById"] = (id) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.uploadTickets.findFirst({
+              where: eq(uploadTickets.id, id),
+            }),
+          catch: () =>
+            new UploadTicketConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((ticketRow) =>
+          pipe(
+            Option.fromNullable(ticketRow),
+            Option.map(UploadTicketMapper.toDomain)
+          )
+        )
+      );
+
+    const findByToken: UploadTicketRepository["findByToken"] = (token) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db.query.uploadTickets.findFirst({
+              where: eq(uploadTickets.token, token),
+            }),
+          catch: () =>
+            new UploadTicketConstraintError({ message: "Database error" }),
+        }),
+        Effect.map((ticketRow) =>
+          pipe(
+            Option.fromNullable(ticketRow),
+            Option.map(UploadTicketMapper.toDomain)
+          )
+        )
+      );
+
+    /**
+     * Tickets only change through markAsUsed, so save only inserts
+     */
+    const save: UploadTicketRepository["save"] = (ticket) =>
+      pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .insert(uploadTickets)
+              .values(UploadTicketMapper.toDbCreate(ticket)),
+          catch: (error) =>
+            new UploadTicketConstraintError({
+              message:
+                detectDbConstraint(error) === "unique"
+                  ? "Ticket already exists"
+                  : "Database constraint violation",
+            }),
+        }),
+        Effect.flatMap(() => findById(ticket.id)),
+        Effect.flatMap(
+          Option.match({
+            onNone: () =>
+              Effect.fail(
+                new UploadTicketNotFoundError({
+                  ticketId: ticket.id,
+                  message: "Ticket not found after save",
+                })
+              ),
+            onSome: Effect.succeed,
+          })
+        )
+      );
+
+    const markAsUsed: UploadTicketRepository["markAsUsed"] = (ticket) => {
+      const usedTicket = ticket.markAsUsed();
+      return pipe(
+        Effect.tryPromise({
+          try: () =>
+            db
+              .update(uploadTickets)
+              .set({
+                usedAt: Option.getOrThrow(usedTicket.usedAt).toISOString(),
+              })
+              .where(
+                and(
+                  eq(uploadTickets.id, ticket.id),
+                  isNull(uploadTickets.usedAt)
+                )
+              ),
+          catch: () =>
+            new UploadTicketConstraintError({ message: "Database error" }),
+        }),
+        Effect.flatMap((result) =>
+          hasAffectedRows(result)
+            ? Effect.succeed(usedTicket)
+            : Effect.fail(
+                new UploadTicketAlreadyUsedError({
+                  ticketId: ticket.id,
+                  usedAt: new Date(),
+                  message: "Upload ticket has already been used",
+                })
+              )
+        )
+      );
+    };
+
+    const deleteExpired: UploadTicketRepository["deleteExpired"] = () =>
+      pipe(
+        Effect.sync(() => new Date().toISOString()),
+        Effect.flatMap((now) =>
+          Effect.tryPromise({
+            try: () =>
+              db.delete(uploadTickets).where(lt(uploadTickets.expiresAt, now)),
+            catch: () =>
+              new UploadTicketConstraintError({ message: "Database error" }),
+          })
+        ),
+        Effect.map((result) => {
+          const deleteResult = result as unknown as {
+            changes?: number;
+            rowCount?: number;
+          };
+          return deleteResult.changes || deleteResult.rowCount || 0;
+        })
+      );
+
+    return {
+      save,
+      findById,
+      findByToken,
+      markAsUsed,
+      deleteExpired,
+    } satisfies UploadTicketRepository;
+  })
+);
@@ -1,5 +1,5 @@
 import { Effect, Option, Layer, pipe } from "effect";
-import { eq } from "drizzle-orm";
+import { eq, and, isNull, inArray } from "drizzle-orm";
 import {
   UserRepository,
   UserRepositoryTag,
@@ -9,9 +9,18 @@ import {
   UserNotFoundError,
   UserAlreadyExistsError,
   UserConstraintError,
+  UserHasDocumentsError,
 } from "../../domain/user/errors";
 import { DrizzleService, hasAffectedRows } from "../services/drizzle-service";
-import { users } from "../models";
+import { appendAuditEntries } from "../services/audit-chain";
+import {
+  users,
+  documents,
+  documentVersions,
+  documentPermissions,
+  downloadTokens,
+  folders,
+} from "../models";
 import { UserMapper } from "../mappers/user.mapper";
 import { detectDbConstraint } from "../../domain/shared/base.repository";
 
@@ -136,6 +145,180 @@ export const UserRepositoryLive = Layer.effect(
         })
       );
 
+    /**
+     * Delete the user and dispose of their documents in one transaction
+     * Rows that reference the user without ON DELETE (versions, grants they
+     * handed out) are attributed to the new owner so the delete can go
+     * through; download links the user created are revoked. Audit entries
+     * keep the original user, they are part of the hash chain
+     */
+    const deleteWithDisposition: UserRepository["deleteWithDisposition"] = (
+      id,
+      disposition
+    ) =>
+      Effect.try({
+        try: () =>
+          db.transaction((tx) => {
+            const user = tx
+              .select({ email: users.email })
+              .from(users)
+              .where(eq(users.id, id))
+              .get();
+            if (!user) {
+              throw new UserNotFoundError({
+                userId: id,
+                message: "User not found",
+              });
+            }
+
+            const ownedDocuments = tx
+              .select({ id: documents.id, deletedAt: documents.deletedAt })
+              .from(documents)
+              .where(eq(documents.uploadedBy, id))
+              .all();
+            const ownedDocumentIds = ownedDocuments.map((row) => row.id);
+
+            if (disposition.mode === "REFUSE" && ownedDocumentIds.length > 0) {
+              // Trashed documents count too, say so since listings hide them
+              const trashedCount = ownedDocuments.filter(
+                (row) => row.deletedAt !== null
+              ).length;
+              const inTrash =
+                trashedCount > 0 ? `, ${trashedCount} of them in the trash` : "";
+              throw new UserHasDocumentsError({
+                userId: id,
+                documentCount: ownedDocumentIds.length,
+                message: `User still owns ${ownedDocumentIds.length} document(s)${inTrash}; reassign or archive them first`,
+              });
+            }
+
+            const ownedFolderCount = tx
+              .select({ id: folders.id })
+              .from(folders)
+              .where(eq(folders.ownerId, id))
+              .all().length;
+
+            const reassigned =
+              disposition.mode === "REASSIGN" &&
+              ownedDocumentIds.length + ownedFolderCount > 0;
+
+            if (disposition.mode === "REASSIGN") {
+              const { toUserId, folderId, folderName } = disposition;
+
+              if (reassigned) {
+                // An earlier deletion may have left a folder of that name
+                const takenNames = new Set(
+                  tx
+                    .select({ name: folders.name })
+                    .from(folders)
+                    .where(
+                      and(
+                        eq(folders.ownerId, toUserId),
+                        isNull(folders.parentId)
+                      )
+                    )
+                    .all()
+                    .map((row) => row.name)
+                );
+                let uniqueName = folderName;
+                for (let n = 2; takenNames.has(uniqueName); n++) {
+                  uniqueName = `${folderName} (${n})`;
+                }
+
+                tx.insert(folders)
+                  .values({
+                    id: folderId,
+                    name: uniqueName,
+                    parentId: null,
+                    ownerId: toUserId,
+                  })
+                  .run();
+
+                // Nest the user's root folders and root documents under it
+                tx.update(folders)
+                  .set({ parentId: folderId })
+                  .where(and(eq(folders.ownerId, id), isNull(folders.parentId)))
+                  .run();
+                tx.update(folders)
+                  .set({ ownerId: toUserId })
+                  .where(eq(folders.ownerId, id))
+                  .run();
+                tx.update(documents)
+                  .set({ folderId })
+                  .where(
+                    and(
+                      eq(documents.uploadedBy, id),
+                      isNull(documents.folderId)
+                    )
+                  )
+                  .run();
+                tx.update(documents)
+                  .set({ uploadedBy: toUserId })
+                  .where(eq(documents.uploadedBy, id))
+                  .run();
+              }
+
+              if (ownedDocumentIds.length > 0) {
+                // Owners don't need direct grants on their own documents
+                tx.delete(documentPermissions)
+                  .where(
+                    and(
+                      eq(documentPermissions.userId, toUserId),
+                      inArray(documentPermissions.documentId, ownedDocumentIds)
+                    )
+                  )
+                  .run();
+                appendAuditEntries(
+                  tx,
+                  ownedDocumentIds.map((documentId) => ({
+                    documentId,
+                    action: "ownership_transferred",
+                    performedBy: toUserId,
+                    details: `Reassigned from deleted user ${user.email}`,
+                  }))
+                );
+              }
+
+              tx.update(documentVersions)
+                .set({ uploadedBy: toUserId })
+                .where(eq(documentVersions.uploadedBy, id))
+                .run();
+              tx.update(documentPermissions)
+                .set({ grantedBy: toUserId })
+                .where(eq(documentPermissions.grantedBy, id))
+                .run();
+            }
+
+            tx.delete(downloadTokens)
+              .where(eq(downloadTokens.createdBy, id))
+              .run();
+            tx.delete(users).where(eq(users.id, id)).run();
+
+            return {
+              documentsReassigned: reassigned ? ownedDocumentIds.length : 0,
+              foldersReassigned: reassigned ? ownedFolderCount : 0,
+              folderId: reassigned
+                ? Option.some(disposition.folderId)
+                : Option.none(),
+            };
+          }),
+        catch: (error) => {
+          if (
+            error instanceof UserNotFoundError ||
+            error instanceof UserHasDocumentsError
+          ) {
+            return error;
+          }
+          if (detectDbConstraint(error) === "foreign") {
+            return new UserConstraintError({
+              message:
+                "User is still referenced by document history; delete with a reassign or archive disposition",
+            });
+          }
+          return new UserConstraintError({ message: "Database error" });
+        },
+      });
+
     const listAll: UserRepository["listAll"] = () =>
       pipe(
         Effect.tryPromise({
@@ -160,6 +343,7 @@ export const UserRepositoryLive = Layer.effect(
       findById,
       findByEmail,
       delete: deleteUser,
+      deleteWithDisposition,
       listAll,
       existsByEmail,
     } satisfies UserRepository;
@@ -0,0 +1,97 @@
+/**
+ * Audit Chain Writer
+ *
+ * The only way audit entries are written. Each entry is appended to its
+ * document's hash chain, or to the chain of entries without a document (see
+ * domain/audit/chain): it gets the next sequence number and the hash of the
+ * current chain head.
+ *
+ * Reading the head and inserting must happen atomically, so callers run
+ * this inside a transaction.
+ */
+
+import { desc, eq, isNull } from "drizzle-orm";
+import { v4 as uuid } from "uuid";
+import {
+  GENESIS_HASH,
+  computeAuditHash,
+} from "../../domain/audit/chain";
+import { documentAudit } from "../models";
+import { AuditMapper } from "../mappers/audit.mapper";
+import type { DrizzleDB } from "./drizzle-service";
+
+/**
+ * Database handle or open transaction
+ */
+type AuditWriter =
+  | DrizzleDB
+  | Parameters<Parameters<DrizzleDB["transaction"]>[0]>[0];
+
+/**
+ * Content of an entry to append
+ */
+export interface NewAuditEntry {
+  readonly documentId: string | null;
+  readonly action: string;
+  readonly performedBy: string;
+  readonly details: string;
+  readonly beforeValue?: string | null;
+  readonly afterValue?: string | null;
+  readonly correlationId?: string | null;
+}
+
+/**
+ * Condition selecting the entries of one chain
+ */
+export const chainCondition = (documentId: string | null) =>
+  documentId === null
+    ? isNull(documentAudit.documentId)
+    : eq(documentAudit.documentId, documentId);
+
+/**
+ * Sequence and hash of the newest entry of a chain
+ */
+const readChainHead = (db: AuditWriter, documentId: string | null) =>
+  db
+    .select({ sequence: documentAudit.sequence, hash: documentAudit.hash })
+    .from(documentAudit)
+    .where(chainCondition(documentId))
+    .orderBy(desc(documentAudit.sequence))
+    .limit(1)
+    .get() ?? { sequence: 0, hash: GENESIS_HASH };
+
+/**
+ * Append entries to their chains, in order
+ */
+export const appendAuditEntries = (
+  db: AuditWriter,
+  entries: readonly NewAuditEntry[]
+): void => {
+  const heads = new Map<string | null, { sequence: number; hash: string }>();
+  // Stored explicitly rather than by the column default: the hash covers it
+  const performedAt = AuditMapper.toDbTimestamp(new Date());
+
+  for (const entry of entries) {
+    const head =
+      heads.get(entry.documentId) ?? readChainHead(db, entry.documentId);
+    const link = {
+      id: uuid(),
+      documentId: entry.documentId,
+      sequence: head.sequence + 1,
+      action: entry.action,
+      performedBy: entry.performedBy,
+      details: entry.details,
+      beforeValue: entry.beforeValue ?? null,
+      afterValue: entry.afterValue ?? null,
+      correlationId: entry.correlationId ?? null,
+      performedAt,
+      prevHash: head.hash,
+    };
+    const hash = computeAuditHash(link);
+
+    db.insert(documentAudit)
+      .values({ ...link, hash })
+      .run();
+    heads.set(entry.documentId, { sequence: link.sequence, hash });
+  }
+};
@@ -30,15 +30,20 @@ export const makeDrizzleDb = (): DrizzleDB => {
     // If enabling PRAGMA fails for any reason, continue - cascade may not work.
     // Errors will surface via DB constraint failures later.
   }
-  return drizzle(sqlite, { schema });
+  const db = drizzle(sqlite, { schema });
+  // Virtual tables are outside drizzle-kit's reach, create them here
+  db.run(schema.createDocumentContentFts);
+  return db;
 };
 
 /**
  * Database service implementation
+ * The database is opened when the layer is built, not on import, so
+ * modules that merely reference the layer (tests) need no database file
  */
-export const DrizzleServiceLive = Layer.succeed(DrizzleService, {
+export const DrizzleServiceLive = Layer.sync(DrizzleService, () => ({
   db: makeDrizzleDb(),
-});
+}));
 
 /**
  * Get database instance from context
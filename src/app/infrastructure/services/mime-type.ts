@@ -0,0 +1,34 @@
+/**
+ * MIME Type Detection
+ *
+ * Fallback MIME types for uploads that arrive without a Content-Type,
+ * shared by the storage adapters.
+ */
+
+import * as path from "path";
+
+/**
+ * Get file MIME type from extension
+ */
+export const getMimeTypeFromFilename = (filename: string): string => {
+  const ext = path.extname(filename).toLowerCase();
+  const mimeTypes: Record<string, string> = {
+    ".pdf": "application/pdf",
+    ".doc": "application/msword",
+    ".docx":
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ".xls": "application/vnd.ms-excel",
+    ".xlsx":
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ".txt": "text/plain",
+    ".csv": "text/csv",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".png": "image/png",
+    ".gif": "image/gif",
+    ".zip": "application/zip",
+    ".json": "application/json",
+    ".xml": "application/xml",
+  };
+  return mimeTypes[ext] || "application/octet-stream";
+};
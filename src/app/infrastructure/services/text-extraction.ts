@@ -0,0 +1,113 @@
+/**
+ * Text Extraction
+ *
+ * Pulls plain text out of uploaded files so their content can be indexed
+ * for full-text search. Only text-based formats are supported; binary
+ * formats (PDF, Office, images) are not indexed.
+ */
+
+/**
+ * Upper bound on extracted characters kept per file
+ */
+export const MAX_EXTRACTED_TEXT_LENGTH = 1_000_000;
+
+type Extractor = (raw: string) => string;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Strip markup and decode the common entities (HTML and XML)
+ */
+const stripMarkup: Extractor = (raw) =>
+  raw
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, " $1 ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+      if (code.startsWith("#")) {
+        const value =
+          code[1]?.toLowerCase() === "x"
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+        // Keep entities that name no code point as they are
+        return Number.isNaN(value) || value > 0x10ffff
+          ? entity
+          : String.fromCodePoint(value);
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+
+/**
+ * Keep only the string values of a JSON document (keys are structure, not content)
+ */
+const extractJsonText: Extractor = (raw) => {
+  const collect = (value: unknown): string[] => {
+    if (typeof value === "string") return [value];
+    if (typeof value === "number" || typeof value === "boolean")
+      return [String(value)];
+    if (Array.isArray(value)) return value.flatMap(collect);
+    if (value !== null && typeof value === "object")
+      return Object.values(value).flatMap(collect);
+    return [];
+  };
+
+  try {
+    return collect(JSON.parse(raw)).join(" ");
+  } catch {
+    // Malformed JSON is still worth indexing as plain text
+    return raw;
+  }
+};
+
+/**
+ * Extractors by MIME type (parameters such as charset are ignored)
+ */
+const EXTRACTORS: Record<string, Extractor> = {
+  "text/plain": (raw) => raw,
+  "text/csv": (raw) => raw.replace(/[",;\t]+/g, " "),
+  "application/json": extractJsonText,
+  "application/xml": stripMarkup,
+  "text/xml": stripMarkup,
+  "text/html": stripMarkup,
+};
+
+const normalizeMimeType = (mimeType: string): string =>
+  mimeType.split(";")[0]!.trim().toLowerCase();
+
+/**
+ * Check whether content of the given MIME type can be indexed
+ */
+export const isIndexableMimeType = (mimeType: string): boolean =>
+  normalizeMimeType(mimeType) in EXTRACTORS;
+
+/**
+ * Extract searchable text from file content
+ * Returns undefined for unsupported MIME types, files without text and
+ * content that cannot be extracted; indexing must never fail an upload
+ */
+export const extractText = (
+  content: Buffer,
+  mimeType: string
+): string | undefined => {
+  const extractor = EXTRACTORS[normalizeMimeType(mimeType)];
+  if (!extractor) return undefined;
+
+  try {
+    const text = extractor(content.toString("utf8"))
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, MAX_EXTRACTED_TEXT_LENGTH);
+
+    return text.length > 0 ? text : undefined;
+  } catch {
+    return undefined;
+  }
+};
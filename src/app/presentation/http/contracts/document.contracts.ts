@@ -17,7 +17,15 @@ import {
   ListDocumentsInput,
   ListAllDocumentsInput,
   SearchDocumentsInput,
+  QueryDocumentsInput,
   DeleteDocumentInput,
+  MoveDocumentInput,
+  RestoreDocumentVersionInput,
+  ListTrashInput,
+  RestoreDocumentInput,
+  PurgeTrashInput,
+  TransferOwnershipInput,
+  TransferAllOwnershipInput,
 } from "../../../application/dtos/document/request.dto";
 
 import {
@@ -26,6 +34,8 @@ import {
   DocumentVersionResponse,
   PaginatedDocumentsResponseSchema,
   SearchDocumentsResponseSchema,
+  PurgeTrashResponse,
+  TransferAllOwnershipResponse,
 } from "../../../application/dtos/document/response.dto";
 
 /**
@@ -69,6 +79,18 @@ export const documentContract = {
       path: "/:documentId/versions/:versionId",
     }),
 
+  /**
+   * POST /:documentId/versions/:versionId/restore
+   * Restore a previous version as the new latest version
+   */
+  restoreVersion: oc
+    .input(effectSchema(RestoreDocumentVersionInput.pipe(S.omit("userId"))))
+    .output(effectSchema(DocumentWithVersionResponse))
+    .route({
+      method: "POST",
+      path: "/:documentId/versions/:versionId/restore",
+    }),
+
   /**
    * GET /:documentId/versions
    * List all versions of a document
@@ -113,7 +135,7 @@ export const documentContract = {
 
   /**
    * GET /search
-   * Search documents by query
+   * Search documents by filename and content (ranked, with snippets)
    */
   search: oc
     .input(effectSchema(SearchDocumentsInput.pipe(S.omit("userId"))))
@@ -123,9 +145,57 @@ export const documentContract = {
       path: "/search",
     }),
 
+  /**
+   * POST /query
+   * Query documents by filename text, MIME type and metadata predicates
+   */
+  query: oc
+    .input(effectSchema(QueryDocumentsInput.pipe(S.omit("userId"))))
+    .output(effectSchema(PaginatedDocumentsResponseSchema))
+    .route({
+      method: "POST",
+      path: "/query",
+    }),
+
+  /**
+   * GET /trash
+   * List trashed documents (admins see every user's trash)
+   */
+  listTrash: oc
+    .input(effectSchema(ListTrashInput.pipe(S.omit("userId"))))
+    .output(effectSchema(PaginatedDocumentsResponseSchema))
+    .route({
+      method: "GET",
+      path: "/trash",
+    }),
+
+  /**
+   * POST /trash/purge
+   * Permanently delete documents trashed longer than the retention period (admin only)
+   */
+  purgeTrash: oc
+    .input(effectSchema(PurgeTrashInput.pipe(S.omit("userId"))))
+    .output(effectSchema(PurgeTrashResponse))
+    .route({
+      method: "POST",
+      path: "/trash/purge",
+    }),
+
+  /**
+   * POST /:documentId/restore
+   * Restore a document from the trash
+   */
+  restore: oc
+    .input(effectSchema(RestoreDocumentInput.pipe(S.omit("userId"))))
+    .output(effectSchema(DocumentWithVersionResponse))
+    .route({
+      method: "POST",
+      path: "/:documentId/restore",
+    }),
+
   /**
    * DELETE /:documentId
-   * Delete a document and all its versions
+   * Move a document to the trash
    */
   delete: oc
     .input(effectSchema(DeleteDocumentInput.pipe(S.omit("userId"))))
@@ -140,6 +210,42 @@ export const documentContract = {
       method: "DELETE",
       path: "/:documentId",
     }),
+
+  /**
+   * POST /:documentId/move
+   * Move a document into a folder (omit folderId to move it to the root level)
+   */
+  move: oc
+    .input(effectSchema(MoveDocumentInput.pipe(S.omit("userId"))))
+    .output(effectSchema(DocumentWithVersionResponse))
+    .route({
+      method: "POST",
+      path: "/:documentId/move",
+    }),
+
+  /**
+   * POST /:documentId/transfer-ownership
+   * Transfer a document to another user (owner or admin)
+   */
+  transferOwnership: oc
+    .input(effectSchema(TransferOwnershipInput.pipe(S.omit("userId"))))
+    .output(effectSchema(DocumentWithVersionResponse))
+    .route({
+      method: "POST",
+      path: "/:documentId/transfer-ownership",
+    }),
+
+  /**
+   * POST /admin/transfer-ownership
+   * Transfer every document owned by one user to another (admin only)
+   */
+  transferAllOwnership: oc
+    .input(effectSchema(TransferAllOwnershipInput.pipe(S.omit("userId"))))
+    .output(effectSchema(TransferAllOwnershipResponse))
+    .route({
+      method: "POST",
+      path: "/admin/transfer-ownership",
+    }),
 } as const;
 
 /**
@@ -7,6 +7,9 @@ export * from "./routes/user.routes";
 export * from "./routes/document.routes";
 export * from "./routes/permission.routes";
 export * from "./routes/metadata.routes";
+export * from "./routes/folder.routes";
+export * from "./routes/upload-session.routes";
+export * from "./routes/group.routes";
 export * from "./middleware/auth.middleware";
 export * from "./utils/error-mapper";
 export * from "./utils/handler";
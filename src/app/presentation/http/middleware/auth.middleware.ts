@@ -1,23 +1,56 @@
 /**
  * Authentication Middleware
  *
- * Extracts and validates JWT tokens from Authorization headers.
+ * Extracts and validates bearer tokens from Authorization headers: JWTs,
+ * accepted while their login session is active, or personal access tokens,
+ * limited to their scope. Tokens of suspended users are refused.
  * Injects user context into request state for use in route handlers.
  */
 
-import { Effect, Context } from "effect";
+import { Effect, Context, Option } from "effect";
 import type { JwtPayload, JwtPort } from "../../../application/ports/jwt.port";
 import { JwtPortTag } from "../../../application/ports/jwt.port";
+import type { SessionRepository } from "../../../domain/session/repository";
+import { SessionRepositoryTag } from "../../../domain/session/repository";
+import { SessionNotFoundError } from "../../../domain/session/errors";
+import { guardSessionActive } from "../../../domain/session/guards";
+import type { AccessTokenRepository } from "../../../domain/access-token/repository";
+import { AccessTokenRepositoryTag } from "../../../domain/access-token/repository";
+import { AccessTokenInvalidError } from "../../../domain/access-token/errors";
+import {
+  guardAccessTokenActive,
+  guardAccessTokenScope,
+} from "../../../domain/access-token/guards";
+import {
+  hashAccessToken,
+  isAccessToken,
+  type AccessTokenScope,
+} from "../../../domain/access-token/value-object";
+import type { UserRepository } from "../../../domain/user/repository";
+import { UserRepositoryTag } from "../../../domain/user/repository";
+import { guardUserActive } from "../../../domain/user/guards";
+
+/**
+ * Services needed to authenticate a request
+ */
+export type AuthServices =
+  | JwtPort
+  | SessionRepository
+  | AccessTokenRepository
+  | UserRepository;
 
 /**
  * Authenticated User Context
  *
- * Provides user information extracted from JWT token
+ * Provides user information extracted from the bearer token.
+ * sessionId is set for JWTs, scope for personal access tokens.
  */
 export interface AuthContext {
   readonly userId: string;
   readonly email: string;
   readonly role: string;
+  readonly sessionId?: string;
+  readonly scope?: AccessTokenScope;
 }
 
 /**
@@ -58,6 +91,50 @@ export const verifyToken = (
     return payload;
   });
 
+/**
+ * Check that the session the token was issued for is still active
+ */
+export const verifySession = (
+  payload: JwtPayload
+): Effect.Effect<void, Error, SessionRepository> =>
+  Effect.gen(function* () {
+    const sessionRepo = yield* SessionRepositoryTag;
+    const session = yield* sessionRepo.findById(payload.sessionId);
+
+    if (Option.isNone(session) || session.value.userId !== payload.userId) {
+      return yield* Effect.fail(
+        new SessionNotFoundError({
+          sessionId: payload.sessionId,
+          message: "Session not found",
+        })
+      );
+    }
+
+    yield* guardSessionActive(session.value);
+  });
+
+/**
+ * Check that the user the token was issued to still exists and is not
+ * suspended, yielding the stored user
+ */
+export const verifyUserActive = (payload: JwtPayload) =>
+  Effect.gen(function* () {
+    const userRepo = yield* UserRepositoryTag;
+    const user = yield* userRepo.findById(payload.userId);
+
+    if (Option.isNone(user)) {
+      return yield* Effect.fail(
+        new SessionNotFoundError({
+          sessionId: payload.sessionId,
+          message: "Session not found",
+        })
+      );
+    }
+
+    yield* guardUserActive(user.value);
+    return user.value;
+  });
+
 /**
  * Create AuthContext from JWT payload
  */
@@ -68,20 +145,78 @@ export const createAuthContext = (
     userId: payload.userId,
     email: payload.email,
     role: payload.role,
+    sessionId: payload.sessionId,
   });
 };
 
 /**
- * Full authentication flow: extract → verify → create context
+ * Load the active access token matching a bearer token
+ */
+const loadAccessToken = (token: string) =>
+  Effect.gen(function* () {
+    const accessTokenRepo = yield* AccessTokenRepositoryTag;
+    const accessToken = yield* accessTokenRepo.findByHash(
+      hashAccessToken(token)
+    );
+
+    if (Option.isNone(accessToken)) {
+      return yield* Effect.fail(
+        new AccessTokenInvalidError({ message: "Invalid access token" })
+      );
+    }
+
+    yield* guardAccessTokenActive(accessToken.value);
+    return accessToken.value;
+  });
+
+/**
+ * Authenticate with a personal access token and record its use
+ */
+export const authenticateAccessToken = (
+  token: string
+): Effect.Effect<AuthContext, Error, AccessTokenRepository | UserRepository> =>
+  Effect.gen(function* () {
+    const accessToken = yield* loadAccessToken(token);
+    const userRepo = yield* UserRepositoryTag;
+    const user = yield* userRepo.findById(accessToken.userId);
+
+    if (Option.isNone(user)) {
+      return yield* Effect.fail(
+        new AccessTokenInvalidError({ message: "Invalid access token" })
+      );
+    }
+    yield* guardUserActive(user.value);
+
+    const accessTokenRepo = yield* AccessTokenRepositoryTag;
+    yield* accessTokenRepo.markUsed(accessToken.id);
+
+    return {
+      userId: user.value.id,
+      email: user.value.email,
+      role: user.value.role,
+      scope: accessToken.scope,
+    };
+  });
+
+/**
+ * Full authentication flow: extract → verify → check session → check
+ * user → context
+ * Personal access tokens are recognised by their prefix. The email and
+ * role come from the stored user, so changes apply to issued tokens.
  */
 export const authenticate = (
   authHeader: string | undefined
-): Effect.Effect<AuthContext, Error, JwtPort> =>
+): Effect.Effect<AuthContext, Error, AuthServices> =>
   Effect.gen(function* () {
     const token = yield* extractToken(authHeader);
+    if (isAccessToken(token)) {
+      return yield* authenticateAccessToken(token);
+    }
     const payload = yield* verifyToken(token);
+    yield* verifySession(payload);
+    const user = yield* verifyUserActive(payload);
     const context = yield* createAuthContext(payload);
-    return context;
+    return { ...context, email: user.email, role: user.role };
   });
 
 /**
@@ -90,7 +225,7 @@ export const authenticate = (
 export const withAuth = <R, E, A>(
   effect: Effect.Effect<A, E, R | AuthContext>,
   authHeader: string | undefined
-): Effect.Effect<A, E | Error, R | JwtPort> =>
+): Effect.Effect<A, E | Error, R | AuthServices> =>
   Effect.gen(function* () {
     const authContext = yield* authenticate(authHeader);
     return yield* Effect.provideService(effect, AuthContextTag, authContext);
@@ -107,7 +242,7 @@ export const requireAuth = (): Effect.Effect<AuthContext, never, AuthContext> =>
  */
 export const optionalAuth = (
   authHeader: string | undefined
-): Effect.Effect<AuthContext | undefined, never, JwtPort> =>
+): Effect.Effect<AuthContext | undefined, never, AuthServices> =>
   Effect.gen(function* () {
     const result = yield* Effect.either(authenticate(authHeader));
     if (result._tag === "Left") {
@@ -115,3 +250,77 @@ export const optionalAuth = (
     }
     return result.right;
   });
+
+/**
+ * Requests that only read despite being sent with POST
+ */
+const READ_ONLY_REQUESTS: ReadonlyArray<readonly [string, RegExp]> = [
+  ["POST", /^\/documents\/query\/?$/],
+  ["POST", /^\/downloads\/generate\/?$/],
+];
+
+/**
+ * Requests that upload documents, versions or chunks
+ */
+const UPLOAD_REQUESTS: ReadonlyArray<readonly [string, RegExp]> = [
+  ["POST", /^\/documents\/?$/],
+  ["POST", /^\/uploads\/?$/],
+  ["PATCH", /^\/uploads\/[^/]+\/?$/],
+  ["DELETE", /^\/uploads\/[^/]+\/?$/],
+  ["POST", /^\/upload\/tickets\/?$/],
+];
+
+/**
+ * Scope an access token needs for a request
+ * Reads need READ_ONLY, uploads UPLOAD and every other change ADMIN
+ */
+export const requiredScopeFor = (
+  method: string,
+  path: string
+): AccessTokenScope => {
+  const matches = (requests: ReadonlyArray<readonly [string, RegExp]>) =>
+    requests.some(
+      ([requestMethod, pattern]) =>
+        requestMethod === method && pattern.test(path)
+    );
+
+  if (
+    method === "GET" ||
+    method === "HEAD" ||
+    method === "OPTIONS" ||
+    matches(READ_ONLY_REQUESTS)
+  ) {
+    return "READ_ONLY";
+  }
+  return matches(UPLOAD_REQUESTS) ? "UPLOAD" : "ADMIN";
+};
+
+/**
+ * Reject requests made with an access token whose scope is too narrow
+ * Runs before routing; requests without an access token pass, and the
+ * token itself is validated when the route authenticates
+ */
+export const authorizeAccessTokenScope = (
+  authHeader: string | undefined,
+  method: string,
+  path: string
+): Effect.Effect<void, Error, AccessTokenRepository> =>
+  Effect.gen(function* () {
+    const token = authHeader?.startsWith("Bearer ")
+      ? authHeader.slice("Bearer ".length)
+      : undefined;
+    if (!token || !isAccessToken(token)) {
+      return;
+    }
+
+    const accessTokenRepo = yield* AccessTokenRepositoryTag;
+    const accessToken = yield* accessTokenRepo.findByHash(
+      hashAccessToken(token)
+    );
+    if (Option.isSome(accessToken)) {
+      yield* guardAccessTokenScope(
+        accessToken.value,
+        requiredScopeFor(method.toUpperCase(), path)
+      );
+    }
+  });
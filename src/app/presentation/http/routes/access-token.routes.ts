@@ -0,0 +1,114 @@
+/**
+ * Access Token Routes
+ *
+ * HTTP endpoints for personal access tokens (create, list, revoke)
+ */
+
+import { Elysia } from "elysia";
+import { Effect, pipe } from "effect";
+import type { Runtime } from "effect";
+import { AccessTokenWorkflowTag } from "../../../application/workflows/access-token-workflow";
+import { runEffect } from "../utils/handler";
+import { withAuth, requireAuth } from "../middleware/auth.middleware";
+import {
+  AccessTokenResponse,
+  CreatedAccessTokenResponse,
+  ListAccessTokensResponse,
+} from "../../../application/dtos/access-token/response.dto";
+
+/**
+ * Create access token routes
+ */
+export const createAccessTokenRoutes = <R>(runtime: Runtime.Runtime<R>) => {
+  return (
+    new Elysia({ prefix: "/users/me/tokens" })
+      /**
+       * GET /users/me/tokens
+       * List the access tokens of the current user
+       */
+      .get("/", async ({ headers, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          AccessTokenWorkflowTag,
+          Effect.flatMap((accessTokenWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                accessTokenWorkflow.listAccessTokens({ userId: auth.userId })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          ListAccessTokensResponse
+        );
+      })
+
+      /**
+       * POST /users/me/tokens
+       * Create an access token; the token value is only returned here
+       * Body: name, scope (READ_ONLY, UPLOAD or ADMIN), expiresInDays
+       */
+      .post("/", async ({ headers, body, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          AccessTokenWorkflowTag,
+          Effect.flatMap((accessTokenWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                accessTokenWorkflow.createAccessToken({
+                  ...(body as {
+                    name: string;
+                    scope: string;
+                    expiresInDays?: number;
+                  }),
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          CreatedAccessTokenResponse
+        );
+      })
+
+      /**
+       * DELETE /users/me/tokens/:tokenId
+       * Revoke an access token
+       */
+      .delete("/:tokenId", async ({ headers, params, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          AccessTokenWorkflowTag,
+          Effect.flatMap((accessTokenWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                accessTokenWorkflow.revokeAccessToken({
+                  tokenId: params.tokenId,
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          AccessTokenResponse
+        );
+      })
+  );
+};
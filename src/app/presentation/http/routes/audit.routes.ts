@@ -0,0 +1,171 @@
+/**
+ * Audit Routes
+ *
+ * HTTP endpoints for reading and exporting the document audit log
+ * JSON responses are cursor-paginated; ?format=csv or ?format=ndjson
+ * downloads every matching entry instead
+ */
+
+import { Elysia } from "elysia";
+import { Effect, pipe } from "effect";
+import type { Runtime } from "effect";
+import { AuditWorkflowTag } from "../../../application/workflows/audit-workflow";
+import {
+  AuditLogResponse,
+  AuditChainVerificationResponse,
+} from "../../../application/dtos/audit/response.dto";
+import { runEffect } from "../utils/handler";
+import { withAuth, requireAuth } from "../middleware/auth.middleware";
+import {
+  auditExportResponse,
+  isAuditExportFormat,
+} from "../utils/audit-export";
+
+type AuditQueryParams = {
+  format?: string;
+  cursor?: string;
+  limit?: string;
+  documentId?: string;
+  performedBy?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+};
+
+/**
+ * Create audit routes
+ */
+export const createAuditRoutes = <R>(runtime: Runtime.Runtime<R>) => {
+  return (
+    new Elysia()
+      /**
+       * GET /documents/:documentId/audit
+       * Audit trail of a document, newest first (owner or admin)
+       * Query: cursor, limit, format (json | csv | ndjson)
+       */
+      .get(
+        "/documents/:documentId/audit",
+        async ({ headers, params, query, request }) => {
+          const reqHeaders = Object.fromEntries(request.headers.entries());
+          const { format, cursor, limit } = query as AuditQueryParams;
+          const effect = pipe(
+            AuditWorkflowTag,
+            Effect.flatMap((auditWorkflow) =>
+              pipe(
+                requireAuth(),
+                Effect.flatMap((auth): Effect.Effect<unknown, Error> =>
+                  isAuditExportFormat(format)
+                    ? pipe(
+                        auditWorkflow.exportDocumentAudit({
+                          documentId: params.documentId,
+                          userId: auth.userId,
+                        }),
+                        Effect.flatMap((entries) =>
+                          auditExportResponse(
+                            entries,
+                            format,
+                            `document-${params.documentId}-audit`
+                          )
+                        )
+                      )
+                    : auditWorkflow.getDocumentAudit({
+                        documentId: params.documentId,
+                        userId: auth.userId,
+                        cursor,
+                        limit,
+                      })
+                )
+              )
+            )
+          );
+
+          return runEffect(
+            withAuth(effect, headers.authorization) as Effect.Effect<
+              any,
+              any,
+              R
+            >,
+            runtime,
+            reqHeaders,
+            isAuditExportFormat(format) ? undefined : AuditLogResponse
+          );
+        }
+      )
+
+      /**
+       * GET /audit
+       * Audit log across all documents, newest first (admin only)
+       * Query: documentId, performedBy, action, from, to (ISO timestamps,
+       * inclusive), cursor, limit, format (json | csv | ndjson)
+       */
+      .get("/audit", async ({ headers, query, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const { format, cursor, limit, ...filters } = query as AuditQueryParams;
+        const effect = pipe(
+          AuditWorkflowTag,
+          Effect.flatMap((auditWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth): Effect.Effect<unknown, Error> =>
+                isAuditExportFormat(format)
+                  ? pipe(
+                      auditWorkflow.exportAuditLog({
+                        ...filters,
+                        userId: auth.userId,
+                      }),
+                      Effect.flatMap((entries) =>
+                        auditExportResponse(entries, format, "audit-log")
+                      )
+                    )
+                  : auditWorkflow.queryAuditLog({
+                      ...filters,
+                      userId: auth.userId,
+                      cursor,
+                      limit,
+                    })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          isAuditExportFormat(format) ? undefined : AuditLogResponse
+        );
+      })
+
+      /**
+       * GET /audit/verify
+       * Walk the audit hash chains and report the first broken link
+       * (admin only)
+       * Query: documentId (optional, defaults to every document)
+       */
+      .get("/audit/verify", async ({ headers, query, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const { documentId } = query as AuditQueryParams;
+        const effect = pipe(
+          AuditWorkflowTag,
+          Effect.flatMap((auditWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                auditWorkflow.verifyAuditChain({
+                  userId: auth.userId,
+                  documentId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          AuditChainVerificationResponse
+        );
+      })
+  );
+};
@@ -59,6 +59,21 @@ export const createDocumentRoutes = <R>(runtime: Runtime.Runtime<R>) => {
       )
     ) as any;
 
+  // Restore document version handler - inferred types from contract
+  const restoreVersionHandler: ContractHandler<any, any, any> = (
+    input,
+    auth
+  ) =>
+    pipe(
+      DocumentWorkflowTag,
+      Effect.flatMap((workflow) =>
+        workflow.restoreVersion({
+          ...input,
+          userId: auth.userId,
+        })
+      )
+    ) as any;
+
   // List document versions handler - inferred types from contract
   const listVersionsHandler: ContractHandler<any, any, any> = (input, auth) =>
     pipe(
@@ -107,6 +122,18 @@ export const createDocumentRoutes = <R>(runtime: Runtime.Runtime<R>) => {
       )
     ) as any;
 
+  // Query documents handler - inferred types from contract
+  const queryHandler: ContractHandler<any, any, any> = (input, auth) =>
+    pipe(
+      DocumentWorkflowTag,
+      Effect.flatMap((workflow) =>
+        workflow.queryDocuments({
+          ...input,
+          userId: auth.userId,
+        })
+      )
+    ) as any;
+
   // Delete document handler - inferred types from contract
   const deleteHandler: ContractHandler<any, any, any> = (input, auth) =>
     pipe(
@@ -117,7 +144,85 @@ export const createDocumentRoutes = <R>(runtime: Runtime.Runtime<R>) => {
           userId: auth.userId,
         })
       ),
-      Effect.map(() => ({ message: "Document deleted successfully" }))
+      Effect.map(() => ({ message: "Document moved to trash" }))
+    ) as any;
+
+  // List trash handler - inferred types from contract
+  const listTrashHandler: ContractHandler<any, any, any> = (input, auth) =>
+    pipe(
+      DocumentWorkflowTag,
+      Effect.flatMap((workflow) =>
+        workflow.listTrash({
+          ...input,
+          userId: auth.userId,
+        })
+      )
+    ) as any;
+
+  // Purge trash handler (admin) - inferred types from contract
+  const purgeTrashHandler: ContractHandler<any, any, any> = (input, auth) =>
+    pipe(
+      DocumentWorkflowTag,
+      Effect.flatMap((workflow) =>
+        workflow.purgeTrash({
+          ...input,
+          userId: auth.userId,
+        })
+      )
+    ) as any;
+
+  // Restore document from trash handler - inferred types from contract
+  const restoreHandler: ContractHandler<any, any, any> = (input, auth) =>
+    pipe(
+      DocumentWorkflowTag,
+      Effect.flatMap((workflow) =>
+        workflow.restoreDocument({
+          ...input,
+          userId: auth.userId,
+        })
+      )
+    ) as any;
+
+  // Move document handler - inferred types from contract
+  const moveHandler: ContractHandler<any, any, any> = (input, auth) =>
+    pipe(
+      DocumentWorkflowTag,
+      Effect.flatMap((workflow) =>
+        workflow.moveDocument({
+          ...input,
+          userId: auth.userId,
+        })
+      )
+    ) as any;
+
+  // Transfer ownership handler - inferred types from contract
+  const transferOwnershipHandler: ContractHandler<any, any, any> = (
+    input,
+    auth
+  ) =>
+    pipe(
+      DocumentWorkflowTag,
+      Effect.flatMap((workflow) =>
+        workflow.transferOwnership({
+          ...input,
+          userId: auth.userId,
+        })
+      )
+    ) as any;
+
+  // Transfer all ownership handler (admin) - inferred types from contract
+  const transferAllOwnershipHandler: ContractHandler<any, any, any> = (
+    input,
+    auth
+  ) =>
+    pipe(
+      DocumentWorkflowTag,
+      Effect.flatMap((workflow) =>
+        workflow.transferAllOwnership({
+          ...input,
+          userId: auth.userId,
+        })
+      )
     ) as any;
 
   // Register all routes with their contracts - fully type-safe
@@ -131,6 +236,13 @@ export const createDocumentRoutes = <R>(runtime: Runtime.Runtime<R>) => {
         getVersionHandler
       )
     )
+    .use(
+      registerTypedRoute(
+        documentContract.restoreVersion,
+        runtime,
+        restoreVersionHandler
+      )
+    )
     .use(
       registerTypedRoute(
         documentContract.listVersions,
@@ -141,5 +253,32 @@ export const createDocumentRoutes = <R>(runtime: Runtime.Runtime<R>) => {
     .use(registerTypedRoute(documentContract.list, runtime, listHandler))
     .use(registerTypedRoute(documentContract.listAll, runtime, listAllHandler))
     .use(registerTypedRoute(documentContract.search, runtime, searchHandler))
-    .use(registerTypedRoute(documentContract.delete, runtime, deleteHandler));
+    .use(registerTypedRoute(documentContract.query, runtime, queryHandler))
+    .use(
+      registerTypedRoute(documentContract.listTrash, runtime, listTrashHandler)
+    )
+    .use(
+      registerTypedRoute(
+        documentContract.purgeTrash,
+        runtime,
+        purgeTrashHandler
+      )
+    )
+    .use(registerTypedRoute(documentContract.restore, runtime, restoreHandler))
+    .use(registerTypedRoute(documentContract.delete, runtime, deleteHandler))
+    .use(registerTypedRoute(documentContract.move, runtime, moveHandler))
+    .use(
+      registerTypedRoute(
+        documentContract.transferOwnership,
+        runtime,
+        transferOwnershipHandler
+      )
+    )
+    .use(
+      registerTypedRoute(
+        documentContract.transferAllOwnership,
+        runtime,
+        transferAllOwnershipHandler
+      )
+    );
 };
@@ -8,10 +8,15 @@ import { Elysia } from "elysia";
 import { Effect, pipe } from "effect";
 import type { Runtime } from "effect";
 import { DownloadTokenWorkflowTag } from "../../../application/workflows/download-token-workflow";
+import { StoragePortTag } from "../../../application/ports/storage.port";
 import { runEffect } from "../utils/handler";
+import {
+  resolveRange,
+  rangeStart,
+  ifRangeMatches,
+  ifNoneMatchMatches,
+} from "../utils/http-range";
 import { withAuth, requireAuth } from "../middleware/auth.middleware";
-import * as fs from "fs/promises";
-import * as path from "path";
 
 /**
  * Create download routes
@@ -89,54 +94,97 @@ export const createDownloadRoutes = <R>(runtime: Runtime.Runtime<R>) => {
       /**
        * GET /downloads/:token
        * Download a file using a download token
-       * This endpoint streams the actual file
+       * Streams the file from storage, honouring Range / If-Range (206) and
+       * If-None-Match (304) so clients can resume and cache downloads
        */
-      .get("/:token", async ({ params, set, request }) => {
+      .get("/:token", async ({ params, request }) => {
         const reqHeaders = Object.fromEntries(request.headers.entries());
+        const rangeHeader = reqHeaders["range"];
+        const ifRange = reqHeaders["if-range"];
         const effect = pipe(
-          DownloadTokenWorkflowTag,
-          Effect.flatMap((downloadWorkflow) =>
+          Effect.all({
+            downloadWorkflow: DownloadTokenWorkflowTag,
+            storage: StoragePortTag,
+          }),
+          Effect.flatMap(({ downloadWorkflow, storage }) =>
             pipe(
-              downloadWorkflow.downloadFile(params),
-              // Check if file exists
-              Effect.flatMap((fileInfo) =>
-                pipe(
-                  Effect.tryPromise({
-                    try: () =>
-                      fs
-                        .access(fileInfo.path)
-                        .then(() => true)
-                        .catch(() => false),
-                    catch: () => new Error("Failed to check file existence"),
-                  }),
-                  Effect.flatMap((fileExists) =>
-                    fileExists
-                      ? Effect.succeed(fileInfo)
-                      : Effect.fail(
-                          new Error(`File not found at path: ${fileInfo.path}`)
-                        )
-                  )
-                )
-              ),
-              // Read file
-              Effect.flatMap((fileInfo) =>
-                pipe(
-                  Effect.tryPromise({
-                    try: () => fs.readFile(fileInfo.path),
-                    catch: (error) =>
-                      new Error(`Failed to read file: ${error}`),
-                  }),
-                  Effect.map((fileBuffer) => ({ fileInfo, fileBuffer }))
+              downloadWorkflow.downloadFile({
+                token: params.token,
+                // If-Range only means something on a ranged request
+                resumeTag: rangeHeader ? ifRange : undefined,
+                resumeFrom: rangeStart(rangeHeader),
+              }),
+              Effect.flatMap((fileInfo) => {
+                const lastModified = new Date(
+                  fileInfo.lastModified
+                ).toUTCString();
+                const headers: Record<string, string> = {
+                  "Content-Type": fileInfo.mimeType,
+                  "Content-Disposition": `attachment; filename="${fileInfo.filename}"`,
+                  "Accept-Ranges": "bytes",
+                  ETag: fileInfo.etag,
+                  "Last-Modified": lastModified,
+                };
+
+                if (
+                  ifNoneMatchMatches(reqHeaders["if-none-match"], fileInfo.etag)
+                ) {
+                  return Effect.succeed(
+                    new Response(null, { status: 304, headers })
+                  );
+                }
+
+                const resolution = ifRangeMatches(
+                  ifRange,
+                  fileInfo.etag,
+                  lastModified
                 )
-              ),
-              // Set headers and return buffer
-              Effect.map(({ fileInfo, fileBuffer }) => {
-                set.headers["Content-Type"] = fileInfo.mimeType;
-                set.headers[
-                  "Content-Disposition"
-                ] = `attachment; filename="${fileInfo.filename}"`;
-                set.headers["Content-Length"] = fileInfo.size.toString();
-                return fileBuffer;
+                  ? resolveRange(rangeHeader, fileInfo.size)
+                  : ({ _tag: "Full" } as const);
+
+                switch (resolution._tag) {
+                  case "Unsatisfiable":
+                    return Effect.succeed(
+                      new Response(null, {
+                        status: 416,
+                        headers: {
+                          ...headers,
+                          "Content-Range": `bytes */${fileInfo.size}`,
+                        },
+                      })
+                    );
+                  case "Partial": {
+                    const { start, end } = resolution.range;
+                    return pipe(
+                      storage.readFileStream(fileInfo.path, resolution.range),
+                      Effect.map(
+                        (stream) =>
+                          new Response(stream, {
+                            status: 206,
+                            headers: {
+                              ...headers,
+                              "Content-Range": `bytes ${start}-${end}/${fileInfo.size}`,
+                              "Content-Length": String(end - start + 1),
+                            },
+                          })
+                      )
+                    );
+                  }
+                  case "Full":
+                    return pipe(
+                      storage.readFileStream(fileInfo.path),
+                      Effect.map(
+                        (stream) =>
+                          new Response(stream, {
+                            status: 200,
+                            headers: {
+                              ...headers,
+                              "Content-Length": String(fileInfo.size),
+                            },
+                          })
+                      )
+                    );
+                }
               })
             )
           )
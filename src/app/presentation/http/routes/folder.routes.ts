@@ -0,0 +1,179 @@
+/**
+ * Folder Routes
+ *
+ * HTTP endpoints for folder management
+ */
+
+import { Elysia } from "elysia";
+import { Effect, pipe } from "effect";
+import type { Runtime } from "effect";
+import { FolderWorkflowTag } from "../../../application/workflows/folder-workflow";
+import { runEffect } from "../utils/handler";
+import { withAuth, requireAuth } from "../middleware/auth.middleware";
+
+/**
+ * Create folder routes
+ */
+export const createFolderRoutes = <R>(runtime: Runtime.Runtime<R>) => {
+  return (
+    new Elysia({ prefix: "/folders" })
+      /**
+       * POST /folders
+       * Create a folder (omit parentId to create it at the root level)
+       */
+      .post("/", async ({ headers, body }) => {
+        const effect = pipe(
+          FolderWorkflowTag,
+          Effect.flatMap((folderWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                folderWorkflow.createFolder({
+                  ...(body as { name: string; parentId?: string }),
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+
+      /**
+       * GET /folders
+       * List sub-folders of ?parentId, or the root-level folders
+       */
+      .get("/", async ({ headers, query }) => {
+        const effect = pipe(
+          FolderWorkflowTag,
+          Effect.flatMap((folderWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                folderWorkflow.listFolders({
+                  parentId: query.parentId,
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+
+      /**
+       * GET /folders/:folderId
+       * Get a folder with its path and direct sub-folders
+       */
+      .get("/:folderId", async ({ headers, params }) => {
+        const effect = pipe(
+          FolderWorkflowTag,
+          Effect.flatMap((folderWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                folderWorkflow.getFolder({
+                  folderId: params.folderId,
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+
+      /**
+       * PUT /folders/:folderId
+       * Rename a folder
+       */
+      .put("/:folderId", async ({ headers, params, body }) => {
+        const effect = pipe(
+          FolderWorkflowTag,
+          Effect.flatMap((folderWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                folderWorkflow.renameFolder({
+                  folderId: params.folderId,
+                  userId: auth.userId,
+                  ...(body as { name: string }),
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+
+      /**
+       * POST /folders/:folderId/move
+       * Move a folder under another folder (omit parentId to move it to the root level)
+       */
+      .post("/:folderId/move", async ({ headers, params, body }) => {
+        const effect = pipe(
+          FolderWorkflowTag,
+          Effect.flatMap((folderWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                folderWorkflow.moveFolder({
+                  folderId: params.folderId,
+                  userId: auth.userId,
+                  ...(body as { parentId?: string }),
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+
+      /**
+       * DELETE /folders/:folderId
+       * Delete an empty folder
+       */
+      .delete("/:folderId", async ({ headers, params }) => {
+        const effect = pipe(
+          FolderWorkflowTag,
+          Effect.flatMap((folderWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                folderWorkflow.deleteFolder({
+                  folderId: params.folderId,
+                  userId: auth.userId,
+                })
+              ),
+              Effect.map(() => ({ message: "Folder deleted successfully" }))
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+  );
+};
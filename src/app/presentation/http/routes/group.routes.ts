@@ -0,0 +1,205 @@
+/**
+ * Group Routes
+ *
+ * HTTP endpoints for group and membership management
+ */
+
+import { Elysia } from "elysia";
+import { Effect, pipe } from "effect";
+import type { Runtime } from "effect";
+import { GroupWorkflowTag } from "../../../application/workflows/group-workflow";
+import { runEffect } from "../utils/handler";
+import { withAuth, requireAuth } from "../middleware/auth.middleware";
+
+/**
+ * Create group routes
+ */
+export const createGroupRoutes = <R>(runtime: Runtime.Runtime<R>) => {
+  return (
+    new Elysia({ prefix: "/groups" })
+      /**
+       * POST /groups
+       * Create a group (the creator becomes its owner and first member)
+       */
+      .post("/", async ({ headers, body }) => {
+        const effect = pipe(
+          GroupWorkflowTag,
+          Effect.flatMap((groupWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                groupWorkflow.createGroup({
+                  ...(body as { name: string }),
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+
+      /**
+       * GET /groups
+       * List the groups the current user is a member of
+       */
+      .get("/", async ({ headers }) => {
+        const effect = pipe(
+          GroupWorkflowTag,
+          Effect.flatMap((groupWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                groupWorkflow.listGroups({
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+
+      /**
+       * GET /groups/:groupId
+       * Get a group with its members
+       */
+      .get("/:groupId", async ({ headers, params }) => {
+        const effect = pipe(
+          GroupWorkflowTag,
+          Effect.flatMap((groupWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                groupWorkflow.getGroup({
+                  groupId: params.groupId,
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+
+      /**
+       * PUT /groups/:groupId
+       * Rename a group
+       */
+      .put("/:groupId", async ({ headers, params, body }) => {
+        const effect = pipe(
+          GroupWorkflowTag,
+          Effect.flatMap((groupWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                groupWorkflow.renameGroup({
+                  groupId: params.groupId,
+                  userId: auth.userId,
+                  ...(body as { name: string }),
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+
+      /**
+       * DELETE /groups/:groupId
+       * Delete a group together with its memberships and permissions
+       */
+      .delete("/:groupId", async ({ headers, params }) => {
+        const effect = pipe(
+          GroupWorkflowTag,
+          Effect.flatMap((groupWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                groupWorkflow.deleteGroup({
+                  groupId: params.groupId,
+                  userId: auth.userId,
+                })
+              ),
+              Effect.map(() => ({ message: "Group deleted successfully" }))
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+
+      /**
+       * POST /groups/:groupId/members
+       * Add a user to a group
+       */
+      .post("/:groupId/members", async ({ headers, params, body }) => {
+        const effect = pipe(
+          GroupWorkflowTag,
+          Effect.flatMap((groupWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                groupWorkflow.addGroupMember({
+                  groupId: params.groupId,
+                  userId: auth.userId,
+                  ...(body as { memberId: string }),
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+
+      /**
+       * DELETE /groups/:groupId/members/:memberId
+       * Remove a user from a group (members may remove themselves)
+       */
+      .delete("/:groupId/members/:memberId", async ({ headers, params }) => {
+        const effect = pipe(
+          GroupWorkflowTag,
+          Effect.flatMap((groupWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                groupWorkflow.removeGroupMember({
+                  groupId: params.groupId,
+                  memberId: params.memberId,
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+  );
+};
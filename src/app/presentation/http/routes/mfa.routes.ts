@@ -0,0 +1,194 @@
+/**
+ * MFA Routes
+ *
+ * HTTP endpoints for two-factor authentication (enrollment, disabling and
+ * the per-role policy)
+ */
+
+import { Elysia } from "elysia";
+import { Effect, pipe } from "effect";
+import type { Runtime } from "effect";
+import { MfaWorkflowTag } from "../../../application/workflows/mfa-workflow";
+import { runEffect } from "../utils/handler";
+import { withAuth, requireAuth } from "../middleware/auth.middleware";
+import {
+  MfaEnrollmentResponse,
+  MfaPolicyResponse,
+  MfaRecoveryCodesResponse,
+  MfaStatusResponse,
+} from "../../../application/dtos/mfa/response.dto";
+
+/**
+ * Create MFA routes
+ */
+export const createMfaRoutes = <R>(runtime: Runtime.Runtime<R>) => {
+  return (
+    new Elysia({ prefix: "/users" })
+      /**
+       * GET /users/me/mfa
+       * Get the MFA status of the current user
+       */
+      .get("/me/mfa", async ({ headers, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          MfaWorkflowTag,
+          Effect.flatMap((mfaWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                mfaWorkflow.getMfaStatus({ userId: auth.userId })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          MfaStatusResponse
+        );
+      })
+
+      /**
+       * POST /users/me/mfa/enroll
+       * Start enrolling an authenticator; returns the secret and otpauth URI
+       */
+      .post("/me/mfa/enroll", async ({ headers, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          MfaWorkflowTag,
+          Effect.flatMap((mfaWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                mfaWorkflow.enrollMfa({ userId: auth.userId })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          MfaEnrollmentResponse
+        );
+      })
+
+      /**
+       * POST /users/me/mfa/confirm
+       * Enable MFA with a code from the authenticator
+       * Returns the recovery codes; they are only shown here
+       */
+      .post("/me/mfa/confirm", async ({ headers, body, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          MfaWorkflowTag,
+          Effect.flatMap((mfaWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                mfaWorkflow.confirmMfa({
+                  ...(body as { code: string }),
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          MfaRecoveryCodesResponse
+        );
+      })
+
+      /**
+       * POST /users/me/mfa/disable
+       * Turn MFA off with a TOTP code or a recovery code
+       */
+      .post("/me/mfa/disable", async ({ headers, body, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          MfaWorkflowTag,
+          Effect.flatMap((mfaWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                mfaWorkflow.disableMfa({
+                  ...(body as { code: string }),
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          MfaStatusResponse
+        );
+      })
+
+      /**
+       * GET /users/mfa/policy
+       * List the roles that require MFA (admin only)
+       */
+      .get("/mfa/policy", async ({ headers, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          MfaWorkflowTag,
+          Effect.flatMap((mfaWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                mfaWorkflow.getMfaPolicy({ userId: auth.userId })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          MfaPolicyResponse
+        );
+      })
+
+      /**
+       * PUT /users/mfa/policy
+       * Require MFA for a role, or stop requiring it (admin only)
+       * Body: role, required
+       */
+      .put("/mfa/policy", async ({ headers, body, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          MfaWorkflowTag,
+          Effect.flatMap((mfaWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                mfaWorkflow.setMfaPolicy({
+                  ...(body as { role: string; required: boolean }),
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          MfaPolicyResponse
+        );
+      })
+  );
+};
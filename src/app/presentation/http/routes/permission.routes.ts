@@ -19,7 +19,7 @@ export const createPermissionRoutes = <R>(runtime: Runtime.Runtime<R>) => {
     new Elysia({ prefix: "/permissions" })
       /**
        * POST /permissions/grant
-       * Grant permission to a user
+       * Grant permission to a user, optionally until expiresAt
        */
       .post("/grant", async ({ headers, body }) => {
         const effect = pipe(
@@ -33,6 +33,38 @@ export const createPermissionRoutes = <R>(runtime: Runtime.Runtime<R>) => {
                     documentId: string;
                     userId: string;
                     permission: string;
+                    expiresAt?: string;
+                  }),
+                  grantedBy: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
+
+      /**
+       * POST /permissions/grant/group
+       * Grant permission to every member of a group
+       */
+      .post("/grant/group", async ({ headers, body }) => {
+        const effect = pipe(
+          PermissionWorkflowTag,
+          Effect.flatMap((permissionWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                permissionWorkflow.grantGroupPermission({
+                  ...(body as {
+                    documentId: string;
+                    groupId: string;
+                    permission: string;
+                    expiresAt?: string;
                   }),
                   grantedBy: auth.userId,
                 })
@@ -180,5 +212,36 @@ export const createPermissionRoutes = <R>(runtime: Runtime.Runtime<R>) => {
           runtime
         );
       })
+
+      /**
+       * GET /permissions/explain
+       * Explain how access to a document is decided for a user
+       * (document owner or admin only)
+       */
+      .get("/explain", async ({ headers, query }) => {
+        const effect = pipe(
+          PermissionWorkflowTag,
+          Effect.flatMap((permissionWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                permissionWorkflow.explainPermission({
+                  ...(query as {
+                    documentId: string;
+                    userId: string;
+                    requiredPermission?: string;
+                  }),
+                  requestedBy: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime
+        );
+      })
   );
 };
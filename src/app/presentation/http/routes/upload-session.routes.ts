@@ -0,0 +1,267 @@
+/**
+ * Upload Session Routes
+ *
+ * HTTP endpoints for resumable (tus-style) uploads: create a session, send
+ * the file in PATCH chunks at explicit offsets and check progress with HEAD.
+ * The last chunk turns the upload into a document version.
+ */
+
+import { Elysia } from "elysia";
+import { Effect, pipe } from "effect";
+import type { Runtime } from "effect";
+import { UploadSessionWorkflowTag } from "../../../application/workflows/upload-session-workflow";
+import type { UploadSessionResponse } from "../../../application/dtos/upload-session/response.dto";
+import { runEffect, HttpError } from "../utils/handler";
+import { withAuth, requireAuth } from "../middleware/auth.middleware";
+
+const OFFSET_CONTENT_TYPE = "application/offset+octet-stream";
+
+/**
+ * Progress headers shared by HEAD and PATCH responses
+ */
+const progressHeaders = (
+  session: UploadSessionResponse
+): Record<string, string> => ({
+  "Upload-Offset": String(session.offset),
+  "Upload-Length": String(session.uploadLength),
+  "Upload-Expires": new Date(session.expiresAt).toUTCString(),
+  "Cache-Control": "no-store",
+});
+
+/**
+ * Parse a non-negative integer header (Upload-Length, Upload-Offset)
+ */
+const parseByteCount = (
+  value: string | undefined,
+  header: string
+): number | undefined => {
+  if (value === undefined) return undefined;
+  if (!/^\d+$/.test(value.trim())) {
+    throw new HttpError(
+      400,
+      "Bad Request",
+      `${header} must be a non-negative integer`,
+      header
+    );
+  }
+  return Number(value);
+};
+
+/**
+ * Create upload session routes
+ */
+export const createUploadSessionRoutes = <R>(runtime: Runtime.Runtime<R>) => {
+  return (
+    new Elysia({ prefix: "/uploads" })
+      /**
+       * POST /uploads
+       * Start a resumable upload
+       * The length comes from the Upload-Length header (or uploadLength in the
+       * body); pass documentId to upload a new version of a document
+       */
+      .post("/", async ({ headers, body, request, set }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        // Elysia body is untyped for this endpoint
+        const requestBody = body as {
+          filename: string;
+          mimeType: string;
+          uploadLength?: number;
+          documentId?: string;
+          folderId?: string;
+        };
+        const uploadLength =
+          parseByteCount(reqHeaders["upload-length"], "Upload-Length") ??
+          requestBody.uploadLength;
+
+        const effect = pipe(
+          UploadSessionWorkflowTag,
+          Effect.flatMap((uploadWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                uploadWorkflow.createUploadSession({
+                  ...requestBody,
+                  uploadLength: uploadLength as number,
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        const session = (await runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders
+        )) as UploadSessionResponse;
+
+        set.status = 201;
+        set.headers["location"] = `/uploads/${session.id}`;
+        return session;
+      })
+
+      /**
+       * HEAD /uploads/:sessionId
+       * Report how many bytes were received (Upload-Offset)
+       */
+      .head("/:sessionId", async ({ headers, params, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UploadSessionWorkflowTag,
+          Effect.flatMap((uploadWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                uploadWorkflow.getUploadSession({
+                  sessionId: params.sessionId,
+                  userId: auth.userId,
+                })
+              )
+            )
+          ),
+          Effect.map(
+            (session) =>
+              new Response(null, {
+                status: 200,
+                headers: progressHeaders(session),
+              })
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders
+        );
+      })
+
+      /**
+       * GET /uploads/:sessionId
+       * Get the upload session with its progress
+       */
+      .get("/:sessionId", async ({ headers, params, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UploadSessionWorkflowTag,
+          Effect.flatMap((uploadWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                uploadWorkflow.getUploadSession({
+                  sessionId: params.sessionId,
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders
+        );
+      })
+
+      /**
+       * PATCH /uploads/:sessionId
+       * Append a chunk (Content-Type: application/offset+octet-stream) at
+       * Upload-Offset. Returns 204 with the new offset, or 200 with the
+       * document once the upload is complete.
+       */
+      .patch(
+        "/:sessionId",
+        async ({ headers, params, request }) => {
+          const reqHeaders = Object.fromEntries(request.headers.entries());
+          if (!reqHeaders["content-type"]?.startsWith(OFFSET_CONTENT_TYPE)) {
+            throw new HttpError(
+              415,
+              "Unsupported Media Type",
+              `Chunks must be sent as ${OFFSET_CONTENT_TYPE}`
+            );
+          }
+          const offset = parseByteCount(
+            reqHeaders["upload-offset"],
+            "Upload-Offset"
+          );
+          if (offset === undefined) {
+            throw new HttpError(
+              400,
+              "Bad Request",
+              "Upload-Offset header is required",
+              "Upload-Offset"
+            );
+          }
+
+          const effect = pipe(
+            UploadSessionWorkflowTag,
+            Effect.flatMap((uploadWorkflow) =>
+              pipe(
+                requireAuth(),
+                Effect.flatMap((auth) =>
+                  uploadWorkflow.appendUploadChunk({
+                    sessionId: params.sessionId,
+                    offset,
+                    data: request.body ?? new Blob([]).stream(),
+                    userId: auth.userId,
+                  })
+                )
+              )
+            ),
+            Effect.map(({ session, document }) =>
+              document
+                ? Response.json(document, {
+                    status: 200,
+                    headers: progressHeaders(session),
+                  })
+                : new Response(null, {
+                    status: 204,
+                    headers: progressHeaders(session),
+                  })
+            )
+          );
+
+          return runEffect(
+            withAuth(effect, headers.authorization) as Effect.Effect<
+              any,
+              any,
+              R
+            >,
+            runtime,
+            reqHeaders
+          );
+        },
+        // Keep the body as a stream, chunks are written straight to storage
+        { parse: "none" }
+      )
+
+      /**
+       * DELETE /uploads/:sessionId
+       * Cancel an upload and discard the received bytes
+       */
+      .delete("/:sessionId", async ({ headers, params, request, set }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UploadSessionWorkflowTag,
+          Effect.flatMap((uploadWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                uploadWorkflow.cancelUploadSession({
+                  sessionId: params.sessionId,
+                  userId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        await runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders
+        );
+        set.status = 204;
+      })
+  );
+};
@@ -1,16 +1,15 @@
 /**
  * Upload Routes
  *
- * HTTP endpoints for direct file uploads to local storage
+ * HTTP endpoints for direct file uploads authorised by signed upload tickets
  */
 
 import { Elysia } from "elysia";
 import { Effect, pipe } from "effect";
 import type { Runtime } from "effect";
-import * as fs from "fs/promises";
-import * as path from "path";
-
-const STORAGE_ROOT = process.env.STORAGE_ROOT || "./data/uploads";
+import { UploadTicketWorkflowTag } from "../../../application/workflows/upload-ticket-workflow";
+import { runEffect, HttpError } from "../utils/handler";
+import { withAuth, requireAuth } from "../middleware/auth.middleware";
 
 /**
  * Create upload routes
@@ -19,87 +18,90 @@ export const createUploadRoutes = <R>(runtime: Runtime.Runtime<R>) => {
   return (
     new Elysia({ prefix: "/upload" })
       /**
-       * POST /upload/:documentId/:versionId
-       * Upload file to local storage organized by document and version
+       * POST /upload/tickets
+       * Issue a short-lived ticket to upload one new version of a document
+       * Requires authentication and write permission on the document
        */
-      .post("/:documentId/:versionId", async ({ params, body, set }) => {
+      .post("/tickets", async ({ headers, body, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
         const effect = pipe(
-          // Note: Elysia's body type is unknown at compile time for multipart/form-data
-          // Runtime validation ensures file exists and is correct type
-          Effect.sync(() => (body as { file?: File | Blob })?.file),
-          // Validate file exists
-          Effect.flatMap((file): Effect.Effect<File | Blob, never> => {
-            if (!file) {
-              set.status = 400;
-              throw {
-                status: 400,
-                error: "Bad Request",
-                message: "No file provided in request body",
-              };
-            }
+          UploadTicketWorkflowTag,
+          Effect.flatMap((ticketWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) => {
+                // Elysia body is untyped for this endpoint
+                const requestBody = body as {
+                  documentId: string;
+                  mimeType: string;
+                  maxSize: number;
+                  ttlMs?: number;
+                };
 
-            if (!(file instanceof File || file instanceof Blob)) {
-              set.status = 400;
-              throw {
-                status: 400,
-                error: "Bad Request",
-                message: "Invalid file format",
-              };
-            }
+                const protocol = reqHeaders["x-forwarded-proto"] || "http";
+                const host = reqHeaders["host"] || "localhost:3000";
+                const baseUrl = `${protocol}://${host}`;
 
-            return Effect.succeed(file);
-          }),
-          // Get file metadata and create directory structure
-          Effect.flatMap((file) => {
-            const filename = (file as File).name || "uploaded-file";
-            const targetDir = path.join(
-              STORAGE_ROOT,
-              params.documentId,
-              params.versionId
-            );
+                return ticketWorkflow.issueUploadTicket(
+                  { ...requestBody, userId: auth.userId },
+                  baseUrl
+                );
+              })
+            )
+          )
+        );
 
-            return pipe(
-              Effect.tryPromise({
-                try: () => fs.mkdir(targetDir, { recursive: true }),
-                catch: (error) =>
-                  new Error(`Failed to create storage directory: ${error}`),
-              }),
-              Effect.map(() => ({ file, filename, targetDir }))
-            );
-          }),
-          // Write file to disk
-          Effect.flatMap(({ file, filename, targetDir }) => {
-            const storagePath = path.join(
-              params.documentId,
-              params.versionId,
-              filename
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders
+        );
+      })
+
+      /**
+       * POST /upload/:documentId/:versionId
+       * Upload the file for a ticket's version (multipart field "file")
+       * The ticket goes in the X-Upload-Ticket header or the ?ticket query
+       * parameter; no bearer token is needed
+       */
+      .post(
+        "/:documentId/:versionId",
+        async ({ params, query, body, request }) => {
+          const reqHeaders = Object.fromEntries(request.headers.entries());
+          const ticket = reqHeaders["x-upload-ticket"] ?? query.ticket;
+          if (!ticket) {
+            throw new HttpError(401, "Unauthorized", "Upload ticket required");
+          }
+
+          // Elysia's body type is unknown at compile time for multipart/form-data
+          const file = (body as { file?: File | Blob } | undefined)?.file;
+          if (!(file instanceof File || file instanceof Blob)) {
+            throw new HttpError(
+              400,
+              "Bad Request",
+              "No file provided in request body",
+              "file"
             );
-            const fullPath = path.join(STORAGE_ROOT, storagePath);
+          }
 
-            return pipe(
-              Effect.tryPromise({
-                try: () => file.arrayBuffer(),
-                catch: (error) => new Error(`Failed to read file: ${error}`),
-              }),
-              Effect.flatMap((arrayBuffer) =>
-                Effect.tryPromise({
-                  try: () => fs.writeFile(fullPath, Buffer.from(arrayBuffer)),
-                  catch: (error) => new Error(`Failed to write file: ${error}`),
-                })
-              ),
-              Effect.map(() => ({
-                message: "File uploaded successfully",
-                storagePath,
-                filename,
-                size: file.size,
+          const effect = pipe(
+            UploadTicketWorkflowTag,
+            Effect.flatMap((ticketWorkflow) =>
+              ticketWorkflow.redeemUploadTicket({
                 documentId: params.documentId,
                 versionId: params.versionId,
-              }))
-            );
-          })
-        );
+                ticket,
+                file: file as File,
+              })
+            )
+          );
 
-        return Effect.runPromise(Effect.provide(effect, runtime));
-      })
+          return runEffect(
+            effect as Effect.Effect<any, any, R>,
+            runtime,
+            reqHeaders
+          );
+        }
+      )
   );
 };
@@ -10,11 +10,20 @@ import type { Runtime } from "effect";
 import { UserWorkflowTag } from "../../../application/workflows/user-workflow";
 import { runEffect } from "../utils/handler";
 import { withAuth, requireAuth } from "../middleware/auth.middleware";
+import { clientIp } from "../utils/client-ip";
 import {
   RegisterResponse,
   LoginResponse,
+  RefreshSessionResponse,
+  LogoutResponse,
   UserProfileResponse,
   ListUsersResponse,
+  DeleteUserResponse,
+  UserResponse,
+  AccountMailResponse,
+  ResetPasswordResponse,
+  ChangePasswordResponse,
+  ForcePasswordResetResponse,
 } from "../../../application/dtos/user/response.dto";
 
 /**
@@ -49,14 +58,18 @@ export const createUserRoutes = <R>(runtime: Runtime.Runtime<R>) => {
 
       /**
        * POST /users/login
-       * Authenticate user and return JWT token
+       * Authenticate user and return an access token and a refresh token
+       * Repeated failures are throttled per account and per client IP
        */
-      .post("/login", async ({ body, request }) => {
+      .post("/login", async ({ body, request, server }) => {
         const headers = Object.fromEntries(request.headers.entries());
         const effect = pipe(
           UserWorkflowTag,
           Effect.flatMap((userWorkflow) =>
-            userWorkflow.loginUser(body as { email: string; password: string })
+            userWorkflow.loginUser({
+              ...(body as { email: string; password: string }),
+              ipAddress: clientIp(request, server),
+            })
           )
         );
 
@@ -67,6 +80,194 @@ export const createUserRoutes = <R>(runtime: Runtime.Runtime<R>) => {
         );
       })
 
+      /**
+       * POST /users/login/mfa
+       * Complete a login with a TOTP code or a recovery code
+       * Wrong codes are throttled like wrong passwords
+       */
+      .post("/login/mfa", async ({ body, request, server }) => {
+        const headers = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            userWorkflow.verifyMfaLogin({
+              ...(body as { challengeToken: string; code: string }),
+              ipAddress: clientIp(request, server),
+            })
+          )
+        );
+
+        return runEffect(
+          effect as Effect.Effect<any, any, R>,
+          runtime,
+          headers
+        );
+      })
+
+      /**
+       * POST /users/login/mfa/enroll
+       * Start the enrollment required by the user's role during login
+       */
+      .post("/login/mfa/enroll", async ({ body, request }) => {
+        const headers = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            userWorkflow.enrollMfaLogin(body as { challengeToken: string })
+          )
+        );
+
+        return runEffect(
+          effect as Effect.Effect<any, any, R>,
+          runtime,
+          headers
+        );
+      })
+
+      /**
+       * POST /users/refresh
+       * Exchange a refresh token for a new access token and refresh token
+       */
+      .post("/refresh", async ({ body, request }) => {
+        const headers = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            userWorkflow.refreshSession(body as { refreshToken: string })
+          )
+        );
+
+        return runEffect(
+          effect as Effect.Effect<any, any, R>,
+          runtime,
+          headers,
+          RefreshSessionResponse
+        );
+      })
+
+      /**
+       * POST /users/password/forgot
+       * Mail a password reset link; answers alike for unknown emails
+       */
+      .post("/password/forgot", async ({ body, request }) => {
+        const headers = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            userWorkflow.forgotPassword(body as { email: string })
+          )
+        );
+
+        return runEffect(
+          effect as Effect.Effect<any, any, R>,
+          runtime,
+          headers,
+          AccountMailResponse
+        );
+      })
+
+      /**
+       * POST /users/password/reset
+       * Set a new password with the token from a reset link
+       * Signs the user out everywhere
+       */
+      .post("/password/reset", async ({ body, request }) => {
+        const headers = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            userWorkflow.resetPassword(
+              body as { token: string; password: string }
+            )
+          )
+        );
+
+        return runEffect(
+          effect as Effect.Effect<any, any, R>,
+          runtime,
+          headers,
+          ResetPasswordResponse
+        );
+      })
+
+      /**
+       * POST /users/email/verify
+       * Verify the email address with the token from a verification link
+       */
+      .post("/email/verify", async ({ body, request }) => {
+        const headers = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            userWorkflow.verifyEmail(body as { token: string })
+          )
+        );
+
+        return runEffect(
+          effect as Effect.Effect<any, any, R>,
+          runtime,
+          headers,
+          UserResponse
+        );
+      })
+
+      /**
+       * POST /users/email/verify/resend
+       * Mail a new verification link (requires authentication)
+       */
+      .post("/email/verify/resend", async ({ headers, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                userWorkflow.resendEmailVerification({ userId: auth.userId })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          AccountMailResponse
+        );
+      })
+
+      /**
+       * POST /users/logout
+       * Revoke the current session (requires authentication)
+       * Body: everywhere (boolean) to revoke every session of the user
+       */
+      .post("/logout", async ({ headers, body, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                userWorkflow.logout({
+                  ...(body as { everywhere?: boolean } | undefined),
+                  userId: auth.userId,
+                  sessionId: auth.sessionId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          LogoutResponse
+        );
+      })
+
       /**
        * GET /users/me
        * Get current user profile (requires authentication)
@@ -97,8 +298,9 @@ export const createUserRoutes = <R>(runtime: Runtime.Runtime<R>) => {
       /**
        * PUT /users/me
        * Update current user profile (requires authentication)
+       * Changing the email also takes currentPassword
        */
-      .put("/me", async ({ headers, body, request }) => {
+      .put("/me", async ({ headers, body, request, server }) => {
         const reqHeaders = Object.fromEntries(request.headers.entries());
         const effect = pipe(
           UserWorkflowTag,
@@ -106,10 +308,10 @@ export const createUserRoutes = <R>(runtime: Runtime.Runtime<R>) => {
             pipe(
               requireAuth(),
               Effect.flatMap((auth) =>
-                userWorkflow.updateUserProfile(
-                  auth.userId,
-                  body as { email?: string; password?: string }
-                )
+                userWorkflow.updateUserProfile(auth.userId, {
+                  ...(body as { email?: string; currentPassword?: string }),
+                  ipAddress: clientIp(request, server),
+                })
               )
             )
           )
@@ -122,11 +324,44 @@ export const createUserRoutes = <R>(runtime: Runtime.Runtime<R>) => {
         );
       })
 
+      /**
+       * POST /users/me/password
+       * Change the password of the current user (requires authentication)
+       * Body: currentPassword and newPassword; other sessions are signed out
+       */
+      .post("/me/password", async ({ headers, body, request, server }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                userWorkflow.changePassword({
+                  ...(body as { currentPassword: string; newPassword: string }),
+                  userId: auth.userId,
+                  sessionId: auth.sessionId,
+                  ipAddress: clientIp(request, server),
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          ChangePasswordResponse
+        );
+      })
+
       /**
        * DELETE /users/me
        * Delete current user account (requires authentication)
+       * Query: disposition (REFUSE | ARCHIVE) for the user's documents
        */
-      .delete("/me", async ({ headers, request }) => {
+      .delete("/me", async ({ headers, query, request }) => {
         const reqHeaders = Object.fromEntries(request.headers.entries());
         const effect = pipe(
           UserWorkflowTag,
@@ -134,9 +369,14 @@ export const createUserRoutes = <R>(runtime: Runtime.Runtime<R>) => {
             pipe(
               requireAuth(),
               Effect.flatMap((auth) =>
-                userWorkflow.deleteUser({ userId: auth.userId }, auth.userId)
-              ),
-              Effect.map(() => ({ message: "User deleted successfully" }))
+                userWorkflow.deleteUser(
+                  { ...query, userId: auth.userId } as {
+                    userId: string;
+                    disposition?: string;
+                  },
+                  auth.userId
+                )
+              )
             )
           )
         );
@@ -144,7 +384,8 @@ export const createUserRoutes = <R>(runtime: Runtime.Runtime<R>) => {
         return runEffect(
           withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
           runtime,
-          reqHeaders
+          reqHeaders,
+          DeleteUserResponse
         );
       })
 
@@ -175,6 +416,194 @@ export const createUserRoutes = <R>(runtime: Runtime.Runtime<R>) => {
         );
       })
 
+      /**
+       * DELETE /users/:userId
+       * Delete a user account (admin or self)
+       * Query: disposition (REFUSE | REASSIGN | ARCHIVE) and reassignTo
+       */
+      .delete("/:userId", async ({ headers, params, query, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                userWorkflow.deleteUser(
+                  { ...query, userId: params.userId } as {
+                    userId: string;
+                    disposition?: string;
+                    reassignTo?: string;
+                  },
+                  auth.userId
+                )
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          DeleteUserResponse
+        );
+      })
+
+      /**
+       * POST /users/:userId/unlock
+       * Unlock an account locked by failed logins (admin only)
+       */
+      .post("/:userId/unlock", async ({ headers, params, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                userWorkflow.unlockUser({
+                  userId: params.userId,
+                  requestingUserId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          UserResponse
+        );
+      })
+      /**
+       * PUT /users/:userId/role
+       * Change a user's role (admin only)
+       */
+      .put("/:userId/role", async ({ headers, body, params, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                userWorkflow.updateUserRole({
+                  ...(body as { role: string }),
+                  userId: params.userId,
+                  requestingUserId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          UserResponse
+        );
+      })
+
+      /**
+       * POST /users/:userId/suspend
+       * Suspend an account and sign it out everywhere (admin only)
+       * Body: optional reason, kept in the audit log
+       */
+      .post("/:userId/suspend", async ({ headers, body, params, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                userWorkflow.suspendUser({
+                  ...(body as { reason?: string } | undefined),
+                  userId: params.userId,
+                  requestingUserId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          UserResponse
+        );
+      })
+
+      /**
+       * POST /users/:userId/reactivate
+       * Reactivate a suspended account (admin only)
+       */
+      .post("/:userId/reactivate", async ({ headers, params, request }) => {
+        const reqHeaders = Object.fromEntries(request.headers.entries());
+        const effect = pipe(
+          UserWorkflowTag,
+          Effect.flatMap((userWorkflow) =>
+            pipe(
+              requireAuth(),
+              Effect.flatMap((auth) =>
+                userWorkflow.reactivateUser({
+                  userId: params.userId,
+                  requestingUserId: auth.userId,
+                })
+              )
+            )
+          )
+        );
+
+        return runEffect(
+          withAuth(effect, headers.authorization) as Effect.Effect<any, any, R>,
+          runtime,
+          reqHeaders,
+          UserResponse
+        );
+      })
+
+      /**
+       * POST /users/:userId/password/reset
+       * Invalidate a user's password and mail a reset link (admin only)
+       */
+      .post(
+        "/:userId/password/reset",
+        async ({ headers, params, request }) => {
+          const reqHeaders = Object.fromEntries(request.headers.entries());
+          const effect = pipe(
+            UserWorkflowTag,
+            Effect.flatMap((userWorkflow) =>
+              pipe(
+                requireAuth(),
+                Effect.flatMap((auth) =>
+                  userWorkflow.forcePasswordReset({
+                    userId: params.userId,
+                    requestingUserId: auth.userId,
+                  })
+                )
+              )
+            )
+          );
+
+          return runEffect(
+            withAuth(effect, headers.authorization) as Effect.Effect<
+              any,
+              any,
+              R
+            >,
+            runtime,
+            reqHeaders,
+            ForcePasswordResetResponse
+          );
+        }
+      )
+
       /**
        * GET /users
        * List all users (requires authentication)
@@ -13,12 +13,23 @@ import { createPermissionRoutes } from "./routes/permission.routes";
 import { createMetadataRoutes } from "./routes/metadata.routes";
 import { createDownloadRoutes } from "./routes/download.routes";
 import { createUploadRoutes } from "./routes/upload.routes";
-import { mapErrorToStatus, type HttpErrorResponse } from "./utils/error-mapper";
-import { HttpError } from "./utils/handler";
+import { createFolderRoutes } from "./routes/folder.routes";
+import { createUploadSessionRoutes } from "./routes/upload-session.routes";
+import { createGroupRoutes } from "./routes/group.routes";
+import { createAuditRoutes } from "./routes/audit.routes";
+import { createAccessTokenRoutes } from "./routes/access-token.routes";
+import { createMfaRoutes } from "./routes/mfa.routes";
+import {
+  mapErrorToStatus,
+  retryAfterSeconds,
+  type HttpErrorResponse,
+} from "./utils/error-mapper";
+import { HttpError, runEffect } from "./utils/handler";
 import {
   extractCorrelationIdFromHeaders,
   withNewCorrelationId,
 } from "./middleware/correlation.middleware";
+import { authorizeAccessTokenScope } from "./middleware/auth.middleware";
 
 /**
  * Create Elysia server with all routes
@@ -43,6 +54,15 @@ export const createServer = <R>(runtime: Runtime.Runtime<R>) => {
             },
             { name: "metadata", description: "Metadata management endpoints" },
             { name: "downloads", description: "Document download endpoints" },
+            { name: "folders", description: "Folder management endpoints" },
+            { name: "uploads", description: "Resumable upload endpoints" },
+            { name: "groups", description: "Group management endpoints" },
+            { name: "audit", description: "Audit log endpoints" },
+            {
+              name: "access-tokens",
+              description: "Personal access token endpoints",
+            },
+            { name: "mfa", description: "Two-factor authentication endpoints" },
           ],
         },
       })
@@ -61,6 +81,20 @@ export const createServer = <R>(runtime: Runtime.Runtime<R>) => {
       // This just ensures the header is available
     })
 
+    // Access token scope check (before routes, so it covers every endpoint)
+    .onRequest(async ({ request }) => {
+      const headers = Object.fromEntries(request.headers.entries());
+      await runEffect(
+        authorizeAccessTokenScope(
+          headers.authorization,
+          request.method,
+          new URL(request.url).pathname
+        ) as Effect.Effect<void, Error, R>,
+        runtime,
+        headers
+      );
+    })
+
     // Global error handler
     .onError(({ code, error, set, request }) => {
       // Get correlation ID from response headers (set in onRequest)
@@ -84,6 +118,10 @@ export const createServer = <R>(runtime: Runtime.Runtime<R>) => {
       ) {
         const httpError = error as HttpErrorResponse;
         set.status = httpError.status;
+        const retryAfter = retryAfterSeconds(httpError);
+        if (retryAfter !== undefined) {
+          set.headers["retry-after"] = String(retryAfter);
+        }
         return httpError;
       }
 
@@ -115,7 +153,13 @@ export const createServer = <R>(runtime: Runtime.Runtime<R>) => {
     .use(createPermissionRoutes(runtime))
     .use(createMetadataRoutes(runtime))
     .use(createDownloadRoutes(runtime))
-    .use(createUploadRoutes(runtime));
+    .use(createUploadRoutes(runtime))
+    .use(createFolderRoutes(runtime))
+    .use(createUploadSessionRoutes(runtime))
+    .use(createGroupRoutes(runtime))
+    .use(createAuditRoutes(runtime))
+    .use(createAccessTokenRoutes(runtime))
+    .use(createMfaRoutes(runtime));
 
   return app;
 };
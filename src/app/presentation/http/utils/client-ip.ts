@@ -0,0 +1,31 @@
+/**
+ * Client IP Utilities
+ *
+ * Helpers for finding the address a request came from
+ */
+
+import { loadServerConfig } from "../../../infrastructure/config/server.config";
+
+/**
+ * The part of the HTTP server that knows the peer address of a request
+ */
+export interface RequestIpSource {
+  requestIP(request: Request): { readonly address: string } | null;
+}
+
+const { trustProxy } = loadServerConfig();
+
+/**
+ * Address of the client that sent a request
+ * X-Forwarded-For is only read behind a trusted proxy (TRUST_PROXY=true),
+ * since any client can set it; otherwise the socket address is used
+ */
+export const clientIp = (
+  request: Request,
+  server: RequestIpSource | null
+): string | undefined => {
+  const forwarded = trustProxy
+    ? request.headers.get("x-forwarded-for")?.split(",")[0]?.trim()
+    : undefined;
+  return forwarded || server?.requestIP(request)?.address || undefined;
+};
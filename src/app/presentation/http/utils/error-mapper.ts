@@ -11,6 +11,16 @@ import type {
   DocumentDomainError,
   PermissionDomainError,
   MetadataDomainError,
+  FolderDomainError,
+  UploadSessionDomainError,
+  UploadTicketDomainError,
+  GroupDomainError,
+  AuditDomainError,
+  SessionDomainError,
+  AccessTokenDomainError,
+  MfaDomainError,
+  LoginThrottleDomainError,
+  AccountTokenDomainError,
 } from "../../../domain";
 import type { DownloadTokenDomainError } from "../../../domain/download-token/errors";
 import type {
@@ -88,6 +98,16 @@ export const mapErrorToStatus = (
     | PermissionDomainError
     | MetadataDomainError
     | DownloadTokenDomainError
+    | FolderDomainError
+    | UploadSessionDomainError
+    | UploadTicketDomainError
+    | GroupDomainError
+    | AuditDomainError
+    | SessionDomainError
+    | AccessTokenDomainError
+    | MfaDomainError
+    | LoginThrottleDomainError
+    | AccountTokenDomainError
     | NotFoundError
     | AlreadyExistsError
     | ValidationError
@@ -152,6 +172,48 @@ export const mapErrorToStatus = (
           message: error.message || "Download token not found",
           details: { tokenId: error.tokenId, token: error.token },
         };
+      case "FolderNotFoundError":
+        return {
+          status: 404,
+          error: "Not Found",
+          message: error.message || "Folder not found",
+          details: { folderId: error.folderId },
+        };
+      case "UploadSessionNotFoundError":
+        return {
+          status: 404,
+          error: "Not Found",
+          message: error.message || "Upload session not found",
+          details: { sessionId: error.sessionId },
+        };
+      case "UploadTicketNotFoundError":
+        return {
+          status: 404,
+          error: "Not Found",
+          message: error.message || "Upload ticket not found",
+          details: { ticketId: error.ticketId },
+        };
+      case "GroupNotFoundError":
+        return {
+          status: 404,
+          error: "Not Found",
+          message: error.message || "Group not found",
+          details: { groupId: error.groupId },
+        };
+      case "GroupMemberNotFoundError":
+        return {
+          status: 404,
+          error: "Not Found",
+          message: error.message || "Group member not found",
+          details: { groupId: error.groupId, userId: error.userId },
+        };
+      case "AccessTokenNotFoundError":
+        return {
+          status: 404,
+          error: "Not Found",
+          message: error.message || "Access token not found",
+          details: { tokenId: error.tokenId },
+        };
 
       // Conflict (409)
       case "UserAlreadyExistsError":
@@ -179,7 +241,11 @@ export const mapErrorToStatus = (
           status: 409,
           error: "Conflict",
           message: error.message || "Permission already exists",
-          details: { documentId: error.documentId, userId: error.userId },
+          details: {
+            documentId: error.documentId,
+            userId: error.userId,
+            groupId: error.groupId,
+          },
         };
       case "MetadataAlreadyExistsError":
         return {
@@ -202,6 +268,94 @@ export const mapErrorToStatus = (
           message: error.message || "Download token has expired",
           details: { token: error.token, expiresAt: error.expiresAt },
         };
+      case "FolderAlreadyExistsError":
+        return {
+          status: 409,
+          error: "Conflict",
+          message: error.message || "Folder already exists",
+          details: { name: error.name, parentId: error.parentId },
+        };
+      case "FolderNotEmptyError":
+        return {
+          status: 409,
+          error: "Conflict",
+          message: error.message || "Folder is not empty",
+          details: { folderId: error.folderId },
+        };
+      case "UserHasDocumentsError":
+        return {
+          status: 409,
+          error: "Conflict",
+          message: error.message || "User still owns documents",
+          details: {
+            userId: error.userId,
+            documentCount: error.documentCount,
+          },
+        };
+      case "GroupAlreadyExistsError":
+        return {
+          status: 409,
+          error: "Conflict",
+          message: error.message || "Group already exists",
+          details: { name: error.name },
+        };
+      case "GroupMemberAlreadyExistsError":
+        return {
+          status: 409,
+          error: "Conflict",
+          message: error.message || "User is already a member of this group",
+          details: { groupId: error.groupId, userId: error.userId },
+        };
+      case "MfaNotEnabledError":
+        return {
+          status: 409,
+          error: "Conflict",
+          message: error.message || "Two-factor authentication is not enabled",
+          details: { userId: error.userId },
+        };
+      case "MfaAlreadyEnabledError":
+        return {
+          status: 409,
+          error: "Conflict",
+          message:
+            error.message || "Two-factor authentication is already enabled",
+          details: { userId: error.userId },
+        };
+      case "UploadOffsetMismatchError":
+        return {
+          status: 409,
+          error: "Conflict",
+          message: error.message || "Upload offset mismatch",
+          details: {
+            sessionId: error.sessionId,
+            expectedOffset: error.expectedOffset,
+            receivedOffset: error.receivedOffset,
+          },
+        };
+
+      case "UploadTicketAlreadyUsedError":
+        return {
+          status: 409,
+          error: "Conflict",
+          message: error.message || "Upload ticket has already been used",
+          details: { ticketId: error.ticketId, usedAt: error.usedAt },
+        };
+      case "UploadTicketExpiredError":
+        return {
+          status: 409,
+          error: "Conflict",
+          message: error.message || "Upload ticket has expired",
+          details: { ticketId: error.ticketId, expiresAt: error.expiresAt },
+        };
+
+      // Gone (410)
+      case "UploadSessionExpiredError":
+        return {
+          status: 410,
+          error: "Gone",
+          message: error.message || "Upload session has expired",
+          details: { sessionId: error.sessionId, expiresAt: error.expiresAt },
+        };
 
       // Unauthorized (401)
       case "InvalidCredentialsError":
@@ -210,6 +364,60 @@ export const mapErrorToStatus = (
           error: "Unauthorized",
           message: error.message || "Invalid credentials",
         };
+      case "InvalidRefreshTokenError":
+        return {
+          status: 401,
+          error: "Unauthorized",
+          message: error.message || "Invalid refresh token",
+        };
+      // An unknown session is reported like a revoked one
+      case "SessionNotFoundError":
+      case "SessionRevokedError":
+        return {
+          status: 401,
+          error: "Unauthorized",
+          message: error.message || "Session has been revoked",
+          details: { sessionId: error.sessionId },
+        };
+      case "SessionExpiredError":
+        return {
+          status: 401,
+          error: "Unauthorized",
+          message: error.message || "Session has expired",
+          details: { sessionId: error.sessionId, expiresAt: error.expiresAt },
+        };
+      case "AccessTokenInvalidError":
+        return {
+          status: 401,
+          error: "Unauthorized",
+          message: error.message || "Invalid access token",
+        };
+      case "AccessTokenRevokedError":
+        return {
+          status: 401,
+          error: "Unauthorized",
+          message: error.message || "Access token has been revoked",
+          details: { tokenId: error.tokenId },
+        };
+      case "AccessTokenExpiredError":
+        return {
+          status: 401,
+          error: "Unauthorized",
+          message: error.message || "Access token has expired",
+          details: { tokenId: error.tokenId, expiresAt: error.expiresAt },
+        };
+      case "InvalidMfaCodeError":
+        return {
+          status: 401,
+          error: "Unauthorized",
+          message: error.message,
+        };
+      case "MfaChallengeInvalidError":
+        return {
+          status: 401,
+          error: "Unauthorized",
+          message: error.message,
+        };
 
       // Forbidden (403)
       case "UserForbiddenError":
@@ -249,6 +457,82 @@ export const mapErrorToStatus = (
           error: "Forbidden",
           message: error.message,
         };
+      case "FolderForbiddenError":
+        return {
+          status: 403,
+          error: "Forbidden",
+          message: error.message,
+          details: { folderId: error.folderId },
+        };
+      case "UploadSessionForbiddenError":
+        return {
+          status: 403,
+          error: "Forbidden",
+          message: error.message,
+          details: { sessionId: error.sessionId },
+        };
+      case "UploadTicketInvalidError":
+        return {
+          status: 403,
+          error: "Forbidden",
+          message: error.message,
+        };
+      case "GroupForbiddenError":
+        return {
+          status: 403,
+          error: "Forbidden",
+          message: error.message,
+          details: { groupId: error.groupId },
+        };
+      case "AccessTokenScopeError":
+        return {
+          status: 403,
+          error: "Forbidden",
+          message: error.message || "Access token scope is too narrow",
+          details: {
+            scope: error.scope,
+            requiredScope: error.requiredScope,
+          },
+        };
+      case "MfaRequiredError":
+        return {
+          status: 403,
+          error: "Forbidden",
+          message: error.message || "Two-factor authentication is required",
+          details: { role: error.role },
+        };
+      case "EmailNotVerifiedError":
+        return {
+          status: 403,
+          error: "Forbidden",
+          message: error.message || "Email address is not verified",
+          details: { userId: error.userId },
+        };
+      case "UserSuspendedError":
+        return {
+          status: 403,
+          error: "Forbidden",
+          message: error.message || "Account is suspended",
+          details: { userId: error.userId },
+        };
+
+      // Locked (423)
+      case "AccountLockedError":
+        return {
+          status: 423,
+          error: "Locked",
+          message: error.message || "Account is temporarily locked",
+          details: { lockedUntil: error.lockedUntil },
+        };
+
+      // Too Many Requests (429)
+      case "LoginThrottledError":
+        return {
+          status: 429,
+          error: "Too Many Requests",
+          message: error.message || "Too many failed logins",
+          details: { retryAfter: error.retryAfter },
+        };
 
       // Bad Request (400) - Validation Errors
       case "UserValidationError":
@@ -279,6 +563,62 @@ export const mapErrorToStatus = (
           message: sanitizeValidationError(error.message),
           field: error.field,
         };
+      case "FolderValidationError":
+        return {
+          status: 400,
+          error: "Bad Request",
+          message: sanitizeValidationError(error.message),
+          field: error.field,
+        };
+      case "UploadSessionValidationError":
+        return {
+          status: 400,
+          error: "Bad Request",
+          message: sanitizeValidationError(error.message),
+          field: error.field,
+        };
+      case "UploadTicketValidationError":
+        return {
+          status: 400,
+          error: "Bad Request",
+          message: sanitizeValidationError(error.message),
+          field: error.field,
+        };
+      case "GroupValidationError":
+        return {
+          status: 400,
+          error: "Bad Request",
+          message: sanitizeValidationError(error.message),
+          field: error.field,
+        };
+      case "AuditValidationError":
+        return {
+          status: 400,
+          error: "Bad Request",
+          message: error.message,
+          field: error.field,
+        };
+      case "AccessTokenValidationError":
+        return {
+          status: 400,
+          error: "Bad Request",
+          message: sanitizeValidationError(error.message),
+          field: error.field,
+        };
+      case "MfaValidationError":
+        return {
+          status: 400,
+          error: "Bad Request",
+          message: sanitizeValidationError(error.message),
+          field: error.field,
+        };
+      // An unknown, used or expired mailed link is reported alike
+      case "AccountTokenInvalidError":
+        return {
+          status: 400,
+          error: "Bad Request",
+          message: error.message,
+        };
 
       // Constraint Errors (422)
       case "UserConstraintError":
@@ -305,6 +645,60 @@ export const mapErrorToStatus = (
           error: "Unprocessable Entity",
           message: error.message,
         };
+      case "FolderConstraintError":
+        return {
+          status: 422,
+          error: "Unprocessable Entity",
+          message: error.message,
+        };
+      case "UploadSessionConstraintError":
+        return {
+          status: 422,
+          error: "Unprocessable Entity",
+          message: error.message,
+        };
+      case "UploadTicketConstraintError":
+        return {
+          status: 422,
+          error: "Unprocessable Entity",
+          message: error.message,
+        };
+      case "GroupConstraintError":
+        return {
+          status: 422,
+          error: "Unprocessable Entity",
+          message: error.message,
+        };
+      case "SessionConstraintError":
+        return {
+          status: 422,
+          error: "Unprocessable Entity",
+          message: error.message,
+        };
+      case "AccessTokenConstraintError":
+        return {
+          status: 422,
+          error: "Unprocessable Entity",
+          message: error.message,
+        };
+      case "MfaConstraintError":
+        return {
+          status: 422,
+          error: "Unprocessable Entity",
+          message: error.message,
+        };
+      case "LoginThrottleConstraintError":
+        return {
+          status: 422,
+          error: "Unprocessable Entity",
+          message: error.message,
+        };
+      case "AccountTokenConstraintError":
+        return {
+          status: 422,
+          error: "Unprocessable Entity",
+          message: error.message,
+        };
 
       // Storage Errors (500)
       case "DocumentStorageError":
@@ -321,6 +715,12 @@ export const mapErrorToStatus = (
           error: "Internal Server Error",
           message: error.message,
         };
+      case "AuditInfrastructureError":
+        return {
+          status: 500,
+          error: "Internal Server Error",
+          message: error.message,
+        };
 
       // Schema Validation Errors (400)
       case "ParseError":
@@ -432,3 +832,16 @@ export const toHttpError = (
 ): Effect.Effect<never, HttpErrorResponse> => {
   return Effect.fail(mapErrorToStatus(error));
 };
+
+/**
+ * Seconds a client should wait before retrying, for throttled and locked
+ * responses (value of the Retry-After header)
+ */
+export const retryAfterSeconds = (
+  error: HttpErrorResponse
+): number | undefined => {
+  const until = error.details?.retryAfter ?? error.details?.lockedUntil;
+  return until instanceof Date
+    ? Math.max(1, Math.ceil((until.getTime() - Date.now()) / 1000))
+    : undefined;
+};
@@ -0,0 +1,85 @@
+/**
+ * HTTP Range Utilities
+ *
+ * Helpers for serving partial content (RFC 9110 Range / If-Range)
+ */
+
+import type { ByteRange } from "../../../application/ports/storage.port";
+
+/**
+ * Outcome of evaluating a Range header against a representation
+ */
+export type RangeResolution =
+  | { readonly _tag: "Full" }
+  | { readonly _tag: "Partial"; readonly range: ByteRange }
+  | { readonly _tag: "Unsatisfiable" };
+
+const FULL: RangeResolution = { _tag: "Full" };
+
+/**
+ * Resolve a single "bytes=" range against the file size
+ * Malformed and multi-range headers are ignored (full response), as the
+ * RFC allows
+ */
+export const resolveRange = (
+  rangeHeader: string | undefined,
+  size: number
+): RangeResolution => {
+  const match = rangeHeader?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match) return FULL;
+
+  const [, first, last] = match;
+  if (!first && !last) return FULL;
+
+  // Suffix range: the final N bytes
+  if (!first) {
+    const suffixLength = Number(last);
+    if (suffixLength === 0 || size === 0) return { _tag: "Unsatisfiable" };
+    return {
+      _tag: "Partial",
+      range: { start: Math.max(size - suffixLength, 0), end: size - 1 },
+    };
+  }
+
+  const start = Number(first);
+  const end = last ? Math.min(Number(last), size - 1) : size - 1;
+  if (start >= size) return { _tag: "Unsatisfiable" };
+  if (end < start) return FULL;
+
+  return { _tag: "Partial", range: { start, end } };
+};
+
+/**
+ * First byte position of a single "bytes=N-" or "bytes=N-M" range
+ * Suffix, multi-range and malformed headers have no fixed start
+ */
+export const rangeStart = (
+  rangeHeader: string | undefined
+): number | undefined => {
+  const match = rangeHeader?.trim().match(/^bytes=(\d+)-\d*$/);
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Check whether an If-Range validator still matches the representation
+ * Only strong ETags or the exact Last-Modified date count as a match
+ */
+export const ifRangeMatches = (
+  ifRange: string | undefined,
+  etag: string,
+  lastModified: string
+): boolean =>
+  ifRange === undefined || ifRange === etag || ifRange === lastModified;
+
+/**
+ * Check an If-None-Match header against an ETag (weak comparison)
+ */
+export const ifNoneMatchMatches = (
+  ifNoneMatch: string | undefined,
+  etag: string
+): boolean =>
+  ifNoneMatch !== undefined &&
+  ifNoneMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
@@ -0,0 +1,61 @@
+/**
+ * Audit Chain Verification CLI
+ *
+ * Walks the document audit hash chains straight from the database and
+ * reports the first broken link.
+ *
+ * Usage: bun run audit:verify [--document <documentId>]
+ * Exit code: 0 when every chain verifies, 1 on a broken link, 2 on error
+ */
+
+import { Effect, Layer, Option, pipe } from "effect";
+import { AuditRepositoryTag } from "../app/domain/audit/repository";
+import type { DocumentId } from "../app/domain/refined/uuid";
+import { AuditRepositoryLive } from "../app/infrastructure/repositories/audit-repository.impl";
+import { DrizzleServiceLive } from "../app/infrastructure/services/drizzle-service";
+
+/**
+ * Value of --document, if given
+ */
+const documentArg = (args: readonly string[]): Option.Option<DocumentId> =>
+  pipe(
+    Option.some(args.indexOf("--document")),
+    Option.filter((index) => index >= 0),
+    Option.flatMap((index) => Option.fromNullable(args[index + 1])),
+    Option.map((id) => id as DocumentId)
+  );
+
+const program = pipe(
+  AuditRepositoryTag,
+  Effect.flatMap((auditRepo) =>
+    auditRepo.verifyChain(documentArg(process.argv.slice(2)))
+  ),
+  Effect.map((verification) =>
+    Option.match(verification.brokenLink, {
+      onNone: () => {
+        console.log(
+          `Audit chain intact: ${verification.entriesChecked} entries across ${verification.documentsChecked} document(s)`
+        );
+        return 0;
+      },
+      onSome: (brokenLink) => {
+        const chain =
+          brokenLink.documentId === null
+            ? "the chain without a document"
+            : `document ${brokenLink.documentId}`;
+        console.error(
+          `Audit chain broken at ${chain}, entry ${brokenLink.entryId} (sequence ${brokenLink.sequence}): ${brokenLink.reason}`
+        );
+        return 1;
+      },
+    })
+  ),
+  Effect.provide(Layer.provide(AuditRepositoryLive, DrizzleServiceLive))
+);
+
+Effect.runPromise(program)
+  .then((exitCode) => process.exit(exitCode))
+  .catch((error) => {
+    console.error("❌ Audit chain verification failed:", error);
+    process.exit(2);
+  });
@@ -4,8 +4,23 @@
  * Starts the Elysia HTTP server with all dependencies wired together
  */
 
-import { Effect, Runtime, Layer, ConfigProvider, ManagedRuntime } from "effect";
-import { AppLayer } from "./app/bootstrap";
+import {
+  Effect,
+  Runtime,
+  Layer,
+  ConfigProvider,
+  ManagedRuntime,
+  Schedule,
+  Duration,
+  pipe,
+} from "effect";
+import {
+  AppLayer,
+  DocumentWorkflowTag,
+  PermissionWorkflowTag,
+  UploadSessionWorkflowTag,
+  UploadTicketWorkflowTag,
+} from "./app/bootstrap";
 import { startServer } from "./app/presentation/http/server";
 import { loadServerConfig } from "./app/infrastructure/config/server.config";
 
@@ -25,6 +40,86 @@ console.log("Config loaded:", {
  */
 const managedRuntime = ManagedRuntime.make(AppLayer as any);
 
+/**
+ * Periodically purge trashed documents past their retention period
+ */
+const trashPurgeJob = pipe(
+  DocumentWorkflowTag,
+  Effect.flatMap((workflow) => workflow.purgeExpiredTrash()),
+  Effect.tap(({ purgedCount }) =>
+    purgedCount > 0
+      ? Effect.log(`Purged ${purgedCount} document(s) from the trash`)
+      : Effect.void
+  ),
+  Effect.catchAll((error) => Effect.logError("Trash purge failed", error)),
+  Effect.repeat(
+    Schedule.spaced(Duration.minutes(config.trashPurgeIntervalMinutes))
+  )
+);
+
+/**
+ * Drop expired upload sessions and their partial files
+ */
+const uploadSessionCleanup = pipe(
+  UploadSessionWorkflowTag,
+  Effect.flatMap((workflow) => workflow.purgeExpiredUploadSessions()),
+  Effect.tap(({ deletedCount }) =>
+    deletedCount > 0
+      ? Effect.log(`Removed ${deletedCount} expired upload session(s)`)
+      : Effect.void
+  ),
+  Effect.catchAll((error) =>
+    Effect.logError("Upload session cleanup failed", error)
+  )
+);
+
+/**
+ * Drop expired upload tickets
+ */
+const uploadTicketCleanup = pipe(
+  UploadTicketWorkflowTag,
+  Effect.flatMap((workflow) => workflow.purgeExpiredUploadTickets()),
+  Effect.tap(({ deletedCount }) =>
+    deletedCount > 0
+      ? Effect.log(`Removed ${deletedCount} expired upload ticket(s)`)
+      : Effect.void
+  ),
+  Effect.catchAll((error) =>
+    Effect.logError("Upload ticket cleanup failed", error)
+  )
+);
+
+/**
+ * Periodically clean up abandoned uploads; each step runs even when the
+ * other fails
+ */
+const uploadCleanupJob = pipe(
+  uploadSessionCleanup,
+  Effect.zipRight(uploadTicketCleanup),
+  Effect.repeat(
+    Schedule.spaced(Duration.minutes(config.uploadCleanupIntervalMinutes))
+  )
+);
+
+/**
+ * Periodically remove permissions past their expiry date
+ */
+const permissionExpiryJob = pipe(
+  PermissionWorkflowTag,
+  Effect.flatMap((workflow) => workflow.purgeExpiredPermissions()),
+  Effect.tap(({ deletedCount }) =>
+    deletedCount > 0
+      ? Effect.log(`Removed ${deletedCount} expired permission(s)`)
+      : Effect.void
+  ),
+  Effect.catchAll((error) =>
+    Effect.logError("Permission expiry cleanup failed", error)
+  ),
+  Effect.repeat(
+    Schedule.spaced(Duration.minutes(config.permissionExpiryIntervalMinutes))
+  )
+);
+
 /**
  * Build and start the server
  */
@@ -35,6 +130,17 @@ const program = Effect.promise(async () => {
   // Start HTTP server
   startServer(runtime, config.port);
 
+  // Start background trash purge
+  managedRuntime.runFork(trashPurgeJob as Effect.Effect<any, never, any>);
+
+  // Start background cleanup of abandoned uploads
+  managedRuntime.runFork(uploadCleanupJob as Effect.Effect<any, never, any>);
+
+  // Start background removal of expired permissions
+  managedRuntime.runFork(
+    permissionExpiryJob as Effect.Effect<any, never, any>
+  );
+
   // Keep the process alive - block forever
   await new Promise(() => {});
 });
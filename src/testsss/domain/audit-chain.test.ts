@@ -0,0 +1,74 @@
+/**
+ * Audit Chain Tests
+ *
+ * Tests for hashing audit entries and finding broken links
+ */
+
+import { describe, test, expect } from "bun:test";
+import { Option } from "effect";
+import {
+  GENESIS_HASH,
+  computeAuditHash,
+  findBrokenLink,
+  type AuditChainEntry,
+} from "../../app/domain/audit/chain";
+
+const makeChain = (actions: readonly string[]): AuditChainEntry[] =>
+  actions.reduce<AuditChainEntry[]>((chain, action, index) => {
+    const link = {
+      id: `entry-${index + 1}`,
+      documentId: "doc-1",
+      sequence: index + 1,
+      action,
+      performedBy: "user-1",
+      details: "",
+      beforeValue: null,
+      afterValue: JSON.stringify({ action }),
+      correlationId: "corr-1",
+      performedAt: "2024-01-01 10:00:00",
+      prevHash: chain[index - 1]?.hash ?? GENESIS_HASH,
+    };
+    return [...chain, { ...link, hash: computeAuditHash(link) }];
+  }, []);
+
+describe("Audit Chain", () => {
+  test("should accept an intact chain", () => {
+    const chain = makeChain(["created", "updated", "shared"]);
+
+    expect(Option.isNone(findBrokenLink(chain))).toBe(true);
+  });
+
+  test("should detect an edited entry", () => {
+    const chain = makeChain(["created", "updated", "shared"]);
+    const tampered = chain.map((entry) =>
+      entry.sequence === 2 ? { ...entry, action: "viewed" } : entry
+    );
+
+    const brokenLink = Option.getOrThrow(findBrokenLink(tampered));
+    expect(brokenLink.entryId).toBe("entry-2");
+    expect(brokenLink.reason).toBe("HASH_MISMATCH");
+  });
+
+  test("should detect a deleted entry", () => {
+    const chain = makeChain(["created", "updated", "shared"]);
+    const tampered = chain.filter((entry) => entry.sequence !== 2);
+
+    const brokenLink = Option.getOrThrow(findBrokenLink(tampered));
+    expect(brokenLink.entryId).toBe("entry-3");
+    expect(brokenLink.reason).toBe("SEQUENCE_GAP");
+  });
+
+  test("should detect a rehashed entry that no longer links back", () => {
+    const chain = makeChain(["created", "updated", "shared"]);
+    const forged = { ...chain[1], action: "viewed" };
+    const tampered = [
+      chain[0],
+      { ...forged, hash: computeAuditHash(forged) },
+      chain[2],
+    ];
+
+    const brokenLink = Option.getOrThrow(findBrokenLink(tampered));
+    expect(brokenLink.entryId).toBe("entry-3");
+    expect(brokenLink.reason).toBe("PREVIOUS_HASH_MISMATCH");
+  });
+});
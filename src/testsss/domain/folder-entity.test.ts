@@ -0,0 +1,88 @@
+/**
+ * Folder Entity Tests
+ *
+ * Tests for Folder entity, name validation and tree guards
+ */
+
+import { describe, test, expect } from "bun:test";
+import { Effect, Option } from "effect";
+import { makeFolderName } from "../../app/domain/folder/value-object";
+import { FolderEntity } from "../../app/domain/folder/entity";
+import {
+  guardNotMovingIntoSelf,
+  isSameParent,
+} from "../../app/domain/folder/guards";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+
+const makeFolder = (name: string, parentId?: string) =>
+  Effect.runPromise(
+    FolderEntity.create({
+      id: UuidGenerators.folderId(),
+      name,
+      parentId,
+      ownerId: UuidGenerators.userId(),
+    })
+  );
+
+describe("Folder Value Objects", () => {
+  test("should create valid folder name", async () => {
+    const result = await Effect.runPromise(makeFolderName("Invoices"));
+    expect(String(result)).toBe("Invoices");
+  });
+
+  test("should reject names with path separators or dot segments", async () => {
+    for (const name of ["", "a/b", "a\\b", ".", ".."]) {
+      const result = await Effect.runPromise(
+        Effect.either(makeFolderName(name))
+      );
+      expect(result._tag).toBe("Left");
+    }
+  });
+});
+
+describe("Folder Entity", () => {
+  test("should create a root folder with a trimmed name", async () => {
+    const folder = await makeFolder("  Reports  ");
+    expect(String(folder.name)).toBe("Reports");
+    expect(folder.isRoot()).toBe(true);
+  });
+
+  test("should move a folder under a new parent", async () => {
+    const parent = await makeFolder("Parent");
+    const child = await makeFolder("Child");
+    const moved = child.moveTo(Option.some(parent.id));
+
+    expect(moved.isRoot()).toBe(false);
+    expect(Option.getOrNull(moved.parentId)).toBe(parent.id);
+    expect(moved.id).toBe(child.id);
+  });
+});
+
+describe("Folder Guards", () => {
+  test("should reject moving a folder into its own subtree", async () => {
+    const root = await makeFolder("Root");
+    const child = await makeFolder("Child", root.id);
+
+    const result = await Effect.runPromise(
+      Effect.either(guardNotMovingIntoSelf(root.id, [root, child]))
+    );
+    expect(result._tag).toBe("Left");
+  });
+
+  test("should allow moving a folder into an unrelated branch", async () => {
+    const folder = await makeFolder("Folder");
+    const other = await makeFolder("Other");
+
+    const result = await Effect.runPromise(
+      Effect.either(guardNotMovingIntoSelf(folder.id, [other]))
+    );
+    expect(result._tag).toBe("Right");
+  });
+
+  test("should compare optional parents", () => {
+    const id = UuidGenerators.folderId();
+    expect(isSameParent(Option.none(), Option.none())).toBe(true);
+    expect(isSameParent(Option.some(id), Option.some(id))).toBe(true);
+    expect(isSameParent(Option.some(id), Option.none())).toBe(false);
+  });
+});
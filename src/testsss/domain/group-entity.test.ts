@@ -0,0 +1,63 @@
+/**
+ * Group Entity Tests
+ *
+ * Tests for Group entity, membership changes and group guards
+ */
+
+import { describe, test, expect } from "bun:test";
+import { Effect } from "effect";
+import { GroupEntity } from "../../app/domain/group/entity";
+import { guardRemovableMember } from "../../app/domain/group/guards";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+
+const makeGroup = (name: string) =>
+  Effect.runPromise(
+    GroupEntity.create({
+      id: UuidGenerators.groupId(),
+      name,
+      ownerId: UuidGenerators.userId(),
+    })
+  );
+
+describe("Group Entity", () => {
+  test("should create a group with the owner as its first member", async () => {
+    const group = await makeGroup("  Finance  ");
+
+    expect(String(group.name)).toBe("Finance");
+    expect(group.memberIds).toEqual([group.ownerId]);
+  });
+
+  test("should reject an empty group name", async () => {
+    const result = await Effect.runPromise(
+      Effect.either(
+        GroupEntity.create({
+          id: UuidGenerators.groupId(),
+          name: "   ",
+          ownerId: UuidGenerators.userId(),
+        })
+      )
+    );
+    expect(result._tag).toBe("Left");
+  });
+
+  test("should add and remove members", async () => {
+    const group = await makeGroup("Legal");
+    const memberId = UuidGenerators.userId();
+
+    const withMember = group.addMember(memberId);
+    expect(withMember.hasMember(memberId)).toBe(true);
+    expect(withMember.addMember(memberId).memberIds).toHaveLength(2);
+
+    const withoutMember = withMember.removeMember(memberId);
+    expect(withoutMember.hasMember(memberId)).toBe(false);
+  });
+
+  test("should not allow removing the owner", async () => {
+    const group = await makeGroup("Sales");
+
+    const result = await Effect.runPromise(
+      Effect.either(guardRemovableMember(group, group.ownerId))
+    );
+    expect(result._tag).toBe("Left");
+  });
+});
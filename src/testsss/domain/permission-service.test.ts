@@ -13,18 +13,21 @@ import {
   requireReadPermission,
   requireWritePermission,
   requireDeletePermission,
+  explainAccess,
 } from "../../app/domain/permission/service";
-import { Effect } from "effect";
+import { Effect, Option } from "effect";
 import {
   resetFactories,
   makeTestUser,
   makeTestAdmin,
   makeTestDocument,
   makeTestPermission,
+  testUuid,
 } from "../factories";
 import type { User } from "../../app/domain/user/entity";
 import type { Document } from "../../app/domain/document/entity";
 import type { DocumentPermission } from "../../app/domain/permission/entity";
+import type { GroupId } from "../../app/domain/refined/uuid";
 
 describe("DocumentAccessService", () => {
   beforeEach(() => {
@@ -68,7 +71,9 @@ describe("DocumentAccessService", () => {
         permission: "READ",
       });
 
-      expect(hasExplicitPermission([permission], user.id, "READ")).toBe(true);
+      expect(
+        hasExplicitPermission([permission], user.id, [], "READ")
+      ).toBe(true);
     });
 
     test("should return true when user has higher permission (WRITE implies READ)", () => {
@@ -78,7 +83,9 @@ describe("DocumentAccessService", () => {
         permission: "WRITE",
       });
 
-      expect(hasExplicitPermission([permission], user.id, "READ")).toBe(true);
+      expect(
+        hasExplicitPermission([permission], user.id, [], "READ")
+      ).toBe(true);
     });
 
     test("should return true when user has DELETE permission (highest)", () => {
@@ -89,9 +96,15 @@ describe("DocumentAccessService", () => {
       });
 
       // DELETE implies WRITE and READ
-      expect(hasExplicitPermission([permission], user.id, "READ")).toBe(true);
-      expect(hasExplicitPermission([permission], user.id, "WRITE")).toBe(true);
-      expect(hasExplicitPermission([permission], user.id, "DELETE")).toBe(true);
+      expect(
+        hasExplicitPermission([permission], user.id, [], "READ")
+      ).toBe(true);
+      expect(
+        hasExplicitPermission([permission], user.id, [], "WRITE")
+      ).toBe(true);
+      expect(
+        hasExplicitPermission([permission], user.id, [], "DELETE")
+      ).toBe(true);
     });
 
     test("should return false when user has lower permission", () => {
@@ -101,10 +114,12 @@ describe("DocumentAccessService", () => {
         permission: "READ",
       });
 
-      expect(hasExplicitPermission([permission], user.id, "WRITE")).toBe(false);
-      expect(hasExplicitPermission([permission], user.id, "DELETE")).toBe(
-        false
-      );
+      expect(
+        hasExplicitPermission([permission], user.id, [], "WRITE")
+      ).toBe(false);
+      expect(
+        hasExplicitPermission([permission], user.id, [], "DELETE")
+      ).toBe(false);
     });
 
     test("should return false when user has no permissions", () => {
@@ -115,7 +130,9 @@ describe("DocumentAccessService", () => {
         permission: "READ",
       });
 
-      expect(hasExplicitPermission([permission], user.id, "READ")).toBe(false);
+      expect(
+        hasExplicitPermission([permission], user.id, [], "READ")
+      ).toBe(false);
     });
 
     test("should handle multiple permissions for same user", () => {
@@ -125,7 +142,64 @@ describe("DocumentAccessService", () => {
         makeTestPermission({ userId: user.id, permission: "WRITE" }),
       ];
 
-      expect(hasExplicitPermission(permissions, user.id, "WRITE")).toBe(true);
+      expect(
+        hasExplicitPermission(permissions, user.id, [], "WRITE")
+      ).toBe(true);
+    });
+
+    test("should return true when a group the user belongs to has permission", () => {
+      const user = makeTestUser();
+      const groupId = testUuid("group") as GroupId;
+      const permission = makeTestPermission({
+        groupId,
+        permission: "WRITE",
+      });
+
+      expect(
+        hasExplicitPermission([permission], user.id, [groupId], "READ")
+      ).toBe(true);
+      expect(
+        hasExplicitPermission([permission], user.id, [groupId], "DELETE")
+      ).toBe(false);
+    });
+
+    test("should return false when the user is not in the granted group", () => {
+      const user = makeTestUser();
+      const permission = makeTestPermission({
+        groupId: testUuid("group"),
+        permission: "READ",
+      });
+
+      expect(
+        hasExplicitPermission([permission], user.id, [], "READ")
+      ).toBe(false);
+    });
+
+    test("should ignore expired permissions", () => {
+      const user = makeTestUser();
+      const permission = makeTestPermission({
+        userId: user.id,
+        permission: "WRITE",
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      expect(permission.isExpired()).toBe(true);
+      expect(
+        hasExplicitPermission([permission], user.id, [], "READ")
+      ).toBe(false);
+    });
+
+    test("should honour permissions that have not expired yet", () => {
+      const user = makeTestUser();
+      const permission = makeTestPermission({
+        userId: user.id,
+        permission: "READ",
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      });
+
+      expect(
+        hasExplicitPermission([permission], user.id, [], "READ")
+      ).toBe(true);
     });
   });
 
@@ -314,7 +388,9 @@ describe("DocumentAccessService", () => {
       const document = makeTestDocument();
       const permissions: DocumentPermission[] = [];
 
-      expect(getHighestPermission(admin, document, permissions)).toBe("DELETE");
+      expect(
+        getHighestPermission(admin, document, permissions, [])
+      ).toBe("DELETE");
     });
 
     test("should return DELETE for document owner", () => {
@@ -322,7 +398,9 @@ describe("DocumentAccessService", () => {
       const document = makeTestDocument({ uploadedBy: owner.id });
       const permissions: DocumentPermission[] = [];
 
-      expect(getHighestPermission(owner, document, permissions)).toBe("DELETE");
+      expect(
+        getHighestPermission(owner, document, permissions, [])
+      ).toBe("DELETE");
     });
 
     test("should return highest explicit permission", () => {
@@ -336,7 +414,7 @@ describe("DocumentAccessService", () => {
           permission: "READ",
         }),
       ];
-      expect(getHighestPermission(user, document, readPerms)).toBe("READ");
+      expect(getHighestPermission(user, document, readPerms, [])).toBe("READ");
 
       const writePerms: DocumentPermission[] = [
         makeTestPermission({
@@ -345,7 +423,9 @@ describe("DocumentAccessService", () => {
           permission: "WRITE",
         }),
       ];
-      expect(getHighestPermission(user, document, writePerms)).toBe("WRITE");
+      expect(
+        getHighestPermission(user, document, writePerms, [])
+      ).toBe("WRITE");
 
       const deletePerms: DocumentPermission[] = [
         makeTestPermission({
@@ -354,7 +434,9 @@ describe("DocumentAccessService", () => {
           permission: "DELETE",
         }),
       ];
-      expect(getHighestPermission(user, document, deletePerms)).toBe("DELETE");
+      expect(
+        getHighestPermission(user, document, deletePerms, [])
+      ).toBe("DELETE");
     });
 
     test("should return null when user has no permissions", () => {
@@ -362,7 +444,7 @@ describe("DocumentAccessService", () => {
       const document = makeTestDocument();
       const permissions: DocumentPermission[] = [];
 
-      expect(getHighestPermission(user, document, permissions)).toBe(null);
+      expect(getHighestPermission(user, document, permissions, [])).toBe(null);
     });
 
     test("should return highest when multiple permissions exist", () => {
@@ -386,7 +468,9 @@ describe("DocumentAccessService", () => {
         }),
       ];
 
-      expect(getHighestPermission(user, document, permissions)).toBe("DELETE");
+      expect(
+        getHighestPermission(user, document, permissions, [])
+      ).toBe("DELETE");
     });
   });
 
@@ -478,4 +562,79 @@ describe("DocumentAccessService", () => {
       expect(result2).toBe(result3);
     });
   });
+
+  describe("explainAccess", () => {
+    test("should stop at the admin rule for admins", () => {
+      const admin = makeTestAdmin();
+      const document = makeTestDocument();
+
+      const explanation = explainAccess(admin, document, [], [], "DELETE");
+
+      expect(explanation.granted).toBe(true);
+      expect(explanation.matchedRule).toBe("ADMIN");
+      expect(explanation.rules.map((r) => r.rule)).toEqual(["ADMIN"]);
+    });
+
+    test("should report the matching grant and why earlier rules failed", () => {
+      const user = makeTestUser();
+      const document = makeTestDocument();
+      const groupId = testUuid("group") as GroupId;
+      const readGrant = makeTestPermission({
+        documentId: document.id,
+        userId: user.id,
+        permission: "READ",
+      });
+      const writeGrant = makeTestPermission({
+        documentId: document.id,
+        groupId,
+        permission: "WRITE",
+      });
+
+      const explanation = explainAccess(
+        user,
+        document,
+        [readGrant, writeGrant],
+        [groupId],
+        "READ"
+      );
+
+      expect(explanation.granted).toBe(true);
+      expect(explanation.matchedRule).toBe("EXPLICIT_GRANT");
+      expect(Option.getOrNull(explanation.matchedGrant)).toBe(writeGrant);
+      expect(explanation.rules.map((r) => r.matched)).toEqual([
+        false,
+        false,
+        true,
+      ]);
+      expect(explanation.grants.map((g) => g.via)).toEqual(["USER", "GROUP"]);
+      expect(explanation.grants[1].grantedLevel).toBe(2);
+      expect(explanation.grants[1].requiredLevel).toBe(1);
+    });
+
+    test("should deny and flag expired grants", () => {
+      const user = makeTestUser();
+      const document = makeTestDocument();
+      const expiredGrant = makeTestPermission({
+        documentId: document.id,
+        userId: user.id,
+        permission: "DELETE",
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      const explanation = explainAccess(
+        user,
+        document,
+        [expiredGrant],
+        [],
+        "READ"
+      );
+
+      expect(explanation.granted).toBe(false);
+      expect(explanation.matchedRule).toBe("DEFAULT_DENY");
+      expect(Option.isNone(explanation.matchedGrant)).toBe(true);
+      expect(explanation.grants[0].expired).toBe(true);
+      expect(explanation.grants[0].sufficient).toBe(false);
+      expect(explanation.rules).toHaveLength(4);
+    });
+  });
 });
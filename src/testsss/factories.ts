@@ -8,7 +8,12 @@ import { Effect, Option } from "effect";
 import { v4 as uuid } from "uuid";
 import type { User } from "../app/domain/user/entity";
 import type { Document, DocumentVersion } from "../app/domain/document/entity";
-import type { DocumentPermission } from "../app/domain/permission/entity";
+import {
+  DocumentPermissionEntity,
+  type SerializedDocumentPermission,
+} from "../app/domain/permission/entity";
+import type { PermissionType } from "../app/domain/permission/value-object";
+import { normalizeMaybe } from "../app/domain/shared/base-entity";
 import type { DocumentMetadata } from "../app/domain/metedata/entity";
 import type { DownloadToken } from "../app/domain/download-token/entity";
 import type {
@@ -16,6 +21,7 @@ import type {
   DocumentId,
   DocumentVersionId,
   DownloadTokenId,
+  GroupId,
 } from "../app/domain/refined/uuid";
 import type { PermissionId } from "../app/domain/permission/entity";
 import type { MetadataId } from "../app/domain/metedata/entity";
@@ -134,22 +140,23 @@ export function makeTestDocumentVersion(
  * Create a test document permission
  */
 export function makeTestPermission(
-  overrides?: Partial<DocumentPermission>
-): DocumentPermission {
-  const id = testUuid("perm") as PermissionId;
-  const docId = testUuid("doc") as DocumentId;
-  const userId = testUuid("user") as UserId;
-  const grantedBy = testUuid("admin") as UserId;
-
-  return {
-    id,
-    documentId: docId,
+  overrides?: Partial<SerializedDocumentPermission>
+): DocumentPermissionEntity {
+  const groupId = normalizeMaybe(overrides?.groupId as GroupId | undefined);
+  const userId = Option.isSome(groupId)
+    ? Option.none<UserId>()
+    : Option.some((overrides?.userId ?? testUuid("user")) as UserId);
+
+  return new DocumentPermissionEntity(
+    (overrides?.id ?? testUuid("perm")) as PermissionId,
+    (overrides?.documentId ?? testUuid("doc")) as DocumentId,
     userId,
-    permission: "READ",
-    grantedBy,
-    grantedAt: new Date() as any,
-    ...overrides,
-  };
+    groupId,
+    (overrides?.permission ?? "READ") as PermissionType,
+    (overrides?.grantedBy ?? testUuid("admin")) as UserId,
+    overrides?.grantedAt ?? new Date(),
+    normalizeMaybe(overrides?.expiresAt)
+  );
 }
 
 /**
@@ -198,6 +205,8 @@ export function makeRawDbUser(overrides?: Partial<any>): any {
     email: `user-${id}@example.com`,
     password: "$2a$10$abcdefghijklmnopqrstuv",
     role: "USER",
+    email_verified_at: new Date().toISOString(),
+    suspended_at: null,
     created_at: Math.floor(Date.now() / 1000),
     updated_at: Math.floor(Date.now() / 1000),
     ...overrides,
@@ -567,7 +576,7 @@ export class DocumentBuilder {
 export class TestScenarioBuilder {
   private users: User[] = [];
   private documents: Document[] = [];
-  private permissions: DocumentPermission[] = [];
+  private permissions: DocumentPermissionEntity[] = [];
   private metadata: DocumentMetadata[] = [];
 
   static create(): TestScenarioBuilder {
@@ -589,7 +598,7 @@ export class TestScenarioBuilder {
     return this;
   }
 
-  addPermission(permission?: Partial<DocumentPermission>): this {
+  addPermission(permission?: Partial<SerializedDocumentPermission>): this {
     this.permissions.push(makeTestPermission(permission));
     return this;
   }
@@ -623,7 +632,7 @@ export class TestScenarioBuilder {
     owner: User;
     collaborator: User;
     document: Document;
-    permission: DocumentPermission;
+    permission: DocumentPermissionEntity;
     scenario: TestScenarioBuilder;
   } {
     const owner = makeTestUser();
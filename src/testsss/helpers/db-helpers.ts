@@ -16,18 +16,22 @@ import type { UserId, DocumentId } from "../../app/domain/refined/uuid";
 
 /**
  * Seed a user into the database
+ * Seeded users have a verified email unless email_verified_at is null,
+ * and are active unless suspended_at is set
  */
 export function seedUser(db: TestDatabase, user?: Partial<any>): any {
   const rawUser = makeRawDbUser(user);
   const sqlite = db.$client;
 
   sqlite.run(
-    `INSERT INTO users (id, email, password, role, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO users (id, email, password, role, email_verified_at, suspended_at, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
     rawUser.id,
     rawUser.email,
     rawUser.password,
     rawUser.role,
+    rawUser.email_verified_at,
+    rawUser.suspended_at,
     rawUser.created_at,
     rawUser.updated_at
   );
@@ -127,14 +131,13 @@ export function seedMetadata(db: TestDatabase, metadata?: Partial<any>): any {
   const sqlite = db.$client;
 
   sqlite.run(
-    `INSERT INTO metadata (id, document_id, key, value, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO document_metadata (id, document_id, key, value, created_at)
+     VALUES (?, ?, ?, ?, ?)`,
     rawMeta.id,
     rawMeta.document_id,
     rawMeta.key,
     rawMeta.value,
-    rawMeta.created_at,
-    rawMeta.updated_at
+    rawMeta.created_at
   );
 
   return rawMeta;
@@ -266,7 +269,7 @@ export function getMetadataForDocument(
 ): any[] {
   const sqlite = db.$client;
   return sqlite
-    .prepare("SELECT * FROM metadata WHERE document_id = ?")
+    .prepare("SELECT * FROM document_metadata WHERE document_id = ?")
     .all(documentId) as any[];
 }
 
@@ -4,7 +4,7 @@
  * Helpers for testing application workflows with dependency injection
  */
 
-import { Effect, Layer, Context } from "effect";
+import { Effect, Either, Layer, Context } from "effect";
 import type { TestDatabase } from "../setup";
 import { UserRepositoryTag } from "../../app/domain/user/repository";
 import { DocumentRepositoryTag } from "../../app/domain/document/repository";
@@ -87,3 +87,15 @@ export async function expectWorkflowError<E>(
     }
   }
 }
+
+/**
+ * Tag of the error a workflow failed with, or undefined when it succeeded
+ * Takes the result of Effect.either
+ */
+export function errorTag<A, E>(result: Either.Either<A, E>): string | undefined {
+  if (Either.isRight(result)) return undefined;
+  const error: unknown = result.left;
+  return typeof error === "object" && error !== null && "_tag" in error
+    ? String(error._tag)
+    : undefined;
+}
@@ -0,0 +1,201 @@
+/**
+ * Local Storage Adapter Tests
+ *
+ * Runs the local filesystem adapter against temporary directories, checking
+ * that uploads are hashed and size-limited while they stream to disk
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect } from "effect";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { LocalStorageAtLive } from "../../app/infrastructure/adapters/local-storage.adapter";
+import {
+  StoragePortTag,
+  type StoragePort,
+  type UploadedFile,
+} from "../../app/application/ports/storage.port";
+import { MAX_FILE_SIZE } from "../../app/domain/document/value-object";
+
+const sha256 = (content: string | Buffer) =>
+  crypto.createHash("sha256").update(content).digest("hex");
+
+// A file whose stream yields the given chunks one by one
+const chunkedFile = (
+  name: string,
+  chunks: Buffer[],
+  size = chunks.reduce((total, chunk) => total + chunk.length, 0)
+): UploadedFile => ({
+  name,
+  size,
+  type: "application/octet-stream",
+  arrayBuffer: () => Promise.reject(new Error("Upload was buffered")),
+  stream: () => {
+    let index = 0;
+    return new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (index < chunks.length) controller.enqueue(chunks[index++]);
+        else controller.close();
+      },
+    });
+  },
+});
+
+describe("Local Storage Adapter", () => {
+  let root: string;
+  let storageRoot: string;
+  let tempRoot: string;
+
+  const run = <A, E>(
+    use: (storage: StoragePort) => Effect.Effect<A, E>
+  ): Promise<A> =>
+    Effect.runPromise(
+      Effect.flatMap(StoragePortTag, use).pipe(
+        Effect.provide(LocalStorageAtLive(storageRoot, tempRoot))
+      )
+    );
+
+  const tempFiles = () =>
+    fs.existsSync(tempRoot) ? fs.readdirSync(tempRoot) : [];
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "local-storage-test-"));
+    storageRoot = path.join(root, "uploads");
+    tempRoot = path.join(root, "temp");
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("should store an upload with its checksum and size", async () => {
+    const blob = new Blob(["quarterly revenue grew"]);
+
+    const stored = await run((storage) =>
+      storage.storeUploadedFile(
+        {
+          name: "notes.txt",
+          size: blob.size,
+          type: "text/plain",
+          arrayBuffer: () => blob.arrayBuffer(),
+          stream: () => blob.stream(),
+        },
+        "doc-1",
+        "ver-1"
+      )
+    );
+
+    expect(stored.path).toBe(
+      path.join(storageRoot, "doc-1", "ver-1", "notes.txt")
+    );
+    expect(stored.size).toBe(22);
+    expect(stored.checksum).toBe(sha256("quarterly revenue grew"));
+    expect(stored.textContent).toBe("quarterly revenue grew");
+    expect(fs.readFileSync(stored.path, "utf8")).toBe("quarterly revenue grew");
+    expect(tempFiles()).toEqual([]);
+  });
+
+  test("should hash and count every chunk of a streamed upload", async () => {
+    const chunks = [1, 2, 3].map(() => crypto.randomBytes(64 * 1024));
+    const content = Buffer.concat(chunks);
+
+    const stored = await run((storage) =>
+      storage.storeUploadedFile(
+        chunkedFile("data.bin", chunks),
+        "doc-2",
+        "ver-1"
+      )
+    );
+
+    expect(stored.size).toBe(content.length);
+    expect(stored.checksum).toBe(sha256(content));
+    expect(fs.readFileSync(stored.path).equals(content)).toBe(true);
+  });
+
+  test("should store markup with entities beyond the last code point", async () => {
+    const blob = new Blob(["<p>a &#x110000; b</p>"]);
+
+    const stored = await run((storage) =>
+      storage.storeUploadedFile(
+        {
+          name: "page.html",
+          size: blob.size,
+          type: "text/html",
+          arrayBuffer: () => blob.arrayBuffer(),
+          stream: () => blob.stream(),
+        },
+        "doc-6",
+        "ver-1"
+      )
+    );
+
+    expect(stored.textContent).toBe("a &#x110000; b");
+    expect(fs.existsSync(stored.path)).toBe(true);
+  });
+
+  test("should read files without a stream in one piece", async () => {
+    const blob = new Blob(["fallback"]);
+
+    const stored = await run((storage) =>
+      storage.storeUploadedFile(
+        {
+          name: "plain.txt",
+          size: blob.size,
+          type: "text/plain",
+          arrayBuffer: () => blob.arrayBuffer(),
+        },
+        "doc-3",
+        "ver-1"
+      )
+    );
+
+    expect(stored.size).toBe(8);
+    expect(stored.checksum).toBe(sha256("fallback"));
+  });
+
+  test("should reject an upload declared larger than the limit unread", async () => {
+    const file: UploadedFile = {
+      ...chunkedFile("huge.bin", []),
+      size: MAX_FILE_SIZE + 1,
+      stream: () => {
+        throw new Error("Upload was read");
+      },
+    };
+
+    await expect(
+      run((storage) => storage.storeUploadedFile(file, "doc-4", "ver-1"))
+    ).rejects.toThrow("File size cannot exceed");
+    expect(fs.existsSync(path.join(storageRoot, "doc-4"))).toBe(false);
+  });
+
+  test("should abort a stream that grows past a smaller limit", async () => {
+    const chunks = [1, 2, 3].map(() => Buffer.alloc(1024));
+    const file = chunkedFile("small.bin", chunks, 1);
+
+    await expect(
+      run((storage) =>
+        storage.storeUploadedFile(file, "doc-7", "ver-1", 2048)
+      )
+    ).rejects.toThrow("File size cannot exceed 2048 bytes");
+    expect(fs.existsSync(path.join(storageRoot, "doc-7"))).toBe(false);
+    expect(tempFiles()).toEqual([]);
+  });
+
+  test("should abort a stream that grows past the limit", async () => {
+    // Reports a small size, then streams one byte more than allowed
+    const megabyte = Buffer.alloc(1024 * 1024);
+    const chunks = Array.from(
+      { length: MAX_FILE_SIZE / megabyte.length },
+      () => megabyte
+    );
+    const file = chunkedFile("growing.bin", [...chunks, Buffer.alloc(1)], 1);
+
+    await expect(
+      run((storage) => storage.storeUploadedFile(file, "doc-5", "ver-1"))
+    ).rejects.toThrow("File size cannot exceed");
+    expect(fs.existsSync(path.join(storageRoot, "doc-5"))).toBe(false);
+    expect(tempFiles()).toEqual([]);
+  });
+});
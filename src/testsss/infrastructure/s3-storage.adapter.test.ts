@@ -0,0 +1,295 @@
+/**
+ * S3 Storage Adapter Tests
+ *
+ * Runs the S3 adapter against an in-memory S3-compatible server
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { Effect, Layer } from "effect";
+import * as crypto from "crypto";
+import { S3StorageLive } from "../../app/infrastructure/adapters/s3-storage.adapter";
+import {
+  StoragePortTag,
+  type StoragePort,
+  type UploadedFile,
+} from "../../app/application/ports/storage.port";
+import { startMockS3Server, type MockS3Server } from "../mocks";
+
+const textFile = (
+  name: string,
+  content: string,
+  type?: string
+): UploadedFile => {
+  const blob = new Blob([content]);
+  return {
+    name,
+    size: blob.size,
+    type,
+    arrayBuffer: () => blob.arrayBuffer(),
+    stream: () => blob.stream(),
+  };
+};
+
+const byteStream = (content: string): ReadableStream<Uint8Array> =>
+  new Blob([content]).stream();
+
+describe("S3 Storage Adapter", () => {
+  let server: MockS3Server;
+  let storageLayer: Layer.Layer<StoragePort, unknown>;
+
+  const run = <A, E>(
+    use: (storage: StoragePort) => Effect.Effect<A, E>
+  ): Promise<A> =>
+    Effect.runPromise(
+      Effect.flatMap(StoragePortTag, use).pipe(Effect.provide(storageLayer))
+    );
+
+  beforeAll(() => {
+    server = startMockS3Server();
+    storageLayer = S3StorageLive({
+      bucket: server.bucket,
+      region: "us-east-1",
+      endpoint: server.endpoint,
+      accessKeyId: "test-access-key",
+      secretAccessKey: "test-secret-key",
+      keyPrefix: "documents/",
+      virtualHostedStyle: false,
+    });
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
+  test("should stream an upload into the bucket with its checksum", async () => {
+    const stored = await run((storage) =>
+      storage.storeUploadedFile(
+        textFile("notes.txt", "quarterly revenue grew"),
+        "doc-1",
+        "ver-1"
+      )
+    );
+
+    expect(stored.path).toBe("documents/doc-1/ver-1/notes.txt");
+    expect(stored.size).toBe(22);
+    expect(stored.mimeType).toBe("text/plain");
+    expect(stored.checksum).toBe(
+      crypto.createHash("sha256").update("quarterly revenue grew").digest("hex")
+    );
+    expect(stored.textContent).toBe("quarterly revenue grew");
+
+    const object = server.objects.get(stored.path);
+    expect(Buffer.from(object!.content).toString()).toBe(
+      "quarterly revenue grew"
+    );
+    expect(object!.contentType).toStartWith("text/plain");
+  });
+
+  test("should store large uploads with a multipart upload", async () => {
+    const content = crypto.randomBytes(6 * 1024 * 1024);
+    const blob = new Blob([content]);
+    server.requests.length = 0;
+
+    const stored = await run((storage) =>
+      storage.storeUploadedFile(
+        {
+          name: "large.bin",
+          size: blob.size,
+          type: "application/octet-stream",
+          arrayBuffer: () => blob.arrayBuffer(),
+          stream: () => blob.stream(),
+        },
+        "doc-7",
+        "ver-1"
+      )
+    );
+
+    expect(stored.size).toBe(content.length);
+    expect(stored.checksum).toBe(
+      crypto.createHash("sha256").update(content).digest("hex")
+    );
+    expect(server.requests).toContain(`POST /${stored.path}`);
+    expect(
+      Buffer.from(server.objects.get(stored.path)!.content).equals(content)
+    ).toBe(true);
+  });
+
+  test("should read whole objects and byte ranges", async () => {
+    const stored = await run((storage) =>
+      storage.storeUploadedFile(
+        textFile("range.bin", "0123456789", "application/octet-stream"),
+        "doc-2",
+        "ver-1"
+      )
+    );
+
+    const whole = await run((storage) => storage.readFileStream(stored.path));
+    expect(await new Response(whole).text()).toBe("0123456789");
+
+    const partial = await run((storage) =>
+      storage.readFileStream(stored.path, { start: 2, end: 5 })
+    );
+    expect(await new Response(partial).text()).toBe("2345");
+  });
+
+  test("should fail to read a missing object", async () => {
+    await expect(
+      run((storage) => storage.readFileStream("documents/missing"))
+    ).rejects.toThrow("File not found in storage");
+  });
+
+  test("should answer existence and metadata with HEAD requests", async () => {
+    const stored = await run((storage) =>
+      storage.storeUploadedFile(
+        textFile("data.json", '{"a":1}'),
+        "doc-3",
+        "ver-1"
+      )
+    );
+    server.requests.length = 0;
+
+    expect(await run((storage) => storage.fileExists(stored.path))).toBe(true);
+    expect(
+      await run((storage) => storage.fileExists("documents/doc-3/nope"))
+    ).toBe(false);
+
+    const metadata = await run((storage) =>
+      storage.getFileMetadata(stored.path)
+    );
+    expect(metadata.size).toBe(7);
+    expect(metadata.contentType).toStartWith("application/json");
+    expect(metadata.etag).toBe(server.objects.get(stored.path)!.etag);
+
+    expect(server.requests.every((r) => r.startsWith("HEAD "))).toBe(true);
+  });
+
+  test("should presign download URLs served by the object store", async () => {
+    const stored = await run((storage) =>
+      storage.storeUploadedFile(
+        textFile("report.txt", "signed content"),
+        "doc-4",
+        "ver-1"
+      )
+    );
+
+    const url = new URL(
+      await run((storage) => storage.getDownloadUrl(stored.path, 300))
+    );
+    expect(url.origin).toBe(server.endpoint);
+    expect(url.searchParams.get("X-Amz-Expires")).toBe("300");
+    expect(url.searchParams.get("X-Amz-Signature")).toBeTruthy();
+
+    const response = await fetch(url);
+    expect(await response.text()).toBe("signed content");
+  });
+
+  test("should reject an upload over a smaller size limit", async () => {
+    await expect(
+      run((storage) =>
+        storage.storeUploadedFile(
+          { ...textFile("big.txt", "too much content"), size: 1 },
+          "doc-6",
+          "ver-1",
+          8
+        )
+      )
+    ).rejects.toThrow("File size cannot exceed 8 bytes");
+
+    expect(server.objects.has("documents/doc-6/ver-1/big.txt")).toBe(false);
+  });
+
+  test("should delete objects", async () => {
+    const stored = await run((storage) =>
+      storage.storeUploadedFile(textFile("old.txt", "bye"), "doc-5", "ver-1")
+    );
+
+    await run((storage) => storage.deleteFile(stored.path));
+
+    expect(server.objects.has(stored.path)).toBe(false);
+  });
+
+  describe("Resumable upload parts", () => {
+    test("should append chunks at offsets and expose them as one file", async () => {
+      const first = await run((storage) =>
+        storage.appendUploadPart("session-1", 0, byteStream("hello "), 11)
+      );
+      expect(first).toBe(6);
+
+      const second = await run((storage) =>
+        storage.appendUploadPart("session-1", 6, byteStream("world"), 5)
+      );
+      expect(second).toBe(11);
+      expect(
+        await run((storage) => storage.getUploadPartSize("session-1"))
+      ).toBe(11);
+
+      const file = await run((storage) =>
+        storage.openUploadPart("session-1", "greeting.txt", "text/plain")
+      );
+      expect(file.size).toBe(11);
+      expect(await new Response(file.stream!()).text()).toBe("hello world");
+
+      const stored = await run((storage) =>
+        storage.storeUploadedFile(file, "doc-6", "ver-1")
+      );
+      expect(stored.checksum).toBe(
+        crypto.createHash("sha256").update("hello world").digest("hex")
+      );
+    });
+
+    test("should reject a chunk at the wrong offset", async () => {
+      await run((storage) =>
+        storage.appendUploadPart("session-2", 0, byteStream("abc"), 10)
+      );
+
+      await expect(
+        run((storage) =>
+          storage.appendUploadPart("session-2", 1, byteStream("def"), 7)
+        )
+      ).rejects.toThrow("does not match received size 3");
+    });
+
+    test("should not store a chunk that exceeds the remaining length", async () => {
+      await expect(
+        run((storage) =>
+          storage.appendUploadPart("session-3", 0, byteStream("too long"), 4)
+        )
+      ).rejects.toThrow("Chunk exceeds the declared upload length");
+
+      expect(
+        await run((storage) => storage.getUploadPartSize("session-3"))
+      ).toBe(0);
+    });
+
+    test("should delete all chunks of an upload", async () => {
+      await run((storage) =>
+        storage.appendUploadPart("session-4", 0, byteStream("abc"), 6)
+      );
+      await run((storage) =>
+        storage.appendUploadPart("session-4", 3, byteStream("def"), 3)
+      );
+
+      await run((storage) => storage.deleteUploadPart("session-4"));
+
+      expect(
+        await run((storage) => storage.getUploadPartSize("session-4"))
+      ).toBe(0);
+      await expect(
+        run((storage) => storage.openUploadPart("session-4", "x", "text/plain"))
+      ).rejects.toThrow("Upload data not found");
+    });
+  });
+
+  test("should fail to start without a bucket", async () => {
+    const layer = S3StorageLive({
+      bucket: "",
+      region: "us-east-1",
+      keyPrefix: "",
+      virtualHostedStyle: false,
+    });
+
+    await expect(
+      Effect.runPromise(Effect.provide(Effect.asVoid(StoragePortTag), layer))
+    ).rejects.toThrow("S3_BUCKET must be set");
+  });
+});
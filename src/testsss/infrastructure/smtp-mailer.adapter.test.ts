@@ -0,0 +1,170 @@
+/**
+ * SMTP Mailer Adapter Tests
+ *
+ * Runs the SMTP mailer against a scripted fake socket: the EHLO / STARTTLS /
+ * AUTH sequence, refusing cleartext credentials, and error replies
+ */
+
+import { describe, test, expect } from "bun:test";
+import { Effect } from "effect";
+import { makeSmtpMailer } from "../../app/infrastructure/adapters/smtp-mailer.adapter";
+import type { SmtpConfig } from "../../app/infrastructure/config/mail.config";
+import type { MailMessage } from "../../app/application/ports/mailer.port";
+import { createMockSmtpServer, type MockSmtpServer } from "../mocks";
+
+const config: SmtpConfig = {
+  host: "smtp.example.com",
+  port: 587,
+  secure: false,
+  user: "mailer",
+  password: "s3cret",
+};
+
+const message: MailMessage = {
+  to: "user@example.com",
+  subject: "Verify your email",
+  text: "Hello\n.hidden line\nBye",
+};
+
+const send = (server: MockSmtpServer, smtpConfig = config) =>
+  Effect.runPromise(
+    Effect.either(
+      makeSmtpMailer(smtpConfig, "no-reply@example.com", server.transport).send(
+        message
+      )
+    )
+  );
+
+const verbs = (server: MockSmtpServer) =>
+  server.commands.map((command) => command.line.split(" ")[0]);
+
+describe("SMTP Mailer Adapter", () => {
+  test("should upgrade with STARTTLS before authenticating", async () => {
+    const server = createMockSmtpServer({ offerStartTls: true });
+
+    const result = await send(server);
+
+    expect(result._tag).toBe("Right");
+    expect(verbs(server)).toEqual([
+      "EHLO",
+      "STARTTLS",
+      "EHLO",
+      "AUTH",
+      "MAIL",
+      "RCPT",
+      "DATA",
+      "QUIT",
+    ]);
+    const auth = server.commands.find((command) =>
+      command.line.startsWith("AUTH")
+    )!;
+    expect(auth.secure).toBe(true);
+    expect(auth.line).toBe(
+      `AUTH PLAIN ${Buffer.from("\0mailer\0s3cret").toString("base64")}`
+    );
+    expect(server.commands[4]!.line).toBe("MAIL FROM:<no-reply@example.com>");
+    expect(server.commands[5]!.line).toBe("RCPT TO:<user@example.com>");
+  });
+
+  test("should dot-stuff the message body", async () => {
+    const server = createMockSmtpServer({ offerStartTls: true });
+
+    await send(server);
+
+    expect(server.messages).toHaveLength(1);
+    expect(server.messages[0]).toContain("Subject: Verify your email");
+    expect(server.messages[0]).toEndWith("\r\nHello\r\n..hidden line\r\nBye");
+  });
+
+  test("should refuse to send credentials without TLS", async () => {
+    const server = createMockSmtpServer({ offerStartTls: false });
+
+    const result = await send(server);
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left.message).toContain("cleartext");
+    }
+    expect(verbs(server)).toEqual(["EHLO"]);
+  });
+
+  test("should authenticate right away over implicit TLS", async () => {
+    const server = createMockSmtpServer();
+
+    const result = await send(server, { ...config, port: 465, secure: true });
+
+    expect(result._tag).toBe("Right");
+    expect(verbs(server).slice(0, 2)).toEqual(["EHLO", "AUTH"]);
+    expect(server.commands[1]!.secure).toBe(true);
+  });
+
+  test("should send without TLS when no credentials are configured", async () => {
+    const server = createMockSmtpServer();
+
+    const result = await send(server, {
+      host: "localhost",
+      port: 25,
+      secure: false,
+    });
+
+    expect(result._tag).toBe("Right");
+    expect(verbs(server)).not.toContain("AUTH");
+  });
+
+  test("should fail on a rejected login", async () => {
+    const server = createMockSmtpServer({
+      offerStartTls: true,
+      replies: { AUTH: "535 5.7.8 Authentication credentials invalid" },
+    });
+
+    const result = await send(server);
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left.message).toContain("535");
+    }
+    expect(verbs(server)).not.toContain("MAIL");
+  });
+
+  test("should fail on a rejected recipient", async () => {
+    const server = createMockSmtpServer({
+      offerStartTls: true,
+      replies: { RCPT: "550 5.1.1 Mailbox unavailable" },
+    });
+
+    const result = await send(server);
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left.message).toContain("550 5.1.1 Mailbox unavailable");
+    }
+    expect(server.messages).toHaveLength(0);
+  });
+
+  test("should fail when the server refuses the connection", async () => {
+    const server = createMockSmtpServer({
+      replies: { GREETING: "554 5.3.2 Service unavailable" },
+    });
+
+    const result = await send(server);
+
+    expect(result._tag).toBe("Left");
+    expect(server.commands).toHaveLength(0);
+  });
+
+  test("should refuse line breaks in headers", async () => {
+    const server = createMockSmtpServer({ offerStartTls: true });
+
+    const result = await Effect.runPromise(
+      Effect.either(
+        makeSmtpMailer(config, "no-reply@example.com", server.transport).send({
+          ...message,
+          subject: "Hi\r\nBcc: victim@example.com",
+        })
+      )
+    );
+
+    expect(result._tag).toBe("Left");
+    expect(server.commands).toHaveLength(0);
+  });
+});
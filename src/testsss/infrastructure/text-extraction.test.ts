@@ -0,0 +1,54 @@
+/**
+ * Text Extraction Tests
+ *
+ * Tests for extracting searchable text from uploaded file content
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  extractText,
+  isIndexableMimeType,
+} from "../../app/infrastructure/services/text-extraction";
+
+describe("Text Extraction", () => {
+  test("should return plain text with collapsed whitespace", () => {
+    const text = extractText(
+      Buffer.from("Quarterly   report\n\nrevenue grew"),
+      "text/plain; charset=utf-8"
+    );
+    expect(text).toBe("Quarterly report revenue grew");
+  });
+
+  test("should strip HTML markup, scripts and entities", () => {
+    const text = extractText(
+      Buffer.from(
+        "<html><script>var x = 1;</script><p>Fish &amp; chips</p></html>"
+      ),
+      "text/html"
+    );
+    expect(text).toBe("Fish & chips");
+  });
+
+  test("should keep numeric entities beyond the last code point", () => {
+    const text = extractText(
+      Buffer.from("<p>a &#x110000; b &#99999999; c &#x263A;</p>"),
+      "text/html"
+    );
+    expect(text).toBe("a &#x110000; b &#99999999; c \u263A");
+  });
+
+  test("should keep only JSON values", () => {
+    const text = extractText(
+      Buffer.from(JSON.stringify({ title: "Invoice", lines: [{ qty: 2 }] })),
+      "application/json"
+    );
+    expect(text).toBe("Invoice 2");
+  });
+
+  test("should skip binary formats", () => {
+    expect(isIndexableMimeType("application/pdf")).toBe(false);
+    expect(extractText(Buffer.from("%PDF-1.4"), "application/pdf")).toBe(
+      undefined
+    );
+  });
+});
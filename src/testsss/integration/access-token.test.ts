@@ -0,0 +1,250 @@
+/**
+ * Access Token Integration Tests
+ *
+ * Tests for personal access token creation, authentication, revocation
+ * and scope checks
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import { seedUser } from "../helpers";
+import { createMockJwt } from "../mocks/jwt.mock";
+import * as AccessTokenWorkflows from "../../app/application/workflows/access-token-workflow";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { AccessTokenRepositoryTag } from "../../app/domain/access-token/repository";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { JwtPortTag } from "../../app/application/ports/jwt.port";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { SessionRepositoryLive } from "../../app/infrastructure/repositories/session-repository.impl";
+import { AccessTokenRepositoryLive } from "../../app/infrastructure/repositories/access-token-repository.impl";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+import {
+  authenticate,
+  authorizeAccessTokenScope,
+  requiredScopeFor,
+} from "../../app/presentation/http/middleware/auth.middleware";
+
+describe("Access Token Integration Tests", () => {
+  let db: TestDatabase;
+
+  const layer = () =>
+    Layer.merge(
+      Layer.provide(
+        Layer.mergeAll(
+          UserRepositoryLive,
+          SessionRepositoryLive,
+          AccessTokenRepositoryLive,
+          DrizzleAuditLive
+        ),
+        Layer.succeed(DrizzleService, { db })
+      ),
+      Layer.succeed(JwtPortTag, createMockJwt())
+    );
+
+  const run = <A, E>(
+    use: (
+      deps: AccessTokenWorkflows.AccessTokenWorkflowDeps
+    ) => Effect.Effect<A, E>
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          const deps: AccessTokenWorkflows.AccessTokenWorkflowDeps = {
+            accessTokenRepo: yield* AccessTokenRepositoryTag,
+            userRepo: yield* UserRepositoryTag,
+            auditService: yield* AuditPortTag,
+          };
+          return yield* use(deps);
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  // Workflows decode the user ID, which factory IDs do not pass
+  const seedTokenOwner = () => seedUser(db, { id: UuidGenerators.userId() });
+
+  const createToken = async (
+    userId: string,
+    scope: string,
+    expiresInDays?: number
+  ) => {
+    const result = await run((deps) =>
+      AccessTokenWorkflows.createAccessToken(deps)({
+        userId,
+        name: `${scope} token`,
+        scope,
+        expiresInDays,
+      })
+    );
+    if (result._tag === "Left") throw result.left;
+    return result.right;
+  };
+
+  const authenticateToken = (token: string) =>
+    Effect.runPromise(
+      Effect.either(
+        authenticate(`Bearer ${token}`).pipe(Effect.provide(layer()))
+      )
+    );
+
+  const authorize = (token: string, method: string, path: string) =>
+    Effect.runPromise(
+      Effect.either(
+        authorizeAccessTokenScope(`Bearer ${token}`, method, path).pipe(
+          Effect.provide(layer())
+        )
+      )
+    );
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should authenticate with a new token and record its use", async () => {
+    const user = seedTokenOwner();
+    const created = await createToken(user.id, "UPLOAD", 30);
+
+    const auth = await authenticateToken(created.token);
+
+    expect(auth._tag).toBe("Right");
+    if (auth._tag === "Right") {
+      expect(auth.right.userId).toBe(user.id);
+      expect(auth.right.scope).toBe("UPLOAD");
+      expect(auth.right.sessionId).toBeUndefined();
+    }
+    const listed = await run((deps) =>
+      AccessTokenWorkflows.listAccessTokens(deps)({ userId: user.id })
+    );
+    expect(listed._tag).toBe("Right");
+    if (listed._tag === "Right") {
+      expect(listed.right.total).toBe(1);
+      expect(listed.right.accessTokens[0].lastUsedAt).toBeDefined();
+      expect(listed.right.accessTokens[0].tokenHint).toBe(
+        created.accessToken.tokenHint
+      );
+    }
+  });
+
+  test("should reject a revoked token", async () => {
+    const user = seedTokenOwner();
+    const created = await createToken(user.id, "READ_ONLY");
+
+    const result = await run((deps) =>
+      AccessTokenWorkflows.revokeAccessToken(deps)({
+        userId: user.id,
+        tokenId: created.accessToken.id,
+      })
+    );
+
+    expect(result._tag).toBe("Right");
+    if (result._tag === "Right") {
+      expect(result.right.revokedAt).toBeDefined();
+    }
+    const auth = await authenticateToken(created.token);
+    expect(auth._tag).toBe("Left");
+    if (auth._tag === "Left") {
+      expect((auth.left as any)._tag).toBe("AccessTokenRevokedError");
+    }
+  });
+
+  test("should reject the token of a suspended user", async () => {
+    const user = seedTokenOwner();
+    const created = await createToken(user.id, "READ_ONLY");
+    db.$client.run(
+      "UPDATE users SET suspended_at = ? WHERE id = ?",
+      new Date().toISOString(),
+      user.id
+    );
+
+    const auth = await authenticateToken(created.token);
+
+    expect(auth._tag).toBe("Left");
+    if (auth._tag === "Left") {
+      expect((auth.left as any)._tag).toBe("UserSuspendedError");
+    }
+  });
+
+  test("should reject an expired token", async () => {
+    const user = seedTokenOwner();
+    const created = await createToken(user.id, "READ_ONLY", 1);
+    // Move the expiry into the past instead of waiting a day
+    db.$client.run("UPDATE access_tokens SET expires_at = ? WHERE id = ?", [
+      new Date(Date.now() - 1000).toISOString(),
+      created.accessToken.id,
+    ]);
+
+    const auth = await authenticateToken(created.token);
+
+    expect(auth._tag).toBe("Left");
+    if (auth._tag === "Left") {
+      expect((auth.left as any)._tag).toBe("AccessTokenExpiredError");
+    }
+  });
+
+  test("should reject an unknown token", async () => {
+    const auth = await authenticateToken("hdm_pat_unknown");
+
+    expect(auth._tag).toBe("Left");
+    if (auth._tag === "Left") {
+      expect((auth.left as any)._tag).toBe("AccessTokenInvalidError");
+    }
+  });
+
+  test("should not let another user revoke a token", async () => {
+    const owner = seedTokenOwner();
+    const other = seedTokenOwner();
+    const created = await createToken(owner.id, "ADMIN");
+
+    const result = await run((deps) =>
+      AccessTokenWorkflows.revokeAccessToken(deps)({
+        userId: other.id,
+        tokenId: created.accessToken.id,
+      })
+    );
+
+    expect(result._tag).toBe("Left");
+    expect((await authenticateToken(created.token))._tag).toBe("Right");
+  });
+
+  test("should enforce the token scope on requests", async () => {
+    const user = seedTokenOwner();
+    const readOnly = await createToken(user.id, "READ_ONLY");
+    const upload = await createToken(user.id, "UPLOAD");
+
+    expect((await authorize(readOnly.token, "GET", "/documents"))._tag).toBe(
+      "Right"
+    );
+    const denied = await authorize(readOnly.token, "POST", "/documents");
+    expect(denied._tag).toBe("Left");
+    if (denied._tag === "Left") {
+      expect((denied.left as any)._tag).toBe("AccessTokenScopeError");
+    }
+    expect((await authorize(upload.token, "POST", "/documents"))._tag).toBe(
+      "Right"
+    );
+    expect(
+      (await authorize(upload.token, "DELETE", "/documents/some-id"))._tag
+    ).toBe("Left");
+  });
+
+  test("should map requests to the scope they need", () => {
+    expect(requiredScopeFor("GET", "/documents/abc")).toBe("READ_ONLY");
+    expect(requiredScopeFor("POST", "/documents/query")).toBe("READ_ONLY");
+    expect(requiredScopeFor("POST", "/documents")).toBe("UPLOAD");
+    expect(requiredScopeFor("PATCH", "/uploads/abc")).toBe("UPLOAD");
+    expect(requiredScopeFor("POST", "/permissions")).toBe("ADMIN");
+    expect(requiredScopeFor("DELETE", "/documents/abc")).toBe("ADMIN");
+  });
+});
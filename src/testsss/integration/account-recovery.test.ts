@@ -0,0 +1,340 @@
+/**
+ * Account Recovery Integration Tests
+ *
+ * Tests for password reset and email verification links sent through the
+ * mailer port, and for keeping unverified accounts from sharing documents
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import { seedDocument, seedUser, errorTag } from "../helpers";
+import { createMockJwt } from "../mocks/jwt.mock";
+import {
+  createMockPasswordHasher,
+  mockHashedPassword,
+} from "../mocks/password-hasher.mock";
+import * as UserWorkflows from "../../app/application/workflows/user-workflow";
+import * as PermissionWorkflows from "../../app/application/workflows/permission-workflow";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { SessionRepositoryTag } from "../../app/domain/session/repository";
+import { MfaRepositoryTag } from "../../app/domain/mfa/repository";
+import { LoginThrottleRepositoryTag } from "../../app/domain/login-throttle/repository";
+import { AccountTokenRepositoryTag } from "../../app/domain/account-token/repository";
+import { PermissionRepositoryTag } from "../../app/domain/permission/repository";
+import { GroupRepositoryTag } from "../../app/domain/group/repository";
+import { DocumentRepositoryTag } from "../../app/domain/document/repository";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { JwtPortTag } from "../../app/application/ports/jwt.port";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { SessionRepositoryLive } from "../../app/infrastructure/repositories/session-repository.impl";
+import { MfaRepositoryLive } from "../../app/infrastructure/repositories/mfa-repository.impl";
+import { LoginThrottleRepositoryLive } from "../../app/infrastructure/repositories/login-throttle-repository.impl";
+import { AccountTokenRepositoryLive } from "../../app/infrastructure/repositories/account-token-repository.impl";
+import { PermissionRepositoryLive } from "../../app/infrastructure/repositories/permission-repository.impl";
+import { GroupRepositoryLive } from "../../app/infrastructure/repositories/group-repository.impl";
+import { DocumentRepositoryLive } from "../../app/infrastructure/repositories/document-repository.impl";
+import { makeInMemoryOutbox } from "../../app/infrastructure/adapters/outbox-mailer.adapter";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+
+describe("Account Recovery Integration Tests", () => {
+  let db: TestDatabase;
+  let outbox: ReturnType<typeof makeInMemoryOutbox>;
+  const password = "Secret123!";
+  const newPassword = "Changed456!";
+
+  const layer = () =>
+    Layer.merge(
+      Layer.provide(
+        Layer.mergeAll(
+          UserRepositoryLive,
+          SessionRepositoryLive,
+          MfaRepositoryLive,
+          LoginThrottleRepositoryLive,
+          AccountTokenRepositoryLive,
+          PermissionRepositoryLive,
+          GroupRepositoryLive,
+          DocumentRepositoryLive,
+          DrizzleAuditLive
+        ),
+        Layer.succeed(DrizzleService, { db })
+      ),
+      Layer.succeed(JwtPortTag, createMockJwt())
+    );
+
+  const run = <A, E>(
+    use: (
+      deps: UserWorkflows.UserWorkflowDeps &
+        PermissionWorkflows.PermissionWorkflowDeps
+    ) => Effect.Effect<A, E>
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          return yield* use({
+            userRepo: yield* UserRepositoryTag,
+            sessionRepo: yield* SessionRepositoryTag,
+            mfaRepo: yield* MfaRepositoryTag,
+            loginThrottleRepo: yield* LoginThrottleRepositoryTag,
+            accountTokenRepo: yield* AccountTokenRepositoryTag,
+            permissionRepo: yield* PermissionRepositoryTag,
+            groupRepo: yield* GroupRepositoryTag,
+            documentRepo: yield* DocumentRepositoryTag,
+            passwordHasher: createMockPasswordHasher(),
+            jwtService: yield* JwtPortTag,
+            auditService: yield* AuditPortTag,
+            mailer: outbox.mailer,
+          });
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  const unwrap = async <A, E>(
+    result: Promise<{ _tag: "Left"; left: E } | { _tag: "Right"; right: A }>
+  ) => {
+    const settled = await result;
+    if (settled._tag === "Left") throw settled.left;
+    return settled.right;
+  };
+
+  // Workflows decode the user ID, which factory IDs do not pass
+  const seedSignedUpUser = (overrides: Record<string, unknown> = {}) =>
+    seedUser(db, {
+      id: UuidGenerators.userId(),
+      password: mockHashedPassword(password),
+      ...overrides,
+    });
+
+  const tokenFromLastMail = () => {
+    const match = outbox.messages.at(-1)?.text.match(/token=([\w-]+)/);
+    if (!match) throw new Error("No link in the last mail");
+    return match[1]!;
+  };
+
+  const requestReset = (email: string) =>
+    unwrap(run((deps) => UserWorkflows.forgotPassword(deps)({ email })));
+
+  const reset = (token: string, attempt = newPassword) =>
+    run((deps) =>
+      UserWorkflows.resetPassword(deps)({ token, password: attempt })
+    );
+
+  const login = (email: string, attempt: string) =>
+    run((deps) =>
+      UserWorkflows.loginUser(deps)({ email, password: attempt })
+    );
+
+  const auditActions = (action: string) =>
+    db.$client
+      .query("SELECT performed_by FROM document_audit WHERE action = ?")
+      .all(action) as { performed_by: string }[];
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+    outbox = makeInMemoryOutbox();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should register unverified and mail a verification link", async () => {
+    const { user } = await unwrap(
+      run((deps) =>
+        UserWorkflows.registerUser(deps)({
+          email: "new@example.com",
+          password,
+        })
+      )
+    );
+
+    expect(user.emailVerified).toBe(false);
+    expect(outbox.messages).toHaveLength(1);
+    expect(outbox.messages[0]!.to).toBe("new@example.com");
+    expect(outbox.messages[0]!.text).toContain("/verify-email?token=");
+  });
+
+  test("should verify the email once with the mailed link", async () => {
+    const { user } = await unwrap(
+      run((deps) =>
+        UserWorkflows.registerUser(deps)({
+          email: "new@example.com",
+          password,
+        })
+      )
+    );
+    const token = tokenFromLastMail();
+
+    const verified = await unwrap(
+      run((deps) => UserWorkflows.verifyEmail(deps)({ token }))
+    );
+    const again = await run((deps) =>
+      UserWorkflows.verifyEmail(deps)({ token })
+    );
+
+    expect(verified.emailVerified).toBe(true);
+    expect(errorTag(again)).toBe("AccountTokenInvalidError");
+    expect(auditActions("email_verified")).toEqual([{ performed_by: user.id }]);
+  });
+
+  test("should answer alike for unknown emails and send nothing", async () => {
+    const user = seedSignedUpUser();
+
+    const known = await requestReset(user.email);
+    const unknown = await requestReset("nobody@example.com");
+
+    expect(unknown).toEqual(known);
+    expect(outbox.messages.map((message) => message.to)).toEqual([
+      user.email,
+    ]);
+  });
+
+  test("should reset the password and sign out everywhere", async () => {
+    const user = seedSignedUpUser();
+    await unwrap(login(user.email, password));
+    await requestReset(user.email);
+
+    const result = await unwrap(reset(tokenFromLastMail()));
+
+    expect(result.sessionsRevoked).toBe(1);
+    expect(errorTag(await login(user.email, password))).toBe(
+      "InvalidCredentialsError"
+    );
+    expect((await login(user.email, newPassword))._tag).toBe("Right");
+    expect(auditActions("password_reset")).toEqual([
+      { performed_by: user.id },
+    ]);
+  });
+
+  test("should accept a reset link only once", async () => {
+    const user = seedSignedUpUser();
+    await requestReset(user.email);
+    const token = tokenFromLastMail();
+    await unwrap(reset(token));
+
+    const result = await reset(token, "Another789!");
+
+    expect(errorTag(result)).toBe("AccountTokenInvalidError");
+  });
+
+  test("should only accept the newest reset link", async () => {
+    const user = seedSignedUpUser();
+    await requestReset(user.email);
+    const first = tokenFromLastMail();
+    await requestReset(user.email);
+
+    const result = await reset(first);
+
+    expect(errorTag(result)).toBe("AccountTokenInvalidError");
+    expect((await reset(tokenFromLastMail()))._tag).toBe("Right");
+  });
+
+  test("should reject an expired reset link", async () => {
+    const user = seedSignedUpUser();
+    await requestReset(user.email);
+    db.$client.run(
+      "UPDATE account_tokens SET expires_at = ?",
+      new Date(Date.now() - 1000).toISOString()
+    );
+
+    const result = await reset(tokenFromLastMail());
+
+    expect(errorTag(result)).toBe("AccountTokenInvalidError");
+  });
+
+  test("should keep the link when the new password is too weak", async () => {
+    const user = seedSignedUpUser();
+    await requestReset(user.email);
+    const token = tokenFromLastMail();
+
+    const weak = await reset(token, "weakpassword");
+
+    expect(weak._tag).toBe("Left");
+    expect((await reset(token))._tag).toBe("Right");
+  });
+
+  test("should verify the email of an unverified user who resets", async () => {
+    const user = seedSignedUpUser({ email_verified_at: null });
+    await requestReset(user.email);
+    await unwrap(reset(tokenFromLastMail()));
+
+    const profile = await unwrap(
+      run((deps) => UserWorkflows.getUserProfile(deps)({ userId: user.id }))
+    );
+
+    expect(profile.emailVerified).toBe(true);
+  });
+
+  test("should block unverified users from sharing documents", async () => {
+    const owner = seedSignedUpUser({ email_verified_at: null });
+    const other = seedSignedUpUser();
+    const document = seedDocument(db, {
+      id: UuidGenerators.documentId(),
+      uploaded_by: owner.id,
+    });
+
+    const result = await run((deps) =>
+      PermissionWorkflows.grantPermission(deps)({
+        documentId: document.id,
+        userId: other.id,
+        permission: "READ",
+        grantedBy: owner.id,
+      })
+    );
+
+    expect(errorTag(result)).toBe("EmailNotVerifiedError");
+  });
+
+  test("should let accounts from before verification keep sharing", async () => {
+    // Rows that predate the column get its default
+    const ownerId = UuidGenerators.userId();
+    db.$client.run(
+      "INSERT INTO users (id, email, password, role) VALUES (?, ?, ?, 'USER')",
+      ownerId,
+      "legacy@example.com",
+      mockHashedPassword(password)
+    );
+    const other = seedSignedUpUser();
+    const document = seedDocument(db, {
+      id: UuidGenerators.documentId(),
+      uploaded_by: ownerId,
+    });
+
+    const result = await run((deps) =>
+      PermissionWorkflows.grantPermission(deps)({
+        documentId: document.id,
+        userId: other.id,
+        permission: "READ",
+        grantedBy: ownerId,
+      })
+    );
+
+    expect(result._tag).toBe("Right");
+  });
+
+  test("should unverify a changed email and mail a new link", async () => {
+    const user = seedSignedUpUser();
+
+    const updated = await unwrap(
+      run((deps) =>
+        UserWorkflows.updateUserProfile(deps)(user.id, {
+          email: "moved@example.com",
+          currentPassword: password,
+        })
+      )
+    );
+
+    expect(updated.emailVerified).toBe(false);
+    expect(outbox.messages.map((message) => message.to)).toEqual([
+      "moved@example.com",
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Audit Adapter Integration Tests
+ *
+ * Tests for recording audit events through the audit port
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer, Option } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import { seedUser, seedUserWithDocuments } from "../helpers";
+import {
+  AuditPortTag,
+  type AuditEvent,
+} from "../../app/application/ports/audit.port";
+import { AuditRepositoryTag } from "../../app/domain/audit/repository";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { AuditRepositoryLive } from "../../app/infrastructure/repositories/audit-repository.impl";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+import { withCorrelationId } from "../../app/presentation/http/middleware/correlation.middleware";
+import type { DocumentId, UserId } from "../../app/domain/refined/uuid";
+
+describe("Audit Adapter Integration Tests", () => {
+  let db: TestDatabase;
+
+  const layer = () =>
+    Layer.provide(
+      Layer.merge(DrizzleAuditLive, AuditRepositoryLive),
+      Layer.succeed(DrizzleService, { db })
+    );
+
+  const record = (event: AuditEvent, correlationId: string) =>
+    Effect.runPromise(
+      withCorrelationId(
+        correlationId,
+        Effect.flatMap(AuditPortTag, (audit) => audit.record(event))
+      ).pipe(Effect.provide(layer()))
+    );
+
+  const readAll = () =>
+    Effect.runPromise(
+      Effect.flatMap(AuditRepositoryTag, (repo) =>
+        repo.query(
+          {
+            documentId: Option.none(),
+            performedBy: Option.none(),
+            action: Option.none(),
+            from: Option.none(),
+            to: Option.none(),
+          },
+          { limit: 10, after: Option.none() }
+        )
+      ).pipe(Effect.provide(layer()))
+    );
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should record before/after values and the correlation ID", async () => {
+    const { user, documents } = seedUserWithDocuments(db, 1);
+
+    await record(
+      {
+        action: "metadata_updated",
+        performedBy: user.id as UserId,
+        documentId: documents[0].id as DocumentId,
+        before: { key: "status", value: "draft" },
+        after: { key: "status", value: "final" },
+      },
+      "corr-123"
+    );
+
+    const [entry] = (await readAll()).entries;
+    expect(entry.action).toBe("metadata_updated");
+    expect(Option.getOrNull(entry.before)).toEqual({
+      key: "status",
+      value: "draft",
+    });
+    expect(Option.getOrNull(entry.after)).toEqual({
+      key: "status",
+      value: "final",
+    });
+    expect(Option.getOrNull(entry.correlationId)).toBe("corr-123");
+  });
+
+  test("should chain events without a document", async () => {
+    const user = seedUser(db);
+
+    await record(
+      { action: "login_failed", performedBy: user.id as UserId },
+      "corr-1"
+    );
+    await record(
+      { action: "user_logged_in", performedBy: user.id as UserId },
+      "corr-2"
+    );
+
+    const { entries } = await readAll();
+    expect(entries).toHaveLength(2);
+    expect(entries.every((entry) => Option.isNone(entry.documentId))).toBe(
+      true
+    );
+
+    const verification = await Effect.runPromise(
+      Effect.flatMap(AuditRepositoryTag, (repo) =>
+        repo.verifyChain(Option.none())
+      ).pipe(Effect.provide(layer()))
+    );
+    expect(Option.isNone(verification.brokenLink)).toBe(true);
+    expect(verification.entriesChecked).toBe(2);
+  });
+});
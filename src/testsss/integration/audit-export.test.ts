@@ -0,0 +1,150 @@
+/**
+ * Audit Export Integration Tests
+ *
+ * Tests for downloading the audit log as CSV or NDJSON, streamed one
+ * batch of entries at a time
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import { seedUser, seedDocument } from "../helpers";
+import * as AuditWorkflows from "../../app/application/workflows/audit-workflow";
+import { AuditRepositoryTag } from "../../app/domain/audit/repository";
+import { DocumentRepositoryTag } from "../../app/domain/document/repository";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+import { AuditRepositoryLive } from "../../app/infrastructure/repositories/audit-repository.impl";
+import { DocumentRepositoryLive } from "../../app/infrastructure/repositories/document-repository.impl";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+import { appendAuditEntries } from "../../app/infrastructure/services/audit-chain";
+import {
+  auditExportResponse,
+  type AuditExportFormat,
+} from "../../app/presentation/http/utils/audit-export";
+
+describe("Audit Export Integration Tests", () => {
+  let db: TestDatabase;
+  let pagesRead: number;
+
+  const layer = () =>
+    Layer.provide(
+      Layer.mergeAll(
+        AuditRepositoryLive,
+        DocumentRepositoryLive,
+        UserRepositoryLive
+      ),
+      Layer.succeed(DrizzleService, { db })
+    );
+
+  // Export the whole log, counting the pages read from the repository
+  const exportLog = (userId: string, format: AuditExportFormat) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          const auditRepo = yield* AuditRepositoryTag;
+          const deps: AuditWorkflows.AuditWorkflowDeps = {
+            auditRepo: {
+              ...auditRepo,
+              query: (filter, params) => {
+                pagesRead++;
+                return auditRepo.query(filter, params);
+              },
+            },
+            documentRepo: yield* DocumentRepositoryTag,
+            userRepo: yield* UserRepositoryTag,
+          };
+          const entries = yield* AuditWorkflows.exportAuditLog(deps)({
+            userId,
+          });
+          return yield* auditExportResponse(entries, format, "audit-log");
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  // Workflows decode IDs, which factory IDs do not pass
+  const seedAccount = (role = "USER") =>
+    seedUser(db, { id: UuidGenerators.userId(), role });
+
+  // Seed more entries than one export batch holds
+  const seedEntries = (performedBy: string, count: number) => {
+    const document = seedDocument(db, {
+      id: UuidGenerators.documentId(),
+      uploaded_by: performedBy,
+    });
+    db.transaction((tx) =>
+      appendAuditEntries(
+        tx,
+        Array.from({ length: count }, (_, index) => ({
+          documentId: document.id,
+          action: "updated",
+          performedBy,
+          details: `=change ${index}, "quoted"`,
+        }))
+      )
+    );
+  };
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+    pagesRead = 0;
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should read entries only as the download is consumed", async () => {
+    const admin = seedAccount("ADMIN");
+    seedEntries(admin.id, 1201);
+
+    const result = await exportLog(admin.id, "ndjson");
+
+    expect(result._tag).toBe("Right");
+    if (result._tag === "Right") {
+      expect(pagesRead).toBeLessThanOrEqual(1);
+      const lines = (await result.right.text()).trimEnd().split("\n");
+      expect(pagesRead).toBe(3);
+      // Every entry exactly once across the batches
+      expect(
+        new Set(lines.map((line) => JSON.parse(line).details)).size
+      ).toBe(1201);
+      expect(lines).toHaveLength(1201);
+    }
+  });
+
+  test("should write one CSV row per entry after the header", async () => {
+    const admin = seedAccount("ADMIN");
+    seedEntries(admin.id, 501);
+
+    const result = await exportLog(admin.id, "csv");
+
+    expect(result._tag).toBe("Right");
+    if (result._tag === "Right") {
+      expect(result.right.headers.get("Content-Type")).toBe(
+        "text/csv; charset=utf-8"
+      );
+      const rows = (await result.right.text()).trimEnd().split("\r\n");
+      expect(rows).toHaveLength(502);
+      expect(rows[0]).toStartWith("id,performedAt,documentId,action");
+      expect(rows[1]).toMatch(/,"'=change \d+, ""quoted""",/);
+    }
+  });
+
+  test("should only let admins export the audit log", async () => {
+    const user = seedAccount();
+    seedEntries(user.id, 1);
+
+    const result = await exportLog(user.id, "csv");
+
+    expect(result._tag).toBe("Left");
+    expect(pagesRead).toBe(0);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Audit Repository Integration Tests
+ *
+ * Tests for filtering and cursor-paginating the document audit log
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer, Option } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import { seedUserWithDocuments } from "../helpers";
+import {
+  AuditRepositoryTag,
+  type AuditFilter,
+} from "../../app/domain/audit/repository";
+import { AuditRepositoryLive } from "../../app/infrastructure/repositories/audit-repository.impl";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+import type { Cursor } from "../../app/domain/shared/pagination";
+import type { DocumentId } from "../../app/domain/refined/uuid";
+import { appendAuditEntries } from "../../app/infrastructure/services/audit-chain";
+
+const noFilter: AuditFilter = {
+  documentId: Option.none(),
+  performedBy: Option.none(),
+  action: Option.none(),
+  from: Option.none(),
+  to: Option.none(),
+};
+
+describe("Audit Repository Integration Tests", () => {
+  let db: TestDatabase;
+
+  const query = (
+    filter: AuditFilter,
+    limit: number,
+    after: Option.Option<Cursor> = Option.none()
+  ) =>
+    Effect.runPromise(
+      Effect.flatMap(AuditRepositoryTag, (repo) =>
+        repo.query(filter, { limit, after })
+      ).pipe(
+        Effect.provide(
+          Layer.provide(
+            AuditRepositoryLive,
+            Layer.succeed(DrizzleService, { db })
+          )
+        )
+      )
+    );
+
+  const verifyChain = (documentId: Option.Option<DocumentId>) =>
+    Effect.runPromise(
+      Effect.flatMap(AuditRepositoryTag, (repo) =>
+        repo.verifyChain(documentId)
+      ).pipe(
+        Effect.provide(
+          Layer.provide(
+            AuditRepositoryLive,
+            Layer.succeed(DrizzleService, { db })
+          )
+        )
+      )
+    );
+
+  // Rows with fixed timestamps; their hashes are not meant to verify
+  const seedAudit = (
+    id: string,
+    documentId: string,
+    userId: string,
+    action: string,
+    performedAt: string
+  ) =>
+    db.$client.run(
+      `INSERT INTO document_audit
+         (id, document_id, sequence, action, performed_by, details,
+          performed_at, prev_hash, hash)
+       VALUES (?, ?,
+         (SELECT COUNT(*) + 1 FROM document_audit WHERE document_id = ?),
+         ?, ?, '', ?, '', '')`,
+      [id, documentId, documentId, action, userId, performedAt]
+    );
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should page through entries newest first without gaps", async () => {
+    const { user, documents } = seedUserWithDocuments(db, 1);
+    const documentId = documents[0].id;
+    seedAudit("a1", documentId, user.id, "created", "2024-01-01 10:00:00");
+    seedAudit("a2", documentId, user.id, "updated", "2024-01-02 10:00:00");
+    seedAudit("a3", documentId, user.id, "updated", "2024-01-02 10:00:00");
+    seedAudit("a4", documentId, user.id, "deleted", "2024-01-03 10:00:00");
+
+    const first = await query(noFilter, 2);
+    expect(first.entries.map((entry) => entry.id)).toEqual(["a4", "a3"]);
+    expect(Option.isSome(first.nextCursor)).toBe(true);
+
+    const second = await query(noFilter, 2, first.nextCursor);
+    expect(second.entries.map((entry) => entry.id)).toEqual(["a2", "a1"]);
+    expect(Option.isNone(second.nextCursor)).toBe(true);
+  });
+
+  test("should filter by document, action and date range", async () => {
+    const { user, documents } = seedUserWithDocuments(db, 2);
+    const [first, second] = documents;
+    seedAudit("b1", first.id, user.id, "created", "2024-01-01 10:00:00");
+    seedAudit("b2", first.id, user.id, "updated", "2024-02-01 10:00:00");
+    seedAudit("b3", second.id, user.id, "updated", "2024-02-01 11:00:00");
+
+    const byDocument = await query(
+      { ...noFilter, documentId: Option.some(first.id as DocumentId) },
+      10
+    );
+    expect(byDocument.entries.map((entry) => entry.id)).toEqual(["b2", "b1"]);
+
+    const byActionAndRange = await query(
+      {
+        ...noFilter,
+        action: Option.some("updated"),
+        from: Option.some(new Date("2024-02-01T10:30:00Z")),
+        to: Option.some(new Date("2024-02-28T00:00:00Z")),
+      },
+      10
+    );
+    expect(byActionAndRange.entries.map((entry) => entry.id)).toEqual(["b3"]);
+  });
+
+  test("should verify chains and report the first broken link", async () => {
+    const { user, documents } = seedUserWithDocuments(db, 2);
+    const [first, second] = documents;
+    db.transaction((tx) =>
+      appendAuditEntries(
+        tx,
+        ["created", "updated", "shared"].flatMap((action) =>
+          documents.map((doc) => ({
+            documentId: doc.id,
+            action,
+            performedBy: user.id,
+            details: "",
+          }))
+        )
+      )
+    );
+
+    const intact = await verifyChain(Option.none());
+    expect(Option.isNone(intact.brokenLink)).toBe(true);
+    expect(intact.documentsChecked).toBe(2);
+    expect(intact.entriesChecked).toBe(6);
+
+    db.$client.run(
+      "UPDATE document_audit SET action = 'viewed' WHERE document_id = ? AND sequence = 2",
+      [second.id]
+    );
+
+    const tampered = await verifyChain(Option.none());
+    const brokenLink = Option.getOrThrow(tampered.brokenLink);
+    expect(brokenLink.documentId).toBe(second.id);
+    expect(brokenLink.sequence).toBe(2);
+    expect(brokenLink.reason).toBe("HASH_MISMATCH");
+
+    const untouched = await verifyChain(Option.some(first.id as DocumentId));
+    expect(Option.isNone(untouched.brokenLink)).toBe(true);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Document Query Integration Tests
+ *
+ * Tests for querying documents by metadata predicates, filename text and
+ * MIME type, limited to what the user may read
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import {
+  seedUser,
+  seedDocument,
+  seedVersion,
+  seedMetadata,
+  seedPermission,
+} from "../helpers";
+import { createMockStorage } from "../mocks";
+import * as DocumentWorkflows from "../../app/application/workflows/document-workflow";
+import type { QueryDocumentsInput } from "../../app/application/dtos/document/request.dto";
+import { DocumentRepositoryTag } from "../../app/domain/document/repository";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { PermissionRepositoryTag } from "../../app/domain/permission/repository";
+import { GroupRepositoryTag } from "../../app/domain/group/repository";
+import { FolderRepositoryTag } from "../../app/domain/folder/repository";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { DocumentRepositoryLive } from "../../app/infrastructure/repositories/document-repository.impl";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { PermissionRepositoryLive } from "../../app/infrastructure/repositories/permission-repository.impl";
+import { GroupRepositoryLive } from "../../app/infrastructure/repositories/group-repository.impl";
+import { FolderRepositoryLive } from "../../app/infrastructure/repositories/folder-repository.impl";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+
+describe("Document Query Integration Tests", () => {
+  let db: TestDatabase;
+
+  const layer = () =>
+    Layer.provide(
+      Layer.mergeAll(
+        DocumentRepositoryLive,
+        UserRepositoryLive,
+        PermissionRepositoryLive,
+        GroupRepositoryLive,
+        FolderRepositoryLive,
+        DrizzleAuditLive
+      ),
+      Layer.succeed(DrizzleService, { db })
+    );
+
+  const query = (input: QueryDocumentsInput) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          const deps: DocumentWorkflows.DocumentWorkflowDeps = {
+            documentRepo: yield* DocumentRepositoryTag,
+            userRepo: yield* UserRepositoryTag,
+            permissionRepo: yield* PermissionRepositoryTag,
+            groupRepo: yield* GroupRepositoryTag,
+            folderRepo: yield* FolderRepositoryTag,
+            storageService: createMockStorage(),
+            auditService: yield* AuditPortTag,
+          };
+          return yield* DocumentWorkflows.queryDocuments(deps)(input);
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  // Filenames of the documents found, sorted
+  const found = async (input: QueryDocumentsInput) => {
+    const result = await query(input);
+    if (result._tag === "Left") throw result.left;
+    return result.right.data.map((item) => item.document.filename).sort();
+  };
+
+  // Workflows decode IDs, which factory IDs do not pass
+  const seedAccount = (role = "USER") =>
+    seedUser(db, { id: UuidGenerators.userId(), role });
+
+  const seedFile = (
+    ownerId: string,
+    filename: string,
+    mimeType: string,
+    metadata: Record<string, string> = {}
+  ) => {
+    const document = seedDocument(db, {
+      id: UuidGenerators.documentId(),
+      filename,
+      original_name: filename,
+      mime_type: mimeType,
+      uploaded_by: ownerId,
+    });
+    seedVersion(db, {
+      id: UuidGenerators.documentVersionId(),
+      document_id: document.id,
+      filename,
+      mime_type: mimeType,
+      uploaded_by: ownerId,
+    });
+    for (const [key, value] of Object.entries(metadata)) {
+      seedMetadata(db, {
+        id: UuidGenerators.uuid(),
+        document_id: document.id,
+        key,
+        value,
+      });
+    }
+    return document;
+  };
+
+  // One user's documents: two invoices and a contract
+  const seedLibrary = () => {
+    const owner = seedAccount();
+    seedFile(owner.id, "invoice-march.pdf", "application/pdf", {
+      type: "invoice",
+      status: "paid",
+    });
+    seedFile(owner.id, "invoice-april.txt", "text/plain", {
+      type: "invoice",
+      status: "open",
+    });
+    seedFile(owner.id, "contract.pdf", "application/pdf", {
+      type: "contract",
+    });
+    return owner;
+  };
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should match metadata with eq, in and exists", async () => {
+    const owner = seedLibrary();
+
+    expect(
+      await found({
+        userId: owner.id,
+        metadata: [{ key: "type", op: "eq", value: "invoice" }],
+      })
+    ).toEqual(["invoice-april.txt", "invoice-march.pdf"]);
+    expect(
+      await found({
+        userId: owner.id,
+        metadata: [{ key: "status", op: "in", values: ["paid", "void"] }],
+      })
+    ).toEqual(["invoice-march.pdf"]);
+    expect(
+      await found({
+        userId: owner.id,
+        metadata: [{ key: "status", op: "exists" }],
+      })
+    ).toEqual(["invoice-april.txt", "invoice-march.pdf"]);
+  });
+
+  test("should combine all conditions", async () => {
+    const owner = seedLibrary();
+
+    expect(
+      await found({
+        userId: owner.id,
+        text: "invoice",
+        mimeType: "application/pdf",
+        metadata: [{ key: "type", op: "eq", value: "invoice" }],
+      })
+    ).toEqual(["invoice-march.pdf"]);
+    expect(
+      await found({
+        userId: owner.id,
+        metadata: [
+          { key: "type", op: "eq", value: "invoice" },
+          { key: "status", op: "eq", value: "void" },
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  test("should only find documents the user may read", async () => {
+    const owner = seedLibrary();
+    const reader = seedAccount();
+    const admin = seedAccount("ADMIN");
+    const shared = seedFile(owner.id, "invoice-may.pdf", "application/pdf", {
+      type: "invoice",
+    });
+    seedPermission(db, {
+      id: UuidGenerators.uuid(),
+      document_id: shared.id,
+      user_id: reader.id,
+      granted_by: owner.id,
+    });
+    const invoices: QueryDocumentsInput["metadata"] = [
+      { key: "type", op: "eq", value: "invoice" },
+    ];
+
+    expect(await found({ userId: reader.id, metadata: invoices })).toEqual([
+      "invoice-may.pdf",
+    ]);
+    expect(await found({ userId: admin.id, metadata: invoices })).toHaveLength(
+      3
+    );
+  });
+
+  test("should leave out trashed documents", async () => {
+    const owner = seedLibrary();
+    db.$client.run(
+      "UPDATE documents SET deleted_at = ? WHERE filename = ?",
+      new Date().toISOString(),
+      "contract.pdf"
+    );
+
+    expect(
+      await found({ userId: owner.id, mimeType: "application/pdf" })
+    ).toEqual(["invoice-march.pdf"]);
+  });
+
+  test("should reject a malformed predicate", async () => {
+    const owner = seedLibrary();
+
+    const result = await query({
+      userId: owner.id,
+      metadata: [{ key: "status", op: "in", values: [] }],
+    });
+
+    expect(result._tag).toBe("Left");
+  });
+});
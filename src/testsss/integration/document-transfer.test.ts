@@ -0,0 +1,302 @@
+/**
+ * Document Transfer Integration Tests
+ *
+ * Tests for handing documents over to another owner, one at a time or all
+ * documents of a user at once, including that a failed transfer changes
+ * nothing
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import {
+  seedUser,
+  seedDocument,
+  seedVersion,
+  seedPermission,
+  getDocumentById,
+  getPermissionsForDocument,
+  errorTag,
+} from "../helpers";
+import { createMockStorage } from "../mocks";
+import * as DocumentWorkflows from "../../app/application/workflows/document-workflow";
+import { DocumentRepositoryTag } from "../../app/domain/document/repository";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { PermissionRepositoryTag } from "../../app/domain/permission/repository";
+import { GroupRepositoryTag } from "../../app/domain/group/repository";
+import { FolderRepositoryTag } from "../../app/domain/folder/repository";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { DocumentRepositoryLive } from "../../app/infrastructure/repositories/document-repository.impl";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { PermissionRepositoryLive } from "../../app/infrastructure/repositories/permission-repository.impl";
+import { GroupRepositoryLive } from "../../app/infrastructure/repositories/group-repository.impl";
+import { FolderRepositoryLive } from "../../app/infrastructure/repositories/folder-repository.impl";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+
+describe("Document Transfer Integration Tests", () => {
+  let db: TestDatabase;
+
+  const layer = () =>
+    Layer.provide(
+      Layer.mergeAll(
+        DocumentRepositoryLive,
+        UserRepositoryLive,
+        PermissionRepositoryLive,
+        GroupRepositoryLive,
+        FolderRepositoryLive,
+        DrizzleAuditLive
+      ),
+      Layer.succeed(DrizzleService, { db })
+    );
+
+  const run = <A, E>(
+    use: (deps: DocumentWorkflows.DocumentWorkflowDeps) => Effect.Effect<A, E>
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          const deps: DocumentWorkflows.DocumentWorkflowDeps = {
+            documentRepo: yield* DocumentRepositoryTag,
+            userRepo: yield* UserRepositoryTag,
+            permissionRepo: yield* PermissionRepositoryTag,
+            groupRepo: yield* GroupRepositoryTag,
+            folderRepo: yield* FolderRepositoryTag,
+            storageService: createMockStorage(),
+            auditService: yield* AuditPortTag,
+          };
+          return yield* use(deps);
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  // Workflows decode IDs, which factory IDs do not pass
+  const seedAccount = (role = "USER") =>
+    seedUser(db, { id: UuidGenerators.userId(), role });
+
+  const seedFolder = (ownerId: string) => {
+    const id = UuidGenerators.folderId();
+    db.$client.run(
+      "INSERT INTO folders (id, name, owner_id) VALUES (?, ?, ?)",
+      id,
+      `Folder ${id}`,
+      ownerId
+    );
+    return id;
+  };
+
+  // Seed a document with one version, optionally inside a folder
+  const seedOwnedDocument = (
+    ownerId: string,
+    filename = "report.pdf",
+    folderId: string | null = null
+  ) => {
+    const document = seedDocument(db, {
+      id: UuidGenerators.documentId(),
+      filename,
+      uploaded_by: ownerId,
+    });
+    seedVersion(db, {
+      id: UuidGenerators.documentVersionId(),
+      document_id: document.id,
+      filename,
+      uploaded_by: ownerId,
+    });
+    db.$client.run(
+      "UPDATE documents SET folder_id = ? WHERE id = ?",
+      folderId,
+      document.id
+    );
+    return document;
+  };
+
+  const grant = (documentId: string, userId: string, grantedBy: string) =>
+    seedPermission(db, {
+      id: UuidGenerators.uuid(),
+      document_id: documentId,
+      user_id: userId,
+      granted_by: grantedBy,
+    });
+
+  const transfer = (
+    documentId: string,
+    userId: string,
+    newOwnerId: string,
+    keepPreviousOwnerAccess?: boolean
+  ) =>
+    run((deps) =>
+      DocumentWorkflows.transferOwnership(deps)({
+        documentId,
+        userId,
+        newOwnerId,
+        keepPreviousOwnerAccess,
+      })
+    );
+
+  const transferAll = (userId: string, fromUserId: string, toUserId: string) =>
+    run((deps) =>
+      DocumentWorkflows.transferAllOwnership(deps)({
+        userId,
+        fromUserId,
+        toUserId,
+      })
+    );
+
+  const grantsOf = (documentId: string) =>
+    getPermissionsForDocument(db, documentId).map((row) => ({
+      userId: row.user_id,
+      permission: row.permission,
+      expiresAt: row.expires_at,
+    }));
+
+  const auditCount = (documentId: string) =>
+    (
+      db.$client
+        .query(
+          "SELECT COUNT(*) AS count FROM document_audit WHERE document_id = ? AND action = 'ownership_transferred'"
+        )
+        .get(documentId) as { count: number }
+    ).count;
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should move a document to the new owner's root level", async () => {
+    const owner = seedAccount();
+    const newOwner = seedAccount();
+    const document = seedOwnedDocument(
+      owner.id,
+      "report.pdf",
+      seedFolder(owner.id)
+    );
+    grant(document.id, newOwner.id, owner.id);
+
+    const result = await transfer(document.id, owner.id, newOwner.id);
+
+    expect(result._tag).toBe("Right");
+    const stored = getDocumentById(db, document.id);
+    expect(stored.uploaded_by).toBe(newOwner.id);
+    expect(stored.folder_id).toBeNull();
+    expect(grantsOf(document.id)).toEqual([]);
+    expect(auditCount(document.id)).toBe(1);
+  });
+
+  test("should let the previous owner keep WRITE access", async () => {
+    const owner = seedAccount();
+    const newOwner = seedAccount();
+    const fresh = seedOwnedDocument(owner.id, "fresh.pdf");
+    const granted = seedOwnedDocument(owner.id, "granted.pdf");
+    grant(granted.id, owner.id, newOwner.id);
+    db.$client.run(
+      "UPDATE document_permissions SET expires_at = ? WHERE document_id = ?",
+      new Date(Date.now() + 60_000).toISOString(),
+      granted.id
+    );
+
+    await transfer(fresh.id, owner.id, newOwner.id, true);
+    await transfer(granted.id, owner.id, newOwner.id, true);
+
+    const writeAccess = {
+      userId: owner.id,
+      permission: "WRITE",
+      expiresAt: null,
+    };
+    expect(grantsOf(fresh.id)).toEqual([writeAccess]);
+    expect(grantsOf(granted.id)).toEqual([writeAccess]);
+  });
+
+  test("should only let the owner or an admin transfer a document", async () => {
+    const owner = seedAccount();
+    const other = seedAccount();
+    const admin = seedAccount("ADMIN");
+    const document = seedOwnedDocument(owner.id);
+
+    const byOther = await transfer(document.id, other.id, other.id);
+    const byAdmin = await transfer(document.id, admin.id, other.id);
+
+    expect(errorTag(byOther)).toBe("ForbiddenError");
+    expect(byAdmin._tag).toBe("Right");
+    expect(getDocumentById(db, document.id).uploaded_by).toBe(other.id);
+  });
+
+  test("should refuse a namesake at the new owner's root level", async () => {
+    const owner = seedAccount();
+    const newOwner = seedAccount();
+    const document = seedOwnedDocument(owner.id);
+    seedOwnedDocument(newOwner.id);
+
+    const result = await transfer(document.id, owner.id, newOwner.id);
+
+    expect(errorTag(result)).toBe("DuplicateDocumentError");
+    expect(getDocumentById(db, document.id).uploaded_by).toBe(owner.id);
+  });
+
+  test("should change nothing when the transfer cannot be audited", async () => {
+    const owner = seedAccount();
+    const newOwner = seedAccount();
+    const document = seedOwnedDocument(owner.id);
+    grant(document.id, newOwner.id, owner.id);
+    db.$client.run(`
+      CREATE TRIGGER audit_unavailable BEFORE INSERT ON document_audit
+      BEGIN SELECT RAISE(ABORT, 'audit unavailable'); END;
+    `);
+
+    const result = await transfer(document.id, owner.id, newOwner.id, true);
+
+    expect(result._tag).toBe("Left");
+    expect(getDocumentById(db, document.id).uploaded_by).toBe(owner.id);
+    expect(grantsOf(document.id)).toEqual([
+      { userId: newOwner.id, permission: "READ", expiresAt: null },
+    ]);
+  });
+
+  test("should transfer all documents and report the ones skipped", async () => {
+    const admin = seedAccount("ADMIN");
+    const owner = seedAccount();
+    const newOwner = seedAccount();
+    const moved = seedOwnedDocument(owner.id, "moved.pdf");
+    const clashing = seedOwnedDocument(owner.id, "clash.pdf");
+    const trashed = seedOwnedDocument(owner.id, "trashed.pdf");
+    seedOwnedDocument(newOwner.id, "clash.pdf");
+    db.$client.run(
+      "UPDATE documents SET deleted_at = ? WHERE id = ?",
+      new Date().toISOString(),
+      trashed.id
+    );
+
+    const result = await transferAll(admin.id, owner.id, newOwner.id);
+
+    expect(result._tag).toBe("Right");
+    if (result._tag === "Right") {
+      expect(result.right.transferredCount).toBe(1);
+      expect(result.right.skipped.map((item) => item.documentId)).toEqual([
+        clashing.id,
+      ]);
+    }
+    expect(getDocumentById(db, moved.id).uploaded_by).toBe(newOwner.id);
+    expect(getDocumentById(db, clashing.id).uploaded_by).toBe(owner.id);
+    expect(getDocumentById(db, trashed.id).uploaded_by).toBe(owner.id);
+  });
+
+  test("should only let admins transfer all documents of a user", async () => {
+    const owner = seedAccount();
+    const newOwner = seedAccount();
+    seedOwnedDocument(owner.id);
+
+    const result = await transferAll(owner.id, owner.id, newOwner.id);
+
+    expect(errorTag(result)).toBe("ForbiddenError");
+  });
+});
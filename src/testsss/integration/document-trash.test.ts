@@ -0,0 +1,340 @@
+/**
+ * Document Trash Integration Tests
+ *
+ * Tests for moving documents to the trash, restoring them and purging
+ * expired trash, including storage failures during a purge
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer, Option } from "effect";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import {
+  seedUser,
+  seedDocument,
+  seedVersion,
+  getDocumentById,
+  errorTag,
+} from "../helpers";
+import { createMockStorage } from "../mocks";
+import * as DocumentWorkflows from "../../app/application/workflows/document-workflow";
+import { DocumentRepositoryTag } from "../../app/domain/document/repository";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { PermissionRepositoryTag } from "../../app/domain/permission/repository";
+import { GroupRepositoryTag } from "../../app/domain/group/repository";
+import { FolderRepositoryTag } from "../../app/domain/folder/repository";
+import { AuditRepositoryTag } from "../../app/domain/audit/repository";
+import { DocumentStorageError } from "../../app/domain/document/errors";
+import type { Checksum } from "../../app/domain/document/value-object";
+import { UuidGenerators, type DocumentId } from "../../app/domain/refined/uuid";
+import {
+  StoragePortTag,
+  type StoragePort,
+} from "../../app/application/ports/storage.port";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { DocumentRepositoryLive } from "../../app/infrastructure/repositories/document-repository.impl";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { PermissionRepositoryLive } from "../../app/infrastructure/repositories/permission-repository.impl";
+import { GroupRepositoryLive } from "../../app/infrastructure/repositories/group-repository.impl";
+import { FolderRepositoryLive } from "../../app/infrastructure/repositories/folder-repository.impl";
+import { AuditRepositoryLive } from "../../app/infrastructure/repositories/audit-repository.impl";
+import { LocalStorageLive } from "../../app/infrastructure/adapters/local-storage.adapter";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+
+describe("Document Trash Integration Tests", () => {
+  let db: TestDatabase;
+  let fileRoot: string;
+
+  const localStorage = Effect.runSync(
+    Effect.provide(StoragePortTag, LocalStorageLive)
+  );
+
+  const layer = () =>
+    Layer.provide(
+      Layer.mergeAll(
+        DocumentRepositoryLive,
+        UserRepositoryLive,
+        PermissionRepositoryLive,
+        GroupRepositoryLive,
+        FolderRepositoryLive,
+        AuditRepositoryLive,
+        DrizzleAuditLive
+      ),
+      Layer.succeed(DrizzleService, { db })
+    );
+
+  const run = <A, E>(
+    use: (deps: DocumentWorkflows.DocumentWorkflowDeps) => Effect.Effect<A, E>,
+    storageService: StoragePort = localStorage
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          const deps: DocumentWorkflows.DocumentWorkflowDeps = {
+            documentRepo: yield* DocumentRepositoryTag,
+            userRepo: yield* UserRepositoryTag,
+            permissionRepo: yield* PermissionRepositoryTag,
+            groupRepo: yield* GroupRepositoryTag,
+            folderRepo: yield* FolderRepositoryTag,
+            storageService,
+            auditService: yield* AuditPortTag,
+          };
+          return yield* use(deps);
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  // Workflows decode IDs, which factory IDs do not pass
+  const seedAccount = (role = "USER") =>
+    seedUser(db, { id: UuidGenerators.userId(), role });
+
+  // Seed a document whose single version is stored in a real file
+  const seedStoredDocument = (ownerId: string, filename = "report.pdf") => {
+    const document = seedDocument(db, {
+      id: UuidGenerators.documentId(),
+      filename,
+      uploaded_by: ownerId,
+    });
+    const filePath = path.join(fileRoot, `${document.id}.pdf`);
+    fs.writeFileSync(filePath, "content");
+    seedVersion(db, {
+      id: UuidGenerators.documentVersionId(),
+      document_id: document.id,
+      filename,
+      path: filePath,
+      uploaded_by: ownerId,
+    });
+    return { ...document, filePath };
+  };
+
+  const trash = (documentId: string, userId: string) =>
+    run((deps) =>
+      DocumentWorkflows.deleteDocument(deps)({ documentId, userId })
+    );
+
+  // Backdate a trashed document past the retention period
+  const expire = (documentId: string) =>
+    db.$client.run(
+      "UPDATE documents SET deleted_at = ? WHERE id = ?",
+      new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString(),
+      documentId
+    );
+
+  const purge = (userId: string, storage?: StoragePort) =>
+    run((deps) => DocumentWorkflows.purgeTrash(deps)({ userId }), storage);
+
+  const auditActions = (documentId: string) =>
+    (
+      db.$client
+        .query(
+          "SELECT action FROM document_audit WHERE document_id = ? ORDER BY sequence"
+        )
+        .all(documentId) as { action: string }[]
+    ).map((row) => row.action);
+
+  const verifyChain = (documentId: string) =>
+    Effect.runPromise(
+      Effect.flatMap(AuditRepositoryTag, (repo) =>
+        repo.verifyChain(Option.some(documentId as DocumentId))
+      ).pipe(Effect.provide(layer()))
+    );
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+    fileRoot = fs.mkdtempSync(path.join(os.tmpdir(), "trash-test-"));
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+    fs.rmSync(fileRoot, { recursive: true, force: true });
+  });
+
+  test("should move a document to the trash and keep its file", async () => {
+    const owner = seedAccount();
+    const document = seedStoredDocument(owner.id);
+
+    const result = await trash(document.id, owner.id);
+    const fetched = await run((deps) =>
+      DocumentWorkflows.getDocument(deps)({
+        documentId: document.id,
+        userId: owner.id,
+      })
+    );
+    const listed = await run((deps) =>
+      DocumentWorkflows.listTrash(deps)({ userId: owner.id })
+    );
+
+    expect(result._tag).toBe("Right");
+    expect(errorTag(fetched)).toBe("NotFoundError");
+    expect(
+      listed._tag === "Right" &&
+        listed.right.data.map((item) => item.document.id)
+    ).toEqual([document.id]);
+    expect(fs.existsSync(document.filePath)).toBe(true);
+    expect(auditActions(document.id)).toEqual(["trashed"]);
+  });
+
+  test("should restore a trashed document", async () => {
+    const owner = seedAccount();
+    const document = seedStoredDocument(owner.id);
+    await trash(document.id, owner.id);
+
+    const result = await run((deps) =>
+      DocumentWorkflows.restoreDocument(deps)({
+        documentId: document.id,
+        userId: owner.id,
+      })
+    );
+
+    expect(result._tag).toBe("Right");
+    expect(getDocumentById(db, document.id).deleted_at).toBeNull();
+    expect(auditActions(document.id)).toEqual(["trashed", "untrashed"]);
+  });
+
+  test("should not restore over a document that took the filename", async () => {
+    const owner = seedAccount();
+    const document = seedStoredDocument(owner.id);
+    await trash(document.id, owner.id);
+    seedStoredDocument(owner.id);
+
+    const result = await run((deps) =>
+      DocumentWorkflows.restoreDocument(deps)({
+        documentId: document.id,
+        userId: owner.id,
+      })
+    );
+
+    expect(errorTag(result)).toBe("DuplicateDocumentError");
+  });
+
+  test("should not let other users trash or restore a document", async () => {
+    const owner = seedAccount();
+    const other = seedAccount();
+    const document = seedStoredDocument(owner.id);
+
+    const trashed = await trash(document.id, other.id);
+    await trash(document.id, owner.id);
+    const restored = await run((deps) =>
+      DocumentWorkflows.restoreDocument(deps)({
+        documentId: document.id,
+        userId: other.id,
+      })
+    );
+
+    expect(trashed._tag).toBe("Left");
+    expect(restored._tag).toBe("Left");
+  });
+
+  test("should not find a trashed document by checksum", async () => {
+    const owner = seedAccount();
+    const trashed = seedStoredDocument(owner.id, "old.pdf");
+    const active = seedStoredDocument(owner.id, "new.pdf");
+    db.$client.run("UPDATE document_versions SET checksum = 'abc'");
+    await trash(trashed.id, owner.id);
+
+    const found = await run((deps) =>
+      deps.documentRepo.findByChecksum("abc" as Checksum)
+    );
+
+    expect(
+      found._tag === "Right" &&
+        Option.map(found.right, (document) => document.id)
+    ).toEqual(Option.some(active.id));
+  });
+
+  test("should purge expired trash and its files", async () => {
+    const admin = seedAccount("ADMIN");
+    const owner = seedAccount();
+    const expired = seedStoredDocument(owner.id, "old.pdf");
+    const recent = seedStoredDocument(owner.id, "new.pdf");
+    await trash(expired.id, owner.id);
+    await trash(recent.id, owner.id);
+    expire(expired.id);
+
+    const result = await purge(admin.id);
+
+    expect(result._tag === "Right" && result.right.purgedCount).toBe(1);
+    expect(getDocumentById(db, expired.id)).toBeNull();
+    expect(fs.existsSync(expired.filePath)).toBe(false);
+    expect(getDocumentById(db, recent.id)).not.toBeNull();
+    expect(fs.existsSync(recent.filePath)).toBe(true);
+  });
+
+  test("should keep the audit chain of a purged document", async () => {
+    const admin = seedAccount("ADMIN");
+    const owner = seedAccount();
+    const document = seedStoredDocument(owner.id);
+    await trash(document.id, owner.id);
+    expire(document.id);
+
+    await purge(admin.id);
+    const verification = await verifyChain(document.id);
+
+    expect(auditActions(document.id)).toEqual(["trashed", "purged"]);
+    expect(verification.entriesChecked).toBe(2);
+    expect(Option.isNone(verification.brokenLink)).toBe(true);
+  });
+
+  test("should purge a document whose file is already gone", async () => {
+    const admin = seedAccount("ADMIN");
+    const owner = seedAccount();
+    const document = seedStoredDocument(owner.id);
+    await trash(document.id, owner.id);
+    expire(document.id);
+    fs.unlinkSync(document.filePath);
+
+    const result = await purge(admin.id);
+
+    expect(result._tag).toBe("Right");
+    if (result._tag === "Right") {
+      expect(result.right.purgedCount).toBe(1);
+      expect(result.right.failedCount).toBe(0);
+    }
+    expect(getDocumentById(db, document.id)).toBeNull();
+  });
+
+  test("should keep purging past a document that fails", async () => {
+    const admin = seedAccount("ADMIN");
+    const owner = seedAccount();
+    const broken = seedStoredDocument(owner.id, "broken.pdf");
+    const healthy = seedStoredDocument(owner.id, "healthy.pdf");
+    for (const document of [broken, healthy]) {
+      await trash(document.id, owner.id);
+      expire(document.id);
+    }
+    const failingStorage: StoragePort = {
+      ...createMockStorage(),
+      deleteFile: (filePath) =>
+        filePath === broken.filePath
+          ? Effect.fail(new DocumentStorageError({ message: "Disk error" }))
+          : Effect.void,
+    };
+
+    const result = await purge(admin.id, failingStorage);
+
+    expect(result._tag).toBe("Right");
+    if (result._tag === "Right") {
+      expect(result.right.purgedCount).toBe(1);
+      expect(result.right.failedCount).toBe(1);
+    }
+    expect(getDocumentById(db, broken.id)).not.toBeNull();
+    expect(getDocumentById(db, healthy.id)).toBeNull();
+  });
+
+  test("should only let admins purge the trash", async () => {
+    const owner = seedAccount();
+
+    const result = await purge(owner.id);
+
+    expect(errorTag(result)).toBe("ForbiddenError");
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Document Version Restore Integration Tests
+ *
+ * Tests for restoring a previous version as the new latest version, and
+ * for purging documents whose versions share a stored file
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import {
+  seedUser,
+  seedDocument,
+  seedVersion,
+  seedPermission,
+  getVersionsForDocument,
+  errorTag,
+} from "../helpers";
+import { createMockStorage } from "../mocks";
+import * as DocumentWorkflows from "../../app/application/workflows/document-workflow";
+import { DocumentRepositoryTag } from "../../app/domain/document/repository";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { PermissionRepositoryTag } from "../../app/domain/permission/repository";
+import { GroupRepositoryTag } from "../../app/domain/group/repository";
+import { FolderRepositoryTag } from "../../app/domain/folder/repository";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+import type { StoragePort } from "../../app/application/ports/storage.port";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { DocumentRepositoryLive } from "../../app/infrastructure/repositories/document-repository.impl";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { PermissionRepositoryLive } from "../../app/infrastructure/repositories/permission-repository.impl";
+import { GroupRepositoryLive } from "../../app/infrastructure/repositories/group-repository.impl";
+import { FolderRepositoryLive } from "../../app/infrastructure/repositories/folder-repository.impl";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+
+describe("Document Version Restore Integration Tests", () => {
+  let db: TestDatabase;
+  let storageService: StoragePort;
+  let deletedPaths: string[];
+
+  const layer = () =>
+    Layer.provide(
+      Layer.mergeAll(
+        DocumentRepositoryLive,
+        UserRepositoryLive,
+        PermissionRepositoryLive,
+        GroupRepositoryLive,
+        FolderRepositoryLive,
+        DrizzleAuditLive
+      ),
+      Layer.succeed(DrizzleService, { db })
+    );
+
+  const run = <A, E>(
+    use: (deps: DocumentWorkflows.DocumentWorkflowDeps) => Effect.Effect<A, E>
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          const deps: DocumentWorkflows.DocumentWorkflowDeps = {
+            documentRepo: yield* DocumentRepositoryTag,
+            userRepo: yield* UserRepositoryTag,
+            permissionRepo: yield* PermissionRepositoryTag,
+            groupRepo: yield* GroupRepositoryTag,
+            folderRepo: yield* FolderRepositoryTag,
+            storageService,
+            auditService: yield* AuditPortTag,
+          };
+          return yield* use(deps);
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  // Workflows decode IDs, which factory IDs do not pass
+  const seedAccount = (role = "USER") =>
+    seedUser(db, { id: UuidGenerators.userId(), role });
+
+  // Seed a document with two versions, each in its own file
+  const seedVersionedDocument = (ownerId: string) => {
+    const document = seedDocument(db, {
+      id: UuidGenerators.documentId(),
+      uploaded_by: ownerId,
+    });
+    const versions = [1, 2].map((versionNumber) =>
+      seedVersion(db, {
+        id: UuidGenerators.documentVersionId(),
+        document_id: document.id,
+        filename: `report-v${versionNumber}.pdf`,
+        path: `/uploads/${document.id}/v${versionNumber}.pdf`,
+        version_number: versionNumber,
+        uploaded_by: ownerId,
+      })
+    );
+    return { document, versions };
+  };
+
+  const restore = (documentId: string, versionId: string, userId: string) =>
+    run((deps) =>
+      DocumentWorkflows.restoreVersion(deps)({ documentId, versionId, userId })
+    );
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+    deletedPaths = [];
+    storageService = {
+      ...createMockStorage(),
+      deleteFile: (filePath) =>
+        Effect.sync(() => {
+          deletedPaths.push(filePath);
+        }),
+    };
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should restore a version as the new latest version", async () => {
+    const owner = seedAccount();
+    const { document, versions } = seedVersionedDocument(owner.id);
+
+    const result = await restore(document.id, versions[0].id, owner.id);
+
+    expect(result._tag).toBe("Right");
+    if (result._tag === "Right") {
+      expect(result.right.latestVersion.versionNumber).toBe(3);
+      expect(result.right.latestVersion.filename).toBe("report-v1.pdf");
+    }
+    const stored = getVersionsForDocument(db, document.id);
+    expect(stored.map((version) => version.path)).toEqual([
+      versions[0].path,
+      versions[1].path,
+      versions[0].path,
+    ]);
+    expect(
+      db.$client
+        .query("SELECT action FROM document_audit WHERE document_id = ?")
+        .all(document.id)
+    ).toEqual([{ action: "restored" }]);
+  });
+
+  test("should refuse to restore the latest version", async () => {
+    const owner = seedAccount();
+    const { document, versions } = seedVersionedDocument(owner.id);
+
+    const result = await restore(document.id, versions[1].id, owner.id);
+
+    expect(errorTag(result)).toBe("DocumentValidationError");
+    expect(getVersionsForDocument(db, document.id)).toHaveLength(2);
+  });
+
+  test("should refuse a version of another document", async () => {
+    const owner = seedAccount();
+    const { document } = seedVersionedDocument(owner.id);
+    const other = seedVersionedDocument(owner.id);
+
+    const result = await restore(document.id, other.versions[0].id, owner.id);
+
+    expect(errorTag(result)).toBe("NotFoundError");
+  });
+
+  test("should require WRITE access to restore", async () => {
+    const owner = seedAccount();
+    const reader = seedAccount();
+    const { document, versions } = seedVersionedDocument(owner.id);
+    seedPermission(db, {
+      id: UuidGenerators.uuid(),
+      document_id: document.id,
+      user_id: reader.id,
+      granted_by: owner.id,
+      permission: "READ",
+    });
+
+    const result = await restore(document.id, versions[0].id, reader.id);
+
+    expect(errorTag(result)).toBe("InsufficientPermissionError");
+  });
+
+  test("should delete a file shared by restored versions once on purge", async () => {
+    const admin = seedAccount("ADMIN");
+    const owner = seedAccount();
+    const { document, versions } = seedVersionedDocument(owner.id);
+    await restore(document.id, versions[0].id, owner.id);
+    await run((deps) =>
+      DocumentWorkflows.deleteDocument(deps)({
+        documentId: document.id,
+        userId: owner.id,
+      })
+    );
+    db.$client.run(
+      "UPDATE documents SET deleted_at = ? WHERE id = ?",
+      new Date(0).toISOString(),
+      document.id
+    );
+
+    const result = await run((deps) =>
+      DocumentWorkflows.purgeTrash(deps)({ userId: admin.id })
+    );
+
+    expect(result._tag === "Right" && result.right.purgedCount).toBe(1);
+    expect(deletedPaths.sort()).toEqual(
+      [versions[0].path, versions[1].path].sort()
+    );
+  });
+});
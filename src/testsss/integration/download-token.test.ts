@@ -0,0 +1,182 @@
+/**
+ * Download Token Integration Tests
+ *
+ * Tests that a download token is consumed by its first download and can only
+ * resume that download forward, a limited number of times
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import { seedUser, seedDocument, seedVersion, errorTag } from "../helpers";
+import * as DownloadWorkflows from "../../app/application/workflows/download-token-workflow";
+import { DownloadTokenRepositoryTag } from "../../app/domain/download-token/repository";
+import { DocumentRepositoryTag } from "../../app/domain/document/repository";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { PermissionRepositoryTag } from "../../app/domain/permission/repository";
+import { GroupRepositoryTag } from "../../app/domain/group/repository";
+import { MAX_DOWNLOAD_RESUMES } from "../../app/domain/download-token/value-object";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+import type { DownloadFileInput } from "../../app/application/dtos/download-token/request.dto";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { DownloadTokenRepositoryLive } from "../../app/infrastructure/repositories/download-token-repository.impl";
+import { DocumentRepositoryLive } from "../../app/infrastructure/repositories/document-repository.impl";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { PermissionRepositoryLive } from "../../app/infrastructure/repositories/permission-repository.impl";
+import { GroupRepositoryLive } from "../../app/infrastructure/repositories/group-repository.impl";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+
+describe("Download Token Integration Tests", () => {
+  let db: TestDatabase;
+
+  const layer = () =>
+    Layer.provide(
+      Layer.mergeAll(
+        DownloadTokenRepositoryLive,
+        DocumentRepositoryLive,
+        UserRepositoryLive,
+        PermissionRepositoryLive,
+        GroupRepositoryLive,
+        DrizzleAuditLive
+      ),
+      Layer.succeed(DrizzleService, { db })
+    );
+
+  const download = (input: DownloadFileInput) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          const deps: DownloadWorkflows.DownloadTokenWorkflowDeps = {
+            tokenRepo: yield* DownloadTokenRepositoryTag,
+            documentRepo: yield* DocumentRepositoryTag,
+            userRepo: yield* UserRepositoryTag,
+            permissionRepo: yield* PermissionRepositoryTag,
+            groupRepo: yield* GroupRepositoryTag,
+            auditService: yield* AuditPortTag,
+          };
+          return yield* DownloadWorkflows.downloadFile(deps)(input);
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  // Seed a document with one version and a token for it
+  const seedToken = () => {
+    const user = seedUser(db, { id: UuidGenerators.userId() });
+    const document = seedDocument(db, {
+      id: UuidGenerators.documentId(),
+      uploaded_by: user.id,
+    });
+    const version = seedVersion(db, {
+      id: UuidGenerators.documentVersionId(),
+      document_id: document.id,
+      uploaded_by: user.id,
+    });
+    const token = `token-${version.id}`;
+    db.$client.run(
+      `INSERT INTO download_tokens (id, document_id, version_id, token, expires_at, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      UuidGenerators.downloadTokenId(),
+      document.id,
+      version.id,
+      token,
+      new Date(Date.now() + 60_000).toISOString(),
+      user.id,
+      new Date().toISOString()
+    );
+    // Versions seeded without a checksum are tagged by their ID
+    return { token, etag: `"${version.id}"` };
+  };
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should consume the token on the first download", async () => {
+    const { token } = seedToken();
+
+    const first = await download({ token });
+    const second = await download({ token });
+
+    expect(first._tag).toBe("Right");
+    expect(errorTag(second)).toBe("DownloadTokenAlreadyUsedError");
+  });
+
+  test("should let a used token resume further into the file", async () => {
+    const { token, etag } = seedToken();
+    await download({ token });
+
+    const resumed = await download({ token, resumeTag: etag, resumeFrom: 100 });
+    const further = await download({ token, resumeTag: etag, resumeFrom: 200 });
+
+    expect(resumed._tag).toBe("Right");
+    expect(further._tag).toBe("Right");
+  });
+
+  test("should refuse to replay a used token from the start", async () => {
+    const { token, etag } = seedToken();
+    await download({ token });
+
+    const fromStart = await download({ token, resumeTag: etag, resumeFrom: 0 });
+    const noRange = await download({ token, resumeTag: etag });
+
+    expect(errorTag(fromStart)).toBe("DownloadTokenAlreadyUsedError");
+    expect(errorTag(noRange)).toBe("DownloadTokenAlreadyUsedError");
+  });
+
+  test("should refuse a resume that does not move forward", async () => {
+    const { token, etag } = seedToken();
+    await download({ token });
+    await download({ token, resumeTag: etag, resumeFrom: 500 });
+
+    const same = await download({ token, resumeTag: etag, resumeFrom: 500 });
+    const earlier = await download({ token, resumeTag: etag, resumeFrom: 1 });
+
+    expect(errorTag(same)).toBe("DownloadTokenAlreadyUsedError");
+    expect(errorTag(earlier)).toBe("DownloadTokenAlreadyUsedError");
+  });
+
+  test("should refuse a resume with a stale entity tag", async () => {
+    const { token } = seedToken();
+    await download({ token });
+
+    const result = await download({
+      token,
+      resumeTag: '"stale"',
+      resumeFrom: 100,
+    });
+
+    expect(errorTag(result)).toBe("DownloadTokenAlreadyUsedError");
+  });
+
+  test("should cap the number of resumes", async () => {
+    const { token, etag } = seedToken();
+    await download({ token });
+    for (let resume = 1; resume <= MAX_DOWNLOAD_RESUMES; resume++) {
+      const result = await download({
+        token,
+        resumeTag: etag,
+        resumeFrom: resume,
+      });
+      expect(result._tag).toBe("Right");
+    }
+
+    const result = await download({
+      token,
+      resumeTag: etag,
+      resumeFrom: MAX_DOWNLOAD_RESUMES + 1,
+    });
+
+    expect(errorTag(result)).toBe("DownloadTokenAlreadyUsedError");
+  });
+});
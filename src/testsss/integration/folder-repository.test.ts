@@ -0,0 +1,115 @@
+/**
+ * FolderRepository Integration Tests
+ *
+ * Tests that folder names stay unique per owner and parent, including at
+ * the root level, when folders are created, renamed or moved
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer, Option } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import { seedUser, errorTag } from "../helpers";
+import { FolderEntity } from "../../app/domain/folder/entity";
+import { FolderRepositoryTag } from "../../app/domain/folder/repository";
+import type { FolderName } from "../../app/domain/folder/value-object";
+import { UuidGenerators, type FolderId } from "../../app/domain/refined/uuid";
+import { FolderRepositoryLive } from "../../app/infrastructure/repositories/folder-repository.impl";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+
+describe("FolderRepository Integration Tests", () => {
+  let db: TestDatabase;
+
+  const layer = () =>
+    Layer.provide(
+      FolderRepositoryLive,
+      Layer.succeed(DrizzleService, { db })
+    );
+
+  const run = <A, E>(effect: Effect.Effect<A, E, FolderRepositoryTag>) =>
+    Effect.runPromise(Effect.either(effect.pipe(Effect.provide(layer()))));
+
+  const makeFolder = (ownerId: string, name: string, parentId?: string) =>
+    Effect.runPromise(
+      FolderEntity.create({
+        id: UuidGenerators.folderId(),
+        name,
+        parentId,
+        ownerId,
+      })
+    );
+
+  const save = (folder: FolderEntity) =>
+    run(Effect.flatMap(FolderRepositoryTag, (repo) => repo.save(folder)));
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should reject a duplicate name under the same parent", async () => {
+    const owner = seedUser(db);
+    const parent = await makeFolder(owner.id, "Projects");
+    await save(parent);
+    await save(await makeFolder(owner.id, "Reports", parent.id));
+
+    const result = await save(await makeFolder(owner.id, "Reports", parent.id));
+
+    expect(errorTag(result)).toBe("FolderAlreadyExistsError");
+  });
+
+  test("should reject a duplicate name at the root level", async () => {
+    const owner = seedUser(db);
+    await save(await makeFolder(owner.id, "Projects"));
+
+    const result = await save(await makeFolder(owner.id, "Projects"));
+
+    expect(errorTag(result)).toBe("FolderAlreadyExistsError");
+  });
+
+  test("should allow the same name under other parents or owners", async () => {
+    const owner = seedUser(db);
+    const other = seedUser(db);
+    const parent = await makeFolder(owner.id, "Projects");
+    await save(parent);
+
+    const results = await Promise.all([
+      save(await makeFolder(owner.id, "Reports")),
+      save(await makeFolder(owner.id, "Reports", parent.id)),
+      save(await makeFolder(other.id, "Reports")),
+    ]);
+
+    expect(results.map((result) => result._tag)).toEqual([
+      "Right",
+      "Right",
+      "Right",
+    ]);
+  });
+
+  test("should reject renaming or moving into a taken name", async () => {
+    const owner = seedUser(db);
+    const parent = await makeFolder(owner.id, "Projects");
+    const reports = await makeFolder(owner.id, "Reports");
+    const nested = await makeFolder(owner.id, "Reports", parent.id);
+    const drafts = await makeFolder(owner.id, "Drafts");
+    for (const folder of [parent, reports, nested, drafts]) {
+      await save(folder);
+    }
+
+    const renamed = await save(drafts.rename("Reports" as FolderName));
+    const moved = await save(
+      reports.moveTo(Option.some(parent.id as FolderId))
+    );
+
+    expect(errorTag(renamed)).toBe("FolderAlreadyExistsError");
+    expect(errorTag(moved)).toBe("FolderAlreadyExistsError");
+  });
+});
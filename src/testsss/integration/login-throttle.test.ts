@@ -0,0 +1,315 @@
+/**
+ * Login Throttle Integration Tests
+ *
+ * Tests for failed login backoff per account and per IP, account lockout,
+ * failed second factors and unlocking by admins
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import { seedUser, errorTag } from "../helpers";
+import { createMockJwt } from "../mocks/jwt.mock";
+import {
+  createMockPasswordHasher,
+  mockHashedPassword,
+} from "../mocks/password-hasher.mock";
+import * as UserWorkflows from "../../app/application/workflows/user-workflow";
+import * as MfaWorkflows from "../../app/application/workflows/mfa-workflow";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { SessionRepositoryTag } from "../../app/domain/session/repository";
+import { MfaRepositoryTag } from "../../app/domain/mfa/repository";
+import { LoginThrottleRepositoryTag } from "../../app/domain/login-throttle/repository";
+import { AccountTokenRepositoryTag } from "../../app/domain/account-token/repository";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+import { totpCode, totpStep } from "../../app/domain/mfa/value-object";
+import type { MfaChallengeResponse } from "../../app/application/dtos/user/response.dto";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { JwtPortTag } from "../../app/application/ports/jwt.port";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { SessionRepositoryLive } from "../../app/infrastructure/repositories/session-repository.impl";
+import { MfaRepositoryLive } from "../../app/infrastructure/repositories/mfa-repository.impl";
+import { LoginThrottleRepositoryLive } from "../../app/infrastructure/repositories/login-throttle-repository.impl";
+import { AccountTokenRepositoryLive } from "../../app/infrastructure/repositories/account-token-repository.impl";
+import { makeInMemoryOutbox } from "../../app/infrastructure/adapters/outbox-mailer.adapter";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+
+describe("Login Throttle Integration Tests", () => {
+  let db: TestDatabase;
+  const password = "Secret123!";
+
+  const layer = () =>
+    Layer.merge(
+      Layer.provide(
+        Layer.mergeAll(
+          UserRepositoryLive,
+          SessionRepositoryLive,
+          MfaRepositoryLive,
+          LoginThrottleRepositoryLive,
+          AccountTokenRepositoryLive,
+          DrizzleAuditLive
+        ),
+        Layer.succeed(DrizzleService, { db })
+      ),
+      Layer.succeed(JwtPortTag, createMockJwt())
+    );
+
+  const run = <A, E>(
+    use: (deps: UserWorkflows.UserWorkflowDeps) => Effect.Effect<A, E>
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          const deps: UserWorkflows.UserWorkflowDeps = {
+            userRepo: yield* UserRepositoryTag,
+            sessionRepo: yield* SessionRepositoryTag,
+            mfaRepo: yield* MfaRepositoryTag,
+            loginThrottleRepo: yield* LoginThrottleRepositoryTag,
+            accountTokenRepo: yield* AccountTokenRepositoryTag,
+            passwordHasher: createMockPasswordHasher(),
+            jwtService: yield* JwtPortTag,
+            auditService: yield* AuditPortTag,
+            mailer: makeInMemoryOutbox().mailer,
+          };
+          return yield* use(deps);
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  // Workflows decode the user ID, which factory IDs do not pass
+  const seedSignedUpUser = (role: "USER" | "ADMIN" = "USER") =>
+    seedUser(db, {
+      id: UuidGenerators.userId(),
+      password: mockHashedPassword(password),
+      role,
+    });
+
+  const login = (email: string, attempt: string, ipAddress?: string) =>
+    run((deps) =>
+      UserWorkflows.loginUser(deps)({ email, password: attempt, ipAddress })
+    );
+
+  const failLogins = async (email: string, count: number, ip?: string) => {
+    for (let i = 0; i < count; i++) {
+      await login(email, "Wrong123!", ip);
+    }
+  };
+
+  // Skip the backoff instead of waiting for it
+  const expireBlock = () =>
+    db.$client.run("UPDATE login_throttles SET blocked_until = NULL");
+
+  // Fail until one failure short of the lockout, then once more
+  const lockAccount = async (email: string) => {
+    await failLogins(email, 4);
+    db.$client.run(
+      "UPDATE login_throttles SET failures = 9, blocked_until = NULL"
+    );
+    await failLogins(email, 1);
+  };
+
+  const accountFailures = () =>
+    (
+      db.$client
+        .query("SELECT failures FROM login_throttles WHERE scope = 'ACCOUNT'")
+        .get() as { failures: number } | null
+    )?.failures ?? 0;
+
+  // Enroll and confirm an authenticator, returning its secret
+  const enableMfa = async (userId: string) => {
+    const enrolled = await run((deps) =>
+      MfaWorkflows.enrollMfa(deps)({ userId })
+    );
+    if (enrolled._tag === "Left") throw enrolled.left;
+    const { secret } = enrolled.right;
+    await run((deps) =>
+      MfaWorkflows.confirmMfa(deps)({
+        userId,
+        code: totpCode(secret, totpStep(new Date())),
+      })
+    );
+    return secret;
+  };
+
+  const challengeFor = async (email: string) => {
+    const result = await login(email, password);
+    if (result._tag === "Left") throw result.left;
+    return (result.right as MfaChallengeResponse).challengeToken;
+  };
+
+  const verifyCode = (challengeToken: string, code: string) =>
+    run((deps) =>
+      UserWorkflows.verifyMfaLogin(deps)({ challengeToken, code })
+    );
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should allow a few failed logins before throttling", async () => {
+    const user = seedSignedUpUser();
+    await failLogins(user.email, 2);
+
+    const result = await login(user.email, password);
+
+    expect(result._tag).toBe("Right");
+  });
+
+  test("should refuse even the right password while throttled", async () => {
+    const user = seedSignedUpUser();
+    await failLogins(user.email, 4);
+
+    const result = await login(user.email, password);
+
+    expect(errorTag(result)).toBe("LoginThrottledError");
+    if (result._tag === "Left") {
+      expect((result.left as any).retryAfter).toBeInstanceOf(Date);
+    }
+  });
+
+  test("should double the wait with each further failure", async () => {
+    const user = seedSignedUpUser();
+    const blockedFor = () => {
+      const row = db.$client
+        .query(
+          "SELECT last_failure_at, blocked_until FROM login_throttles WHERE scope = 'ACCOUNT'"
+        )
+        .get() as { last_failure_at: string; blocked_until: string };
+      return (
+        new Date(row.blocked_until).getTime() -
+        new Date(row.last_failure_at).getTime()
+      );
+    };
+
+    await failLogins(user.email, 4);
+    const first = blockedFor();
+    expireBlock();
+    await failLogins(user.email, 1);
+
+    expect(first).toBe(1000);
+    expect(blockedFor()).toBe(2000);
+  });
+
+  test("should forget the account's failures after a successful login", async () => {
+    const user = seedSignedUpUser();
+    await failLogins(user.email, 3);
+
+    await login(user.email, password);
+
+    const row = db.$client
+      .query("SELECT COUNT(*) AS count FROM login_throttles WHERE scope = ?")
+      .get("ACCOUNT") as { count: number };
+    expect(row.count).toBe(0);
+  });
+
+  test("should keep counting failures until the second factor", async () => {
+    const user = seedSignedUpUser();
+    const secret = await enableMfa(user.id);
+    await failLogins(user.email, 3);
+
+    const challengeToken = await challengeFor(user.email);
+    const failuresBeforeCode = accountFailures();
+    // The next step is within the drift and not spent by the confirmation
+    const result = await verifyCode(
+      challengeToken,
+      totpCode(secret, totpStep(new Date()) + 1)
+    );
+
+    expect(failuresBeforeCode).toBe(3);
+    expect(result._tag).toBe("Right");
+    expect(accountFailures()).toBe(0);
+  });
+
+  test("should count wrong codes as failed logins", async () => {
+    const user = seedSignedUpUser();
+    await enableMfa(user.id);
+    const challengeToken = await challengeFor(user.email);
+
+    for (let i = 0; i < 4; i++) {
+      await verifyCode(challengeToken, "000000");
+    }
+    const result = await login(user.email, password);
+
+    expect(accountFailures()).toBe(4);
+    expect(errorTag(result)).toBe("LoginThrottledError");
+  });
+
+  test("should lock the account and audit it", async () => {
+    const user = seedSignedUpUser();
+
+    await lockAccount(user.email);
+    const result = await login(user.email, password);
+
+    expect(errorTag(result)).toBe("AccountLockedError");
+    const audit = db.$client
+      .query("SELECT performed_by FROM document_audit WHERE action = ?")
+      .all("account_locked") as { performed_by: string }[];
+    expect(audit).toEqual([{ performed_by: user.id }]);
+  });
+
+  test("should throttle unknown emails like real ones", async () => {
+    await failLogins("nobody@example.com", 4);
+
+    const result = await login("nobody@example.com", password);
+
+    expect(errorTag(result)).toBe("LoginThrottledError");
+  });
+
+  test("should throttle an IP across accounts", async () => {
+    const user = seedSignedUpUser();
+    for (let i = 0; i < 11; i++) {
+      await login(`guess${i}@example.com`, "Wrong123!", "203.0.113.7");
+    }
+
+    const fromIp = await login(user.email, password, "203.0.113.7");
+    const elsewhere = await login(user.email, password, "198.51.100.2");
+
+    expect(errorTag(fromIp)).toBe("LoginThrottledError");
+    expect(elsewhere._tag).toBe("Right");
+  });
+
+  test("should let an admin unlock a locked account", async () => {
+    const admin = seedSignedUpUser("ADMIN");
+    const user = seedSignedUpUser();
+    await lockAccount(user.email);
+
+    const result = await run((deps) =>
+      UserWorkflows.unlockUser(deps)({
+        userId: user.id,
+        requestingUserId: admin.id,
+      })
+    );
+
+    expect(result._tag).toBe("Right");
+    expect((await login(user.email, password))._tag).toBe("Right");
+    const audit = db.$client
+      .query("SELECT performed_by FROM document_audit WHERE action = ?")
+      .all("account_unlocked") as { performed_by: string }[];
+    expect(audit).toEqual([{ performed_by: admin.id }]);
+  });
+
+  test("should only let admins unlock accounts", async () => {
+    const user = seedSignedUpUser();
+    const other = seedSignedUpUser();
+
+    const result = await run((deps) =>
+      UserWorkflows.unlockUser(deps)({
+        userId: other.id,
+        requestingUserId: user.id,
+      })
+    );
+
+    expect(errorTag(result)).toBe("ForbiddenError");
+  });
+});
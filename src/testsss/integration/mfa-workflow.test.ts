@@ -0,0 +1,358 @@
+/**
+ * MFA Workflow Integration Tests
+ *
+ * Tests for TOTP enrollment, two-step login, recovery codes and the
+ * per-role MFA policy
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import { seedUser } from "../helpers";
+import { createMockJwt } from "../mocks/jwt.mock";
+import {
+  createMockPasswordHasher,
+  mockHashedPassword,
+} from "../mocks/password-hasher.mock";
+import * as UserWorkflows from "../../app/application/workflows/user-workflow";
+import * as MfaWorkflows from "../../app/application/workflows/mfa-workflow";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { SessionRepositoryTag } from "../../app/domain/session/repository";
+import { MfaRepositoryTag } from "../../app/domain/mfa/repository";
+import { LoginThrottleRepositoryTag } from "../../app/domain/login-throttle/repository";
+import { AccountTokenRepositoryTag } from "../../app/domain/account-token/repository";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+import { totpCode, totpStep } from "../../app/domain/mfa/value-object";
+import type {
+  LoginResponse,
+  MfaChallengeResponse,
+} from "../../app/application/dtos/user/response.dto";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { JwtPortTag } from "../../app/application/ports/jwt.port";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { SessionRepositoryLive } from "../../app/infrastructure/repositories/session-repository.impl";
+import { MfaRepositoryLive } from "../../app/infrastructure/repositories/mfa-repository.impl";
+import { LoginThrottleRepositoryLive } from "../../app/infrastructure/repositories/login-throttle-repository.impl";
+import { AccountTokenRepositoryLive } from "../../app/infrastructure/repositories/account-token-repository.impl";
+import { makeInMemoryOutbox } from "../../app/infrastructure/adapters/outbox-mailer.adapter";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+
+describe("MFA Workflow Integration Tests", () => {
+  let db: TestDatabase;
+  const password = "Secret123!";
+
+  const layer = () =>
+    Layer.merge(
+      Layer.provide(
+        Layer.mergeAll(
+          UserRepositoryLive,
+          SessionRepositoryLive,
+          MfaRepositoryLive,
+          LoginThrottleRepositoryLive,
+          AccountTokenRepositoryLive,
+          DrizzleAuditLive
+        ),
+        Layer.succeed(DrizzleService, { db })
+      ),
+      Layer.succeed(JwtPortTag, createMockJwt())
+    );
+
+  const run = <A, E>(
+    use: (
+      deps: UserWorkflows.UserWorkflowDeps & MfaWorkflows.MfaWorkflowDeps
+    ) => Effect.Effect<A, E>
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          return yield* use({
+            userRepo: yield* UserRepositoryTag,
+            sessionRepo: yield* SessionRepositoryTag,
+            mfaRepo: yield* MfaRepositoryTag,
+            loginThrottleRepo: yield* LoginThrottleRepositoryTag,
+            accountTokenRepo: yield* AccountTokenRepositoryTag,
+            passwordHasher: createMockPasswordHasher(),
+            jwtService: yield* JwtPortTag,
+            auditService: yield* AuditPortTag,
+            mailer: makeInMemoryOutbox().mailer,
+          });
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  const unwrap = async <A, E>(
+    result: Promise<{ _tag: "Left"; left: E } | { _tag: "Right"; right: A }>
+  ) => {
+    const settled = await result;
+    if (settled._tag === "Left") throw settled.left;
+    return settled.right;
+  };
+
+  // Workflows decode the user ID, which factory IDs do not pass
+  const seedSignedUpUser = (role: "USER" | "ADMIN" = "USER") =>
+    seedUser(db, {
+      id: UuidGenerators.userId(),
+      password: mockHashedPassword(password),
+      role,
+    });
+
+  // The step after the current one is within the allowed drift, and is not
+  // yet spent by a code accepted for the current step
+  const nextCode = (secret: string) =>
+    totpCode(secret, totpStep(new Date()) + 1);
+
+  const enableMfa = async (userId: string) => {
+    const { secret } = await unwrap(
+      run((deps) => MfaWorkflows.enrollMfa(deps)({ userId }))
+    );
+    const { recoveryCodes } = await unwrap(
+      run((deps) =>
+        MfaWorkflows.confirmMfa(deps)({
+          userId,
+          code: totpCode(secret, totpStep(new Date())),
+        })
+      )
+    );
+    return { secret, recoveryCodes };
+  };
+
+  const login = (email: string) =>
+    unwrap(run((deps) => UserWorkflows.loginUser(deps)({ email, password })));
+
+  const challengeFor = async (email: string) =>
+    (await login(email)) as MfaChallengeResponse;
+
+  const verify = (challengeToken: string, code: string) =>
+    run((deps) =>
+      UserWorkflows.verifyMfaLogin(deps)({ challengeToken, code })
+    );
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should enable MFA after confirming a code", async () => {
+    const user = seedSignedUpUser();
+
+    const { recoveryCodes } = await enableMfa(user.id);
+    const status = await unwrap(
+      run((deps) => MfaWorkflows.getMfaStatus(deps)({ userId: user.id }))
+    );
+
+    expect(recoveryCodes).toHaveLength(10);
+    expect(status.enabled).toBe(true);
+    expect(status.recoveryCodesRemaining).toBe(10);
+  });
+
+  test("should log in without a challenge when MFA is off", async () => {
+    const user = seedSignedUpUser();
+
+    const result = (await login(user.email)) as LoginResponse;
+
+    expect(result.token).toBeDefined();
+    expect(result.refreshToken).toBeDefined();
+  });
+
+  test("should issue tokens only after the TOTP step", async () => {
+    const user = seedSignedUpUser();
+    const { secret } = await enableMfa(user.id);
+
+    const challenge = await challengeFor(user.email);
+    const result = await verify(challenge.challengeToken, nextCode(secret));
+
+    expect(challenge.mfaRequired).toBe(true);
+    expect(challenge.enrollmentRequired).toBe(false);
+    expect((challenge as any).token).toBeUndefined();
+    expect(result._tag).toBe("Right");
+    if (result._tag === "Right") {
+      expect(result.right.token).toBeDefined();
+      expect(result.right.refreshToken).toBeDefined();
+    }
+  });
+
+  test("should count a wrong code against the challenge", async () => {
+    const user = seedSignedUpUser();
+    const { secret } = await enableMfa(user.id);
+    const challenge = await challengeFor(user.email);
+
+    const wrong = await verify(challenge.challengeToken, "000000");
+
+    expect(wrong._tag).toBe("Left");
+    if (wrong._tag === "Left") {
+      expect((wrong.left as any)._tag).toBe("InvalidMfaCodeError");
+    }
+    const row = db.$client
+      .query("SELECT attempts FROM mfa_challenges WHERE user_id = ?")
+      .get(user.id) as { attempts: number };
+    expect(row.attempts).toBe(1);
+    expect(
+      (await verify(challenge.challengeToken, nextCode(secret)))._tag
+    ).toBe("Right");
+  });
+
+  test("should lock the account after wrong codes across challenges", async () => {
+    const user = seedSignedUpUser();
+    const { secret } = await enableMfa(user.id);
+    // Each challenge allows a few tries; fresh ones must not reset the count
+    let challengeToken = "";
+    for (let i = 0; i < 10; i++) {
+      db.$client.run("UPDATE login_throttles SET blocked_until = NULL");
+      challengeToken = (await challengeFor(user.email)).challengeToken;
+      await verify(challengeToken, "000000");
+    }
+
+    const withCode = await verify(challengeToken, nextCode(secret));
+    const withPassword = await run((deps) =>
+      UserWorkflows.loginUser(deps)({ email: user.email, password })
+    );
+
+    for (const result of [withCode, withPassword]) {
+      expect(result._tag).toBe("Left");
+      if (result._tag === "Left") {
+        expect((result.left as any)._tag).toBe("AccountLockedError");
+      }
+    }
+    const audit = db.$client
+      .query("SELECT COUNT(*) AS count FROM document_audit WHERE action = ?")
+      .get("account_locked") as { count: number };
+    expect(audit.count).toBe(1);
+  });
+
+  test("should reject a challenge once it has been used", async () => {
+    const user = seedSignedUpUser();
+    const { recoveryCodes } = await enableMfa(user.id);
+    const challenge = await challengeFor(user.email);
+    await unwrap(verify(challenge.challengeToken, recoveryCodes[0]!));
+
+    const result = await verify(challenge.challengeToken, recoveryCodes[1]!);
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect((result.left as any)._tag).toBe("MfaChallengeInvalidError");
+    }
+  });
+
+  test("should reject a replayed TOTP code", async () => {
+    const user = seedSignedUpUser();
+    const { secret } = await enableMfa(user.id);
+    const code = nextCode(secret);
+    await unwrap(verify((await challengeFor(user.email)).challengeToken, code));
+
+    const result = await verify(
+      (await challengeFor(user.email)).challengeToken,
+      code
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect((result.left as any)._tag).toBe("InvalidMfaCodeError");
+    }
+  });
+
+  test("should accept each recovery code once", async () => {
+    const user = seedSignedUpUser();
+    const { recoveryCodes } = await enableMfa(user.id);
+    const code = recoveryCodes[0]!.toUpperCase();
+
+    const first = await verify(
+      (await challengeFor(user.email)).challengeToken,
+      code
+    );
+    const second = await verify(
+      (await challengeFor(user.email)).challengeToken,
+      code
+    );
+
+    expect(first._tag).toBe("Right");
+    expect(second._tag).toBe("Left");
+    const status = await unwrap(
+      run((deps) => MfaWorkflows.getMfaStatus(deps)({ userId: user.id }))
+    );
+    expect(status.recoveryCodesRemaining).toBe(9);
+  });
+
+  test("should make users of a required role enroll at login", async () => {
+    const admin = seedSignedUpUser("ADMIN");
+    const user = seedSignedUpUser();
+    await unwrap(
+      run((deps) =>
+        MfaWorkflows.setMfaPolicy(deps)({
+          userId: admin.id,
+          role: "USER",
+          required: true,
+        })
+      )
+    );
+
+    const challenge = await challengeFor(user.email);
+    const { secret } = await unwrap(
+      run((deps) =>
+        UserWorkflows.enrollMfaLogin(deps)({
+          challengeToken: challenge.challengeToken,
+        })
+      )
+    );
+    const result = await unwrap(
+      verify(challenge.challengeToken, totpCode(secret, totpStep(new Date())))
+    );
+
+    expect(challenge.enrollmentRequired).toBe(true);
+    expect(result.token).toBeDefined();
+    expect(result.recoveryCodes).toHaveLength(10);
+  });
+
+  test("should not disable MFA while the role requires it", async () => {
+    const admin = seedSignedUpUser("ADMIN");
+    const user = seedSignedUpUser();
+    const { secret } = await enableMfa(user.id);
+    await unwrap(
+      run((deps) =>
+        MfaWorkflows.setMfaPolicy(deps)({
+          userId: admin.id,
+          role: "USER",
+          required: true,
+        })
+      )
+    );
+
+    const result = await run((deps) =>
+      MfaWorkflows.disableMfa(deps)({
+        userId: user.id,
+        code: nextCode(secret),
+      })
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect((result.left as any)._tag).toBe("MfaRequiredError");
+    }
+  });
+
+  test("should only let admins change the MFA policy", async () => {
+    const user = seedSignedUpUser();
+
+    const result = await run((deps) =>
+      MfaWorkflows.setMfaPolicy(deps)({
+        userId: user.id,
+        role: "USER",
+        required: true,
+      })
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect((result.left as any)._tag).toBe("ForbiddenError");
+    }
+  });
+});
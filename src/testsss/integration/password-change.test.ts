@@ -0,0 +1,227 @@
+/**
+ * Password Change Integration Tests
+ *
+ * Tests for changing the password with the current one, for keeping
+ * profile updates from changing it, and for requiring it to change the email
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import { seedUser, errorTag } from "../helpers";
+import { createMockJwt } from "../mocks/jwt.mock";
+import {
+  createMockPasswordHasher,
+  mockHashedPassword,
+} from "../mocks/password-hasher.mock";
+import * as UserWorkflows from "../../app/application/workflows/user-workflow";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { SessionRepositoryTag } from "../../app/domain/session/repository";
+import { MfaRepositoryTag } from "../../app/domain/mfa/repository";
+import { LoginThrottleRepositoryTag } from "../../app/domain/login-throttle/repository";
+import { AccountTokenRepositoryTag } from "../../app/domain/account-token/repository";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+import type { LoginResponse } from "../../app/application/dtos/user/response.dto";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { JwtPortTag } from "../../app/application/ports/jwt.port";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { SessionRepositoryLive } from "../../app/infrastructure/repositories/session-repository.impl";
+import { AccessTokenRepositoryLive } from "../../app/infrastructure/repositories/access-token-repository.impl";
+import { MfaRepositoryLive } from "../../app/infrastructure/repositories/mfa-repository.impl";
+import { LoginThrottleRepositoryLive } from "../../app/infrastructure/repositories/login-throttle-repository.impl";
+import { AccountTokenRepositoryLive } from "../../app/infrastructure/repositories/account-token-repository.impl";
+import { makeInMemoryOutbox } from "../../app/infrastructure/adapters/outbox-mailer.adapter";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+import { authenticate } from "../../app/presentation/http/middleware/auth.middleware";
+
+describe("Password Change Integration Tests", () => {
+  let db: TestDatabase;
+  const password = "Secret123!";
+  const newPassword = "Changed456!";
+
+  const layer = () =>
+    Layer.merge(
+      Layer.provide(
+        Layer.mergeAll(
+          UserRepositoryLive,
+          SessionRepositoryLive,
+          AccessTokenRepositoryLive,
+          MfaRepositoryLive,
+          LoginThrottleRepositoryLive,
+          AccountTokenRepositoryLive,
+          DrizzleAuditLive
+        ),
+        Layer.succeed(DrizzleService, { db })
+      ),
+      Layer.succeed(JwtPortTag, createMockJwt())
+    );
+
+  const run = <A, E>(
+    use: (deps: UserWorkflows.UserWorkflowDeps) => Effect.Effect<A, E>
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          const deps: UserWorkflows.UserWorkflowDeps = {
+            userRepo: yield* UserRepositoryTag,
+            sessionRepo: yield* SessionRepositoryTag,
+            mfaRepo: yield* MfaRepositoryTag,
+            loginThrottleRepo: yield* LoginThrottleRepositoryTag,
+            accountTokenRepo: yield* AccountTokenRepositoryTag,
+            passwordHasher: createMockPasswordHasher(),
+            jwtService: yield* JwtPortTag,
+            auditService: yield* AuditPortTag,
+            mailer: makeInMemoryOutbox().mailer,
+          };
+          return yield* use(deps);
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  // Workflows decode the user ID, which factory IDs do not pass
+  const seedSignedUpUser = () =>
+    seedUser(db, {
+      id: UuidGenerators.userId(),
+      password: mockHashedPassword(password),
+    });
+
+  const login = (email: string, attempt = password) =>
+    run((deps) =>
+      UserWorkflows.loginUser(deps)({ email, password: attempt })
+    );
+
+  const startSession = async (email: string) => {
+    const result = await login(email);
+    if (result._tag === "Left") throw result.left;
+    return result.right as LoginResponse;
+  };
+
+  const authenticateToken = (token: string) =>
+    Effect.runPromise(
+      Effect.either(
+        authenticate(`Bearer ${token}`).pipe(Effect.provide(layer()))
+      )
+    );
+
+  const changePassword = (
+    userId: string,
+    currentPassword: string,
+    sessionId?: string
+  ) =>
+    run((deps) =>
+      UserWorkflows.changePassword(deps)({
+        userId,
+        sessionId,
+        currentPassword,
+        newPassword,
+      })
+    );
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should change the password and sign out other sessions", async () => {
+    const user = seedSignedUpUser();
+    const current = await startSession(user.email);
+    const other = await startSession(user.email);
+    const auth = await authenticateToken(current.token);
+    if (auth._tag === "Left") throw auth.left;
+
+    const result = await changePassword(
+      user.id,
+      password,
+      auth.right.sessionId
+    );
+
+    expect(result._tag).toBe("Right");
+    if (result._tag === "Right") {
+      expect(result.right.sessionsRevoked).toBe(1);
+    }
+    expect((await authenticateToken(current.token))._tag).toBe("Right");
+    expect(errorTag(await authenticateToken(other.token))).toBe(
+      "SessionRevokedError"
+    );
+    expect(errorTag(await login(user.email))).toBe("InvalidCredentialsError");
+    expect((await login(user.email, newPassword))._tag).toBe("Right");
+  });
+
+  test("should reject a wrong current password", async () => {
+    const user = seedSignedUpUser();
+
+    const result = await changePassword(user.id, "Wrong123!");
+
+    expect(errorTag(result)).toBe("InvalidCredentialsError");
+    expect((await login(user.email))._tag).toBe("Right");
+  });
+
+  test("should throttle guessing the current password", async () => {
+    const user = seedSignedUpUser();
+    for (let i = 0; i < 4; i++) {
+      await changePassword(user.id, `Wrong${i}23!`);
+    }
+
+    const result = await changePassword(user.id, password);
+
+    expect(errorTag(result)).toBe("LoginThrottledError");
+  });
+
+  test("should enforce the password policy", async () => {
+    const user = seedSignedUpUser();
+
+    const result = await run((deps) =>
+      UserWorkflows.changePassword(deps)({
+        userId: user.id,
+        currentPassword: password,
+        newPassword: "weakpassword",
+      })
+    );
+
+    expect(result._tag).toBe("Left");
+    expect((await login(user.email))._tag).toBe("Right");
+  });
+
+  test("should refuse a password in a profile update", async () => {
+    const user = seedSignedUpUser();
+
+    const result = await run((deps) =>
+      UserWorkflows.updateUserProfile(deps)(user.id, {
+        password: newPassword,
+      } as any)
+    );
+
+    expect(errorTag(result)).toBe("UserValidationError");
+    expect((await login(user.email))._tag).toBe("Right");
+  });
+
+  test("should require the current password to change the email", async () => {
+    const user = seedSignedUpUser();
+    const changeEmail = (currentPassword?: string) =>
+      run((deps) =>
+        UserWorkflows.updateUserProfile(deps)(user.id, {
+          email: "moved@example.com",
+          currentPassword,
+        })
+      );
+
+    const missing = await changeEmail();
+    const wrong = await changeEmail("Wrong123!");
+    const right = await changeEmail(password);
+
+    expect(errorTag(missing)).toBe("UserValidationError");
+    expect(errorTag(wrong)).toBe("InvalidCredentialsError");
+    expect(right._tag).toBe("Right");
+    expect((await login("moved@example.com"))._tag).toBe("Right");
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Session Workflow Integration Tests
+ *
+ * Tests for refresh token rotation, reuse detection and logout
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import { seedUser } from "../helpers";
+import { createMockJwt } from "../mocks/jwt.mock";
+import {
+  createMockPasswordHasher,
+  mockHashedPassword,
+} from "../mocks/password-hasher.mock";
+import * as UserWorkflows from "../../app/application/workflows/user-workflow";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { SessionRepositoryTag } from "../../app/domain/session/repository";
+import { MfaRepositoryTag } from "../../app/domain/mfa/repository";
+import { LoginThrottleRepositoryTag } from "../../app/domain/login-throttle/repository";
+import { AccountTokenRepositoryTag } from "../../app/domain/account-token/repository";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+import type { LoginResponse } from "../../app/application/dtos/user/response.dto";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { JwtPortTag } from "../../app/application/ports/jwt.port";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { SessionRepositoryLive } from "../../app/infrastructure/repositories/session-repository.impl";
+import { AccessTokenRepositoryLive } from "../../app/infrastructure/repositories/access-token-repository.impl";
+import { MfaRepositoryLive } from "../../app/infrastructure/repositories/mfa-repository.impl";
+import { LoginThrottleRepositoryLive } from "../../app/infrastructure/repositories/login-throttle-repository.impl";
+import { AccountTokenRepositoryLive } from "../../app/infrastructure/repositories/account-token-repository.impl";
+import { makeInMemoryOutbox } from "../../app/infrastructure/adapters/outbox-mailer.adapter";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+import { authenticate } from "../../app/presentation/http/middleware/auth.middleware";
+
+describe("Session Workflow Integration Tests", () => {
+  let db: TestDatabase;
+  const password = "Secret123!";
+
+  const layer = () =>
+    Layer.merge(
+      Layer.provide(
+        Layer.mergeAll(
+          UserRepositoryLive,
+          SessionRepositoryLive,
+          AccessTokenRepositoryLive,
+          MfaRepositoryLive,
+          LoginThrottleRepositoryLive,
+          AccountTokenRepositoryLive,
+          DrizzleAuditLive
+        ),
+        Layer.succeed(DrizzleService, { db })
+      ),
+      Layer.succeed(JwtPortTag, createMockJwt())
+    );
+
+  const run = <A, E>(
+    use: (deps: UserWorkflows.UserWorkflowDeps) => Effect.Effect<A, E>
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          const deps: UserWorkflows.UserWorkflowDeps = {
+            userRepo: yield* UserRepositoryTag,
+            sessionRepo: yield* SessionRepositoryTag,
+            mfaRepo: yield* MfaRepositoryTag,
+            loginThrottleRepo: yield* LoginThrottleRepositoryTag,
+            accountTokenRepo: yield* AccountTokenRepositoryTag,
+            passwordHasher: createMockPasswordHasher(),
+            jwtService: yield* JwtPortTag,
+            auditService: yield* AuditPortTag,
+            mailer: makeInMemoryOutbox().mailer,
+          };
+          return yield* use(deps);
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  // Logout decodes the user ID, which factory IDs do not pass
+  const seedSignedUpUser = () =>
+    seedUser(db, {
+      id: UuidGenerators.userId(),
+      password: mockHashedPassword(password),
+    });
+
+  const login = async (email: string) => {
+    const result = await run((deps) =>
+      UserWorkflows.loginUser(deps)({ email, password })
+    );
+    if (result._tag === "Left") throw result.left;
+    return result.right as LoginResponse;
+  };
+
+  const refresh = (refreshToken: string) =>
+    run((deps) => UserWorkflows.refreshSession(deps)({ refreshToken }));
+
+  const authenticateToken = (token: string) =>
+    Effect.runPromise(
+      Effect.either(
+        authenticate(`Bearer ${token}`).pipe(Effect.provide(layer()))
+      )
+    );
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should rotate the refresh token on refresh", async () => {
+    const user = seedSignedUpUser();
+    const session = await login(user.email);
+
+    const result = await refresh(session.refreshToken);
+
+    expect(result._tag).toBe("Right");
+    if (result._tag === "Right") {
+      expect(result.right.refreshToken).not.toBe(session.refreshToken);
+      expect((await authenticateToken(result.right.token))._tag).toBe(
+        "Right"
+      );
+    }
+  });
+
+  test("should revoke the session when a refresh token is reused", async () => {
+    const user = seedSignedUpUser();
+    const session = await login(user.email);
+    const rotated = await refresh(session.refreshToken);
+
+    const reused = await refresh(session.refreshToken);
+
+    expect(reused._tag).toBe("Left");
+    if (reused._tag === "Left") {
+      expect((reused.left as any)._tag).toBe("InvalidRefreshTokenError");
+    }
+    if (rotated._tag === "Right") {
+      expect((await refresh(rotated.right.refreshToken))._tag).toBe("Left");
+    }
+    const auth = await authenticateToken(session.token);
+    expect(auth._tag).toBe("Left");
+    if (auth._tag === "Left") {
+      expect((auth.left as any)._tag).toBe("SessionRevokedError");
+    }
+  });
+
+  test("should reject the access token after logout", async () => {
+    const user = seedSignedUpUser();
+    const session = await login(user.email);
+    const other = await login(user.email);
+    const auth = await authenticateToken(session.token);
+    if (auth._tag === "Left") throw auth.left;
+
+    const result = await run((deps) =>
+      UserWorkflows.logout(deps)({
+        userId: auth.right.userId,
+        sessionId: auth.right.sessionId,
+      })
+    );
+
+    expect(result._tag).toBe("Right");
+    expect((await authenticateToken(session.token))._tag).toBe("Left");
+    expect((await refresh(session.refreshToken))._tag).toBe("Left");
+    expect((await authenticateToken(other.token))._tag).toBe("Right");
+  });
+
+  test("should revoke every session when logging out everywhere", async () => {
+    const user = seedSignedUpUser();
+    const session = await login(user.email);
+    const other = await login(user.email);
+    const auth = await authenticateToken(session.token);
+    if (auth._tag === "Left") throw auth.left;
+
+    const result = await run((deps) =>
+      UserWorkflows.logout(deps)({
+        userId: auth.right.userId,
+        sessionId: auth.right.sessionId,
+        everywhere: true,
+      })
+    );
+
+    expect(result._tag).toBe("Right");
+    if (result._tag === "Right") {
+      expect(result.right.sessionsRevoked).toBe(2);
+    }
+    expect((await authenticateToken(session.token))._tag).toBe("Left");
+    expect((await authenticateToken(other.token))._tag).toBe("Left");
+  });
+
+  test("should require everywhere when there is no current session", async () => {
+    const user = seedSignedUpUser();
+    await login(user.email);
+
+    const result = await run((deps) =>
+      UserWorkflows.logout(deps)({ userId: user.id })
+    );
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect((result.left as any)._tag).toBe("UserValidationError");
+    }
+  });
+});
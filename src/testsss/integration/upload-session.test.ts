@@ -0,0 +1,272 @@
+/**
+ * Upload Session Integration Tests
+ *
+ * Tests for resumable uploads: appending chunks at explicit offsets,
+ * turning the completed upload into a document, and handling concurrent,
+ * foreign, cancelled and expired sessions
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import { seedUser, countDocuments, errorTag } from "../helpers";
+import { createMockStorage } from "../mocks";
+import * as UploadSessionWorkflows from "../../app/application/workflows/upload-session-workflow";
+import * as DocumentWorkflows from "../../app/application/workflows/document-workflow";
+import { UploadSessionRepositoryTag } from "../../app/domain/upload-session/repository";
+import { DocumentRepositoryTag } from "../../app/domain/document/repository";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { PermissionRepositoryTag } from "../../app/domain/permission/repository";
+import { GroupRepositoryTag } from "../../app/domain/group/repository";
+import { FolderRepositoryTag } from "../../app/domain/folder/repository";
+import {
+  UuidGenerators,
+  type UploadSessionId,
+} from "../../app/domain/refined/uuid";
+import type { StoragePort } from "../../app/application/ports/storage.port";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { UploadSessionRepositoryLive } from "../../app/infrastructure/repositories/upload-session-repository.impl";
+import { DocumentRepositoryLive } from "../../app/infrastructure/repositories/document-repository.impl";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { PermissionRepositoryLive } from "../../app/infrastructure/repositories/permission-repository.impl";
+import { GroupRepositoryLive } from "../../app/infrastructure/repositories/group-repository.impl";
+import { FolderRepositoryLive } from "../../app/infrastructure/repositories/folder-repository.impl";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+
+describe("Upload Session Integration Tests", () => {
+  let db: TestDatabase;
+  let storageService: StoragePort;
+  let storedContents: string[];
+
+  const layer = () =>
+    Layer.provide(
+      Layer.mergeAll(
+        UploadSessionRepositoryLive,
+        DocumentRepositoryLive,
+        UserRepositoryLive,
+        PermissionRepositoryLive,
+        GroupRepositoryLive,
+        FolderRepositoryLive,
+        DrizzleAuditLive
+      ),
+      Layer.succeed(DrizzleService, { db })
+    );
+
+  const run = <A, E>(
+    use: (
+      deps: UploadSessionWorkflows.UploadSessionWorkflowDeps
+    ) => Effect.Effect<A, E>
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          const documentDeps: DocumentWorkflows.DocumentWorkflowDeps = {
+            documentRepo: yield* DocumentRepositoryTag,
+            userRepo: yield* UserRepositoryTag,
+            permissionRepo: yield* PermissionRepositoryTag,
+            groupRepo: yield* GroupRepositoryTag,
+            folderRepo: yield* FolderRepositoryTag,
+            storageService,
+            auditService: yield* AuditPortTag,
+          };
+          return yield* use({
+            sessionRepo: yield* UploadSessionRepositoryTag,
+            storageService,
+            uploadDocument: DocumentWorkflows.uploadDocument(documentDeps),
+          });
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  // Workflows decode IDs, which factory IDs do not pass
+  const seedAccount = () => seedUser(db, { id: UuidGenerators.userId() });
+
+  const createSession = async (userId: string, uploadLength: number) => {
+    const result = await run((deps) =>
+      UploadSessionWorkflows.createUploadSession(deps)({
+        filename: "notes.txt",
+        mimeType: "text/plain",
+        uploadLength,
+        userId,
+      })
+    );
+    if (result._tag === "Left") throw result.left;
+    return result.right.id;
+  };
+
+  const append = (
+    sessionId: string,
+    userId: string,
+    offset: number,
+    chunk: string
+  ) =>
+    run((deps) =>
+      UploadSessionWorkflows.appendUploadChunk(deps)({
+        sessionId,
+        userId,
+        offset,
+        data: new Blob([chunk]).stream(),
+      })
+    );
+
+  const progress = (sessionId: string, userId: string) =>
+    run((deps) =>
+      UploadSessionWorkflows.getUploadSession(deps)({ sessionId, userId })
+    );
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+    storedContents = [];
+    const storage = createMockStorage();
+    // Record what each finalized upload hands over to be stored
+    storageService = {
+      ...storage,
+      storeUploadedFile: (file, documentId, versionId) =>
+        Effect.flatMap(
+          Effect.promise(() => file.arrayBuffer()),
+          (content) => {
+            storedContents.push(Buffer.from(content).toString());
+            return storage.storeUploadedFile(file, documentId, versionId);
+          }
+        ),
+    };
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should store the assembled chunks as a document", async () => {
+    const user = seedAccount();
+    const sessionId = await createSession(user.id, 11);
+
+    const first = await append(sessionId, user.id, 0, "hello ");
+    const last = await append(sessionId, user.id, 6, "world");
+
+    expect(first._tag === "Right" && first.right.session.offset).toBe(6);
+    expect(first._tag === "Right" && first.right.document).toBeUndefined();
+    expect(last._tag === "Right" && last.right.session.offset).toBe(11);
+    expect(last._tag === "Right" && last.right.document).toBeDefined();
+    expect(storedContents).toEqual(["hello world"]);
+    expect(countDocuments(db)).toBe(1);
+    expect((await progress(sessionId, user.id))._tag).toBe("Left");
+  });
+
+  test("should reject a chunk that does not start at the received size", async () => {
+    const user = seedAccount();
+    const sessionId = await createSession(user.id, 11);
+    await append(sessionId, user.id, 0, "hello ");
+
+    const gap = await append(sessionId, user.id, 8, "rld");
+    const overlap = await append(sessionId, user.id, 0, "hello ");
+    const current = await progress(sessionId, user.id);
+
+    expect(errorTag(gap)).toBe("UploadOffsetMismatchError");
+    expect(errorTag(overlap)).toBe("UploadOffsetMismatchError");
+    expect(current._tag === "Right" && current.right.offset).toBe(6);
+  });
+
+  test("should accept only one of two concurrent chunks at an offset", async () => {
+    const user = seedAccount();
+    const sessionId = await createSession(user.id, 11);
+
+    const results = await Promise.all([
+      append(sessionId, user.id, 0, "hello "),
+      append(sessionId, user.id, 0, "HELLO "),
+    ]);
+    const current = await progress(sessionId, user.id);
+
+    expect(results.map((result) => result._tag).sort()).toEqual([
+      "Left",
+      "Right",
+    ]);
+    expect(results.map(errorTag)).toContain("UploadOffsetMismatchError");
+    expect(current._tag === "Right" && current.right.offset).toBe(6);
+  });
+
+  test("should finalize once when the last chunk is retried concurrently", async () => {
+    const user = seedAccount();
+    const sessionId = await createSession(user.id, 5);
+
+    const results = await Promise.all([
+      append(sessionId, user.id, 0, "hello"),
+      append(sessionId, user.id, 0, "hello"),
+    ]);
+
+    expect(results.filter((result) => result._tag === "Right")).toHaveLength(
+      1
+    );
+    expect(storedContents).toEqual(["hello"]);
+    expect(countDocuments(db)).toBe(1);
+  });
+
+  test("should reject a chunk beyond the declared length", async () => {
+    const user = seedAccount();
+    const sessionId = await createSession(user.id, 5);
+
+    const result = await append(sessionId, user.id, 0, "hello world");
+
+    expect(result._tag).toBe("Left");
+    expect(storedContents).toEqual([]);
+  });
+
+  test("should not let other users continue a session", async () => {
+    const owner = seedAccount();
+    const other = seedAccount();
+    const sessionId = await createSession(owner.id, 11);
+
+    const appended = await append(sessionId, other.id, 0, "hello ");
+    const read = await progress(sessionId, other.id);
+
+    expect(errorTag(appended)).toBe("UploadSessionForbiddenError");
+    expect(errorTag(read)).toBe("UploadSessionForbiddenError");
+  });
+
+  test("should discard a cancelled session", async () => {
+    const user = seedAccount();
+    const sessionId = await createSession(user.id, 11);
+    await append(sessionId, user.id, 0, "hello ");
+
+    const cancelled = await run((deps) =>
+      UploadSessionWorkflows.cancelUploadSession(deps)({
+        sessionId,
+        userId: user.id,
+      })
+    );
+    const resumed = await append(sessionId, user.id, 6, "world");
+
+    expect(cancelled._tag).toBe("Right");
+    expect(resumed._tag).toBe("Left");
+    expect(countDocuments(db)).toBe(0);
+  });
+
+  test("should refuse and purge expired sessions", async () => {
+    const user = seedAccount();
+    const sessionId = await createSession(user.id, 11);
+    await append(sessionId, user.id, 0, "hello ");
+    db.$client.run(
+      "UPDATE upload_sessions SET expires_at = ? WHERE id = ?",
+      new Date(Date.now() - 60_000).toISOString(),
+      sessionId
+    );
+
+    const resumed = await append(sessionId, user.id, 6, "world");
+    const purged = await run((deps) =>
+      UploadSessionWorkflows.purgeExpiredUploadSessions(deps)()
+    );
+    const remaining = await run((deps) =>
+      deps.sessionRepo.findById(sessionId as UploadSessionId)
+    );
+
+    expect(errorTag(resumed)).toBe("UploadSessionExpiredError");
+    expect(purged._tag === "Right" && purged.right.deletedCount).toBe(1);
+    expect(remaining._tag === "Right" && remaining.right._tag).toBe("None");
+  });
+});
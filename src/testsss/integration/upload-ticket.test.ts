@@ -0,0 +1,369 @@
+/**
+ * Upload Ticket Integration Tests
+ *
+ * Tests for issuing signed upload tickets and redeeming them for a new
+ * document version, including tampered, reused, expired and oversized
+ * uploads
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import {
+  seedUser,
+  seedDocument,
+  seedVersion,
+  seedPermission,
+  getVersionsForDocument,
+  errorTag,
+} from "../helpers";
+import * as UploadTicketWorkflows from "../../app/application/workflows/upload-ticket-workflow";
+import type { UploadTicketResponse } from "../../app/application/dtos/upload-ticket/response.dto";
+import { UploadTicketRepositoryTag } from "../../app/domain/upload-ticket/repository";
+import { DocumentRepositoryTag } from "../../app/domain/document/repository";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { PermissionRepositoryTag } from "../../app/domain/permission/repository";
+import { GroupRepositoryTag } from "../../app/domain/group/repository";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+import {
+  StoragePortTag,
+  type UploadedFile,
+} from "../../app/application/ports/storage.port";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { UploadTicketRepositoryLive } from "../../app/infrastructure/repositories/upload-ticket-repository.impl";
+import { DocumentRepositoryLive } from "../../app/infrastructure/repositories/document-repository.impl";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { PermissionRepositoryLive } from "../../app/infrastructure/repositories/permission-repository.impl";
+import { GroupRepositoryLive } from "../../app/infrastructure/repositories/group-repository.impl";
+import { LocalStorageAtLive } from "../../app/infrastructure/adapters/local-storage.adapter";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+
+const BASE_URL = "http://localhost:3000";
+
+// A file whose declared size may differ from its content
+const textFile = (
+  content: string,
+  type = "text/plain",
+  size = Buffer.byteLength(content)
+): UploadedFile => {
+  const blob = new Blob([content]);
+  return {
+    name: "notes.txt",
+    size,
+    type,
+    arrayBuffer: () => blob.arrayBuffer(),
+    stream: () => blob.stream(),
+  };
+};
+
+describe("Upload Ticket Integration Tests", () => {
+  let db: TestDatabase;
+  let fileRoot: string;
+
+  const layer = () =>
+    Layer.provide(
+      Layer.mergeAll(
+        UploadTicketRepositoryLive,
+        DocumentRepositoryLive,
+        UserRepositoryLive,
+        PermissionRepositoryLive,
+        GroupRepositoryLive,
+        DrizzleAuditLive,
+        LocalStorageAtLive(
+          path.join(fileRoot, "uploads"),
+          path.join(fileRoot, "temp")
+        )
+      ),
+      Layer.succeed(DrizzleService, { db })
+    );
+
+  const run = <A, E>(
+    use: (
+      deps: UploadTicketWorkflows.UploadTicketWorkflowDeps
+    ) => Effect.Effect<A, E>
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          const deps: UploadTicketWorkflows.UploadTicketWorkflowDeps = {
+            ticketRepo: yield* UploadTicketRepositoryTag,
+            documentRepo: yield* DocumentRepositoryTag,
+            userRepo: yield* UserRepositoryTag,
+            permissionRepo: yield* PermissionRepositoryTag,
+            groupRepo: yield* GroupRepositoryTag,
+            storageService: yield* StoragePortTag,
+            auditService: yield* AuditPortTag,
+          };
+          return yield* use(deps);
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  // Workflows decode IDs, which factory IDs do not pass
+  const seedAccount = () => seedUser(db, { id: UuidGenerators.userId() });
+
+  const seedOwnedDocument = (ownerId: string) => {
+    const document = seedDocument(db, {
+      id: UuidGenerators.documentId(),
+      uploaded_by: ownerId,
+    });
+    seedVersion(db, {
+      id: UuidGenerators.documentVersionId(),
+      document_id: document.id,
+      uploaded_by: ownerId,
+    });
+    return document;
+  };
+
+  const issue = async (
+    documentId: string,
+    userId: string,
+    maxSize = 1024,
+    ttlMs?: number
+  ): Promise<UploadTicketResponse> => {
+    const result = await run((deps) =>
+      UploadTicketWorkflows.issueUploadTicket(deps)(
+        { documentId, userId, maxSize, ttlMs, mimeType: "text/plain" },
+        BASE_URL
+      )
+    );
+    if (result._tag === "Left") throw result.left;
+    return result.right;
+  };
+
+  const redeem = (
+    ticket: UploadTicketResponse,
+    file: UploadedFile,
+    overrides: Partial<{ ticket: string; versionId: string }> = {}
+  ) =>
+    run((deps) =>
+      UploadTicketWorkflows.redeemUploadTicket(deps)({
+        documentId: ticket.documentId,
+        versionId: ticket.versionId,
+        ticket: ticket.ticket,
+        file,
+        ...overrides,
+      })
+    );
+
+  const storedFiles = () =>
+    fs.readdirSync(fileRoot, { recursive: true, withFileTypes: true })
+      .filter((entry) => entry.isFile())
+      .map((entry) => entry.name);
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+    fileRoot = fs.mkdtempSync(path.join(os.tmpdir(), "upload-ticket-test-"));
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+    fs.rmSync(fileRoot, { recursive: true, force: true });
+  });
+
+  test("should add the uploaded file as the ticket's version", async () => {
+    const owner = seedAccount();
+    const document = seedOwnedDocument(owner.id);
+    const ticket = await issue(document.id, owner.id);
+
+    const result = await redeem(ticket, textFile("meeting notes"));
+
+    expect(ticket.uploadUrl).toBe(
+      `${BASE_URL}/upload/${document.id}/${ticket.versionId}`
+    );
+    expect(result._tag).toBe("Right");
+    const versions = getVersionsForDocument(db, document.id);
+    expect(versions).toHaveLength(2);
+    expect(versions[1].id).toBe(ticket.versionId);
+    expect(versions[1].version_number).toBe(2);
+    expect(versions[1].checksum).toBe(
+      crypto.createHash("sha256").update("meeting notes").digest("hex")
+    );
+    expect(fs.readFileSync(versions[1].path, "utf8")).toBe("meeting notes");
+    expect(
+      db.$client
+        .query(
+          "SELECT action FROM document_audit WHERE document_id = ? ORDER BY sequence"
+        )
+        .all(document.id)
+    ).toEqual([{ action: "upload_ticket_issued" }, { action: "new_version" }]);
+  });
+
+  test("should accept a ticket only once", async () => {
+    const owner = seedAccount();
+    const document = seedOwnedDocument(owner.id);
+    const ticket = await issue(document.id, owner.id);
+    await redeem(ticket, textFile("first"));
+
+    const result = await redeem(ticket, textFile("second"));
+
+    expect(errorTag(result)).toBe("UploadTicketAlreadyUsedError");
+    expect(getVersionsForDocument(db, document.id)).toHaveLength(2);
+  });
+
+  test("should reject a tampered ticket or another version's URL", async () => {
+    const owner = seedAccount();
+    const document = seedOwnedDocument(owner.id);
+    const ticket = await issue(document.id, owner.id);
+    const other = await issue(document.id, owner.id);
+
+    const tampered = await redeem(ticket, textFile("notes"), {
+      ticket: `${ticket.ticket.slice(0, -1)}${
+        ticket.ticket.endsWith("0") ? "1" : "0"
+      }`,
+    });
+    const misdirected = await redeem(ticket, textFile("notes"), {
+      versionId: other.versionId,
+    });
+    const malformed = await redeem(ticket, textFile("notes"), {
+      ticket: "not-a-ticket",
+    });
+
+    expect(errorTag(tampered)).toBe("UploadTicketInvalidError");
+    expect(errorTag(misdirected)).toBe("UploadTicketInvalidError");
+    expect(errorTag(malformed)).toBe("UploadTicketInvalidError");
+    expect(getVersionsForDocument(db, document.id)).toHaveLength(1);
+  });
+
+  test("should reject an expired ticket", async () => {
+    const owner = seedAccount();
+    const document = seedOwnedDocument(owner.id);
+    // The expiry is signed, so let a short-lived ticket run out
+    const ticket = await issue(document.id, owner.id, 1024, 1);
+    await Bun.sleep(5);
+
+    const result = await redeem(ticket, textFile("notes"));
+
+    expect(errorTag(result)).toBe("UploadTicketExpiredError");
+  });
+
+  test("should reject files of another type or over the size limit", async () => {
+    const owner = seedAccount();
+    const document = seedOwnedDocument(owner.id);
+    const wrongType = await issue(document.id, owner.id);
+    const declaredTooLarge = await issue(document.id, owner.id, 4);
+
+    const typeResult = await redeem(
+      wrongType,
+      textFile("{}", "application/json")
+    );
+    const declaredResult = await redeem(declaredTooLarge, textFile("notes"));
+
+    expect(errorTag(typeResult)).toBe("UploadTicketValidationError");
+    expect(errorTag(declaredResult)).toBe("UploadTicketValidationError");
+    expect(getVersionsForDocument(db, document.id)).toHaveLength(1);
+    expect(storedFiles()).toEqual([]);
+  });
+
+  test("should stop reading an upload at the ticket's size limit", async () => {
+    const owner = seedAccount();
+    const document = seedOwnedDocument(owner.id);
+    const ticket = await issue(document.id, owner.id, 1024);
+    // Declares one byte, then streams 64 KB in 1 KB chunks
+    let chunksRead = 0;
+    const file: UploadedFile = {
+      ...textFile("", "text/plain", 1),
+      stream: () =>
+        new ReadableStream<Uint8Array>({
+          pull(controller) {
+            if (chunksRead++ < 64) controller.enqueue(Buffer.alloc(1024));
+            else controller.close();
+          },
+        }),
+    };
+
+    const result = await redeem(ticket, file);
+
+    expect(errorTag(result)).toBe("DocumentStorageError");
+    expect(chunksRead).toBeLessThan(64);
+    expect(getVersionsForDocument(db, document.id)).toHaveLength(1);
+    expect(storedFiles()).toEqual([]);
+  });
+
+  test("should delete the stored file when the content is a duplicate", async () => {
+    const owner = seedAccount();
+    const document = seedOwnedDocument(owner.id);
+    const first = await issue(document.id, owner.id);
+    const second = await issue(document.id, owner.id);
+    await redeem(first, textFile("meeting notes"));
+
+    const result = await redeem(second, textFile("meeting notes"));
+
+    expect(errorTag(result)).toBe("DuplicateDocumentError");
+    const versions = getVersionsForDocument(db, document.id);
+    expect(versions.map((version) => version.id)).not.toContain(
+      second.versionId
+    );
+    expect(storedFiles()).toEqual(["notes.txt"]);
+    expect(fs.existsSync(versions[1].path)).toBe(true);
+  });
+
+  test("should require WRITE access to issue and redeem tickets", async () => {
+    const owner = seedAccount();
+    const editor = seedAccount();
+    const reader = seedAccount();
+    const document = seedOwnedDocument(owner.id);
+    for (const [user, permission] of [
+      [editor, "WRITE"],
+      [reader, "READ"],
+    ] as const) {
+      seedPermission(db, {
+        id: UuidGenerators.uuid(),
+        document_id: document.id,
+        user_id: user.id,
+        granted_by: owner.id,
+        permission,
+      });
+    }
+    const ticket = await issue(document.id, editor.id);
+    db.$client.run(
+      "UPDATE document_permissions SET permission = 'READ' WHERE user_id = ?",
+      editor.id
+    );
+
+    const issued = await run((deps) =>
+      UploadTicketWorkflows.issueUploadTicket(deps)(
+        {
+          documentId: document.id,
+          userId: reader.id,
+          maxSize: 1024,
+          mimeType: "text/plain",
+        },
+        BASE_URL
+      )
+    );
+    const redeemed = await redeem(ticket, textFile("notes"));
+
+    expect(errorTag(issued)).toBe("InsufficientPermissionError");
+    expect(errorTag(redeemed)).toBe("InsufficientPermissionError");
+    expect(getVersionsForDocument(db, document.id)).toHaveLength(1);
+  });
+
+  test("should purge expired tickets only", async () => {
+    const owner = seedAccount();
+    const document = seedOwnedDocument(owner.id);
+    await issue(document.id, owner.id, 1024, 1);
+    const current = await issue(document.id, owner.id);
+    await Bun.sleep(5);
+
+    const result = await run((deps) =>
+      UploadTicketWorkflows.purgeExpiredUploadTickets(deps)()
+    );
+
+    expect(result._tag === "Right" && result.right.deletedCount).toBe(1);
+    expect(
+      db.$client.query("SELECT version_id FROM upload_tickets").all()
+    ).toEqual([{ version_id: current.versionId }]);
+  });
+});
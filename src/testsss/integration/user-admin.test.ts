@@ -0,0 +1,274 @@
+/**
+ * User Administration Integration Tests
+ *
+ * Tests for admin role changes, account suspension and forced password
+ * resets, and for refusing suspended users at login and authentication
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import { seedUser, errorTag } from "../helpers";
+import { createMockJwt } from "../mocks/jwt.mock";
+import {
+  createMockPasswordHasher,
+  mockHashedPassword,
+} from "../mocks/password-hasher.mock";
+import * as UserWorkflows from "../../app/application/workflows/user-workflow";
+import { UserRepositoryTag } from "../../app/domain/user/repository";
+import { SessionRepositoryTag } from "../../app/domain/session/repository";
+import { MfaRepositoryTag } from "../../app/domain/mfa/repository";
+import { LoginThrottleRepositoryTag } from "../../app/domain/login-throttle/repository";
+import { AccountTokenRepositoryTag } from "../../app/domain/account-token/repository";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+import type { LoginResponse } from "../../app/application/dtos/user/response.dto";
+import { AuditPortTag } from "../../app/application/ports/audit.port";
+import { JwtPortTag } from "../../app/application/ports/jwt.port";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { SessionRepositoryLive } from "../../app/infrastructure/repositories/session-repository.impl";
+import { AccessTokenRepositoryLive } from "../../app/infrastructure/repositories/access-token-repository.impl";
+import { MfaRepositoryLive } from "../../app/infrastructure/repositories/mfa-repository.impl";
+import { LoginThrottleRepositoryLive } from "../../app/infrastructure/repositories/login-throttle-repository.impl";
+import { AccountTokenRepositoryLive } from "../../app/infrastructure/repositories/account-token-repository.impl";
+import { makeInMemoryOutbox } from "../../app/infrastructure/adapters/outbox-mailer.adapter";
+import { DrizzleAuditLive } from "../../app/infrastructure/adapters/drizzle-audit.adapter";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+import { authenticate } from "../../app/presentation/http/middleware/auth.middleware";
+
+describe("User Administration Integration Tests", () => {
+  let db: TestDatabase;
+  let outbox: ReturnType<typeof makeInMemoryOutbox>;
+  const password = "Secret123!";
+
+  const layer = () =>
+    Layer.merge(
+      Layer.provide(
+        Layer.mergeAll(
+          UserRepositoryLive,
+          SessionRepositoryLive,
+          AccessTokenRepositoryLive,
+          MfaRepositoryLive,
+          LoginThrottleRepositoryLive,
+          AccountTokenRepositoryLive,
+          DrizzleAuditLive
+        ),
+        Layer.succeed(DrizzleService, { db })
+      ),
+      Layer.succeed(JwtPortTag, createMockJwt())
+    );
+
+  const run = <A, E>(
+    use: (deps: UserWorkflows.UserWorkflowDeps) => Effect.Effect<A, E>
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.gen(function* () {
+          const deps: UserWorkflows.UserWorkflowDeps = {
+            userRepo: yield* UserRepositoryTag,
+            sessionRepo: yield* SessionRepositoryTag,
+            mfaRepo: yield* MfaRepositoryTag,
+            loginThrottleRepo: yield* LoginThrottleRepositoryTag,
+            accountTokenRepo: yield* AccountTokenRepositoryTag,
+            passwordHasher: createMockPasswordHasher(),
+            jwtService: yield* JwtPortTag,
+            auditService: yield* AuditPortTag,
+            mailer: outbox.mailer,
+          };
+          return yield* use(deps);
+        }).pipe(Effect.provide(layer()))
+      )
+    );
+
+  const unwrap = async <A, E>(
+    result: Promise<{ _tag: "Left"; left: E } | { _tag: "Right"; right: A }>
+  ) => {
+    const settled = await result;
+    if (settled._tag === "Left") throw settled.left;
+    return settled.right;
+  };
+
+  // Workflows decode the user ID, which factory IDs do not pass
+  const seedAccount = (role = "USER") =>
+    seedUser(db, {
+      id: UuidGenerators.userId(),
+      password: mockHashedPassword(password),
+      role,
+    });
+
+  const login = (email: string, attempt = password) =>
+    run((deps) =>
+      UserWorkflows.loginUser(deps)({ email, password: attempt })
+    );
+
+  const authenticateToken = (token: string) =>
+    Effect.runPromise(
+      Effect.either(
+        authenticate(`Bearer ${token}`).pipe(Effect.provide(layer()))
+      )
+    );
+
+  const suspend = (userId: string, requestingUserId: string) =>
+    run((deps) =>
+      UserWorkflows.suspendUser(deps)({
+        userId,
+        requestingUserId,
+        reason: "Policy violation",
+      })
+    );
+
+  const auditDetails = (action: string) =>
+    db.$client
+      .query("SELECT performed_by, details FROM document_audit WHERE action = ?")
+      .all(action) as { performed_by: string; details: string }[];
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+    outbox = makeInMemoryOutbox();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should change a role and apply it to issued tokens", async () => {
+    const admin = seedAccount("ADMIN");
+    const user = seedAccount();
+    const session = (await unwrap(login(user.email))) as LoginResponse;
+
+    const updated = await unwrap(
+      run((deps) =>
+        UserWorkflows.updateUserRole(deps)({
+          userId: user.id,
+          role: "ADMIN",
+          requestingUserId: admin.id,
+        })
+      )
+    );
+    const auth = await unwrap(authenticateToken(session.token));
+
+    expect(updated.role).toBe("ADMIN");
+    expect(auth.role).toBe("ADMIN");
+    expect(auditDetails("user_role_changed")).toHaveLength(1);
+  });
+
+  test("should only let administrators manage accounts", async () => {
+    const user = seedAccount();
+    const other = seedAccount();
+
+    const result = await run((deps) =>
+      UserWorkflows.updateUserRole(deps)({
+        userId: other.id,
+        role: "ADMIN",
+        requestingUserId: user.id,
+      })
+    );
+
+    expect(errorTag(result)).toBe("ForbiddenError");
+  });
+
+  test("should not let administrators suspend themselves", async () => {
+    const admin = seedAccount("ADMIN");
+
+    const result = await suspend(admin.id, admin.id);
+
+    expect(errorTag(result)).toBe("ForbiddenError");
+  });
+
+  test("should suspend a user and sign them out everywhere", async () => {
+    const admin = seedAccount("ADMIN");
+    const user = seedAccount();
+    const session = (await unwrap(login(user.email))) as LoginResponse;
+
+    const suspended = await unwrap(suspend(user.id, admin.id));
+    const auth = await authenticateToken(session.token);
+
+    expect(suspended.suspended).toBe(true);
+    expect(auth._tag).toBe("Left");
+    expect(auditDetails("user_suspended")).toEqual([
+      {
+        performed_by: admin.id,
+        details: `Suspended user ${user.id}: Policy violation`,
+      },
+    ]);
+  });
+
+  test("should refuse suspended users at authentication", async () => {
+    const user = seedAccount();
+    const session = (await unwrap(login(user.email))) as LoginResponse;
+    // Suspend directly so the session stays active
+    db.$client.run(
+      "UPDATE users SET suspended_at = ? WHERE id = ?",
+      new Date().toISOString(),
+      user.id
+    );
+
+    const auth = await authenticateToken(session.token);
+
+    expect(errorTag(auth)).toBe("UserSuspendedError");
+  });
+
+  test("should reject the login of a suspended user", async () => {
+    const admin = seedAccount("ADMIN");
+    const user = seedAccount();
+    await unwrap(suspend(user.id, admin.id));
+
+    const wrongPassword = await login(user.email, "Wrong123!");
+    const rightPassword = await login(user.email);
+
+    expect(errorTag(wrongPassword)).toBe("InvalidCredentialsError");
+    expect(errorTag(rightPassword)).toBe("UserSuspendedError");
+  });
+
+  test("should let a reactivated user sign in again", async () => {
+    const admin = seedAccount("ADMIN");
+    const user = seedAccount();
+    await unwrap(suspend(user.id, admin.id));
+
+    const reactivated = await unwrap(
+      run((deps) =>
+        UserWorkflows.reactivateUser(deps)({
+          userId: user.id,
+          requestingUserId: admin.id,
+        })
+      )
+    );
+
+    expect(reactivated.suspended).toBe(false);
+    expect((await login(user.email))._tag).toBe("Right");
+    expect(auditDetails("user_reactivated")).toHaveLength(1);
+  });
+
+  test("should force a password reset and mail a reset link", async () => {
+    const admin = seedAccount("ADMIN");
+    const user = seedAccount();
+    await unwrap(login(user.email));
+
+    const result = await unwrap(
+      run((deps) =>
+        UserWorkflows.forcePasswordReset(deps)({
+          userId: user.id,
+          requestingUserId: admin.id,
+        })
+      )
+    );
+
+    expect(result).toEqual({ sessionsRevoked: 1, resetLinkSent: true });
+    expect(errorTag(await login(user.email))).toBe("InvalidCredentialsError");
+    expect(outbox.messages.map((message) => message.to)).toEqual([
+      user.email,
+    ]);
+    const token = outbox.messages[0]!.text.match(/token=([\w-]+)/)![1]!;
+    await unwrap(
+      run((deps) =>
+        UserWorkflows.resetPassword(deps)({ token, password: "Changed456!" })
+      )
+    );
+    expect((await login(user.email, "Changed456!"))._tag).toBe("Right");
+  });
+});
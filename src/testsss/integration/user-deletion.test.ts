@@ -0,0 +1,215 @@
+/**
+ * User Deletion Integration Tests
+ *
+ * Tests for deleting users with a disposition for their documents
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { Effect, Layer, Option } from "effect";
+import {
+  setupTestDatabase,
+  cleanupTestDatabase,
+  type TestDatabase,
+} from "../setup";
+import { resetFactories } from "../factories";
+import {
+  seedUser,
+  seedDocument,
+  seedUserWithDocuments,
+  getUserById,
+  getDocumentById,
+  getDocumentsForUser,
+} from "../helpers";
+import {
+  UserRepositoryTag,
+  type DocumentDisposition,
+} from "../../app/domain/user/repository";
+import { UserRepositoryLive } from "../../app/infrastructure/repositories/user-repository.impl";
+import { DrizzleService } from "../../app/infrastructure/services/drizzle-service";
+import type { UserId } from "../../app/domain/refined/uuid";
+import { UuidGenerators } from "../../app/domain/refined/uuid";
+
+describe("User Deletion Integration Tests", () => {
+  let db: TestDatabase;
+
+  const deleteWithDisposition = (
+    userId: string,
+    disposition: DocumentDisposition
+  ) =>
+    Effect.runPromise(
+      Effect.either(
+        Effect.flatMap(UserRepositoryTag, (repo) =>
+          repo.deleteWithDisposition(userId as UserId, disposition)
+        ).pipe(
+          Effect.provide(
+            Layer.provide(
+              UserRepositoryLive,
+              Layer.succeed(DrizzleService, { db })
+            )
+          )
+        )
+      )
+    );
+
+  const seedFolder = (ownerId: string, parentId: string | null = null) => {
+    const id = UuidGenerators.folderId();
+    db.$client.run(
+      "INSERT INTO folders (id, name, parent_id, owner_id) VALUES (?, ?, ?, ?)",
+      id,
+      `Folder ${id}`,
+      parentId,
+      ownerId
+    );
+    return id;
+  };
+
+  const getFolderById = (id: string) =>
+    db.$client
+      .query("SELECT parent_id, owner_id FROM folders WHERE id = ?")
+      .get(id) as { parent_id: string | null; owner_id: string };
+
+  beforeEach(() => {
+    resetFactories();
+    db = setupTestDatabase();
+  });
+
+  afterEach(() => {
+    cleanupTestDatabase(db);
+  });
+
+  test("should refuse to delete a user who still owns documents", async () => {
+    const { user, documents } = seedUserWithDocuments(db, 2);
+
+    const result = await deleteWithDisposition(user.id, { mode: "REFUSE" });
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left._tag).toBe("UserHasDocumentsError");
+    }
+    expect(getUserById(db, user.id)).toBeDefined();
+    expect(getDocumentById(db, documents[0].id)).toBeDefined();
+  });
+
+  test("should mention trashed documents when refusing", async () => {
+    const { user, documents } = seedUserWithDocuments(db, 2);
+    db.$client.run(
+      "UPDATE documents SET deleted_at = ? WHERE id = ?",
+      new Date().toISOString(),
+      documents[0].id
+    );
+
+    const result = await deleteWithDisposition(user.id, { mode: "REFUSE" });
+
+    expect(result._tag).toBe("Left");
+    if (result._tag === "Left") {
+      expect(result.left.message).toBe(
+        "User still owns 2 document(s), 1 of them in the trash; reassign or archive them first"
+      );
+    }
+    expect(getUserById(db, user.id)).toBeDefined();
+  });
+
+  test("should delete a user without documents when refusing", async () => {
+    const user = seedUser(db);
+
+    const result = await deleteWithDisposition(user.id, { mode: "REFUSE" });
+
+    expect(result._tag).toBe("Right");
+    expect(getUserById(db, user.id)).toBeNull();
+  });
+
+  test("should reassign documents under a new folder of the new owner", async () => {
+    const { user, documents } = seedUserWithDocuments(db, 2);
+    const newOwner = seedUser(db);
+    const folderId = UuidGenerators.folderId();
+
+    const result = await deleteWithDisposition(user.id, {
+      mode: "REASSIGN",
+      toUserId: newOwner.id,
+      folderId,
+      folderName: `${user.email} (deleted)`,
+    });
+
+    expect(result._tag).toBe("Right");
+    if (result._tag === "Right") {
+      expect(result.right.documentsReassigned).toBe(2);
+      expect(Option.getOrNull(result.right.folderId)).toBe(folderId);
+    }
+    expect(getUserById(db, user.id)).toBeNull();
+
+    const reassigned = getDocumentsForUser(db, newOwner.id);
+    expect(reassigned.map((doc) => doc.id).sort()).toEqual(
+      documents.map((doc) => doc.id).sort()
+    );
+    expect(reassigned.every((doc) => doc.folder_id === folderId)).toBe(true);
+  });
+
+  test("should nest the user's folder tree under the new folder", async () => {
+    const { user, documents } = seedUserWithDocuments(db, 2);
+    const newOwner = seedUser(db);
+    const rootFolderId = seedFolder(user.id);
+    const subfolderId = seedFolder(user.id, rootFolderId);
+    const otherFolderId = seedFolder(newOwner.id);
+    db.$client.run(
+      "UPDATE documents SET folder_id = ? WHERE id = ?",
+      subfolderId,
+      documents[1].id
+    );
+    const folderId = UuidGenerators.folderId();
+
+    const result = await deleteWithDisposition(user.id, {
+      mode: "REASSIGN",
+      toUserId: newOwner.id,
+      folderId,
+      folderName: `${user.email} (deleted)`,
+    });
+
+    expect(result._tag === "Right" && result.right.foldersReassigned).toBe(2);
+    expect(getFolderById(folderId)).toEqual({
+      parent_id: null,
+      owner_id: newOwner.id,
+    });
+    expect(getFolderById(rootFolderId)).toEqual({
+      parent_id: folderId,
+      owner_id: newOwner.id,
+    });
+    expect(getFolderById(subfolderId)).toEqual({
+      parent_id: rootFolderId,
+      owner_id: newOwner.id,
+    });
+    expect(getFolderById(otherFolderId).parent_id).toBeNull();
+    expect(getDocumentById(db, documents[0].id).folder_id).toBe(folderId);
+    expect(getDocumentById(db, documents[1].id).folder_id).toBe(subfolderId);
+  });
+
+  test("should archive two users with the same email into one owner", async () => {
+    const archiveOwner = seedUser(db);
+    const email = "former@example.com";
+
+    // The second account is registered after the first one is deleted
+    for (let i = 0; i < 2; i++) {
+      const user = seedUser(db, { email });
+      seedDocument(db, { uploaded_by: user.id });
+
+      const result = await deleteWithDisposition(user.id, {
+        mode: "REASSIGN",
+        toUserId: archiveOwner.id,
+        folderId: UuidGenerators.folderId(),
+        folderName: `${email} (deleted)`,
+      });
+
+      expect(result._tag).toBe("Right");
+      expect(getUserById(db, user.id)).toBeNull();
+    }
+
+    expect(
+      db.$client
+        .query("SELECT name FROM folders WHERE owner_id = ? ORDER BY name")
+        .all(archiveOwner.id)
+    ).toEqual([
+      { name: "former@example.com (deleted)" },
+      { name: "former@example.com (deleted) (2)" },
+    ]);
+    expect(getDocumentsForUser(db, archiveOwner.id)).toHaveLength(2);
+  });
+});
@@ -336,7 +336,7 @@ describe("User Workflow Integration Tests", () => {
       await Effect.runPromise(program.pipe(Effect.provide(testLayer)));
     });
 
-    test("should update user password", async () => {
+    test("should refuse a password change", async () => {
       const user = seedUser(db, {
         email: "user@example.com",
         password: mockHashedPassword("OldPassword"),
@@ -346,18 +346,21 @@ describe("User Workflow Integration Tests", () => {
       const program = Effect.gen(function* () {
         const workflow = yield* UserWorkflowTag;
 
-        const updated = yield* workflow.updateUserProfile(user.id as any, {
-          password: "NewPassword123!" as any,
-        });
-
-        // Verify password was hashed
-        const dbUser = getUserById(db, user.id);
-        expect(dbUser.password).toBe(mockHashedPassword("NewPassword123!"));
-
-        return updated;
+        yield* workflow.updateUserProfile(user.id as any, {
+          password: "NewPassword123!",
+        } as any);
       });
 
-      await Effect.runPromise(program.pipe(Effect.provide(testLayer)));
+      try {
+        await Effect.runPromise(program.pipe(Effect.provide(testLayer)));
+        expect(true).toBe(false); // Should not reach here
+      } catch (error: any) {
+        expect(error.message).toContain("current password");
+      }
+
+      // Verify password was left alone
+      const dbUser = getUserById(db, user.id);
+      expect(dbUser.password).toBe(mockHashedPassword("OldPassword"));
     });
 
     test("should fail when updating to duplicate email", async () => {
@@ -7,3 +7,5 @@
 export * from "./storage.mock";
 export * from "./password-hasher.mock";
 export * from "./jwt.mock";
+export * from "./s3-server.mock";
+export * from "./smtp-socket.mock";
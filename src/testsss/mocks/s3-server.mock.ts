@@ -0,0 +1,248 @@
+/**
+ * Mock S3 Server
+ *
+ * In-memory S3-compatible HTTP server (a MinIO-style stand-in) for testing
+ * the S3 storage adapter without real object storage. Implements the part of
+ * the API the adapter uses: PUT / GET (with Range) / HEAD / DELETE object,
+ * ListObjectsV2 and multipart uploads. Path-style addressing only; request
+ * signatures are not verified.
+ */
+
+import * as crypto from "crypto";
+
+/**
+ * Stored object
+ */
+export interface MockS3Object {
+  content: Uint8Array;
+  contentType: string;
+  etag: string;
+  lastModified: Date;
+}
+
+/**
+ * Running mock server
+ */
+export interface MockS3Server {
+  readonly endpoint: string;
+  readonly bucket: string;
+  readonly objects: Map<string, MockS3Object>;
+  readonly requests: string[]; // "METHOD /key" of every request received
+  readonly stop: () => void;
+}
+
+const xmlEscape = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const xmlResponse = (body: string, status = 200): Response =>
+  new Response(`<?xml version="1.0" encoding="UTF-8"?>${body}`, {
+    status,
+    headers: { "Content-Type": "application/xml" },
+  });
+
+const s3Error = (status: number, code: string, message: string): Response =>
+  xmlResponse(
+    `<Error><Code>${code}</Code><Message>${xmlEscape(message)}</Message></Error>`,
+    status
+  );
+
+const makeObject = (
+  content: Uint8Array,
+  contentType: string | null
+): MockS3Object => ({
+  content,
+  contentType: contentType || "application/octet-stream",
+  etag: `"${crypto.createHash("md5").update(content).digest("hex")}"`,
+  lastModified: new Date(),
+});
+
+const objectHeaders = (object: MockS3Object): Record<string, string> => ({
+  "Content-Type": object.contentType,
+  ETag: object.etag,
+  "Last-Modified": object.lastModified.toUTCString(),
+  "Accept-Ranges": "bytes",
+});
+
+/**
+ * Parse "bytes=start-end" / "bytes=start-" against an object size
+ */
+const parseRange = (
+  header: string | null,
+  size: number
+): { start: number; end: number } | undefined => {
+  const match = header?.match(/^bytes=(\d+)-(\d*)$/);
+  if (!match) return undefined;
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  return { start, end };
+};
+
+const listObjectsV2 = (
+  objects: Map<string, MockS3Object>,
+  bucket: string,
+  prefix: string
+): Response => {
+  const keys = [...objects.keys()]
+    .filter((key) => key.startsWith(prefix))
+    .sort();
+  const contents = keys
+    .map((key) => {
+      const object = objects.get(key)!;
+      return `<Contents><Key>${xmlEscape(key)}</Key><LastModified>${object.lastModified.toISOString()}</LastModified><ETag>${xmlEscape(object.etag)}</ETag><Size>${object.content.length}</Size><StorageClass>STANDARD</StorageClass></Contents>`;
+    })
+    .join("");
+  return xmlResponse(
+    `<ListBucketResult><Name>${bucket}</Name><Prefix>${xmlEscape(prefix)}</Prefix><KeyCount>${keys.length}</KeyCount><MaxKeys>1000</MaxKeys><IsTruncated>false</IsTruncated>${contents}</ListBucketResult>`
+  );
+};
+
+/**
+ * Start a mock S3 server on a random local port
+ */
+export const startMockS3Server = (bucket = "test-bucket"): MockS3Server => {
+  const objects = new Map<string, MockS3Object>();
+  const multipartUploads = new Map<
+    string,
+    { contentType: string | null; parts: Map<number, Uint8Array> }
+  >();
+  const requests: string[] = [];
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      const [, requestBucket, ...keyParts] = url.pathname.split("/");
+      const key = decodeURIComponent(keyParts.join("/"));
+      const params = url.searchParams;
+      requests.push(`${request.method} /${key}`);
+
+      if (requestBucket !== bucket) {
+        return s3Error(
+          404,
+          "NoSuchBucket",
+          "The specified bucket does not exist"
+        );
+      }
+
+      // Bucket-level request
+      if (!key) {
+        return request.method === "GET" && params.get("list-type") === "2"
+          ? listObjectsV2(objects, bucket, params.get("prefix") ?? "")
+          : s3Error(501, "NotImplemented", "Unsupported bucket operation");
+      }
+
+      const uploadId = params.get("uploadId");
+
+      switch (request.method) {
+        case "POST": {
+          if (params.has("uploads")) {
+            const id = crypto.randomUUID();
+            multipartUploads.set(id, {
+              contentType: request.headers.get("content-type"),
+              parts: new Map(),
+            });
+            return xmlResponse(
+              `<InitiateMultipartUploadResult><Bucket>${bucket}</Bucket><Key>${xmlEscape(key)}</Key><UploadId>${id}</UploadId></InitiateMultipartUploadResult>`
+            );
+          }
+          const upload = uploadId && multipartUploads.get(uploadId);
+          if (!upload) {
+            return s3Error(404, "NoSuchUpload", "The upload does not exist");
+          }
+          const parts = [...upload.parts.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([, part]) => part);
+          const object = makeObject(
+            new Uint8Array(Buffer.concat(parts)),
+            upload.contentType
+          );
+          objects.set(key, object);
+          multipartUploads.delete(uploadId);
+          return xmlResponse(
+            `<CompleteMultipartUploadResult><Bucket>${bucket}</Bucket><Key>${xmlEscape(key)}</Key><ETag>${xmlEscape(object.etag)}</ETag></CompleteMultipartUploadResult>`
+          );
+        }
+
+        case "PUT": {
+          const content = new Uint8Array(await request.arrayBuffer());
+          if (uploadId) {
+            const upload = multipartUploads.get(uploadId);
+            if (!upload) {
+              return s3Error(404, "NoSuchUpload", "The upload does not exist");
+            }
+            upload.parts.set(Number(params.get("partNumber")), content);
+            return new Response(null, {
+              headers: { ETag: makeObject(content, null).etag },
+            });
+          }
+          const object = makeObject(
+            content,
+            request.headers.get("content-type")
+          );
+          objects.set(key, object);
+          return new Response(null, { headers: { ETag: object.etag } });
+        }
+
+        case "DELETE": {
+          if (uploadId) {
+            multipartUploads.delete(uploadId);
+          } else {
+            objects.delete(key);
+          }
+          return new Response(null, { status: 204 });
+        }
+
+        case "HEAD":
+        case "GET": {
+          const object = objects.get(key);
+          if (!object) {
+            return request.method === "HEAD"
+              ? new Response(null, { status: 404 })
+              : s3Error(404, "NoSuchKey", "The specified key does not exist.");
+          }
+          const headers = objectHeaders(object);
+          const range = parseRange(
+            request.headers.get("range"),
+            object.content.length
+          );
+          if (request.method === "HEAD") {
+            return new Response(null, {
+              headers: {
+                ...headers,
+                "Content-Length": String(object.content.length),
+              },
+            });
+          }
+          if (range) {
+            return new Response(
+              object.content.slice(range.start, range.end + 1),
+              {
+                status: 206,
+                headers: {
+                  ...headers,
+                  "Content-Range": `bytes ${range.start}-${range.end}/${object.content.length}`,
+                },
+              }
+            );
+          }
+          return new Response(object.content, { headers });
+        }
+
+        default:
+          return s3Error(405, "MethodNotAllowed", "Method not allowed");
+      }
+    },
+  });
+
+  return {
+    endpoint: `http://localhost:${server.port}`,
+    bucket,
+    objects,
+    requests,
+    stop: () => server.stop(true),
+  };
+};
@@ -0,0 +1,145 @@
+/**
+ * Mock SMTP Socket
+ *
+ * Scripted stand-in for the socket to an SMTP relay, for testing the SMTP
+ * mailer without a network. Answers EHLO, STARTTLS, AUTH, MAIL, RCPT, DATA
+ * and QUIT like a submission server; any reply can be overridden to
+ * simulate errors. STARTTLS is simulated by the transport marking the same
+ * socket as secured.
+ */
+
+import { EventEmitter } from "events";
+import type * as net from "net";
+import type { SmtpTransport } from "../../app/infrastructure/adapters/smtp-mailer.adapter";
+
+/**
+ * Command received by the mock server
+ */
+export interface MockSmtpCommand {
+  readonly line: string;
+  readonly secure: boolean; // Whether TLS was up when it was sent
+}
+
+/**
+ * Mock server behaviour
+ */
+export interface MockSmtpOptions {
+  readonly offerStartTls?: boolean;
+  readonly replies?: Readonly<Record<string, string>>; // Verb → reply line
+}
+
+/**
+ * Running mock server and the transport connecting to it
+ */
+export interface MockSmtpServer {
+  readonly transport: SmtpTransport;
+  readonly commands: MockSmtpCommand[];
+  readonly messages: string[]; // DATA payloads, dot-stuffed as sent
+}
+
+class MockSmtpSocket extends EventEmitter {
+  secure = false;
+  private pending = "";
+  private data: string[] | undefined;
+
+  constructor(
+    private readonly options: MockSmtpOptions,
+    private readonly server: MockSmtpServer
+  ) {
+    super();
+  }
+
+  setEncoding() {
+    return this;
+  }
+
+  setTimeout() {
+    return this;
+  }
+
+  end() {
+    setImmediate(() => this.emit("close"));
+    return this;
+  }
+
+  destroy(error?: Error) {
+    if (error) this.emit("error", error);
+    this.emit("close");
+    return this;
+  }
+
+  write(chunk: string) {
+    this.pending += chunk;
+    const lines = this.pending.split("\r\n");
+    this.pending = lines.pop() ?? "";
+    for (const line of lines) this.receive(line);
+    return true;
+  }
+
+  reply(text: string) {
+    setImmediate(() => this.emit("data", `${text}\r\n`));
+  }
+
+  private receive(line: string) {
+    if (this.data) {
+      if (line === ".") {
+        this.server.messages.push(this.data.join("\r\n"));
+        this.data = undefined;
+        this.reply(this.options.replies?.["."] ?? "250 2.0.0 Queued");
+      } else {
+        this.data.push(line);
+      }
+      return;
+    }
+
+    this.server.commands.push({ line, secure: this.secure });
+    const verb = line.split(" ")[0]!.toUpperCase();
+    const override = this.options.replies?.[verb];
+    if (override) return this.reply(override);
+
+    switch (verb) {
+      case "EHLO":
+        return this.reply(
+          this.options.offerStartTls && !this.secure
+            ? "250-mock.test\r\n250-STARTTLS\r\n250 AUTH PLAIN"
+            : "250-mock.test\r\n250 AUTH PLAIN"
+        );
+      case "STARTTLS":
+        return this.reply("220 2.0.0 Ready to start TLS");
+      case "AUTH":
+        return this.reply("235 2.7.0 Authentication successful");
+      case "DATA":
+        this.data = [];
+        return this.reply("354 End data with <CR><LF>.<CR><LF>");
+      case "QUIT":
+        return this.reply("221 2.0.0 Bye");
+      default:
+        return this.reply("250 2.1.0 Ok");
+    }
+  }
+}
+
+/**
+ * Create a mock SMTP server reached through a fake transport
+ */
+export const createMockSmtpServer = (
+  options: MockSmtpOptions = {}
+): MockSmtpServer => {
+  const server: MockSmtpServer = {
+    commands: [],
+    messages: [],
+    transport: {
+      open: async (config) => {
+        const socket = new MockSmtpSocket(options, server);
+        socket.secure = config.secure;
+        socket.reply(options.replies?.["GREETING"] ?? "220 mock.test ESMTP");
+        return socket as unknown as net.Socket;
+      },
+      startTls: async (socket) => {
+        (socket as unknown as MockSmtpSocket).secure = true;
+        return socket;
+      },
+    },
+  };
+  return server;
+};
@@ -10,6 +10,7 @@ import type {
   FileMetadata,
   UploadedFile,
   StoredFileInfo,
+  ByteRange,
 } from "../../app/application/ports/storage.port";
 import { StoragePortTag } from "../../app/application/ports/storage.port";
 
@@ -161,6 +162,77 @@ export const createMockStorage = (state?: MockStorageState): StoragePort => {
       return Effect.succeed(downloadUrl);
     },
 
+    readFileStream: (
+      path: string,
+      range?: ByteRange
+    ): Effect.Effect<ReadableStream<Uint8Array>, Error> => {
+      const file = storageState.getFile(path);
+      if (!file) {
+        return Effect.fail(new Error(`File not found: ${path}`));
+      }
+
+      const content = range
+        ? file.content.subarray(range.start, range.end + 1)
+        : file.content;
+      return Effect.succeed(new Blob([content]).stream());
+    },
+
+    appendUploadPart: (
+      uploadId: string,
+      offset: number,
+      data: ReadableStream<Uint8Array>,
+      maxBytes: number
+    ): Effect.Effect<number, Error> => {
+      const partPath = `/temp/uploads/${uploadId}.part`;
+      const current = storageState.getFile(partPath)?.content ?? Buffer.alloc(0);
+      if (current.length !== offset) {
+        return Effect.fail(new Error(`Offset mismatch for upload ${uploadId}`));
+      }
+
+      return Effect.flatMap(
+        Effect.promise(() => new Response(data).arrayBuffer()),
+        (chunk) => {
+          if (chunk.byteLength > maxBytes) {
+            return Effect.fail(new Error("Chunk exceeds upload length"));
+          }
+          const content = Buffer.concat([current, Buffer.from(chunk)]);
+          storageState.addFile(partPath, content, {});
+          return Effect.succeed(content.length);
+        }
+      );
+    },
+
+    getUploadPartSize: (uploadId: string): Effect.Effect<number, Error> =>
+      Effect.succeed(
+        storageState.getFile(`/temp/uploads/${uploadId}.part`)?.content
+          .length ?? 0
+      ),
+
+    openUploadPart: (
+      uploadId: string,
+      name: string,
+      type: string
+    ): Effect.Effect<UploadedFile, Error> => {
+      const file = storageState.getFile(`/temp/uploads/${uploadId}.part`);
+      if (!file) {
+        return Effect.fail(new Error(`Upload not found: ${uploadId}`));
+      }
+
+      const blob = new Blob([file.content], { type });
+      return Effect.succeed({
+        name,
+        size: file.content.length,
+        type,
+        arrayBuffer: () => blob.arrayBuffer(),
+        stream: () => blob.stream(),
+      });
+    },
+
+    deleteUploadPart: (uploadId: string): Effect.Effect<void, Error> => {
+      storageState.deleteFile(`/temp/uploads/${uploadId}.part`);
+      return Effect.succeed(undefined);
+    },
+
     fileExists: (path: string): Effect.Effect<boolean, Error> => {
       return Effect.succeed(storageState.fileExists(path));
     },
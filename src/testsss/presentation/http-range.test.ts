@@ -0,0 +1,86 @@
+/**
+ * HTTP Range Tests
+ *
+ * Tests for resolving Range headers and evaluating If-Range validators
+ */
+
+import { describe, test, expect } from "bun:test";
+import {
+  resolveRange,
+  rangeStart,
+  ifRangeMatches,
+  ifNoneMatchMatches,
+} from "../../app/presentation/http/utils/http-range";
+
+const partial = (start: number, end: number) => ({
+  _tag: "Partial",
+  range: { start, end },
+});
+
+describe("resolveRange", () => {
+  test("should serve the full file without a usable range", () => {
+    for (const header of [undefined, "", "bytes=-", "items=0-10", "bytes=a-b"]) {
+      expect(resolveRange(header, 100)).toEqual({ _tag: "Full" });
+    }
+  });
+
+  test("should resolve a closed range and clamp its end", () => {
+    expect(resolveRange("bytes=10-19", 100)).toEqual(partial(10, 19));
+    expect(resolveRange("bytes=90-200", 100)).toEqual(partial(90, 99));
+  });
+
+  test("should resolve an open-ended range to the end of the file", () => {
+    expect(resolveRange("bytes=40-", 100)).toEqual(partial(40, 99));
+  });
+
+  test("should resolve a suffix range to the final bytes", () => {
+    expect(resolveRange("bytes=-10", 100)).toEqual(partial(90, 99));
+    expect(resolveRange("bytes=-500", 100)).toEqual(partial(0, 99));
+  });
+
+  test("should ignore multi-range requests", () => {
+    expect(resolveRange("bytes=0-9,20-29", 100)).toEqual({ _tag: "Full" });
+  });
+
+  test("should ignore a range that ends before it starts", () => {
+    expect(resolveRange("bytes=50-10", 100)).toEqual({ _tag: "Full" });
+  });
+
+  test("should reject unsatisfiable ranges", () => {
+    expect(resolveRange("bytes=100-", 100)).toEqual({ _tag: "Unsatisfiable" });
+    expect(resolveRange("bytes=-0", 100)).toEqual({ _tag: "Unsatisfiable" });
+    expect(resolveRange("bytes=-10", 0)).toEqual({ _tag: "Unsatisfiable" });
+  });
+});
+
+describe("rangeStart", () => {
+  test("should return the first byte of a single range", () => {
+    expect(rangeStart("bytes=0-")).toBe(0);
+    expect(rangeStart("bytes=512-1023")).toBe(512);
+  });
+
+  test("should have no start for suffix, multi-range or malformed headers", () => {
+    for (const header of [undefined, "bytes=-10", "bytes=0-9,20-29", "x"]) {
+      expect(rangeStart(header)).toBeUndefined();
+    }
+  });
+});
+
+describe("If-Range and If-None-Match", () => {
+  const etag = '"abc"';
+  const lastModified = new Date(0).toUTCString();
+
+  test("should match If-Range on the exact ETag or date", () => {
+    expect(ifRangeMatches(undefined, etag, lastModified)).toBe(true);
+    expect(ifRangeMatches(etag, etag, lastModified)).toBe(true);
+    expect(ifRangeMatches(lastModified, etag, lastModified)).toBe(true);
+    expect(ifRangeMatches(`W/${etag}`, etag, lastModified)).toBe(false);
+  });
+
+  test("should match If-None-Match weakly and on wildcards", () => {
+    expect(ifNoneMatchMatches(undefined, etag)).toBe(false);
+    expect(ifNoneMatchMatches(`"x", W/${etag}`, etag)).toBe(true);
+    expect(ifNoneMatchMatches("*", etag)).toBe(true);
+    expect(ifNoneMatchMatches('"x"', etag)).toBe(false);
+  });
+});
@@ -40,11 +40,72 @@ export function migrateTestDatabase(db: TestDatabase): void {
       email TEXT NOT NULL UNIQUE,
       password TEXT NOT NULL,
       role TEXT NOT NULL DEFAULT 'USER',
+      email_verified_at TEXT DEFAULT '1970-01-01T00:00:00.000Z',
+      suspended_at TEXT,
       created_at INTEGER NOT NULL DEFAULT (unixepoch()),
       updated_at INTEGER NOT NULL DEFAULT (unixepoch())
     );
   `);
 
+  // Create folders table
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS folders (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      parent_id TEXT,
+      owner_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      FOREIGN KEY (parent_id) REFERENCES folders(id),
+      FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_folders_parent_id ON folders(parent_id);
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_folders_owner_parent ON folders(owner_id, parent_id);
+  `);
+
+  sqlite.run(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_folders_owner_parent_name ON folders(owner_id, coalesce(parent_id, ''), name);
+  `);
+
+  // Create groups table
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS groups (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      owner_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      FOREIGN KEY (owner_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE(owner_id, name)
+    );
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_groups_owner_id ON groups(owner_id);
+  `);
+
+  // Create group_members table
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS group_members (
+      group_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      added_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      PRIMARY KEY (group_id, user_id),
+      FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_group_members_user_id ON group_members(user_id);
+  `);
+
   //Create documents table
   sqlite.run(`
     CREATE TABLE IF NOT EXISTS documents (
@@ -54,11 +115,16 @@ export function migrateTestDatabase(db: TestDatabase): void {
       mime_type TEXT NOT NULL,
       size INTEGER NOT NULL,
       path TEXT,
+      folder_id TEXT,
       status TEXT NOT NULL DEFAULT 'DRAFT' CHECK(status IN ('DRAFT', 'PUBLISHED')),
       uploaded_by TEXT NOT NULL,
+      deleted_at TEXT,
+      deleted_by TEXT,
       created_at INTEGER NOT NULL DEFAULT (unixepoch()),
       updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
-      FOREIGN KEY (uploaded_by) REFERENCES users(id) ON DELETE CASCADE
+      FOREIGN KEY (folder_id) REFERENCES folders(id) ON DELETE SET NULL,
+      FOREIGN KEY (uploaded_by) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (deleted_by) REFERENCES users(id) ON DELETE SET NULL
     );
   `);
 
@@ -70,6 +136,14 @@ export function migrateTestDatabase(db: TestDatabase): void {
     CREATE INDEX IF NOT EXISTS idx_documents_status ON documents(status);
   `);
 
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_documents_folder_id ON documents(folder_id);
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_documents_deleted_at ON documents(deleted_at);
+  `);
+
   // Create document_versions table
   sqlite.run(`
     CREATE TABLE IF NOT EXISTS document_versions (
@@ -112,14 +186,18 @@ export function migrateTestDatabase(db: TestDatabase): void {
     CREATE TABLE IF NOT EXISTS document_permissions (
       id TEXT PRIMARY KEY,
       document_id TEXT NOT NULL,
-      user_id TEXT NOT NULL,
+      user_id TEXT,
+      group_id TEXT,
       permission TEXT NOT NULL,
       granted_by TEXT NOT NULL,
       granted_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      expires_at TEXT,
       FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE,
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (group_id) REFERENCES groups(id) ON DELETE CASCADE,
       FOREIGN KEY (granted_by) REFERENCES users(id),
-      UNIQUE(document_id, user_id)
+      UNIQUE(document_id, user_id),
+      UNIQUE(document_id, group_id)
     );
   `);
 
@@ -131,17 +209,29 @@ export function migrateTestDatabase(db: TestDatabase): void {
     CREATE INDEX IF NOT EXISTS idx_permissions_user_id ON document_permissions(user_id);
   `);
 
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_permissions_group_id ON document_permissions(group_id);
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_permissions_expires_at ON document_permissions(expires_at);
+  `);
+
   // Create document_audit table
   sqlite.run(`
     CREATE TABLE IF NOT EXISTS document_audit (
       id TEXT PRIMARY KEY,
-      document_id TEXT NOT NULL,
+      document_id TEXT,
+      sequence INTEGER NOT NULL,
       action TEXT NOT NULL,
       performed_by TEXT NOT NULL,
       details TEXT DEFAULT '' NOT NULL,
+      before_value TEXT,
+      after_value TEXT,
+      correlation_id TEXT,
       performed_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE,
-      FOREIGN KEY (performed_by) REFERENCES users(id)
+      prev_hash TEXT NOT NULL,
+      hash TEXT NOT NULL
     );
   `);
 
@@ -153,6 +243,18 @@ export function migrateTestDatabase(db: TestDatabase): void {
     CREATE INDEX IF NOT EXISTS idx_audit_performed_at ON document_audit(performed_at);
   `);
 
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_audit_performed_by ON document_audit(performed_by);
+  `);
+
+  sqlite.run(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_document_sequence ON document_audit(document_id, sequence);
+  `);
+
+  sqlite.run(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_system_sequence ON document_audit(sequence) WHERE document_id IS NULL;
+  `);
+
   // Create metadata table
   sqlite.run(`
     CREATE TABLE IF NOT EXISTS document_metadata (
@@ -175,11 +277,16 @@ export function migrateTestDatabase(db: TestDatabase): void {
     CREATE TABLE IF NOT EXISTS download_tokens (
       id TEXT PRIMARY KEY,
       document_id TEXT NOT NULL,
+      version_id TEXT,
       token TEXT NOT NULL UNIQUE,
       expires_at INTEGER NOT NULL,
+      used_at TEXT,
+      resumed_from INTEGER NOT NULL DEFAULT 0,
+      resume_count INTEGER NOT NULL DEFAULT 0,
       created_by TEXT NOT NULL,
       created_at INTEGER NOT NULL DEFAULT (unixepoch()),
       FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE,
+      FOREIGN KEY (version_id) REFERENCES document_versions(id) ON DELETE CASCADE,
       FOREIGN KEY (created_by) REFERENCES users(id)
     );
   `);
@@ -191,6 +298,184 @@ export function migrateTestDatabase(db: TestDatabase): void {
   sqlite.run(`
     CREATE INDEX IF NOT EXISTS idx_download_tokens_document_id ON download_tokens(document_id);
   `);
+
+  // Create upload_sessions table
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS upload_sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      filename TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      upload_length INTEGER NOT NULL,
+      document_id TEXT,
+      folder_id TEXT,
+      expires_at TEXT NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE,
+      FOREIGN KEY (folder_id) REFERENCES folders(id) ON DELETE SET NULL
+    );
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_upload_sessions_user_id ON upload_sessions(user_id);
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_upload_sessions_expires_at ON upload_sessions(expires_at);
+  `);
+
+  // Create upload_tickets table
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS upload_tickets (
+      id TEXT PRIMARY KEY,
+      document_id TEXT NOT NULL,
+      version_id TEXT NOT NULL,
+      token TEXT NOT NULL UNIQUE,
+      max_size INTEGER NOT NULL,
+      mime_type TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      used_at TEXT,
+      created_by TEXT NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE,
+      FOREIGN KEY (created_by) REFERENCES users(id) ON DELETE CASCADE
+    );
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_upload_tickets_token ON upload_tickets(token);
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_upload_tickets_expires_at ON upload_tickets(expires_at);
+  `);
+
+  // Create user_sessions table
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS user_sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      refresh_token_hash TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      last_refreshed_at TEXT,
+      revoked_at TEXT,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id);
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_user_sessions_expires_at ON user_sessions(expires_at);
+  `);
+
+  // Create access_tokens table
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS access_tokens (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      scope TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      token_hint TEXT NOT NULL,
+      expires_at TEXT,
+      last_used_at TEXT,
+      revoked_at TEXT,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_access_tokens_user ON access_tokens(user_id);
+  `);
+
+  // Create MFA tables
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS user_mfa (
+      user_id TEXT PRIMARY KEY,
+      secret TEXT NOT NULL,
+      confirmed_at TEXT,
+      recovery_code_hashes TEXT NOT NULL DEFAULT '[]',
+      last_used_step INTEGER,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+  `);
+
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS mfa_challenges (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      expires_at TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      consumed_at TEXT,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_mfa_challenges_user ON mfa_challenges(user_id);
+  `);
+
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS mfa_role_policies (
+      role TEXT PRIMARY KEY,
+      updated_by TEXT,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      FOREIGN KEY (updated_by) REFERENCES users(id) ON DELETE SET NULL
+    );
+  `);
+
+  // Create account tokens table
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS account_tokens (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      purpose TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      expires_at TEXT NOT NULL,
+      consumed_at TEXT,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+  `);
+
+  sqlite.run(`
+    CREATE INDEX IF NOT EXISTS idx_account_tokens_user_purpose ON account_tokens(user_id, purpose);
+  `);
+
+  // Create login throttle table
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS login_throttles (
+      scope TEXT NOT NULL,
+      key TEXT NOT NULL,
+      failures INTEGER NOT NULL DEFAULT 0,
+      last_failure_at TEXT,
+      blocked_until TEXT,
+      locked INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      updated_at INTEGER NOT NULL DEFAULT (unixepoch()),
+      PRIMARY KEY (scope, key)
+    );
+  `);
+
+  // Create document content full-text index
+  sqlite.run(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS document_content_fts USING fts5(
+      checksum UNINDEXED,
+      content,
+      tokenize = 'porter unicode61'
+    );
+  `);
 }
 
 /**
@@ -209,11 +494,24 @@ export function cleanupTestDatabase(db: TestDatabase): void {
   const sqlite = db.$client;
 
   // Delete in correct order due to foreign keys
+  sqlite.run("DELETE FROM login_throttles");
+  sqlite.run("DELETE FROM mfa_role_policies");
+  sqlite.run("DELETE FROM account_tokens");
+  sqlite.run("DELETE FROM mfa_challenges");
+  sqlite.run("DELETE FROM user_mfa");
+  sqlite.run("DELETE FROM access_tokens");
+  sqlite.run("DELETE FROM user_sessions");
+  sqlite.run("DELETE FROM upload_tickets");
+  sqlite.run("DELETE FROM upload_sessions");
   sqlite.run("DELETE FROM document_audit");
   sqlite.run("DELETE FROM download_tokens");
   sqlite.run("DELETE FROM document_metadata");
   sqlite.run("DELETE FROM document_permissions");
+  sqlite.run("DELETE FROM document_content_fts");
   sqlite.run("DELETE FROM document_versions");
   sqlite.run("DELETE FROM documents");
+  sqlite.run("DELETE FROM folders");
+  sqlite.run("DELETE FROM group_members");
+  sqlite.run("DELETE FROM groups");
   sqlite.run("DELETE FROM users");
 }